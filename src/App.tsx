@@ -15,6 +15,9 @@ const Products = lazy(() => import('./pages/Products').then(m => ({ default: m.P
 const Customers = lazy(() => import('./pages/Customers').then(m => ({ default: m.Customers })));
 const Stock = lazy(() => import('./pages/Stock').then(m => ({ default: m.Stock })));
 const Batches = lazy(() => import('./pages/Batches').then(m => ({ default: m.Batches })));
+const ExpiryManagement = lazy(() => import('./pages/ExpiryManagement').then(m => ({ default: m.ExpiryManagement })));
+const StockOpname = lazy(() => import('./pages/StockOpname').then(m => ({ default: m.StockOpname })));
+const Warehouses = lazy(() => import('./pages/Warehouses').then(m => ({ default: m.Warehouses })));
 const Inventory = lazy(() => import('./pages/Inventory').then(m => ({ default: m.Inventory })));
 const CRM = lazy(() => import('./pages/CRM').then(m => ({ default: m.CRM })));
 const CRMCommandCenter = lazy(() => import('./pages/CRMCommandCenter').then(m => ({ default: m.CRMCommandCenter })));
@@ -27,10 +30,14 @@ const Setup = lazy(() => import('./pages/Setup').then(m => ({ default: m.Setup }
 const GmailCallback = lazy(() => import('./pages/GmailCallback').then(m => ({ default: m.GmailCallback })));
 const SalesOrders = lazy(() => import('./pages/SalesOrders'));
 const ImportRequirements = lazy(() => import('./pages/ImportRequirements'));
+const DemandPlanning = lazy(() => import('./pages/DemandPlanning'));
 const ImportContainers = lazy(() => import('./pages/ImportContainers'));
+const LandedCostSimulations = lazy(() => import('./pages/LandedCostSimulations').then(m => ({ default: m.LandedCostSimulations })));
 const MaterialReturns = lazy(() => import('./pages/MaterialReturns'));
 const CreditNotes = lazy(() => import('./pages/CreditNotes').then(m => ({ default: m.CreditNotes })));
 const PurchaseOrders = lazy(() => import('./pages/PurchaseOrders'));
+const RFQs = lazy(() => import('./pages/RFQs'));
+const GoodsReceipts = lazy(() => import('./pages/GoodsReceipts'));
 const SalesTeam = lazy(() => import('./pages/SalesTeam').then(m => ({ default: m.SalesTeam })));
 
 function LoadingFallback() {
@@ -101,6 +108,12 @@ function AppContent() {
         return <Stock />;
       case 'batches':
         return <Batches />;
+      case 'expiry-management':
+        return <ExpiryManagement />;
+      case 'stock-opname':
+        return <StockOpname />;
+      case 'warehouses':
+        return <Warehouses />;
       case 'inventory':
         return <Inventory />;
       case 'customers':
@@ -109,10 +122,18 @@ function AppContent() {
         return <SalesOrders />;
       case 'purchase-orders':
         return <PurchaseOrders />;
+      case 'rfqs':
+        return <RFQs />;
+      case 'goods-receipts':
+        return <GoodsReceipts />;
       case 'import-requirements':
         return <ImportRequirements />;
+      case 'demand-planning':
+        return <DemandPlanning />;
       case 'import-containers':
         return <ImportContainers />;
+      case 'landed-cost-simulations':
+        return <LandedCostSimulations />;
       case 'crm':
         return <CRM />;
       case 'command-center':
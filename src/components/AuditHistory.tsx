@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { History, ChevronDown, ChevronRight } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateTime } from '../utils/dateFormat';
+import {
+  AuditLogEntry,
+  AUDIT_ACTION_STYLES,
+  AUDIT_ENTRY_SELECT,
+  AUDIT_HIDDEN_FIELDS,
+  AUDIT_VIEWER_ROLES,
+  formatAuditTableName,
+  formatAuditValue,
+} from '../utils/auditLog';
+
+export function AuditEntryChanges({ entry }: { entry: AuditLogEntry }) {
+  if (entry.action_type === 'update') {
+    const fields = (entry.changed_fields || []).filter(f => !AUDIT_HIDDEN_FIELDS.has(f));
+    if (fields.length === 0) {
+      return <p className="text-xs text-gray-500">No visible field changes</p>;
+    }
+    return (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-2 font-medium">Field</th>
+            <th className="py-1 pr-2 font-medium">Before</th>
+            <th className="py-1 font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field} className="border-t border-gray-100 align-top">
+              <td className="py-1 pr-2 font-mono text-gray-600">{field}</td>
+              <td className="py-1 pr-2 text-red-700 break-all">{formatAuditValue(entry.old_values?.[field])}</td>
+              <td className="py-1 text-green-700 break-all">{formatAuditValue(entry.new_values?.[field])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  const values = (entry.action_type === 'insert' ? entry.new_values : entry.old_values) || {};
+  const fields = Object.keys(values).filter(f => !AUDIT_HIDDEN_FIELDS.has(f) && values[f] !== null && values[f] !== '');
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {fields.map(field => (
+          <tr key={field} className="border-t border-gray-100 align-top">
+            <td className="py-1 pr-2 font-mono text-gray-600 w-1/3">{field}</td>
+            <td className={`py-1 break-all ${entry.action_type === 'delete' ? 'text-red-700' : 'text-gray-800'}`}>
+              {formatAuditValue(values[field])}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface AuditHistoryProps {
+  documentTable: string;
+  documentId: string;
+}
+
+export function AuditHistory({ documentTable, documentId }: AuditHistoryProps) {
+  const { profile } = useAuth();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const canView = !!profile && AUDIT_VIEWER_ROLES.includes(profile.role);
+
+  useEffect(() => {
+    if (!canView) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('audit_logs')
+          .select(AUDIT_ENTRY_SELECT)
+          .eq('document_table', documentTable)
+          .eq('document_id', documentId)
+          .order('created_at', { ascending: false })
+          .limit(200);
+
+        if (error) throw error;
+        setEntries((data || []) as unknown as AuditLogEntry[]);
+      } catch (error) {
+        console.error('Error loading document history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [canView, documentTable, documentId]);
+
+  if (!canView) return null;
+
+  const toggleEntry = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white print:hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+        <History className="w-4 h-4 text-gray-500" />
+        <h3 className="text-sm font-semibold text-gray-800">History</h3>
+        <span className="text-xs text-gray-500">({entries.length})</span>
+      </div>
+
+      {loading ? (
+        <p className="px-4 py-3 text-sm text-gray-500">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">No changes recorded for this document yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+          {entries.map(entry => {
+            const style = AUDIT_ACTION_STYLES[entry.action_type];
+            const isOpen = expanded.has(entry.id);
+            const isLine = entry.table_name !== documentTable;
+
+            return (
+              <li key={entry.id} className="px-4 py-2">
+                <button
+                  onClick={() => toggleEntry(entry.id)}
+                  className="w-full flex items-start gap-2 text-left"
+                >
+                  {isOpen
+                    ? <ChevronDown className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                    : <ChevronRight className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>{style.label}</span>
+                      <span className="text-gray-800">
+                        {isLine ? formatAuditTableName(entry.table_name) : 'Document'}
+                      </span>
+                      {entry.action_type === 'update' && entry.changed_fields && (
+                        <span className="text-xs text-gray-500 truncate">
+                          {entry.changed_fields.filter(f => !AUDIT_HIDDEN_FIELDS.has(f)).join(', ')}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {formatDateTime(entry.created_at)} · {entry.user_profiles?.full_name || entry.user_email || 'System'}
+                      {entry.source_screen && <> · {entry.source_screen}</>}
+                    </div>
+                  </div>
+                </button>
+                {isOpen && (
+                  <div className="mt-2 ml-6 p-2 bg-gray-50 rounded">
+                    <AuditEntryChanges entry={entry} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { X, Printer, Download } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { AuditHistory } from './AuditHistory';
 
 interface CreditNoteItem {
   id?: string;
@@ -421,6 +422,10 @@ export function CreditNoteView({ creditNote, items, onClose }: CreditNoteViewPro
               </div>
             )}
           </div>
+
+          <div className="px-8 pb-8">
+            <AuditHistory documentTable="credit_notes" documentId={creditNote.id} />
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ShieldCheck, Ban } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { CustomerCreditStatus, describeCreditBreach, fetchCustomerCredit } from '../utils/customerCredit';
+import { fetchExchangeRate } from '../utils/exchangeRates';
+import { formatCurrency } from '../utils/currency';
+
+interface CustomerCreditBannerProps {
+  customerId: string;
+  salesOrderId?: string;
+  // Order on screen, replaces the saved total of salesOrderId in the exposure
+  orderAmount?: number;
+  currency?: string;
+}
+
+export function CustomerCreditBanner({ customerId, salesOrderId, orderAmount = 0, currency = 'IDR' }: CustomerCreditBannerProps) {
+  const { t } = useLanguage();
+  const [credit, setCredit] = useState<CustomerCreditStatus | null>(null);
+  const [rate, setRate] = useState(1);
+
+  useEffect(() => {
+    if (!customerId) {
+      setCredit(null);
+      return;
+    }
+    let cancelled = false;
+    fetchCustomerCredit(customerId, salesOrderId).then((result) => {
+      if (!cancelled) setCredit(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, salesOrderId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchExchangeRate(currency, new Date().toISOString().split('T')[0]).then((result) => {
+      if (!cancelled) setRate(result ?? 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currency]);
+
+  if (!credit) return null;
+
+  const exposure = credit.exposure - credit.order_amount + orderAmount * rate;
+  const available = credit.credit_limit === null ? null : credit.credit_limit - exposure;
+  // Same precedence as get_customer_credit_status()
+  const status: CustomerCreditStatus['status'] = credit.credit_hold
+    ? 'on_hold'
+    : available !== null && available < 0
+      ? 'over_limit'
+      : credit.overdue_threshold_days !== null && credit.max_days_overdue > credit.overdue_threshold_days
+        ? 'overdue'
+        : 'ok';
+  const projected: CustomerCreditStatus = { ...credit, exposure, available_credit: available, status };
+  const breach = describeCreditBreach(projected);
+  const blocked = projected.status === 'on_hold' || (!!breach && credit.credit_control_mode === 'block');
+
+  const tone = !breach
+    ? 'bg-green-50 border-green-200 text-green-800'
+    : blocked
+      ? 'bg-red-50 border-red-200 text-red-800'
+      : 'bg-amber-50 border-amber-200 text-amber-800';
+  const Icon = !breach ? ShieldCheck : blocked ? Ban : AlertTriangle;
+
+  return (
+    <div className={`border rounded-lg px-3 py-2 text-xs ${tone}`}>
+      <div className="flex items-center gap-2 font-medium text-sm">
+        <Icon className="w-4 h-4" />
+        {!breach
+          ? t('salesOrders.creditWithinTerms')
+          : `${breach}${blocked ? '' : ` - ${t('salesOrders.creditNeedsApproval')}`}`}
+      </div>
+      <div className="mt-1 grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-0.5">
+        <span>{t('salesOrders.creditLimit')}: {credit.credit_limit === null ? t('salesOrders.creditNoLimit') : formatCurrency(credit.credit_limit)}</span>
+        <span>{t('salesOrders.creditExposure')}: {formatCurrency(exposure)}</span>
+        <span>{t('salesOrders.creditAvailable')}: {available === null ? '-' : formatCurrency(available)}</span>
+        <span>{t('salesOrders.creditOverdue')}: {formatCurrency(credit.overdue_amount)}{credit.max_days_overdue > 0 ? ` (${credit.max_days_overdue}d)` : ''}</span>
+      </div>
+      <div className="mt-0.5 opacity-75">
+        {t('salesOrders.creditOpenInvoices')} {formatCurrency(credit.open_invoices)}
+        {' · '}{t('salesOrders.creditUninvoicedDc')} {formatCurrency(credit.uninvoiced_deliveries)}
+        {' · '}{t('salesOrders.creditOpenOrders')} {formatCurrency(credit.open_orders)}
+      </div>
+    </div>
+  );
+}
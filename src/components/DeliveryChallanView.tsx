@@ -2,6 +2,7 @@ import { useRef } from 'react';
 import { X, Printer, Download } from 'lucide-react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { AuditHistory } from './AuditHistory';
 
 interface ChallanItem {
   id: string;
@@ -374,6 +375,10 @@ export function DeliveryChallanView({ challan, items, onClose }: DeliveryChallan
               </div>
             </div>
           </div>
+
+          <div className="px-8 pb-8">
+            <AuditHistory documentTable="delivery_challans" documentId={challan.id} />
+          </div>
         </div>
       </div>
 
@@ -15,18 +15,23 @@ interface ImportRequirement {
   status: 'pending' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
   lead_time_days: number;
   notes?: string;
+  purchase_order_id?: string | null;
   products?: { product_name: string; product_code: string };
   sales_orders?: { so_number: string };
   customers?: { company_name: string };
+  purchase_orders?: { po_number: string; status: string } | null;
 }
 
 interface ImportRequirementsTableProps {
   requirements: ImportRequirement[];
   onRefresh: () => void;
   canEdit: boolean;
+  // Pending, un-ordered rows get a checkbox when provided
+  selectedIds?: Set<string>;
+  onToggleSelect?: (id: string) => void;
 }
 
-export function ImportRequirementsTable({ requirements, onRefresh, canEdit }: ImportRequirementsTableProps) {
+export function ImportRequirementsTable({ requirements, onRefresh, canEdit, selectedIds, onToggleSelect }: ImportRequirementsTableProps) {
   const [editingCell, setEditingCell] = useState<{ id: string; field: string } | null>(null);
   const [editValue, setEditValue] = useState<any>('');
   const inputRef = useRef<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(null);
@@ -130,6 +135,7 @@ export function ImportRequirementsTable({ requirements, onRefresh, canEdit }: Im
       <table className="w-full">
         <thead className="bg-gray-50 border-b border-gray-200">
           <tr>
+            {onToggleSelect && <th className="px-4 py-3 w-8"></th>}
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Product</th>
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Sales Order</th>
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Customer</th>
@@ -138,6 +144,7 @@ export function ImportRequirementsTable({ requirements, onRefresh, canEdit }: Im
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Delivery Date</th>
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Priority</th>
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Status</th>
+            <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">PO</th>
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Lead Time</th>
             <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Notes</th>
           </tr>
@@ -150,6 +157,18 @@ export function ImportRequirementsTable({ requirements, onRefresh, canEdit }: Im
 
             return (
               <tr key={req.id} className="hover:bg-gray-50">
+                {onToggleSelect && (
+                  <td className="px-4 py-3">
+                    {req.status === 'pending' && !req.purchase_order_id && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds?.has(req.id) || false}
+                        onChange={() => onToggleSelect(req.id)}
+                        className="rounded border-gray-300"
+                      />
+                    )}
+                  </td>
+                )}
                 <td className="px-4 py-3">
                   <div className="text-sm font-medium text-gray-900">{req.products?.product_name}</div>
                   <div className="text-xs text-gray-500">{req.products?.product_code}</div>
@@ -250,6 +269,14 @@ export function ImportRequirementsTable({ requirements, onRefresh, canEdit }: Im
                   )}
                 </td>
 
+                <td className="px-4 py-3 text-sm">
+                  {req.purchase_orders ? (
+                    <span className="font-mono text-xs text-blue-700" title={req.purchase_orders.status}>{req.purchase_orders.po_number}</span>
+                  ) : (
+                    <span className="text-gray-400">-</span>
+                  )}
+                </td>
+
                 <td className="px-4 py-3">
                   {editingCell?.id === req.id && editingCell.field === 'lead_time_days' ? (
                     <input
@@ -3,6 +3,7 @@ import { X, Printer, Download } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { AuditHistory } from './AuditHistory';
 
 interface InvoiceItem {
   id?: string;
@@ -620,6 +621,10 @@ export function InvoiceView({ invoice, items, onClose }: InvoiceViewProps) {
                 </div>
               </div>
             </div>
+
+          <div className="mt-6">
+            <AuditHistory documentTable="sales_invoices" documentId={invoice.id} />
+          </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,367 @@
+import { useEffect, useState } from 'react';
+import { X, Edit, CheckCircle, Clock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { AuditHistory } from './AuditHistory';
+import { formatDate } from '../utils/dateFormat';
+import { formatCurrency, formatNumber } from '../utils/currency';
+import {
+  ALLOCATED_COST_FIELDS,
+  AllocatedCosts,
+  SimulationSourceType,
+  projectLandedCost,
+  totalAllocatedCosts,
+  variancePercent,
+} from '../utils/landedCost';
+
+export interface LandedCostSimulation extends AllocatedCosts {
+  id: string;
+  simulation_number: string;
+  simulation_date: string;
+  title: string;
+  source_type: SimulationSourceType;
+  purchase_order_id: string | null;
+  import_container_id: string | null;
+  supplier_id: string | null;
+  currency: string;
+  exchange_rate: number;
+  target_margin_percent: number;
+  notes: string | null;
+  suppliers: { company_name: string } | null;
+  purchase_orders: { po_number: string } | null;
+}
+
+export interface LandedCostSimulationItem {
+  id: string;
+  line_number: number;
+  product_id: string;
+  purchase_order_item_id: string | null;
+  import_requirement_id: string | null;
+  quantity: number;
+  unit_price: number;
+  duty_percent: number;
+  products: { product_name: string; product_code: string | null; unit: string } | null;
+}
+
+interface ActualContainer extends AllocatedCosts {
+  container_id: string;
+  container_ref: string;
+  import_date: string;
+  status: string;
+  duty_bm: number;
+  total_quantity: number;
+}
+
+interface ActualCost {
+  product_id: string;
+  received_quantity: number;
+  import_price: number;
+  duty_per_unit: number;
+  allocated_per_unit: number;
+  landed_cost_per_unit: number;
+}
+
+interface LandedCostSimulationViewProps {
+  simulation: LandedCostSimulation;
+  items: LandedCostSimulationItem[];
+  canManage: boolean;
+  onEdit: () => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<SimulationSourceType, string> = {
+  purchase_order: 'Purchase order',
+  import_requirement: 'Import requirements',
+  manual: 'Manual',
+};
+
+const VarianceCell = ({ estimate, actual }: { estimate: number; actual: number }) => {
+  const pct = variancePercent(estimate, actual);
+  if (pct === null) return <td className="px-2 py-1.5 text-right text-gray-400">-</td>;
+  return (
+    <td className={`px-2 py-1.5 text-right ${pct > 0.5 ? 'text-red-600' : pct < -0.5 ? 'text-green-600' : 'text-gray-600'}`}>
+      {pct > 0 ? '+' : ''}{formatNumber(pct, 1)}%
+    </td>
+  );
+};
+
+export function LandedCostSimulationView({ simulation, items, canManage, onEdit, onClose }: LandedCostSimulationViewProps) {
+  const [containers, setContainers] = useState<ActualContainer[]>([]);
+  const [actuals, setActuals] = useState<ActualCost[]>([]);
+  const [loadingActuals, setLoadingActuals] = useState(true);
+
+  useEffect(() => {
+    loadActuals();
+  }, [simulation.id]);
+
+  const loadActuals = async () => {
+    setLoadingActuals(true);
+    const [containerResult, actualResult] = await Promise.all([
+      supabase.rpc('get_landed_cost_simulation_containers', { p_simulation_id: simulation.id }),
+      supabase.rpc('get_landed_cost_simulation_actuals', { p_simulation_id: simulation.id }),
+    ]);
+    if (containerResult.error || actualResult.error) {
+      console.error('Error loading actual landed cost:', containerResult.error || actualResult.error);
+    }
+    setContainers((containerResult.data || []) as ActualContainer[]);
+    setActuals((actualResult.data || []) as ActualCost[]);
+    setLoadingActuals(false);
+  };
+
+  const margin = Number(simulation.target_margin_percent);
+  const results = projectLandedCost(items, simulation.exchange_rate, simulation, margin);
+  const totalQuantity = items.reduce((sum, item) => sum + Number(item.quantity), 0);
+  const invoiceValue = results.reduce((sum, r, i) => sum + r.import_price * Number(items[i].quantity), 0);
+  const dutyTotal = results.reduce((sum, r, i) => sum + r.duty_per_unit * Number(items[i].quantity), 0);
+  const allocatedTotal = totalAllocatedCosts(simulation);
+  const landedTotal = results.reduce((sum, r) => sum + r.total_landed_cost, 0);
+
+  // Final once every container has been allocated or locked; draft containers may still pick up costs
+  const isFinal = containers.length > 0 && containers.every(c => c.status === 'allocated' || c.status === 'locked');
+  const actualCost = (key: keyof AllocatedCosts | 'duty_bm') =>
+    containers.reduce((sum, c) => sum + Number(c[key] || 0), 0);
+  const actualQuantity = containers.reduce((sum, c) => sum + Number(c.total_quantity), 0);
+  const actualAllocatedTotal = ALLOCATED_COST_FIELDS.reduce((sum, field) => sum + actualCost(field.key), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-gray-900 bg-opacity-75">
+      <div className="flex min-h-screen items-start justify-center p-4 pt-10">
+        <div className="relative w-full max-w-6xl bg-white shadow-xl rounded-lg">
+          <div className="sticky top-0 z-10 flex items-center justify-between border-b bg-white px-4 py-3 rounded-t-lg">
+            <h2 className="text-lg font-bold text-gray-900">
+              {simulation.simulation_number} <span className="font-normal text-gray-600">· {simulation.title}</span>
+            </h2>
+            <div className="flex gap-2">
+              {canManage && (
+                <button onClick={onEdit} className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+                  <Edit className="w-4 h-4" /> Edit
+                </button>
+              )}
+              <button onClick={onClose} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-5">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div>
+                <p className="text-xs text-gray-500">Date</p>
+                <p className="font-medium">{formatDate(simulation.simulation_date)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Source</p>
+                <p className="font-medium">
+                  {SOURCE_LABELS[simulation.source_type]}
+                  {simulation.purchase_orders && ` · ${simulation.purchase_orders.po_number}`}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Supplier</p>
+                <p className="font-medium">{simulation.suppliers?.company_name || '-'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Rate · Target margin</p>
+                <p className="font-medium">
+                  1 {simulation.currency} = {formatNumber(simulation.exchange_rate)} IDR · {formatNumber(margin, 1)}%
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="border rounded-lg p-3">
+                <p className="text-xs text-gray-500">Invoice value (IDR)</p>
+                <p className="text-lg font-semibold">{formatCurrency(invoiceValue)}</p>
+              </div>
+              <div className="border rounded-lg p-3">
+                <p className="text-xs text-gray-500">Duty (BM)</p>
+                <p className="text-lg font-semibold">{formatCurrency(dutyTotal)}</p>
+              </div>
+              <div className="border rounded-lg p-3">
+                <p className="text-xs text-gray-500">Container costs spread by quantity</p>
+                <p className="text-lg font-semibold">{formatCurrency(allocatedTotal)}</p>
+              </div>
+              <div className="border rounded-lg p-3 bg-blue-50 border-blue-200">
+                <p className="text-xs text-blue-700">Projected landed cost</p>
+                <p className="text-lg font-semibold text-blue-900">{formatCurrency(landedTotal)}</p>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Projected cost and price per unit</h3>
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600">Product</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Qty</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Unit price ({simulation.currency})</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Import price</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Duty</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Container costs</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Landed / unit</th>
+                      <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Suggested price</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {items.map((item, index) => (
+                      <tr key={item.id}>
+                        <td className="px-2 py-1.5">
+                          {item.products?.product_name}
+                          {item.products?.product_code && <span className="ml-1 text-xs text-gray-500">{item.products.product_code}</span>}
+                        </td>
+                        <td className="px-2 py-1.5 text-right">{Number(item.quantity).toLocaleString()} {item.products?.unit}</td>
+                        <td className="px-2 py-1.5 text-right">{formatNumber(item.unit_price, 4)}</td>
+                        <td className="px-2 py-1.5 text-right">{formatCurrency(results[index].import_price)}</td>
+                        <td className="px-2 py-1.5 text-right">
+                          {formatCurrency(results[index].duty_per_unit)}
+                          <span className="ml-1 text-xs text-gray-500">({formatNumber(item.duty_percent, 1)}%)</span>
+                        </td>
+                        <td className="px-2 py-1.5 text-right">{formatCurrency(results[index].allocated_per_unit)}</td>
+                        <td className="px-2 py-1.5 text-right font-medium">{formatCurrency(results[index].landed_cost_per_unit)}</td>
+                        <td className="px-2 py-1.5 text-right font-semibold text-green-700">{formatCurrency(results[index].suggested_price)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Duty is charged on the import price at the product's duty %. Other container costs are spread evenly over
+                the {totalQuantity.toLocaleString()} units, as the container allocation does. PPN and PPh Import are creditable and not part of landed cost.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Estimate vs actual</h3>
+              {loadingActuals ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : containers.length === 0 ? (
+                <p className="text-sm text-gray-500 border rounded-lg p-3">
+                  No container yet. Once the goods are received into an import container
+                  {simulation.purchase_order_id ? ' against the purchase order' : ''}, or a container is linked to this
+                  simulation, the actual allocation is compared here.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {containers.map(c => (
+                      <span key={c.container_id} className="px-2 py-0.5 rounded border text-xs">
+                        {c.container_ref} · {formatDate(c.import_date)} · {c.status}
+                      </span>
+                    ))}
+                    {isFinal ? (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                        <CheckCircle className="w-3 h-3" /> Final
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                        <Clock className="w-3 h-3" /> Provisional - container costs not yet allocated
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                    <div className="overflow-x-auto border rounded-lg">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600">Cost</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Estimate</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Actual</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Variance</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          <tr>
+                            <td className="px-2 py-1.5">Duty (BM)</td>
+                            <td className="px-2 py-1.5 text-right">{formatCurrency(dutyTotal)}</td>
+                            <td className="px-2 py-1.5 text-right">{formatCurrency(actualCost('duty_bm'))}</td>
+                            <VarianceCell estimate={dutyTotal} actual={actualCost('duty_bm')} />
+                          </tr>
+                          {ALLOCATED_COST_FIELDS.map(field => (
+                            <tr key={field.key}>
+                              <td className="px-2 py-1.5">{field.label}</td>
+                              <td className="px-2 py-1.5 text-right">{formatCurrency(simulation[field.key])}</td>
+                              <td className="px-2 py-1.5 text-right">{formatCurrency(actualCost(field.key))}</td>
+                              <VarianceCell estimate={Number(simulation[field.key])} actual={actualCost(field.key)} />
+                            </tr>
+                          ))}
+                          <tr className="bg-gray-50 font-medium">
+                            <td className="px-2 py-1.5">Spread per unit</td>
+                            <td className="px-2 py-1.5 text-right">
+                              {formatCurrency(totalQuantity > 0 ? allocatedTotal / totalQuantity : 0)}
+                            </td>
+                            <td className="px-2 py-1.5 text-right">
+                              {formatCurrency(actualQuantity > 0 ? actualAllocatedTotal / actualQuantity : 0)}
+                            </td>
+                            <VarianceCell
+                              estimate={totalQuantity > 0 ? allocatedTotal / totalQuantity : 0}
+                              actual={actualQuantity > 0 ? actualAllocatedTotal / actualQuantity : 0}
+                            />
+                          </tr>
+                        </tbody>
+                      </table>
+                      <p className="px-2 py-1 text-xs text-gray-500">
+                        Actual is the whole container ({actualQuantity.toLocaleString()} units), which may carry goods outside this simulation.
+                      </p>
+                    </div>
+
+                    <div className="overflow-x-auto border rounded-lg">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600">Product</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Est. landed</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Actual landed</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Variance</th>
+                            <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Margin at suggested price</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {items.map((item, index) => {
+                            const actual = actuals.find(a => a.product_id === item.product_id);
+                            const estimate = results[index];
+                            const actualMargin = actual && estimate.suggested_price > 0
+                              ? ((estimate.suggested_price - Number(actual.landed_cost_per_unit)) / estimate.suggested_price) * 100
+                              : null;
+                            return (
+                              <tr key={item.id}>
+                                <td className="px-2 py-1.5">
+                                  {item.products?.product_name}
+                                  {actual && (
+                                    <span className="block text-xs text-gray-500">
+                                      {Number(actual.received_quantity).toLocaleString()} received
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="px-2 py-1.5 text-right">{formatCurrency(estimate.landed_cost_per_unit)}</td>
+                                {actual ? (
+                                  <>
+                                    <td className="px-2 py-1.5 text-right">{formatCurrency(actual.landed_cost_per_unit)}</td>
+                                    <VarianceCell estimate={estimate.landed_cost_per_unit} actual={Number(actual.landed_cost_per_unit)} />
+                                    <td className={`px-2 py-1.5 text-right ${actualMargin !== null && actualMargin < margin ? 'text-red-600' : 'text-gray-700'}`}>
+                                      {actualMargin !== null ? `${formatNumber(actualMargin, 1)}%` : '-'}
+                                    </td>
+                                  </>
+                                ) : (
+                                  <td colSpan={3} className="px-2 py-1.5 text-right text-xs text-gray-400">Not received</td>
+                                )}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {simulation.notes && <p className="text-sm text-gray-700">Notes: {simulation.notes}</p>}
+
+            <AuditHistory documentTable="landed_cost_simulations" documentId={simulation.id} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Package,
   Boxes,
   Warehouse,
+  CalendarClock,
   Users,
   UserCircle,
   ShoppingCart,
@@ -24,12 +25,17 @@ import {
   CheckSquare,
   FileText,
   ClipboardCheck,
+  ArrowLeftRight,
+  Calculator,
   TrendingUp,
   RotateCcw,
   AlertTriangle,
   ClipboardList,
   Sparkles,
   Calendar,
+  PackageCheck,
+  BarChart3,
+  FileSearch,
 } from 'lucide-react';
 import logo from '../assets/Untitled-1.svg';
 
@@ -117,13 +123,20 @@ export function Layout({ children }: LayoutProps) {
     { id: 'products', label: t('nav.products'), icon: Package, roles: ['admin', 'sales', 'warehouse'] },
     { id: 'batches', label: t('nav.batches'), icon: Boxes, roles: ['admin', 'warehouse', 'accounts'] },
     { id: 'stock', label: t('nav.stock'), icon: Warehouse, roles: ['admin', 'sales', 'warehouse', 'accounts'] },
+    { id: 'expiry-management', label: t('nav.expiryManagement'), icon: CalendarClock, roles: ['admin', 'sales', 'warehouse', 'accounts'] },
+    { id: 'stock-opname', label: t('nav.stockOpname'), icon: ClipboardCheck, roles: ['admin', 'warehouse', 'accounts'] },
+    { id: 'warehouses', label: t('nav.warehouses'), icon: ArrowLeftRight, roles: ['admin', 'warehouse', 'accounts'] },
     { id: 'customers', label: t('nav.customers'), icon: Users, roles: ['admin', 'accounts', 'sales', 'warehouse'] },
     { id: 'sales-orders', label: t('nav.salesOrders'), icon: FileText, roles: ['admin', 'accounts', 'sales', 'warehouse'] },
     { id: 'delivery-challan', label: t('nav.deliveryChallan'), icon: Truck, roles: ['admin', 'accounts', 'sales', 'warehouse'] },
     { id: 'sales', label: t('nav.sales'), icon: ShoppingCart, roles: ['admin', 'accounts', 'sales', 'warehouse', 'auditor_ca'] },
     { id: 'purchase-orders', label: t('nav.purchaseOrders'), icon: ClipboardList, roles: ['admin', 'warehouse', 'sales', 'accounts', 'auditor_ca'] },
+    { id: 'rfqs', label: t('nav.rfqs'), icon: FileSearch, roles: ['admin', 'warehouse', 'sales', 'accounts', 'auditor_ca'] },
+    { id: 'goods-receipts', label: t('nav.goodsReceipts'), icon: PackageCheck, roles: ['admin', 'warehouse', 'accounts', 'auditor_ca'] },
     { id: 'import-requirements', label: t('nav.importRequirements'), icon: TrendingUp, roles: ['admin', 'sales'] },
+    { id: 'demand-planning', label: t('nav.demandPlanning'), icon: BarChart3, roles: ['admin', 'sales', 'warehouse'] },
     { id: 'import-containers', label: t('nav.importContainers'), icon: Package, roles: ['admin', 'accounts'] },
+    { id: 'landed-cost-simulations', label: t('nav.landedCostSimulations'), icon: Calculator, roles: ['admin', 'accounts', 'sales'] },
     { id: 'finance', label: t('nav.finance'), icon: DollarSign, roles: ['admin', 'accounts', 'auditor_ca'] },
     { id: 'crm', label: t('nav.crm'), icon: UserCircle, roles: ['admin', 'sales'] },
     { id: 'command-center', label: t('nav.commandCenter'), icon: Zap, roles: ['admin', 'sales'] },
@@ -2,6 +2,7 @@ import { useRef } from 'react';
 import { X, Printer, Download } from 'lucide-react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { AuditHistory } from './AuditHistory';
 
 interface ReturnItem {
   id?: string;
@@ -340,6 +341,10 @@ export function MaterialReturnView({ materialReturn, items, onClose }: MaterialR
               </div>
             )}
           </div>
+
+          <div className="px-8 pb-8">
+            <AuditHistory documentTable="material_returns" documentId={materialReturn.id} />
+          </div>
         </div>
       </div>
 
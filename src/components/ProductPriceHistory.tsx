@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { showToast } from './ToastNotification';
+import { showConfirm } from './ConfirmDialog';
+import { formatDate } from '../utils/dateFormat';
+import {
+  INCOTERMS,
+  PRICE_CURRENCIES,
+  isPriceExpired,
+  priceChangePercent,
+  type SourcePrice,
+} from '../utils/supplierPricing';
+import { Plus, Trash2, TrendingDown, TrendingUp } from 'lucide-react';
+
+interface ProductPriceHistoryProps {
+  sources: { id: string; supplier_name: string }[];
+  canEdit: boolean;
+}
+
+const emptyPrice = (sourceId: string) => ({
+  source_id: sourceId,
+  price_date: new Date().toISOString().split('T')[0],
+  unit_price: '',
+  currency: 'USD',
+  incoterm: 'CIF',
+  moq: '',
+  lead_time_days: '',
+  valid_until: '',
+  notes: '',
+});
+
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * 80},${20 - ((v - min) / range) * 18 - 1}`)
+    .join(' ');
+  return (
+    <svg width="80" height="20" className="inline-block">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" />
+    </svg>
+  );
+}
+
+export function ProductPriceHistory({ sources, canEdit }: ProductPriceHistoryProps) {
+  const [prices, setPrices] = useState<SourcePrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ReturnType<typeof emptyPrice> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const sourceIds = sources.map(s => s.id).join(',');
+
+  useEffect(() => {
+    loadPrices();
+  }, [sourceIds]);
+
+  const loadPrices = async () => {
+    if (sources.length === 0) {
+      setPrices([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('product_source_prices')
+        .select('*')
+        .in('source_id', sources.map(s => s.id))
+        .order('price_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setPrices((data || []) as SourcePrice[]);
+    } catch (error) {
+      console.error('Error loading price history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('product_source_prices').insert({
+        source_id: form.source_id,
+        price_date: form.price_date,
+        unit_price: parseFloat(form.unit_price),
+        currency: form.currency,
+        incoterm: form.incoterm || null,
+        moq: form.moq ? parseFloat(form.moq) : null,
+        lead_time_days: form.lead_time_days ? parseInt(form.lead_time_days) : null,
+        valid_until: form.valid_until || null,
+        notes: form.notes || null,
+      });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Success', message: 'Price added' });
+      setForm(null);
+      loadPrices();
+    } catch (error) {
+      console.error('Error saving price:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to save price' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (price: SourcePrice) => {
+    if (!await showConfirm({ title: 'Confirm', message: 'Delete this price entry?', variant: 'danger', confirmLabel: 'Delete' })) return;
+    const { error } = await supabase.from('product_source_prices').delete().eq('id', price.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    loadPrices();
+  };
+
+  const supplierName = (sourceId: string) => sources.find(s => s.id === sourceId)?.supplier_name || '-';
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Supplier Prices</h3>
+        {canEdit && !form && (
+          <button
+            onClick={() => setForm(emptyPrice(sources[0].id))}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add Price
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <form onSubmit={handleSave} className="grid grid-cols-4 gap-3 p-4 mb-4 bg-gray-50 rounded-lg text-sm">
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Source *</label>
+            <select
+              value={form.source_id}
+              onChange={(e) => setForm({ ...form, source_id: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            >
+              {sources.map(s => <option key={s.id} value={s.id}>{s.supplier_name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Price Date *</label>
+            <input
+              type="date"
+              value={form.price_date}
+              onChange={(e) => setForm({ ...form, price_date: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Valid Until</label>
+            <input
+              type="date"
+              value={form.valid_until}
+              onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Unit Price *</label>
+            <input
+              type="number"
+              step="0.0001"
+              min="0"
+              value={form.unit_price}
+              onChange={(e) => setForm({ ...form, unit_price: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+            <select
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            >
+              {PRICE_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Incoterm</label>
+            <select
+              value={form.incoterm}
+              onChange={(e) => setForm({ ...form, incoterm: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            >
+              <option value="">-</option>
+              {INCOTERMS.map(term => <option key={term} value={term}>{term}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">MOQ</label>
+            <input
+              type="number"
+              step="0.001"
+              min="0"
+              value={form.moq}
+              onChange={(e) => setForm({ ...form, moq: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Lead Time (days)</label>
+            <input
+              type="number"
+              min="0"
+              value={form.lead_time_days}
+              onChange={(e) => setForm({ ...form, lead_time_days: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            />
+          </div>
+          <div className="col-span-3">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            />
+          </div>
+          <div className="col-span-4 flex justify-end gap-2">
+            <button type="button" onClick={() => setForm(null)} className="px-3 py-1.5 border rounded-lg hover:bg-white">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Price'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-4 text-gray-500 text-sm">Loading...</div>
+      ) : prices.length === 0 ? (
+        <div className="text-center py-4 text-gray-500 text-sm">No prices recorded for these sources yet.</div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Trend</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Terms</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valid Until</th>
+                {canEdit && <th className="px-4 py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {prices.map(price => {
+                // Prices are newest first, so the previous quote from the same source comes later
+                const history = prices.filter(p => p.source_id === price.source_id && p.currency === price.currency);
+                const previous = history[history.indexOf(price) + 1];
+                const change = priceChangePercent(price, previous);
+                const isLatest = history[0] === price;
+                return (
+                  <tr key={price.id} className={isLatest ? '' : 'text-gray-500'}>
+                    <td className="px-4 py-2 font-medium">{supplierName(price.source_id)}</td>
+                    <td className="px-4 py-2">{formatDate(price.price_date)}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {price.currency} {Number(price.unit_price).toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                      {change !== null && change !== 0 && (
+                        <span className={`ml-2 inline-flex items-center text-xs ${change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {change > 0 ? <TrendingUp className="w-3 h-3 mr-0.5" /> : <TrendingDown className="w-3 h-3 mr-0.5" />}
+                          {Math.abs(change).toFixed(1)}%
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-blue-600">
+                      {isLatest && <Sparkline values={history.slice(0, 12).reverse().map(p => Number(p.unit_price))} />}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {[
+                        price.incoterm,
+                        price.moq ? `MOQ ${Number(price.moq).toLocaleString()}` : null,
+                        price.lead_time_days != null ? `${price.lead_time_days}d` : null,
+                      ].filter(Boolean).join(' · ') || '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      {price.valid_until ? (
+                        <span className={isPriceExpired(price) ? 'text-red-600' : ''}>
+                          {formatDate(price.valid_until)}{isPriceExpired(price) ? ' (expired)' : ''}
+                        </span>
+                      ) : '-'}
+                    </td>
+                    {canEdit && (
+                      <td className="px-4 py-2 text-right">
+                        {!price.rfq_quote_id && (
+                          <button onClick={() => handleDelete(price)} className="text-red-600 hover:text-red-800 p-1">
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { X, Printer, Download } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { AuditHistory } from './AuditHistory';
 
 interface POItem {
   id?: string;
@@ -430,6 +431,10 @@ export function PurchaseOrderView({ purchaseOrder: po, items, onClose }: Purchas
               </div>
             )}
           </div>
+
+          <div className="px-8 pb-8">
+            <AuditHistory documentTable="purchase_orders" documentId={po.id} />
+          </div>
         </div>
       </div>
 
@@ -6,8 +6,10 @@ import { Plus, Trash2, X, FileText } from 'lucide-react';
 import { SearchableSelect } from './SearchableSelect';
 import { showToast } from './ToastNotification';
 import { showConfirm } from './ConfirmDialog';
+import { CustomerCreditBanner } from './CustomerCreditBanner';
+import { ShelfLifeBatch, ShelfLifeRule, describeShelfLifeRule, getShelfLifeShortfall, hasShelfLifeRule } from '../utils/shelfLife';
 
-interface Customer {
+interface Customer extends ShelfLifeRule {
   id: string;
   company_name: string;
 }
@@ -18,10 +20,18 @@ interface Product {
   product_code: string;
 }
 
+interface StockBatch extends ShelfLifeBatch {
+  id: string;
+  current_stock: number;
+  reserved_stock: number | null;
+  is_active: boolean;
+}
+
 interface StockInfo {
   total_stock: number;
   reserved_stock: number;
   free_stock: number;
+  batches: StockBatch[];
 }
 
 interface OrderItem {
@@ -151,7 +161,7 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
     try {
       const { data, error } = await supabase
         .from('customers')
-        .select('id, company_name')
+        .select('id, company_name, min_shelf_life_months, min_shelf_life_percent, shelf_life_rule_mode')
         .eq('is_active', true)
         .order('company_name');
 
@@ -181,7 +191,7 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
     try {
       const { data: batches, error } = await supabase
         .from('batches')
-        .select('id, current_stock')
+        .select('id, current_stock, reserved_stock, is_active, expiry_date, import_date, manufacture_date')
         .eq('product_id', productId);
 
       if (error) throw error;
@@ -199,13 +209,25 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
 
       setStockInfo(prev => ({
         ...prev,
-        [productId]: { total_stock: totalStock, reserved_stock: reservedStock, free_stock: freeStock }
+        [productId]: { total_stock: totalStock, reserved_stock: reservedStock, free_stock: freeStock, batches: batches || [] }
       }));
     } catch (error: any) {
       console.error('Error fetching stock info:', error.message);
     }
   };
 
+  // Free stock in batches that still meet the customer's shelf-life rule on the expected
+  // delivery date; null when the customer has no rule
+  const getEligibleFreeStock = (productId: string) => {
+    const customer = customers.find(c => c.id === formData.customer_id);
+    const stock = stockInfo[productId];
+    if (!stock || !hasShelfLifeRule(customer)) return null;
+    const asOf = formData.expected_delivery_date || new Date();
+    return stock.batches
+      .filter(b => b.is_active && !getShelfLifeShortfall(b, customer, asOf))
+      .reduce((sum, b) => sum + Math.max(Number(b.current_stock) - Number(b.reserved_stock || 0), 0), 0);
+  };
+
   const handleProductChange = (index: number, productId: string) => {
     const product = products.find(p => p.id === productId);
     if (!product) return;
@@ -347,6 +369,27 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
       return;
     }
 
+    const customer = customers.find(c => c.id === formData.customer_id);
+    const shortDatedLines = items
+      .map(item => ({ item, eligible: getEligibleFreeStock(item.product_id) }))
+      .filter(({ item, eligible }) =>
+        eligible !== null && eligible < item.quantity && (stockInfo[item.product_id]?.free_stock || 0) > eligible);
+    if (customer && shortDatedLines.length > 0) {
+      const details = shortDatedLines
+        .map(({ item, eligible }) => `${products.find(p => p.id === item.product_id)?.product_name}: ${eligible} of ${item.quantity} meet the rule`)
+        .join('\n');
+      const confirmed = await showConfirm({
+        title: 'Short Shelf Life',
+        message: `${customer.company_name} requires ${describeShelfLifeRule(customer)}. Part of the free stock is too short-dated:\n${details}\n\n`
+          + (customer.shelf_life_rule_mode === 'block'
+            ? 'Short-dated batches will not be reserved or delivered, so these lines will go to shortage.'
+            : 'Short-dated batches can only be delivered with an override reason.')
+          + '\n\nDo you want to continue?',
+        variant: 'warning',
+      });
+      if (!confirmed) return;
+    }
+
     // Check if editing an approved/reserved order
     const wasApproved = existingOrder && ['approved', 'stock_reserved', 'shortage', 'pending_approval'].includes(existingOrder.status);
 
@@ -536,10 +579,19 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
     if (!stock) return null;
 
     const hasEnough = stock.free_stock >= quantity;
+    const eligible = getEligibleFreeStock(productId);
+    const blocks = customers.find(c => c.id === formData.customer_id)?.shelf_life_rule_mode === 'block';
     return (
-      <div className={`text-xs ${hasEnough ? 'text-green-600' : 'text-red-600'}`}>
-        {t('salesOrders.freeStock')}: {stock.free_stock} {!hasEnough && '(Insufficient!)'}
-      </div>
+      <>
+        <div className={`text-xs ${hasEnough ? 'text-green-600' : 'text-red-600'}`}>
+          {t('salesOrders.freeStock')}: {stock.free_stock} {!hasEnough && '(Insufficient!)'}
+        </div>
+        {eligible !== null && eligible < stock.free_stock && (
+          <div className={`text-xs ${eligible >= quantity ? 'text-gray-500' : blocks ? 'text-red-600' : 'text-amber-600'}`}>
+            Meets customer shelf life: {eligible}
+          </div>
+        )}
+      </>
     );
   };
 
@@ -556,6 +608,15 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
 
   return (
     <form className="space-y-6">
+      {formData.customer_id && (
+        <CustomerCreditBanner
+          customerId={formData.customer_id}
+          salesOrderId={existingOrder?.id}
+          orderAmount={grandTotal}
+          currency={formData.currency}
+        />
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">{t('sales.customer')} *</label>
@@ -565,6 +626,10 @@ export default function SalesOrderForm({ existingOrder, onSuccess, onCancel }: S
             options={customers.map(c => ({ value: c.id, label: c.company_name }))}
             placeholder={`${t('common.filter')} ${t('sales.customer')}`}
           />
+          {(() => {
+            const rule = describeShelfLifeRule(customers.find(c => c.id === formData.customer_id));
+            return rule ? <p className="mt-1 text-xs text-amber-700">Requires {rule} at delivery</p> : null;
+          })()}
         </div>
 
         <div>
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { formatDate } from '../utils/dateFormat';
+import { CUSTOMER_SEGMENTS, formatCustomerSegment } from '../utils/shelfLife';
+
+interface SellabilityRow {
+  batch_id: string;
+  product_id: string;
+  product_name: string;
+  batch_number: string;
+  expiry_date: string;
+  free_quantity: number;
+  months_left: number;
+  percent_left: number | null;
+  customer_segment: string;
+  customers_in_segment: number;
+  customers_blocked: number;
+  customers_warned: number;
+  example_reason: string;
+}
+
+interface BatchGroup {
+  batch_id: string;
+  product_name: string;
+  batch_number: string;
+  expiry_date: string;
+  free_quantity: number;
+  months_left: number;
+  percent_left: number | null;
+  segments: SellabilityRow[];
+}
+
+export function ShelfLifeReport() {
+  const [rows, setRows] = useState<SellabilityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [segment, setSegment] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_shelf_life_sellability');
+        if (error) throw error;
+        setRows((data || []) as SellabilityRow[]);
+      } catch (error) {
+        console.error('Error loading shelf-life report:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReport();
+  }, []);
+
+  const term = search.trim().toLowerCase();
+  const groups = rows
+    .filter(row => !segment || row.customer_segment === segment)
+    .filter(row => !term || row.product_name.toLowerCase().includes(term) || row.batch_number.toLowerCase().includes(term))
+    .reduce<BatchGroup[]>((acc, row) => {
+      let group = acc.find(g => g.batch_id === row.batch_id);
+      if (!group) {
+        group = { ...row, segments: [] };
+        acc.push(group);
+      }
+      group.segments.push(row);
+      return acc;
+    }, []);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Batches in stock that fail the minimum shelf life of at least one customer, by customer segment.
+        Blocked customers cannot receive the batch at all; warned customers need an override reason.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Product or batch"
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={segment}
+          onChange={(e) => setSegment(e.target.value)}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+        >
+          <option value="">All segments</option>
+          {CUSTOMER_SEGMENTS.map(s => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+          <option value="unassigned">Unassigned</option>
+        </select>
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg max-h-[60vh] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product / Batch</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expiry</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Free Qty</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Left</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cannot Be Sold To</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : groups.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-8 text-center text-gray-500">All stock meets every customer's shelf-life rule</td>
+              </tr>
+            ) : (
+              groups.map(group => (
+                <tr key={group.batch_id} className="align-top hover:bg-gray-50">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{group.product_name}</div>
+                    <div className="text-xs text-gray-500">{group.batch_number}</div>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{formatDate(group.expiry_date)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{Number(group.free_quantity).toLocaleString()}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap text-gray-700">
+                    {group.months_left} mo
+                    {group.percent_left !== null && <div className="text-xs text-gray-500">{Number(group.percent_left)}%</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {group.segments.map(s => (
+                        <span
+                          key={s.customer_segment}
+                          title={s.example_reason}
+                          className={`px-2 py-0.5 rounded text-xs ${
+                            s.customers_blocked > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'
+                          }`}
+                        >
+                          {formatCustomerSegment(s.customer_segment === 'unassigned' ? null : s.customer_segment)}:{' '}
+                          {s.customers_blocked > 0 && `${s.customers_blocked} blocked`}
+                          {s.customers_blocked > 0 && s.customers_warned > 0 && ', '}
+                          {s.customers_warned > 0 && `${s.customers_warned} warned`}
+                          {' '}of {s.customers_in_segment}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
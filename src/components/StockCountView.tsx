@@ -0,0 +1,523 @@
+import { useEffect, useRef, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { X, Printer, FileSpreadsheet, Upload, Save, Send, RotateCcw, CheckCircle, Ban } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { AuditHistory } from './AuditHistory';
+import { showToast } from './ToastNotification';
+import { showConfirm } from './ConfirmDialog';
+import { formatDate } from '../utils/dateFormat';
+
+export interface StockCount {
+  id: string;
+  count_number: string;
+  count_date: string;
+  description: string | null;
+  is_blind: boolean;
+  status: 'counting' | 'submitted' | 'posted' | 'cancelled';
+  shortage_value: number;
+  surplus_value: number;
+  created_at: string;
+  journal_entries?: { entry_number: string } | null;
+}
+
+interface CountSheetLine {
+  item_id: string;
+  batch_id: string;
+  product_name: string;
+  product_code: string | null;
+  unit: string | null;
+  batch_number: string;
+  expiry_date: string | null;
+  system_quantity: number | null;
+  current_stock: number | null;
+  counted_quantity: number | null;
+  variance_quantity: number | null;
+  unit_cost: number | null;
+  variance_value: number | null;
+  notes: string | null;
+  counted_by_name: string | null;
+  counted_at: string | null;
+  recount_requested: boolean;
+}
+
+interface StockCountViewProps {
+  stockCount: StockCount;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const formatRupiah = (amount: number) =>
+  `Rp ${Number(amount).toLocaleString('id-ID', { maximumFractionDigits: 0 })}`;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message || fallback;
+
+export function StockCountView({ stockCount, onClose, onChanged }: StockCountViewProps) {
+  const { profile } = useAuth();
+  const [lines, setLines] = useState<CountSheetLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, { counted: string; notes: string }>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isReviewer = profile?.role === 'admin' || profile?.role === 'accounts';
+  const canCount = isReviewer || profile?.role === 'warehouse';
+  const isCounting = stockCount.status === 'counting';
+  const isSubmitted = stockCount.status === 'submitted';
+  // get_stock_count_sheet returns null system quantities while a blind count is hidden from this user
+  const showSystem = lines.length > 0 && lines[0].system_quantity !== null;
+
+  useEffect(() => {
+    loadSheet();
+  }, [stockCount.id, stockCount.status]);
+
+  const loadSheet = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_stock_count_sheet', { p_stock_count_id: stockCount.id });
+      if (error) throw error;
+      const rows = (data || []) as CountSheetLine[];
+      setLines(rows);
+      setDrafts(Object.fromEntries(rows.map(row => [
+        row.item_id,
+        { counted: row.counted_quantity === null ? '' : String(row.counted_quantity), notes: row.notes || '' },
+      ])));
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error loading count sheet:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load count sheet' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changedEntries = () =>
+    lines
+      .filter(line => {
+        const draft = drafts[line.item_id];
+        if (!draft) return false;
+        const saved = line.counted_quantity === null ? '' : String(line.counted_quantity);
+        return draft.counted.trim() !== saved || draft.notes.trim() !== (line.notes || '');
+      })
+      .map(line => ({
+        item_id: line.item_id,
+        counted_quantity: drafts[line.item_id].counted.trim() === '' ? null : Number(drafts[line.item_id].counted),
+        notes: drafts[line.item_id].notes,
+      }));
+
+  const saveCounts = async (entries = changedEntries(), quiet = false) => {
+    if (entries.length === 0) {
+      if (!quiet) showToast({ type: 'info', title: 'Nothing to save', message: 'No counts have changed' });
+      return true;
+    }
+    if (entries.some(entry => entry.counted_quantity !== null && (isNaN(entry.counted_quantity) || entry.counted_quantity < 0))) {
+      showToast({ type: 'error', title: 'Error', message: 'Counted quantities must be zero or more' });
+      return false;
+    }
+
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.rpc('save_stock_count_quantities', {
+        p_stock_count_id: stockCount.id,
+        p_counts: entries,
+      });
+      if (error) throw error;
+      if (!quiet) showToast({ type: 'success', title: 'Saved', message: `${data ?? entries.length} line(s) saved` });
+      await loadSheet();
+      return true;
+    } catch (error) {
+      console.error('Error saving counts:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to save counts') });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runAction = async (rpc: string, params: Record<string, unknown>, success: string) => {
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc(rpc, params);
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Success', message: success });
+      onChanged();
+    } catch (error) {
+      console.error(`Error running ${rpc}:`, error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Action failed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!await saveCounts(changedEntries(), true)) return;
+    if (!await showConfirm({
+      title: 'Submit Count',
+      message: `Submit ${stockCount.count_number} for review? Counts can no longer be changed unless a reviewer sends lines back for recount.`,
+      confirmLabel: 'Submit',
+      variant: 'info',
+    })) return;
+    await runAction('submit_stock_count', { p_stock_count_id: stockCount.id }, 'Count submitted for review');
+  };
+
+  const handleRecount = async () => {
+    if (!await showConfirm({
+      title: 'Request Recount',
+      message: `Send ${selected.size} line(s) back for a blind recount? Their counted quantities will be cleared.`,
+      confirmLabel: 'Request Recount',
+      variant: 'warning',
+    })) return;
+    await runAction('request_stock_recount', {
+      p_stock_count_id: stockCount.id,
+      p_item_ids: Array.from(selected),
+    }, 'Lines sent back for recount');
+  };
+
+  const handlePost = async () => {
+    const shortage = lines.reduce((sum, l) => sum + Math.max(-(l.variance_value || 0), 0), 0);
+    const surplus = lines.reduce((sum, l) => sum + Math.max(l.variance_value || 0, 0), 0);
+    if (!await showConfirm({
+      title: 'Post Stock Count',
+      message: `Adjust batch stock to the counted quantities and post the journal?\n\nShortage: ${formatRupiah(shortage)}\nSurplus: ${formatRupiah(surplus)}\n\nThis cannot be undone.`,
+      confirmLabel: 'Post Adjustments',
+      variant: 'danger',
+    })) return;
+    await runAction('post_stock_count', { p_stock_count_id: stockCount.id }, 'Stock adjusted and journal posted');
+  };
+
+  const handleCancel = async () => {
+    if (!await showConfirm({
+      title: 'Cancel Count',
+      message: `Cancel ${stockCount.count_number}? No stock will be adjusted.`,
+      confirmLabel: 'Cancel Count',
+      variant: 'danger',
+    })) return;
+    await runAction('cancel_stock_count', { p_stock_count_id: stockCount.id }, 'Count cancelled');
+  };
+
+  const handleExport = () => {
+    const rows = lines.map(line => ({
+      'Line ID': line.item_id,
+      Product: line.product_name,
+      Code: line.product_code || '',
+      Batch: line.batch_number,
+      Expiry: line.expiry_date ? formatDate(line.expiry_date) : '',
+      Unit: line.unit || '',
+      ...(showSystem ? { 'System Qty': line.system_quantity } : {}),
+      'Counted Qty': line.counted_quantity ?? '',
+      Notes: line.notes || '',
+    }));
+    const worksheet = XLSX.utils.json_to_sheet(rows);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Count Sheet');
+    XLSX.writeFile(workbook, `${stockCount.count_number}.xlsx`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]]);
+      const byId = new Map(lines.map(line => [line.item_id, line]));
+      const byBatch = new Map(lines.map(line => [line.batch_number.toLowerCase(), line]));
+      const entries: { item_id: string; counted_quantity: number | null; notes: string }[] = [];
+      let unmatched = 0;
+
+      rows.forEach(row => {
+        const line = byId.get(String(row['Line ID'] ?? '')) || byBatch.get(String(row['Batch'] ?? '').trim().toLowerCase());
+        const counted = row['Counted Qty'];
+        if (!line) {
+          unmatched++;
+          return;
+        }
+        if (counted === undefined || counted === '') return;
+        entries.push({ item_id: line.item_id, counted_quantity: Number(counted), notes: String(row['Notes'] ?? line.notes ?? '') });
+      });
+
+      if (entries.length === 0) {
+        showToast({ type: 'warning', title: 'Nothing imported', message: 'No counted quantities were found in the file' });
+        return;
+      }
+      if (await saveCounts(entries, true)) {
+        showToast({
+          type: unmatched > 0 ? 'warning' : 'success',
+          title: 'Counts imported',
+          message: `${entries.length} line(s) imported${unmatched > 0 ? `, ${unmatched} row(s) did not match a line on this count` : ''}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error importing count sheet:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Could not read the Excel file' });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const toggleSelected = (itemId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const countedLines = lines.filter(line => line.counted_quantity !== null).length;
+  const varianceLines = lines.filter(line => (line.variance_quantity || 0) !== 0);
+  const shortageTotal = lines.reduce((sum, l) => sum + Math.max(-(l.variance_value || 0), 0), 0);
+  const surplusTotal = lines.reduce((sum, l) => sum + Math.max(l.variance_value || 0, 0), 0);
+  const editable = isCounting && canCount;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-gray-900 bg-opacity-75 print:static print:bg-white print:overflow-visible">
+      <div className="flex min-h-screen items-start justify-center p-4 pt-10 print:p-0 print:min-h-0 print:block">
+        <div className="relative w-full max-w-6xl bg-white shadow-xl rounded-lg print:shadow-none print:max-w-full">
+          <div className="sticky top-0 z-10 flex flex-wrap items-center justify-between gap-2 border-b bg-white px-4 py-3 rounded-t-lg print:hidden">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Stock Opname {stockCount.count_number}</h2>
+              <p className="text-xs text-gray-500">
+                {formatDate(stockCount.count_date)} · {stockCount.is_blind ? 'Blind count' : 'Open count'} · {stockCount.status}
+                {stockCount.journal_entries && ` · Journal ${stockCount.journal_entries.entry_number}`}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => window.print()} className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50">
+                <Printer className="w-4 h-4" /> Print Sheet
+              </button>
+              <button onClick={handleExport} disabled={lines.length === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50">
+                <FileSpreadsheet className="w-4 h-4" /> Excel
+              </button>
+              {editable && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".xlsx,.xls"
+                    className="hidden"
+                    onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+                  />
+                  <button onClick={() => fileInputRef.current?.click()} disabled={busy} className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50">
+                    <Upload className="w-4 h-4" /> Import Counts
+                  </button>
+                  <button onClick={() => saveCounts()} disabled={busy} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+                    <Save className="w-4 h-4" /> Save
+                  </button>
+                  <button onClick={handleSubmit} disabled={busy} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50">
+                    <Send className="w-4 h-4" /> Submit
+                  </button>
+                </>
+              )}
+              {isSubmitted && isReviewer && (
+                <>
+                  <button onClick={handleRecount} disabled={busy || selected.size === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm border border-amber-300 text-amber-700 rounded-lg hover:bg-amber-50 disabled:opacity-50">
+                    <RotateCcw className="w-4 h-4" /> Recount ({selected.size})
+                  </button>
+                  <button onClick={handlePost} disabled={busy} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50">
+                    <CheckCircle className="w-4 h-4" /> Post Adjustments
+                  </button>
+                </>
+              )}
+              {(isCounting || isSubmitted) && canCount && (
+                <button onClick={handleCancel} disabled={busy} className="flex items-center gap-1 px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50">
+                  <Ban className="w-4 h-4" /> Cancel Count
+                </button>
+              )}
+              <button onClick={onClose} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 print:hidden">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Lines counted</p>
+              <p className="text-lg font-bold text-gray-900">{countedLines} / {lines.length}</p>
+            </div>
+            {showSystem ? (
+              <>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Lines with variance</p>
+                  <p className="text-lg font-bold text-gray-900">{varianceLines.length}</p>
+                </div>
+                <div className="bg-red-50 rounded-lg p-3">
+                  <p className="text-xs text-red-600">Shortage</p>
+                  <p className="text-lg font-bold text-red-700">{formatRupiah(stockCount.status === 'posted' ? stockCount.shortage_value : shortageTotal)}</p>
+                </div>
+                <div className="bg-green-50 rounded-lg p-3">
+                  <p className="text-xs text-green-600">Surplus</p>
+                  <p className="text-lg font-bold text-green-700">{formatRupiah(stockCount.status === 'posted' ? stockCount.surplus_value : surplusTotal)}</p>
+                </div>
+              </>
+            ) : (
+              <div className="col-span-3 bg-blue-50 rounded-lg p-3 text-sm text-blue-800">
+                Blind count: system quantities are hidden until the count is submitted. Count what is on the shelf.
+              </div>
+            )}
+          </div>
+
+          <div id="stock-count-print-content" className="px-4 pb-4">
+            <div className="hidden print:block mb-3">
+              <h1 className="text-lg font-bold">Stock Opname {stockCount.count_number}</h1>
+              <p className="text-sm">
+                Count date: {formatDate(stockCount.count_date)}
+                {stockCount.description && ` · ${stockCount.description}`}
+              </p>
+            </div>
+
+            {loading ? (
+              <div className="p-8 text-center text-gray-500 text-sm">Loading...</div>
+            ) : (
+              <div className="overflow-x-auto border rounded-lg print:border-0">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      {isSubmitted && isReviewer && <th className="px-2 py-2 w-8 print:hidden" />}
+                      <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                      <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Batch</th>
+                      <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expiry</th>
+                      <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit</th>
+                      {showSystem && (
+                        <>
+                          <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">System</th>
+                          <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase print:hidden">Now</th>
+                        </>
+                      )}
+                      <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase w-28">Counted</th>
+                      {showSystem && (
+                        <>
+                          <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase print:hidden">Variance</th>
+                          <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase print:hidden">Value</th>
+                        </>
+                      )}
+                      <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {lines.map(line => {
+                      const draft = drafts[line.item_id] || { counted: '', notes: '' };
+                      const movedSinceFreeze = line.current_stock !== null && line.system_quantity !== null
+                        && Number(line.current_stock) !== Number(line.system_quantity);
+                      return (
+                        <tr key={line.item_id} className={line.recount_requested ? 'bg-amber-50' : ''}>
+                          {isSubmitted && isReviewer && (
+                            <td className="px-2 py-1.5 print:hidden">
+                              <input
+                                type="checkbox"
+                                checked={selected.has(line.item_id)}
+                                onChange={() => toggleSelected(line.item_id)}
+                              />
+                            </td>
+                          )}
+                          <td className="px-2 py-1.5">
+                            <div className="text-gray-900">{line.product_name}</div>
+                            {line.product_code && <div className="text-xs text-gray-500">{line.product_code}</div>}
+                          </td>
+                          <td className="px-2 py-1.5 font-mono text-xs">
+                            {line.batch_number}
+                            {line.recount_requested && <div className="text-amber-700 font-sans print:hidden">Recount</div>}
+                          </td>
+                          <td className="px-2 py-1.5 text-gray-600 whitespace-nowrap">{line.expiry_date ? formatDate(line.expiry_date) : '-'}</td>
+                          <td className="px-2 py-1.5 text-gray-600">{line.unit}</td>
+                          {showSystem && (
+                            <>
+                              <td className="px-2 py-1.5 text-right">{Number(line.system_quantity).toLocaleString()}</td>
+                              <td
+                                className={`px-2 py-1.5 text-right print:hidden ${movedSinceFreeze ? 'text-amber-700 font-medium' : 'text-gray-400'}`}
+                                title={movedSinceFreeze ? 'Stock moved after the sheet was frozen; only the counted variance is applied' : undefined}
+                              >
+                                {Number(line.current_stock).toLocaleString()}
+                              </td>
+                            </>
+                          )}
+                          <td className="px-2 py-1.5 text-right">
+                            {editable ? (
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.001"
+                                value={draft.counted}
+                                onChange={(e) => setDrafts({ ...drafts, [line.item_id]: { ...draft, counted: e.target.value } })}
+                                className="w-24 px-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 print:border-0 print:border-b print:rounded-none"
+                              />
+                            ) : (
+                              line.counted_quantity !== null ? Number(line.counted_quantity).toLocaleString() : ''
+                            )}
+                          </td>
+                          {showSystem && (
+                            <>
+                              <td className={`px-2 py-1.5 text-right print:hidden ${
+                                (line.variance_quantity || 0) < 0 ? 'text-red-700 font-semibold' :
+                                (line.variance_quantity || 0) > 0 ? 'text-green-700 font-semibold' : 'text-gray-400'
+                              }`}>
+                                {line.variance_quantity !== null ? Number(line.variance_quantity).toLocaleString() : ''}
+                              </td>
+                              <td className="px-2 py-1.5 text-right print:hidden">
+                                {line.variance_value ? formatRupiah(line.variance_value) : ''}
+                              </td>
+                            </>
+                          )}
+                          <td className="px-2 py-1.5">
+                            {editable ? (
+                              <input
+                                type="text"
+                                value={draft.notes}
+                                onChange={(e) => setDrafts({ ...drafts, [line.item_id]: { ...draft, notes: e.target.value } })}
+                                className="w-full min-w-[8rem] px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 print:border-0"
+                              />
+                            ) : (
+                              <span className="text-xs text-gray-600">{line.notes}</span>
+                            )}
+                            {line.counted_by_name && (
+                              <div className="text-xs text-gray-400 print:hidden">
+                                {line.counted_by_name} · {formatDate(line.counted_at, true)}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="hidden print:grid grid-cols-2 gap-8 mt-10 text-sm">
+              <div className="border-t pt-1">Counted by</div>
+              <div className="border-t pt-1">Checked by</div>
+            </div>
+          </div>
+
+          <div className="px-4 pb-4">
+            <AuditHistory documentTable="stock_counts" documentId={stockCount.id} />
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @media print {
+          @page {
+            size: A4 landscape;
+            margin: 8mm;
+          }
+
+          body * {
+            visibility: hidden;
+          }
+
+          #stock-count-print-content,
+          #stock-count-print-content * {
+            visibility: visible;
+          }
+
+          #stock-count-print-content {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
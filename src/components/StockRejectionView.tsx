@@ -2,6 +2,7 @@ import { useRef } from 'react';
 import { X, Printer, Download, Image as ImageIcon } from 'lucide-react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { AuditHistory } from './AuditHistory';
 
 interface StockRejectionViewProps {
   rejection: {
@@ -317,6 +318,10 @@ export function StockRejectionView({ rejection, onClose }: StockRejectionViewPro
               </div>
             </div>
           </div>
+
+          <div className="px-8 pb-8">
+            <AuditHistory documentTable="stock_rejections" documentId={rejection.id} />
+          </div>
         </div>
       </div>
 
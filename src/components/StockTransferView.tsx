@@ -0,0 +1,173 @@
+import { X, Printer, CheckCircle, Ban } from 'lucide-react';
+import { AuditHistory } from './AuditHistory';
+import { formatDate } from '../utils/dateFormat';
+import { formatLocationCode } from '../utils/warehouses';
+
+export interface StockTransfer {
+  id: string;
+  transfer_number: string;
+  transfer_date: string;
+  from_warehouse_id: string;
+  to_warehouse_id: string;
+  status: 'draft' | 'completed' | 'cancelled';
+  vehicle_number: string | null;
+  driver_name: string | null;
+  notes: string | null;
+  completed_at: string | null;
+  from_warehouse: { code: string; name: string; address: string | null } | null;
+  to_warehouse: { code: string; name: string; address: string | null } | null;
+}
+
+export interface StockTransferItem {
+  id: string;
+  quantity: number;
+  batches: { batch_number: string; expiry_date: string | null } | null;
+  products: { product_name: string; unit: string } | null;
+  from_location: { code: string } | null;
+  to_location: { code: string } | null;
+}
+
+interface StockTransferViewProps {
+  transfer: StockTransfer;
+  items: StockTransferItem[];
+  canManage: boolean;
+  onComplete: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+export function StockTransferView({ transfer, items, canManage, onComplete, onCancel, onClose }: StockTransferViewProps) {
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-gray-900 bg-opacity-75 print:static print:bg-white print:overflow-visible">
+      <div className="flex min-h-screen items-start justify-center p-4 pt-10 print:p-0 print:min-h-0 print:block">
+        <div className="relative w-full max-w-4xl bg-white shadow-xl rounded-lg print:shadow-none print:max-w-full">
+          <div className="sticky top-0 z-10 flex items-center justify-between border-b bg-white px-4 py-3 rounded-t-lg print:hidden">
+            <h2 className="text-lg font-bold text-gray-900">Transfer Challan {transfer.transfer_number}</h2>
+            <div className="flex gap-2">
+              {canManage && transfer.status === 'draft' && (
+                <>
+                  <button onClick={onComplete} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700">
+                    <CheckCircle className="w-4 h-4" /> Complete Transfer
+                  </button>
+                  <button onClick={onCancel} className="flex items-center gap-1 px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50">
+                    <Ban className="w-4 h-4" /> Cancel
+                  </button>
+                </>
+              )}
+              <button onClick={() => window.print()} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                <Printer className="w-4 h-4" /> Print
+              </button>
+              <button onClick={onClose} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div id="transfer-print-content" className="p-6 space-y-4">
+            <div className="flex justify-between">
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">TRANSFER CHALLAN</h1>
+                <p className="text-sm text-gray-600">Surat Jalan Pindah Gudang</p>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-mono font-semibold">{transfer.transfer_number}</p>
+                <p className="text-gray-600">{formatDate(transfer.transfer_date)}</p>
+                <p className={`mt-1 inline-block px-2 py-0.5 rounded text-xs font-medium print:hidden ${
+                  transfer.status === 'completed' ? 'bg-green-100 text-green-700' :
+                  transfer.status === 'cancelled' ? 'bg-gray-100 text-gray-600' : 'bg-blue-100 text-blue-700'
+                }`}>
+                  {transfer.status}
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="border rounded p-3">
+                <p className="text-xs text-gray-500 uppercase">From</p>
+                <p className="font-semibold">{transfer.from_warehouse?.name} ({transfer.from_warehouse?.code})</p>
+                {transfer.from_warehouse?.address && <p className="text-gray-600">{transfer.from_warehouse.address}</p>}
+              </div>
+              <div className="border rounded p-3">
+                <p className="text-xs text-gray-500 uppercase">To</p>
+                <p className="font-semibold">{transfer.to_warehouse?.name} ({transfer.to_warehouse?.code})</p>
+                {transfer.to_warehouse?.address && <p className="text-gray-600">{transfer.to_warehouse.address}</p>}
+              </div>
+            </div>
+
+            {(transfer.vehicle_number || transfer.driver_name) && (
+              <p className="text-sm text-gray-700">
+                {transfer.vehicle_number && `Vehicle: ${transfer.vehicle_number}`}
+                {transfer.vehicle_number && transfer.driver_name && ' · '}
+                {transfer.driver_name && `Driver: ${transfer.driver_name}`}
+              </p>
+            )}
+
+            <table className="w-full text-sm border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600 border-b">No</th>
+                  <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600 border-b">Product</th>
+                  <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600 border-b">Batch</th>
+                  <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600 border-b">Expiry</th>
+                  <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600 border-b">From Bin</th>
+                  <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600 border-b">To Bin</th>
+                  <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600 border-b">Quantity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={item.id} className="border-b">
+                    <td className="px-2 py-1.5">{index + 1}</td>
+                    <td className="px-2 py-1.5">{item.products?.product_name}</td>
+                    <td className="px-2 py-1.5 font-mono text-xs">{item.batches?.batch_number}</td>
+                    <td className="px-2 py-1.5">{item.batches?.expiry_date ? formatDate(item.batches.expiry_date) : '-'}</td>
+                    <td className="px-2 py-1.5">{formatLocationCode(transfer.from_warehouse?.code, item.from_location?.code)}</td>
+                    <td className="px-2 py-1.5">{formatLocationCode(transfer.to_warehouse?.code, item.to_location?.code)}</td>
+                    <td className="px-2 py-1.5 text-right">{Number(item.quantity).toLocaleString()} {item.products?.unit}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {transfer.notes && <p className="text-sm text-gray-700">Notes: {transfer.notes}</p>}
+
+            <div className="grid grid-cols-3 gap-8 pt-12 text-sm text-center">
+              <div className="border-t pt-1">Released by</div>
+              <div className="border-t pt-1">Driver</div>
+              <div className="border-t pt-1">Received by</div>
+            </div>
+          </div>
+
+          <div className="px-6 pb-6">
+            <AuditHistory documentTable="stock_transfers" documentId={transfer.id} />
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @media print {
+          @page {
+            size: A4 portrait;
+            margin: 10mm;
+          }
+
+          body * {
+            visibility: hidden;
+          }
+
+          #transfer-print-content,
+          #transfer-print-content * {
+            visibility: visible;
+          }
+
+          #transfer-print-content {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
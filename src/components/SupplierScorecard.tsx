@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Modal } from './Modal';
+import {
+  gradeColor,
+  scorecardRange,
+  SCORECARD_MONTHS,
+  type SupplierScorecard,
+} from '../utils/supplierScores';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const BAR_COLORS: Record<string, string> = { A: 'bg-green-500', B: 'bg-blue-500', C: 'bg-yellow-500', D: 'bg-red-500' };
+
+const pct = (value: number | null) => (value == null ? '-' : `${Number(value).toFixed(1)}%`);
+
+export function SupplierGradeBadge({ scorecard, onClick }: { scorecard?: SupplierScorecard; onClick?: () => void }) {
+  const grade = scorecard?.grade ?? null;
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className={`px-2 py-1 text-xs font-medium rounded-full ${gradeColor(grade)} ${onClick ? 'hover:opacity-80' : 'cursor-default'}`}
+      title={scorecard?.score != null ? `Score ${Number(scorecard.score).toFixed(1)} over the last ${SCORECARD_MONTHS} months` : 'No activity to score'}
+    >
+      {grade ? `${grade} · ${Number(scorecard?.score).toFixed(0)}` : 'n/a'}
+    </button>
+  );
+}
+
+interface SupplierScorecardModalProps {
+  supplier: { id: string; company_name: string } | null;
+  onClose: () => void;
+}
+
+export function SupplierScorecardModal({ supplier, onClose }: SupplierScorecardModalProps) {
+  const [summary, setSummary] = useState<SupplierScorecard | null>(null);
+  const [trend, setTrend] = useState<SupplierScorecard[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (supplier) loadScorecard(supplier.id);
+  }, [supplier?.id]);
+
+  const loadScorecard = async (supplierId: string) => {
+    const { from, to } = scorecardRange();
+    setLoading(true);
+    try {
+      const [summaryRes, trendRes] = await Promise.all([
+        supabase.rpc('get_supplier_scorecards', { p_from: from, p_to: to, p_supplier_id: supplierId }),
+        supabase.rpc('get_supplier_scorecards', { p_from: from, p_to: to, p_by_month: true, p_supplier_id: supplierId }),
+      ]);
+      if (summaryRes.error) throw summaryRes.error;
+      if (trendRes.error) throw trendRes.error;
+      setSummary(((summaryRes.data || []) as SupplierScorecard[])[0] || null);
+      setTrend((trendRes.data || []) as SupplierScorecard[]);
+    } catch (error) {
+      console.error('Error loading supplier scorecard:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const measures = summary ? [
+    {
+      label: 'On-time Delivery',
+      value: pct(summary.on_time_pct),
+      detail: summary.po_lines_due
+        ? `${summary.po_lines_on_time} of ${summary.po_lines_due} PO lines in full by the expected date${summary.avg_days_late ? ` · ${Number(summary.avg_days_late).toFixed(1)} days late on average` : ''}`
+        : 'No PO lines due',
+    },
+    {
+      label: 'Rejection Rate',
+      value: pct(summary.rejection_value_pct),
+      detail: summary.received_quantity
+        ? `${pct(summary.rejection_qty_pct)} by quantity · ${Number(summary.rejected_quantity).toLocaleString()} of ${Number(summary.received_quantity).toLocaleString()} received`
+        : 'Nothing received',
+    },
+    {
+      label: 'Price Variance',
+      value: summary.price_variance_pct == null ? '-' : `${Number(summary.price_variance_pct) > 0 ? '+' : ''}${pct(summary.price_variance_pct)}`,
+      detail: summary.invoiced_lines ? `Invoiced vs PO price over ${summary.invoiced_lines} invoice lines` : 'No invoices linked to POs',
+    },
+    {
+      label: 'Documents',
+      value: pct(summary.document_pct),
+      detail: summary.sources_count
+        ? `${summary.sources_documented} of ${summary.sources_count} sources with COA and MSDS`
+        : 'No product sources',
+    },
+    {
+      label: 'Payment Terms',
+      value: pct(summary.terms_pct),
+      detail: summary.invoices_count
+        ? `${summary.invoices_terms_honoured} of ${summary.invoices_count} invoices at the agreed terms or longer`
+        : 'No invoices with a due date',
+    },
+  ] : [];
+
+  return (
+    <Modal isOpen={!!supplier} onClose={onClose} title={`Scorecard - ${supplier?.company_name || ''}`} size="lg">
+      {loading ? (
+        <div className="py-8 text-center text-gray-500">Loading...</div>
+      ) : !summary ? (
+        <div className="py-8 text-center text-gray-500">No POs, receipts or invoices in the last {SCORECARD_MONTHS} months</div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center gap-4">
+            <div className={`w-16 h-16 rounded-full flex items-center justify-center text-2xl font-bold ${gradeColor(summary.grade)}`}>
+              {summary.grade || '-'}
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{summary.score != null ? Number(summary.score).toFixed(1) : '-'}</div>
+              <div className="text-sm text-gray-500">Overall score, last {SCORECARD_MONTHS} months</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {measures.map(measure => (
+              <div key={measure.label} className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex justify-between items-baseline">
+                  <span className="text-sm text-gray-600">{measure.label}</span>
+                  <span className="text-lg font-semibold text-gray-900">{measure.value}</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">{measure.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          {trend.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Monthly Trend</h4>
+              <div className="border rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Score</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On-time</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rejected</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price Var.</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Terms</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {trend.map(row => (
+                      <tr key={row.period_start}>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {row.period_start ? `${MONTH_LABELS[parseInt(row.period_start.slice(5, 7)) - 1]} ${row.period_start.slice(0, 4)}` : '-'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="w-24 h-2 bg-gray-100 rounded">
+                              <div
+                                className={`h-2 rounded ${BAR_COLORS[row.grade || ''] || 'bg-gray-300'}`}
+                                style={{ width: `${Math.min(Number(row.score || 0), 100)}%` }}
+                              />
+                            </div>
+                            <span className="text-xs text-gray-700">
+                              {row.score != null ? `${row.grade} ${Number(row.score).toFixed(0)}` : '-'}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right">{pct(row.on_time_pct)}</td>
+                        <td className="px-3 py-2 text-right">{pct(row.rejection_value_pct)}</td>
+                        <td className="px-3 py-2 text-right">{pct(row.price_variance_pct)}</td>
+                        <td className="px-3 py-2 text-right">{pct(row.terms_pct)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Document coverage is the current state of the supplier's product sources and counts in every month.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,269 @@
+import { Fragment, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Search, ChevronDown, ChevronRight, ChevronLeft } from 'lucide-react';
+import { SearchableSelect } from '../SearchableSelect';
+import { formatDateTime } from '../../utils/dateFormat';
+import { AuditEntryChanges } from '../AuditHistory';
+import {
+  AuditLogEntry,
+  AUDIT_ACTION_STYLES,
+  AUDIT_ENTRY_SELECT,
+  formatAuditTableName,
+} from '../../utils/auditLog';
+
+const PAGE_SIZE = 50;
+
+// Header document tables that carry audit triggers (line items are found through their document)
+const AUDITED_DOCUMENTS = [
+  'sales_orders',
+  'delivery_challans',
+  'sales_invoices',
+  'credit_notes',
+  'material_returns',
+  'purchase_orders',
+  'goods_receipt_notes',
+  'stock_rejections',
+  'batches',
+  'purchase_invoices',
+  'journal_entries',
+  'receipt_vouchers',
+  'payment_vouchers',
+  'finance_expenses',
+  'petty_cash_transactions',
+  'fund_transfers',
+];
+
+interface UserOption {
+  id: string;
+  full_name: string;
+}
+
+export function AuditExplorer() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const [documentTable, setDocumentTable] = useState('');
+  const [actionType, setActionType] = useState('');
+  const [userId, setUserId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      const { data } = await supabase
+        .from('user_profiles')
+        .select('id, full_name')
+        .order('full_name');
+      setUsers(data || []);
+    };
+    loadUsers();
+  }, []);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setLoading(true);
+      try {
+        let query = supabase
+          .from('audit_logs')
+          .select(AUDIT_ENTRY_SELECT, { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+        if (documentTable) query = query.eq('document_table', documentTable);
+        if (actionType) query = query.eq('action_type', actionType);
+        if (userId) query = query.eq('user_id', userId);
+        if (fromDate) query = query.gte('created_at', `${fromDate}T00:00:00`);
+        if (toDate) query = query.lte('created_at', `${toDate}T23:59:59`);
+
+        const term = search.trim().replace(/[,()]/g, ' ');
+        if (term) {
+          const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(term);
+          query = isUuid
+            ? query.or(`document_id.eq.${term},record_id.eq.${term}`)
+            : query.or(`document_ref.ilike.%${term}%,user_email.ilike.%${term}%,source_screen.ilike.%${term}%`);
+        }
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        setEntries((data || []) as unknown as AuditLogEntry[]);
+        setTotalCount(count || 0);
+      } catch (error) {
+        console.error('Error loading audit log:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const timer = setTimeout(loadEntries, 300);
+    return () => clearTimeout(timer);
+  }, [page, search, documentTable, actionType, userId, fromDate, toDate]);
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const toggleEntry = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-sm border p-4 grid grid-cols-1 md:grid-cols-6 gap-3">
+        <div className="md:col-span-2 relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => updateFilter(setSearch)(e.target.value)}
+            placeholder="Document no., record ID, email or screen"
+            className="w-full pl-9 pr-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={documentTable}
+          onChange={(e) => updateFilter(setDocumentTable)(e.target.value)}
+          className="px-3 py-2 text-sm border rounded-lg"
+        >
+          <option value="">All documents</option>
+          {AUDITED_DOCUMENTS.map(table => (
+            <option key={table} value={table}>{formatAuditTableName(table)}</option>
+          ))}
+        </select>
+        <select
+          value={actionType}
+          onChange={(e) => updateFilter(setActionType)(e.target.value)}
+          className="px-3 py-2 text-sm border rounded-lg"
+        >
+          <option value="">All actions</option>
+          <option value="insert">Created</option>
+          <option value="update">Updated</option>
+          <option value="delete">Deleted</option>
+        </select>
+        <div className="md:col-span-2">
+          <SearchableSelect
+            value={userId}
+            onChange={updateFilter(setUserId)}
+            options={[{ value: '', label: 'All users' }, ...users.map(u => ({ value: u.id, label: u.full_name }))]}
+            placeholder="All users"
+          />
+        </div>
+        <div className="md:col-span-6 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">From</span>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+            className="px-3 py-1.5 border rounded-lg"
+          />
+          <span className="text-gray-600">To</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => updateFilter(setToDate)(e.target.value)}
+            className="px-3 py-1.5 border rounded-lg"
+          />
+          <span className="ml-auto text-xs text-gray-500">{totalCount.toLocaleString('id-ID')} changes</span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="w-8" />
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">When</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Document</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Table</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Screen</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-3 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-3 py-8 text-center text-gray-500">No changes match these filters</td>
+              </tr>
+            ) : (
+              entries.map(entry => {
+                const style = AUDIT_ACTION_STYLES[entry.action_type];
+                const isOpen = expanded.has(entry.id);
+                return (
+                  <Fragment key={entry.id}>
+                    <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggleEntry(entry.id)}>
+                      <td className="pl-3 py-2 text-gray-400">
+                        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-700">{formatDateTime(entry.created_at)}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{entry.document_ref || '—'}</div>
+                        {entry.document_table && (
+                          <div className="text-xs text-gray-500">{formatAuditTableName(entry.document_table)}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">{formatAuditTableName(entry.table_name)}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>{style.label}</span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">{entry.user_profiles?.full_name || entry.user_email || 'System'}</td>
+                      <td className="px-3 py-2 text-xs font-mono text-gray-500">{entry.source_screen || '—'}</td>
+                    </tr>
+                    {isOpen && (
+                      <tr className="bg-gray-50">
+                        <td />
+                        <td colSpan={6} className="px-3 py-2">
+                          <AuditEntryChanges entry={entry} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between px-4 py-2 border-t bg-gray-50 text-sm">
+          <span className="text-gray-600">Page {page + 1} of {pageCount}</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={page === 0 || loading}
+              className="p-1.5 border rounded hover:bg-white disabled:opacity-50"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= pageCount || loading}
+              className="p-1.5 border rounded hover:bg-white disabled:opacity-50"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { supabase } from '../../lib/supabase';
 import { DataTable } from '../DataTable';
 import { Modal } from '../Modal';
 import { Plus, Edit } from 'lucide-react';
+import { statementParsers } from '../../utils/bankStatementParsers';
 
 interface BankAccount {
   id: string;
@@ -16,6 +17,7 @@ interface BankAccount {
   current_balance: number;
   is_active: boolean;
   alias?: string;
+  statement_parser?: string | null;
 }
 
 interface Props {
@@ -36,6 +38,7 @@ export function BankAccountsManager({ canManage }: Props) {
     opening_balance: 0,
     opening_balance_date: '2025-01-01',
     alias: '',
+    statement_parser: '',
   });
 
   useEffect(() => {
@@ -65,10 +68,12 @@ export function BankAccountsManager({ canManage }: Props) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
+      const payload = { ...formData, statement_parser: formData.statement_parser || null };
+
       if (editingAccount) {
         const { error } = await supabase
           .from('bank_accounts')
-          .update(formData)
+          .update(payload)
           .eq('id', editingAccount.id);
 
         if (error) throw error;
@@ -76,7 +81,7 @@ export function BankAccountsManager({ canManage }: Props) {
         const { error } = await supabase
           .from('bank_accounts')
           .insert([{
-            ...formData,
+            ...payload,
             current_balance: formData.opening_balance,
             created_by: user.id,
           }]);
@@ -104,6 +109,7 @@ export function BankAccountsManager({ canManage }: Props) {
       opening_balance: account.opening_balance,
       opening_balance_date: account.opening_balance_date || '2025-01-01',
       alias: account.alias || '',
+      statement_parser: account.statement_parser || '',
     });
     setModalOpen(true);
   };
@@ -119,6 +125,7 @@ export function BankAccountsManager({ canManage }: Props) {
       opening_balance: 0,
       opening_balance_date: '2025-01-01',
       alias: '',
+      statement_parser: '',
     });
   };
 
@@ -246,6 +253,21 @@ export function BankAccountsManager({ canManage }: Props) {
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Statement Format</label>
+              <select
+                value={formData.statement_parser}
+                onChange={(e) => setFormData({ ...formData, statement_parser: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Auto-detect from file</option>
+                {statementParsers.map((parser) => (
+                  <option key={parser.id} value={parser.id}>{parser.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Used to read uploaded bank statements for this account</p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Opening Balance</label>
               <input
@@ -0,0 +1,654 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Plus, Edit, Trash2, Eye, Zap } from 'lucide-react';
+import { Modal } from '../Modal';
+import { SearchableSelect } from '../SearchableSelect';
+import { showToast } from '../ToastNotification';
+
+export interface CategorisationRule {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  bank_account_id: string | null;
+  direction: 'debit' | 'credit' | 'any';
+  description_pattern: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  action: 'expense' | 'receipt' | 'journal';
+  expense_category: string | null;
+  customer_id: string | null;
+  account_id: string | null;
+  memo: string | null;
+  auto_create: boolean;
+  hit_count: number;
+  last_hit_at: string | null;
+}
+
+interface PreviewLine {
+  id: string;
+  bank_account_id: string;
+  transaction_date: string;
+  description: string | null;
+  reference: string | null;
+  debit_amount: number | null;
+  credit_amount: number | null;
+}
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  bankAccounts: Array<{ id: string; label: string }>;
+  customers: Array<{ id: string; company_name: string }>;
+  /** Categories that can be recorded without an import container */
+  expenseCategories: Array<{ value: string; label: string }>;
+  defaultBankAccountId: string;
+  /** Runs the rules over the unmatched lines (same as the reconciliation Match button) */
+  onApply: () => Promise<void>;
+}
+
+interface RuleForm {
+  name: string;
+  priority: string;
+  is_active: boolean;
+  bank_account_id: string;
+  direction: 'debit' | 'credit' | 'any';
+  description_pattern: string;
+  min_amount: string;
+  max_amount: string;
+  action: 'expense' | 'receipt' | 'journal';
+  expense_category: string;
+  customer_id: string;
+  account_id: string;
+  memo: string;
+  auto_create: boolean;
+}
+
+const emptyForm = (bankAccountId: string): RuleForm => ({
+  name: '',
+  priority: '100',
+  is_active: true,
+  bank_account_id: bankAccountId,
+  direction: 'debit',
+  description_pattern: '',
+  min_amount: '',
+  max_amount: '',
+  action: 'expense',
+  expense_category: '',
+  customer_id: '',
+  account_id: '',
+  memo: '',
+  auto_create: false,
+});
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const formatAmount = (amount: number) => amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function BankCategorisationRules({
+  isOpen,
+  onClose,
+  bankAccounts,
+  customers,
+  expenseCategories,
+  defaultBankAccountId,
+  onApply,
+}: Props) {
+  const [rules, setRules] = useState<CategorisationRule[]>([]);
+  const [accounts, setAccounts] = useState<Array<{ id: string; code: string; name: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [preview, setPreview] = useState<{ total: number; lines: PreviewLine[] } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadRules();
+    loadAccounts();
+  }, [isOpen]);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('bank_categorisation_rules')
+        .select('*')
+        .order('priority')
+        .order('created_at');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error loading categorisation rules:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to load rules',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAccounts = async () => {
+    const { data } = await supabase
+      .from('chart_of_accounts')
+      .select('id, code, name')
+      .eq('is_active', true)
+      .eq('is_header', false)
+      .order('code');
+    if (data) setAccounts(data);
+  };
+
+  const openForm = (rule?: CategorisationRule) => {
+    setPreview(null);
+    if (!rule) {
+      setEditingId(null);
+      setForm(emptyForm(defaultBankAccountId));
+      return;
+    }
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      priority: String(rule.priority),
+      is_active: rule.is_active,
+      bank_account_id: rule.bank_account_id || '',
+      direction: rule.direction,
+      description_pattern: rule.description_pattern || '',
+      min_amount: rule.min_amount === null ? '' : String(rule.min_amount),
+      max_amount: rule.max_amount === null ? '' : String(rule.max_amount),
+      action: rule.action,
+      expense_category: rule.expense_category || '',
+      customer_id: rule.customer_id || '',
+      account_id: rule.account_id || '',
+      memo: rule.memo || '',
+      auto_create: rule.auto_create,
+    });
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    if (!form) return;
+    const next = { ...form, ...changes };
+    // Expenses only come off debits and receipts only off credits
+    if (changes.action === 'expense') next.direction = 'debit';
+    if (changes.action === 'receipt') next.direction = 'credit';
+    setForm(next);
+    setPreview(null);
+  };
+
+  const validationError = (f: RuleForm): string | null => {
+    if (!f.name.trim()) return 'Rule name is required';
+    if (!f.description_pattern.trim() && !f.min_amount && !f.max_amount) {
+      return 'Give a description pattern or an amount range, otherwise the rule matches every line';
+    }
+    const min = toNumber(f.min_amount);
+    const max = toNumber(f.max_amount);
+    if (min !== null && max !== null && min > max) return 'Minimum amount is above the maximum';
+    if (f.action === 'expense' && !f.expense_category) return 'Select an expense category';
+    if (f.action === 'receipt' && !f.customer_id) return 'Select a customer';
+    if (f.action === 'journal' && !f.account_id) return 'Select the account to post to';
+    return null;
+  };
+
+  const runPreview = async () => {
+    if (!form) return;
+    try {
+      const { data, error } = await supabase.rpc('preview_bank_categorisation_rule', {
+        p_bank_account_id: form.bank_account_id || null,
+        p_direction: form.direction,
+        p_description_pattern: form.description_pattern.trim() || null,
+        p_min_amount: toNumber(form.min_amount),
+        p_max_amount: toNumber(form.max_amount),
+      });
+
+      if (error) throw error;
+      setPreview(data);
+    } catch (error) {
+      console.error('Error previewing rule:', error);
+      showToast({
+        type: 'error',
+        title: 'Preview failed',
+        message: error instanceof Error ? error.message : 'Check the description pattern',
+      });
+    }
+  };
+
+  const saveRule = async () => {
+    if (!form) return;
+    const invalid = validationError(form);
+    if (invalid) {
+      showToast({ type: 'warning', title: 'Incomplete rule', message: invalid });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        name: form.name.trim(),
+        priority: Number(form.priority) || 100,
+        is_active: form.is_active,
+        bank_account_id: form.bank_account_id || null,
+        direction: form.direction,
+        description_pattern: form.description_pattern.trim() || null,
+        min_amount: toNumber(form.min_amount),
+        max_amount: toNumber(form.max_amount),
+        action: form.action,
+        expense_category: form.action === 'expense' ? form.expense_category : null,
+        customer_id: form.action === 'receipt' ? form.customer_id : null,
+        account_id: form.action === 'expense' ? null : form.account_id || null,
+        memo: form.memo.trim() || null,
+        auto_create: form.auto_create,
+      };
+
+      if (editingId) {
+        const { error } = await supabase
+          .from('bank_categorisation_rules')
+          .update(payload)
+          .eq('id', editingId);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('bank_categorisation_rules')
+          .insert([{ ...payload, created_by: user?.id }]);
+        if (error) throw error;
+      }
+
+      showToast({ type: 'success', title: 'Saved', message: `Rule "${payload.name}" saved` });
+      setForm(null);
+      setEditingId(null);
+      setPreview(null);
+      loadRules();
+    } catch (error) {
+      console.error('Error saving categorisation rule:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save rule',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (rule: CategorisationRule) => {
+    if (!confirm(`Delete rule "${rule.name}"? Lines it already recorded stay recorded.`)) return;
+    try {
+      const { error } = await supabase.from('bank_categorisation_rules').delete().eq('id', rule.id);
+      if (error) throw error;
+      loadRules();
+    } catch (error) {
+      console.error('Error deleting categorisation rule:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to delete rule',
+      });
+    }
+  };
+
+  const applyRules = async () => {
+    setApplying(true);
+    try {
+      await onApply();
+      loadRules();
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const describeTarget = (rule: CategorisationRule) => {
+    if (rule.action === 'expense') {
+      return `Expense: ${expenseCategories.find(c => c.value === rule.expense_category)?.label || rule.expense_category}`;
+    }
+    const account = accounts.find(a => a.id === rule.account_id);
+    const accountLabel = account ? `${account.code} ${account.name}` : '';
+    if (rule.action === 'receipt') {
+      const customer = customers.find(c => c.id === rule.customer_id)?.company_name || 'Customer';
+      return `Receipt: ${customer}${accountLabel ? ` → ${accountLabel}` : ''}`;
+    }
+    return `Journal: ${accountLabel || 'account'}`;
+  };
+
+  const describeMatch = (rule: CategorisationRule) => {
+    const parts: string[] = [];
+    if (rule.direction !== 'any') parts.push(rule.direction === 'debit' ? 'Debit' : 'Credit');
+    if (rule.description_pattern) parts.push(`/${rule.description_pattern}/i`);
+    if (rule.min_amount !== null || rule.max_amount !== null) {
+      parts.push(`${rule.min_amount !== null ? formatAmount(rule.min_amount) : '0'} – ${rule.max_amount !== null ? formatAmount(rule.max_amount) : '∞'}`);
+    }
+    const bank = bankAccounts.find(b => b.id === rule.bank_account_id);
+    parts.push(bank ? bank.label : 'All banks');
+    return parts.join(' · ');
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Categorisation Rules" size="xl">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-600">
+            Rules run by priority over unmatched lines after auto-match. The first matching rule either proposes a
+            transaction for review or, with auto-create, records it straight away.
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={applyRules}
+              disabled={applying || rules.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-emerald-600 text-white rounded hover:bg-emerald-700 disabled:opacity-50"
+            >
+              <Zap className="w-3.5 h-3.5" />
+              {applying ? 'Applying...' : 'Apply Now'}
+            </button>
+            <button
+              onClick={() => openForm()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New Rule
+            </button>
+          </div>
+        </div>
+
+        {form && (
+          <div className="border rounded-lg p-3 bg-gray-50 space-y-3">
+            <div className="grid grid-cols-4 gap-2">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g. Monthly admin fee"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Priority</label>
+                <input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => updateForm({ priority: e.target.value })}
+                  className={inputClass}
+                  title="Lower runs first"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Bank Account</label>
+                <select
+                  value={form.bank_account_id}
+                  onChange={(e) => updateForm({ bank_account_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All banks</option>
+                  {bankAccounts.map((b) => (
+                    <option key={b.id} value={b.id}>{b.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Description Pattern (regex, case-insensitive)</label>
+                <input
+                  type="text"
+                  value={form.description_pattern}
+                  onChange={(e) => updateForm({ description_pattern: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                  placeholder="e.g. BIAYA ADM|ADMIN FEE"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Min Amount</label>
+                <input
+                  type="number"
+                  value={form.min_amount}
+                  onChange={(e) => updateForm({ min_amount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Max Amount</label>
+                <input
+                  type="number"
+                  value={form.max_amount}
+                  onChange={(e) => updateForm({ max_amount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Record As</label>
+                <select
+                  value={form.action}
+                  onChange={(e) => updateForm({ action: e.target.value as RuleForm['action'] })}
+                  className={inputClass}
+                >
+                  <option value="expense">Expense</option>
+                  <option value="receipt">Receipt Voucher</option>
+                  <option value="journal">Journal Entry</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Direction</label>
+                <select
+                  value={form.direction}
+                  onChange={(e) => updateForm({ direction: e.target.value as RuleForm['direction'] })}
+                  disabled={form.action !== 'journal'}
+                  className={`${inputClass} disabled:bg-gray-100`}
+                >
+                  <option value="debit">Debit (money out)</option>
+                  <option value="credit">Credit (money in)</option>
+                  <option value="any">Either</option>
+                </select>
+              </div>
+              <div className="col-span-2">
+                {form.action === 'expense' && (
+                  <>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Expense Category *</label>
+                    <select
+                      value={form.expense_category}
+                      onChange={(e) => updateForm({ expense_category: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Select category...</option>
+                      {expenseCategories.map((c) => (
+                        <option key={c.value} value={c.value}>{c.label}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                {form.action === 'receipt' && (
+                  <>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Customer *</label>
+                    <SearchableSelect
+                      value={form.customer_id}
+                      onChange={(val) => updateForm({ customer_id: val })}
+                      options={customers.map(c => ({ value: c.id, label: c.company_name }))}
+                      placeholder="Select customer..."
+                    />
+                  </>
+                )}
+                {form.action === 'journal' && (
+                  <>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Post Against Account *</label>
+                    <SearchableSelect
+                      value={form.account_id}
+                      onChange={(val) => updateForm({ account_id: val })}
+                      options={accounts.map(a => ({ value: a.id, label: `${a.code} - ${a.name}` }))}
+                      placeholder="Select account..."
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              {form.action === 'receipt' && (
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Credit Account (default Accounts Receivable)</label>
+                  <SearchableSelect
+                    value={form.account_id}
+                    onChange={(val) => updateForm({ account_id: val })}
+                    options={accounts.map(a => ({ value: a.id, label: `${a.code} - ${a.name}` }))}
+                    placeholder="Accounts Receivable"
+                  />
+                </div>
+              )}
+              <div className={form.action === 'receipt' ? 'col-span-2' : 'col-span-4'}>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Description (blank = statement description)</label>
+                <input
+                  type="text"
+                  value={form.memo}
+                  onChange={(e) => updateForm({ memo: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex gap-4">
+                <label className="flex items-center gap-1.5 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => updateForm({ is_active: e.target.checked })}
+                  />
+                  Active
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.auto_create}
+                    onChange={(e) => updateForm({ auto_create: e.target.checked })}
+                  />
+                  Auto-create (record without review)
+                </label>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={runPreview}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs border rounded hover:bg-white"
+                >
+                  <Eye className="w-3.5 h-3.5" />
+                  Preview
+                </button>
+                <button
+                  onClick={() => { setForm(null); setEditingId(null); setPreview(null); }}
+                  className="px-3 py-1.5 text-xs border rounded hover:bg-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveRule}
+                  disabled={saving}
+                  className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Rule'}
+                </button>
+              </div>
+            </div>
+
+            {preview && (
+              <div className="border rounded bg-white">
+                <div className="px-3 py-2 text-xs font-medium text-gray-700 border-b">
+                  Matches {preview.total} unmatched line{preview.total === 1 ? '' : 's'}
+                  {preview.total > preview.lines.length && ` (showing ${preview.lines.length})`}
+                </div>
+                {preview.lines.length > 0 && (
+                  <div className="max-h-48 overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <tbody className="divide-y">
+                        {preview.lines.map((line) => (
+                          <tr key={line.id}>
+                            <td className="px-3 py-1 whitespace-nowrap text-gray-600">{line.transaction_date}</td>
+                            <td className="px-3 py-1 text-gray-900">{line.description}</td>
+                            <td className="px-3 py-1 text-right text-red-700 whitespace-nowrap">
+                              {line.debit_amount ? formatAmount(line.debit_amount) : ''}
+                            </td>
+                            <td className="px-3 py-1 text-right text-green-700 whitespace-nowrap">
+                              {line.credit_amount ? formatAmount(line.credit_amount) : ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">#</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Rule</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Matches</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Records As</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Hits</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-gray-500">Loading...</td>
+                </tr>
+              ) : rules.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-gray-500">
+                    No rules yet. Create one for recurring lines such as bank charges or interest.
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr key={rule.id} className={rule.is_active ? '' : 'opacity-50'}>
+                    <td className="px-3 py-2 text-xs text-gray-500">{rule.priority}</td>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{rule.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {rule.auto_create ? 'Auto-create' : 'Propose'}{!rule.is_active && ' · Inactive'}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-gray-600">{describeMatch(rule)}</td>
+                    <td className="px-3 py-2 text-xs text-gray-600">{describeTarget(rule)}</td>
+                    <td className="px-3 py-2 text-right text-xs text-gray-700" title={rule.last_hit_at ? `Last hit ${new Date(rule.last_hit_at).toLocaleString()}` : undefined}>
+                      {rule.hit_count}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => openForm(rule)}
+                          className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                          title="Edit rule"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteRule(rule)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                          title="Delete rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Modal>
+  );
+}
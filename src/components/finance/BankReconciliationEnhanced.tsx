@@ -1,10 +1,20 @@
 import { useEffect, useState, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Upload, RefreshCw, CheckCircle2, AlertCircle, XCircle, Plus, Calendar, Landmark, FileText, Edit } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import { Upload, RefreshCw, CheckCircle2, AlertCircle, XCircle, Plus, Calendar, Landmark, FileText, Edit, ListFilter, Wand2 } from 'lucide-react';
 import { Modal } from '../Modal';
+import { BankCategorisationRules } from './BankCategorisationRules';
 import { SearchableSelect } from '../SearchableSelect';
 import { useFinance } from '../../contexts/FinanceContext';
+import {
+  ContinuityIssue,
+  StatementContinuity,
+  StatementParseResult,
+  StatementSource,
+  evaluateContinuity,
+  parseStatement,
+  readStatementFile,
+  statementParsers,
+} from '../../utils/bankStatementParsers';
 
 interface BankAccount {
   id: string;
@@ -13,6 +23,7 @@ interface BankAccount {
   account_number: string;
   currency: string;
   alias: string | null;
+  statement_parser: string | null;
 }
 
 interface StatementLine {
@@ -53,6 +64,11 @@ interface StatementLine {
     from_account_type: string;
     to_account_type: string;
   } | null;
+  suggestedRule?: {
+    id: string;
+    name: string;
+    action: 'expense' | 'receipt' | 'journal';
+  } | null;
   notes?: string;
 }
 
@@ -81,9 +97,15 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
   const [expenses, setExpenses] = useState<any[]>([]);
   const [linkToExpense, setLinkToExpense] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [ocrError, setOcrError] = useState<{message: string; canUseOCR: boolean; suggestions: string[]} | null>(null);
-  const [ocrPreview, setOcrPreview] = useState<any | null>(null);
-  const [lastUploadedFile, setLastUploadedFile] = useState<File | null>(null);
+  const [statementPreview, setStatementPreview] = useState<{
+    file: File;
+    source: StatementSource;
+    result: StatementParseResult;
+    parserId: string | null;
+    year: number;
+    continuityIssues: ContinuityIssue[];
+    acknowledged: boolean;
+  } | null>(null);
   const [editingLine, setEditingLine] = useState<StatementLine | null>(null);
   const [editModal, setEditModal] = useState(false);
   const [editFormData, setEditFormData] = useState({
@@ -102,6 +124,7 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
   const [linkExistingReceipt, setLinkExistingReceipt] = useState(false);
   const [linkJournalEntry, setLinkJournalEntry] = useState(false);
   const [availableJournals, setAvailableJournals] = useState<any[]>([]);
+  const [showRulesModal, setShowRulesModal] = useState(false);
 
   const expenseCategories = [
     {
@@ -328,7 +351,7 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
     try {
       const { data, error } = await supabase
         .from('bank_accounts')
-        .select('id, account_name, bank_name, account_number, currency, alias')
+        .select('id, account_name, bank_name, account_number, currency, alias, statement_parser')
         .eq('is_active', true)
         .order('account_name');
       if (error) throw error;
@@ -409,6 +432,7 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
       const expenseIds = (data || []).map(r => r.matched_expense_id).filter(Boolean);
       const receiptIds = (data || []).map(r => r.matched_receipt_id).filter(Boolean);
       const fundTransferIds = (data || []).map(r => r.matched_fund_transfer_id).filter(Boolean);
+      const ruleIds = [...new Set((data || []).map(r => r.suggested_rule_id).filter(Boolean))];
 
       // Batch load all expenses
       const expenseMap = new Map();
@@ -448,6 +472,16 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
         fundTransfers?.forEach(f => fundTransferMap.set(f.id, f));
       }
 
+      // Batch load categorisation rules proposed for unmatched lines
+      const ruleMap = new Map();
+      if (ruleIds.length > 0) {
+        const { data: rules } = await supabase
+          .from('bank_categorisation_rules')
+          .select('id, name, action')
+          .in('id', ruleIds);
+        rules?.forEach(r => ruleMap.set(r.id, r));
+      }
+
       // Map lines with pre-loaded data (NO MORE QUERIES!)
       const lines: StatementLine[] = (data || []).map(row => {
         return {
@@ -467,6 +501,7 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
           matchedExpense: row.matched_expense_id ? expenseMap.get(row.matched_expense_id) : null,
           matchedReceipt: row.matched_receipt_id ? receiptMap.get(row.matched_receipt_id) : null,
           matchedFundTransfer: row.matched_fund_transfer_id ? fundTransferMap.get(row.matched_fund_transfer_id) : null,
+          suggestedRule: row.suggested_rule_id ? ruleMap.get(row.suggested_rule_id) : null,
           notes: row.notes,
         };
       });
@@ -480,254 +515,23 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
     }
   };
 
-  const parseIndonesianNumber = (str: string): number => {
-    if (!str) return 0;
-    const cleaned = str.replace(/[^\d,\.]/g, '');
-    if (cleaned.includes(',') && cleaned.includes('.')) {
-      const lastComma = cleaned.lastIndexOf(',');
-      const lastDot = cleaned.lastIndexOf('.');
-      if (lastComma > lastDot) {
-        return parseFloat(cleaned.replace(/\./g, '').replace(/,/g, '.')) || 0;
-      } else {
-        return parseFloat(cleaned.replace(/,/g, '')) || 0;
-      }
-    } else if (cleaned.includes(',')) {
-      return parseFloat(cleaned.replace(/,/g, '.')) || 0;
-    } else {
-      return parseFloat(cleaned.replace(/,/g, '')) || 0;
-    }
-  };
-
-  const parseCSVLine = (line: string, delimiter: string = ';'): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
+  const buildPreview = async (file: File, source: StatementSource, parserId: string | null, year: number) => {
+    const result = parseStatement(source, { year }, parserId);
 
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === delimiter && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+    // Compare against what is already on file before anything is imported or matched
+    let continuity: StatementContinuity | null = null;
+    if (result.metadata.startDate && result.metadata.endDate) {
+      const { data, error } = await supabase.rpc('check_bank_statement_continuity', {
+        p_bank_account_id: selectedBank,
+        p_start_date: result.metadata.startDate,
+        p_end_date: result.metadata.endDate,
+      });
+      if (error) console.error('Continuity check error:', error);
+      else continuity = data;
     }
 
-    result.push(current.trim());
-    return result;
-  };
-
-  const handleCSVUpload = async (file: File) => {
-    try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        try {
-          const text = event.target?.result as string;
-
-          // Auto-detect delimiter by checking first few lines
-          const firstLines = text.split('\n').slice(0, 5).join('\n');
-          const commaCount = (firstLines.match(/,/g) || []).length;
-          const semicolonCount = (firstLines.match(/;/g) || []).length;
-          const detectedDelimiter = commaCount > semicolonCount ? ',' : ';';
-
-          console.log(`📊 Detected delimiter: "${detectedDelimiter}" (commas: ${commaCount}, semicolons: ${semicolonCount})`);
-
-          const rows: any[][] = [];
-          let currentLine = '';
-          let inQuotes = false;
-
-          for (let i = 0; i < text.length; i++) {
-            const char = text[i];
-
-            if (char === '"') {
-              inQuotes = !inQuotes;
-              currentLine += char;
-            } else if (char === '\n' && !inQuotes) {
-              if (currentLine.trim()) {
-                const cells = parseCSVLine(currentLine, detectedDelimiter);
-                rows.push(cells);
-              }
-              currentLine = '';
-            } else if (char !== '\r') {
-              currentLine += char;
-            }
-          }
-
-          if (currentLine.trim()) {
-            const cells = parseCSVLine(currentLine, detectedDelimiter);
-            rows.push(cells);
-          }
-
-          console.log('📊 CSV rows parsed:', rows.length);
-          console.log('📋 First 10 rows:');
-          rows.slice(0, 10).forEach((row, i) => {
-            console.log(`Row ${i}:`, row);
-          });
-
-          // Ask user for the year since CSV only has dd/MM format
-          const currentYear = new Date().getFullYear();
-          const userYear = prompt(`CSV contains dates without year (e.g., 01/12).\nWhich year is this statement for?`, String(currentYear));
-          if (!userYear) {
-            alert('❌ Year is required to process the CSV');
-            return;
-          }
-          const statementYear = parseInt(userYear);
-          if (isNaN(statementYear) || statementYear < 2000 || statementYear > 2100) {
-            alert('❌ Invalid year provided');
-            return;
-          }
-
-          const { lines: parsedLines, metadata } = parseStatementDataWithMetadata(rows, statementYear);
-
-          console.log('✅ Parsed lines:', parsedLines.length);
-          console.log('📈 Metadata:', metadata);
-
-          if (parsedLines.length === 0) {
-            alert('❌ No transactions found in the CSV file. Check browser console for details.');
-            return;
-          }
-
-          const { data: uploadRecord, error: uploadError } = await supabase
-            .from('bank_statement_uploads')
-            .insert({
-              bank_account_id: selectedBank,
-              statement_period: metadata.period || `${new Date().toLocaleString('default', { month: 'long' })} ${new Date().getFullYear()}`,
-              statement_start_date: metadata.startDate || dateRange.start,
-              statement_end_date: metadata.endDate || dateRange.end,
-              currency: selectedAccount?.currency || 'IDR',
-              opening_balance: metadata.openingBalance || 0,
-              closing_balance: metadata.closingBalance || parsedLines[parsedLines.length - 1]?.balance || 0,
-              total_debits: metadata.totalDebits || parsedLines.reduce((sum, l) => sum + l.debit, 0),
-              total_credits: metadata.totalCredits || parsedLines.reduce((sum, l) => sum + l.credit, 0),
-              transaction_count: parsedLines.length,
-              status: 'completed',
-            })
-            .select()
-            .single();
-
-          if (uploadError) throw uploadError;
-
-          const { data: { user } } = await supabase.auth.getUser();
-
-          const insertData = parsedLines.map(line => ({
-            upload_id: uploadRecord.id,
-            bank_account_id: selectedBank,
-            transaction_date: line.date,
-            description: line.description,
-            reference: line.reference,
-            debit_amount: line.debit,
-            credit_amount: line.credit,
-            running_balance: line.balance,
-            statement_balance: line.balance,
-            currency: selectedAccount?.currency || 'IDR',
-            reconciliation_status: 'unmatched',
-            created_by: user?.id,
-          }));
-
-          // Check for potential duplicates first
-          const { data: existingLines } = await supabase
-            .from('bank_statement_lines')
-            .select('transaction_date, description, debit_amount, credit_amount, running_balance')
-            .eq('bank_account_id', selectedBank);
-
-          // Find duplicates by matching date, amounts, and description
-          const duplicates = insertData.filter(newLine =>
-            existingLines?.some(existing =>
-              existing.transaction_date === newLine.transaction_date &&
-              existing.description === newLine.description &&
-              existing.debit_amount === newLine.debit_amount &&
-              existing.credit_amount === newLine.credit_amount &&
-              existing.running_balance === newLine.running_balance
-            )
-          );
-
-          let finalInsertData = insertData;
-
-          if (duplicates.length > 0) {
-            // Show duplicates to user
-            let dupMessage = `⚠️ Found ${duplicates.length} potential duplicate transaction(s):\n\n`;
-            duplicates.slice(0, 5).forEach((dup, idx) => {
-              const date = new Date(dup.transaction_date).toLocaleDateString('en-GB');
-              const amt = dup.debit_amount || dup.credit_amount;
-              dupMessage += `${idx + 1}. ${date} - ${dup.description.substring(0, 40)} - Rp ${amt.toLocaleString()}\n`;
-            });
-            if (duplicates.length > 5) {
-              dupMessage += `... and ${duplicates.length - 5} more\n`;
-            }
-            dupMessage += `\nDo you want to ADD them anyway?\n(Click OK to add, Cancel to skip duplicates)`;
-
-            const userWantsToAdd = confirm(dupMessage);
-
-            if (!userWantsToAdd) {
-              // Filter out duplicates
-              finalInsertData = insertData.filter(newLine =>
-                !existingLines?.some(existing =>
-                  existing.transaction_date === newLine.transaction_date &&
-                  existing.description === newLine.description &&
-                  existing.debit_amount === newLine.debit_amount &&
-                  existing.credit_amount === newLine.credit_amount &&
-                  existing.running_balance === newLine.running_balance
-                )
-              );
-            }
-          }
-
-          if (finalInsertData.length === 0) {
-            alert('ℹ️ No new transactions to import (all were duplicates and skipped)');
-            return;
-          }
-
-          const { data: inserted, error: insertError } = await supabase
-            .from('bank_statement_lines')
-            .insert(finalInsertData)
-            .select();
-
-          if (insertError) {
-            console.error('Insert error:', insertError);
-            throw insertError;
-          }
-
-          const insertedCount = inserted?.length || 0;
-          const skippedCount = insertData.length - finalInsertData.length;
-
-          let message = `✅ CSV Import complete!\n`;
-          message += `   Total processed: ${insertData.length} transaction(s)\n`;
-          message += `   New transactions added: ${insertedCount}\n`;
-          if (skippedCount > 0) {
-            message += `   Duplicates skipped: ${skippedCount}`;
-          }
-          alert(message);
-
-          try {
-            await loadStatementLines();
-          } catch (loadError) {
-            console.error('Load statement lines error:', loadError);
-          }
-
-          if (insertedCount > 0) {
-            try {
-              await autoMatchTransactions();
-            } catch (matchError) {
-              console.error('Auto-match error:', matchError);
-            }
-          }
-        } catch (err: any) {
-          console.error('CSV parsing error:', err);
-          alert(`❌ Error parsing CSV: ${err.message}`);
-        }
-      };
-      reader.onerror = () => {
-        console.error('FileReader error');
-        alert('❌ Failed to read CSV file');
-      };
-      reader.readAsText(file);
-    } catch (error: any) {
-      console.error('CSV upload error:', error);
-      alert(`❌ Failed to read CSV: ${error.message}`);
-    }
+    const continuityIssues = evaluateContinuity(result.metadata, result.lines, continuity, selectedAccount?.currency || 'IDR');
+    setStatementPreview({ file, source, result, parserId, year, continuityIssues, acknowledged: false });
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -747,21 +551,15 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
 
     setUploading(true);
     try {
-      const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
-      const isImage = file.type.startsWith('image/') || file.name.match(/\.(png|jpg|jpeg)$/i);
-      const isCSV = file.name.toLowerCase().endsWith('.csv');
-
-      if (isPDF) {
-        await handlePDFUpload(file);
-      } else if (isImage) {
-        await handlePDFUpload(file, true);
-      } else if (isCSV) {
-        await handleCSVUpload(file);
-      } else {
-        await handleExcelUpload(file);
+      if (file.type.startsWith('image/') || /\.(png|jpe?g)$/i.test(file.name)) {
+        throw new Error('Scanned statement images are not supported. Download the statement as PDF, CSV, Excel or MT940 from the bank portal.');
       }
-    } catch (uploadError) {
-      console.error('File upload error:', uploadError);
+
+      const source = await readStatementFile(file);
+      await buildPreview(file, source, selectedAccount.statement_parser, new Date().getFullYear());
+    } catch (error: any) {
+      console.error('File upload error:', error);
+      alert(`❌ Failed to read statement: ${error.message}`);
     } finally {
       setUploading(false);
       if (fileInputRef.current) {
@@ -770,567 +568,168 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
     }
   };
 
-  const handlePDFUpload = async (file: File, useOCR = false, previewOnly = false) => {
+  const handlePreviewOptionsChange = async (parserId: string | null, year: number) => {
+    if (!statementPreview) return;
     try {
-      setUploading(true);
-      setOcrError(null);
-
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('bankAccountId', selectedBank);
-      if (useOCR) {
-        formData.append('useOCR', 'true');
-      }
-      if (previewOnly) {
-        formData.append('previewOnly', 'true');
-      }
-
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) throw new Error('Not authenticated');
-
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/parse-bca-statement`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-          },
-          body: formData,
-        }
-      );
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        if (result.canUseOCR) {
-          setOcrError({
-            message: result.error,
-            canUseOCR: true,
-            suggestions: result.suggestions
-          });
-          setLastUploadedFile(file);
-        } else {
-          throw new Error(result.error || 'Failed to parse PDF');
-        }
-        return;
-      }
-
-      if (result.preview) {
-        setOcrPreview(result);
-        return;
-      }
-
-      const ocrUsed = result.usedOCR ? ' (via OCR)' : '';
-      let message = `✅ Import complete from ${result.period}${ocrUsed}\n`;
-      message += `   Imported: ${result.insertedCount || result.transactionCount} transaction(s)`;
-      if (result.duplicateCount > 0) {
-        message += `\n   Skipped (duplicates): ${result.duplicateCount} transaction(s)`;
-      }
-      alert(message);
-      setOcrError(null);
-      setLastUploadedFile(null);
-
-      try {
-        await loadStatementLines();
-      } catch (loadError) {
-        console.error('Load statement lines error:', loadError);
-      }
-
-      const insertedCount = result.insertedCount || result.transactionCount || 0;
-      if (insertedCount > 0) {
-        try {
-          await autoMatchTransactions();
-        } catch (matchError) {
-          console.error('Auto-match error:', matchError);
-        }
-      }
+      await buildPreview(statementPreview.file, statementPreview.source, parserId, year);
     } catch (error: any) {
-      console.error('PDF upload error:', error);
-      alert(`❌ Failed to parse PDF: ${error.message}`);
-    } finally {
-      setUploading(false);
+      alert(`❌ ${error.message}`);
     }
   };
 
-  const handleRunOCR = async () => {
-    if (!lastUploadedFile) return;
-    setUploading(true);
-    setOcrError(null);
-    try {
-      await handlePDFUpload(lastUploadedFile, true, true);
-    } catch (error: any) {
-      alert(`❌ OCR failed: ${error.message}`);
-      setUploading(false);
-    }
-  };
+  const importStatement = async () => {
+    if (!statementPreview || !selectedAccount) return;
+    const { file, result, continuityIssues } = statementPreview;
+    const { lines, metadata, warnings, parser } = result;
 
-  const handleConfirmOCRPreview = async () => {
-    if (!lastUploadedFile) return;
-    setOcrPreview(null);
-    setUploading(true);
-    try {
-      await handlePDFUpload(lastUploadedFile, true, false);
-    } catch (error: any) {
-      alert(`❌ Failed to save: ${error.message}`);
-    } finally {
-      setUploading(false);
+    if (lines.length === 0) {
+      alert('❌ No transactions could be read from this file');
+      return;
     }
-  };
 
-  const handleExcelUpload = async (file: File) => {
+    setUploading(true);
     try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        try {
-          const data = event.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-
-          console.log('📊 Raw Excel data rows:', jsonData.length);
-          console.log('📋 First 10 rows:');
-          jsonData.slice(0, 10).forEach((row, i) => {
-            console.log(`Row ${i}:`, row);
-          });
-
-          const { lines, metadata } = parseStatementDataWithMetadata(jsonData);
-
-          console.log('✅ Parsed lines:', lines.length);
-          console.log('📈 Metadata:', metadata);
-          if (lines.length > 0) {
-            console.log('🔍 First 3 transactions:', lines.slice(0, 3));
-          }
-
-          if (lines.length === 0) {
-            alert('❌ No valid transactions found in the file. Check browser console (F12) for details.');
-            return;
-          }
-
-          const { data: uploadRecord, error: uploadError } = await supabase
-            .from('bank_statement_uploads')
-            .insert({
-              bank_account_id: selectedBank,
-              statement_period: metadata.period || `${new Date().toLocaleString('default', { month: 'long' })} ${new Date().getFullYear()}`,
-              statement_start_date: metadata.startDate || dateRange.start,
-              statement_end_date: metadata.endDate || dateRange.end,
-              currency: selectedAccount?.currency || 'IDR',
-              opening_balance: metadata.openingBalance || 0,
-              closing_balance: metadata.closingBalance || lines[lines.length - 1]?.balance || 0,
-              total_debits: metadata.totalDebits || lines.reduce((sum, l) => sum + l.debit, 0),
-              total_credits: metadata.totalCredits || lines.reduce((sum, l) => sum + l.credit, 0),
-              transaction_count: lines.length,
-              status: 'completed',
-            })
-            .select()
-            .single();
-
-          if (uploadError) throw uploadError;
-
-          const { data: { user } } = await supabase.auth.getUser();
-
-          const insertData = lines.map(line => ({
-            upload_id: uploadRecord.id,
-            bank_account_id: selectedBank,
-            transaction_date: line.date,
-            description: line.description,
-            reference: line.reference,
-            debit_amount: line.debit,
-            credit_amount: line.credit,
-            running_balance: line.balance,
-            statement_balance: line.balance,
-            currency: selectedAccount?.currency || 'IDR',
-            reconciliation_status: 'unmatched',
-            created_by: user?.id,
-          }));
-
-          // Check for potential duplicates first
-          const { data: existingLines } = await supabase
-            .from('bank_statement_lines')
-            .select('transaction_date, description, debit_amount, credit_amount, running_balance')
-            .eq('bank_account_id', selectedBank);
-
-          // Find duplicates by matching date, amounts, and description
-          const duplicates = insertData.filter(newLine =>
-            existingLines?.some(existing =>
-              existing.transaction_date === newLine.transaction_date &&
-              existing.description === newLine.description &&
-              existing.debit_amount === newLine.debit_amount &&
-              existing.credit_amount === newLine.credit_amount &&
-              existing.running_balance === newLine.running_balance
-            )
-          );
-
-          let finalInsertData = insertData;
-
-          if (duplicates.length > 0) {
-            // Show duplicates to user
-            let dupMessage = `⚠️ Found ${duplicates.length} potential duplicate transaction(s):\n\n`;
-            duplicates.slice(0, 5).forEach((dup, idx) => {
-              const date = new Date(dup.transaction_date).toLocaleDateString('en-GB');
-              const amt = dup.debit_amount || dup.credit_amount;
-              dupMessage += `${idx + 1}. ${date} - ${dup.description.substring(0, 40)} - Rp ${amt.toLocaleString()}\n`;
-            });
-            if (duplicates.length > 5) {
-              dupMessage += `... and ${duplicates.length - 5} more\n`;
-            }
-            dupMessage += `\nDo you want to ADD them anyway?\n(Click OK to add, Cancel to skip duplicates)`;
-
-            const userWantsToAdd = confirm(dupMessage);
-
-            if (!userWantsToAdd) {
-              // Filter out duplicates
-              finalInsertData = insertData.filter(newLine =>
-                !existingLines?.some(existing =>
-                  existing.transaction_date === newLine.transaction_date &&
-                  existing.description === newLine.description &&
-                  existing.debit_amount === newLine.debit_amount &&
-                  existing.credit_amount === newLine.credit_amount &&
-                  existing.running_balance === newLine.running_balance
-                )
-              );
-            }
-          }
-
-          if (finalInsertData.length === 0) {
-            alert('ℹ️ No new transactions to import (all were duplicates and skipped)');
-            return;
-          }
-
-          const { data: inserted, error: insertError } = await supabase
-            .from('bank_statement_lines')
-            .insert(finalInsertData)
-            .select();
-
-          if (insertError) {
-            console.error('Insert error:', insertError);
-            throw insertError;
-          }
-
-          const insertedCount = inserted?.length || 0;
-          const skippedCount = insertData.length - finalInsertData.length;
-
-          let message = `✅ Excel Import complete!\n`;
-          message += `   Total processed: ${insertData.length} transaction(s)\n`;
-          message += `   New transactions added: ${insertedCount}\n`;
-          if (skippedCount > 0) {
-            message += `   Duplicates skipped: ${skippedCount}`;
-          }
-          alert(message);
-
-          try {
-            await loadStatementLines();
-          } catch (loadError) {
-            console.error('Load statement lines error:', loadError);
-          }
-
-          if (insertedCount > 0) {
-            try {
-              await autoMatchTransactions();
-            } catch (matchError) {
-              console.error('Auto-match error:', matchError);
-            }
-          }
-        } catch (err: any) {
-          console.error('Error parsing file:', err);
-          alert('❌ Failed to parse file: ' + err.message);
-        }
-      };
-      reader.readAsBinaryString(file);
-    } catch (error: any) {
-      console.error('Excel upload error:', error);
-      alert(`❌ Failed to process file: ${error.message}`);
-    }
-  };
-
-  const parseStatementDataWithMetadata = (rows: any[][], providedYear?: number): { lines: StatementLine[]; metadata: any } => {
-    const lines: StatementLine[] = [];
-    const metadata: any = {
-      period: '',
-      startDate: '',
-      endDate: '',
-      openingBalance: 0,
-      closingBalance: 0,
-      totalDebits: 0,
-      totalCredits: 0,
-    };
-
-    let year = providedYear || new Date().getFullYear();
-    let _month = new Date().getMonth() + 1;
-
-    for (let i = 0; i < Math.min(10, rows.length); i++) {
-      const row = rows[i];
-      if (!row || row.length === 0) continue;
-
-      const firstCell = String(row[0] || '');
-      if (firstCell.includes('Periode')) {
-        const periodeMatch = firstCell.match(/(\d{2})\/(\d{2})\/(\d{4})\s*-\s*(\d{2})\/(\d{2})\/(\d{4})/);
-        if (periodeMatch) {
-          const startDay = parseInt(periodeMatch[1]);
-          const startMonth = parseInt(periodeMatch[2]);
-          const startYear = parseInt(periodeMatch[3]);
-          const endDay = parseInt(periodeMatch[4]);
-          const endMonth = parseInt(periodeMatch[5]);
-          const endYear = parseInt(periodeMatch[6]);
-
-          year = startYear;
-          _month = startMonth;
-
-          metadata.startDate = `${startYear}-${String(startMonth).padStart(2, '0')}-${String(startDay).padStart(2, '0')}`;
-          metadata.endDate = `${endYear}-${String(endMonth).padStart(2, '0')}-${String(endDay).padStart(2, '0')}`;
-
-          const monthNames = ['', 'JANUARI', 'FEBRUARI', 'MARET', 'APRIL', 'MEI', 'JUNI', 'JULI', 'AGUSTUS', 'SEPTEMBER', 'OKTOBER', 'NOVEMBER', 'DESEMBER'];
-          metadata.period = `${monthNames[startMonth]} ${startYear}`;
-        }
-      }
-    }
-
-    let headerRowIdx = -1;
-    for (let i = 0; i < Math.min(20, rows.length); i++) {
-      const row = rows[i];
-      if (!row || row.length === 0) continue;
-
-      const rowStr = row.map((c: any) => String(c || '').toLowerCase()).join('|');
-
-      if ((rowStr.includes('tanggal') || rowStr.includes('date') || rowStr.includes('tgl')) &&
-          (rowStr.includes('keterangan') || rowStr.includes('description') || rowStr.includes('desc') ||
-           rowStr.includes('mutasi') || rowStr.includes('amount') || rowStr.includes('saldo') || rowStr.includes('balance'))) {
-        headerRowIdx = i;
-        console.log(`✅ Found header at row ${i}:`, row);
-        break;
-      }
-    }
-
-    console.log('🔍 Header row index:', headerRowIdx);
-
-    if (headerRowIdx === -1) {
-      console.error('❌ Could not find column headers');
-      console.log('📋 All rows checked:');
-      rows.slice(0, 20).forEach((r, i) => {
-        console.log(`  Row ${i}:`, r);
-      });
-      return { lines, metadata };
-    }
-
-    const headerRow = rows[headerRowIdx];
-    let dateCol = -1, descCol = -1, branchCol = -1, amountCol = -1, balanceCol = -1;
-    let debitCol = -1, creditCol = -1;
-
-    headerRow.forEach((cell: any, idx: number) => {
-      const cellStr = String(cell || '').toLowerCase();
-      if (cellStr.includes('tanggal') || cellStr.includes('date') || cellStr.includes('tgl')) dateCol = idx;
-      if (cellStr.includes('keterangan') || cellStr.includes('description') || cellStr.includes('desc')) descCol = idx;
-      if (cellStr.includes('cabang') || cellStr.includes('branch')) branchCol = idx;
-      if (cellStr.includes('mutasi') && !cellStr.includes('debet') && !cellStr.includes('kredit')) amountCol = idx;
-      if (cellStr.includes('debet') || cellStr.includes('debit') || cellStr.includes('db')) debitCol = idx;
-      if (cellStr.includes('kredit') || cellStr.includes('credit') || cellStr.includes('cr')) creditCol = idx;
-      if (cellStr.includes('saldo') || cellStr.includes('balance')) balanceCol = idx;
-    });
-
-    console.log('📍 Column positions:', { dateCol, descCol, branchCol, amountCol, debitCol, creditCol, balanceCol });
-    console.log('📋 Header row cells:', headerRow.map((cell, idx) => `[${idx}]: "${cell}"`));
-
-    if (dateCol === -1) {
-      console.error('❌ Missing date column');
-      console.log('📋 Header row:', headerRow);
-      return { lines, metadata };
-    }
-
-    let processedCount = 0;
-    let skippedCount = 0;
-
-    for (let i = headerRowIdx + 1; i < rows.length; i++) {
-      const row = rows[i];
-      if (!row || row.length === 0) {
-        skippedCount++;
-        continue;
-      }
-
-      const firstCell = String(row[0] || '');
-      const secondCell = String(row[1] || '');
-      const rowText = `${firstCell} ${secondCell}`.toUpperCase();
-
-      if (rowText.includes('SALDO AWAL')) {
-        skippedCount++;
-        continue;
-      }
+      const { data: { user } } = await supabase.auth.getUser();
 
-      if (rowText.includes('MUTASI DEBET') ||
-          rowText.includes('MUTASI KREDIT') ||
-          rowText.includes('SALDO AKHIR')) {
-        console.log(`⏹️ Stopped at footer row ${i}: ${firstCell}`);
-        break;
+      // Keep the source file with the upload; a storage failure should not block the import
+      let fileUrl: string | null = null;
+      const storagePath = `${selectedBank}/${Date.now()}_${file.name}`;
+      const { error: storageError } = await supabase.storage
+        .from('bank-statements')
+        .upload(storagePath, file);
+      if (storageError) {
+        console.error('Statement file upload error:', storageError);
+      } else {
+        fileUrl = supabase.storage.from('bank-statements').getPublicUrl(storagePath).data.publicUrl;
       }
 
-      const dateVal = row[dateCol];
-      if (!dateVal) {
-        skippedCount++;
-        if (i < headerRowIdx + 5) console.log(`⏭️ Row ${i}: No date value`);
-        continue;
-      }
+      const { data: uploadRecord, error: uploadError } = await supabase
+        .from('bank_statement_uploads')
+        .insert({
+          bank_account_id: selectedBank,
+          statement_period: metadata.period || `${new Date().toLocaleString('default', { month: 'long' })} ${new Date().getFullYear()}`,
+          statement_start_date: metadata.startDate || dateRange.start,
+          statement_end_date: metadata.endDate || dateRange.end,
+          currency: selectedAccount.currency || 'IDR',
+          opening_balance: metadata.openingBalance || 0,
+          closing_balance: metadata.closingBalance || 0,
+          total_debits: metadata.totalDebits || 0,
+          total_credits: metadata.totalCredits || 0,
+          transaction_count: lines.length,
+          file_url: fileUrl,
+          uploaded_by: user?.id,
+          parser_id: parser.id,
+          parse_warnings: warnings,
+          continuity_issues: continuityIssues,
+          status: 'completed',
+        })
+        .select()
+        .single();
 
-      let parsedDate = '';
+      if (uploadError) throw uploadError;
+
+      const insertData = lines.map(line => ({
+        upload_id: uploadRecord.id,
+        bank_account_id: selectedBank,
+        transaction_date: line.date,
+        description: line.description,
+        reference: line.reference,
+        bank_reference: line.bankReference || null,
+        value_date: line.valueDate || null,
+        debit_amount: line.debit,
+        credit_amount: line.credit,
+        running_balance: line.balance,
+        statement_balance: line.balance,
+        currency: selectedAccount.currency || 'IDR',
+        reconciliation_status: 'unmatched',
+        created_by: user?.id,
+      }));
+
+      // Check for potential duplicates first
+      const { data: existingLines } = await supabase
+        .from('bank_statement_lines')
+        .select('transaction_date, description, debit_amount, credit_amount, running_balance')
+        .eq('bank_account_id', selectedBank);
+
+      const isDuplicate = (newLine: typeof insertData[number]) =>
+        existingLines?.some(existing =>
+          existing.transaction_date === newLine.transaction_date &&
+          existing.description === newLine.description &&
+          existing.debit_amount === newLine.debit_amount &&
+          existing.credit_amount === newLine.credit_amount &&
+          existing.running_balance === newLine.running_balance
+        );
 
-      if (typeof dateVal === 'number') {
-        const excelEpoch = new Date(1900, 0, 1);
-        const daysOffset = dateVal - 2;
-        const jsDate = new Date(excelEpoch.getTime() + daysOffset * 24 * 60 * 60 * 1000);
-        parsedDate = `${jsDate.getFullYear()}-${String(jsDate.getMonth() + 1).padStart(2, '0')}-${String(jsDate.getDate()).padStart(2, '0')}`;
+      const duplicates = insertData.filter(isDuplicate);
+      let finalInsertData = insertData;
 
-        if (i < headerRowIdx + 5) console.log(`✅ Row ${i}: Excel serial ${dateVal} → ${parsedDate}`);
-        processedCount++;
-      } else {
-        const dateStr = String(dateVal).trim();
-        const numericMatch = dateStr.match(/^(\d{1,2})\/(\d{1,2})$/);
-        const monthNames: Record<string, number> = {
-          'jan': 1, 'feb': 2, 'mar': 3, 'apr': 4, 'may': 5, 'mei': 5,
-          'jun': 6, 'jul': 7, 'aug': 8, 'agu': 8, 'ags': 8, 'sep': 9,
-          'oct': 10, 'okt': 10, 'nov': 11, 'dec': 12, 'des': 12
-        };
-        const namedMatch = dateStr.match(/^(\d{1,2})[-\s](jan|feb|mar|apr|may|mei|jun|jul|aug|agu|ags|sep|oct|okt|nov|dec|des)/i);
-        const fullDateMatch = dateStr.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{2,4})$/);
-
-        let day = 0, mon = 0;
-
-        if (fullDateMatch) {
-          day = parseInt(fullDateMatch[1]);
-          mon = parseInt(fullDateMatch[2]);
-        } else if (numericMatch) {
-          day = parseInt(numericMatch[1]);
-          mon = parseInt(numericMatch[2]);
-        } else if (namedMatch) {
-          day = parseInt(namedMatch[1]);
-          mon = monthNames[namedMatch[2].toLowerCase()] || 0;
+      if (duplicates.length > 0) {
+        let dupMessage = `⚠️ Found ${duplicates.length} potential duplicate transaction(s):\n\n`;
+        duplicates.slice(0, 5).forEach((dup, idx) => {
+          const date = new Date(dup.transaction_date).toLocaleDateString('en-GB');
+          const amt = dup.debit_amount || dup.credit_amount;
+          dupMessage += `${idx + 1}. ${date} - ${dup.description.substring(0, 40)} - ${selectedAccount.currency} ${amt.toLocaleString()}\n`;
+        });
+        if (duplicates.length > 5) {
+          dupMessage += `... and ${duplicates.length - 5} more\n`;
         }
+        dupMessage += `\nDo you want to ADD them anyway?\n(Click OK to add, Cancel to skip duplicates)`;
 
-        if (day < 1 || day > 31 || mon < 1 || mon > 12) {
-          skippedCount++;
-          if (i < headerRowIdx + 5) console.log(`⏭️ Row ${i}: Date doesn't match pattern: "${dateStr}"`);
-          continue;
+        if (!confirm(dupMessage)) {
+          finalInsertData = insertData.filter(newLine => !isDuplicate(newLine));
         }
-
-        parsedDate = `${year}-${String(mon).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-        processedCount++;
       }
 
-      let debit = 0, credit = 0;
-
-      if (debitCol >= 0 && creditCol >= 0) {
-        const debitStr = String(row[debitCol] || '').trim();
-        const creditStr = String(row[creditCol] || '').trim();
-        debit = parseIndonesianNumber(debitStr);
-        credit = parseIndonesianNumber(creditStr);
-      } else if (amountCol >= 0) {
-        const amountStr = String(row[amountCol] || '').trim();
-        const dbCrIndicator = row[amountCol + 1] ? String(row[amountCol + 1]).trim().toUpperCase() : '';
-        const isCR = dbCrIndicator === 'CR' || amountStr.includes(' CR');
-        const isDB = dbCrIndicator === 'DB' || amountStr.includes(' DB');
-        const amount = parseIndonesianNumber(amountStr);
-
-        if (i < headerRowIdx + 3) {
-          console.log(`💰 Row ${i} amount parsing:`, {
-            amountStr,
-            dbCrIndicator,
-            isCR,
-            isDB,
-            amount
-          });
-        }
-
-        if (isCR) {
-          credit = amount;
-        } else if (isDB || amount > 0) {
-          debit = amount;
-        }
+      if (finalInsertData.length === 0) {
+        setStatementPreview(null);
+        alert('ℹ️ No new transactions to import (all were duplicates and skipped)');
+        return;
       }
 
-      let balance = 0;
-      if (balanceCol >= 0) {
-        const balanceStr = String(row[balanceCol] || '').trim();
-        balance = parseIndonesianNumber(balanceStr);
-      }
+      const { data: inserted, error: insertError } = await supabase
+        .from('bank_statement_lines')
+        .insert(finalInsertData)
+        .select();
 
-      let description = '';
-      if (descCol >= 0) {
-        const type = String(row[descCol] || '').trim();
-        const details = String(row[descCol + 1] || '').trim();
-        description = type + (details ? '; ' + details : '');
-      }
-      const branch = branchCol >= 0 ? String(row[branchCol] || '').trim() : '';
-
-      if (i < headerRowIdx + 3) {
-        console.log(`🔍 Row ${i} parsed:`, {
-          date: parsedDate,
-          debit,
-          credit,
-          balance,
-          description: description.substring(0, 50)
-        });
+      if (insertError) {
+        console.error('Insert error:', insertError);
+        throw insertError;
       }
 
-      lines.push({
-        id: `temp-${i}`,
-        date: parsedDate,
-        description: description,
-        reference: branch,
-        debit: debit,
-        credit: credit,
-        balance: balance,
-        currency: selectedAccount?.currency || 'IDR',
-        status: 'unmatched',
-      });
-    }
+      const insertedCount = inserted?.length || 0;
+      const skippedCount = insertData.length - finalInsertData.length;
 
-    console.log(`✅ Parsing complete: ${lines.length} transactions, ${skippedCount} rows skipped`);
-
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      if (!row || row.length === 0) continue;
-
-      const firstCell = String(row[0] || '');
-
-      if (firstCell.includes('Saldo Awal') || firstCell.includes('SALDO AWAL')) {
-        for (let j = 0; j < row.length; j++) {
-          const cell = String(row[j] || '');
-          if (cell && /[\d,\.]+/.test(cell)) {
-            metadata.openingBalance = parseIndonesianNumber(cell);
-            break;
-          }
-        }
+      let message = `✅ Import complete (${parser.label})\n`;
+      message += `   Total processed: ${insertData.length} transaction(s)\n`;
+      message += `   New transactions added: ${insertedCount}\n`;
+      if (skippedCount > 0) {
+        message += `   Duplicates skipped: ${skippedCount}\n`;
       }
-
-      if (firstCell.includes('Mutasi Debet') || firstCell.includes('MUTASI DB') || firstCell.includes('Mutasi DB')) {
-        for (let j = 0; j < row.length; j++) {
-          const cell = String(row[j] || '');
-          if (cell && /[\d,\.]+/.test(cell)) {
-            metadata.totalDebits = parseIndonesianNumber(cell);
-            break;
-          }
-        }
+      if (warnings.length > 0) {
+        message += `   Parse warnings: ${warnings.length} (saved with the upload)`;
       }
+      alert(message);
+      setStatementPreview(null);
 
-      if (firstCell.includes('Mutasi Kredit') || firstCell.includes('MUTASI CR') || firstCell.includes('Mutasi CR')) {
-        for (let j = 0; j < row.length; j++) {
-          const cell = String(row[j] || '');
-          if (cell && /[\d,\.]+/.test(cell)) {
-            metadata.totalCredits = parseIndonesianNumber(cell);
-            break;
-          }
-        }
+      try {
+        await loadStatementLines();
+      } catch (loadError) {
+        console.error('Load statement lines error:', loadError);
       }
 
-      if (firstCell.includes('Saldo Akhir') || firstCell.includes('SALDO AKHIR')) {
-        for (let j = 0; j < row.length; j++) {
-          const cell = String(row[j] || '');
-          if (cell && /[\d,\.]+/.test(cell)) {
-            metadata.closingBalance = parseIndonesianNumber(cell);
-            break;
-          }
+      if (insertedCount > 0) {
+        try {
+          await autoMatchTransactions();
+        } catch (matchError) {
+          console.error('Auto-match error:', matchError);
         }
       }
+    } catch (error: any) {
+      console.error('Statement import error:', error);
+      alert(`❌ Failed to import statement: ${error.message}`);
+    } finally {
+      setUploading(false);
     }
-
-    return { lines, metadata };
   };
 
   const autoMatchTransactions = async () => {
@@ -1347,6 +746,16 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
       const suggestedCount = result?.suggested_count || 0;
       const skippedCount = result?.skipped_count || 0;
 
+      // Categorisation rules pick up what auto-match left unmatched
+      let ruleResult: { created_count: number; proposed_count: number; failed_count: number } | null = null;
+      if (canManage) {
+        const { data: ruleData, error: ruleError } = await supabase.rpc('apply_bank_categorisation_rules', {
+          p_bank_account_id: selectedBank,
+        });
+        if (ruleError) console.error('Error applying categorisation rules:', ruleError);
+        else ruleResult = ruleData?.[0] || null;
+      }
+
       await loadStatementLines();
 
       let message = `✅ Auto-match complete!\n\n`;
@@ -1355,6 +764,13 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
       if (skippedCount > 0) {
         message += `⏭ Skipped (already matched): ${skippedCount}\n`;
       }
+      if (ruleResult) {
+        message += `\n📋 Rules: ${ruleResult.created_count} recorded, ${ruleResult.proposed_count} proposed`;
+        if (ruleResult.failed_count > 0) {
+          message += `, ${ruleResult.failed_count} failed (see line notes)`;
+        }
+        message += `\n`;
+      }
       message += `\n🔒 Date tolerance: ±7 days maximum`;
 
       alert(message);
@@ -1445,6 +861,41 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
     }
   };
 
+  const acceptRuleSuggestion = async (line: StatementLine) => {
+    if (!line.suggestedRule) return;
+    try {
+      const { error } = await supabase.rpc('categorise_bank_line', {
+        p_line_id: line.id,
+        p_rule_id: line.suggestedRule.id,
+      });
+
+      if (error) throw error;
+      await loadStatementLines();
+    } catch (error: any) {
+      console.error('Error applying rule:', error);
+      alert('❌ ' + error.message);
+    }
+  };
+
+  const dismissRuleSuggestion = async (line: StatementLine) => {
+    if (!line.suggestedRule) return;
+    try {
+      // Remember the dismissal so the next rules run does not propose the same rule again
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({ suggested_rule_id: null, dismissed_rule_id: line.suggestedRule.id })
+        .eq('id', line.id);
+
+      if (error) throw error;
+      setStatementLines(prev => prev.map(l =>
+        l.id === line.id ? { ...l, suggestedRule: null } : l
+      ));
+    } catch (error: any) {
+      console.error('Error dismissing rule suggestion:', error);
+      alert('❌ ' + error.message);
+    }
+  };
+
   const openRecordModal = (line: StatementLine) => {
     setRecordingLine(line);
     setRecordModal(true);
@@ -1567,13 +1018,9 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
       if (type === 'customer_payment') {
         if (!customerId) throw new Error('Please select a customer');
 
-        const { data: voucherNum, error: voucherError } = await supabase.rpc('generate_voucher_number', { p_prefix: 'RV' });
-        if (voucherError) throw voucherError;
-
         const { data: receipt, error: receiptError } = await supabase
           .from('receipt_vouchers')
           .insert({
-            voucher_number: voucherNum,
             voucher_date: line.date,
             customer_id: customerId,
             payment_method: 'bank_transfer',
@@ -1611,7 +1058,7 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
         if (updateError) throw updateError;
 
         const allocCount = Object.values(receiptAllocations).filter(a => a > 0).length;
-        alert(`Receipt Voucher ${voucherNum} created${allocCount > 0 ? ` and allocated to ${allocCount} invoice(s)` : ''}`);
+        alert(`Receipt Voucher ${receipt.voucher_number} created${allocCount > 0 ? ` and allocated to ${allocCount} invoice(s)` : ''}`);
       } else {
         const { error: updateError } = await supabase
           .from('bank_statement_lines')
@@ -1977,6 +1424,14 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
             </button>
             {canManage && (
               <>
+                <button
+                  onClick={() => setShowRulesModal(true)}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs bg-white/20 rounded hover:bg-white/30 font-medium"
+                  title="Categorisation rules"
+                >
+                  <ListFilter className="w-3.5 h-3.5" />
+                  Rules
+                </button>
                 <button
                   onClick={previewClearData}
                   disabled={!selectedBank}
@@ -1988,7 +1443,7 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf,.xlsx,.xls,.csv,.png,.jpg,.jpeg"
+                  accept=".pdf,.xlsx,.xls,.csv,.txt,.sta,.940,.xml"
                   onChange={handleFileUpload}
                   className="hidden"
                 />
@@ -2222,6 +1677,11 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
                           <XCircle className="w-3 h-3" /> Unrecorded
                         </span>
                       )}
+                      {line.status === 'unmatched' && line.suggestedRule && (
+                        <span className="text-xs text-indigo-700" title={line.notes || undefined}>
+                          → Rule: {line.suggestedRule.name} ({line.suggestedRule.action})
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="px-3 py-2 text-center">
@@ -2244,6 +1704,24 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
                           </button>
                         </>
                       )}
+                      {line.status === 'unmatched' && canManage && line.suggestedRule && (
+                        <>
+                          <button
+                            onClick={() => acceptRuleSuggestion(line)}
+                            className="p-1 text-indigo-600 hover:bg-indigo-50 rounded"
+                            title={`Record with rule "${line.suggestedRule.name}"`}
+                          >
+                            <Wand2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => dismissRuleSuggestion(line)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            title="Dismiss rule suggestion"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
                       {line.status === 'unmatched' && canManage && (
                         <button
                           onClick={() => openRecordModal(line)}
@@ -2287,6 +1765,22 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
         </div>
       )}
 
+      {/* Categorisation Rules */}
+      {canManage && (
+        <BankCategorisationRules
+          isOpen={showRulesModal}
+          onClose={() => setShowRulesModal(false)}
+          bankAccounts={bankAccounts.map(b => ({
+            id: b.id,
+            label: b.alias ? `${b.alias} (${b.account_number})` : `${b.bank_name} - ${b.account_number}`,
+          }))}
+          customers={customers}
+          expenseCategories={expenseCategories.filter(c => !c.requiresContainer)}
+          defaultBankAccountId={selectedBank}
+          onApply={autoMatchTransactions}
+        />
+      )}
+
       {/* Recording Modal */}
       <Modal
         isOpen={recordModal}
@@ -2736,95 +2230,115 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
         )}
       </Modal>
 
-      {ocrError && (
+      {statementPreview && (
         <Modal
           isOpen={true}
-          onClose={() => {
-            setOcrError(null);
-            setLastUploadedFile(null);
-          }}
-          title="PDF Extraction Failed"
+          onClose={() => setStatementPreview(null)}
+          title="Statement Preview - Confirm Before Importing"
         >
           <div className="space-y-4">
-            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-              <p className="text-yellow-800 text-sm font-medium mb-2">{ocrError.message}</p>
-              <div className="space-y-2">
-                <p className="text-sm text-yellow-700 font-medium">Recommended options:</p>
-                <ul className="list-disc list-inside space-y-1 text-sm text-yellow-700">
-                  {ocrError.suggestions.map((suggestion, idx) => (
-                    <li key={idx}>{suggestion}</li>
-                  ))}
-                </ul>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Statement format</label>
+                <select
+                  value={statementPreview.parserId || ''}
+                  onChange={(e) => handlePreviewOptionsChange(e.target.value || null, statementPreview.year)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                >
+                  <option value="">Auto-detect</option>
+                  {statementParsers
+                    .filter(p => p.formats.includes(statementPreview.source.format))
+                    .map(p => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                </select>
+                <p className="text-[10px] text-gray-500 mt-0.5">Read as: {statementPreview.result.parser.label}</p>
               </div>
-            </div>
-
-            {ocrError.canUseOCR && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <p className="text-blue-800 text-sm font-medium mb-2">Advanced Option: OCR Processing</p>
-                <p className="text-blue-700 text-xs mb-3">
-                  Optical Character Recognition (OCR) can extract text from image-based or encrypted PDFs.
-                  This process takes 30-60 seconds and requires Google Vision API configuration.
-                  You'll be able to preview the results before saving.
-                </p>
-                <div className="flex gap-2">
-                  <button
-                    onClick={handleRunOCR}
-                    disabled={uploading}
-                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
-                  >
-                    {uploading ? 'Processing with OCR...' : 'Run OCR Anyway'}
-                  </button>
-                  <button
-                    onClick={() => {
-                      setOcrError(null);
-                      setLastUploadedFile(null);
+              {statementPreview.result.usedContextYear && (
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Statement year (dates have no year)</label>
+                  <input
+                    type="number"
+                    min={2000}
+                    max={2100}
+                    value={statementPreview.year}
+                    onChange={(e) => {
+                      const year = parseInt(e.target.value);
+                      if (year >= 2000 && year <= 2100) handlePreviewOptionsChange(statementPreview.parserId, year);
                     }}
-                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm font-medium"
-                  >
-                    Cancel
-                  </button>
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
                 </div>
-              </div>
-            )}
-          </div>
-        </Modal>
-      )}
+              )}
+            </div>
 
-      {ocrPreview && (
-        <Modal
-          isOpen={true}
-          onClose={() => setOcrPreview(null)}
-          title="OCR Preview - Confirm Before Saving"
-        >
-          <div className="space-y-4">
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
               <p className="text-green-800 text-sm font-medium mb-2">
-                ✅ OCR extracted {ocrPreview.transactionCount} transactions
+                {statementPreview.result.lines.length} transaction(s) read from {statementPreview.file.name}
               </p>
               <div className="grid grid-cols-2 gap-3 text-sm">
                 <div>
                   <span className="text-gray-600">Period:</span>
-                  <span className="ml-2 font-medium text-gray-900">{ocrPreview.period}</span>
+                  <span className="ml-2 font-medium text-gray-900">{statementPreview.result.metadata.period || '-'}</span>
+                </div>
+                <div>
+                  <span className="text-gray-600">Account:</span>
+                  <span className="ml-2 font-medium text-gray-900">{statementPreview.result.metadata.accountNumber || '-'}</span>
                 </div>
                 <div>
                   <span className="text-gray-600">Opening Balance:</span>
                   <span className="ml-2 font-medium text-gray-900">
-                    {selectedAccount?.currency} {ocrPreview.openingBalance.toLocaleString()}
+                    {selectedAccount?.currency} {(statementPreview.result.metadata.openingBalance ?? 0).toLocaleString()}
                   </span>
                 </div>
                 <div>
                   <span className="text-gray-600">Closing Balance:</span>
                   <span className="ml-2 font-medium text-gray-900">
-                    {selectedAccount?.currency} {ocrPreview.closingBalance.toLocaleString()}
+                    {selectedAccount?.currency} {(statementPreview.result.metadata.closingBalance ?? 0).toLocaleString()}
                   </span>
                 </div>
-                <div>
-                  <span className="text-gray-600">Transactions:</span>
-                  <span className="ml-2 font-medium text-gray-900">{ocrPreview.transactionCount}</span>
-                </div>
               </div>
             </div>
 
+            {statementPreview.continuityIssues.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-red-800 text-xs font-medium mb-1">Balance continuity</p>
+                <ul className="space-y-0.5 text-xs">
+                  {statementPreview.continuityIssues.map((issue, idx) => (
+                    <li key={idx} className={issue.severity === 'error' ? 'text-red-800' : 'text-yellow-800'}>
+                      {issue.severity === 'error' ? '❌' : '⚠️'} {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                {statementPreview.continuityIssues.some(issue => issue.severity === 'error') && (
+                  <label className="flex items-center gap-2 mt-2 text-xs text-red-900">
+                    <input
+                      type="checkbox"
+                      checked={statementPreview.acknowledged}
+                      onChange={(e) => setStatementPreview({ ...statementPreview, acknowledged: e.target.checked })}
+                    />
+                    I have reviewed these differences - import anyway
+                  </label>
+                )}
+              </div>
+            )}
+
+            {statementPreview.result.warnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                <p className="text-yellow-800 text-xs font-medium mb-1">
+                  ⚠️ {statementPreview.result.warnings.length} row(s) skipped or flagged - the rest will still be imported
+                </p>
+                <ul className="max-h-32 overflow-y-auto space-y-0.5 text-xs text-yellow-800">
+                  {statementPreview.result.warnings.map((warning, idx) => (
+                    <li key={idx}>
+                      {warning.line > 0 ? `Line ${warning.line}: ` : ''}{warning.message}
+                      {warning.raw && <span className="block text-[10px] text-yellow-700 font-mono truncate">{warning.raw}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div>
               <h4 className="text-sm font-medium text-gray-900 mb-2">Sample Transactions (First 10):</h4>
               <div className="border rounded-lg overflow-hidden">
@@ -2833,17 +2347,17 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
                     <tr>
                       <th className="px-2 py-1 text-left">Date</th>
                       <th className="px-2 py-1 text-left">Description</th>
-                      <th className="px-2 py-1 text-right">Amount</th>
+                      <th className="px-2 py-1 text-right">Debit</th>
+                      <th className="px-2 py-1 text-right">Credit</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {ocrPreview.transactions.map((txn: any, idx: number) => (
-                      <tr key={idx} className="border-t">
-                        <td className="px-2 py-1">{txn.date}</td>
-                        <td className="px-2 py-1 truncate max-w-xs">{txn.description}</td>
-                        <td className="px-2 py-1 text-right">
-                          {selectedAccount?.currency} {(txn.debitAmount || txn.creditAmount).toLocaleString()}
-                        </td>
+                    {statementPreview.result.lines.slice(0, 10).map((line) => (
+                      <tr key={line.sourceLine} className="border-t">
+                        <td className="px-2 py-1 whitespace-nowrap">{line.date}</td>
+                        <td className="px-2 py-1 truncate max-w-xs">{line.description}</td>
+                        <td className="px-2 py-1 text-right">{line.debit ? line.debit.toLocaleString() : ''}</td>
+                        <td className="px-2 py-1 text-right">{line.credit ? line.credit.toLocaleString() : ''}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -2851,23 +2365,20 @@ export function BankReconciliationEnhanced({ canManage }: BankReconciliationEnha
               </div>
             </div>
 
-            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-              <p className="text-yellow-800 text-xs">
-                ⚠️ Please verify the extracted data looks correct before confirming.
-                OCR may have minor errors in dates, amounts, or descriptions.
-              </p>
-            </div>
-
             <div className="flex gap-2">
               <button
-                onClick={handleConfirmOCRPreview}
-                disabled={uploading}
+                onClick={importStatement}
+                disabled={
+                  uploading ||
+                  statementPreview.result.lines.length === 0 ||
+                  (statementPreview.continuityIssues.some(issue => issue.severity === 'error') && !statementPreview.acknowledged)
+                }
                 className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
               >
-                {uploading ? 'Saving...' : 'Confirm & Save'}
+                {uploading ? 'Importing...' : 'Confirm & Import'}
               </button>
               <button
-                onClick={() => setOcrPreview(null)}
+                onClick={() => setStatementPreview(null)}
                 className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 font-medium"
               >
                 Cancel
@@ -4,6 +4,7 @@ import { Download, FileText, TrendingUp, Package, Building2 } from 'lucide-react
 import * as XLSX from 'xlsx';
 import { useAuth } from '../../contexts/AuthContext';
 import { useFinance } from '../../contexts/FinanceContext';
+import { depreciationMethodLabel, fiscalGroupLabel, type FixedAsset } from '../../utils/fixedAssets';
 
 type ReportType =
   | 'coa'
@@ -475,7 +476,9 @@ export function CAReports() {
       .from('journal_entries')
       .select('id')
       .gte('entry_date', dateRange.from)
-      .lte('entry_date', dateRange.to);
+      .lte('entry_date', dateRange.to)
+      // The year-end close would zero the year's revenue and expense accounts
+      .or('source_module.is.null,source_module.neq.year_end_close');
 
     if (!entries || entries.length === 0) return [];
 
@@ -514,23 +517,57 @@ export function CAReports() {
       .sort((a, b) => a.code.localeCompare(b.code));
   };
 
+  // Register as of the end date: depreciation posted in the range, accumulated to date; assets disposed
+  // on or before the end date drop out
   const loadFixedAssets = async () => {
-    const { data, error } = await supabase
-      .from('chart_of_accounts')
-      .select('code, name')
-      .gte('code', '1500')
-      .lt('code', '2000')
-      .order('code');
+    const [assetsRes, linesRes] = await Promise.all([
+      supabase
+        .from('fixed_assets')
+        .select('id, asset_code, asset_name, fiscal_group, depreciation_method, acquisition_date, cost, opening_accumulated_depreciation, status, disposal_date, fixed_asset_categories(name)')
+        .lte('acquisition_date', dateRange.to)
+        .order('asset_code'),
+      supabase
+        .from('fixed_asset_depreciation_lines')
+        .select('asset_id, period_end_date, amount')
+        .lte('period_end_date', dateRange.to),
+    ]);
+
+    if (assetsRes.error) throw assetsRes.error;
+    if (linesRes.error) throw linesRes.error;
+
+    const depreciation = new Map<string, { before: number; period: number }>();
+    (linesRes.data || []).forEach(line => {
+      const entry = depreciation.get(line.asset_id) || { before: 0, period: 0 };
+      if (line.period_end_date < dateRange.from) entry.before += Number(line.amount);
+      else entry.period += Number(line.amount);
+      depreciation.set(line.asset_id, entry);
+    });
 
-    if (error) throw error;
-    return data?.map(asset => ({
-      asset_code: asset.code,
-      asset_name: asset.name,
-      acquisition_date: '',
-      cost: '',
-      accumulated_depreciation: '',
-      net_book_value: ''
-    })) || [];
+    type RegisterRow = Pick<FixedAsset,
+      'id' | 'asset_code' | 'asset_name' | 'fiscal_group' | 'depreciation_method' | 'acquisition_date' |
+      'cost' | 'opening_accumulated_depreciation' | 'status' | 'disposal_date'
+    > & { fixed_asset_categories: { name: string } | null };
+
+    return ((assetsRes.data || []) as unknown as RegisterRow[])
+      .filter(asset => !asset.disposal_date || asset.disposal_date > dateRange.to)
+      .map(asset => {
+        const entry = depreciation.get(asset.id) || { before: 0, period: 0 };
+        const opening = Number(asset.opening_accumulated_depreciation) + entry.before;
+        const accumulated = opening + entry.period;
+        return {
+          asset_code: asset.asset_code,
+          asset_name: asset.asset_name,
+          category: asset.fixed_asset_categories?.name || '',
+          fiscal_group: fiscalGroupLabel(asset.fiscal_group),
+          method: depreciationMethodLabel(asset.depreciation_method),
+          acquisition_date: asset.acquisition_date,
+          cost: Number(asset.cost),
+          opening_depreciation: opening,
+          period_depreciation: entry.period,
+          accumulated_depreciation: accumulated,
+          net_book_value: Number(asset.cost) - accumulated,
+        };
+      });
   };
 
   const exportToExcel = async () => {
@@ -685,12 +722,17 @@ export function CAReports() {
         worksheetData = reportData.map((row: any) => ({
           'Asset Code': row.asset_code,
           'Asset Name': row.asset_name,
+          'Category': row.category,
+          'Fiscal Group': row.fiscal_group,
+          'Method': row.method,
           'Acquisition Date': row.acquisition_date,
           'Cost': row.cost,
+          'Opening Accumulated Depreciation': row.opening_depreciation,
+          'Depreciation for Period': row.period_depreciation,
           'Accumulated Depreciation': row.accumulated_depreciation,
           'Net Book Value': row.net_book_value
         }));
-        filename = 'Fixed_Asset_Register.xlsx';
+        filename = `Fixed_Asset_Register_${dateRange.to}.xlsx`;
         break;
     }
 
@@ -912,8 +954,10 @@ export function CAReports() {
                     <>
                       <th className="px-4 py-3 text-left font-medium text-slate-700">Asset Code</th>
                       <th className="px-4 py-3 text-left font-medium text-slate-700">Asset Name</th>
+                      <th className="px-4 py-3 text-left font-medium text-slate-700">Fiscal Group</th>
                       <th className="px-4 py-3 text-left font-medium text-slate-700">Acquisition Date</th>
                       <th className="px-4 py-3 text-right font-medium text-slate-700">Cost</th>
+                      <th className="px-4 py-3 text-right font-medium text-slate-700">Depreciation</th>
                       <th className="px-4 py-3 text-right font-medium text-slate-700">Acc. Depreciation</th>
                       <th className="px-4 py-3 text-right font-medium text-slate-700">Net Book Value</th>
                     </>
@@ -1031,10 +1075,12 @@ export function CAReports() {
                   <tr key={idx} className="hover:bg-slate-50">
                     <td className="px-4 py-3 text-slate-900 font-mono">{row.asset_code}</td>
                     <td className="px-4 py-3 text-slate-900">{row.asset_name}</td>
+                    <td className="px-4 py-3 text-slate-900">{row.fiscal_group}</td>
                     <td className="px-4 py-3 text-slate-900">{row.acquisition_date}</td>
-                    <td className="px-4 py-3 text-right text-slate-900">{row.cost}</td>
-                    <td className="px-4 py-3 text-right text-slate-900">{row.accumulated_depreciation}</td>
-                    <td className="px-4 py-3 text-right text-slate-900">{row.net_book_value}</td>
+                    <td className="px-4 py-3 text-right text-slate-900">{row.cost.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-right text-slate-900">{row.period_depreciation.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-right text-slate-900">{row.accumulated_depreciation.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-right text-slate-900">{row.net_book_value.toFixed(2)}</td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { FileCode, FileSpreadsheet, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { formatDate } from '../../utils/dateFormat';
+import { showToast } from '../ToastNotification';
+import {
+  EFakturInputInvoice,
+  EFakturOutputInvoice,
+  EFakturOutputLine,
+  EFakturRejection,
+  EFakturSeller,
+  buildCoretaxXml,
+  buildInputCsv,
+  buildOutputCsv,
+  downloadFile,
+  groupOutputLines,
+  validateInputInvoice,
+  validateOutputInvoice,
+  validateSeller,
+} from '../../utils/efaktur';
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+export function EFakturExport() {
+  const { t } = useLanguage();
+  const [month, setMonth] = useState<string>(currentMonth());
+  const [seller, setSeller] = useState<EFakturSeller>({ npwp: null, nitku: null });
+  const [outputInvoices, setOutputInvoices] = useState<EFakturOutputInvoice[]>([]);
+  const [inputInvoices, setInputInvoices] = useState<EFakturInputInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [month]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const monthStart = `${month}-01`;
+
+      const [settingsRes, outputRes, inputRes] = await Promise.all([
+        supabase.from('app_settings').select('company_npwp, company_nitku').limit(1).maybeSingle(),
+        supabase.from('vw_efaktur_output_lines').select('*').eq('month', monthStart),
+        supabase.from('vw_efaktur_input_invoices').select('*').eq('month', monthStart).order('invoice_date'),
+      ]);
+
+      if (settingsRes.error) throw settingsRes.error;
+      if (outputRes.error) throw outputRes.error;
+      if (inputRes.error) throw inputRes.error;
+
+      setSeller({
+        npwp: settingsRes.data?.company_npwp || null,
+        nitku: settingsRes.data?.company_nitku || null,
+      });
+      setOutputInvoices(groupOutputLines((outputRes.data || []) as EFakturOutputLine[]));
+      setInputInvoices((inputRes.data || []) as EFakturInputInvoice[]);
+    } catch (error) {
+      console.error('Error loading e-Faktur data:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to load e-Faktur data',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sellerIssues = validateSeller(seller);
+
+  const rejections: EFakturRejection[] = [];
+  const exportableOutput = outputInvoices.filter((invoice) => {
+    const reasons = validateOutputInvoice(invoice);
+    if (reasons.length === 0) return true;
+    rejections.push({
+      kind: 'output',
+      invoice_id: invoice.invoice_id,
+      invoice_number: invoice.invoice_number,
+      invoice_date: invoice.invoice_date,
+      party: invoice.customer_name,
+      reasons,
+    });
+    return false;
+  });
+  const exportableInput = inputInvoices.filter((invoice) => {
+    const reasons = validateInputInvoice(invoice);
+    if (reasons.length === 0) return true;
+    rejections.push({
+      kind: 'input',
+      invoice_id: invoice.invoice_id,
+      invoice_number: invoice.invoice_number,
+      invoice_date: invoice.invoice_date,
+      party: invoice.supplier_name,
+      reasons,
+    });
+    return false;
+  });
+
+  const sumPPN = (values: number[]) => values.reduce((sum, value) => sum + (Number(value) || 0), 0);
+  const formatCurrency = (amount: number) =>
+    `Rp ${amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const fileStamp = month.replace('-', '');
+
+  const handleOutputXml = () => {
+    if (sellerIssues.length > 0 || exportableOutput.length === 0) return;
+    downloadFile(buildCoretaxXml(seller, exportableOutput), `efaktur_keluaran_${fileStamp}.xml`, 'application/xml');
+    showToast({
+      type: 'success',
+      title: 'Exported',
+      message: `${exportableOutput.length} sales invoice(s) exported to Coretax XML`,
+    });
+  };
+
+  const handleOutputCsv = () => {
+    if (sellerIssues.length > 0 || exportableOutput.length === 0) return;
+    downloadFile(buildOutputCsv(seller, exportableOutput), `efaktur_keluaran_${fileStamp}.csv`, 'text/csv');
+  };
+
+  const handleInputCsv = () => {
+    if (exportableInput.length === 0) return;
+    downloadFile(buildInputCsv(exportableInput), `efaktur_masukan_${fileStamp}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between bg-white p-2 rounded-lg shadow-sm">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{t('finance.efakturExport') || 'e-Faktur Export (Coretax)'}</h3>
+          <p className="text-[10px] text-gray-600">
+            {t('finance.efakturExportDesc') || 'Only invoices that pass validation are included in the export files'}
+          </p>
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value || currentMonth())}
+          className="px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      {sellerIssues.length > 0 && (
+        <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg p-2">
+          <AlertTriangle className="w-4 h-4 text-red-600 flex-shrink-0" />
+          <div className="text-xs text-red-800">
+            <p className="font-medium">Output PPN cannot be exported:</p>
+            <ul className="list-disc ml-4">
+              {sellerIssues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500 text-xs">{t('common.loading') || 'Loading...'}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="bg-white rounded-lg shadow p-3">
+              <h4 className="text-xs font-semibold text-green-900">{t('finance.outputPPN') || 'Output PPN'} (Faktur Keluaran)</h4>
+              <p className="text-[10px] text-gray-600 mt-0.5">
+                {exportableOutput.length} of {outputInvoices.length} sales invoice(s) ready &middot; PPN{' '}
+                {formatCurrency(sumPPN(exportableOutput.map((invoice) => invoice.invoice_ppn)))}
+              </p>
+              <div className="flex gap-1.5 mt-2">
+                <button
+                  onClick={handleOutputXml}
+                  disabled={sellerIssues.length > 0 || exportableOutput.length === 0}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FileCode className="w-3.5 h-3.5" />
+                  Coretax XML
+                </button>
+                <button
+                  onClick={handleOutputCsv}
+                  disabled={sellerIssues.length > 0 || exportableOutput.length === 0}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FileSpreadsheet className="w-3.5 h-3.5" />
+                  CSV
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-3">
+              <h4 className="text-xs font-semibold text-blue-900">{t('finance.inputPPN') || 'Input PPN'} (Faktur Masukan)</h4>
+              <p className="text-[10px] text-gray-600 mt-0.5">
+                {exportableInput.length} of {inputInvoices.length} purchase invoice(s) ready &middot; PPN{' '}
+                {formatCurrency(sumPPN(exportableInput.map((invoice) => invoice.ppn_idr)))}
+              </p>
+              <div className="flex gap-1.5 mt-2">
+                <button
+                  onClick={handleInputCsv}
+                  disabled={exportableInput.length === 0}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FileSpreadsheet className="w-3.5 h-3.5" />
+                  CSV
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-3 py-2 bg-amber-50 border-b border-amber-200">
+              <h3 className="text-sm font-medium text-amber-900">
+                {t('finance.efakturRejected') || 'Invoices that cannot be exported'} ({rejections.length})
+              </h3>
+              <p className="text-[10px] text-amber-700">
+                {t('finance.efakturRejectedDesc') || 'Fix the customer, supplier or invoice data and reload to include them'}
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Type</th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">
+                    {t('common.date') || 'Date'}
+                  </th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">
+                    {t('finance.invoiceNumber') || 'Invoice #'}
+                  </th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Party</th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Reasons</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rejections.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-xs text-green-700">
+                      <span className="inline-flex items-center gap-1">
+                        <CheckCircle className="w-3.5 h-3.5" />
+                        All invoices for this month pass validation
+                      </span>
+                    </td>
+                  </tr>
+                ) : (
+                  rejections.map((rejection) => (
+                    <tr key={`${rejection.kind}-${rejection.invoice_id}`} className="hover:bg-gray-50 align-top">
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${
+                            rejection.kind === 'output' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                          }`}
+                        >
+                          {rejection.kind === 'output' ? 'Output' : 'Input'}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-900">{formatDate(rejection.invoice_date)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs font-medium text-gray-900">{rejection.invoice_number}</td>
+                      <td className="px-3 py-2 text-xs text-gray-700">{rejection.party}</td>
+                      <td className="px-3 py-2 text-xs text-red-700">
+                        <ul className="list-disc ml-4">
+                          {rejection.reasons.map((reason) => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
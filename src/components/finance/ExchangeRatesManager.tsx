@@ -0,0 +1,502 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Plus, Upload, Trash2, Edit } from 'lucide-react';
+import { Modal } from '../Modal';
+import { showToast } from '../ToastNotification';
+import { showConfirm } from '../ConfirmDialog';
+import { formatDate } from '../../utils/dateFormat';
+import { formatNumber } from '../../utils/currency';
+import { readStatementFile } from '../../utils/bankStatementParsers';
+import {
+  EXCHANGE_RATE_SOURCES,
+  parseExchangeRateRows,
+  type ExchangeRate,
+  type ExchangeRateSource,
+  type ParsedExchangeRate,
+} from '../../utils/exchangeRates';
+
+interface ExchangeRatesManagerProps {
+  canManage: boolean;
+}
+
+interface RateForm {
+  currency: string;
+  rate_date: string;
+  valid_to: string;
+  source: ExchangeRateSource;
+  rate: string;
+  reference: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): RateForm => ({
+  currency: 'USD',
+  rate_date: today(),
+  valid_to: '',
+  source: 'manual',
+  rate: '',
+  reference: '',
+});
+
+const sourceLabel = (source: ExchangeRateSource) =>
+  EXCHANGE_RATE_SOURCES.find(s => s.value === source)?.label || source;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+export function ExchangeRatesManager({ canManage }: ExchangeRatesManagerProps) {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currencyFilter, setCurrencyFilter] = useState('USD');
+  const [sourceFilter, setSourceFilter] = useState<ExchangeRateSource | ''>('');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RateForm>(emptyForm());
+  const [saving, setSaving] = useState(false);
+
+  const [importOpen, setImportOpen] = useState(false);
+  const [importSource, setImportSource] = useState<ExchangeRateSource>('bi');
+  const [importCurrency, setImportCurrency] = useState('USD');
+  const [importFileName, setImportFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedExchangeRate[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadRates();
+  }, [currencyFilter, sourceFilter]);
+
+  const loadRates = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('exchange_rates')
+        .select('id, currency, rate_date, valid_to, source, rate, reference, created_at')
+        .order('rate_date', { ascending: false })
+        .limit(200);
+      if (currencyFilter) query = query.eq('currency', currencyFilter);
+      if (sourceFilter) query = query.eq('source', sourceFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRates((data || []) as ExchangeRate[]);
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to load exchange rates') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAdd = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm(), currency: currencyFilter || 'USD' });
+    setFormOpen(true);
+  };
+
+  const openEdit = (rate: ExchangeRate) => {
+    setEditingId(rate.id);
+    setForm({
+      currency: rate.currency,
+      rate_date: rate.rate_date,
+      valid_to: rate.valid_to || '',
+      source: rate.source,
+      rate: String(rate.rate),
+      reference: rate.reference || '',
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = Number(form.rate);
+    const currency = form.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency) || currency === 'IDR') {
+      showToast({ type: 'warning', title: 'Invalid currency', message: 'Enter a three-letter foreign currency code' });
+      return;
+    }
+    if (!(rate > 0)) {
+      showToast({ type: 'warning', title: 'Invalid rate', message: 'Rate must be greater than zero' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        currency,
+        rate_date: form.rate_date,
+        valid_to: form.valid_to || null,
+        source: form.source,
+        rate,
+        reference: form.reference.trim() || null,
+        updated_at: new Date().toISOString(),
+      };
+      const { error } = editingId
+        ? await supabase.from('exchange_rates').update(payload).eq('id', editingId)
+        : await supabase.from('exchange_rates').insert([payload]);
+      if (error) throw error;
+
+      showToast({ type: 'success', title: 'Saved', message: `${currency} rate for ${formatDate(form.rate_date)} saved` });
+      setFormOpen(false);
+      loadRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      const message = (error as { code?: string })?.code === '23505'
+        ? 'A rate from this source already exists for that date'
+        : errorMessage(error, 'Failed to save exchange rate');
+      showToast({ type: 'error', title: 'Error', message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    const confirmed = await showConfirm({
+      title: 'Delete Rate',
+      message: `Delete the ${rate.currency} ${sourceLabel(rate.source)} rate for ${formatDate(rate.rate_date)}? Documents keep the rate they were saved with.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    const { error } = await supabase.from('exchange_rates').delete().eq('id', rate.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to delete exchange rate') });
+      return;
+    }
+    loadRates();
+  };
+
+  const openImport = () => {
+    setImportFileName('');
+    setParsed([]);
+    setWarnings([]);
+    setImportCurrency(currencyFilter || 'USD');
+    setImportOpen(true);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const source = await readStatementFile(file);
+      if (!source.rows) throw new Error('Upload the rates as CSV or Excel');
+      const result = parseExchangeRateRows(source.rows, importCurrency);
+      setImportFileName(file.name);
+      setParsed(result.rates);
+      setWarnings(result.warnings);
+    } catch (error) {
+      console.error('Error reading rate file:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to read the file') });
+    }
+  };
+
+  const handleImport = async () => {
+    if (parsed.length === 0) return;
+    setSaving(true);
+    try {
+      // Later rows win when a file repeats a currency and date
+      const unique = new Map<string, ParsedExchangeRate>();
+      parsed.forEach(row => unique.set(`${row.currency}|${row.rate_date}`, row));
+      const rows = Array.from(unique.values()).map(row => ({
+        currency: row.currency,
+        rate_date: row.rate_date,
+        valid_to: row.valid_to,
+        source: importSource,
+        rate: row.rate,
+        reference: row.reference,
+        updated_at: new Date().toISOString(),
+      }));
+
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(rows, { onConflict: 'currency,rate_date,source' });
+      if (error) throw error;
+
+      showToast({ type: 'success', title: 'Imported', message: `${rows.length} rate(s) imported from ${importFileName}` });
+      setImportOpen(false);
+      loadRates();
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to import exchange rates') });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={currencyFilter}
+            onChange={(e) => setCurrencyFilter(e.target.value.toUpperCase().slice(0, 3))}
+            placeholder="All"
+            className="w-20 px-2 py-1.5 text-sm border rounded uppercase"
+            title="Currency"
+          />
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value as ExchangeRateSource | '')}
+            className="px-2 py-1.5 text-sm border rounded"
+          >
+            <option value="">All sources</option>
+            {EXCHANGE_RATE_SOURCES.map(s => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+        {canManage && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={openImport}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+            >
+              <Upload className="w-4 h-4" />
+              Import CSV / Excel
+            </button>
+            <button
+              onClick={openAdd}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add Rate
+            </button>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Purchase orders, invoices, import containers and batches take the latest rate on or before their date from this list.
+        Where several sources share a date, a manual rate is used first, then Bank Indonesia, then KMK.
+      </p>
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : rates.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">No exchange rates recorded</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate (IDR)</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valid To</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                {canManage && <th className="px-3 py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rates.map(rate => (
+                <tr key={rate.id} className="hover:bg-gray-50">
+                  <td className="px-3 py-2">{formatDate(rate.rate_date)}</td>
+                  <td className="px-3 py-2 font-medium">{rate.currency}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatNumber(rate.rate, 2)}</td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      rate.source === 'bi' ? 'bg-blue-100 text-blue-700'
+                        : rate.source === 'kmk' ? 'bg-purple-100 text-purple-700'
+                          : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {sourceLabel(rate.source)}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-600">{rate.valid_to ? formatDate(rate.valid_to) : '-'}</td>
+                  <td className="px-3 py-2 text-xs text-gray-600">{rate.reference || '-'}</td>
+                  {canManage && (
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button onClick={() => openEdit(rate)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(rate)} className="p-1 text-red-600 hover:bg-red-50 rounded" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal isOpen={formOpen} onClose={() => setFormOpen(false)} title={editingId ? 'Edit Exchange Rate' : 'Add Exchange Rate'} size="sm">
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Currency *</label>
+              <input
+                type="text"
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase().slice(0, 3) })}
+                className="w-full px-2 py-1.5 text-sm border rounded uppercase"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Source *</label>
+              <select
+                value={form.source}
+                onChange={(e) => setForm({ ...form, source: e.target.value as ExchangeRateSource })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                {EXCHANGE_RATE_SOURCES.map(s => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Date *</label>
+              <input
+                type="date"
+                value={form.rate_date}
+                onChange={(e) => setForm({ ...form, rate_date: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Valid To</label>
+              <input
+                type="date"
+                value={form.valid_to}
+                min={form.rate_date}
+                onChange={(e) => setForm({ ...form, valid_to: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Rate (IDR per 1 {form.currency || 'unit'}) *</label>
+              <input
+                type="number"
+                step="0.000001"
+                min="0"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Reference</label>
+              <input
+                type="text"
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                placeholder={form.source === 'kmk' ? 'e.g. KMK 12/KM.10/2026' : ''}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setFormOpen(false)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={importOpen} onClose={() => setImportOpen(false)} title="Import Exchange Rates" size="lg">
+        <div className="space-y-3">
+          <p className="text-xs text-gray-600">
+            Upload a Bank Indonesia kurs transaksi / JISDOR download or a KMK rate table. The file needs a date column and a
+            kurs / rate column; with kurs jual and kurs beli the middle rate is used, and a Nilai column (e.g. JPY per 100) is
+            divided out. Rows already on file for the same currency, date and source are replaced.
+          </p>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Source *</label>
+              <select
+                value={importSource}
+                onChange={(e) => setImportSource(e.target.value as ExchangeRateSource)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                {EXCHANGE_RATE_SOURCES.map(s => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Currency (if not in file)</label>
+              <input
+                type="text"
+                value={importCurrency}
+                onChange={(e) => setImportCurrency(e.target.value.toUpperCase().slice(0, 3))}
+                className="w-full px-2 py-1.5 text-sm border rounded uppercase"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">File *</label>
+              <input
+                type="file"
+                accept=".csv,.txt,.xlsx,.xls"
+                onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+                className="w-full text-xs"
+              />
+            </div>
+          </div>
+
+          {warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded p-2 text-xs text-amber-800 max-h-24 overflow-y-auto">
+              {warnings.map((warning, i) => <div key={i}>{warning}</div>)}
+            </div>
+          )}
+
+          {parsed.length > 0 && (
+            <div className="border rounded max-h-72 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left font-medium text-gray-500">Row</th>
+                    <th className="px-2 py-1.5 text-left font-medium text-gray-500">Date</th>
+                    <th className="px-2 py-1.5 text-left font-medium text-gray-500">Currency</th>
+                    <th className="px-2 py-1.5 text-right font-medium text-gray-500">Rate</th>
+                    <th className="px-2 py-1.5 text-left font-medium text-gray-500">Valid To</th>
+                    <th className="px-2 py-1.5 text-left font-medium text-gray-500">Reference</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {parsed.map(row => (
+                    <tr key={row.sourceLine}>
+                      <td className="px-2 py-1 text-gray-400">{row.sourceLine}</td>
+                      <td className="px-2 py-1">{formatDate(row.rate_date)}</td>
+                      <td className="px-2 py-1">{row.currency}</td>
+                      <td className="px-2 py-1 text-right font-mono">{formatNumber(row.rate, 2)}</td>
+                      <td className="px-2 py-1">{row.valid_to ? formatDate(row.valid_to) : '-'}</td>
+                      <td className="px-2 py-1">{row.reference || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setImportOpen(false)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={saving || parsed.length === 0}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Importing...' : `Import ${parsed.length} Rate(s)`}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
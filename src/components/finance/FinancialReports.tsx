@@ -41,10 +41,13 @@ export function FinancialReports({ initialReport = 'trial_balance' }: FinancialR
   const loadReport = async () => {
     setLoading(true);
     try {
-      // Try to use the RPC function with date range
+      // P&L covers the selected range; trial balance and balance sheet are cumulative as of the
+      // end date, with closed years already moved into Retained Earnings
+      const cumulative = reportType !== 'pnl';
       const { data: rpcData, error: rpcError } = await supabase.rpc('get_trial_balance', {
-        p_start_date: dateRange.startDate,
+        p_start_date: cumulative ? '1900-01-01' : dateRange.startDate,
         p_end_date: dateRange.endDate,
+        p_include_year_end_close: cumulative,
       });
 
       if (!rpcError && rpcData) {
@@ -0,0 +1,1533 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useFinance } from '../../contexts/FinanceContext';
+import { Plus, Edit, Trash2, RefreshCw, CheckCircle, ChevronDown, ChevronRight, LogOut, Undo2 } from 'lucide-react';
+import { Modal } from '../Modal';
+import { SearchableSelect } from '../SearchableSelect';
+import { showToast } from '../ToastNotification';
+import { showConfirm } from '../ConfirmDialog';
+import { formatDate, formatDateTime } from '../../utils/dateFormat';
+import { formatCurrency } from '../../utils/currency';
+import {
+  DEPRECIATION_METHODS,
+  FISCAL_GROUPS,
+  bookValue,
+  depreciationMethodLabel,
+  fiscalGroupLabel,
+  type DepreciationMethod,
+  type FiscalGroup,
+  type FixedAsset,
+  type FixedAssetCategory,
+  type FixedAssetStatus,
+} from '../../utils/fixedAssets';
+
+interface FixedAssetRegisterProps {
+  canManage: boolean;
+}
+
+type RegisterView = 'register' | 'depreciation' | 'categories';
+
+type AssetSource = 'none' | 'purchase_invoice' | 'expense';
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface PurchaseInvoiceAssetLine {
+  id: string;
+  description: string;
+  line_total: number;
+  purchase_invoice_id: string;
+  purchase_invoices: {
+    invoice_number: string;
+    invoice_date: string;
+    currency: string;
+    exchange_rate: number;
+    suppliers: { company_name: string } | null;
+  } | null;
+}
+
+interface ExpenseOption {
+  id: string;
+  expense_date: string;
+  amount: number;
+  description: string | null;
+  expense_category: string;
+}
+
+interface DepreciationLine {
+  asset_id: string;
+  asset_code: string;
+  asset_name: string;
+  category_name?: string;
+  depreciation_method?: DepreciationMethod;
+  cost?: number;
+  accumulated_before?: number;
+  amount: number;
+  book_value_after: number;
+}
+
+interface DepreciationRun {
+  id: string;
+  period_end_date: string;
+  total_amount: number;
+  asset_count: number;
+  notes: string | null;
+  posted_at: string;
+  journal: { entry_number: string } | null;
+  user_profiles: { full_name: string } | null;
+}
+
+interface AssetForm {
+  asset_name: string;
+  category_id: string;
+  fiscal_group: FiscalGroup;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: string;
+  acquisition_date: string;
+  depreciation_start_date: string;
+  cost: string;
+  salvage_value: string;
+  opening_accumulated_depreciation: string;
+  source: AssetSource;
+  purchase_invoice_item_id: string;
+  finance_expense_id: string;
+  location: string;
+  serial_number: string;
+  notes: string;
+}
+
+interface CategoryForm {
+  code: string;
+  name: string;
+  fiscal_group: FiscalGroup;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: string;
+  asset_account_id: string;
+  accumulated_account_id: string;
+  expense_account_id: string;
+  is_active: boolean;
+}
+
+interface DisposalForm {
+  disposal_date: string;
+  proceeds: string;
+  proceeds_account_id: string;
+  notes: string;
+}
+
+const STATUS_STYLES: Record<FixedAssetStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  fully_depreciated: 'bg-gray-100 text-gray-700',
+  disposed: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<FixedAssetStatus, string> = {
+  active: 'Active',
+  fully_depreciated: 'Fully Depreciated',
+  disposed: 'Disposed',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const firstOfMonth = (date: string) => (date ? `${date.slice(0, 7)}-01` : '');
+
+const emptyAssetForm = (): AssetForm => ({
+  asset_name: '',
+  category_id: '',
+  fiscal_group: 'kelompok_1',
+  depreciation_method: 'straight_line',
+  useful_life_months: '48',
+  acquisition_date: today(),
+  depreciation_start_date: firstOfMonth(today()),
+  cost: '',
+  salvage_value: '0',
+  opening_accumulated_depreciation: '0',
+  source: 'none',
+  purchase_invoice_item_id: '',
+  finance_expense_id: '',
+  location: '',
+  serial_number: '',
+  notes: '',
+});
+
+const emptyCategoryForm = (): CategoryForm => ({
+  code: '',
+  name: '',
+  fiscal_group: 'kelompok_1',
+  depreciation_method: 'straight_line',
+  useful_life_months: '48',
+  asset_account_id: '',
+  accumulated_account_id: '',
+  expense_account_id: '',
+  is_active: true,
+});
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+// Last day of the previous month, the usual run date
+const defaultMonth = () => {
+  const date = new Date();
+  date.setDate(0);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const monthEnd = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, m, 0));
+  return date.toISOString().split('T')[0];
+};
+
+const accountLabel = (account: Account) => `${account.code} - ${account.name}`;
+
+export function FixedAssetRegister({ canManage }: FixedAssetRegisterProps) {
+  const { triggerRefresh } = useFinance();
+  const [view, setView] = useState<RegisterView>('register');
+  const [assets, setAssets] = useState<FixedAsset[]>([]);
+  const [categories, setCategories] = useState<FixedAssetCategory[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<FixedAssetStatus | ''>('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [search, setSearch] = useState('');
+
+  const [assetFormOpen, setAssetFormOpen] = useState(false);
+  const [editingAsset, setEditingAsset] = useState<FixedAsset | null>(null);
+  const [assetForm, setAssetForm] = useState<AssetForm>(emptyAssetForm());
+  const [invoiceLines, setInvoiceLines] = useState<PurchaseInvoiceAssetLine[]>([]);
+  const [expenses, setExpenses] = useState<ExpenseOption[]>([]);
+
+  const [categoryFormOpen, setCategoryFormOpen] = useState(false);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+  const [categoryForm, setCategoryForm] = useState<CategoryForm>(emptyCategoryForm());
+
+  const [disposing, setDisposing] = useState<FixedAsset | null>(null);
+  const [disposalForm, setDisposalForm] = useState<DisposalForm>({ disposal_date: today(), proceeds: '0', proceeds_account_id: '', notes: '' });
+
+  const [month, setMonth] = useState(defaultMonth());
+  const [runNotes, setRunNotes] = useState('');
+  const [previewLines, setPreviewLines] = useState<DepreciationLine[] | null>(null);
+  const [runs, setRuns] = useState<DepreciationRun[]>([]);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [runLines, setRunLines] = useState<Record<string, DepreciationLine[]>>({});
+  const [previewing, setPreviewing] = useState(false);
+
+  const periodEnd = month ? monthEnd(month) : '';
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  useEffect(() => {
+    setPreviewLines(null);
+  }, [periodEnd]);
+
+  const loadAll = async () => {
+    setLoading(true);
+    await Promise.all([loadAssets(), loadCategories(), loadAccounts(), loadRuns()]);
+    setLoading(false);
+  };
+
+  const loadAssets = async () => {
+    const { data, error } = await supabase
+      .from('fixed_assets')
+      .select('*')
+      .order('asset_code');
+    if (error) {
+      console.error('Error loading fixed assets:', error);
+      return;
+    }
+    setAssets((data || []) as FixedAsset[]);
+  };
+
+  const loadCategories = async () => {
+    const { data, error } = await supabase
+      .from('fixed_asset_categories')
+      .select('*')
+      .order('code');
+    if (error) {
+      console.error('Error loading asset categories:', error);
+      return;
+    }
+    setCategories((data || []) as FixedAssetCategory[]);
+  };
+
+  const loadAccounts = async () => {
+    const { data, error } = await supabase
+      .from('chart_of_accounts')
+      .select('id, code, name')
+      .eq('is_header', false)
+      .eq('is_active', true)
+      .order('code');
+    if (error) {
+      console.error('Error loading accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
+  const loadRuns = async () => {
+    const { data, error } = await supabase
+      .from('fixed_asset_depreciation_runs')
+      .select('id, period_end_date, total_amount, asset_count, notes, posted_at, journal:journal_entries!journal_entry_id(entry_number), user_profiles:posted_by(full_name)')
+      .order('period_end_date', { ascending: false })
+      .limit(36);
+    if (error) {
+      console.error('Error loading depreciation runs:', error);
+      return;
+    }
+    setRuns((data || []) as unknown as DepreciationRun[]);
+  };
+
+  // Purchase invoice lines booked as fixed assets, and recent expenses, that are not yet in the register
+  const loadSources = async (keepItemId?: string | null, keepExpenseId?: string | null) => {
+    const [linesRes, expensesRes] = await Promise.all([
+      supabase
+        .from('purchase_invoice_items')
+        .select('id, description, line_total, purchase_invoice_id, purchase_invoices(invoice_number, invoice_date, currency, exchange_rate, suppliers(company_name))')
+        .eq('item_type', 'fixed_asset')
+        .order('created_at', { ascending: false })
+        .limit(200),
+      supabase
+        .from('finance_expenses')
+        .select('id, expense_date, amount, description, expense_category')
+        .order('expense_date', { ascending: false })
+        .limit(200),
+    ]);
+    if (linesRes.error) console.error('Error loading fixed asset invoice lines:', linesRes.error);
+    if (expensesRes.error) console.error('Error loading expenses:', expensesRes.error);
+
+    const linkedItems = new Set(assets.map(a => a.purchase_invoice_item_id).filter(id => id && id !== keepItemId));
+    const linkedExpenses = new Set(assets.map(a => a.finance_expense_id).filter(id => id && id !== keepExpenseId));
+    setInvoiceLines(((linesRes.data || []) as unknown as PurchaseInvoiceAssetLine[]).filter(line => !linkedItems.has(line.id)));
+    setExpenses(((expensesRes.data || []) as ExpenseOption[]).filter(expense => !linkedExpenses.has(expense.id)));
+  };
+
+  const categoryById = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories]);
+
+  const filteredAssets = assets.filter(asset => {
+    if (statusFilter && asset.status !== statusFilter) return false;
+    if (categoryFilter && asset.category_id !== categoryFilter) return false;
+    if (search) {
+      const term = search.toLowerCase();
+      return [asset.asset_code, asset.asset_name, asset.serial_number, asset.location]
+        .some(value => value?.toLowerCase().includes(term));
+    }
+    return true;
+  });
+
+  const totals = filteredAssets.reduce(
+    (sum, asset) => {
+      if (asset.status === 'disposed') return sum;
+      return {
+        cost: sum.cost + Number(asset.cost),
+        accumulated: sum.accumulated + Number(asset.accumulated_depreciation),
+      };
+    },
+    { cost: 0, accumulated: 0 }
+  );
+
+  // ---------- Assets ----------
+
+  const openAssetForm = (asset?: FixedAsset) => {
+    if (asset) {
+      setEditingAsset(asset);
+      setAssetForm({
+        asset_name: asset.asset_name,
+        category_id: asset.category_id,
+        fiscal_group: asset.fiscal_group,
+        depreciation_method: asset.depreciation_method,
+        useful_life_months: String(asset.useful_life_months),
+        acquisition_date: asset.acquisition_date,
+        depreciation_start_date: asset.depreciation_start_date,
+        cost: String(asset.cost),
+        salvage_value: String(asset.salvage_value),
+        opening_accumulated_depreciation: String(asset.opening_accumulated_depreciation),
+        source: asset.purchase_invoice_item_id ? 'purchase_invoice' : asset.finance_expense_id ? 'expense' : 'none',
+        purchase_invoice_item_id: asset.purchase_invoice_item_id || '',
+        finance_expense_id: asset.finance_expense_id || '',
+        location: asset.location || '',
+        serial_number: asset.serial_number || '',
+        notes: asset.notes || '',
+      });
+    } else {
+      setEditingAsset(null);
+      setAssetForm(emptyAssetForm());
+    }
+    loadSources(asset?.purchase_invoice_item_id, asset?.finance_expense_id);
+    setAssetFormOpen(true);
+  };
+
+  const handleCategoryChange = (categoryId: string) => {
+    const category = categoryById.get(categoryId);
+    setAssetForm(prev => category
+      ? {
+          ...prev,
+          category_id: categoryId,
+          fiscal_group: category.fiscal_group,
+          depreciation_method: category.depreciation_method,
+          useful_life_months: String(category.useful_life_months),
+        }
+      : { ...prev, category_id: categoryId });
+  };
+
+  const handleInvoiceLineChange = (itemId: string) => {
+    const line = invoiceLines.find(l => l.id === itemId);
+    setAssetForm(prev => {
+      if (!line) return { ...prev, purchase_invoice_item_id: itemId };
+      const invoice = line.purchase_invoices;
+      const rate = invoice?.currency && invoice.currency !== 'IDR' ? Number(invoice.exchange_rate) || 1 : 1;
+      return {
+        ...prev,
+        purchase_invoice_item_id: itemId,
+        asset_name: prev.asset_name || line.description,
+        cost: String(Math.round(Number(line.line_total) * rate * 100) / 100),
+        acquisition_date: invoice?.invoice_date || prev.acquisition_date,
+        depreciation_start_date: firstOfMonth(invoice?.invoice_date || prev.acquisition_date),
+      };
+    });
+  };
+
+  const handleExpenseChange = (expenseId: string) => {
+    const expense = expenses.find(e => e.id === expenseId);
+    setAssetForm(prev => expense
+      ? {
+          ...prev,
+          finance_expense_id: expenseId,
+          asset_name: prev.asset_name || expense.description || '',
+          cost: String(expense.amount),
+          acquisition_date: expense.expense_date,
+          depreciation_start_date: firstOfMonth(expense.expense_date),
+        }
+      : { ...prev, finance_expense_id: expenseId });
+  };
+
+  const handleSaveAsset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cost = Number(assetForm.cost);
+    const salvage = Number(assetForm.salvage_value) || 0;
+    const opening = Number(assetForm.opening_accumulated_depreciation) || 0;
+    const life = parseInt(assetForm.useful_life_months, 10);
+
+    if (!assetForm.category_id) {
+      showToast({ type: 'warning', title: 'Category required', message: 'Select an asset category' });
+      return;
+    }
+    if (!(cost > 0) || salvage >= cost) {
+      showToast({ type: 'warning', title: 'Invalid cost', message: 'Cost must be above zero and above the salvage value' });
+      return;
+    }
+    if (opening > cost - salvage) {
+      showToast({ type: 'warning', title: 'Invalid opening depreciation', message: 'Opening accumulated depreciation cannot exceed cost less salvage value' });
+      return;
+    }
+    if (!(life > 0)) {
+      showToast({ type: 'warning', title: 'Useful life required', message: 'Enter the useful life in months' });
+      return;
+    }
+    if (assetForm.fiscal_group.startsWith('building') && assetForm.depreciation_method !== 'straight_line') {
+      showToast({ type: 'warning', title: 'Straight-line only', message: 'Buildings can only be depreciated straight-line' });
+      return;
+    }
+
+    const invoiceLine = invoiceLines.find(l => l.id === assetForm.purchase_invoice_item_id);
+    const payload = {
+      asset_name: assetForm.asset_name.trim(),
+      category_id: assetForm.category_id,
+      fiscal_group: assetForm.fiscal_group,
+      depreciation_method: assetForm.depreciation_method,
+      useful_life_months: life,
+      acquisition_date: assetForm.acquisition_date,
+      depreciation_start_date: assetForm.depreciation_start_date || firstOfMonth(assetForm.acquisition_date),
+      cost,
+      salvage_value: salvage,
+      opening_accumulated_depreciation: opening,
+      purchase_invoice_item_id: assetForm.source === 'purchase_invoice' ? assetForm.purchase_invoice_item_id || null : null,
+      purchase_invoice_id: assetForm.source === 'purchase_invoice'
+        ? invoiceLine?.purchase_invoice_id || editingAsset?.purchase_invoice_id || null
+        : null,
+      finance_expense_id: assetForm.source === 'expense' ? assetForm.finance_expense_id || null : null,
+      location: assetForm.location.trim() || null,
+      serial_number: assetForm.serial_number.trim() || null,
+      notes: assetForm.notes.trim() || null,
+    };
+
+    setBusy(true);
+    try {
+      const { error } = editingAsset
+        ? await supabase.from('fixed_assets').update(payload).eq('id', editingAsset.id)
+        : await supabase.from('fixed_assets').insert({ ...payload, asset_code: '' });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Saved', message: editingAsset ? `${editingAsset.asset_code} updated` : 'Asset added to the register' });
+      setAssetFormOpen(false);
+      loadAssets();
+    } catch (error) {
+      console.error('Error saving fixed asset:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to save asset') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteAsset = async (asset: FixedAsset) => {
+    const confirmed = await showConfirm({
+      title: 'Delete Asset',
+      message: `Remove ${asset.asset_code} ${asset.asset_name} from the register? Only assets with no posted depreciation can be deleted.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      const { error } = await supabase.from('fixed_assets').delete().eq('id', asset.id);
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Deleted', message: `${asset.asset_code} removed` });
+      loadAssets();
+    } catch (error) {
+      console.error('Error deleting fixed asset:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to delete asset') });
+    }
+  };
+
+  // ---------- Disposal ----------
+
+  const openDisposal = (asset: FixedAsset) => {
+    const cash = accounts.find(a => a.code === '1101');
+    setDisposalForm({ disposal_date: today(), proceeds: '0', proceeds_account_id: cash?.id || '', notes: '' });
+    setDisposing(asset);
+  };
+
+  const handleDispose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!disposing) return;
+    const proceeds = Number(disposalForm.proceeds) || 0;
+    if (proceeds > 0 && !disposalForm.proceeds_account_id) {
+      showToast({ type: 'warning', title: 'Account required', message: 'Select the account the proceeds were received into' });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.rpc('dispose_fixed_asset', {
+        p_asset_id: disposing.id,
+        p_disposal_date: disposalForm.disposal_date,
+        p_proceeds: proceeds,
+        p_proceeds_account_id: disposalForm.proceeds_account_id || null,
+        p_notes: disposalForm.notes || null,
+      });
+      if (error) throw error;
+      const gainLoss = Number(data) || 0;
+      showToast({
+        type: 'success',
+        title: 'Disposed',
+        message: `${disposing.asset_code} disposed with a ${gainLoss >= 0 ? 'gain' : 'loss'} of ${formatCurrency(Math.abs(gainLoss))}`,
+      });
+      setDisposing(null);
+      triggerRefresh();
+      loadAssets();
+    } catch (error) {
+      console.error('Error disposing fixed asset:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to dispose asset') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancelDisposal = async (asset: FixedAsset) => {
+    const confirmed = await showConfirm({
+      title: 'Cancel Disposal',
+      message: `Reinstate ${asset.asset_code} and delete its disposal journal?`,
+      confirmLabel: 'Cancel Disposal',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('cancel_fixed_asset_disposal', { p_asset_id: asset.id });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Reinstated', message: `${asset.asset_code} is back in the register` });
+      triggerRefresh();
+      loadAssets();
+    } catch (error) {
+      console.error('Error cancelling disposal:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to cancel disposal') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ---------- Depreciation ----------
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.rpc('preview_fixed_asset_depreciation', { p_period_end: periodEnd });
+      if (error) throw error;
+      setPreviewLines((data || []) as DepreciationLine[]);
+    } catch (error) {
+      console.error('Error previewing depreciation:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to preview depreciation') });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!previewLines) return;
+    const total = previewLines.reduce((sum, line) => sum + Number(line.amount), 0);
+    const confirmed = await showConfirm({
+      title: 'Post Depreciation',
+      message: `Post depreciation of ${formatCurrency(total)} on ${previewLines.length} assets as of ${formatDate(periodEnd)}?`,
+      confirmLabel: 'Post',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('post_fixed_asset_depreciation', {
+        p_period_end: periodEnd,
+        p_notes: runNotes || null,
+      });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Posted', message: `Depreciation as of ${formatDate(periodEnd)} posted` });
+      setPreviewLines(null);
+      setRunNotes('');
+      triggerRefresh();
+      loadRuns();
+      loadAssets();
+    } catch (error) {
+      console.error('Error posting depreciation:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to post depreciation') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancelRun = async (run: DepreciationRun) => {
+    const confirmed = await showConfirm({
+      title: 'Cancel Depreciation',
+      message: `Delete the depreciation run as of ${formatDate(run.period_end_date)} and its journal? Accumulated depreciation on ${run.asset_count} assets is reversed.`,
+      confirmLabel: 'Cancel Run',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('cancel_fixed_asset_depreciation', { p_run_id: run.id });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Cancelled', message: 'Depreciation run and its journal removed' });
+      setRunLines(prev => {
+        const next = { ...prev };
+        delete next[run.id];
+        return next;
+      });
+      triggerRefresh();
+      loadRuns();
+      loadAssets();
+    } catch (error) {
+      console.error('Error cancelling depreciation run:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to cancel depreciation') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleRun = async (runId: string) => {
+    if (expandedRun === runId) {
+      setExpandedRun(null);
+      return;
+    }
+    setExpandedRun(runId);
+    if (runLines[runId]) return;
+
+    const { data, error } = await supabase
+      .from('fixed_asset_depreciation_lines')
+      .select('asset_id, amount, book_value_after, fixed_assets(asset_code, asset_name)')
+      .eq('run_id', runId);
+    if (error) {
+      console.error('Error loading depreciation lines:', error);
+      return;
+    }
+    const rows = (data || []) as unknown as {
+      asset_id: string;
+      amount: number;
+      book_value_after: number;
+      fixed_assets: { asset_code: string; asset_name: string } | null;
+    }[];
+    setRunLines(prev => ({
+      ...prev,
+      [runId]: rows
+        .map(row => ({
+          asset_id: row.asset_id,
+          asset_code: row.fixed_assets?.asset_code || '-',
+          asset_name: row.fixed_assets?.asset_name || '',
+          amount: row.amount,
+          book_value_after: row.book_value_after,
+        }))
+        .sort((a, b) => a.asset_code.localeCompare(b.asset_code)),
+    }));
+  };
+
+  // ---------- Categories ----------
+
+  const openCategoryForm = (category?: FixedAssetCategory) => {
+    if (category) {
+      setEditingCategoryId(category.id);
+      setCategoryForm({
+        code: category.code,
+        name: category.name,
+        fiscal_group: category.fiscal_group,
+        depreciation_method: category.depreciation_method,
+        useful_life_months: String(category.useful_life_months),
+        asset_account_id: category.asset_account_id,
+        accumulated_account_id: category.accumulated_account_id,
+        expense_account_id: category.expense_account_id,
+        is_active: category.is_active,
+      });
+    } else {
+      const expense = accounts.find(a => a.code === '6800');
+      setEditingCategoryId(null);
+      setCategoryForm({ ...emptyCategoryForm(), expense_account_id: expense?.id || '' });
+    }
+    setCategoryFormOpen(true);
+  };
+
+  const handleFiscalGroupChange = (group: FiscalGroup, apply: (patch: Partial<CategoryForm & AssetForm>) => void) => {
+    const fiscal = FISCAL_GROUPS.find(g => g.value === group);
+    apply({
+      fiscal_group: group,
+      useful_life_months: String(fiscal?.lifeMonths || ''),
+      ...(fiscal && !fiscal.decliningAllowed ? { depreciation_method: 'straight_line' as DepreciationMethod } : {}),
+    });
+  };
+
+  const handleSaveCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const life = parseInt(categoryForm.useful_life_months, 10);
+    if (!categoryForm.asset_account_id || !categoryForm.accumulated_account_id || !categoryForm.expense_account_id) {
+      showToast({ type: 'warning', title: 'Accounts required', message: 'Select the asset, accumulated depreciation and expense accounts' });
+      return;
+    }
+    if (!(life > 0)) {
+      showToast({ type: 'warning', title: 'Useful life required', message: 'Enter the useful life in months' });
+      return;
+    }
+
+    const payload = {
+      code: categoryForm.code.trim().toUpperCase(),
+      name: categoryForm.name.trim(),
+      fiscal_group: categoryForm.fiscal_group,
+      depreciation_method: categoryForm.depreciation_method,
+      useful_life_months: life,
+      asset_account_id: categoryForm.asset_account_id,
+      accumulated_account_id: categoryForm.accumulated_account_id,
+      expense_account_id: categoryForm.expense_account_id,
+      is_active: categoryForm.is_active,
+    };
+
+    setBusy(true);
+    try {
+      const { error } = editingCategoryId
+        ? await supabase.from('fixed_asset_categories').update(payload).eq('id', editingCategoryId)
+        : await supabase.from('fixed_asset_categories').insert(payload);
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Saved', message: `Category ${payload.code} saved` });
+      setCategoryFormOpen(false);
+      loadCategories();
+    } catch (error) {
+      console.error('Error saving asset category:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to save category') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const accountOptions = accounts.map(a => ({ value: a.id, label: accountLabel(a) }));
+  const accountById = new Map(accounts.map(a => [a.id, a]));
+
+  const renderDepreciationLines = (rows: DepreciationLine[]) => {
+    if (rows.length === 0) {
+      return <div className="py-6 text-center text-sm text-gray-500">No depreciation due for this month</div>;
+    }
+    const total = rows.reduce((sum, row) => sum + Number(row.amount), 0);
+    const detailed = rows[0].cost !== undefined;
+    return (
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Asset</th>
+            {detailed && <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>}
+            {detailed && <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method</th>}
+            {detailed && <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>}
+            {detailed && <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Accumulated</th>}
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Depreciation</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Book Value After</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map(row => (
+            <tr key={row.asset_id}>
+              <td className="px-3 py-1.5">
+                <span className="font-mono text-xs">{row.asset_code}</span>
+                <span className="ml-2 text-gray-700">{row.asset_name}</span>
+              </td>
+              {detailed && <td className="px-3 py-1.5 text-gray-600">{row.category_name}</td>}
+              {detailed && <td className="px-3 py-1.5 text-gray-600">{row.depreciation_method ? depreciationMethodLabel(row.depreciation_method) : '-'}</td>}
+              {detailed && <td className="px-3 py-1.5 text-right">{formatCurrency(row.cost || 0)}</td>}
+              {detailed && <td className="px-3 py-1.5 text-right">{formatCurrency(row.accumulated_before || 0)}</td>}
+              <td className="px-3 py-1.5 text-right font-medium">{formatCurrency(row.amount)}</td>
+              <td className="px-3 py-1.5 text-right">{formatCurrency(row.book_value_after)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-100">
+          <tr className="font-semibold">
+            <td colSpan={detailed ? 5 : 1} className="px-3 py-2 text-right">Total</td>
+            <td className="px-3 py-2 text-right">{formatCurrency(total)}</td>
+            <td></td>
+          </tr>
+        </tfoot>
+      </table>
+    );
+  };
+
+  const alreadyPosted = runs.some(run => run.period_end_date >= periodEnd);
+  const disposalGainLoss = disposing ? (Number(disposalForm.proceeds) || 0) - bookValue(disposing) : 0;
+  const selectedFiscal = FISCAL_GROUPS.find(g => g.value === assetForm.fiscal_group);
+  const selectedCategoryFiscal = FISCAL_GROUPS.find(g => g.value === categoryForm.fiscal_group);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+          {([
+            { id: 'register', label: 'Register' },
+            { id: 'depreciation', label: 'Depreciation Runs' },
+            { id: 'categories', label: 'Categories' },
+          ] as { id: RegisterView; label: string }[]).map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setView(tab.id)}
+              className={`px-3 py-1.5 text-sm rounded ${view === tab.id ? 'bg-white shadow-sm font-medium text-gray-900' : 'text-gray-600 hover:text-gray-900'}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        {canManage && view === 'register' && (
+          <button
+            onClick={() => openAssetForm()}
+            disabled={categories.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add Asset
+          </button>
+        )}
+        {canManage && view === 'categories' && (
+          <button
+            onClick={() => openCategoryForm()}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add Category
+          </button>
+        )}
+      </div>
+
+      {view === 'register' && (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="px-4 py-2 border-b bg-gray-50 flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search code, name, serial, location"
+              className="px-2 py-1 text-sm border rounded w-64"
+            />
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              className="px-2 py-1 text-sm border rounded"
+            >
+              <option value="">All categories</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as FixedAssetStatus | '')}
+              className="px-2 py-1 text-sm border rounded"
+            >
+              <option value="">All statuses</option>
+              {(Object.keys(STATUS_LABELS) as FixedAssetStatus[]).map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          {loading ? (
+            <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+          ) : filteredAssets.length === 0 ? (
+            <div className="py-8 text-center text-sm text-gray-500">No assets in the register</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Asset</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category / Fiscal Group</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Acquired</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Accumulated</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Book Value</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    {canManage && <th className="px-3 py-2"></th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {filteredAssets.map(asset => (
+                    <tr key={asset.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-2 font-mono text-xs">{asset.asset_code}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{asset.asset_name}</div>
+                        {(asset.serial_number || asset.location) && (
+                          <div className="text-xs text-gray-500">
+                            {[asset.serial_number, asset.location].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        <div>{categoryById.get(asset.category_id)?.name || '-'}</div>
+                        <div className="text-gray-500">{fiscalGroupLabel(asset.fiscal_group)}</div>
+                      </td>
+                      <td className="px-3 py-2 text-xs">{formatDate(asset.acquisition_date)}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {depreciationMethodLabel(asset.depreciation_method)}
+                        <div className="text-gray-500">{asset.useful_life_months} months</div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(asset.cost)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(asset.accumulated_depreciation)}</td>
+                      <td className="px-3 py-2 text-right font-medium">
+                        {asset.status === 'disposed' ? '-' : formatCurrency(bookValue(asset))}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[asset.status]}`}>
+                          {STATUS_LABELS[asset.status]}
+                        </span>
+                        {asset.status === 'disposed' && asset.disposal_date && (
+                          <div className="mt-0.5 text-xs text-gray-500">
+                            {formatDate(asset.disposal_date)}
+                            {asset.disposal_gain_loss !== null && (
+                              <span className={Number(asset.disposal_gain_loss) >= 0 ? 'text-green-700' : 'text-red-700'}>
+                                {' '}{Number(asset.disposal_gain_loss) >= 0 ? '+' : '-'}{formatCurrency(Math.abs(Number(asset.disposal_gain_loss)))}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      {canManage && (
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {asset.status !== 'disposed' ? (
+                            <>
+                              <button onClick={() => openAssetForm(asset)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="Edit">
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => openDisposal(asset)} className="p-1 text-orange-600 hover:bg-orange-50 rounded" title="Dispose">
+                                <LogOut className="w-4 h-4" />
+                              </button>
+                              {Number(asset.accumulated_depreciation) === Number(asset.opening_accumulated_depreciation) && (
+                                <button onClick={() => handleDeleteAsset(asset)} className="p-1 text-red-600 hover:bg-red-50 rounded" title="Delete">
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              )}
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => handleCancelDisposal(asset)}
+                              disabled={busy}
+                              className="p-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50"
+                              title="Cancel disposal"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-100">
+                  <tr className="font-semibold">
+                    <td colSpan={5} className="px-3 py-2 text-right">Total (excluding disposed)</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(totals.cost)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(totals.accumulated)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(totals.cost - totals.accumulated)}</td>
+                    <td colSpan={canManage ? 2 : 1}></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {view === 'depreciation' && (
+        <>
+          <div className="bg-white rounded-lg shadow-sm border p-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Month</label>
+                <input
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  className="px-2 py-1.5 text-sm border rounded"
+                />
+              </div>
+              <button
+                onClick={handlePreview}
+                disabled={previewing || !periodEnd}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${previewing ? 'animate-spin' : ''}`} />
+                Preview
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Assets are depreciated from the month they start; straight-line spreads cost less salvage value over the
+              life, declining balance applies twice the straight-line rate to the book value at the start of each year.
+              Months are posted in order, one journal per month.
+            </p>
+          </div>
+
+          {previewLines && (
+            <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+              <div className="px-4 py-2 border-b bg-gray-50 flex items-center justify-between gap-3">
+                <span className="text-sm font-semibold text-gray-900">Depreciation as of {formatDate(periodEnd)}</span>
+                {canManage && previewLines.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={runNotes}
+                      onChange={(e) => setRunNotes(e.target.value)}
+                      placeholder="Notes"
+                      className="px-2 py-1 text-xs border rounded w-56"
+                    />
+                    <button
+                      onClick={handlePost}
+                      disabled={busy || alreadyPosted}
+                      title={alreadyPosted ? 'Already posted for this or a later month' : undefined}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-3.5 h-3.5" />
+                      Post Depreciation
+                    </button>
+                  </div>
+                )}
+              </div>
+              {renderDepreciationLines(previewLines)}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <div className="px-4 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-900">Posted Runs</div>
+            {runs.length === 0 ? (
+              <div className="py-6 text-center text-sm text-gray-500">No depreciation posted yet</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 w-8"></th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">As Of</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Assets</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Depreciation</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Journal</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Posted</th>
+                    {canManage && <th className="px-3 py-2"></th>}
+                  </tr>
+                </thead>
+                {runs.map((run, index) => (
+                  <tbody key={run.id} className="divide-y border-b">
+                    <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggleRun(run.id)}>
+                      <td className="px-3 py-2 text-gray-400">
+                        {expandedRun === run.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="px-3 py-2 font-medium">{formatDate(run.period_end_date)}</td>
+                      <td className="px-3 py-2 text-right">{run.asset_count}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(run.total_amount)}</td>
+                      <td className="px-3 py-2 font-mono text-xs">{run.journal?.entry_number || '-'}</td>
+                      <td className="px-3 py-2 text-xs text-gray-500">
+                        {formatDateTime(run.posted_at)}
+                        {run.user_profiles?.full_name && <div>{run.user_profiles.full_name}</div>}
+                      </td>
+                      {canManage && (
+                        <td className="px-3 py-2 text-right">
+                          {index === 0 && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleCancelRun(run); }}
+                              disabled={busy}
+                              className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                              title="Cancel run"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                    {expandedRun === run.id && (
+                      <tr>
+                        <td colSpan={canManage ? 7 : 6} className="p-0 bg-gray-50">
+                          {run.notes && <div className="px-4 py-2 text-xs text-gray-600">{run.notes}</div>}
+                          {runLines[run.id] ? renderDepreciationLines(runLines[run.id]) : (
+                            <div className="py-4 text-center text-xs text-gray-500">Loading...</div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                ))}
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {view === 'categories' && (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fiscal Group</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method / Life</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Asset</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Accumulated</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expense</th>
+                {canManage && <th className="px-3 py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {categories.map(category => (
+                <tr key={category.id} className={category.is_active ? '' : 'text-gray-400'}>
+                  <td className="px-3 py-2 font-mono text-xs">{category.code}</td>
+                  <td className="px-3 py-2">{category.name}{!category.is_active && ' (inactive)'}</td>
+                  <td className="px-3 py-2 text-xs">{fiscalGroupLabel(category.fiscal_group)}</td>
+                  <td className="px-3 py-2 text-xs">
+                    {depreciationMethodLabel(category.depreciation_method)} · {category.useful_life_months} months
+                  </td>
+                  <td className="px-3 py-2 text-xs">{accountById.get(category.asset_account_id)?.code || '-'}</td>
+                  <td className="px-3 py-2 text-xs">{accountById.get(category.accumulated_account_id)?.code || '-'}</td>
+                  <td className="px-3 py-2 text-xs">{accountById.get(category.expense_account_id)?.code || '-'}</td>
+                  {canManage && (
+                    <td className="px-3 py-2 text-right">
+                      <button onClick={() => openCategoryForm(category)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal isOpen={assetFormOpen} onClose={() => setAssetFormOpen(false)} title={editingAsset ? `Edit ${editingAsset.asset_code}` : 'Add Fixed Asset'} size="lg">
+        <form onSubmit={handleSaveAsset} className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Acquired Through</label>
+              <select
+                value={assetForm.source}
+                onChange={(e) => setAssetForm({ ...assetForm, source: e.target.value as AssetSource })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                <option value="none">Opening balance / other</option>
+                <option value="purchase_invoice">Purchase invoice line</option>
+                <option value="expense">Expense</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              {assetForm.source === 'purchase_invoice' && (
+                <>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Invoice Line (Fixed Asset)</label>
+                  <SearchableSelect
+                    value={assetForm.purchase_invoice_item_id}
+                    onChange={handleInvoiceLineChange}
+                    options={invoiceLines.map(line => ({
+                      value: line.id,
+                      label: `${line.purchase_invoices?.invoice_number || '-'} · ${line.purchase_invoices?.suppliers?.company_name || ''} · ${line.description} · ${line.purchase_invoices?.currency || 'IDR'} ${Number(line.line_total).toLocaleString('id-ID')}`,
+                    }))}
+                    placeholder="Select invoice line"
+                  />
+                </>
+              )}
+              {assetForm.source === 'expense' && (
+                <>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Expense</label>
+                  <SearchableSelect
+                    value={assetForm.finance_expense_id}
+                    onChange={handleExpenseChange}
+                    options={expenses.map(expense => ({
+                      value: expense.id,
+                      label: `${formatDate(expense.expense_date)} · ${expense.description || expense.expense_category} · ${formatCurrency(expense.amount)}`,
+                    }))}
+                    placeholder="Select expense"
+                  />
+                </>
+              )}
+              {assetForm.source === 'none' && (
+                <p className="text-xs text-gray-500 pt-5">
+                  For assets taken on from before this system, enter the depreciation already charged as opening accumulated depreciation.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Asset Name *</label>
+              <input
+                type="text"
+                value={assetForm.asset_name}
+                onChange={(e) => setAssetForm({ ...assetForm, asset_name: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Category *</label>
+              <select
+                value={assetForm.category_id}
+                onChange={(e) => handleCategoryChange(e.target.value)}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              >
+                <option value="">Select...</option>
+                {categories.filter(c => c.is_active || c.id === assetForm.category_id).map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Fiscal Group *</label>
+              <select
+                value={assetForm.fiscal_group}
+                onChange={(e) => handleFiscalGroupChange(e.target.value as FiscalGroup, patch => setAssetForm(prev => ({ ...prev, ...patch })))}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                {FISCAL_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Method *</label>
+              <select
+                value={assetForm.depreciation_method}
+                onChange={(e) => setAssetForm({ ...assetForm, depreciation_method: e.target.value as DepreciationMethod })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                {DEPRECIATION_METHODS.map(m => (
+                  <option key={m.value} value={m.value} disabled={m.value === 'declining_balance' && !selectedFiscal?.decliningAllowed}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Useful Life (months) *</label>
+              <input
+                type="number"
+                min="1"
+                value={assetForm.useful_life_months}
+                onChange={(e) => setAssetForm({ ...assetForm, useful_life_months: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Acquisition Date *</label>
+              <input
+                type="date"
+                value={assetForm.acquisition_date}
+                onChange={(e) => setAssetForm({
+                  ...assetForm,
+                  acquisition_date: e.target.value,
+                  depreciation_start_date: firstOfMonth(e.target.value),
+                })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Depreciation Starts *</label>
+              <input
+                type="date"
+                value={assetForm.depreciation_start_date}
+                onChange={(e) => setAssetForm({ ...assetForm, depreciation_start_date: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Cost (IDR) *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={assetForm.cost}
+                onChange={(e) => setAssetForm({ ...assetForm, cost: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Salvage Value (IDR)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={assetForm.salvage_value}
+                onChange={(e) => setAssetForm({ ...assetForm, salvage_value: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Opening Accumulated Depreciation</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={assetForm.opening_accumulated_depreciation}
+                onChange={(e) => setAssetForm({ ...assetForm, opening_accumulated_depreciation: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Serial Number</label>
+              <input
+                type="text"
+                value={assetForm.serial_number}
+                onChange={(e) => setAssetForm({ ...assetForm, serial_number: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Location</label>
+              <input
+                type="text"
+                value={assetForm.location}
+                onChange={(e) => setAssetForm({ ...assetForm, location: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={assetForm.notes}
+              onChange={(e) => setAssetForm({ ...assetForm, notes: e.target.value })}
+              rows={2}
+              className="w-full px-2 py-1.5 text-sm border rounded"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            The register does not post the acquisition; the purchase invoice or expense already did. Cost is in IDR at the
+            invoice rate. Once depreciation has been posted, cost, start date and category are locked.
+          </p>
+          <div className="flex justify-end gap-2 pt-2 border-t">
+            <button type="button" onClick={() => setAssetFormOpen(false)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={busy} className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!disposing} onClose={() => setDisposing(null)} title={disposing ? `Dispose ${disposing.asset_code}` : 'Dispose Asset'} size="sm">
+        {disposing && (
+          <form onSubmit={handleDispose} className="space-y-3">
+            <div className="bg-gray-50 rounded p-2 text-xs space-y-0.5">
+              <div className="font-medium text-sm text-gray-900">{disposing.asset_name}</div>
+              <div>Cost {formatCurrency(disposing.cost)} · Accumulated {formatCurrency(disposing.accumulated_depreciation)}</div>
+              <div>Book value {formatCurrency(bookValue(disposing))}</div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Disposal Date *</label>
+                <input
+                  type="date"
+                  value={disposalForm.disposal_date}
+                  min={disposing.acquisition_date}
+                  onChange={(e) => setDisposalForm({ ...disposalForm, disposal_date: e.target.value })}
+                  className="w-full px-2 py-1.5 text-sm border rounded"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Proceeds (IDR)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={disposalForm.proceeds}
+                  onChange={(e) => setDisposalForm({ ...disposalForm, proceeds: e.target.value })}
+                  className="w-full px-2 py-1.5 text-sm border rounded"
+                />
+              </div>
+            </div>
+            {Number(disposalForm.proceeds) > 0 && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Received Into *</label>
+                <SearchableSelect
+                  value={disposalForm.proceeds_account_id}
+                  onChange={(value) => setDisposalForm({ ...disposalForm, proceeds_account_id: value })}
+                  options={accountOptions}
+                  placeholder="Select account"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={disposalForm.notes}
+                onChange={(e) => setDisposalForm({ ...disposalForm, notes: e.target.value })}
+                placeholder="Sold, scrapped, written off..."
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              />
+            </div>
+            <div className={`text-sm font-medium ${disposalGainLoss >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {disposalGainLoss >= 0 ? 'Gain' : 'Loss'} on disposal: {formatCurrency(Math.abs(disposalGainLoss))}
+              <span className="ml-1 text-xs font-normal text-gray-500">({disposalGainLoss >= 0 ? '4930' : '7400'})</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Post depreciation up to the disposal month first; the book value above is what is written off.
+            </p>
+            <div className="flex justify-end gap-2 pt-2 border-t">
+              <button type="button" onClick={() => setDisposing(null)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50">
+                Cancel
+              </button>
+              <button type="submit" disabled={busy} className="px-3 py-1.5 text-sm bg-orange-600 text-white rounded hover:bg-orange-700 disabled:opacity-50">
+                {busy ? 'Posting...' : 'Dispose'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <Modal isOpen={categoryFormOpen} onClose={() => setCategoryFormOpen(false)} title={editingCategoryId ? 'Edit Asset Category' : 'Add Asset Category'} size="md">
+        <form onSubmit={handleSaveCategory} className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Code *</label>
+              <input
+                type="text"
+                value={categoryForm.code}
+                onChange={(e) => setCategoryForm({ ...categoryForm, code: e.target.value.toUpperCase() })}
+                className="w-full px-2 py-1.5 text-sm border rounded uppercase"
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={categoryForm.name}
+                onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Fiscal Group *</label>
+              <select
+                value={categoryForm.fiscal_group}
+                onChange={(e) => handleFiscalGroupChange(e.target.value as FiscalGroup, patch => setCategoryForm(prev => ({ ...prev, ...patch })))}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                {FISCAL_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Method *</label>
+              <select
+                value={categoryForm.depreciation_method}
+                onChange={(e) => setCategoryForm({ ...categoryForm, depreciation_method: e.target.value as DepreciationMethod })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                {DEPRECIATION_METHODS.map(m => (
+                  <option key={m.value} value={m.value} disabled={m.value === 'declining_balance' && !selectedCategoryFiscal?.decliningAllowed}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Life (months) *</label>
+              <input
+                type="number"
+                min="1"
+                value={categoryForm.useful_life_months}
+                onChange={(e) => setCategoryForm({ ...categoryForm, useful_life_months: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Asset Account *</label>
+            <SearchableSelect
+              value={categoryForm.asset_account_id}
+              onChange={(value) => setCategoryForm({ ...categoryForm, asset_account_id: value })}
+              options={accountOptions}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Accumulated Depreciation Account *</label>
+            <SearchableSelect
+              value={categoryForm.accumulated_account_id}
+              onChange={(value) => setCategoryForm({ ...categoryForm, accumulated_account_id: value })}
+              options={accountOptions}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Depreciation Expense Account *</label>
+            <SearchableSelect
+              value={categoryForm.expense_account_id}
+              onChange={(value) => setCategoryForm({ ...categoryForm, expense_account_id: value })}
+              options={accountOptions}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={categoryForm.is_active}
+              onChange={(e) => setCategoryForm({ ...categoryForm, is_active: e.target.checked })}
+            />
+            Active
+          </label>
+          <div className="flex justify-end gap-2 pt-2 border-t">
+            <button type="button" onClick={() => setCategoryFormOpen(false)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={busy} className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useFinance } from '../../contexts/FinanceContext';
+import { RefreshCw, CheckCircle, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { showToast } from '../ToastNotification';
+import { showConfirm } from '../ConfirmDialog';
+import { formatDate, formatDateTime } from '../../utils/dateFormat';
+import { formatCurrency, formatNumber } from '../../utils/currency';
+import { fetchExchangeRate } from '../../utils/exchangeRates';
+
+type RevaluationLineType = 'receivable' | 'payable' | 'bank';
+
+interface RevaluationLine {
+  line_type: RevaluationLineType;
+  reference_id: string | null;
+  reference_number: string | null;
+  party_name: string | null;
+  account_code?: string | null;
+  foreign_amount: number;
+  booked_rate: number | null;
+  book_amount: number;
+  revalued_amount: number;
+  gain_loss: number;
+}
+
+interface RevaluationRun {
+  id: string;
+  period_end_date: string;
+  currency: string;
+  rate: number;
+  total_gain: number;
+  total_loss: number;
+  notes: string | null;
+  posted_at: string;
+  journal: { entry_number: string } | null;
+  reversal: { entry_number: string; entry_date: string } | null;
+  user_profiles: { full_name: string } | null;
+}
+
+interface FxRevaluationProps {
+  canManage: boolean;
+}
+
+const LINE_TYPE_LABELS: Record<RevaluationLineType, string> = {
+  receivable: 'Receivables',
+  payable: 'Payables',
+  bank: 'Bank Balances',
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+// Last day of the previous month, the usual run date
+const defaultMonth = () => {
+  const date = new Date();
+  date.setDate(0);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const monthEnd = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, m, 0));
+  return date.toISOString().split('T')[0];
+};
+
+export function FxRevaluation({ canManage }: FxRevaluationProps) {
+  const { triggerRefresh } = useFinance();
+  const [month, setMonth] = useState(defaultMonth());
+  const [currency, setCurrency] = useState('USD');
+  const [rate, setRate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<RevaluationLine[] | null>(null);
+  const [runs, setRuns] = useState<RevaluationRun[]>([]);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [runLines, setRunLines] = useState<Record<string, RevaluationLine[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const periodEnd = month ? monthEnd(month) : '';
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  useEffect(() => {
+    setLines(null);
+    if (!periodEnd || currency.length !== 3) return;
+    // Accounting revaluation uses the BI rate; fall back to whatever rate is on file
+    (async () => {
+      const rateOnFile = (await fetchExchangeRate(currency, periodEnd, 'bi')) ?? (await fetchExchangeRate(currency, periodEnd));
+      setRate(rateOnFile ? String(rateOnFile) : '');
+    })();
+  }, [periodEnd, currency]);
+
+  const loadRuns = async () => {
+    const { data, error } = await supabase
+      .from('fx_revaluations')
+      .select('id, period_end_date, currency, rate, total_gain, total_loss, notes, posted_at, journal:journal_entries!journal_entry_id(entry_number), reversal:journal_entries!reversal_journal_entry_id(entry_number, entry_date), user_profiles:posted_by(full_name)')
+      .order('period_end_date', { ascending: false })
+      .limit(36);
+    if (error) {
+      console.error('Error loading FX revaluations:', error);
+      return;
+    }
+    setRuns((data || []) as unknown as RevaluationRun[]);
+  };
+
+  const handlePreview = async () => {
+    if (!(Number(rate) > 0)) {
+      showToast({ type: 'warning', title: 'Rate required', message: `Enter the ${currency} rate as of ${formatDate(periodEnd)}` });
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('preview_fx_revaluation', {
+        p_period_end: periodEnd,
+        p_currency: currency,
+        p_rate: Number(rate),
+      });
+      if (error) throw error;
+      setLines((data || []) as RevaluationLine[]);
+    } catch (error) {
+      console.error('Error previewing FX revaluation:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to preview revaluation') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!lines) return;
+    const net = lines.reduce((sum, line) => sum + Number(line.gain_loss), 0);
+    const confirmed = await showConfirm({
+      title: 'Post FX Revaluation',
+      message: `Post an unrealised ${net >= 0 ? 'gain' : 'loss'} of ${formatCurrency(Math.abs(net))} for ${currency} as of ${formatDate(periodEnd)}? A reversing journal is posted on the first day of the next month.`,
+      confirmLabel: 'Post',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('post_fx_revaluation', {
+        p_period_end: periodEnd,
+        p_currency: currency,
+        p_rate: Number(rate),
+        p_notes: notes || null,
+      });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Posted', message: `${currency} revaluation as of ${formatDate(periodEnd)} posted` });
+      setLines(null);
+      setNotes('');
+      triggerRefresh();
+      loadRuns();
+    } catch (error) {
+      console.error('Error posting FX revaluation:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to post revaluation') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (run: RevaluationRun) => {
+    const confirmed = await showConfirm({
+      title: 'Cancel Revaluation',
+      message: `Delete the ${run.currency} revaluation as of ${formatDate(run.period_end_date)} together with its journal and reversal?`,
+      confirmLabel: 'Cancel Revaluation',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('cancel_fx_revaluation', { p_revaluation_id: run.id });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Cancelled', message: 'Revaluation and its journals removed' });
+      triggerRefresh();
+      loadRuns();
+    } catch (error) {
+      console.error('Error cancelling FX revaluation:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to cancel revaluation') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleRun = async (runId: string) => {
+    if (expandedRun === runId) {
+      setExpandedRun(null);
+      return;
+    }
+    setExpandedRun(runId);
+    if (runLines[runId]) return;
+
+    const { data, error } = await supabase
+      .from('fx_revaluation_lines')
+      .select('line_type, reference_id, reference_number, party_name, foreign_amount, booked_rate, book_amount, revalued_amount, gain_loss')
+      .eq('revaluation_id', runId)
+      .order('line_type')
+      .order('reference_number');
+    if (error) {
+      console.error('Error loading revaluation lines:', error);
+      return;
+    }
+    setRunLines(prev => ({ ...prev, [runId]: (data || []) as RevaluationLine[] }));
+  };
+
+  const renderLines = (rows: RevaluationLine[], lineCurrency: string) => {
+    const groups = (['receivable', 'payable', 'bank'] as RevaluationLineType[])
+      .map(type => ({ type, rows: rows.filter(row => row.line_type === type) }))
+      .filter(group => group.rows.length > 0);
+    const totalGain = rows.reduce((sum, row) => sum + Math.max(Number(row.gain_loss), 0), 0);
+    const totalLoss = rows.reduce((sum, row) => sum + Math.max(-Number(row.gain_loss), 0), 0);
+
+    if (groups.length === 0) {
+      return <div className="py-6 text-center text-sm text-gray-500">No open {lineCurrency} balances on this date</div>;
+    }
+
+    return (
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Document / Account</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Party</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Open ({lineCurrency})</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Booked Rate</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Book Value</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Revalued</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Gain / (Loss)</th>
+          </tr>
+        </thead>
+        {groups.map(group => (
+          <tbody key={group.type} className="divide-y">
+            <tr className="bg-gray-50/60">
+              <td colSpan={7} className="px-3 py-1.5 text-xs font-semibold text-gray-700">{LINE_TYPE_LABELS[group.type]}</td>
+            </tr>
+            {group.rows.map((row, index) => (
+              <tr key={`${row.reference_id}-${index}`}>
+                <td className="px-3 py-1.5 font-medium text-gray-900">{row.reference_number || '-'}</td>
+                <td className="px-3 py-1.5 text-gray-600">{row.party_name || '-'}</td>
+                <td className="px-3 py-1.5 text-right">{formatNumber(row.foreign_amount)}</td>
+                <td className="px-3 py-1.5 text-right text-gray-600">
+                  {row.booked_rate ? formatNumber(row.booked_rate) : 'Ledger'}
+                </td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(row.book_amount)}</td>
+                <td className="px-3 py-1.5 text-right">{formatCurrency(row.revalued_amount)}</td>
+                <td className={`px-3 py-1.5 text-right font-medium ${Number(row.gain_loss) >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                  {Number(row.gain_loss) >= 0 ? formatCurrency(row.gain_loss) : `(${formatCurrency(-row.gain_loss)})`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        ))}
+        <tfoot className="bg-gray-100 text-sm">
+          <tr>
+            <td colSpan={6} className="px-3 py-1.5 text-right text-gray-600">Unrealised gain (4910)</td>
+            <td className="px-3 py-1.5 text-right font-medium text-green-700">{formatCurrency(totalGain)}</td>
+          </tr>
+          <tr>
+            <td colSpan={6} className="px-3 py-1.5 text-right text-gray-600">Unrealised loss (7310)</td>
+            <td className="px-3 py-1.5 text-right font-medium text-red-700">({formatCurrency(totalLoss)})</td>
+          </tr>
+          <tr className="font-semibold">
+            <td colSpan={6} className="px-3 py-2 text-right">Net</td>
+            <td className={`px-3 py-2 text-right ${totalGain - totalLoss >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {totalGain - totalLoss >= 0 ? formatCurrency(totalGain - totalLoss) : `(${formatCurrency(totalLoss - totalGain)})`}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    );
+  };
+
+  const alreadyPosted = runs.some(run => run.period_end_date === periodEnd && run.currency === currency);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-sm border p-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Month</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="px-2 py-1.5 text-sm border rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+            <input
+              type="text"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase().slice(0, 3))}
+              className="w-20 px-2 py-1.5 text-sm border rounded uppercase"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Rate as of {periodEnd ? formatDate(periodEnd) : '-'}</label>
+            <input
+              type="number"
+              step="0.000001"
+              min="0"
+              value={rate}
+              onChange={(e) => { setRate(e.target.value); setLines(null); }}
+              placeholder="No rate on file"
+              className="w-36 px-2 py-1.5 text-sm border rounded"
+            />
+          </div>
+          <button
+            onClick={handlePreview}
+            disabled={loading || !periodEnd}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Preview
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Open invoices are revalued from the rate they were booked at; bank accounts from their ledger balance. The
+          difference is posted as of the month end and reversed on the first day of the next month.
+        </p>
+      </div>
+
+      {lines && (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="px-4 py-2 border-b bg-gray-50 flex items-center justify-between gap-3">
+            <span className="text-sm font-semibold text-gray-900">
+              {currency} revaluation as of {formatDate(periodEnd)} @ {formatNumber(Number(rate))}
+            </span>
+            {canManage && lines.length > 0 && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Notes"
+                  className="px-2 py-1 text-xs border rounded w-56"
+                />
+                <button
+                  onClick={handlePost}
+                  disabled={busy || alreadyPosted}
+                  title={alreadyPosted ? 'Already posted for this month; cancel the existing run first' : undefined}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <CheckCircle className="w-3.5 h-3.5" />
+                  Post Revaluation
+                </button>
+              </div>
+            )}
+          </div>
+          {renderLines(lines, currency)}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <div className="px-4 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-900">Posted Revaluations</div>
+        {runs.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-500">No revaluations posted yet</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 w-8"></th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">As Of</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Gain</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Loss</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Journal</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reversal</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Posted</th>
+                {canManage && <th className="px-3 py-2"></th>}
+              </tr>
+            </thead>
+            {runs.map(run => (
+              <tbody key={run.id} className="divide-y border-b">
+                <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggleRun(run.id)}>
+                  <td className="px-3 py-2 text-gray-400">
+                    {expandedRun === run.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </td>
+                  <td className="px-3 py-2 font-medium">{formatDate(run.period_end_date)}</td>
+                  <td className="px-3 py-2">{run.currency}</td>
+                  <td className="px-3 py-2 text-right">{formatNumber(run.rate)}</td>
+                  <td className="px-3 py-2 text-right text-green-700">{formatCurrency(run.total_gain)}</td>
+                  <td className="px-3 py-2 text-right text-red-700">{formatCurrency(run.total_loss)}</td>
+                  <td className="px-3 py-2 font-mono text-xs">{run.journal?.entry_number || '-'}</td>
+                  <td className="px-3 py-2 text-xs">
+                    {run.reversal ? <><span className="font-mono">{run.reversal.entry_number}</span> · {formatDate(run.reversal.entry_date)}</> : '-'}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-500">
+                    {formatDateTime(run.posted_at)}
+                    {run.user_profiles?.full_name && <div>{run.user_profiles.full_name}</div>}
+                  </td>
+                  {canManage && (
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleCancel(run); }}
+                        disabled={busy}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                        title="Cancel revaluation"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+                {expandedRun === run.id && (
+                  <tr>
+                    <td colSpan={canManage ? 10 : 9} className="p-0 bg-gray-50">
+                      {run.notes && <div className="px-4 py-2 text-xs text-gray-600">{run.notes}</div>}
+                      {runLines[run.id] ? renderLines(runLines[run.id], run.currency) : (
+                        <div className="py-4 text-center text-xs text-gray-500">Loading...</div>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            ))}
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useFinance } from '../../contexts/FinanceContext';
 import { useAuth } from '../../contexts/AuthContext';
 import {
   Plus, Trash2, Search, Eye, BookOpen, FileText,
-  ChevronDown, X, Loader2, Save, RotateCcw
+  ChevronDown, X, Loader2, Save, RotateCcw, Lock
 } from 'lucide-react';
 import { showToast } from '../ToastNotification';
 import { Modal } from '../Modal';
@@ -144,7 +144,7 @@ function createEmptyLine(): JournalLine {
 }
 
 export function GeneralJournalEntry({ canManage, onNavigateToLedger, initialEditEntryId, onEditComplete }: GeneralJournalEntryProps) {
-  const { dateRange, triggerRefresh, refreshTrigger } = useFinance();
+  const { dateRange, triggerRefresh, refreshTrigger, periodLock, isDateLocked } = useFinance();
   const { profile } = useAuth();
 
   const [accounts, setAccounts] = useState<Account[]>([]);
@@ -288,6 +288,10 @@ export function GeneralJournalEntry({ canManage, onNavigateToLedger, initialEdit
 
   const handlePost = async () => {
     if (!isBalanced || !hasAccounts) return;
+    if (isDateLocked(entryDate)) {
+      showToast({ type: 'error', title: 'Period Closed', message: `Books are closed up to ${periodLock.lockDate}. Choose a later date or ask an admin to reopen the period.` });
+      return;
+    }
     setSaving(true);
 
     try {
@@ -392,6 +396,10 @@ export function GeneralJournalEntry({ canManage, onNavigateToLedger, initialEdit
   };
 
   const handleEditEntry = async (entry: JournalEntry) => {
+    if (isDateLocked(entry.entry_date)) {
+      showToast({ type: 'error', title: 'Period Closed', message: `${entry.entry_number} is in a closed period and cannot be edited.` });
+      return;
+    }
     const { data: lineData } = await supabase
       .from('journal_entry_lines')
       .select('line_number, account_id, description, debit, credit, chart_of_accounts(code, name)')
@@ -522,6 +530,9 @@ export function GeneralJournalEntry({ canManage, onNavigateToLedger, initialEdit
                   onChange={e => setEntryDate(e.target.value)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
+                {isDateLocked(entryDate) && (
+                  <p className="mt-1 text-xs text-red-600">Period closed up to {periodLock.lockDate}</p>
+                )}
               </div>
               <div className="sm:col-span-2">
                 <label className="block text-xs font-medium text-gray-600 mb-1">Narration / Description</label>
@@ -758,20 +769,28 @@ export function GeneralJournalEntry({ canManage, onNavigateToLedger, initialEdit
                         >
                           <Eye className="w-4 h-4" />
                         </button>
-                        <button
-                          onClick={() => handleEditEntry(e)}
-                          className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
-                          title="Edit"
-                        >
-                          <BookOpen className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDeleteEntry(e.id)}
-                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                          title="Delete"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                        {isDateLocked(e.entry_date) ? (
+                          <span className="p-1 text-gray-300" title="Period closed">
+                            <Lock className="w-4 h-4" />
+                          </span>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleEditEntry(e)}
+                              className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                              title="Edit"
+                            >
+                              <BookOpen className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteEntry(e.id)}
+                              className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                              title="Delete"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
                       </div>
                     </td>
                   </tr>
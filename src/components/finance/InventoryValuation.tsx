@@ -0,0 +1,361 @@
+import { Fragment, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useFinance } from '../../contexts/FinanceContext';
+import { Download, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { formatCurrency, formatNumber } from '../../utils/currency';
+import { formatDate } from '../../utils/dateFormat';
+
+type CostingMethod = 'fifo' | 'weighted_average';
+
+interface ValuationRow {
+  product_id: string;
+  product_code: string | null;
+  product_name: string;
+  unit: string | null;
+  batch_id: string;
+  batch_number: string;
+  import_date: string;
+  expiry_date: string | null;
+  quantity: number;
+  batch_unit_cost: number;
+  unit_cost: number;
+  value: number;
+}
+
+interface ReconciliationLine {
+  line_type: 'valuation' | 'gl_balance' | 'costing_method' | 'received_not_invoiced'
+    | 'delivered_not_invoiced' | 'movement_without_journal' | 'unexplained';
+  description: string;
+  reference_number: string | null;
+  reference_date: string | null;
+  amount: number;
+}
+
+interface ProductValuation {
+  product_id: string;
+  product_code: string | null;
+  product_name: string;
+  unit: string | null;
+  quantity: number;
+  value: number;
+  batches: ValuationRow[];
+}
+
+const METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: 'FIFO',
+  weighted_average: 'Weighted Average',
+};
+
+// Reconciling items in the order they are explained, with what each one means
+const ITEM_GROUPS: { type: ReconciliationLine['line_type']; label: string }[] = [
+  { type: 'costing_method', label: 'Costing method vs batch landed cost' },
+  { type: 'received_not_invoiced', label: 'Received, not yet invoiced (no inventory journal)' },
+  { type: 'delivered_not_invoiced', label: 'Delivered, not yet invoiced (COGS not posted)' },
+  { type: 'movement_without_journal', label: 'Adjustments and returns without a journal' },
+  { type: 'unexplained', label: 'Unexplained' },
+];
+
+export function InventoryValuation() {
+  const { dateRange } = useFinance();
+  const [asOfDate, setAsOfDate] = useState(dateRange.endDate);
+  const [method, setMethod] = useState<CostingMethod | null>(null);
+  const [rows, setRows] = useState<ValuationRow[]>([]);
+  const [reconciliation, setReconciliation] = useState<ReconciliationLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedProducts, setExpandedProducts] = useState<Set<string>>(new Set());
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const loadDefaultMethod = async () => {
+      const { data } = await supabase
+        .from('app_settings')
+        .select('inventory_costing_method')
+        .limit(1)
+        .maybeSingle();
+      setMethod((data?.inventory_costing_method as CostingMethod) || 'fifo');
+    };
+    loadDefaultMethod();
+  }, []);
+
+  useEffect(() => {
+    setAsOfDate(dateRange.endDate);
+  }, [dateRange.endDate]);
+
+  useEffect(() => {
+    if (method && asOfDate) loadValuation();
+  }, [method, asOfDate]);
+
+  const loadValuation = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [valuationResult, reconciliationResult] = await Promise.all([
+        supabase.rpc('get_inventory_valuation', { p_as_of_date: asOfDate, p_method: method }),
+        supabase.rpc('get_inventory_reconciliation', { p_as_of_date: asOfDate, p_method: method }),
+      ]);
+      if (valuationResult.error) throw valuationResult.error;
+      if (reconciliationResult.error) throw reconciliationResult.error;
+      setRows((valuationResult.data || []) as ValuationRow[]);
+      setReconciliation((reconciliationResult.data || []) as ReconciliationLine[]);
+    } catch (error: unknown) {
+      console.error('Error loading inventory valuation:', error);
+      setError((error as { message?: string })?.message || 'Failed to load inventory valuation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const products: ProductValuation[] = Array.from(
+    rows.reduce((map, row) => {
+      const product = map.get(row.product_id) || {
+        product_id: row.product_id,
+        product_code: row.product_code,
+        product_name: row.product_name,
+        unit: row.unit,
+        quantity: 0,
+        value: 0,
+        batches: [],
+      };
+      product.quantity += Number(row.quantity);
+      product.value += Number(row.value);
+      product.batches.push(row);
+      return map.set(row.product_id, product);
+    }, new Map<string, ProductValuation>()).values()
+  );
+
+  const lineAmount = (type: ReconciliationLine['line_type']) =>
+    reconciliation.filter(line => line.line_type === type).reduce((sum, line) => sum + Number(line.amount), 0);
+
+  const valuationTotal = lineAmount('valuation');
+  const glBalance = lineAmount('gl_balance');
+  const difference = valuationTotal - glBalance;
+
+  const toggle = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, key: string) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const exportToExcel = () => {
+    if (!method) return;
+    const wb = XLSX.utils.book_new();
+
+    const valuationSheet = XLSX.utils.json_to_sheet(rows.map(row => ({
+      'Product Code': row.product_code,
+      'Product': row.product_name,
+      'Batch': row.batch_number,
+      'Received': row.import_date,
+      'Expiry': row.expiry_date,
+      'Quantity': Number(row.quantity),
+      'Unit': row.unit,
+      'Batch Landed Cost': Number(row.batch_unit_cost),
+      [`${METHOD_LABELS[method]} Unit Cost`]: Number(row.unit_cost),
+      'Value': Number(row.value),
+    })));
+    XLSX.utils.book_append_sheet(wb, valuationSheet, 'Valuation');
+
+    const reconciliationSheet = XLSX.utils.json_to_sheet(reconciliation.map(line => ({
+      'Type': line.line_type,
+      'Description': line.description,
+      'Reference': line.reference_number,
+      'Date': line.reference_date,
+      'Amount': Number(line.amount),
+    })));
+    XLSX.utils.book_append_sheet(wb, reconciliationSheet, 'GL Reconciliation');
+
+    XLSX.writeFile(wb, `Inventory_Valuation_${asOfDate}_${method}.xlsx`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-sm border p-4 flex flex-wrap items-end justify-between gap-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Valuation as of</label>
+            <input
+              type="date"
+              value={asOfDate}
+              onChange={(e) => setAsOfDate(e.target.value)}
+              className="px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Costing method</label>
+            <select
+              value={method || ''}
+              onChange={(e) => setMethod(e.target.value as CostingMethod)}
+              className="px-3 py-2 text-sm border rounded-lg"
+            >
+              {(Object.keys(METHOD_LABELS) as CostingMethod[]).map(key => (
+                <option key={key} value={key}>{METHOD_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500 max-w-sm">
+            Batches are costed at their landed cost from import costing. The default method is set in Settings.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={loadValuation}
+            disabled={loading}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          <button
+            onClick={exportToExcel}
+            disabled={loading || rows.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export Excel
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <div className="text-xs text-gray-500">Stock valuation ({method ? METHOD_LABELS[method] : '-'})</div>
+          <div className="text-lg font-bold text-gray-900">{formatCurrency(valuationTotal)}</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <div className="text-xs text-gray-500">Inventory per ledger</div>
+          <div className="text-lg font-bold text-gray-900">{formatCurrency(glBalance)}</div>
+        </div>
+        <div className={`rounded-lg shadow-sm border p-4 ${Math.abs(difference) < 0.01 ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}>
+          <div className="text-xs text-gray-500">Difference to explain</div>
+          <div className={`text-lg font-bold ${Math.abs(difference) < 0.01 ? 'text-green-700' : 'text-amber-700'}`}>
+            {formatCurrency(difference)}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="px-4 py-3 border-b">
+          <h3 className="text-sm font-semibold text-gray-900">Reconciliation to the General Ledger</h3>
+          <p className="text-xs text-gray-500">Valuation = ledger balance + reconciling items</p>
+        </div>
+        <table className="w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            <tr>
+              <td className="px-4 py-2 text-gray-700">Inventory accounts per ledger</td>
+              <td className="px-4 py-2 text-right font-medium">{formatCurrency(glBalance)}</td>
+            </tr>
+            {ITEM_GROUPS.map(group => {
+              const lines = reconciliation.filter(line => line.line_type === group.type);
+              const total = lines.reduce((sum, line) => sum + Number(line.amount), 0);
+              if (lines.length === 0 || (group.type === 'unexplained' && Math.abs(total) < 0.01)) return null;
+              const expandable = lines.some(line => line.reference_number);
+              const isExpanded = expandedGroups.has(group.type);
+              return (
+                <Fragment key={group.type}>
+                  <tr
+                    onClick={() => expandable && toggle(setExpandedGroups, group.type)}
+                    className={expandable ? 'cursor-pointer hover:bg-gray-50' : ''}
+                  >
+                    <td className="px-4 py-2 text-gray-700">
+                      <span className="inline-flex items-center gap-1">
+                        {expandable && (isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                        {group.label}
+                        {expandable && <span className="text-xs text-gray-400">({lines.length})</span>}
+                      </span>
+                    </td>
+                    <td className={`px-4 py-2 text-right ${group.type === 'unexplained' ? 'text-red-600 font-medium' : ''}`}>
+                      {formatCurrency(total)}
+                    </td>
+                  </tr>
+                  {isExpanded && lines.map((line, idx) => (
+                    <tr key={`${group.type}-${idx}`} className="bg-gray-50 text-xs">
+                      <td className="pl-10 pr-4 py-1 text-gray-600">
+                        <span className="font-mono mr-2">{line.reference_number}</span>
+                        {line.reference_date && <span className="mr-2">{formatDate(line.reference_date)}</span>}
+                        {line.description}
+                      </td>
+                      <td className="px-4 py-1 text-right text-gray-600">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              );
+            })}
+            <tr className="bg-gray-50 font-semibold">
+              <td className="px-4 py-2">Stock valuation</td>
+              <td className="px-4 py-2 text-right">{formatCurrency(valuationTotal)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Batch Landed Cost</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">{method ? METHOD_LABELS[method] : ''} Unit Cost</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-500">Loading...</td></tr>
+            ) : products.length === 0 ? (
+              <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-500">No stock on hand at this date</td></tr>
+            ) : (
+              products.map(product => (
+                <Fragment key={product.product_id}>
+                  <tr
+                    onClick={() => toggle(setExpandedProducts, product.product_id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="px-4 py-2">
+                      <span className="inline-flex items-center gap-1">
+                        {expandedProducts.has(product.product_id) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        <span className="font-medium text-gray-900">{product.product_name}</span>
+                        {product.product_code && <span className="text-xs text-gray-400">({product.product_code})</span>}
+                        <span className="text-xs text-gray-400">· {product.batches.length} batch{product.batches.length === 1 ? '' : 'es'}</span>
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatNumber(product.quantity, 3)} {product.unit}</td>
+                    <td className="px-4 py-2 text-right text-gray-400">-</td>
+                    <td className="px-4 py-2 text-right">
+                      {product.quantity !== 0 ? formatCurrency(product.value / product.quantity) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right font-medium">{formatCurrency(product.value)}</td>
+                  </tr>
+                  {expandedProducts.has(product.product_id) && product.batches.map(batch => (
+                    <tr key={batch.batch_id} className="bg-gray-50 text-xs">
+                      <td className="pl-10 pr-4 py-1 text-gray-600">
+                        <span className="font-mono">{batch.batch_number}</span>
+                        <span className="ml-2">received {formatDate(batch.import_date)}</span>
+                        {batch.expiry_date && <span className="ml-2">exp {formatDate(batch.expiry_date)}</span>}
+                      </td>
+                      <td className="px-4 py-1 text-right">{formatNumber(batch.quantity, 3)}</td>
+                      <td className="px-4 py-1 text-right">{formatCurrency(batch.batch_unit_cost)}</td>
+                      <td className="px-4 py-1 text-right">{formatCurrency(batch.unit_cost)}</td>
+                      <td className="px-4 py-1 text-right">{formatCurrency(batch.value)}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
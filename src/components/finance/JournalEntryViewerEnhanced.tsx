@@ -1,10 +1,11 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
 import { useFinance } from '../../contexts/FinanceContext';
-import { Search, FileText, Edit, Trash2 } from 'lucide-react';
+import { Search, FileText, Edit, Trash2, Lock } from 'lucide-react';
 import { Modal } from '../Modal';
 import { showToast } from '../ToastNotification';
 import { showConfirm } from '../ConfirmDialog';
+import { AuditHistory } from '../AuditHistory';
 
 interface JournalEntry {
   id: string;
@@ -63,10 +64,11 @@ const sourceModuleLabels: Record<string, string> = {
   petty_cash: 'Petty Cash',
   fund_transfer: 'Fund Transfer',
   manual: 'Manual Entry',
+  year_end_close: 'Year-end Close',
 };
 
 export function JournalEntryViewerEnhanced({ canManage, onEditEntry }: JournalEntryViewerEnhancedProps) {
-  const { dateRange } = useFinance();
+  const { dateRange, isDateLocked } = useFinance();
   const [voucherEntries, setVoucherEntries] = useState<VoucherJournalEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -230,6 +232,7 @@ export function JournalEntryViewerEnhanced({ canManage, onEditEntry }: JournalEn
           <option value="petty_cash">Petty Cash</option>
           <option value="fund_transfers">Fund Transfers</option>
           <option value="manual">Manual</option>
+          <option value="year_end_close">Year-end Close</option>
         </select>
       </div>
 
@@ -290,7 +293,12 @@ export function JournalEntryViewerEnhanced({ canManage, onEditEntry }: JournalEn
                       >
                         <FileText className="w-4 h-4" />
                       </button>
-                      {canManage && voucher.source_module === 'manual' && (
+                      {canManage && voucher.source_module === 'manual' && isDateLocked(voucher.date) && (
+                        <span className="text-gray-300" title="Period closed">
+                          <Lock className="w-4 h-4" />
+                        </span>
+                      )}
+                      {canManage && voucher.source_module === 'manual' && !isDateLocked(voucher.date) && (
                         <>
                           <button
                             onClick={() => onEditEntry?.(voucher.journal_entry_id)}
@@ -410,6 +418,8 @@ export function JournalEntryViewerEnhanced({ canManage, onEditEntry }: JournalEn
                 Warning: Debit and Credit totals do not match!
               </div>
             )}
+
+            <AuditHistory documentTable="journal_entries" documentId={selectedEntry.id} />
           </div>
         )}
       </Modal>
@@ -24,9 +24,34 @@ interface LedgerEntry {
   debit: number;
   credit: number;
   running_balance: number;
-  type: 'invoice' | 'payment' | 'receipt' | 'opening';
+  type: 'invoice' | 'payment' | 'receipt' | 'opening' | 'fx';
+  // Debit / credit are IDR; foreign-currency documents keep their own amount for display
+  currency: string;
+  foreign_amount: number;
 }
 
+interface CurrencyBalance {
+  currency: string;
+  invoice_count: number;
+  foreign_balance: number;
+  idr_balance: number;
+  realised_fx: number;
+}
+
+interface FxAllocation {
+  id: string;
+  fx_gain_loss: number;
+  settlement_rate: number;
+  receipt_voucher_id?: string;
+  payment_voucher_id?: string;
+  sales_invoices?: { invoice_number: string } | null;
+  purchase_invoices?: { invoice_number: string } | null;
+}
+
+// IDR value of a document at its own rate
+const toIdr = (amount: number, currency: string | null, rate: number | null) =>
+  !currency || currency === 'IDR' ? Number(amount) : Math.round(Number(amount) * Number(rate || 1) * 100) / 100;
+
 export default function PartyLedger() {
   const { dateRange: globalDateRange } = useFinance();
   const printRef = useRef<HTMLDivElement>(null);
@@ -37,6 +62,7 @@ export default function PartyLedger() {
   const [loading, setLoading] = useState(false);
   const [openingBalance, setOpeningBalance] = useState(0);
   const [sendingEmail, setSendingEmail] = useState(false);
+  const [currencyBalances, setCurrencyBalances] = useState<CurrencyBalance[]>([]);
 
   useEffect(() => {
     loadParties();
@@ -48,6 +74,7 @@ export default function PartyLedger() {
     } else {
       setLedgerEntries([]);
       setOpeningBalance(0);
+      setCurrencyBalances([]);
     }
   }, [selectedParty, globalDateRange.startDate, globalDateRange.endDate]);
 
@@ -80,7 +107,7 @@ export default function PartyLedger() {
       if (partyType === 'customer') {
         const { data: invoices } = await supabase
           .from('sales_invoices')
-          .select('id, invoice_date, invoice_number, total_amount, payment_status')
+          .select('id, invoice_date, invoice_number, total_amount, payment_status, currency, exchange_rate')
           .eq('customer_id', selectedParty)
           .gte('invoice_date', globalDateRange.startDate)
           .lte('invoice_date', globalDateRange.endDate)
@@ -93,17 +120,19 @@ export default function PartyLedger() {
               entry_date: inv.invoice_date,
               particulars: `Sales Invoice - ${inv.payment_status || 'Unpaid'}`,
               reference: inv.invoice_number,
-              debit: inv.total_amount,
+              debit: toIdr(inv.total_amount, inv.currency, inv.exchange_rate),
               credit: 0,
               running_balance: 0,
               type: 'invoice',
+              currency: inv.currency || 'IDR',
+              foreign_amount: inv.total_amount,
             });
           });
         }
 
         const { data: receipts } = await supabase
           .from('receipt_vouchers')
-          .select('id, voucher_date, voucher_number, amount, description')
+          .select('id, voucher_date, voucher_number, amount, description, currency, exchange_rate')
           .eq('customer_id', selectedParty)
           .gte('voucher_date', globalDateRange.startDate)
           .lte('voucher_date', globalDateRange.endDate)
@@ -117,11 +146,15 @@ export default function PartyLedger() {
               particulars: rec.description || 'Receipt',
               reference: rec.voucher_number,
               debit: 0,
-              credit: rec.amount,
+              credit: toIdr(rec.amount, rec.currency, rec.exchange_rate),
               running_balance: 0,
               type: 'receipt',
+              currency: rec.currency || 'IDR',
+              foreign_amount: rec.amount,
             });
           });
+
+          entries.push(...await loadFxEntries('receipt_voucher_id', receipts));
         }
 
         const { data: creditNotes } = await supabase
@@ -144,13 +177,15 @@ export default function PartyLedger() {
               credit: cn.total_amount,
               running_balance: 0,
               type: 'receipt',
+              currency: 'IDR',
+              foreign_amount: cn.total_amount,
             });
           });
         }
       } else {
         const { data: invoices } = await supabase
           .from('purchase_invoices')
-          .select('id, invoice_date, invoice_number, total_amount, payment_status')
+          .select('id, invoice_date, invoice_number, total_amount, payment_status, currency, exchange_rate')
           .eq('supplier_id', selectedParty)
           .gte('invoice_date', globalDateRange.startDate)
           .lte('invoice_date', globalDateRange.endDate)
@@ -164,16 +199,18 @@ export default function PartyLedger() {
               particulars: `Purchase Invoice - ${inv.payment_status || 'Unpaid'}`,
               reference: inv.invoice_number,
               debit: 0,
-              credit: inv.total_amount,
+              credit: toIdr(inv.total_amount, inv.currency, inv.exchange_rate),
               running_balance: 0,
               type: 'invoice',
+              currency: inv.currency || 'IDR',
+              foreign_amount: inv.total_amount,
             });
           });
         }
 
         const { data: payments } = await supabase
           .from('payment_vouchers')
-          .select('id, voucher_date, voucher_number, amount, description')
+          .select('id, voucher_date, voucher_number, amount, description, currency, exchange_rate')
           .eq('supplier_id', selectedParty)
           .gte('voucher_date', globalDateRange.startDate)
           .lte('voucher_date', globalDateRange.endDate)
@@ -186,15 +223,26 @@ export default function PartyLedger() {
               entry_date: pay.voucher_date,
               particulars: pay.description || 'Payment',
               reference: pay.voucher_number,
-              debit: pay.amount,
+              debit: toIdr(pay.amount, pay.currency, pay.exchange_rate),
               credit: 0,
               running_balance: 0,
               type: 'payment',
+              currency: pay.currency || 'IDR',
+              foreign_amount: pay.amount,
             });
           });
+
+          entries.push(...await loadFxEntries('payment_voucher_id', payments));
         }
       }
 
+      const { data: balances } = await supabase.rpc('get_party_currency_balances', {
+        p_party_type: partyType,
+        p_party_id: selectedParty,
+      });
+      setCurrencyBalances(balances || []);
+
+      // Stable sort keeps each realised FX line right after its voucher
       entries.sort((a, b) => new Date(a.entry_date).getTime() - new Date(b.entry_date).getTime());
 
       let runningBalance = openingBalance;
@@ -212,6 +260,38 @@ export default function PartyLedger() {
     }
   };
 
+  // Realised FX posted on settlement of foreign-currency invoices. A gain raises A/R or
+  // lowers A/P (debit), a loss does the opposite (credit)
+  const loadFxEntries = async (
+    voucherColumn: 'receipt_voucher_id' | 'payment_voucher_id',
+    vouchers: { id: string; voucher_date: string; voucher_number: string }[]
+  ): Promise<LedgerEntry[]> => {
+    if (vouchers.length === 0) return [];
+    const { data } = await supabase
+      .from('voucher_allocations')
+      .select('id, fx_gain_loss, settlement_rate, receipt_voucher_id, payment_voucher_id, sales_invoices(invoice_number), purchase_invoices(invoice_number)')
+      .in(voucherColumn, vouchers.map(v => v.id))
+      .neq('fx_gain_loss', 0);
+
+    return ((data || []) as unknown as FxAllocation[]).map(alloc => {
+      const voucher = vouchers.find(v => v.id === (alloc.receipt_voucher_id || alloc.payment_voucher_id));
+      const fx = Number(alloc.fx_gain_loss);
+      const invoiceNumber = alloc.sales_invoices?.invoice_number || alloc.purchase_invoices?.invoice_number || '';
+      return {
+        id: `fx-${alloc.id}`,
+        entry_date: voucher?.voucher_date || '',
+        particulars: `Realised FX ${fx > 0 ? 'gain' : 'loss'} on ${invoiceNumber} @ ${Number(alloc.settlement_rate).toLocaleString('id-ID')}`,
+        reference: voucher?.voucher_number || '',
+        debit: fx > 0 ? fx : 0,
+        credit: fx < 0 ? -fx : 0,
+        running_balance: 0,
+        type: 'fx',
+        currency: 'IDR',
+        foreign_amount: 0,
+      };
+    });
+  };
+
   const formatAmount = (amount: number) => {
     if (amount === 0) return '-';
     return `Rp ${amount.toLocaleString('id-ID', {
@@ -230,6 +310,13 @@ export default function PartyLedger() {
   const totalCredit = ledgerEntries.reduce((sum, e) => sum + e.credit, 0);
   const closingBalance = openingBalance + totalDebit - totalCredit;
   const outstanding = Math.abs(closingBalance);
+  const hasForeignCurrency = ledgerEntries.some(e => e.currency !== 'IDR')
+    || currencyBalances.some(b => b.currency !== 'IDR');
+
+  const formatForeign = (entry: LedgerEntry) =>
+    entry.currency === 'IDR'
+      ? '-'
+      : `${entry.currency} ${Number(entry.foreign_amount).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
   const exportToPDF = async () => {
     if (!printRef.current) return;
@@ -396,6 +483,40 @@ export default function PartyLedger() {
             </div>
           </div>
         )}
+
+        {selectedPartyData && hasForeignCurrency && currencyBalances.length > 0 && (
+          <div className="mt-4 border rounded-lg overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">Currency</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-700 uppercase">Open Invoices</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-700 uppercase">Balance (Transaction Currency)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-700 uppercase">Balance (IDR, booked rate)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-700 uppercase">Realised FX to Date</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {currencyBalances.map(b => (
+                  <tr key={b.currency}>
+                    <td className="px-3 py-2 font-medium">{b.currency}</td>
+                    <td className="px-3 py-2 text-right">{b.invoice_count}</td>
+                    <td className="px-3 py-2 text-right">
+                      {b.currency} {Number(b.foreign_balance).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">{formatAmount(Number(b.idr_balance))}</td>
+                    <td className={`px-3 py-2 text-right ${Number(b.realised_fx) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {Number(b.realised_fx) === 0 ? '-' : `${Number(b.realised_fx) < 0 ? '-' : ''}${formatAmount(Math.abs(Number(b.realised_fx)))}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-3 py-2 text-xs text-gray-500 bg-gray-50">
+              Open balances across all dates. Debit, credit and balance columns in the ledger are in IDR; foreign documents at their own rate.
+            </p>
+          </div>
+        )}
       </div>
 
       {selectedParty && (
@@ -415,6 +536,11 @@ export default function PartyLedger() {
                     <th className="px-3 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
                       Ref No
                     </th>
+                    {hasForeignCurrency && (
+                      <th className="px-3 py-3 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">
+                        Amount (FCY)
+                      </th>
+                    )}
                     <th className="px-3 py-3 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">
                       Debit (Dr)
                     </th>
@@ -428,7 +554,7 @@ export default function PartyLedger() {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   <tr className="bg-blue-50 font-semibold">
-                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900" colSpan={3}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900" colSpan={hasForeignCurrency ? 4 : 3}>
                       Opening Balance
                     </td>
                     <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 text-right">-</td>
@@ -440,19 +566,19 @@ export default function PartyLedger() {
 
                   {loading ? (
                     <tr>
-                      <td colSpan={6} className="px-3 py-8 text-center text-gray-500">
+                      <td colSpan={hasForeignCurrency ? 7 : 6} className="px-3 py-8 text-center text-gray-500">
                         Loading entries...
                       </td>
                     </tr>
                   ) : ledgerEntries.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-3 py-8 text-center text-gray-500">
+                      <td colSpan={hasForeignCurrency ? 7 : 6} className="px-3 py-8 text-center text-gray-500">
                         No transactions found for this period
                       </td>
                     </tr>
                   ) : (
                     ledgerEntries.map(entry => (
-                      <tr key={entry.id} className="hover:bg-gray-50">
+                      <tr key={entry.id} className={entry.type === 'fx' ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}>
                         <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
                           {new Date(entry.entry_date).toLocaleDateString('id-ID')}
                         </td>
@@ -462,6 +588,11 @@ export default function PartyLedger() {
                         <td className="px-3 py-2 text-sm text-gray-600 font-mono">
                           {entry.reference}
                         </td>
+                        {hasForeignCurrency && (
+                          <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-600 text-right">
+                            {formatForeign(entry)}
+                          </td>
+                        )}
                         <td className="px-3 py-2 whitespace-nowrap text-sm text-red-600 text-right font-medium">
                           {entry.debit > 0 ? formatAmount(entry.debit) : '-'}
                         </td>
@@ -477,7 +608,7 @@ export default function PartyLedger() {
 
                   {ledgerEntries.length > 0 && (
                     <tr className="bg-gray-100 font-semibold border-t-2 border-gray-300">
-                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900" colSpan={3}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900" colSpan={hasForeignCurrency ? 4 : 3}>
                         Closing Balance
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-sm text-red-600 text-right font-bold">
@@ -580,6 +711,9 @@ export default function PartyLedger() {
                       <th style={{ padding: '8px', textAlign: 'left', fontSize: '10px', fontWeight: '600', borderRight: '1px solid #e5e7eb' }}>Date</th>
                       <th style={{ padding: '8px', textAlign: 'left', fontSize: '10px', fontWeight: '600', borderRight: '1px solid #e5e7eb' }}>Particulars</th>
                       <th style={{ padding: '8px', textAlign: 'left', fontSize: '10px', fontWeight: '600', borderRight: '1px solid #e5e7eb' }}>Ref No</th>
+                      {hasForeignCurrency && (
+                        <th style={{ padding: '8px', textAlign: 'right', fontSize: '10px', fontWeight: '600', borderRight: '1px solid #e5e7eb' }}>Amount (FCY)</th>
+                      )}
                       <th style={{ padding: '8px', textAlign: 'right', fontSize: '10px', fontWeight: '600', borderRight: '1px solid #e5e7eb' }}>Debit (Dr)</th>
                       <th style={{ padding: '8px', textAlign: 'right', fontSize: '10px', fontWeight: '600', borderRight: '1px solid #e5e7eb' }}>Credit (Cr)</th>
                       <th style={{ padding: '8px', textAlign: 'right', fontSize: '10px', fontWeight: '600' }}>Balance</th>
@@ -587,7 +721,7 @@ export default function PartyLedger() {
                   </thead>
                   <tbody>
                     <tr style={{ backgroundColor: '#eff6ff', borderBottom: '1px solid #e5e7eb' }}>
-                      <td colSpan={3} style={{ padding: '6px 8px', fontSize: '11px', fontWeight: '600' }}>Opening Balance</td>
+                      <td colSpan={hasForeignCurrency ? 4 : 3} style={{ padding: '6px 8px', fontSize: '11px', fontWeight: '600' }}>Opening Balance</td>
                       <td style={{ padding: '6px 8px', textAlign: 'right', fontSize: '11px' }}>-</td>
                       <td style={{ padding: '6px 8px', textAlign: 'right', fontSize: '11px' }}>-</td>
                       <td style={{ padding: '6px 8px', textAlign: 'right', fontSize: '11px', fontWeight: 'bold' }}>{formatBalance(openingBalance)}</td>
@@ -597,6 +731,9 @@ export default function PartyLedger() {
                         <td style={{ padding: '6px 8px', fontSize: '10px' }}>{new Date(entry.entry_date).toLocaleDateString('id-ID')}</td>
                         <td style={{ padding: '6px 8px', fontSize: '10px' }}>{entry.particulars}</td>
                         <td style={{ padding: '6px 8px', fontSize: '10px', fontFamily: 'monospace' }}>{entry.reference}</td>
+                        {hasForeignCurrency && (
+                          <td style={{ padding: '6px 8px', textAlign: 'right', fontSize: '10px' }}>{formatForeign(entry)}</td>
+                        )}
                         <td style={{ padding: '6px 8px', textAlign: 'right', fontSize: '10px', color: entry.debit > 0 ? '#dc2626' : '#000' }}>
                           {entry.debit > 0 ? formatAmount(entry.debit) : '-'}
                         </td>
@@ -607,7 +744,7 @@ export default function PartyLedger() {
                       </tr>
                     ))}
                     <tr style={{ backgroundColor: '#f3f4f6', borderTop: '2px solid #000', borderBottom: '2px solid #000' }}>
-                      <td colSpan={3} style={{ padding: '8px', fontSize: '11px', fontWeight: 'bold' }}>Closing Balance</td>
+                      <td colSpan={hasForeignCurrency ? 4 : 3} style={{ padding: '8px', fontSize: '11px', fontWeight: 'bold' }}>Closing Balance</td>
                       <td style={{ padding: '8px', textAlign: 'right', fontSize: '11px', fontWeight: 'bold', color: '#dc2626' }}>{formatAmount(totalDebit)}</td>
                       <td style={{ padding: '8px', textAlign: 'right', fontSize: '11px', fontWeight: 'bold', color: '#16a34a' }}>{formatAmount(totalCredit)}</td>
                       <td style={{ padding: '8px', textAlign: 'right', fontSize: '11px', fontWeight: 'bold' }}>{formatBalance(closingBalance)}</td>
@@ -615,6 +752,18 @@ export default function PartyLedger() {
                   </tbody>
                 </table>
 
+                {hasForeignCurrency && currencyBalances.length > 0 && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <p style={{ fontSize: '11px', fontWeight: 'bold', marginBottom: '5px' }}>Open balance by currency</p>
+                    {currencyBalances.map(b => (
+                      <p key={b.currency} style={{ fontSize: '10px', margin: '2px 0' }}>
+                        {b.currency} {Number(b.foreign_balance).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {b.currency !== 'IDR' && ` (${formatAmount(Number(b.idr_balance))} at booked rates)`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
                 {/* Footer Note */}
                 <div style={{ marginTop: '30px', padding: '12px', backgroundColor: '#f9fafb', borderRadius: '8px' }}>
                   <p style={{ fontSize: '11px', color: '#666', marginBottom: '8px' }}>
@@ -1,10 +1,11 @@
 import { useEffect, useState, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, Search, ArrowUpCircle, Printer } from 'lucide-react';
+import { Plus, Search, ArrowUpCircle, Printer, Lock } from 'lucide-react';
 import { Modal } from '../Modal';
 import { SearchableSelect } from '../SearchableSelect';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { fetchExchangeRate } from '../../utils/exchangeRates';
 
 interface Supplier {
   id: string;
@@ -16,6 +17,7 @@ interface BankAccount {
   account_name: string;
   bank_name: string;
   alias: string | null;
+  currency: string | null;
 }
 
 interface PurchaseInvoice {
@@ -25,6 +27,9 @@ interface PurchaseInvoice {
   total_amount: number;
   paid_amount: number;
   balance_amount: number;
+  match_status: string;
+  currency: string | null;
+  exchange_rate: number | null;
 }
 
 interface TaxCode {
@@ -42,6 +47,8 @@ interface PaymentVoucher {
   payment_method: string;
   bank_account_id: string | null;
   reference_number: string | null;
+  currency: string | null;
+  exchange_rate: number | null;
   amount: number;
   pph_amount: number;
   net_amount: number;
@@ -86,8 +93,11 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
     payment_method: 'bank_transfer',
     bank_account_id: '',
     reference_number: '',
+    currency: 'IDR',
+    exchange_rate: 1,
     amount: 0,
     pph_code_id: '',
+    pph_base_amount: 0,
     pph_amount: 0,
     description: '',
   });
@@ -125,17 +135,20 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
     }
   }, [formData.supplier_id]);
 
+  // PPh is withheld on the service value (DPP); it defaults to the gross amount when no base is entered
+  const pphBaseAmount = formData.pph_base_amount || formData.amount;
+
   useEffect(() => {
-    if (formData.pph_code_id && formData.amount > 0) {
+    if (formData.pph_code_id && pphBaseAmount > 0) {
       const tax = taxCodes.find(t => t.id === formData.pph_code_id);
       if (tax) {
-        const pphAmount = formData.amount * (tax.rate / 100);
+        const pphAmount = pphBaseAmount * (tax.rate / 100);
         setFormData(prev => ({ ...prev, pph_amount: Math.round(pphAmount) }));
       }
     } else {
       setFormData(prev => ({ ...prev, pph_amount: 0 }));
     }
-  }, [formData.pph_code_id, formData.amount, taxCodes]);
+  }, [formData.pph_code_id, pphBaseAmount, taxCodes]);
 
   const loadVouchers = async () => {
     try {
@@ -159,42 +172,67 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
   };
 
   const loadBankAccounts = async () => {
-    const { data } = await supabase.from('bank_accounts').select('id, account_name, bank_name, alias').eq('is_active', true);
+    const { data } = await supabase.from('bank_accounts').select('id, account_name, bank_name, alias, currency').eq('is_active', true);
     setBankAccounts(data || []);
   };
 
   const loadTaxCodes = async () => {
-    const { data } = await supabase.from('tax_codes').select('id, code, name, rate').eq('is_withholding', true);
+    const { data } = await supabase
+      .from('tax_codes')
+      .select('id, code, name, rate')
+      .eq('is_withholding', true)
+      .eq('applies_to_payments', true)
+      .eq('is_active', true)
+      .order('code');
     setTaxCodes(data || []);
   };
 
   const loadPendingInvoices = async (supplierId: string, preSelectInvoiceId?: string, preSelectAmount?: number) => {
     const { data } = await supabase
       .from('purchase_invoices')
-      .select('id, invoice_number, invoice_date, total_amount, paid_amount, balance_amount')
+      .select('id, invoice_number, invoice_date, total_amount, paid_amount, balance_amount, match_status, currency, exchange_rate')
       .eq('supplier_id', supplierId)
       .gt('balance_amount', 0)
       .order('invoice_date');
 
     setPendingInvoices(data || []);
-    if (preSelectInvoiceId && preSelectAmount) {
+    const preSelected = (data || []).find(i => i.id === preSelectInvoiceId);
+    if (preSelectInvoiceId && preSelectAmount && preSelected?.match_status !== 'variance') {
+      // Pay a foreign-currency invoice in its own currency
+      await applyExchangeRate(preSelected?.currency || 'IDR', formData.voucher_date);
       setAllocations([{ invoiceId: preSelectInvoiceId, amount: preSelectAmount }]);
     } else {
       setAllocations([]);
     }
   };
 
-  const generateVoucherNumber = async () => {
-    const year = new Date().getFullYear().toString().slice(-2);
-    const month = (new Date().getMonth() + 1).toString().padStart(2, '0');
-    const { count } = await supabase
-      .from('payment_vouchers')
-      .select('*', { count: 'exact', head: true })
-      .like('voucher_number', `PV${year}${month}%`);
-    
-    return `PV${year}${month}-${String((count || 0) + 1).padStart(4, '0')}`;
+  // Settlement rate on the voucher date from the exchange rate master; left as is when none is on file.
+  // Only invoices in the voucher currency can be allocated, so a currency change clears allocations
+  const applyExchangeRate = async (currency: string, voucherDate: string) => {
+    if (currency !== formData.currency) setAllocations([]);
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, voucherDate);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
+  const handleBankAccountChange = (bankAccountId: string) => {
+    setFormData(prev => ({ ...prev, bank_account_id: bankAccountId }));
+    const account = bankAccounts.find(b => b.id === bankAccountId);
+    if (account?.currency && account.currency !== formData.currency) {
+      applyExchangeRate(account.currency, formData.voucher_date);
+    }
   };
 
+  const currencyInvoices = pendingInvoices.filter(inv => (inv.currency || 'IDR') === formData.currency);
+
+  // Realised difference against the booked invoice rate: paying at a lower rate is a gain
+  const allocationFx = (inv: PurchaseInvoice, amount: number) =>
+    formData.currency === 'IDR' ? 0 : Math.round(amount * ((inv.exchange_rate || 1) - formData.exchange_rate) * 100) / 100;
+
   const handleAllocationChange = (invoiceId: string, amount: number) => {
     setAllocations(prev => {
       const existing = prev.find(a => a.invoiceId === invoiceId);
@@ -213,64 +251,64 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
 
   const totalAllocated = allocations.reduce((sum, a) => sum + a.amount, 0);
   const netAmount = formData.amount - formData.pph_amount;
+  const totalFx = allocations.reduce((sum, a) => {
+    const inv = pendingInvoices.find(i => i.id === a.invoiceId);
+    return inv ? sum + allocationFx(inv, a.amount) : sum;
+  }, 0);
+  const formatAmount = (value: number, currency = formData.currency) =>
+    `${currency === 'IDR' ? 'Rp' : currency} ${value.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const blocked = allocations
+      .map(a => pendingInvoices.find(i => i.id === a.invoiceId))
+      .filter(i => i?.match_status === 'variance');
+    if (blocked.length > 0) {
+      alert(`Cannot pay ${blocked.map(i => i?.invoice_number).join(', ')}: three-way match variance awaiting manager approval.`);
+      return;
+    }
+
+    if (formData.currency !== 'IDR' && formData.exchange_rate <= 1) {
+      alert(`Please enter a valid exchange rate for ${formData.currency}`);
+      return;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const voucherNumber = await generateVoucherNumber();
-
-      const { data: voucher, error } = await supabase
-        .from('payment_vouchers')
-        .insert([{
-          voucher_number: voucherNumber,
+      // Voucher, allocations and invoice paid amounts are saved in one transaction, so an
+      // allocation the database refuses (e.g. a match variance) leaves nothing posted
+      const { error } = await supabase.rpc('create_payment_voucher_atomic', {
+        p_voucher: {
           voucher_date: formData.voucher_date,
           supplier_id: formData.supplier_id,
           payment_method: formData.payment_method,
           bank_account_id: formData.bank_account_id || null,
           reference_number: formData.reference_number || null,
+          currency: formData.currency,
+          exchange_rate: formData.currency === 'IDR' ? 1 : formData.exchange_rate,
           amount: formData.amount,
           pph_amount: formData.pph_amount,
           pph_code_id: formData.pph_code_id || null,
+          pph_base_amount: formData.pph_code_id ? pphBaseAmount : null,
           description: formData.description || null,
-          created_by: user.id,
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      for (const alloc of allocations) {
-        await supabase.from('voucher_allocations').insert({
-          voucher_type: 'payment',
-          payment_voucher_id: voucher.id,
+        },
+        p_allocations: allocations.map(alloc => ({
           purchase_invoice_id: alloc.invoiceId,
           allocated_amount: alloc.amount,
-        });
-
-        const invoice = pendingInvoices.find(i => i.id === alloc.invoiceId);
-        if (invoice) {
-          const newPaidAmount = (invoice.paid_amount || 0) + alloc.amount;
-          const newBalance = invoice.total_amount - newPaidAmount;
-          await supabase
-            .from('purchase_invoices')
-            .update({
-              paid_amount: newPaidAmount,
-              status: newBalance <= 0 ? 'paid' : 'partial',
-            })
-            .eq('id', alloc.invoiceId);
-        }
-      }
+        })),
+      });
+
+      if (error) throw error;
 
       setModalOpen(false);
       resetForm();
       loadVouchers();
     } catch (error: unknown) {
       console.error('Error saving voucher:', error);
-      alert('Failed to save: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      alert('Failed to save: ' + ((error as { message?: string })?.message || 'Unknown error'));
     }
   };
 
@@ -281,8 +319,11 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
       payment_method: 'bank_transfer',
       bank_account_id: '',
       reference_number: '',
+      currency: 'IDR',
+      exchange_rate: 1,
       amount: 0,
       pph_code_id: '',
+      pph_base_amount: 0,
       pph_amount: 0,
       description: '',
     });
@@ -348,12 +389,12 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
                     {voucher.payment_method.replace('_', ' ')}
                   </span>
                 </td>
-                <td className="px-4 py-3 text-right">Rp {voucher.amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                <td className="px-4 py-3 text-right">{formatAmount(voucher.amount, voucher.currency || 'IDR')}</td>
                 <td className="px-4 py-3 text-right text-orange-600">
-                  {voucher.pph_amount > 0 ? `Rp ${voucher.pph_amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '-'}
+                  {voucher.pph_amount > 0 ? formatAmount(voucher.pph_amount, voucher.currency || 'IDR') : '-'}
                 </td>
                 <td className="px-4 py-3 text-right font-medium text-red-600">
-                  Rp {voucher.net_amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {formatAmount(voucher.net_amount, voucher.currency || 'IDR')}
                 </td>
               </tr>
             ))}
@@ -377,7 +418,10 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
                 type="date"
                 required
                 value={formData.voucher_date}
-                onChange={(e) => setFormData({ ...formData, voucher_date: e.target.value })}
+                onChange={(e) => {
+                  setFormData({ ...formData, voucher_date: e.target.value });
+                  if (formData.currency !== 'IDR') applyExchangeRate(formData.currency, e.target.value);
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg"
               />
             </div>
@@ -409,7 +453,7 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
               </select>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Gross Amount (Rp) *</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Gross Amount ({formData.currency === 'IDR' ? 'Rp' : formData.currency}) *</label>
               <input
                 type="number"
                 required
@@ -420,13 +464,41 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={formData.currency}
+                onChange={(e) => applyExchangeRate(e.target.value, formData.voucher_date)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="IDR">IDR</option>
+                <option value="USD">USD</option>
+              </select>
+            </div>
+            {formData.currency !== 'IDR' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Exchange Rate * (1 {formData.currency} = ? IDR)</label>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  step="0.01"
+                  value={formData.exchange_rate}
+                  onChange={(e) => setFormData({ ...formData, exchange_rate: parseFloat(e.target.value) || 1 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            )}
+          </div>
+
           {formData.payment_method !== 'cash' && (
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Bank Account</label>
                 <select
                   value={formData.bank_account_id}
-                  onChange={(e) => setFormData({ ...formData, bank_account_id: e.target.value })}
+                  onChange={(e) => handleBankAccountChange(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg"
                 >
                   <option value="">Select account</option>
@@ -449,7 +521,7 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
 
           <div className="border-t pt-4">
             <h4 className="font-medium text-gray-700 mb-3">PPh Withholding (Potong Pajak)</h4>
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">PPh Type</label>
                 <select
@@ -463,6 +535,17 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
                   ))}
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">PPh Base (DPP)</label>
+                <input
+                  type="number"
+                  value={formData.pph_base_amount || ''}
+                  onChange={(e) => setFormData({ ...formData, pph_base_amount: parseFloat(e.target.value) || 0 })}
+                  placeholder={formData.amount ? String(formData.amount) : 'Gross amount'}
+                  disabled={!formData.pph_code_id}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">PPh Amount</label>
                 <input
@@ -476,16 +559,22 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
             <div className="mt-2 p-3 bg-gray-50 rounded-lg">
               <div className="flex justify-between text-sm">
                 <span>Gross Amount:</span>
-                <span>Rp {formData.amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span>{formatAmount(formData.amount)}</span>
               </div>
               <div className="flex justify-between text-sm text-orange-600">
                 <span>Less: PPh Withholding:</span>
-                <span>-Rp {formData.pph_amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span>-{formatAmount(formData.pph_amount)}</span>
               </div>
               <div className="flex justify-between font-medium text-lg border-t mt-2 pt-2">
                 <span>Net Payment:</span>
-                <span className="text-red-600">Rp {netAmount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span className="text-red-600">{formatAmount(netAmount)}</span>
               </div>
+              {formData.currency !== 'IDR' && (
+                <div className="flex justify-between text-sm text-gray-500">
+                  <span>IDR equivalent @ {formData.exchange_rate.toLocaleString('id-ID')}:</span>
+                  <span>{formatAmount(netAmount * formData.exchange_rate, 'IDR')}</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -499,7 +588,7 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
             />
           </div>
 
-          {pendingInvoices.length > 0 && (
+          {currencyInvoices.length > 0 && (
             <div className="border-t pt-4">
               <h4 className="font-medium text-gray-700 mb-3">Allocate to Purchase Invoices</h4>
               <div className="max-h-48 overflow-y-auto border rounded-lg">
@@ -508,35 +597,61 @@ export function PaymentVoucherManager({ canManage, prefillInvoice, onPrefillCons
                     <tr>
                       <th className="px-3 py-2 text-left">Invoice</th>
                       <th className="px-3 py-2 text-right">Balance</th>
+                      {formData.currency !== 'IDR' && <th className="px-3 py-2 text-right">Booked Rate</th>}
                       <th className="px-3 py-2 text-right">Allocate</th>
+                      {formData.currency !== 'IDR' && <th className="px-3 py-2 text-right">FX Gain/Loss</th>}
                     </tr>
                   </thead>
                   <tbody className="divide-y">
-                    {pendingInvoices.map(inv => (
-                      <tr key={inv.id}>
-                        <td className="px-3 py-2">
-                          <div className="font-mono">{inv.invoice_number}</div>
-                          <div className="text-gray-500 text-xs">{new Date(inv.invoice_date).toLocaleDateString('id-ID')}</div>
-                        </td>
-                        <td className="px-3 py-2 text-right text-red-600">
-                          Rp {inv.balance_amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </td>
-                        <td className="px-3 py-2">
-                          <input
-                            type="number"
-                            min={0}
-                            max={inv.balance_amount}
-                            value={allocations.find(a => a.invoiceId === inv.id)?.amount || ''}
-                            onChange={(e) => handleAllocationChange(inv.id, parseFloat(e.target.value) || 0)}
-                            className="w-24 px-2 py-1 border rounded text-right"
-                            placeholder="0"
-                          />
-                        </td>
-                      </tr>
-                    ))}
+                    {currencyInvoices.map(inv => {
+                      const allocated = allocations.find(a => a.invoiceId === inv.id)?.amount || 0;
+                      const fx = allocationFx(inv, allocated);
+                      return (
+                        <tr key={inv.id} className={inv.match_status === 'variance' ? 'bg-orange-50' : ''}>
+                          <td className="px-3 py-2">
+                            <div className="font-mono">{inv.invoice_number}</div>
+                            <div className="text-gray-500 text-xs">{new Date(inv.invoice_date).toLocaleDateString('id-ID')}</div>
+                            {inv.match_status === 'variance' && (
+                              <div className="flex items-center gap-1 text-orange-700 text-xs">
+                                <Lock className="w-3 h-3" />
+                                Match variance - awaiting approval
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right text-red-600">
+                            {formatAmount(inv.balance_amount)}
+                          </td>
+                          {formData.currency !== 'IDR' && (
+                            <td className="px-3 py-2 text-right text-gray-600">{(inv.exchange_rate || 1).toLocaleString('id-ID')}</td>
+                          )}
+                          <td className="px-3 py-2">
+                            <input
+                              type="number"
+                              min={0}
+                              max={inv.balance_amount}
+                              value={allocated || ''}
+                              onChange={(e) => handleAllocationChange(inv.id, parseFloat(e.target.value) || 0)}
+                              disabled={inv.match_status === 'variance'}
+                              className="w-24 px-2 py-1 border rounded text-right disabled:bg-gray-100"
+                              placeholder="0"
+                            />
+                          </td>
+                          {formData.currency !== 'IDR' && (
+                            <td className={`px-3 py-2 text-right ${fx < 0 ? 'text-red-600' : fx > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                              {fx !== 0 ? formatAmount(fx, 'IDR') : '-'}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
+              {formData.currency !== 'IDR' && totalFx !== 0 && (
+                <p className={`mt-2 text-sm ${totalFx < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  Realised FX {totalFx < 0 ? 'loss' : 'gain'} of {formatAmount(Math.abs(totalFx), 'IDR')} will be posted against the booked invoice rates
+                </p>
+              )}
             </div>
           )}
 
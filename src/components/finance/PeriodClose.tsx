@@ -0,0 +1,548 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useFinance } from '../../contexts/FinanceContext';
+import { Lock, Unlock, ShieldAlert, CalendarCheck, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Modal } from '../Modal';
+import { showToast } from '../ToastNotification';
+import { showConfirm } from '../ConfirmDialog';
+import { formatDate, formatDateTime } from '../../utils/dateFormat';
+
+interface AccountingPeriod {
+  id: string;
+  fiscal_year: number;
+  period_month: number;
+  start_date: string;
+  end_date: string;
+  status: 'open' | 'closed' | 'locked';
+  closed_at: string | null;
+}
+
+interface YearClosing {
+  fiscal_year: number;
+  start_date: string;
+  end_date: string;
+  closing_entry_id: string | null;
+  net_income: number;
+  closed_at: string;
+  journal_entries: { entry_number: string } | null;
+}
+
+interface OpeningBalance {
+  account_id: string;
+  debit: number;
+  credit: number;
+  chart_of_accounts: { code: string; name: string } | null;
+}
+
+interface PeriodLogEntry {
+  id: string;
+  action: string;
+  fiscal_year: number | null;
+  period_month: number | null;
+  lock_date: string | null;
+  reason: string | null;
+  table_name: string | null;
+  created_at: string;
+  user_profiles: { full_name: string } | null;
+}
+
+interface PeriodCloseProps {
+  canManage: boolean;
+}
+
+type ReasonAction =
+  | { type: 'reopen_period'; period: AccountingPeriod }
+  | { type: 'reopen_year' }
+  | { type: 'override' };
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const ACTION_LABELS: Record<string, string> = {
+  close_period: 'Period closed',
+  reopen_period: 'Period reopened',
+  close_year: 'Year closed',
+  reopen_year: 'Year reopened',
+  override_granted: 'Override granted',
+  override_revoked: 'Override revoked',
+  override_change: 'Change under override',
+};
+
+const formatAmount = (amount: number) => `Rp ${amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function PeriodClose({ canManage }: PeriodCloseProps) {
+  const { profile } = useAuth();
+  const { periodLock, refreshPeriodLock, triggerRefresh } = useFinance();
+  const isAdmin = profile?.role === 'admin';
+
+  const [fiscalYear, setFiscalYear] = useState<number | null>(null);
+  const [periods, setPeriods] = useState<AccountingPeriod[]>([]);
+  const [closing, setClosing] = useState<YearClosing | null>(null);
+  const [openingBalances, setOpeningBalances] = useState<OpeningBalance[]>([]);
+  const [log, setLog] = useState<PeriodLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [reasonAction, setReasonAction] = useState<ReasonAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [overrideMinutes, setOverrideMinutes] = useState(30);
+
+  useEffect(() => {
+    loadCurrentFiscalYear();
+  }, []);
+
+  useEffect(() => {
+    if (fiscalYear !== null) loadYear();
+  }, [fiscalYear]);
+
+  const loadCurrentFiscalYear = async () => {
+    const { data } = await supabase.from('app_settings').select('financial_year_start').limit(1).maybeSingle();
+    const startMonth = data?.financial_year_start ? new Date(data.financial_year_start).getMonth() : 0;
+    const today = new Date();
+    setFiscalYear(today.getMonth() >= startMonth ? today.getFullYear() : today.getFullYear() - 1);
+  };
+
+  const loadYear = async () => {
+    if (fiscalYear === null) return;
+    setLoading(true);
+    try {
+      if (canManage) {
+        const { error: ensureError } = await supabase.rpc('ensure_accounting_periods', { p_fiscal_year: fiscalYear });
+        if (ensureError) throw ensureError;
+      }
+
+      const [periodsRes, closingRes, openingRes, logRes] = await Promise.all([
+        supabase
+          .from('accounting_periods')
+          .select('id, fiscal_year, period_month, start_date, end_date, status, closed_at')
+          .eq('fiscal_year', fiscalYear)
+          .order('start_date'),
+        supabase
+          .from('financial_year_closings')
+          .select('fiscal_year, start_date, end_date, closing_entry_id, net_income, closed_at, journal_entries(entry_number)')
+          .eq('fiscal_year', fiscalYear)
+          .maybeSingle(),
+        supabase
+          .from('financial_year_opening_balances')
+          .select('account_id, debit, credit, chart_of_accounts(code, name)')
+          .eq('fiscal_year', fiscalYear + 1),
+        supabase
+          .from('accounting_period_log')
+          .select('id, action, fiscal_year, period_month, lock_date, reason, table_name, created_at, user_profiles:performed_by(full_name)')
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (periodsRes.error) throw periodsRes.error;
+      if (closingRes.error) throw closingRes.error;
+      if (openingRes.error) throw openingRes.error;
+      if (logRes.error) throw logRes.error;
+
+      setPeriods(periodsRes.data || []);
+      setClosing(closingRes.data as unknown as YearClosing | null);
+      setOpeningBalances(
+        ((openingRes.data || []) as unknown as OpeningBalance[]).sort((a, b) =>
+          (a.chart_of_accounts?.code || '').localeCompare(b.chart_of_accounts?.code || '')
+        )
+      );
+      setLog((logRes.data || []) as unknown as PeriodLogEntry[]);
+    } catch (error) {
+      console.error('Error loading accounting periods:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to load accounting periods',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const afterChange = async () => {
+    await refreshPeriodLock();
+    triggerRefresh();
+    await loadYear();
+  };
+
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>, success: string) => {
+    setBusy(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Done', message: success });
+      await afterChange();
+      return true;
+    } catch (error) {
+      console.error('Period close action failed:', error);
+      showToast({
+        type: 'error',
+        title: 'Failed',
+        message: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Action failed',
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const closePeriod = async (period: AccountingPeriod) => {
+    const label = `${MONTHS[period.period_month - 1]} ${new Date(period.start_date).getFullYear()}`;
+    const confirmed = await showConfirm({
+      title: 'Close Period',
+      message: `Close ${label}? Journals and posting documents dated on or before ${formatDate(period.end_date)} will be locked, including any earlier periods still open.`,
+      confirmLabel: 'Close Period',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    await runAction(
+      () => supabase.rpc('close_accounting_period', { p_fiscal_year: period.fiscal_year, p_period_month: period.period_month }),
+      `${label} closed`
+    );
+  };
+
+  const closeYear = async () => {
+    if (fiscalYear === null) return;
+    const confirmed = await showConfirm({
+      title: `Close Financial Year ${fiscalYear}`,
+      message: 'This posts a closing entry that moves the year\'s profit or loss into Retained Earnings (3200), locks every period of the year and records the opening balances for the next year.',
+      confirmLabel: 'Close Year',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    await runAction(
+      () => supabase.rpc('close_financial_year', { p_fiscal_year: fiscalYear }),
+      `Financial year ${fiscalYear} closed`
+    );
+  };
+
+  const revokeOverride = async () => {
+    await runAction(() => supabase.rpc('revoke_period_lock_override'), 'Override ended');
+  };
+
+  const submitReason = async () => {
+    if (!reasonAction || fiscalYear === null) return;
+    if (!reason.trim()) {
+      showToast({ type: 'warning', title: 'Reason required', message: 'Please give a reason' });
+      return;
+    }
+
+    let ok = false;
+    if (reasonAction.type === 'reopen_period') {
+      const { period } = reasonAction;
+      ok = await runAction(
+        () => supabase.rpc('reopen_accounting_period', {
+          p_fiscal_year: period.fiscal_year,
+          p_period_month: period.period_month,
+          p_reason: reason.trim(),
+        }),
+        `${MONTHS[period.period_month - 1]} reopened`
+      );
+    } else if (reasonAction.type === 'reopen_year') {
+      ok = await runAction(
+        () => supabase.rpc('reopen_financial_year', { p_fiscal_year: fiscalYear, p_reason: reason.trim() }),
+        `Financial year ${fiscalYear} reopened`
+      );
+    } else {
+      ok = await runAction(
+        () => supabase.rpc('grant_period_lock_override', { p_reason: reason.trim(), p_minutes: overrideMinutes }),
+        `Closed periods can be edited for ${overrideMinutes} minutes`
+      );
+    }
+
+    if (ok) {
+      setReasonAction(null);
+      setReason('');
+    }
+  };
+
+  const overrideActive = !!periodLock.overrideExpiresAt && new Date(periodLock.overrideExpiresAt) > new Date();
+  const openingTotals = openingBalances.reduce(
+    (acc, row) => ({ debit: acc.debit + row.debit, credit: acc.credit + row.credit }),
+    { debit: 0, credit: 0 }
+  );
+
+  const reasonTitle = reasonAction?.type === 'reopen_period'
+    ? `Reopen ${MONTHS[reasonAction.period.period_month - 1]}`
+    : reasonAction?.type === 'reopen_year'
+      ? `Reopen Financial Year ${fiscalYear}`
+      : 'Override Period Lock';
+
+  return (
+    <div className="space-y-4">
+      {/* Lock status */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Lock className="w-5 h-5 text-gray-500" />
+          <div>
+            <div className="text-sm font-semibold text-gray-900">
+              {periodLock.lockDate ? `Books closed up to ${formatDate(periodLock.lockDate)}` : 'No periods closed yet'}
+            </div>
+            <div className="text-xs text-gray-500">
+              Journals, invoices, vouchers, expenses, petty cash and fund transfers dated on or before the lock date cannot be created, changed or deleted.
+            </div>
+          </div>
+        </div>
+        {isAdmin && (
+          overrideActive ? (
+            <div className="flex items-center gap-2">
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                <ShieldAlert className="w-3.5 h-3.5" />
+                Override active until {formatDateTime(periodLock.overrideExpiresAt)}
+              </span>
+              <button
+                onClick={revokeOverride}
+                disabled={busy}
+                className="px-3 py-1.5 text-xs border rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                End Override
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => { setReasonAction({ type: 'override' }); setReason(''); }}
+              disabled={busy || !periodLock.lockDate}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+            >
+              <ShieldAlert className="w-3.5 h-3.5" />
+              Override Lock
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Year selector */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setFiscalYear(y => (y === null ? y : y - 1))}
+            className="p-1.5 border rounded hover:bg-gray-50"
+            title="Previous year"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-base font-semibold text-gray-900 min-w-[140px] text-center">
+            Financial Year {fiscalYear ?? ''}
+          </span>
+          <button
+            onClick={() => setFiscalYear(y => (y === null ? y : y + 1))}
+            className="p-1.5 border rounded hover:bg-gray-50"
+            title="Next year"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        {canManage && !closing && (
+          <button
+            onClick={closeYear}
+            disabled={busy || loading || periods.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            <CalendarCheck className="w-4 h-4" />
+            Close Financial Year
+          </button>
+        )}
+        {isAdmin && closing && (
+          <button
+            onClick={() => { setReasonAction({ type: 'reopen_year' }); setReason(''); }}
+            disabled={busy}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded hover:bg-red-50 disabled:opacity-50"
+          >
+            <Unlock className="w-4 h-4" />
+            Reopen Year
+          </button>
+        )}
+      </div>
+
+      {closing && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+          Closed on {formatDateTime(closing.closed_at)}. Net {closing.net_income >= 0 ? 'profit' : 'loss'} of{' '}
+          <span className="font-semibold">{formatAmount(Math.abs(closing.net_income))}</span> moved to Retained Earnings
+          {closing.journal_entries?.entry_number && <> by journal {closing.journal_entries.entry_number}</>}.
+        </div>
+      )}
+
+      {/* Periods */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : periods.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">No periods set up for this year</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Dates</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Closed</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {periods.map((period) => (
+                <tr key={period.id}>
+                  <td className="px-3 py-2 font-medium text-gray-900">
+                    {MONTHS[period.period_month - 1]} {new Date(period.start_date).getFullYear()}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-600">
+                    {formatDate(period.start_date)} – {formatDate(period.end_date)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {period.status === 'open' ? (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Open</span>
+                    ) : period.status === 'closed' ? (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-700">Closed</span>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">Year closed</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-500">
+                    {period.closed_at ? formatDateTime(period.closed_at) : '-'}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {canManage && period.status === 'open' && (
+                      <button
+                        onClick={() => closePeriod(period)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Lock className="w-3 h-3" />
+                        Close
+                      </button>
+                    )}
+                    {isAdmin && period.status === 'closed' && (
+                      <button
+                        onClick={() => { setReasonAction({ type: 'reopen_period', period }); setReason(''); }}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-red-300 text-red-700 rounded hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Unlock className="w-3 h-3" />
+                        Reopen
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Opening balances carried forward */}
+      {closing && (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="px-4 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-900">
+            Opening Balances for Financial Year {(fiscalYear ?? 0) + 1}
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {openingBalances.map((row) => (
+                <tr key={row.account_id}>
+                  <td className="px-3 py-1.5">
+                    <span className="font-mono text-xs text-gray-500 mr-2">{row.chart_of_accounts?.code}</span>
+                    {row.chart_of_accounts?.name}
+                  </td>
+                  <td className="px-3 py-1.5 text-right text-blue-700">{row.debit ? formatAmount(row.debit) : ''}</td>
+                  <td className="px-3 py-1.5 text-right text-green-700">{row.credit ? formatAmount(row.credit) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-100 font-semibold">
+              <tr>
+                <td className="px-3 py-2 text-right">Total</td>
+                <td className="px-3 py-2 text-right">{formatAmount(openingTotals.debit)}</td>
+                <td className="px-3 py-2 text-right">{formatAmount(openingTotals.credit)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {/* Audit trail */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <div className="px-4 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-900">Close History</div>
+        {log.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-500">No activity yet</div>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody className="divide-y">
+              {log.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-1.5 text-xs text-gray-500 whitespace-nowrap">{formatDateTime(entry.created_at)}</td>
+                  <td className="px-3 py-1.5 text-xs font-medium text-gray-900 whitespace-nowrap">
+                    {ACTION_LABELS[entry.action] || entry.action}
+                    {entry.period_month && entry.fiscal_year ? ` · ${MONTHS[entry.period_month - 1]} (FY ${entry.fiscal_year})` : entry.fiscal_year ? ` · FY ${entry.fiscal_year}` : ''}
+                  </td>
+                  <td className="px-3 py-1.5 text-xs text-gray-600">
+                    {entry.table_name && <span className="font-mono mr-1">{entry.table_name}</span>}
+                    {entry.reason}
+                  </td>
+                  <td className="px-3 py-1.5 text-xs text-gray-500 whitespace-nowrap">{entry.user_profiles?.full_name || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal isOpen={reasonAction !== null} onClose={() => setReasonAction(null)} title={reasonTitle} size="sm">
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            {reasonAction?.type === 'override'
+              ? 'While the override is active, your own changes to closed periods are allowed. Each change is recorded in the close history.'
+              : reasonAction?.type === 'reopen_year'
+                ? 'The closing entry and the next year\'s opening balances are removed. Months stay closed until reopened individually.'
+                : 'Later periods are reopened as well, so the lock date moves back to the end of the previous period.'}
+          </p>
+          {reasonAction?.type === 'override' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Duration</label>
+              <select
+                value={overrideMinutes}
+                onChange={(e) => setOverrideMinutes(Number(e.target.value))}
+                className="w-full px-2 py-1.5 text-sm border rounded"
+              >
+                <option value={15}>15 minutes</option>
+                <option value={30}>30 minutes</option>
+                <option value={60}>1 hour</option>
+                <option value={120}>2 hours</option>
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Reason *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="w-full px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g. Auditor adjustment for missing accrual"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setReasonAction(null)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={submitReason}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              Confirm
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, Edit, Trash2, Search, FileText, Eye, X, AlertCircle, CreditCard } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, FileText, Eye, X, AlertCircle, CreditCard, Lock, CheckCircle, XCircle } from 'lucide-react';
 import { showConfirm } from '../ConfirmDialog';
 import { Modal } from '../Modal';
 import { SearchableSelect } from '../SearchableSelect';
 import { FileUpload } from '../FileUpload';
 import { showToast } from '../ToastNotification';
 import { formatDate } from '../../utils/dateFormat';
+import { fetchExchangeRate } from '../../utils/exchangeRates';
+import { useAuth } from '../../contexts/AuthContext';
 
 interface Supplier {
   id: string;
@@ -35,6 +37,7 @@ interface ChartOfAccount {
 
 interface PurchaseInvoiceItem {
   id?: string;
+  po_item_id?: string | null;
   item_type: 'inventory' | 'fixed_asset' | 'expense' | 'freight' | 'duty' | 'insurance' | 'clearing' | 'other';
   product_id: string | null;
   product_name?: string;
@@ -70,6 +73,53 @@ interface PurchaseInvoice {
   requires_faktur_pajak: boolean;
   suppliers?: { company_name: string; pkp_status: boolean };
   journal_entry_id?: string | null;
+  po_id: string | null;
+  match_status: 'not_applicable' | 'matched' | 'variance' | 'approved';
+  purchase_orders?: { po_number: string } | null;
+}
+
+interface SupplierPO {
+  id: string;
+  po_number: string;
+  po_date: string;
+  currency: string;
+  exchange_rate: number;
+  subtotal: number;
+  tax_amount: number;
+  status: string;
+  purchase_order_items: {
+    id: string;
+    line_number: number;
+    product_id: string | null;
+    description: string;
+    quantity: number;
+    unit: string | null;
+    line_total: number;
+    quantity_received: number;
+  }[];
+}
+
+interface MatchLine {
+  invoice_item_id: string;
+  po_line_number: number | null;
+  description: string;
+  ordered_quantity: number | null;
+  received_quantity: number;
+  invoiced_quantity: number;
+  total_invoiced_quantity: number;
+  po_unit_price: number | null;
+  invoiced_unit_price: number;
+  price_variance_percent: number | null;
+  quantity_flag: boolean;
+  price_flag: boolean;
+  quantity_note: string | null;
+}
+
+interface VarianceApproval {
+  id: string;
+  status: 'pending' | 'approved' | 'rejected';
+  rejection_reason: string | null;
+  created_at: string;
 }
 
 interface PurchaseInvoiceManagerProps {
@@ -78,6 +128,7 @@ interface PurchaseInvoiceManagerProps {
 }
 
 export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvoiceManagerProps) {
+  const { profile } = useAuth();
   const [invoices, setInvoices] = useState<PurchaseInvoice[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -94,10 +145,18 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
   const [uploading, setUploading] = useState(false);
   const [editingInvoice, setEditingInvoice] = useState<PurchaseInvoice | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [supplierPOs, setSupplierPOs] = useState<SupplierPO[]>([]);
+  const [matchLines, setMatchLines] = useState<MatchLine[]>([]);
+  const [varianceApproval, setVarianceApproval] = useState<VarianceApproval | null>(null);
+  const [approvalLoading, setApprovalLoading] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const isManager = profile?.role === 'admin' || profile?.role === 'manager';
 
   const [formData, setFormData] = useState({
     invoice_number: '',
     supplier_id: '',
+    po_id: '',
     invoice_date: new Date().toISOString().split('T')[0],
     due_date: '',
     currency: 'IDR',
@@ -130,11 +189,19 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
     loadAccounts();
   }, []);
 
+  useEffect(() => {
+    if (formData.supplier_id) {
+      loadSupplierPOs(formData.supplier_id);
+    } else {
+      setSupplierPOs([]);
+    }
+  }, [formData.supplier_id]);
+
   const loadInvoices = async () => {
     try {
       const { data, error } = await supabase
         .from('purchase_invoices')
-        .select('*, suppliers(company_name, pkp_status)')
+        .select('*, suppliers(company_name, pkp_status), purchase_orders(po_number)')
         .order('invoice_date', { ascending: false });
 
       if (error) throw error;
@@ -171,6 +238,35 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
     setAccounts(data || []);
   };
 
+  const loadSupplierPOs = async (supplierId: string) => {
+    const { data } = await supabase
+      .from('purchase_orders')
+      .select('id, po_number, po_date, currency, exchange_rate, subtotal, tax_amount, status, purchase_order_items(id, line_number, product_id, description, quantity, unit, line_total, quantity_received)')
+      .eq('supplier_id', supplierId)
+      .in('status', ['approved', 'partially_received', 'received'])
+      .order('po_date', { ascending: false });
+    setSupplierPOs((data || []) as unknown as SupplierPO[]);
+  };
+
+  const loadMatchDetails = async (invoiceId: string) => {
+    const [{ data: lines }, { data: approvals }] = await Promise.all([
+      supabase
+        .from('vw_purchase_invoice_match')
+        .select('*')
+        .eq('purchase_invoice_id', invoiceId)
+        .order('po_line_number'),
+      supabase
+        .from('approval_workflows')
+        .select('id, status, rejection_reason, created_at')
+        .eq('transaction_type', 'purchase_invoice_variance')
+        .eq('transaction_id', invoiceId)
+        .order('created_at', { ascending: false })
+        .limit(1),
+    ]);
+    setMatchLines(lines || []);
+    setVarianceApproval(approvals?.[0] || null);
+  };
+
   const loadViewLineItems = async (invoiceId: string) => {
     setViewLoading(true);
     try {
@@ -197,6 +293,12 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
     setSelectedInvoice(invoice);
     setViewModal(true);
     setViewBlobUrl(null);
+    setMatchLines([]);
+    setVarianceApproval(null);
+    setRejectionReason('');
+    if (invoice.match_status !== 'not_applicable') {
+      loadMatchDetails(invoice.id);
+    }
     await loadViewLineItems(invoice.id);
     if (invoice.document_urls && invoice.document_urls.length > 0) {
       setViewBlobLoading(true);
@@ -294,11 +396,122 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
     return { subtotal, taxTotal, total };
   };
 
+  // Rate on the invoice date from the exchange rate master; left as is when none is on file
+  const applyExchangeRate = async (currency: string, invoiceDate: string) => {
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, invoiceDate);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
+  const handlePOSelect = async (poId: string) => {
+    setFormData(prev => ({ ...prev, po_id: poId }));
+    if (!poId) return;
+
+    const po = supplierPOs.find(p => p.id === poId);
+    if (!po) return;
+
+    // Only bill what has been received and not yet invoiced
+    const poItemIds = po.purchase_order_items.map(i => i.id);
+    const { data: invoiced } = await supabase
+      .from('purchase_invoice_items')
+      .select('po_item_id, quantity, purchase_invoices!inner(id, status)')
+      .in('po_item_id', poItemIds)
+      .neq('purchase_invoices.status', 'cancelled');
+
+    const invoicedByItem = new Map<string, number>();
+    ((invoiced || []) as unknown as { po_item_id: string; quantity: number; purchase_invoices: { id: string } | null }[]).forEach(row => {
+      if (editingInvoice && row.purchase_invoices?.id === editingInvoice.id) return;
+      invoicedByItem.set(row.po_item_id, (invoicedByItem.get(row.po_item_id) || 0) + Number(row.quantity));
+    });
+
+    const taxPercent = po.subtotal > 0 ? Math.round((po.tax_amount / po.subtotal) * 1000) / 10 : 0;
+    const lines: PurchaseInvoiceItem[] = [...po.purchase_order_items]
+      .sort((a, b) => a.line_number - b.line_number)
+      .map(item => {
+        const quantity = Math.max(Number(item.quantity_received) - (invoicedByItem.get(item.id) || 0), 0);
+        const unitPrice = item.quantity > 0 ? Math.round((item.line_total / item.quantity) * 100) / 100 : 0;
+        const lineTotal = quantity * unitPrice;
+        return {
+          po_item_id: item.id,
+          item_type: item.product_id ? 'inventory' as const : 'other' as const,
+          product_id: item.product_id,
+          product_name: products.find(p => p.id === item.product_id)?.product_name,
+          description: item.description,
+          quantity,
+          unit: item.unit || 'pcs',
+          unit_price: unitPrice,
+          line_total: lineTotal,
+          expense_account_id: null,
+          asset_account_id: null,
+          tax_percent: taxPercent,
+          tax_amount: lineTotal * (taxPercent / 100),
+        };
+      })
+      .filter(line => line.quantity > 0);
+
+    if (lines.length === 0) {
+      showToast({ type: 'warning', title: 'Nothing to Invoice', message: `All received quantities on ${po.po_number} have already been invoiced.` });
+      return;
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      po_id: poId,
+      currency: po.currency || 'IDR',
+      exchange_rate: po.exchange_rate || 1,
+    }));
+    setLineItems(lines);
+  };
+
+  const handleVarianceDecision = async (approve: boolean) => {
+    if (!selectedInvoice || !varianceApproval) return;
+    if (!approve && !rejectionReason.trim()) {
+      showToast({ type: 'error', title: 'Error', message: 'Please provide a reason for rejecting the variance' });
+      return;
+    }
+
+    setApprovalLoading(true);
+    try {
+      const { error } = await supabase
+        .from('approval_workflows')
+        .update({
+          status: approve ? 'approved' : 'rejected',
+          approved_by: profile?.id,
+          rejection_reason: approve ? null : rejectionReason.trim(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', varianceApproval.id);
+      if (error) throw error;
+
+      const matchStatus = approve ? 'approved' : 'variance';
+      setSelectedInvoice({ ...selectedInvoice, match_status: matchStatus });
+      showToast({
+        type: 'success',
+        title: approve ? 'Variance Approved' : 'Variance Rejected',
+        message: approve
+          ? `${selectedInvoice.invoice_number} can now be paid.`
+          : `${selectedInvoice.invoice_number} stays blocked from payment.`,
+      });
+      setRejectionReason('');
+      loadMatchDetails(selectedInvoice.id);
+      loadInvoices();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Error', message: error instanceof Error ? error.message : 'Failed to update approval' });
+    } finally {
+      setApprovalLoading(false);
+    }
+  };
+
   const handleOpenEdit = async (invoice: PurchaseInvoice) => {
     setEditingInvoice(invoice);
     setFormData({
       invoice_number: invoice.invoice_number,
       supplier_id: invoice.supplier_id,
+      po_id: invoice.po_id || '',
       invoice_date: invoice.invoice_date,
       due_date: invoice.due_date || '',
       currency: invoice.currency,
@@ -316,6 +529,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
 
     const items = (data || []).map((item: any) => ({
       id: item.id,
+      po_item_id: item.po_item_id,
       item_type: item.item_type,
       product_id: item.product_id,
       description: item.description,
@@ -430,6 +644,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
       const invoiceData = {
         invoice_number: formData.invoice_number.trim(),
         supplier_id: formData.supplier_id,
+        po_id: formData.po_id || null,
         invoice_date: formData.invoice_date,
         due_date: formData.due_date || null,
         currency: formData.currency,
@@ -444,6 +659,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
       };
 
       const itemsData = lineItems.map(item => ({
+        po_item_id: item.po_item_id || null,
         item_type: item.item_type,
         product_id: item.product_id,
         description: item.description,
@@ -456,7 +672,10 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
         asset_account_id: item.asset_account_id,
       }));
 
+      let invoiceId: string;
+
       if (editingInvoice) {
+        invoiceId = editingInvoice.id;
         const { error: updateError } = await supabase
           .from('purchase_invoices')
           .update(invoiceData)
@@ -477,6 +696,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
           .select()
           .single();
         if (invoiceError) throw invoiceError;
+        invoiceId = invoice.id;
 
         const { error: itemsError } = await supabase
           .from('purchase_invoice_items')
@@ -486,6 +706,16 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
         showToast({ type: 'success', title: 'Success', message: 'Purchase invoice created successfully!' });
       }
 
+      const { data: matchStatus, error: matchError } = await supabase.rpc('fn_three_way_match', { p_invoice_id: invoiceId });
+      if (matchError) throw matchError;
+      if (matchStatus === 'variance') {
+        showToast({
+          type: 'warning',
+          title: 'Three-Way Match Variance',
+          message: 'Invoice quantities or prices differ from the PO / goods receipt beyond tolerance. Payment is blocked until a manager approves the variance.',
+        });
+      }
+
       resetForm();
       setEditingInvoice(null);
       setModalOpen(false);
@@ -542,6 +772,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
     setFormData({
       invoice_number: '',
       supplier_id: '',
+      po_id: '',
       invoice_date: new Date().toISOString().split('T')[0],
       due_date: '',
       currency: 'IDR',
@@ -697,6 +928,17 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
                     }`}>
                       {invoice.status}
                     </span>
+                    {invoice.match_status !== 'not_applicable' && (
+                      <span className={`ml-1 px-2 py-1 text-xs font-semibold rounded-full ${
+                        invoice.match_status === 'variance'
+                          ? 'bg-orange-100 text-orange-800'
+                          : invoice.match_status === 'approved'
+                          ? 'bg-blue-100 text-blue-800'
+                          : 'bg-green-100 text-green-800'
+                      }`}>
+                        {invoice.match_status === 'variance' ? 'variance' : invoice.match_status === 'approved' ? 'variance approved' : 'matched'}
+                      </span>
+                    )}
                   </td>
                   <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm font-medium sticky right-0 bg-white">
                     <div className="flex items-center justify-end gap-2">
@@ -707,7 +949,12 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
                       >
                         <Eye className="w-4 h-4" />
                       </button>
-                      {canManage && onPayInvoice && invoice.status !== 'paid' && invoice.balance_amount > 0 && (
+                      {canManage && onPayInvoice && invoice.status !== 'paid' && invoice.balance_amount > 0 && invoice.match_status === 'variance' && (
+                        <span className="text-orange-500" title="Three-way match variance awaiting manager approval">
+                          <Lock className="w-4 h-4" />
+                        </span>
+                      )}
+                      {canManage && onPayInvoice && invoice.status !== 'paid' && invoice.balance_amount > 0 && invoice.match_status !== 'variance' && (
                         <button
                           onClick={() => onPayInvoice({ id: invoice.id, invoice_number: invoice.invoice_number, supplier_id: invoice.supplier_id, balance_amount: invoice.balance_amount })}
                           className="text-green-600 hover:text-green-800"
@@ -763,7 +1010,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
               </label>
               <SearchableSelect
                 value={formData.supplier_id}
-                onChange={(val) => setFormData({ ...formData, supplier_id: val })}
+                onChange={(val) => setFormData({ ...formData, supplier_id: val, po_id: '' })}
                 options={suppliers.map(s => ({ value: s.id, label: `${s.company_name}${s.pkp_status ? ' (PKP)' : ''}` }))}
                 placeholder="Select Supplier"
               />
@@ -772,6 +1019,29 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
               )}
             </div>
 
+            {formData.supplier_id && (
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Purchase Order
+                </label>
+                <select
+                  value={formData.po_id}
+                  onChange={(e) => handlePOSelect(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No PO (direct invoice)</option>
+                  {supplierPOs.map(po => (
+                    <option key={po.id} value={po.id}>
+                      {po.po_number} - {formatDate(po.po_date)} ({po.status.replace('_', ' ')})
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Linking a PO fills received, not yet invoiced lines and checks the invoice against the PO and goods receipts
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Invoice Number *
@@ -793,7 +1063,10 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
               <input
                 type="date"
                 value={formData.invoice_date}
-                onChange={(e) => setFormData({ ...formData, invoice_date: e.target.value })}
+                onChange={(e) => {
+                  setFormData({ ...formData, invoice_date: e.target.value });
+                  if (formData.currency !== 'IDR') applyExchangeRate(formData.currency, e.target.value);
+                }}
                 required
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
               />
@@ -817,7 +1090,7 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
               </label>
               <select
                 value={formData.currency}
-                onChange={(e) => setFormData({ ...formData, currency: e.target.value, exchange_rate: e.target.value === 'IDR' ? 1 : formData.exchange_rate })}
+                onChange={(e) => applyExchangeRate(e.target.value, formData.invoice_date)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
               >
                 <option value="IDR">IDR</option>
@@ -1275,6 +1548,115 @@ export function PurchaseInvoiceManager({ canManage, onPayInvoice }: PurchaseInvo
               )}
             </div>
 
+            {/* Three-Way Match */}
+            {selectedInvoice.match_status !== 'not_applicable' && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-700">
+                    Three-Way Match{selectedInvoice.purchase_orders?.po_number ? ` - ${selectedInvoice.purchase_orders.po_number}` : ''}
+                  </h3>
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                    selectedInvoice.match_status === 'variance' ? 'bg-orange-100 text-orange-800'
+                    : selectedInvoice.match_status === 'approved' ? 'bg-blue-100 text-blue-800'
+                    : 'bg-green-100 text-green-800'
+                  }`}>
+                    {selectedInvoice.match_status === 'variance' ? 'Variance - payment blocked'
+                      : selectedInvoice.match_status === 'approved' ? 'Variance approved'
+                      : 'Matched'}
+                  </span>
+                </div>
+                {matchLines.length > 0 && (
+                  <div className="overflow-x-auto rounded-lg border border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">PO Line</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Invoiced</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">PO Price</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Invoice Price</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 bg-white">
+                        {matchLines.map(line => (
+                          <tr key={line.invoice_item_id} className={line.quantity_flag || line.price_flag ? 'bg-orange-50' : ''}>
+                            <td className="px-3 py-2 text-gray-500">{line.po_line_number ?? '—'}</td>
+                            <td className="px-3 py-2 text-gray-900">
+                              <p>{line.description}</p>
+                              {line.quantity_note && <p className="text-xs text-orange-700">{line.quantity_note}</p>}
+                            </td>
+                            <td className="px-3 py-2 text-right text-gray-900">{line.ordered_quantity != null ? Number(line.ordered_quantity).toLocaleString() : '—'}</td>
+                            <td className="px-3 py-2 text-right text-gray-900">{Number(line.received_quantity).toLocaleString()}</td>
+                            <td className={`px-3 py-2 text-right ${line.quantity_flag ? 'text-orange-700 font-semibold' : 'text-gray-900'}`}>
+                              {Number(line.total_invoiced_quantity).toLocaleString()}
+                              {line.total_invoiced_quantity !== line.invoiced_quantity && (
+                                <span className="block text-xs text-gray-500">this invoice: {Number(line.invoiced_quantity).toLocaleString()}</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-right text-gray-900">
+                              {line.po_unit_price != null ? Number(line.po_unit_price).toLocaleString('en-US', { minimumFractionDigits: 2 }) : '—'}
+                            </td>
+                            <td className={`px-3 py-2 text-right ${line.price_flag ? 'text-orange-700 font-semibold' : 'text-gray-900'}`}>
+                              {Number(line.invoiced_unit_price).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                              {line.price_variance_percent != null && line.price_variance_percent !== 0 && (
+                                <span className="block text-xs">{line.price_variance_percent > 0 ? '+' : ''}{line.price_variance_percent}%</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {varianceApproval && (
+                  <div className={`mt-3 p-3 rounded-lg border text-sm ${
+                    varianceApproval.status === 'approved' ? 'bg-blue-50 border-blue-200 text-blue-800'
+                    : varianceApproval.status === 'rejected' ? 'bg-red-50 border-red-200 text-red-800'
+                    : 'bg-orange-50 border-orange-200 text-orange-800'
+                  }`}>
+                    <p className="font-medium">
+                      Variance approval {varianceApproval.status} ({formatDate(varianceApproval.created_at)})
+                    </p>
+                    {varianceApproval.rejection_reason && (
+                      <p className="text-xs mt-1">Reason: {varianceApproval.rejection_reason}</p>
+                    )}
+                    {varianceApproval.status === 'pending' && isManager && (
+                      <div className="mt-3 space-y-2">
+                        <input
+                          type="text"
+                          value={rejectionReason}
+                          onChange={(e) => setRejectionReason(e.target.value)}
+                          placeholder="Reason (required to reject)"
+                          className="w-full px-3 py-1.5 border border-orange-300 rounded text-sm text-gray-900"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleVarianceDecision(false)}
+                            disabled={approvalLoading}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 bg-white border border-red-300 text-red-700 rounded hover:bg-red-50 text-xs font-medium disabled:opacity-50"
+                          >
+                            <XCircle className="w-3.5 h-3.5" />
+                            Reject
+                          </button>
+                          <button
+                            onClick={() => handleVarianceDecision(true)}
+                            disabled={approvalLoading}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 text-xs font-medium disabled:opacity-50"
+                          >
+                            <CheckCircle className="w-3.5 h-3.5" />
+                            Approve Variance
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Notes */}
             {selectedInvoice.notes && (
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
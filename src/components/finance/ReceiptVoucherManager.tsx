@@ -7,6 +7,7 @@ import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { showToast } from '../ToastNotification';
 import { showConfirm } from '../ConfirmDialog';
+import { fetchExchangeRate } from '../../utils/exchangeRates';
 
 interface Customer {
   id: string;
@@ -19,6 +20,7 @@ interface BankAccount {
   bank_name: string;
   account_number: string;
   alias?: string;
+  currency?: string;
 }
 
 interface SalesInvoice {
@@ -28,6 +30,8 @@ interface SalesInvoice {
   total_amount: number;
   paid_amount: number;
   balance_amount: number;
+  currency?: string | null;
+  exchange_rate?: number | null;
 }
 
 interface SalesOrder {
@@ -39,6 +43,14 @@ interface SalesOrder {
   advance_payment_status: string;
   balance_due: number;
   status?: string;
+  currency?: string | null;
+}
+
+interface TaxCode {
+  id: string;
+  code: string;
+  name: string;
+  rate: number;
 }
 
 type AllocationTarget = (SalesInvoice & { type: 'invoice' }) | (SalesOrder & { type: 'salesorder' });
@@ -51,7 +63,13 @@ interface ReceiptVoucher {
   payment_method: string;
   bank_account_id: string | null;
   reference_number: string | null;
+  currency: string | null;
+  exchange_rate: number | null;
   amount: number;
+  pph_code_id: string | null;
+  pph_base_amount: number | null;
+  pph_amount: number;
+  net_amount: number;
   description: string | null;
   created_at: string;
   customers?: { company_name: string };
@@ -69,6 +87,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [allocationTargets, setAllocationTargets] = useState<AllocationTarget[]>([]);
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
@@ -86,7 +105,12 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
     payment_method: 'bank_transfer',
     bank_account_id: '',
     reference_number: '',
+    currency: 'IDR',
+    exchange_rate: 1,
     amount: 0,
+    pph_code_id: '',
+    pph_base_amount: 0,
+    pph_amount: 0,
     description: '',
   });
 
@@ -94,9 +118,36 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
     loadVouchers();
     loadCustomers();
     loadBankAccounts();
+    loadTaxCodes();
     loadCompanySettings();
   }, []);
 
+  // PPh withheld by the customer; the base defaults to the gross amount when not entered
+  const pphBaseAmount = formData.pph_base_amount || formData.amount;
+
+  useEffect(() => {
+    if (formData.pph_code_id && pphBaseAmount > 0) {
+      const tax = taxCodes.find(t => t.id === formData.pph_code_id);
+      if (tax) {
+        const pphAmount = pphBaseAmount * (tax.rate / 100);
+        setFormData(prev => ({ ...prev, pph_amount: Math.round(pphAmount) }));
+      }
+    } else {
+      setFormData(prev => ({ ...prev, pph_amount: 0 }));
+    }
+  }, [formData.pph_code_id, pphBaseAmount, taxCodes]);
+
+  const loadTaxCodes = async () => {
+    const { data } = await supabase
+      .from('tax_codes')
+      .select('id, code, name, rate')
+      .eq('is_withholding', true)
+      .eq('applies_to_receipts', true)
+      .eq('is_active', true)
+      .order('code');
+    setTaxCodes(data || []);
+  };
+
   const loadCompanySettings = async () => {
     const { data } = await supabase
       .from('app_settings')
@@ -175,7 +226,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
   };
 
   const loadBankAccounts = async () => {
-    const { data } = await supabase.from('bank_accounts').select('id, account_name, bank_name, account_number, alias').eq('is_active', true);
+    const { data } = await supabase.from('bank_accounts').select('id, account_name, bank_name, account_number, alias, currency').eq('is_active', true);
     setBankAccounts(data || []);
   };
 
@@ -191,7 +242,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
       // Load sales orders (any active status - exclude cancelled/closed)
       const { data: salesOrders } = await supabase
         .from('sales_orders')
-        .select('id, so_number, so_date, total_amount, advance_payment_amount, advance_payment_status, status')
+        .select('id, so_number, so_date, total_amount, advance_payment_amount, advance_payment_status, status, currency')
         .eq('customer_id', customerId)
         .not('status', 'in', '(cancelled,closed)')
         .order('so_date');
@@ -223,7 +274,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
           if (soIds.length > 0) {
             const { data: linkedSOs } = await supabase
               .from('sales_orders')
-              .select('id, so_number, so_date, total_amount, advance_payment_amount, advance_payment_status, status')
+              .select('id, so_number, so_date, total_amount, advance_payment_amount, advance_payment_status, status, currency')
               .in('id', soIds);
             additionalSOs = linkedSOs || [];
           }
@@ -234,6 +285,19 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
       const allInvoices = [...(invoices || []), ...additionalInvoices];
       const uniqueInvoices = Array.from(new Map(allInvoices.map(inv => [inv.id, inv])).values());
 
+      // The balance function has no currency; take currency and booked rate from the invoices
+      if (uniqueInvoices.length > 0) {
+        const { data: invoiceRates } = await supabase
+          .from('sales_invoices')
+          .select('id, currency, exchange_rate')
+          .in('id', uniqueInvoices.map(inv => inv.id));
+        const rateMap = new Map((invoiceRates || []).map(r => [r.id, r]));
+        uniqueInvoices.forEach(inv => {
+          inv.currency = rateMap.get(inv.id)?.currency || 'IDR';
+          inv.exchange_rate = rateMap.get(inv.id)?.exchange_rate || 1;
+        });
+      }
+
       const allSOs = [...(salesOrders || []), ...additionalSOs];
       const uniqueSOs = Array.from(new Map(allSOs.map(so => [so.id, so])).values())
         .filter(so => so.advance_payment_status !== 'full');
@@ -260,12 +324,6 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
     }
   };
 
-  const generateVoucherNumber = async () => {
-    const { data, error } = await supabase.rpc('generate_voucher_number', { p_prefix: 'RV' });
-    if (error) throw error;
-    return data as string;
-  };
-
   const handleAllocationChange = (targetId: string, targetType: 'invoice' | 'salesorder', amount: number) => {
     setAllocations(prev => {
       const existing = prev.find(a => a.targetId === targetId);
@@ -284,6 +342,43 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
 
   const totalAllocated = allocations.reduce((sum, a) => sum + a.amount, 0);
 
+  // Settlement rate on the voucher date from the exchange rate master; left as is when none is on file.
+  // Only documents in the voucher currency can be allocated, so a currency change clears allocations
+  const applyExchangeRate = async (currency: string, voucherDate: string) => {
+    if (currency !== formData.currency) setAllocations([]);
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, voucherDate);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
+  const handleBankAccountChange = (bankAccountId: string) => {
+    setFormData(prev => ({ ...prev, bank_account_id: bankAccountId }));
+    const account = bankAccounts.find(b => b.id === bankAccountId);
+    if (account?.currency && account.currency !== formData.currency) {
+      applyExchangeRate(account.currency, formData.voucher_date);
+    }
+  };
+
+  const currencyTargets = allocationTargets.filter(target => (target.currency || 'IDR') === formData.currency);
+
+  // Realised difference against the booked invoice rate: receiving at a higher rate is a gain
+  const allocationFx = (target: AllocationTarget, amount: number) =>
+    target.type !== 'invoice' || formData.currency === 'IDR'
+      ? 0
+      : Math.round(amount * (formData.exchange_rate - (target.exchange_rate || 1)) * 100) / 100;
+
+  const totalFx = allocations.reduce((sum, a) => {
+    const target = allocationTargets.find(t => t.id === a.targetId);
+    return target ? sum + allocationFx(target, a.amount) : sum;
+  }, 0);
+
+  const formatAmount = (value: number, currency = formData.currency) =>
+    `${currency === 'IDR' ? 'Rp' : currency} ${value.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
   const handlePrint = async () => {
     if (!printRef.current || !selectedVoucher) return;
 
@@ -315,6 +410,11 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
       return;
     }
 
+    if (formData.currency !== 'IDR' && formData.exchange_rate <= 1) {
+      showToast({ type: 'error', title: 'Error', message: `Please enter a valid exchange rate for ${formData.currency}` });
+      return;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
@@ -330,7 +430,12 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
             payment_method: formData.payment_method,
             bank_account_id: formData.bank_account_id || null,
             reference_number: formData.reference_number || null,
+            currency: formData.currency,
+            exchange_rate: formData.currency === 'IDR' ? 1 : formData.exchange_rate,
             amount: formData.amount,
+            pph_code_id: formData.pph_code_id || null,
+            pph_base_amount: formData.pph_code_id ? pphBaseAmount : null,
+            pph_amount: formData.pph_amount,
             description: formData.description || null,
           })
           .eq('id', selectedVoucher.id)
@@ -346,19 +451,21 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
           .delete()
           .eq('receipt_voucher_id', selectedVoucher.id);
       } else {
-        // CREATE new voucher
-        const voucherNumber = await generateVoucherNumber();
-
+        // CREATE new voucher (voucher_number is assigned by the database numbering service)
         const { data: newVoucher, error } = await supabase
           .from('receipt_vouchers')
           .insert([{
-            voucher_number: voucherNumber,
             voucher_date: formData.voucher_date,
             customer_id: formData.customer_id,
             payment_method: formData.payment_method,
             bank_account_id: formData.bank_account_id || null,
             reference_number: formData.reference_number || null,
+            currency: formData.currency,
+            exchange_rate: formData.currency === 'IDR' ? 1 : formData.exchange_rate,
             amount: formData.amount,
+            pph_code_id: formData.pph_code_id || null,
+            pph_base_amount: formData.pph_code_id ? pphBaseAmount : null,
+            pph_amount: formData.pph_amount,
             description: formData.description || null,
             created_by: user.id,
           }])
@@ -403,7 +510,12 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
       payment_method: 'bank_transfer',
       bank_account_id: '',
       reference_number: '',
+      currency: 'IDR',
+      exchange_rate: 1,
       amount: 0,
+      pph_code_id: '',
+      pph_base_amount: 0,
+      pph_amount: 0,
       description: '',
     });
     setAllocations([]);
@@ -440,7 +552,12 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
       payment_method: voucher.payment_method,
       bank_account_id: voucher.bank_account_id || '',
       reference_number: voucher.reference_number || '',
+      currency: voucher.currency || 'IDR',
+      exchange_rate: voucher.exchange_rate || 1,
       amount: voucher.amount,
+      pph_code_id: voucher.pph_code_id || '',
+      pph_base_amount: voucher.pph_base_amount && voucher.pph_base_amount !== voucher.amount ? voucher.pph_base_amount : 0,
+      pph_amount: voucher.pph_amount || 0,
       description: voucher.description || '',
     });
 
@@ -587,7 +704,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                 </td>
                 <td className="px-4 py-3 text-sm text-gray-600">{voucher.allocated_to}</td>
                 <td className="px-4 py-3 text-right font-medium text-green-600">
-                  Rp {voucher.amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {formatAmount(voucher.amount, voucher.currency || 'IDR')}
                 </td>
                 <td className="px-4 py-3">
                   <div className="flex items-center justify-center gap-2">
@@ -640,7 +757,10 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                 type="date"
                 required
                 value={formData.voucher_date}
-                onChange={(e) => setFormData({ ...formData, voucher_date: e.target.value })}
+                onChange={(e) => {
+                  setFormData({ ...formData, voucher_date: e.target.value });
+                  if (formData.currency !== 'IDR') applyExchangeRate(formData.currency, e.target.value);
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg"
               />
             </div>
@@ -678,7 +798,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
               </select>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Amount (Rp) *</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Gross Amount ({formData.currency === 'IDR' ? 'Rp' : formData.currency}) *</label>
               <input
                 type="number"
                 required
@@ -689,13 +809,41 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={formData.currency}
+                onChange={(e) => applyExchangeRate(e.target.value, formData.voucher_date)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="IDR">IDR</option>
+                <option value="USD">USD</option>
+              </select>
+            </div>
+            {formData.currency !== 'IDR' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Exchange Rate * (1 {formData.currency} = ? IDR)</label>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  step="0.01"
+                  value={formData.exchange_rate}
+                  onChange={(e) => setFormData({ ...formData, exchange_rate: parseFloat(e.target.value) || 1 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            )}
+          </div>
+
           {formData.payment_method !== 'cash' && (
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Bank Account</label>
                 <select
                   value={formData.bank_account_id}
-                  onChange={(e) => setFormData({ ...formData, bank_account_id: e.target.value })}
+                  onChange={(e) => handleBankAccountChange(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg"
                 >
                   <option value="">Select account</option>
@@ -717,6 +865,63 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
             </div>
           )}
 
+          {taxCodes.length > 0 && (
+            <div className="border-t pt-4">
+              <h4 className="font-medium text-gray-700 mb-3">PPh Withheld by Customer (Dipotong Pelanggan)</h4>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">PPh Type</label>
+                  <select
+                    value={formData.pph_code_id}
+                    onChange={(e) => setFormData({ ...formData, pph_code_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">No withholding</option>
+                    {taxCodes.map(t => (
+                      <option key={t.id} value={t.id}>{t.code} - {t.name} ({t.rate}%)</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">PPh Base (DPP)</label>
+                  <input
+                    type="number"
+                    value={formData.pph_base_amount || ''}
+                    onChange={(e) => setFormData({ ...formData, pph_base_amount: parseFloat(e.target.value) || 0 })}
+                    placeholder={formData.amount ? String(formData.amount) : 'Gross amount'}
+                    disabled={!formData.pph_code_id}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">PPh Amount</label>
+                  <input
+                    type="number"
+                    value={formData.pph_amount}
+                    onChange={(e) => setFormData({ ...formData, pph_amount: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-orange-50"
+                  />
+                </div>
+              </div>
+              {formData.pph_amount > 0 && (
+                <div className="mt-2 p-3 bg-gray-50 rounded-lg">
+                  <div className="flex justify-between text-sm">
+                    <span>Gross Amount (settles invoices):</span>
+                    <span>{formatAmount(formData.amount)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-orange-600">
+                    <span>Less: PPh Withheld:</span>
+                    <span>-{formatAmount(formData.pph_amount)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium text-lg border-t mt-2 pt-2">
+                    <span>Net Received:</span>
+                    <span className="text-green-600">{formatAmount(formData.amount - formData.pph_amount)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
             <textarea
@@ -735,11 +940,11 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                 <ul className="text-xs text-blue-800 space-y-1 ml-4 list-disc">
                   <li><strong className="text-purple-700">SO (Advance)</strong> = Record advance payment against Sales Order</li>
                   <li><strong className="text-blue-700">Invoice</strong> = Record payment against Sales Invoice</li>
-                  <li>Enter amount in "Allocate (Rp)" column to link payment to document</li>
+                  <li>Enter amount in "Allocate" column to link payment to document (in the voucher currency)</li>
                   <li>You can allocate partial amounts to multiple documents</li>
                 </ul>
               </div>
-              {allocationTargets.length > 0 ? (
+              {currencyTargets.length > 0 ? (
                 <div className="max-h-64 overflow-y-auto border rounded-lg">
                   <table className="w-full text-sm">
                     <thead className="bg-gray-50 sticky top-0">
@@ -747,11 +952,12 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                         <th className="px-3 py-2 text-left">Document</th>
                         <th className="px-3 py-2 text-center">Type</th>
                         <th className="px-3 py-2 text-right">Balance Due</th>
-                        <th className="px-3 py-2 text-right">Allocate (Rp)</th>
+                        <th className="px-3 py-2 text-right">Allocate ({formData.currency === 'IDR' ? 'Rp' : formData.currency})</th>
+                        {formData.currency !== 'IDR' && <th className="px-3 py-2 text-right">FX Gain/Loss</th>}
                       </tr>
                     </thead>
                     <tbody className="divide-y">
-                      {allocationTargets.map(target => {
+                      {currencyTargets.map(target => {
                       const balance = target.type === 'invoice'
                         ? (target as SalesInvoice & { type: 'invoice' }).balance_amount
                         : (target as SalesOrder & { type: 'salesorder' }).balance_due;
@@ -761,12 +967,17 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                       const docDate = target.type === 'invoice'
                         ? (target as SalesInvoice & { type: 'invoice' }).invoice_date
                         : (target as SalesOrder & { type: 'salesorder' }).so_date;
+                      const allocated = allocations.find(a => a.targetId === target.id)?.amount || 0;
+                      const fx = allocationFx(target, allocated);
 
                       return (
                         <tr key={`${target.type}-${target.id}`}>
                           <td className="px-3 py-2">
                             <div className="font-mono text-xs">{docNumber}</div>
                             <div className="text-gray-500 text-xs">{new Date(docDate).toLocaleDateString('id-ID')}</div>
+                            {target.type === 'invoice' && formData.currency !== 'IDR' && (
+                              <div className="text-gray-500 text-xs">Booked @ {(target.exchange_rate || 1).toLocaleString('id-ID')}</div>
+                            )}
                           </td>
                           <td className="px-3 py-2 text-center">
                             <span className={`px-2 py-0.5 rounded text-xs font-medium ${
@@ -778,19 +989,24 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                             </span>
                           </td>
                           <td className="px-3 py-2 text-right text-red-600 font-medium">
-                            Rp {balance.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                            {formatAmount(balance)}
                           </td>
                           <td className="px-3 py-2">
                             <input
                               type="number"
                               min={0}
                               max={balance}
-                              value={allocations.find(a => a.targetId === target.id)?.amount || ''}
+                              value={allocated || ''}
                               onChange={(e) => handleAllocationChange(target.id, target.type, parseFloat(e.target.value) || 0)}
                               className="w-28 px-2 py-1 border rounded text-right text-xs"
                               placeholder="0"
                             />
                           </td>
+                          {formData.currency !== 'IDR' && (
+                            <td className={`px-3 py-2 text-right text-xs ${fx < 0 ? 'text-red-600' : fx > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                              {fx !== 0 ? formatAmount(fx, 'IDR') : '-'}
+                            </td>
+                          )}
                         </tr>
                       );
                     })}
@@ -812,11 +1028,16 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                 <div className="text-right">
                   <span className="text-gray-500">Total Allocated:</span>
                   <span className={`ml-2 font-bold text-lg ${totalAllocated > formData.amount ? 'text-red-600' : 'text-green-600'}`}>
-                    Rp {totalAllocated.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    {formatAmount(totalAllocated)}
                   </span>
-                  <span className="text-gray-400 ml-1">/ Rp {formData.amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  <span className="text-gray-400 ml-1">/ {formatAmount(formData.amount)}</span>
                 </div>
               </div>
+              {formData.currency !== 'IDR' && totalFx !== 0 && (
+                <p className={`mt-2 text-sm text-right ${totalFx < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  Realised FX {totalFx < 0 ? 'loss' : 'gain'} of {formatAmount(Math.abs(totalFx), 'IDR')} will be posted against the booked invoice rates
+                </p>
+              )}
             </div>
           )}
 
@@ -866,7 +1087,10 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
               </div>
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-500">Amount</label>
-                <p className="text-2xl font-bold text-green-600">Rp {selectedVoucher.amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                <p className="text-2xl font-bold text-green-600">{formatAmount(selectedVoucher.amount, selectedVoucher.currency || 'IDR')}</p>
+                {selectedVoucher.currency && selectedVoucher.currency !== 'IDR' && (
+                  <p className="text-sm text-gray-500">@ {Number(selectedVoucher.exchange_rate || 1).toLocaleString('id-ID')} = {formatAmount(selectedVoucher.amount * Number(selectedVoucher.exchange_rate || 1), 'IDR')}</p>
+                )}
               </div>
               {selectedVoucher.description && (
                 <div className="col-span-2">
@@ -886,6 +1110,7 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                         <th className="px-3 py-2 text-left">Document</th>
                         <th className="px-3 py-2 text-center">Type</th>
                         <th className="px-3 py-2 text-right">Amount</th>
+                        <th className="px-3 py-2 text-right">FX Gain/Loss</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y">
@@ -904,7 +1129,10 @@ export function ReceiptVoucherManager({ canManage }: ReceiptVoucherManagerProps)
                             </span>
                           </td>
                           <td className="px-3 py-2 text-right font-medium">
-                            Rp {alloc.allocated_amount.toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                            {formatAmount(alloc.allocated_amount, selectedVoucher.currency || 'IDR')}
+                          </td>
+                          <td className={`px-3 py-2 text-right ${Number(alloc.fx_gain_loss) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {Number(alloc.fx_gain_loss) ? formatAmount(Number(alloc.fx_gain_loss), 'IDR') : '-'}
                           </td>
                         </tr>
                       ))}
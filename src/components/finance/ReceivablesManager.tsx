@@ -264,14 +264,10 @@ export function ReceivablesManager({ canManage }: { canManage: boolean }) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { data: voucherNumber, error: numError } = await supabase.rpc('generate_voucher_number', { p_prefix: 'RV' });
-      if (numError) throw numError;
-
-      // 2. Insert receipt voucher
+      // 2. Insert receipt voucher (voucher_number is assigned by the database numbering service)
       const { data: voucher, error: voucherError } = await supabase
         .from('receipt_vouchers')
         .insert([{
-          voucher_number: voucherNumber,
           voucher_date: formData.payment_date,
           customer_id: selectedInvoice.customer_id,
           payment_method: formData.payment_method,
@@ -308,7 +304,7 @@ export function ReceivablesManager({ canManage }: { canManage: boolean }) {
       setSelectedAllocations({});
       resetForm();
       loadData();
-      alert(`Receipt voucher ${voucherNumber} created and allocated successfully!`);
+      alert(`Receipt voucher ${voucher.voucher_number} created and allocated successfully!`);
     } catch (error: any) {
       console.error('Error recording payment:', error);
       alert(`Failed to record payment: ${error.message}`);
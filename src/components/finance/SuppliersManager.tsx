@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
 import { Plus, Edit, Trash2, Search, Building2 } from 'lucide-react';
 import { Modal } from '../Modal';
+import { SupplierGradeBadge, SupplierScorecardModal } from '../SupplierScorecard';
+import { fetchSupplierScores, type SupplierScorecard } from '../../utils/supplierScores';
 
 interface Supplier {
   id: string;
@@ -14,6 +16,7 @@ interface Supplier {
   city: string | null;
   country: string;
   npwp: string | null;
+  nitku: string | null;
   pkp_status: boolean;
   payment_terms_days: number;
   bank_name: string | null;
@@ -32,6 +35,8 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
   const [modalOpen, setModalOpen] = useState(false);
   const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [scores, setScores] = useState<Record<string, SupplierScorecard>>({});
+  const [scorecardSupplier, setScorecardSupplier] = useState<Supplier | null>(null);
   const [formData, setFormData] = useState({
     supplier_code: '',
     company_name: '',
@@ -42,6 +47,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
     city: '',
     country: 'Indonesia',
     npwp: '',
+    nitku: '',
     pkp_status: false,
     payment_terms_days: 30,
     bank_name: '',
@@ -51,6 +57,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
 
   useEffect(() => {
     loadSuppliers();
+    fetchSupplierScores().then(setScores);
   }, []);
 
   const loadSuppliers = async () => {
@@ -94,6 +101,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
         address: formData.address || null,
         city: formData.city || null,
         npwp: formData.npwp || null,
+        nitku: formData.nitku || null,
         bank_name: formData.bank_name || null,
         bank_account_number: formData.bank_account_number || null,
         bank_account_name: formData.bank_account_name || null,
@@ -133,6 +141,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
       city: supplier.city || '',
       country: supplier.country,
       npwp: supplier.npwp || '',
+      nitku: supplier.nitku || '',
       pkp_status: supplier.pkp_status,
       payment_terms_days: supplier.payment_terms_days,
       bank_name: supplier.bank_name || '',
@@ -167,6 +176,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
       city: '',
       country: 'Indonesia',
       npwp: '',
+      nitku: '',
       pkp_status: false,
       payment_terms_days: 30,
       bank_name: '',
@@ -219,6 +229,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">NPWP</th>
               <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">PKP</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Terms</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Score</th>
               {canManage && <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>}
             </tr>
           </thead>
@@ -248,6 +259,12 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
                   )}
                 </td>
                 <td className="px-4 py-3 text-sm">{supplier.payment_terms_days} days</td>
+                <td className="px-4 py-3">
+                  <SupplierGradeBadge
+                    scorecard={scores[supplier.id]}
+                    onClick={() => setScorecardSupplier(supplier)}
+                  />
+                </td>
                 {canManage && (
                   <td className="px-4 py-3 text-right">
                     <button onClick={() => handleEdit(supplier)} className="text-blue-600 hover:text-blue-800 mr-2">
@@ -262,7 +279,7 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
             ))}
             {filteredSuppliers.length === 0 && (
               <tr>
-                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
                   No suppliers found
                 </td>
               </tr>
@@ -371,6 +388,16 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
                   placeholder="00.000.000.0-000.000"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">NITKU</label>
+                <input
+                  type="text"
+                  value={formData.nitku}
+                  onChange={(e) => setFormData({ ...formData, nitku: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="22 digits, blank = head office"
+                />
+              </div>
               <div className="flex items-center gap-2 pt-6">
                 <input
                   type="checkbox"
@@ -437,6 +464,8 @@ export function SuppliersManager({ canManage }: SuppliersManagerProps) {
           </div>
         </form>
       </Modal>
+
+      <SupplierScorecardModal supplier={scorecardSupplier} onClose={() => setScorecardSupplier(null)} />
     </div>
   );
 }
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { FileText, Download, Calendar, TrendingUp, TrendingDown } from 'lucide-react';
+import { FileText, Download, Calendar, TrendingUp, TrendingDown, FileCode, Receipt } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { formatDate } from '../../utils/dateFormat';
+import { EFakturExport } from './EFakturExport';
+import { WithholdingTaxReport } from './WithholdingTaxReport';
 
 interface InputPPNRecord {
   month: string;
@@ -39,7 +41,7 @@ export function TaxReports() {
   const [outputPPN, setOutputPPN] = useState<OutputPPNRecord[]>([]);
   const [monthlySummary, setMonthlySummary] = useState<MonthlySummary[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'summary' | 'input' | 'output'>('summary');
+  const [activeTab, setActiveTab] = useState<'summary' | 'input' | 'output' | 'withholding' | 'efaktur'>('summary');
   const [selectedMonth, setSelectedMonth] = useState<string>('');
 
   useEffect(() => {
@@ -110,6 +112,8 @@ export function TaxReports() {
           { value: 'summary', label: t('finance.monthlySummary') || 'Monthly Summary', icon: Calendar },
           { value: 'input', label: t('finance.inputPPN') || 'Input PPN', icon: TrendingDown },
           { value: 'output', label: t('finance.outputPPN') || 'Output PPN', icon: TrendingUp },
+          { value: 'withholding', label: t('finance.withholdingTax') || 'Withholding (PPh)', icon: Receipt },
+          { value: 'efaktur', label: t('finance.efakturExport') || 'e-Faktur Export', icon: FileCode },
         ].map((tab) => {
           const Icon = tab.icon;
           return (
@@ -129,7 +133,11 @@ export function TaxReports() {
         })}
       </div>
 
-      {loading ? (
+      {activeTab === 'efaktur' ? (
+        <EFakturExport />
+      ) : activeTab === 'withholding' ? (
+        <WithholdingTaxReport />
+      ) : loading ? (
         <div className="text-center py-8 text-gray-500 text-xs">{t('common.loading') || 'Loading tax reports...'}</div>
       ) : (
         <>
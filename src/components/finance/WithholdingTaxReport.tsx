@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Download, Edit2, Check, X } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatDate } from '../../utils/dateFormat';
+import { showToast } from '../ToastNotification';
+
+interface WithholdingRecord {
+  id: string;
+  direction: 'issued' | 'received';
+  month: string;
+  transaction_date: string;
+  tax_code: string;
+  tax_name: string;
+  tax_type: string;
+  tax_base: number;
+  rate: number;
+  tax_amount: number;
+  certificate_number: string | null;
+  certificate_date: string | null;
+  voucher_number: string | null;
+  party_name: string | null;
+  party_npwp: string | null;
+}
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+export function WithholdingTaxReport() {
+  const { t } = useLanguage();
+  const { profile } = useAuth();
+  const canEdit = profile?.role === 'admin' || profile?.role === 'accounts';
+  const [month, setMonth] = useState<string>(currentMonth());
+  const [direction, setDirection] = useState<'all' | 'issued' | 'received'>('all');
+  const [records, setRecords] = useState<WithholdingRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ certificate_number: '', certificate_date: '' });
+
+  useEffect(() => {
+    loadRecords();
+  }, [month]);
+
+  const loadRecords = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('vw_withholding_tax_report')
+        .select('*')
+        .eq('month', `${month}-01`)
+        .order('transaction_date');
+
+      if (error) throw error;
+      setRecords(data || []);
+    } catch (error) {
+      console.error('Error loading withholding tax:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to load withholding tax',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (record: WithholdingRecord) => {
+    setEditingId(record.id);
+    setEditForm({
+      certificate_number: record.certificate_number || '',
+      certificate_date: record.certificate_date || record.transaction_date,
+    });
+  };
+
+  const saveEdit = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('withholding_certificates')
+        .update({
+          certificate_number: editForm.certificate_number.trim() || null,
+          certificate_date: editForm.certificate_number.trim() ? editForm.certificate_date || null : null,
+          updated_by: profile?.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+      setEditingId(null);
+      loadRecords();
+    } catch (error) {
+      console.error('Error saving bukti potong:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save bukti potong',
+      });
+    }
+  };
+
+  const formatCurrency = (amount: number) =>
+    `Rp ${(Number(amount) || 0).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const filtered = direction === 'all' ? records : records.filter((r) => r.direction === direction);
+
+  const summary = Object.values(
+    filtered.reduce<Record<string, { key: string; direction: string; tax_code: string; tax_name: string; base: number; tax: number; count: number }>>(
+      (acc, r) => {
+        const key = `${r.direction}-${r.tax_code}`;
+        if (!acc[key]) {
+          acc[key] = { key, direction: r.direction, tax_code: r.tax_code, tax_name: r.tax_name, base: 0, tax: 0, count: 0 };
+        }
+        acc[key].base += Number(r.tax_base) || 0;
+        acc[key].tax += Number(r.tax_amount) || 0;
+        acc[key].count += 1;
+        return acc;
+      },
+      {}
+    )
+  );
+
+  const exportToCSV = () => {
+    const headers = ['Direction', 'Date', 'Voucher', 'Party', 'NPWP', 'Tax Code', 'Tax Base', 'Rate', 'PPh', 'Bukti Potong No', 'Bukti Potong Date'];
+    const rows = filtered.map((r) => [
+      r.direction === 'issued' ? 'Withheld by us' : 'Withheld by customer',
+      r.transaction_date,
+      r.voucher_number || '',
+      `"${(r.party_name || '').replace(/"/g, '""')}"`,
+      r.party_npwp || '',
+      r.tax_code,
+      Number(r.tax_base).toFixed(2),
+      r.rate,
+      Number(r.tax_amount).toFixed(2),
+      r.certificate_number || '',
+      r.certificate_date || '',
+    ]);
+    const csv = [headers.join(','), ...rows.map((row) => row.join(','))].join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `withholding_tax_${month.replace('-', '')}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between bg-white p-2 rounded-lg shadow-sm">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{t('finance.withholdingTax') || 'Withholding Tax (PPh 22 / 23)'}</h3>
+          <p className="text-[10px] text-gray-600">
+            {t('finance.withholdingTaxDesc') || 'Bukti potong issued to suppliers and received from customers'}
+          </p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <select
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as 'all' | 'issued' | 'received')}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="all">All</option>
+            <option value="issued">Withheld by us (payable)</option>
+            <option value="received">Withheld by customers (prepaid)</option>
+          </select>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value || currentMonth())}
+            className="px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            onClick={exportToCSV}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-xs disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500 text-xs">{t('common.loading') || 'Loading...'}</div>
+      ) : (
+        <>
+          {summary.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {summary.map((s) => (
+                <div key={s.key} className="bg-white rounded-lg shadow p-2">
+                  <div className="text-[10px] text-gray-500">
+                    {s.direction === 'issued' ? 'Payable' : 'Prepaid'} &middot; {s.tax_code} ({s.count})
+                  </div>
+                  <div className={`text-sm font-bold ${s.direction === 'issued' ? 'text-red-600' : 'text-blue-600'}`}>
+                    {formatCurrency(s.tax)}
+                  </div>
+                  <div className="text-[10px] text-gray-500">Base {formatCurrency(s.base)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">{t('common.date') || 'Date'}</th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Voucher</th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Party</th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Tax Code</th>
+                  <th className="px-3 py-1.5 text-right text-[10px] font-medium text-gray-500 uppercase">Base</th>
+                  <th className="px-3 py-1.5 text-right text-[10px] font-medium text-gray-500 uppercase">PPh</th>
+                  <th className="px-3 py-1.5 text-left text-[10px] font-medium text-gray-500 uppercase">Bukti Potong</th>
+                  {canEdit && <th className="px-3 py-1.5"></th>}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filtered.length === 0 ? (
+                  <tr>
+                    <td colSpan={canEdit ? 8 : 7} className="px-3 py-4 text-center text-gray-500 text-xs">
+                      {t('common.noRecords') || 'No withholding tax for this month'}
+                    </td>
+                  </tr>
+                ) : (
+                  filtered.map((r) => (
+                    <tr key={r.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-900">{formatDate(r.transaction_date)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs">
+                        <div className="font-medium text-gray-900">{r.voucher_number}</div>
+                        <div className={`text-[10px] ${r.direction === 'issued' ? 'text-red-600' : 'text-blue-600'}`}>
+                          {r.direction === 'issued' ? 'Withheld by us' : 'Withheld by customer'}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-700">
+                        <div>{r.party_name}</div>
+                        <div className="text-[10px] text-gray-500 font-mono">{r.party_npwp || 'No NPWP'}</div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-700">
+                        {r.tax_code} <span className="text-gray-500">({r.rate}%)</span>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs text-right text-gray-900">{formatCurrency(r.tax_base)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs text-right font-medium text-gray-900">{formatCurrency(r.tax_amount)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-xs">
+                        {editingId === r.id ? (
+                          <div className="flex gap-1">
+                            <input
+                              type="text"
+                              value={editForm.certificate_number}
+                              onChange={(e) => setEditForm({ ...editForm, certificate_number: e.target.value })}
+                              placeholder="Bukti potong no."
+                              className="w-32 px-1.5 py-0.5 text-xs border border-gray-300 rounded"
+                            />
+                            <input
+                              type="date"
+                              value={editForm.certificate_date}
+                              onChange={(e) => setEditForm({ ...editForm, certificate_date: e.target.value })}
+                              className="px-1.5 py-0.5 text-xs border border-gray-300 rounded"
+                            />
+                          </div>
+                        ) : r.certificate_number ? (
+                          <div>
+                            <div className="font-mono text-gray-900">{r.certificate_number}</div>
+                            {r.certificate_date && <div className="text-[10px] text-gray-500">{formatDate(r.certificate_date)}</div>}
+                          </div>
+                        ) : (
+                          <span className="px-1.5 py-0.5 text-[10px] rounded bg-yellow-100 text-yellow-800">
+                            {r.direction === 'issued' ? 'To be issued' : 'Awaiting from customer'}
+                          </span>
+                        )}
+                      </td>
+                      {canEdit && (
+                        <td className="px-3 py-2 whitespace-nowrap text-right">
+                          {editingId === r.id ? (
+                            <div className="flex justify-end gap-1">
+                              <button onClick={() => saveEdit(r.id)} className="text-green-600 hover:text-green-800" title="Save">
+                                <Check className="w-3.5 h-3.5" />
+                              </button>
+                              <button onClick={() => setEditingId(null)} className="text-gray-500 hover:text-gray-700" title="Cancel">
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          ) : (
+                            <button onClick={() => startEdit(r)} className="text-blue-600 hover:text-blue-800" title="Record bukti potong">
+                              <Edit2 className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Hash, Save, Ban } from 'lucide-react';
+import { Modal } from '../Modal';
+import { showToast } from '../ToastNotification';
+import { formatDate } from '../../utils/dateFormat';
+
+interface NumberSetting {
+  doc_type: string;
+  label: string;
+  prefix: string;
+  padding: number;
+  start_number: number;
+  updated_at: string | null;
+}
+
+interface NumberSequence {
+  doc_type: string;
+  prefix: string;
+  financial_year: string;
+  last_number: number;
+}
+
+interface VoidedNumber {
+  id: string;
+  doc_type: string;
+  document_number: string;
+  reason: string;
+  voided_at: string;
+  user_profiles?: { full_name: string } | null;
+}
+
+interface DocumentNumberingProps {
+  canEdit: boolean;
+}
+
+export function DocumentNumbering({ canEdit }: DocumentNumberingProps) {
+  const [settings, setSettings] = useState<NumberSetting[]>([]);
+  const [sequences, setSequences] = useState<NumberSequence[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [voids, setVoids] = useState<VoidedNumber[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingType, setSavingType] = useState<string | null>(null);
+  const [voidModalOpen, setVoidModalOpen] = useState(false);
+  const [voidForm, setVoidForm] = useState({ doc_type: '', document_number: '', reason: '' });
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async () => {
+    try {
+      const [settingsRes, sequencesRes, voidsRes] = await Promise.all([
+        supabase
+          .from('document_number_settings')
+          .select('doc_type, label, prefix, padding, start_number, updated_at')
+          .order('label'),
+        supabase
+          .from('document_number_sequences')
+          .select('doc_type, prefix, financial_year, last_number')
+          .order('financial_year', { ascending: false }),
+        supabase
+          .from('document_number_voids')
+          .select('id, doc_type, document_number, reason, voided_at, user_profiles:voided_by(full_name)')
+          .order('voided_at', { ascending: false })
+          .limit(100),
+      ]);
+
+      if (settingsRes.error) throw settingsRes.error;
+      const rows = settingsRes.data || [];
+      setSettings(rows);
+      setSequences(sequencesRes.data || []);
+      setVoids((voidsRes.data || []) as unknown as VoidedNumber[]);
+      loadPreviews(rows.map(r => r.doc_type));
+    } catch (error) {
+      console.error('Error loading document numbering:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPreviews = async (docTypes: string[]) => {
+    const results = await Promise.all(
+      docTypes.map(docType => supabase.rpc('peek_document_number', { p_doc_type: docType }))
+    );
+    const next: Record<string, string> = {};
+    docTypes.forEach((docType, i) => {
+      next[docType] = (results[i].data as string) || '';
+    });
+    setPreviews(next);
+  };
+
+  const handleFieldChange = (docType: string, field: 'prefix' | 'padding' | 'start_number', value: string | number) => {
+    setSettings(prev => prev.map(s => (s.doc_type === docType ? { ...s, [field]: value } : s)));
+  };
+
+  const handleSave = async (setting: NumberSetting) => {
+    const prefix = setting.prefix.trim().toUpperCase();
+    if (!/^[A-Z0-9/]+$/.test(prefix)) {
+      showToast({ type: 'error', title: 'Invalid Prefix', message: 'Use letters, digits or "/" only. The year and number are added automatically.' });
+      return;
+    }
+
+    setSavingType(setting.doc_type);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('document_number_settings')
+        .update({
+          prefix,
+          padding: setting.padding,
+          start_number: setting.start_number,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('doc_type', setting.doc_type);
+
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Saved', message: `${setting.label} numbering updated` });
+      loadAll();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Error', message: error instanceof Error ? error.message : 'Failed to save numbering' });
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  const handleVoid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase.rpc('void_document_number', {
+        p_doc_type: voidForm.doc_type,
+        p_document_number: voidForm.document_number,
+        p_reason: voidForm.reason,
+      });
+      if (error) throw error;
+
+      showToast({ type: 'success', title: 'Recorded', message: `${voidForm.document_number} recorded as voided` });
+      setVoidModalOpen(false);
+      setVoidForm({ doc_type: '', document_number: '', reason: '' });
+      loadAll();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Error', message: error instanceof Error ? error.message : 'Failed to void number' });
+    }
+  };
+
+  const labelFor = (docType: string) => settings.find(s => s.doc_type === docType)?.label || docType;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+          <Hash className="w-5 h-5" />
+          Document Numbering
+        </h3>
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-sm text-blue-800">
+            Numbers are assigned by the database when a document is saved, in the format
+            PREFIX-YY-0001 where YY is the current financial year. Each prefix and year has its own
+            counter, so changing a prefix starts a new series. Start number only applies to a series
+            that has not been used yet.
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Document</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Prefix</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Digits</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Start No.</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Issued</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Next Number</th>
+              {canEdit && <th className="px-4 py-3" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {settings.map(setting => {
+              const current = sequences.find(seq => seq.doc_type === setting.doc_type && seq.prefix === setting.prefix);
+              return (
+                <tr key={setting.doc_type}>
+                  <td className="px-4 py-3 font-medium text-gray-900">{setting.label}</td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={setting.prefix}
+                      onChange={(e) => handleFieldChange(setting.doc_type, 'prefix', e.target.value)}
+                      disabled={!canEdit}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded font-mono uppercase disabled:bg-gray-100"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={setting.padding}
+                      onChange={(e) => handleFieldChange(setting.doc_type, 'padding', Number(e.target.value))}
+                      disabled={!canEdit}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      min={1}
+                      value={setting.start_number}
+                      onChange={(e) => handleFieldChange(setting.doc_type, 'start_number', Number(e.target.value))}
+                      disabled={!canEdit}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {current ? `${current.last_number} (FY ${current.financial_year})` : '—'}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-blue-700">{previews[setting.doc_type] || '—'}</td>
+                  {canEdit && (
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleSave(setting)}
+                        disabled={savingType === setting.doc_type}
+                        className="inline-flex items-center gap-1 px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Save className="w-3.5 h-3.5" />
+                        Save
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Voided Numbers</h3>
+          {canEdit && (
+            <button
+              onClick={() => setVoidModalOpen(true)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+            >
+              <Ban className="w-4 h-4" />
+              Void a Number
+            </button>
+          )}
+        </div>
+        {voids.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No voided numbers</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Document</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Number</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {voids.map(v => (
+                  <tr key={v.id}>
+                    <td className="px-4 py-2 text-gray-600">{formatDate(v.voided_at)}</td>
+                    <td className="px-4 py-2 text-gray-900">{labelFor(v.doc_type)}</td>
+                    <td className="px-4 py-2 font-mono">{v.document_number}</td>
+                    <td className="px-4 py-2 text-gray-600">{v.reason}</td>
+                    <td className="px-4 py-2 text-gray-600">{v.user_profiles?.full_name || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={voidModalOpen} onClose={() => setVoidModalOpen(false)} title="Void a Document Number">
+        <form onSubmit={handleVoid} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Record a number that was issued but will not be used (for example a spoiled pre-printed form),
+            so the gap in the series is explained in the audit trail.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Document Type *</label>
+            <select
+              required
+              value={voidForm.doc_type}
+              onChange={(e) => setVoidForm({ ...voidForm, doc_type: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Select type</option>
+              {settings.map(s => (
+                <option key={s.doc_type} value={s.doc_type}>{s.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Document Number *</label>
+            <input
+              type="text"
+              required
+              value={voidForm.document_number}
+              onChange={(e) => setVoidForm({ ...voidForm, document_number: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+            <textarea
+              required
+              rows={2}
+              value={voidForm.reason}
+              onChange={(e) => setVoidForm({ ...voidForm, reason: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setVoidModalOpen(false)} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700">
+              Void Number
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { Plus, Edit, Trash2, Save, X, Search } from 'lucide-react';
 import { Modal } from '../Modal';
+import { SupplierGradeBadge, SupplierScorecardModal } from '../SupplierScorecard';
+import { fetchSupplierScores, type SupplierScorecard } from '../../utils/supplierScores';
 
 interface Supplier {
   id: string;
@@ -13,6 +15,7 @@ interface Supplier {
   city?: string;
   postal_code?: string;
   npwp?: string;
+  nitku?: string;
   payment_terms_days?: number;
   is_active: boolean;
   created_at: string;
@@ -25,6 +28,8 @@ export function SuppliersManager() {
   const [searchTerm, setSearchTerm] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [scores, setScores] = useState<Record<string, SupplierScorecard>>({});
+  const [scorecardSupplier, setScorecardSupplier] = useState<Supplier | null>(null);
   const [formData, setFormData] = useState({
     company_name: '',
     contact_person: '',
@@ -34,12 +39,14 @@ export function SuppliersManager() {
     city: '',
     postal_code: '',
     npwp: '',
+    nitku: '',
     payment_terms_days: 30,
     is_active: true,
   });
 
   useEffect(() => {
     fetchSuppliers();
+    fetchSupplierScores().then(setScores);
   }, []);
 
   useEffect(() => {
@@ -90,6 +97,7 @@ export function SuppliersManager() {
       city: '',
       postal_code: '',
       npwp: '',
+      nitku: '',
       payment_terms_days: 30,
       is_active: true,
     });
@@ -107,6 +115,7 @@ export function SuppliersManager() {
       city: supplier.city || '',
       postal_code: supplier.postal_code || '',
       npwp: supplier.npwp || '',
+      nitku: supplier.nitku || '',
       payment_terms_days: supplier.payment_terms_days || 30,
       is_active: supplier.is_active,
     });
@@ -235,6 +244,9 @@ export function SuppliersManager() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Phone
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Score
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Status
               </th>
@@ -246,7 +258,7 @@ export function SuppliersManager() {
           <tbody className="bg-white divide-y divide-gray-200">
             {filteredSuppliers.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                   No suppliers found
                 </td>
               </tr>
@@ -265,6 +277,12 @@ export function SuppliersManager() {
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-500">{supplier.phone || '-'}</div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <SupplierGradeBadge
+                      scorecard={scores[supplier.id]}
+                      onClick={() => setScorecardSupplier(supplier)}
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <button
                       onClick={() => handleToggleActive(supplier)}
@@ -372,6 +390,19 @@ export function SuppliersManager() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  NITKU
+                </label>
+                <input
+                  type="text"
+                  value={formData.nitku}
+                  onChange={(e) => setFormData({ ...formData, nitku: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  placeholder="22 digits, blank = head office"
+                />
+              </div>
+
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Address
@@ -455,6 +486,8 @@ export function SuppliersManager() {
           </form>
         </Modal>
       )}
+
+      <SupplierScorecardModal supplier={scorecardSupplier} onClose={() => setScorecardSupplier(null)} />
     </div>
   );
 }
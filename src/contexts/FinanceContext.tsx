@@ -1,32 +1,68 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
 
 interface FinanceDateRange {
   startDate: string;
   endDate: string;
 }
 
+interface PeriodLockStatus {
+  /** Documents dated on or before this date are in a closed period */
+  lockDate: string | null;
+  /** Set while the current user has an admin override of the period lock */
+  overrideExpiresAt: string | null;
+}
+
 interface FinanceContextType {
   dateRange: FinanceDateRange;
   setDateRange: (range: FinanceDateRange) => void;
   refreshTrigger: number;
   triggerRefresh: () => void;
+  periodLock: PeriodLockStatus;
+  refreshPeriodLock: () => Promise<void>;
+  isDateLocked: (date: string) => boolean;
 }
 
 const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
 
 export function FinanceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
   const [dateRange, setDateRange] = useState<FinanceDateRange>({
     startDate: new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0],
     endDate: new Date().toISOString().split('T')[0],
   });
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [periodLock, setPeriodLock] = useState<PeriodLockStatus>({ lockDate: null, overrideExpiresAt: null });
 
   const triggerRefresh = () => {
     setRefreshTrigger(prev => prev + 1);
   };
 
+  const refreshPeriodLock = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_period_lock_status');
+    if (error) {
+      console.error('Error loading period lock:', error);
+      return;
+    }
+    setPeriodLock({
+      lockDate: data?.lock_date || null,
+      overrideExpiresAt: data?.override_expires_at || null,
+    });
+  }, []);
+
+  useEffect(() => {
+    if (user) refreshPeriodLock();
+  }, [user, refreshPeriodLock]);
+
+  const isDateLocked = (date: string) => {
+    if (!periodLock.lockDate || !date) return false;
+    if (periodLock.overrideExpiresAt && new Date(periodLock.overrideExpiresAt) > new Date()) return false;
+    return date.slice(0, 10) <= periodLock.lockDate;
+  };
+
   return (
-    <FinanceContext.Provider value={{ dateRange, setDateRange, refreshTrigger, triggerRefresh }}>
+    <FinanceContext.Provider value={{ dateRange, setDateRange, refreshTrigger, triggerRefresh, periodLock, refreshPeriodLock, isDateLocked }}>
       {children}
     </FinanceContext.Provider>
   );
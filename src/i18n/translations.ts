@@ -100,6 +100,9 @@ export const translations = {
       products: 'Products',
       stock: 'Stock',
       batches: 'Batches',
+      expiryManagement: 'Expiry Management',
+      stockOpname: 'Stock Opname',
+      warehouses: 'Warehouses & Transfers',
       inventory: 'Inventory',
       customers: 'Customers',
       crm: 'CRM',
@@ -113,8 +116,12 @@ export const translations = {
       users: 'Users',
       salesOrders: 'Sales Orders',
       purchaseOrders: 'Purchase Orders',
+      rfqs: 'Supplier Quotations',
+      goodsReceipts: 'Goods Receipts',
       importRequirements: 'Import Requirements',
+      demandPlanning: 'Demand Planning',
       importContainers: 'Import Containers',
+      landedCostSimulations: 'Landed Cost Simulator',
       commandCenter: 'Command Center',
       tasks: 'Tasks',
       creditNotes: 'Credit Notes',
@@ -283,6 +290,20 @@ export const translations = {
       paymentTerms: 'Payment Terms',
       pharmacyLicense: 'Pharmacy License',
       pbfLicense: 'PBF License',
+      minShelfLife: 'Min. Shelf Life at Delivery (months)',
+      minShelfLifePercent: 'Min. Shelf Life at Delivery (% of total)',
+      shelfLifeRuleMode: 'Shelf-Life Rule',
+      shelfLifeWarn: 'Warn (allow with reason)',
+      shelfLifeBlock: 'Block short-dated batches',
+      segment: 'Customer Segment',
+      paymentTermsDays: 'Payment Terms (days)',
+      creditLimit: 'Credit Limit (IDR)',
+      overdueThresholdDays: 'Max. Days Overdue',
+      creditControlMode: 'On Credit Breach',
+      creditRouteToManager: 'Route to manager for approval',
+      creditBlock: 'Block order approval',
+      creditHold: 'Credit hold (no new orders approved)',
+      creditHoldReason: 'Reason for credit hold',
     },
     crm: {
       title: 'CRM',
@@ -393,6 +414,22 @@ export const translations = {
       rejectionReason: 'Rejection Reason',
       currency: 'Currency',
       advancePayment: 'Advance Payment',
+      creditWithinTerms: 'Customer is within credit terms',
+      creditNeedsApproval: 'approval will need a manager',
+      creditLimit: 'Limit',
+      creditNoLimit: 'No limit',
+      creditExposure: 'Exposure',
+      creditAvailable: 'Available',
+      creditOverdue: 'Overdue',
+      creditOpenInvoices: 'Open invoices',
+      creditUninvoicedDc: 'Un-invoiced DCs',
+      creditOpenOrders: 'Open orders',
+      creditOverLimit: 'Over credit limit',
+      creditOverdueBlocked: 'Overdue invoices',
+      creditOnHold: 'Credit hold',
+      creditPendingApproval: 'Credit approval pending',
+      creditApproved: 'Credit approved',
+      creditRejected: 'Credit rejected',
     },
     purchaseOrders: {
       title: 'Purchase Orders',
@@ -522,6 +559,11 @@ export const translations = {
       bankLedger: 'Bank Ledger',
       partyLedger: 'Party Ledger',
       bankReconciliation: 'Bank Reconciliation',
+      periodClose: 'Period Close',
+      fxRevaluation: 'FX Revaluation',
+      fixedAssets: 'Fixed Assets',
+      inventoryValuation: 'Inventory Valuation',
+      auditTrail: 'Audit Trail',
       caReports: 'CA Reports (Excel)',
       trialBalance: 'Trial Balance',
       profitLoss: 'Profit & Loss',
@@ -533,6 +575,7 @@ export const translations = {
       chartOfAccounts: 'Chart of Accounts',
       suppliers: 'Suppliers',
       banks: 'Banks',
+      exchangeRates: 'Exchange Rates',
       dateRange: 'Date Range',
       from: 'From',
       to: 'To',
@@ -975,6 +1018,9 @@ export const translations = {
       products: 'Produk',
       stock: 'Stok',
       batches: 'Batch',
+      expiryManagement: 'Manajemen Kedaluwarsa',
+      stockOpname: 'Stok Opname',
+      warehouses: 'Gudang & Transfer',
       inventory: 'Inventaris',
       customers: 'Pelanggan',
       crm: 'CRM',
@@ -988,8 +1034,12 @@ export const translations = {
       users: 'Pengguna',
       salesOrders: 'Sales Order',
       purchaseOrders: 'Purchase Order',
+      rfqs: 'Penawaran Pemasok',
+      goodsReceipts: 'Penerimaan Barang',
       importRequirements: 'Kebutuhan Impor',
+      demandPlanning: 'Perencanaan Permintaan',
       importContainers: 'Kontainer Impor',
+      landedCostSimulations: 'Simulasi Biaya Landed',
       commandCenter: 'Pusat Komando',
       tasks: 'Tugas',
       creditNotes: 'Nota Kredit',
@@ -1158,6 +1208,20 @@ export const translations = {
       paymentTerms: 'Syarat Pembayaran',
       pharmacyLicense: 'Lisensi Apotek',
       pbfLicense: 'Lisensi PBF',
+      minShelfLife: 'Min. Sisa Masa Simpan saat Kirim (bulan)',
+      minShelfLifePercent: 'Min. Sisa Masa Simpan saat Kirim (% dari total)',
+      shelfLifeRuleMode: 'Aturan Masa Simpan',
+      shelfLifeWarn: 'Peringatan (boleh dengan alasan)',
+      shelfLifeBlock: 'Blokir batch dengan ED pendek',
+      segment: 'Segmen Pelanggan',
+      paymentTermsDays: 'Termin Pembayaran (hari)',
+      creditLimit: 'Limit Kredit (IDR)',
+      overdueThresholdDays: 'Maks. Hari Jatuh Tempo Lewat',
+      creditControlMode: 'Jika Kredit Terlampaui',
+      creditRouteToManager: 'Ajukan ke manajer untuk persetujuan',
+      creditBlock: 'Blokir persetujuan order',
+      creditHold: 'Tahan kredit (order baru tidak disetujui)',
+      creditHoldReason: 'Alasan penahanan kredit',
     },
     crm: {
       title: 'CRM',
@@ -1268,6 +1332,22 @@ export const translations = {
       rejectionReason: 'Alasan Penolakan',
       currency: 'Mata Uang',
       advancePayment: 'Pembayaran Di Muka',
+      creditWithinTerms: 'Pelanggan masih dalam batas kredit',
+      creditNeedsApproval: 'persetujuan memerlukan manajer',
+      creditLimit: 'Limit',
+      creditNoLimit: 'Tanpa limit',
+      creditExposure: 'Eksposur',
+      creditAvailable: 'Sisa',
+      creditOverdue: 'Jatuh tempo',
+      creditOpenInvoices: 'Faktur terbuka',
+      creditUninvoicedDc: 'SJ belum difaktur',
+      creditOpenOrders: 'Order terbuka',
+      creditOverLimit: 'Melebihi limit kredit',
+      creditOverdueBlocked: 'Faktur lewat jatuh tempo',
+      creditOnHold: 'Kredit ditahan',
+      creditPendingApproval: 'Menunggu persetujuan kredit',
+      creditApproved: 'Kredit disetujui',
+      creditRejected: 'Kredit ditolak',
     },
     purchaseOrders: {
       title: 'Purchase Order',
@@ -1397,6 +1477,11 @@ export const translations = {
       bankLedger: 'Buku Bank',
       partyLedger: 'Buku Pihak',
       bankReconciliation: 'Rekonsiliasi Bank',
+      periodClose: 'Tutup Buku',
+      fxRevaluation: 'Revaluasi Kurs',
+      fixedAssets: 'Aset Tetap',
+      inventoryValuation: 'Penilaian Persediaan',
+      auditTrail: 'Jejak Audit',
       caReports: 'Laporan CA (Excel)',
       trialBalance: 'Neraca Saldo',
       profitLoss: 'Laba Rugi',
@@ -1408,6 +1493,7 @@ export const translations = {
       chartOfAccounts: 'Bagan Akun',
       suppliers: 'Pemasok',
       banks: 'Bank',
+      exchangeRates: 'Kurs Valuta Asing',
       dateRange: 'Rentang Tanggal',
       from: 'Dari',
       to: 'Sampai',
@@ -7,9 +7,23 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Tags database requests with the screen they came from so audit_logs can record where a change
+// was made. Edge function calls are left alone: their CORS headers do not allow extra headers.
+const fetchWithSourceScreen: typeof fetch = (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (!url.includes('/rest/v1/')) {
+    return fetch(input, init);
+  }
+  const headers = new Headers(init?.headers);
+  headers.set('x-source-screen', window.location.pathname);
+  return fetch(input, { ...init, headers });
+};
 
-export type UserRole = 'admin' | 'accounts' | 'sales' | 'warehouse' | 'auditor_ca';
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  global: { fetch: fetchWithSourceScreen },
+});
+
+export type UserRole = 'admin' | 'accounts' | 'sales' | 'warehouse' | 'manager' | 'auditor_ca';
 
 export interface UserProfile {
   id: string;
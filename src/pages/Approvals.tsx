@@ -88,6 +88,10 @@ export default function Approvals() {
           tableName = 'stock_rejections';
           selectFields = '*, product:products(product_name, product_code), batch:batches(batch_number)';
           break;
+        case 'sales_order_credit':
+          tableName = 'sales_orders';
+          selectFields = 'id, so_number, so_date, currency, total_amount, credit_status, customer:customers(company_name)';
+          break;
         default:
           return null;
       }
@@ -238,6 +242,8 @@ export default function Approvals() {
       stock_rejection: t('stockRejection') || 'Stock Rejection',
       purchase_approval: t('purchaseApproval') || 'Purchase Approval',
       expense_approval: t('expenseApproval') || 'Expense Approval',
+      purchase_invoice_variance: t('purchaseInvoiceVariance') || 'Purchase Invoice Variance',
+      sales_order_credit: t('salesOrderCredit') || 'Sales Order Credit',
     };
     return labels[type] || type;
   };
@@ -318,6 +324,8 @@ export default function Approvals() {
             <option value="material_return">{t('materialReturns') || 'Material Returns'}</option>
             <option value="stock_rejection">{t('stockRejections') || 'Stock Rejections'}</option>
             <option value="purchase_approval">{t('purchaseApprovals') || 'Purchase Approvals'}</option>
+            <option value="purchase_invoice_variance">{t('purchaseInvoiceVariances') || 'Purchase Invoice Variances'}</option>
+            <option value="sales_order_credit">{t('salesOrderCredits') || 'Sales Order Credit'}</option>
           </select>
         </div>
 
@@ -493,6 +501,42 @@ export default function Approvals() {
                       </div>
                     </>
                   )}
+
+                  {selectedApproval.transaction_type === 'sales_order_credit' && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('soNumber') || 'SO #'}:</span>
+                        <span className="font-medium">{transactionDetails.so_number}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('customer') || 'Customer'}:</span>
+                        <span className="font-medium">{transactionDetails.customer?.company_name}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('orderTotal') || 'Order Total'}:</span>
+                        <span className="font-medium">{transactionDetails.currency} {Number(transactionDetails.total_amount).toLocaleString('id-ID', { minimumFractionDigits: 2 })}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('creditLimit') || 'Credit Limit'}:</span>
+                        <span className="font-medium">
+                          {selectedApproval.metadata?.credit_limit == null
+                            ? '-'
+                            : `Rp ${Number(selectedApproval.metadata.credit_limit).toLocaleString('id-ID')}`}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('creditExposure') || 'Exposure incl. this order'}:</span>
+                        <span className="font-medium">Rp {Number(selectedApproval.metadata?.exposure || 0).toLocaleString('id-ID')}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('overdue') || 'Overdue'}:</span>
+                        <span className="font-medium">
+                          Rp {Number(selectedApproval.metadata?.overdue_amount || 0).toLocaleString('id-ID')}
+                          {' '}({selectedApproval.metadata?.max_days_overdue || 0} {t('days') || 'days'})
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
             )}
@@ -10,9 +10,11 @@ import { Plus, Edit, Trash2, AlertTriangle, Package, DollarSign, FileText, Exter
 import { ProformaInvoiceView } from '../components/ProformaInvoiceView';
 import { DeliveryChallanView } from '../components/DeliveryChallanView';
 import { InvoiceView } from '../components/InvoiceView';
+import { AuditHistory } from '../components/AuditHistory';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { formatDate } from '../utils/dateFormat';
+import { fetchExchangeRate } from '../utils/exchangeRates';
 
 interface Batch {
   id: string;
@@ -782,6 +784,12 @@ export function Batches() {
     return amount;
   };
 
+  // Fills an empty USD rate from the exchange rate master for the import date; a typed rate is kept
+  const defaultUsdRate = async (importDate: string) => {
+    const rate = await fetchExchangeRate('USD', importDate);
+    if (rate) setFormData(prev => (prev.exchange_rate_usd_to_idr > 0 ? prev : { ...prev, exchange_rate_usd_to_idr: rate }));
+  };
+
   const formatCurrency = (amount: number, currency: 'USD' | 'IDR' = 'IDR') => {
     if (currency === 'USD') {
       return `$ ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -1211,7 +1219,10 @@ export function Batches() {
                   <input
                     type="date"
                     value={formData.import_date}
-                    onChange={(e) => setFormData({ ...formData, import_date: e.target.value })}
+                    onChange={(e) => {
+                      setFormData({ ...formData, import_date: e.target.value });
+                      if (formData.import_price_usd > 0 && formData.exchange_rate_usd_to_idr <= 0) defaultUsdRate(e.target.value);
+                    }}
                     className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                     required
                   />
@@ -1411,7 +1422,11 @@ export function Batches() {
                   <input
                     type="number"
                     value={formData.import_price_usd === 0 ? '' : formData.import_price_usd}
-                    onChange={(e) => setFormData({ ...formData, import_price_usd: e.target.value === '' ? 0 : Number(e.target.value) })}
+                    onChange={(e) => {
+                      const importPriceUsd = e.target.value === '' ? 0 : Number(e.target.value);
+                      setFormData({ ...formData, import_price_usd: importPriceUsd });
+                      if (importPriceUsd > 0 && formData.exchange_rate_usd_to_idr <= 0) defaultUsdRate(formData.import_date);
+                    }}
                     className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                     min="0"
                     step="0.01"
@@ -1840,6 +1855,9 @@ export function Batches() {
                 <p>No transactions found for this batch</p>
               </div>
             )}
+            {selectedProductForHistory?.batchId && (
+              <AuditHistory documentTable="batches" documentId={selectedProductForHistory.batchId} />
+            )}
           </div>
         </Modal>
       </div>
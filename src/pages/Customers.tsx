@@ -10,11 +10,15 @@ import { Plus, Edit, Trash2, Mail, Phone, MessageCircle } from 'lucide-react';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { indonesiaCities, paymentTermsOptions } from '../data/indonesiaCities';
+import { CUSTOMER_SEGMENTS, ShelfLifeRuleMode } from '../utils/shelfLife';
+import { CreditControlMode, paymentTermsToDays } from '../utils/customerCredit';
 
 interface Customer {
   id: string;
   company_name: string;
   npwp: string;
+  nik: string | null;
+  nitku: string | null;
   address: string;
   city: string;
   country: string;
@@ -24,6 +28,16 @@ interface Customer {
   pbf_license: string;
   gst_vat_type: string;
   payment_terms: string;
+  min_shelf_life_months: number | null;
+  min_shelf_life_percent: number | null;
+  shelf_life_rule_mode: ShelfLifeRuleMode;
+  customer_segment: string | null;
+  credit_limit: number | null;
+  payment_terms_days: number | null;
+  overdue_threshold_days: number | null;
+  credit_control_mode: CreditControlMode;
+  credit_hold: boolean;
+  credit_hold_reason: string | null;
   is_active: boolean;
 }
 
@@ -37,6 +51,8 @@ export function Customers() {
   const [formData, setFormData] = useState({
     company_name: '',
     npwp: '',
+    nik: '',
+    nitku: '',
     address: '',
     city: 'Jakarta Pusat',
     country: 'Indonesia',
@@ -46,6 +62,16 @@ export function Customers() {
     pbf_license: '',
     gst_vat_type: '',
     payment_terms: '',
+    min_shelf_life_months: '',
+    min_shelf_life_percent: '',
+    shelf_life_rule_mode: 'warn' as ShelfLifeRuleMode,
+    customer_segment: '',
+    credit_limit: '',
+    payment_terms_days: '30',
+    overdue_threshold_days: '30',
+    credit_control_mode: 'approval' as CreditControlMode,
+    credit_hold: false,
+    credit_hold_reason: '',
   });
 
   useEffect(() => {
@@ -72,18 +98,29 @@ export function Customers() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const customerData = {
+      ...formData,
+      min_shelf_life_months: formData.min_shelf_life_months === '' ? null : Number(formData.min_shelf_life_months),
+      min_shelf_life_percent: formData.min_shelf_life_percent === '' ? null : Number(formData.min_shelf_life_percent),
+      customer_segment: formData.customer_segment || null,
+      credit_limit: formData.credit_limit === '' ? null : Number(formData.credit_limit),
+      payment_terms_days: formData.payment_terms_days === '' ? 0 : Number(formData.payment_terms_days),
+      overdue_threshold_days: formData.overdue_threshold_days === '' ? null : Number(formData.overdue_threshold_days),
+      credit_hold_reason: formData.credit_hold ? formData.credit_hold_reason || null : null,
+    };
+
     try {
       if (editingCustomer) {
         const { error } = await supabase
           .from('customers')
-          .update(formData)
+          .update(customerData)
           .eq('id', editingCustomer.id);
 
         if (error) throw error;
       } else {
         const { error } = await supabase
           .from('customers')
-          .insert([{ ...formData, created_by: profile?.id }]);
+          .insert([{ ...customerData, created_by: profile?.id }]);
 
         if (error) throw error;
       }
@@ -102,6 +139,8 @@ export function Customers() {
     setFormData({
       company_name: '',
       npwp: '',
+      nik: '',
+      nitku: '',
       address: '',
       city: 'Jakarta Pusat',
       country: 'Indonesia',
@@ -111,6 +150,16 @@ export function Customers() {
       pbf_license: '',
       gst_vat_type: '',
       payment_terms: '',
+      min_shelf_life_months: '',
+      min_shelf_life_percent: '',
+      shelf_life_rule_mode: 'warn',
+      customer_segment: '',
+      credit_limit: '',
+      payment_terms_days: '30',
+      overdue_threshold_days: '30',
+      credit_control_mode: 'approval',
+      credit_hold: false,
+      credit_hold_reason: '',
     });
   };
 
@@ -119,6 +168,8 @@ export function Customers() {
     setFormData({
       company_name: customer.company_name,
       npwp: customer.npwp,
+      nik: customer.nik || '',
+      nitku: customer.nitku || '',
       address: customer.address,
       city: customer.city,
       country: customer.country,
@@ -128,6 +179,16 @@ export function Customers() {
       pbf_license: customer.pbf_license || '',
       gst_vat_type: customer.gst_vat_type,
       payment_terms: customer.payment_terms,
+      min_shelf_life_months: customer.min_shelf_life_months?.toString() ?? '',
+      min_shelf_life_percent: customer.min_shelf_life_percent?.toString() ?? '',
+      shelf_life_rule_mode: customer.shelf_life_rule_mode || 'warn',
+      customer_segment: customer.customer_segment || '',
+      credit_limit: customer.credit_limit?.toString() ?? '',
+      payment_terms_days: customer.payment_terms_days?.toString() ?? '30',
+      overdue_threshold_days: customer.overdue_threshold_days?.toString() ?? '',
+      credit_control_mode: customer.credit_control_mode || 'approval',
+      credit_hold: customer.credit_hold || false,
+      credit_hold_reason: customer.credit_hold_reason || '',
     });
     setModalOpen(true);
   };
@@ -271,6 +332,36 @@ export function Customers() {
               />
             </div>
 
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                NIK
+              </label>
+              <input
+                type="text"
+                value={formData.nik}
+                onChange={(e) =>
+                  setFormData({ ...formData, nik: e.target.value })
+                }
+                placeholder="Only if the customer has no NPWP"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                NITKU
+              </label>
+              <input
+                type="text"
+                value={formData.nitku}
+                onChange={(e) =>
+                  setFormData({ ...formData, nitku: e.target.value })
+                }
+                placeholder="22 digits, blank = head office"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
             <div>
               <label className="block text-xs font-medium text-gray-700 mb-1">
                 {t('customers.contactPerson')} *
@@ -377,9 +468,14 @@ export function Customers() {
               </label>
               <select
                 value={formData.payment_terms}
-                onChange={(e) =>
-                  setFormData({ ...formData, payment_terms: e.target.value })
-                }
+                onChange={(e) => {
+                  const days = paymentTermsToDays(e.target.value);
+                  setFormData({
+                    ...formData,
+                    payment_terms: e.target.value,
+                    payment_terms_days: days === null ? formData.payment_terms_days : days.toString(),
+                  });
+                }}
                 className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
               >
                 <option value="">Select Payment Terms</option>
@@ -390,6 +486,165 @@ export function Customers() {
                 ))}
               </select>
             </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.minShelfLife')}
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.min_shelf_life_months}
+                onChange={(e) =>
+                  setFormData({ ...formData, min_shelf_life_months: e.target.value })
+                }
+                placeholder="No requirement"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.minShelfLifePercent')}
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.min_shelf_life_percent}
+                onChange={(e) =>
+                  setFormData({ ...formData, min_shelf_life_percent: e.target.value })
+                }
+                placeholder="No requirement"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.shelfLifeRuleMode')}
+              </label>
+              <select
+                value={formData.shelf_life_rule_mode}
+                onChange={(e) =>
+                  setFormData({ ...formData, shelf_life_rule_mode: e.target.value as ShelfLifeRuleMode })
+                }
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="warn">{t('customers.shelfLifeWarn')}</option>
+                <option value="block">{t('customers.shelfLifeBlock')}</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.segment')}
+              </label>
+              <select
+                value={formData.customer_segment}
+                onChange={(e) =>
+                  setFormData({ ...formData, customer_segment: e.target.value })
+                }
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="">Unassigned</option>
+                {CUSTOMER_SEGMENTS.map((segment) => (
+                  <option key={segment.value} value={segment.value}>
+                    {segment.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.paymentTermsDays')}
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.payment_terms_days}
+                onChange={(e) =>
+                  setFormData({ ...formData, payment_terms_days: e.target.value })
+                }
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.creditLimit')}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.credit_limit}
+                onChange={(e) =>
+                  setFormData({ ...formData, credit_limit: e.target.value })
+                }
+                placeholder="No limit"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.overdueThresholdDays')}
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.overdue_threshold_days}
+                onChange={(e) =>
+                  setFormData({ ...formData, overdue_threshold_days: e.target.value })
+                }
+                placeholder="Not checked"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('customers.creditControlMode')}
+              </label>
+              <select
+                value={formData.credit_control_mode}
+                onChange={(e) =>
+                  setFormData({ ...formData, credit_control_mode: e.target.value as CreditControlMode })
+                }
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="approval">{t('customers.creditRouteToManager')}</option>
+                <option value="block">{t('customers.creditBlock')}</option>
+              </select>
+            </div>
+
+            <div className="col-span-2">
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1">
+                <input
+                  type="checkbox"
+                  checked={formData.credit_hold}
+                  onChange={(e) =>
+                    setFormData({ ...formData, credit_hold: e.target.checked })
+                  }
+                  className="rounded border-gray-300"
+                />
+                {t('customers.creditHold')}
+              </label>
+              {formData.credit_hold && (
+                <input
+                  type="text"
+                  value={formData.credit_hold_reason}
+                  onChange={(e) =>
+                    setFormData({ ...formData, credit_hold_reason: e.target.value })
+                  }
+                  placeholder={t('customers.creditHoldReason')}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                />
+              )}
+            </div>
           </div>
 
           <div className="col-span-2">
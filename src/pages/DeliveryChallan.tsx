@@ -13,6 +13,9 @@ import { Plus, Trash2, Eye, Edit, FileText, CheckCircle, XCircle } from 'lucide-
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { formatDate } from '../utils/dateFormat';
+import { previewDocumentNumber } from '../utils/documentNumbers';
+import { ShelfLifeRule, describeShelfLifeRule, getShelfLifeShortfall } from '../utils/shelfLife';
+import { BatchLocationStock, BATCH_LOCATION_STOCK_SELECT, formatLocationCode } from '../utils/warehouses';
 
 interface DeliveryChallan {
   id: string;
@@ -41,6 +44,8 @@ interface ChallanItem {
   id?: string;
   product_id: string;
   batch_id: string;
+  // Warehouse bin the goods are picked from; stock leaves this location on approval
+  location_id?: string | null;
   quantity: number;
   pack_size: number | null;
   pack_type: string | null;
@@ -56,9 +61,22 @@ interface ChallanItem {
     current_stock: number;
     packaging_details: string | null;
   };
+  // Batch the FEFO engine proposed for this line; picking another one needs a reason
+  fefo_batch_id?: string | null;
+  fefo_skipped?: FefoAllocationRow[];
+  override_reason?: string;
 }
 
-interface Customer {
+interface FefoAllocationRow {
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string | null;
+  available_quantity: number;
+  allocated_quantity: number;
+  skip_reason: string | null;
+}
+
+interface Customer extends ShelfLifeRule {
   id: string;
   company_name: string;
   address: string;
@@ -81,11 +99,13 @@ interface Batch {
   expiry_date: string | null;
   packaging_details: string | null;
   import_date: string | null;
+  manufacture_date: string | null;
 }
 
-const isExpired = (expiryDate: string | null): boolean => {
-  if (!expiryDate) return false;
-  return new Date(expiryDate) < new Date();
+const parsePackaging = (packagingDetails: string | null) => {
+  const match = packagingDetails?.match(/(\d+)\s+(\w+)s?\s+x\s+(\d+(?:\.\d+)?)kg/i);
+  if (!match) return { packSize: null, packType: null };
+  return { packSize: parseFloat(match[3]), packType: match[2].toLowerCase() };
 };
 
 export function DeliveryChallan() {
@@ -96,6 +116,7 @@ export function DeliveryChallan() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [batches, setBatches] = useState<Batch[]>([]);
+  const [batchLocations, setBatchLocations] = useState<BatchLocationStock[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
@@ -229,57 +250,11 @@ export function DeliveryChallan() {
     }
   };
 
-  const generateNextChallanNumber = async () => {
-    try {
-      // Get current financial year automatically
-      const { data: yearCode, error: fyError } = await supabase
-        .rpc('get_current_financial_year');
-
-      if (fyError) {
-        console.error('Error getting financial year:', fyError);
-        const fallbackYear = new Date().getFullYear().toString().slice(-2);
-        return `DO-${fallbackYear}-0001`;
-      }
-
-      const prefix = 'DO';
-
-      // Get all challan numbers with this prefix and year to find the highest number
-      const { data: allChallans } = await supabase
-        .from('delivery_challans')
-        .select('challan_number')
-        .or(`challan_number.like.DO-${yearCode}%,challan_number.like.DC-${yearCode}%`);
-
-      let nextNumber = 1;
-
-      if (allChallans && allChallans.length > 0) {
-        // Extract all numbers and find the maximum
-        const numbers = allChallans
-          .map(challan => {
-            const match = challan.challan_number.match(/(\d+)$/);
-            return match ? parseInt(match[1], 10) : 0;
-          })
-          .filter(num => !isNaN(num));
-
-        if (numbers.length > 0) {
-          const maxNumber = Math.max(...numbers);
-          nextNumber = maxNumber + 1;
-        }
-      }
-
-      const paddedNumber = String(nextNumber).padStart(4, '0');
-      return `${prefix}-${yearCode}-${paddedNumber}`;
-    } catch (error) {
-      console.error('Error generating challan number:', error);
-      const fallbackYear = new Date().getFullYear().toString().slice(-2);
-      return `DO-${fallbackYear}-0001`;
-    }
-  };
-
   const loadCustomers = async () => {
     try {
       const { data, error } = await supabase
         .from('customers')
-        .select('id, company_name, address, city')
+        .select('id, company_name, address, city, min_shelf_life_months, min_shelf_life_percent, shelf_life_rule_mode')
         .eq('is_active', true)
         .order('company_name');
 
@@ -309,13 +284,22 @@ export function DeliveryChallan() {
     try {
       const { data, error } = await supabase
         .from('batches')
-        .select('id, batch_number, product_id, current_stock, reserved_stock, expiry_date, packaging_details, import_date')
+        .select('id, batch_number, product_id, current_stock, reserved_stock, expiry_date, packaging_details, import_date, manufacture_date')
         .eq('is_active', true)
         .gt('current_stock', 0)
         .order('import_date', { ascending: true });
 
       if (error) throw error;
       setBatches(data || []);
+
+      const { data: locationData, error: locationError } = await supabase
+        .from('batch_location_stock')
+        .select(BATCH_LOCATION_STOCK_SELECT)
+        .in('batch_id', (data || []).map(b => b.id))
+        .gt('quantity', 0);
+
+      if (locationError) throw locationError;
+      setBatchLocations((locationData || []) as unknown as BatchLocationStock[]);
     } catch (error) {
       console.error('Error loading batches:', error);
     }
@@ -336,15 +320,132 @@ export function DeliveryChallan() {
     }
   };
 
-  const getFIFOBatch = (productId: string) => {
-    const productBatches = batches
-      .filter(b => b.product_id === productId && !isExpired(b.expiry_date) && getAvailableStock(b) > 0)
-      .sort((a, b) => {
-        const dateA = new Date(a.import_date!).getTime();
-        const dateB = new Date(b.import_date!).getTime();
-        return dateA - dateB;
+  const fetchFefoAllocation = async (
+    productId: string,
+    quantity: number,
+    customerId: string,
+    salesOrderId: string,
+    alreadyAllocated: Record<string, number>
+  ) => {
+    const { data, error } = await supabase.rpc('get_fefo_batch_allocation', {
+      p_product_id: productId,
+      p_quantity: quantity,
+      p_customer_id: customerId || null,
+      p_sales_order_id: salesOrderId || null,
+      p_already_allocated: alreadyAllocated,
+    });
+    if (error) throw error;
+    return (data || []) as FefoAllocationRow[];
+  };
+
+  const getPickLocations = (batchId: string) =>
+    batchLocations
+      .filter(row => row.batch_id === batchId)
+      .sort((a, b) => b.quantity - a.quantity);
+
+  // Default to the bin holding most of the batch so most lines need no transfer first
+  const getDefaultPickLocation = (batchId: string) => getPickLocations(batchId)[0]?.location_id || null;
+
+  // Turns an engine result into DC lines: one per batch it drew from, plus an empty line for any shortfall
+  const buildFefoLines = (productId: string, quantity: number, allocation: FefoAllocationRow[]) => {
+    const skipped = allocation.filter(row => row.skip_reason && row.available_quantity > 0);
+    const lines: Omit<ChallanItem, 'id'>[] = allocation
+      .filter(row => row.allocated_quantity > 0)
+      .map(row => {
+        const batch = batches.find(b => b.id === row.batch_id);
+        const { packSize, packType } = parsePackaging(batch?.packaging_details || null);
+        return {
+          product_id: productId,
+          batch_id: row.batch_id,
+          location_id: getDefaultPickLocation(row.batch_id),
+          quantity: row.allocated_quantity,
+          pack_size: packSize,
+          pack_type: packType,
+          number_of_packs: packSize ? row.allocated_quantity / packSize : 1,
+          fefo_batch_id: row.batch_id,
+        };
+      });
+
+    const allocatedTotal = lines.reduce((sum, line) => sum + line.quantity, 0);
+    if (allocatedTotal < quantity) {
+      lines.push({
+        product_id: productId,
+        batch_id: '',
+        quantity: quantity - allocatedTotal,
+        pack_size: null,
+        pack_type: null,
+        number_of_packs: null,
+        fefo_batch_id: null,
       });
-    return productBatches[0] || null;
+    }
+    lines[0] = { ...lines[0], fefo_skipped: skipped };
+    return lines;
+  };
+
+  const getLineAllocations = (lines: Omit<ChallanItem, 'id'>[], excludeIndex: number | null = null) => {
+    const allocated: Record<string, number> = {};
+    lines.forEach((line, i) => {
+      if (i !== excludeIndex && line.batch_id) {
+        allocated[line.batch_id] = (allocated[line.batch_id] || 0) + line.quantity;
+      }
+    });
+    return allocated;
+  };
+
+  const applyFefoToLine = async (index: number) => {
+    const item = items[index];
+    try {
+      const allocation = await fetchFefoAllocation(
+        item.product_id,
+        item.quantity,
+        formData.customer_id,
+        formData.sales_order_id,
+        getLineAllocations(items, index)
+      );
+
+      // Manual lines have no quantity until a batch is chosen, so just propose the first usable batch
+      if (item.quantity <= 0) {
+        const first = allocation.find(row => !row.skip_reason && row.available_quantity > 0);
+        if (!first) {
+          showToast({ type: 'warning', title: 'No Batch Available', message: 'No batch of this product meets the FEFO and shelf-life rules for this customer.' });
+          return;
+        }
+        const proposed = {
+          ...items[index],
+          fefo_batch_id: first.batch_id,
+          fefo_skipped: allocation.filter(row => row.skip_reason && row.available_quantity > 0),
+          override_reason: '',
+        };
+        handleBatchChange(index, first.batch_id, proposed);
+        return;
+      }
+
+      const lines = buildFefoLines(item.product_id, item.quantity, allocation);
+      setItems([...items.slice(0, index), ...lines, ...items.slice(index + 1)]);
+      if (lines.some(line => !line.batch_id)) {
+        showToast({ type: 'warning', title: 'Short Stock', message: 'Not enough eligible stock to cover this line. The remaining quantity has been left without a batch.' });
+      }
+    } catch (error) {
+      console.error('Error allocating batches:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to allocate batches. Please try again.' });
+    }
+  };
+
+  // Checked as of the challan date, the same date trg_enforce_customer_shelf_life uses
+  const getCustomerShelfLifeShortfall = (batch: Batch | undefined) => {
+    if (!batch) return null;
+    return getShelfLifeShortfall(batch, customers.find(c => c.id === formData.customer_id), formData.challan_date);
+  };
+
+  const isBlockedForCustomer = (batch: Batch | undefined) =>
+    customers.find(c => c.id === formData.customer_id)?.shelf_life_rule_mode === 'block'
+      && !!getCustomerShelfLifeShortfall(batch);
+
+  const needsOverrideReason = (item: Omit<ChallanItem, 'id'>) => {
+    if (!item.batch_id || item.batch_id === item.fefo_batch_id) return false;
+    const batch = batches.find(b => b.id === item.batch_id);
+    if (isBlockedForCustomer(batch)) return false;
+    return !!item.fefo_batch_id || !!getCustomerShelfLifeShortfall(batch);
   };
 
   const handleCustomerChange = (customerId: string) => {
@@ -397,49 +498,17 @@ export function DeliveryChallan() {
 
           const soItems = soItemsResult.data;
           if (soItems && soItems.length > 0) {
-            const newItems = soItems.map(item => {
-              const productBatches = batches
-                .filter(b => {
-                  const soReservedForBatch = resMap.get(b.id) || 0;
-                  const available = (b.current_stock - (b.reserved_stock || 0)) + soReservedForBatch;
-                  return b.product_id === item.product_id && available > 0;
-                })
-                .sort((a, b) => new Date(a.import_date!).getTime() - new Date(b.import_date!).getTime());
-              const fifoBatch = productBatches.length > 0 ? productBatches[0] : null;
-
-              if (!fifoBatch) {
-                return {
-                  product_id: item.product_id,
-                  batch_id: '',
-                  quantity: item.quantity,
-                  pack_size: null,
-                  pack_type: null,
-                  number_of_packs: null,
-                };
-              }
-
-              let packSize = null;
-              let packType = null;
-              let numberOfPacks = null;
-
-              if (fifoBatch.packaging_details) {
-                const match = fifoBatch.packaging_details.match(/(\d+)\s+(\w+)s?\s+x\s+(\d+(?:\.\d+)?)kg/i);
-                if (match) {
-                  numberOfPacks = parseInt(match[1], 10);
-                  packType = match[2].toLowerCase();
-                  packSize = parseFloat(match[3]);
-                }
-              }
-
-              return {
-                product_id: item.product_id,
-                batch_id: fifoBatch.id,
-                quantity: item.quantity,
-                pack_size: packSize,
-                pack_type: packType,
-                number_of_packs: numberOfPacks || 1,
-              };
-            });
+            const newItems: Omit<ChallanItem, 'id'>[] = [];
+            for (const item of soItems) {
+              const allocation = await fetchFefoAllocation(
+                item.product_id,
+                item.quantity,
+                so.customer_id,
+                soId,
+                getLineAllocations(newItems)
+              );
+              newItems.push(...buildFefoLines(item.product_id, item.quantity, allocation));
+            }
             setItems(newItems);
           }
         } catch (error) {
@@ -460,10 +529,11 @@ export function DeliveryChallan() {
     }
   };
 
-  const handleBatchChange = (index: number, batchId: string) => {
+  const handleBatchChange = (index: number, batchId: string, baseLine?: Omit<ChallanItem, 'id'>) => {
     const batch = batches.find(b => b.id === batchId);
     if (batch) {
       const newItems = [...items];
+      if (baseLine) newItems[index] = baseLine;
 
       let packSize = null;
       let packType = null;
@@ -495,6 +565,7 @@ export function DeliveryChallan() {
       newItems[index] = {
         ...newItems[index],
         batch_id: batchId,
+        location_id: getDefaultPickLocation(batchId),
         pack_size: packSize,
         pack_type: packType,
         number_of_packs: numberOfPacks || 1,
@@ -561,10 +632,12 @@ export function DeliveryChallan() {
       setItems(loadedItems.map(item => ({
         product_id: item.product_id,
         batch_id: item.batch_id,
+        location_id: item.location_id,
         quantity: item.quantity,
         pack_size: item.pack_size,
         pack_type: item.pack_type,
         number_of_packs: item.number_of_packs,
+        fefo_batch_id: item.batch_id,
       })));
     }
 
@@ -592,6 +665,19 @@ export function DeliveryChallan() {
       return;
     }
 
+    const blockedItems = items.filter(item => isBlockedForCustomer(batches.find(b => b.id === item.batch_id)));
+    if (blockedItems.length > 0) {
+      const batch = batches.find(b => b.id === blockedItems[0].batch_id);
+      showToast({ type: 'error', title: 'Shelf Life', message: `Batch ${batch?.batch_number} cannot be delivered to this customer: ${getCustomerShelfLifeShortfall(batch)}` });
+      return;
+    }
+
+    const missingReasons = items.filter(item => needsOverrideReason(item) && !item.override_reason?.trim());
+    if (missingReasons.length > 0) {
+      showToast({ type: 'error', title: 'Error', message: 'Please give a reason for every line that does not use the FEFO batch or is below the customer\'s minimum shelf life.' });
+      return;
+    }
+
     const batchUsage = new Map<string, number>();
     for (const item of items) {
       const currentUsage = batchUsage.get(item.batch_id) || 0;
@@ -651,6 +737,7 @@ export function DeliveryChallan() {
         const itemsForRpc = items.map(item => ({
           product_id: item.product_id,
           batch_id: item.batch_id,
+          location_id: item.location_id || null,
           quantity: item.quantity,
           pack_size: item.pack_size,
           pack_type: item.pack_type,
@@ -673,9 +760,8 @@ export function DeliveryChallan() {
 
         challanId = updatedChallan.id;
       } else {
-        // When creating new, include all fields including challan_number
+        // challan_number is assigned by the database numbering service on insert
         const challanData = {
-          challan_number: formData.challan_number,
           customer_id: formData.customer_id,
           sales_order_id: formData.sales_order_id || null,
           challan_date: formData.challan_date,
@@ -702,6 +788,7 @@ export function DeliveryChallan() {
           challan_id: challanId,
           product_id: item.product_id,
           batch_id: item.batch_id,
+          location_id: item.location_id || null,
           quantity: item.quantity,
           pack_size: item.pack_size,
           pack_type: item.pack_type,
@@ -718,6 +805,24 @@ export function DeliveryChallan() {
         }
       }
 
+      const overrides = items.filter(needsOverrideReason).map(item => ({
+        document_type: 'delivery_challan',
+        document_id: challanId,
+        product_id: item.product_id,
+        proposed_batch_id: item.fefo_batch_id || null,
+        batch_id: item.batch_id,
+        quantity: item.quantity,
+        reason: item.override_reason!.trim(),
+        overridden_by: user.id,
+      }));
+      if (overrides.length > 0) {
+        const { error: overrideError } = await supabase.from('batch_allocation_overrides').insert(overrides);
+        if (overrideError) {
+          console.error('Error recording batch overrides:', overrideError);
+          showToast({ type: 'warning', title: 'Warning', message: 'Challan saved, but the batch override reasons could not be recorded.' });
+        }
+      }
+
       // HARDENING FIX #3: Atomic delivered_quantity update
       // Prevents race conditions from concurrent DC creation
       if (!editingChallan && formData.sales_order_id) {
@@ -1028,7 +1133,7 @@ export function DeliveryChallan() {
             <button
               onClick={async () => {
                 resetForm();
-                const nextChallanNumber = await generateNextChallanNumber();
+                const nextChallanNumber = await previewDocumentNumber('delivery_challan');
                 setFormData(prev => ({ ...prev, challan_number: nextChallanNumber }));
                 setModalOpen(true);
               }}
@@ -1125,6 +1230,12 @@ export function DeliveryChallan() {
                   required
                   disabled={!!formData.sales_order_id}
                 />
+                {(() => {
+                  const rule = describeShelfLifeRule(customers.find(c => c.id === formData.customer_id));
+                  return rule ? (
+                    <p className="mt-1 text-xs text-amber-700">Requires {rule} at delivery</p>
+                  ) : null;
+                })()}
               </div>
 
               <div>
@@ -1243,12 +1354,18 @@ export function DeliveryChallan() {
                     }
                   });
 
-                  const availableBatches = batches.filter(b => {
-                    const baseAvailable = getAvailableStock(b);
-                    const usedInOtherItems = batchUsageInForm.get(b.id) || 0;
-                    return b.product_id === item.product_id && (baseAvailable - usedInOtherItems) > 0;
-                  });
+                  const availableBatches = batches
+                    .filter(b => {
+                      const baseAvailable = getAvailableStock(b);
+                      const usedInOtherItems = batchUsageInForm.get(b.id) || 0;
+                      return b.product_id === item.product_id && (baseAvailable - usedInOtherItems) > 0
+                        && (b.id === item.batch_id || !isBlockedForCustomer(b));
+                    })
+                    .sort((a, b) => (a.expiry_date || '9999-12-31').localeCompare(b.expiry_date || '9999-12-31'));
                   const selectedBatch = batches.find(b => b.id === item.batch_id);
+                  const proposedBatch = batches.find(b => b.id === item.fefo_batch_id);
+                  const pickLocations = item.batch_id ? getPickLocations(item.batch_id) : [];
+                  const pickLocation = pickLocations.find(row => row.location_id === item.location_id);
 
                   return (
                     <div key={index} className="relative p-2 bg-gray-50 rounded border border-gray-200">
@@ -1259,7 +1376,7 @@ export function DeliveryChallan() {
                             value={item.product_id}
                             onChange={(value) => {
                               const newItems = [...items];
-                              newItems[index] = { ...newItems[index], product_id: value, batch_id: '' };
+                              newItems[index] = { ...newItems[index], product_id: value, batch_id: '', location_id: null, fefo_batch_id: null, fefo_skipped: [], override_reason: '' };
                               setItems(newItems);
                             }}
                             options={products.map(p => ({ value: p.id, label: p.product_name }))}
@@ -1275,16 +1392,11 @@ export function DeliveryChallan() {
                             {item.product_id && availableBatches.length > 0 && (
                               <button
                                 type="button"
-                                onClick={() => {
-                                  const fifoBatch = getFIFOBatch(item.product_id);
-                                  if (fifoBatch) {
-                                    handleBatchChange(index, fifoBatch.id);
-                                  }
-                                }}
+                                onClick={() => applyFefoToLine(index)}
                                 className="text-[10px] text-blue-600 hover:text-blue-700 font-medium"
-                                title="Select oldest batch (FIFO)"
+                                title="Allocate by earliest expiry (FEFO), splitting across batches if needed"
                               >
-                                Use FIFO
+                                Use FEFO
                               </button>
                             )}
                           </div>
@@ -1296,14 +1408,15 @@ export function DeliveryChallan() {
                             <SearchableSelect
                               value={item.batch_id}
                               onChange={(value) => handleBatchChange(index, value)}
-                              options={availableBatches.map((b, idx) => {
-                                const fifoIndicator = idx === 0 ? ' 🔄' : '';
+                              options={availableBatches.map((b) => {
+                                const fefoIndicator = b.id === item.fefo_batch_id ? ' 🔄' : '';
+                                const shelfLifeWarning = getCustomerShelfLifeShortfall(b) ? ' ⚠ short shelf life' : '';
                                 const baseAvailable = getAvailableStock(b);
                                 const usedInOtherItems = batchUsageInForm.get(b.id) || 0;
                                 const actualAvailable = baseAvailable - usedInOtherItems;
                                 return {
                                   value: b.id,
-                                  label: `${b.batch_number} (Avl: ${actualAvailable}kg)${fifoIndicator}`
+                                  label: `${b.batch_number} (Avl: ${actualAvailable}kg, Exp: ${b.expiry_date ? formatDate(b.expiry_date) : '-'})${fefoIndicator}${shelfLifeWarning}`
                                 };
                               })}
                               placeholder="Select Batch"
@@ -1319,6 +1432,45 @@ export function DeliveryChallan() {
                         </div>
                       </div>
 
+                      {selectedBatch && isBlockedForCustomer(selectedBatch) && (
+                        <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                          Cannot be delivered to this customer: {getCustomerShelfLifeShortfall(selectedBatch)}. Choose another batch.
+                        </div>
+                      )}
+
+                      {needsOverrideReason(item) && (
+                        <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded">
+                          <label className="block text-xs text-amber-800 mb-0.5">
+                            {proposedBatch
+                              ? `FEFO proposed batch ${proposedBatch.batch_number}. Reason for using a different batch *`
+                              : `${getCustomerShelfLifeShortfall(selectedBatch)}. Reason for using it *`}
+                          </label>
+                          <input
+                            type="text"
+                            value={item.override_reason || ''}
+                            onChange={(e) => {
+                              const newItems = [...items];
+                              newItems[index] = { ...newItems[index], override_reason: e.target.value };
+                              setItems(newItems);
+                            }}
+                            className="w-full px-2 py-1 text-xs border border-amber-300 rounded focus:ring-1 focus:ring-amber-500"
+                            placeholder="e.g. customer asked for a single batch"
+                            required
+                          />
+                        </div>
+                      )}
+
+                      {item.fefo_skipped && item.fefo_skipped.length > 0 && (
+                        <div className="mb-2 text-[10px] text-gray-600">
+                          <span className="font-medium">Skipped by FEFO:</span>
+                          <ul className="ml-3 list-disc">
+                            {item.fefo_skipped.map(row => (
+                              <li key={row.batch_id}>{row.batch_number} ({row.available_quantity}kg) - {row.skip_reason}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
                       {selectedBatch && (
                         <div className="mb-2">
                           <div className="overflow-x-auto">
@@ -1354,6 +1506,32 @@ export function DeliveryChallan() {
                         </div>
                       )}
 
+                      {selectedBatch && pickLocations.length > 0 && (
+                        <div className="mb-2">
+                          <label className="block text-xs text-gray-600 mb-0.5">Pick from</label>
+                          <select
+                            value={item.location_id || ''}
+                            onChange={(e) => {
+                              const newItems = [...items];
+                              newItems[index] = { ...newItems[index], location_id: e.target.value || null };
+                              setItems(newItems);
+                            }}
+                            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                          >
+                            {pickLocations.map(row => (
+                              <option key={row.location_id} value={row.location_id}>
+                                {formatLocationCode(row.warehouse_locations?.warehouses?.code, row.warehouse_locations?.code)} ({row.quantity}kg)
+                              </option>
+                            ))}
+                          </select>
+                          {pickLocation && item.quantity > pickLocation.quantity && (
+                            <p className="mt-0.5 text-[10px] text-amber-700">
+                              Only {pickLocation.quantity}kg of this batch is at this location. Transfer stock here before approval or split the line.
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       {item.pack_size && (
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
                           <div>
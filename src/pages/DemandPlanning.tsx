@@ -0,0 +1,584 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { showToast } from '../components/ToastNotification';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../utils/dateFormat';
+import { AlertTriangle, BarChart3, Package, Search, Settings2, ShoppingCart, Truck } from 'lucide-react';
+
+// One row per product as computed by get_demand_forecast()
+interface ForecastRow {
+  product_id: string;
+  product_code: string;
+  product_name: string;
+  unit: string;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  lead_time_days: number;
+  service_level: number;
+  review_period_days: number;
+  avg_monthly_demand: number;
+  demand_std_dev: number;
+  seasonal_index: number[];
+  lead_time_demand: number;
+  safety_stock: number;
+  reorder_point: number;
+  min_stock_level: number | null;
+  on_hand: number;
+  open_so_demand: number;
+  open_po_quantity: number;
+  next_po_date: string | null;
+  moq: number | null;
+  pack_size: number | null;
+  suggested_order_quantity: number;
+}
+
+// One product-month as projected by get_purchase_plan()
+interface PlanRow {
+  product_id: string;
+  month_start: string;
+  opening_stock: number;
+  forecast_demand: number;
+  open_so_demand: number;
+  po_receipts: number;
+  closing_stock: number;
+  stock_out_date: string | null;
+}
+
+interface PlanningSettings {
+  product_id: string;
+  service_level: string;
+  lead_time_days: string;
+  review_period_days: string;
+  notes: string;
+}
+
+type PlanningStatus = 'stock_out' | 'reorder' | 'ok';
+
+const SERVICE_LEVELS = ['0.90', '0.95', '0.975', '0.98', '0.99'];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const qty = (value: number | null | undefined) =>
+  Number(value || 0).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function DemandPlanning() {
+  const { profile } = useAuth();
+  const [forecast, setForecast] = useState<ForecastRow[]>([]);
+  const [plan, setPlan] = useState<PlanRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'reorder' | 'plan'>('reorder');
+  const [months, setMonths] = useState(6);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | PlanningStatus>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [settings, setSettings] = useState<PlanningSettings | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const canEdit = ['admin', 'sales', 'warehouse'].includes(profile?.role || '');
+
+  useEffect(() => {
+    loadPlanning();
+  }, [months]);
+
+  const loadPlanning = async () => {
+    try {
+      setLoading(true);
+      const [forecastRes, planRes] = await Promise.all([
+        supabase.rpc('get_demand_forecast'),
+        supabase.rpc('get_purchase_plan', { p_months: months }),
+      ]);
+      if (forecastRes.error) throw forecastRes.error;
+      if (planRes.error) throw planRes.error;
+      setForecast((forecastRes.data || []) as ForecastRow[]);
+      setPlan((planRes.data || []) as PlanRow[]);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error('Error loading demand plan:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to load demand plan' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const planByProduct = useMemo(() => {
+    const map = new Map<string, PlanRow[]>();
+    plan.forEach(row => {
+      const rows = map.get(row.product_id) || [];
+      rows.push(row);
+      map.set(row.product_id, rows);
+    });
+    return map;
+  }, [plan]);
+
+  const planMonths = useMemo(
+    () => Array.from(new Set(plan.map(row => row.month_start))).sort(),
+    [plan]
+  );
+
+  const stockOutDate = (productId: string) =>
+    planByProduct.get(productId)?.find(row => row.stock_out_date)?.stock_out_date || null;
+
+  // Stock-out before a new order could arrive is worse than simply being under the reorder point
+  const getStatus = (row: ForecastRow): PlanningStatus => {
+    const stockOut = stockOutDate(row.product_id);
+    if (stockOut) {
+      const daysLeft = Math.ceil((new Date(stockOut).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      if (daysLeft <= row.lead_time_days) return 'stock_out';
+    }
+    return Number(row.suggested_order_quantity) > 0 ? 'reorder' : 'ok';
+  };
+
+  const getStatusBadge = (status: PlanningStatus) => {
+    const config: Record<PlanningStatus, { color: string; label: string }> = {
+      stock_out: { color: 'bg-red-100 text-red-800', label: 'Stock-out Risk' },
+      reorder: { color: 'bg-yellow-100 text-yellow-800', label: 'Reorder' },
+      ok: { color: 'bg-green-100 text-green-800', label: 'OK' },
+    };
+    const { color, label } = config[status];
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${color}`}>
+        {label}
+      </span>
+    );
+  };
+
+  const filteredForecast = forecast.filter(row => {
+    const term = search.toLowerCase();
+    if (term && !row.product_name.toLowerCase().includes(term)
+      && !row.product_code.toLowerCase().includes(term)
+      && !(row.supplier_name || '').toLowerCase().includes(term)) {
+      return false;
+    }
+    return statusFilter === 'all' || getStatus(row) === statusFilter;
+  });
+
+  const stats = {
+    products: forecast.length,
+    stockOut: forecast.filter(row => getStatus(row) === 'stock_out').length,
+    reorder: forecast.filter(row => getStatus(row) === 'reorder').length,
+    outdatedMin: forecast.filter(row => Number(row.min_stock_level || 0) !== Number(row.reorder_point)).length,
+  };
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(prev =>
+      prev.size === filteredForecast.length ? new Set() : new Set(filteredForecast.map(row => row.product_id))
+    );
+  };
+
+  const handleApplyReorderPoints = async () => {
+    setApplying(true);
+    try {
+      const { data, error } = await supabase.rpc('apply_reorder_points', {
+        p_product_ids: Array.from(selectedIds),
+      });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Success', message: `Minimum stock level updated on ${data || 0} product(s)` });
+      loadPlanning();
+    } catch (error) {
+      console.error('Error applying reorder points:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to update minimum stock levels' });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const openSettings = async (row: ForecastRow) => {
+    const { data } = await supabase
+      .from('product_planning_settings')
+      .select('lead_time_days, notes')
+      .eq('product_id', row.product_id)
+      .maybeSingle();
+
+    setSettings({
+      product_id: row.product_id,
+      service_level: Number(row.service_level).toString(),
+      lead_time_days: data?.lead_time_days?.toString() || '',
+      review_period_days: row.review_period_days.toString(),
+      notes: data?.notes || '',
+    });
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    setSavingSettings(true);
+    try {
+      const { error } = await supabase
+        .from('product_planning_settings')
+        .upsert({
+          product_id: settings.product_id,
+          service_level: Number(settings.service_level),
+          lead_time_days: settings.lead_time_days ? parseInt(settings.lead_time_days) : null,
+          review_period_days: parseInt(settings.review_period_days) || 30,
+          notes: settings.notes || null,
+          updated_by: profile?.id,
+          updated_at: new Date().toISOString(),
+        });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Success', message: 'Planning settings saved' });
+      setSettings(null);
+      loadPlanning();
+    } catch (error) {
+      console.error('Error saving planning settings:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to save planning settings' });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const settingsProduct = settings ? forecast.find(row => row.product_id === settings.product_id) : null;
+
+  return (
+    <Layout>
+      <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Demand Planning</h1>
+        <p className="text-gray-600 mt-1">Forecast demand from shipment history and plan purchases against reorder points</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6">
+        <div className="bg-white p-3 md:p-4 rounded-lg shadow">
+          <div className="flex items-center gap-2 md:gap-3">
+            <Package className="w-5 h-5 md:w-6 md:h-6 text-blue-600 flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="text-xs md:text-sm text-gray-600 truncate">Planned Products</div>
+              <div className="text-xl md:text-2xl font-bold text-gray-900">{stats.products}</div>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white p-3 md:p-4 rounded-lg shadow">
+          <div className="flex items-center gap-2 md:gap-3">
+            <AlertTriangle className="w-5 h-5 md:w-6 md:h-6 text-red-600 flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="text-xs md:text-sm text-gray-600 truncate">Stock-out Risk</div>
+              <div className="text-xl md:text-2xl font-bold text-red-600">{stats.stockOut}</div>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white p-3 md:p-4 rounded-lg shadow">
+          <div className="flex items-center gap-2 md:gap-3">
+            <ShoppingCart className="w-5 h-5 md:w-6 md:h-6 text-yellow-600 flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="text-xs md:text-sm text-gray-600 truncate">Below Reorder Point</div>
+              <div className="text-xl md:text-2xl font-bold text-yellow-600">{stats.reorder}</div>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white p-3 md:p-4 rounded-lg shadow">
+          <div className="flex items-center gap-2 md:gap-3">
+            <BarChart3 className="w-5 h-5 md:w-6 md:h-6 text-gray-600 flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="text-xs md:text-sm text-gray-600 truncate">Min Stock Out of Date</div>
+              <div className="text-xl md:text-2xl font-bold text-gray-900">{stats.outdatedMin}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow mb-6">
+        <div className="flex border-b">
+          <button
+            onClick={() => setView('reorder')}
+            className={`px-6 py-3 text-sm font-medium border-b-2 ${view === 'reorder' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'}`}
+          >
+            Reorder Points
+          </button>
+          <button
+            onClick={() => setView('plan')}
+            className={`px-6 py-3 text-sm font-medium border-b-2 ${view === 'plan' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'}`}
+          >
+            Monthly Purchase Plan
+          </button>
+        </div>
+
+        <div className="p-4 border-b flex flex-wrap gap-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search product or supplier..."
+              className="w-full border rounded-lg pl-9 pr-4 py-2"
+            />
+          </div>
+
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | PlanningStatus)}
+            className="border rounded-lg px-4 py-2"
+          >
+            <option value="all">All Status</option>
+            <option value="stock_out">Stock-out Risk</option>
+            <option value="reorder">Reorder</option>
+            <option value="ok">OK</option>
+          </select>
+
+          {view === 'plan' && (
+            <select
+              value={months}
+              onChange={(e) => setMonths(parseInt(e.target.value))}
+              className="border rounded-lg px-4 py-2"
+            >
+              <option value={3}>3 months</option>
+              <option value={6}>6 months</option>
+              <option value={12}>12 months</option>
+            </select>
+          )}
+
+          {view === 'reorder' && canEdit && (
+            <button
+              onClick={handleApplyReorderPoints}
+              disabled={selectedIds.size === 0 || applying}
+              className="ml-auto flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Package className="w-4 h-4" />
+              {applying ? 'Updating...' : `Set Min Stock to Reorder Point${selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}`}
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : filteredForecast.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No products with demand, stock or open orders</div>
+        ) : view === 'reorder' ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {canEdit && (
+                    <th className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.size > 0 && selectedIds.size === filteredForecast.length}
+                        onChange={toggleSelectAll}
+                      />
+                    </th>
+                  )}
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Avg / Month</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Lead Time</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Safety Stock</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reorder Point</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Min Stock</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On Hand</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Open SO</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">In Transit</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Stock-out</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Suggested Order</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  {canEdit && <th className="px-3 py-2"></th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {filteredForecast.map(row => {
+                  const stockOut = stockOutDate(row.product_id);
+                  return (
+                    <tr key={row.product_id} className="hover:bg-gray-50">
+                      {canEdit && (
+                        <td className="px-3 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(row.product_id)}
+                            onChange={() => toggleSelect(row.product_id)}
+                          />
+                        </td>
+                      )}
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{row.product_name}</div>
+                        <div className="text-xs text-gray-500">{row.product_code}</div>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{row.supplier_name || '-'}</td>
+                      <td
+                        className="px-3 py-2 text-right"
+                        title={`Std dev ${qty(row.demand_std_dev)} · Seasonal index ${(row.seasonal_index || []).map((idx, i) => `${MONTH_LABELS[i]} ${Number(idx).toFixed(2)}`).join(', ')}`}
+                      >
+                        {qty(row.avg_monthly_demand)} {row.unit}
+                      </td>
+                      <td className="px-3 py-2 text-right">{row.lead_time_days}d</td>
+                      <td className="px-3 py-2 text-right">{qty(row.safety_stock)}</td>
+                      <td className="px-3 py-2 text-right font-medium">{qty(row.reorder_point)}</td>
+                      <td className={`px-3 py-2 text-right ${Number(row.min_stock_level || 0) !== Number(row.reorder_point) ? 'text-orange-600' : 'text-gray-600'}`}>
+                        {row.min_stock_level != null ? qty(row.min_stock_level) : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right">{qty(row.on_hand)}</td>
+                      <td className="px-3 py-2 text-right">{qty(row.open_so_demand)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {qty(row.open_po_quantity)}
+                        {row.next_po_date && (
+                          <div className="text-xs text-gray-500 flex items-center justify-end gap-1">
+                            <Truck className="w-3 h-3" />
+                            {formatDate(row.next_po_date)}
+                          </div>
+                        )}
+                      </td>
+                      <td className={`px-3 py-2 ${stockOut ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                        {stockOut ? formatDate(stockOut) : `Beyond ${months} mo`}
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium">
+                        {Number(row.suggested_order_quantity) > 0 ? `${qty(row.suggested_order_quantity)} ${row.unit}` : '-'}
+                      </td>
+                      <td className="px-3 py-2">{getStatusBadge(getStatus(row))}</td>
+                      {canEdit && (
+                        <td className="px-3 py-2">
+                          <button
+                            onClick={() => openSettings(row)}
+                            className="p-1 text-gray-500 hover:text-blue-600"
+                            title="Planning settings"
+                          >
+                            <Settings2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase sticky left-0 bg-gray-50">Product</th>
+                  {planMonths.map(month => (
+                    <th key={month} className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase whitespace-nowrap">
+                      {MONTH_LABELS[parseInt(month.slice(5, 7)) - 1]} {month.slice(0, 4)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {filteredForecast.map(row => (
+                  <tr key={row.product_id}>
+                    <td className="px-3 py-2 sticky left-0 bg-white">
+                      <div className="font-medium text-gray-900">{row.product_name}</div>
+                      <div className="text-xs text-gray-500">On hand {qty(row.on_hand)} {row.unit}</div>
+                    </td>
+                    {(planByProduct.get(row.product_id) || []).map(month => (
+                      <td
+                        key={month.month_start}
+                        className={`px-3 py-2 text-right align-top ${Number(month.closing_stock) < 0 ? 'bg-red-50' : Number(month.closing_stock) < Number(row.safety_stock) ? 'bg-yellow-50' : ''}`}
+                      >
+                        <div className={`font-medium ${Number(month.closing_stock) < 0 ? 'text-red-700' : 'text-gray-900'}`}>
+                          {qty(month.closing_stock)}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          -{qty(Math.max(Number(month.forecast_demand), Number(month.open_so_demand)))}
+                          {Number(month.po_receipts) > 0 && <span className="text-green-600"> +{qty(month.po_receipts)}</span>}
+                        </div>
+                        {month.stock_out_date && (
+                          <div className="text-xs text-red-600">Out {formatDate(month.stock_out_date)}</div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-blue-600 mt-0.5" />
+          <div>
+            <h3 className="text-sm font-medium text-blue-900">How the plan is calculated</h3>
+            <p className="text-sm text-blue-700 mt-1">
+              Demand is what was shipped on Delivery Challans and direct invoices, averaged over the last 12 months and
+              adjusted for seasonality once two years of history exist. Safety stock covers demand variation over the
+              lead time at the product's service level; the reorder point adds the expected demand over the lead time.
+            </p>
+            <p className="text-sm text-blue-700 mt-1">
+              Each month's demand is the larger of the forecast and open sales order lines due that month. Open POs
+              arrive on their expected delivery date. Lead time comes from the planning settings, then the preferred
+              product source, then import requirements.
+            </p>
+          </div>
+        </div>
+      </div>
+      </div>
+
+      <Modal isOpen={!!settings} onClose={() => setSettings(null)} title={`Planning Settings${settingsProduct ? ` - ${settingsProduct.product_name}` : ''}`} size="md">
+        {settings && (
+          <form onSubmit={handleSaveSettings} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Service Level</label>
+                <select
+                  value={settings.service_level}
+                  onChange={(e) => setSettings({ ...settings, service_level: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                >
+                  {SERVICE_LEVELS.map(level => (
+                    <option key={level} value={Number(level).toString()}>{(Number(level) * 100).toFixed(1)}%</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Review Period (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={settings.review_period_days}
+                  onChange={(e) => setSettings({ ...settings, review_period_days: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                  required
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lead Time Override (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={settings.lead_time_days}
+                  onChange={(e) => setSettings({ ...settings, lead_time_days: e.target.value })}
+                  placeholder={settingsProduct ? `Currently ${settingsProduct.lead_time_days} days` : ''}
+                  className="w-full border rounded-lg px-3 py-2"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to use the preferred source's lead time</p>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={settings.notes}
+                  onChange={(e) => setSettings({ ...settings, notes: e.target.value })}
+                  rows={2}
+                  className="w-full border rounded-lg px-3 py-2"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 pt-2 border-t">
+              <button type="button" onClick={() => setSettings(null)} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={savingSettings}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {savingSettings ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </Layout>
+  );
+}
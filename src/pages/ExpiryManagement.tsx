@@ -0,0 +1,566 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { Search, Tag, Undo2, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { showToast } from '../components/ToastNotification';
+import { showConfirm } from '../components/ConfirmDialog';
+import { formatDate } from '../utils/dateFormat';
+
+interface ExpiryStockRow {
+  batch_id: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  batch_number: string;
+  supplier_id: string | null;
+  expiry_date: string | null;
+  days_to_expiry: number | null;
+  expiry_bucket: string;
+  current_stock: number;
+  landed_cost_per_unit: number;
+  stock_value: number;
+  last_sale_date: string | null;
+  days_since_movement: number;
+  movement_status: 'active' | 'slow_moving' | 'dead';
+  open_action: ActionType | null;
+}
+
+type ActionType = 'discount_campaign' | 'return_to_supplier' | 'write_off';
+
+interface ExpiryAction {
+  id: string;
+  action_type: ActionType;
+  quantity: number;
+  total_value: number;
+  discount_percent: number | null;
+  campaign_end_date: string | null;
+  notes: string | null;
+  status: 'open' | 'completed' | 'cancelled';
+  created_at: string;
+  batches: { batch_number: string } | null;
+  products: { product_name: string } | null;
+  stock_rejections: { rejection_number: string } | null;
+  journal_entries: { entry_number: string } | null;
+}
+
+const BUCKETS = [
+  { key: 'expired', label: 'Expired', className: 'bg-red-700' },
+  { key: '0_30', label: '0-30 days', className: 'bg-red-500' },
+  { key: '31_60', label: '31-60 days', className: 'bg-orange-500' },
+  { key: '61_90', label: '61-90 days', className: 'bg-amber-500' },
+  { key: '91_180', label: '91-180 days', className: 'bg-yellow-500' },
+];
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  discount_campaign: 'Discount campaign',
+  return_to_supplier: 'Return to supplier',
+  write_off: 'Write-off',
+};
+
+const MOVEMENT_STYLES: Record<ExpiryStockRow['movement_status'], { label: string; className: string }> = {
+  active: { label: 'Moving', className: 'bg-green-100 text-green-700' },
+  slow_moving: { label: 'Slow-moving', className: 'bg-amber-100 text-amber-800' },
+  dead: { label: 'Dead stock', className: 'bg-red-100 text-red-700' },
+};
+
+const formatRupiah = (amount: number) =>
+  `Rp ${Number(amount).toLocaleString('id-ID', { maximumFractionDigits: 0 })}`;
+
+export function ExpiryManagement() {
+  const { t } = useLanguage();
+  const { profile } = useAuth();
+  const [rows, setRows] = useState<ExpiryStockRow[]>([]);
+  const [actions, setActions] = useState<ExpiryAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [bucketFilter, setBucketFilter] = useState('');
+  const [movementFilter, setMovementFilter] = useState('');
+  const [actionBatch, setActionBatch] = useState<ExpiryStockRow | null>(null);
+  const [actionType, setActionType] = useState<ActionType>('discount_campaign');
+  const [saving, setSaving] = useState(false);
+  const [actionForm, setActionForm] = useState({
+    quantity: '',
+    discount_percent: '',
+    campaign_end_date: '',
+    notes: '',
+  });
+
+  const canWriteOff = profile?.role === 'admin' || profile?.role === 'accounts';
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [{ data: stockData, error: stockError }, { data: actionData, error: actionError }] = await Promise.all([
+        supabase.rpc('get_expiry_stock_status'),
+        supabase
+          .from('expiry_actions')
+          .select('*, batches(batch_number), products(product_name), stock_rejections(rejection_number), journal_entries(entry_number)')
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (stockError) throw stockError;
+      if (actionError) throw actionError;
+      setRows((stockData || []) as ExpiryStockRow[]);
+      setActions((actionData || []) as unknown as ExpiryAction[]);
+    } catch (error) {
+      console.error('Error loading expiry data:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load expiry data' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAction = (row: ExpiryStockRow, type: ActionType) => {
+    setActionBatch(row);
+    setActionType(type);
+    setActionForm({
+      quantity: String(row.current_stock),
+      discount_percent: '',
+      campaign_end_date: '',
+      notes: '',
+    });
+  };
+
+  const handleActionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!actionBatch) return;
+
+    const quantity = Number(actionForm.quantity);
+    if (!quantity || quantity <= 0 || quantity > actionBatch.current_stock) {
+      showToast({ type: 'error', title: 'Error', message: `Quantity must be between 0 and ${actionBatch.current_stock}` });
+      return;
+    }
+
+    if (actionType === 'write_off') {
+      const value = quantity * actionBatch.landed_cost_per_unit;
+      if (!await showConfirm({
+        title: 'Write Off Stock',
+        message: `Write off ${quantity} of batch ${actionBatch.batch_number}?\n\nStock is removed immediately and ${formatRupiah(value)} is posted to Inventory Write-off (5500). This cannot be undone from this screen.`,
+        confirmLabel: 'Write Off',
+        variant: 'danger',
+      })) return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('record_expiry_action', {
+        p_batch_id: actionBatch.batch_id,
+        p_action_type: actionType,
+        p_quantity: quantity,
+        p_discount_percent: actionType === 'discount_campaign' ? Number(actionForm.discount_percent) || null : null,
+        p_campaign_end_date: actionType === 'discount_campaign' ? actionForm.campaign_end_date || null : null,
+        p_notes: actionForm.notes || null,
+      });
+      if (error) throw error;
+
+      const messages: Record<ActionType, string> = {
+        discount_campaign: 'Discount campaign recorded',
+        return_to_supplier: 'Stock rejection raised for supplier return and sent for approval',
+        write_off: 'Stock written off and posted to the general ledger',
+      };
+      showToast({ type: 'success', title: 'Success', message: messages[actionType] });
+      setActionBatch(null);
+      loadData();
+    } catch (error: unknown) {
+      console.error('Error recording expiry action:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to record action' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const closeCampaign = async (action: ExpiryAction, status: 'completed' | 'cancelled') => {
+    try {
+      const { error } = await supabase
+        .from('expiry_actions')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', action.id)
+        .eq('status', 'open');
+      if (error) throw error;
+      loadData();
+    } catch (error: unknown) {
+      console.error('Error updating campaign:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to update campaign' });
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredRows = rows.filter(row =>
+    (!bucketFilter || row.expiry_bucket === bucketFilter)
+    && (!movementFilter || row.movement_status === movementFilter)
+    && (!term || row.product_name.toLowerCase().includes(term) || row.batch_number.toLowerCase().includes(term)
+      || (row.product_code || '').toLowerCase().includes(term))
+  );
+
+  const summarise = (predicate: (row: ExpiryStockRow) => boolean) => {
+    const matching = rows.filter(predicate);
+    return { count: matching.length, value: matching.reduce((sum, row) => sum + Number(row.stock_value), 0) };
+  };
+
+  const toggleFilter = (setter: (value: string) => void, current: string, value: string) => {
+    setter(current === value ? '' : value);
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold text-gray-900">{t('nav.expiryManagement')}</h1>
+          <p className="text-xs text-gray-500">Values at landed cost per unit</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
+          {BUCKETS.map(bucket => {
+            const summary = summarise(row => row.expiry_bucket === bucket.key);
+            return (
+              <button
+                key={bucket.key}
+                onClick={() => toggleFilter(setBucketFilter, bucketFilter, bucket.key)}
+                className={`${bucket.className} rounded-lg p-3 text-white text-left transition ${
+                  bucketFilter === bucket.key ? 'ring-2 ring-offset-2 ring-gray-800' : ''
+                }`}
+              >
+                <p className="text-xs opacity-90">{bucket.label}</p>
+                <p className="text-lg font-bold">{formatRupiah(summary.value)}</p>
+                <p className="text-xs opacity-90">{summary.count} batch(es)</p>
+              </button>
+            );
+          })}
+          {(['slow_moving', 'dead'] as const).map(status => {
+            const summary = summarise(row => row.movement_status === status);
+            return (
+              <button
+                key={status}
+                onClick={() => toggleFilter(setMovementFilter, movementFilter, status)}
+                className={`bg-white border rounded-lg p-3 text-left transition ${
+                  movementFilter === status ? 'ring-2 ring-offset-2 ring-gray-800' : ''
+                }`}
+              >
+                <p className="text-xs text-gray-500">{MOVEMENT_STYLES[status].label}</p>
+                <p className="text-lg font-bold text-gray-900">{formatRupiah(summary.value)}</p>
+                <p className="text-xs text-gray-500">{summary.count} batch(es)</p>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="p-2 border-b flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search product or batch..."
+                className="w-full pl-8 pr-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <select
+              value={bucketFilter}
+              onChange={(e) => setBucketFilter(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+            >
+              <option value="">All expiry</option>
+              {BUCKETS.map(bucket => (
+                <option key={bucket.key} value={bucket.key}>{bucket.label}</option>
+              ))}
+              <option value="over_180">Over 180 days</option>
+              <option value="no_expiry">No expiry date</option>
+            </select>
+            <select
+              value={movementFilter}
+              onChange={(e) => setMovementFilter(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+            >
+              <option value="">All movement</option>
+              <option value="active">Moving</option>
+              <option value="slow_moving">Slow-moving</option>
+              <option value="dead">Dead stock</option>
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center text-gray-500 text-sm">Loading...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product / Batch</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Expiry</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Stock</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Landed Cost</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Sale</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {filteredRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-3 py-8 text-center text-sm text-gray-500">No batches match these filters</td>
+                    </tr>
+                  ) : (
+                    filteredRows.map(row => (
+                      <tr key={row.batch_id} className="hover:bg-gray-50">
+                        <td className="px-3 py-1.5 text-sm">
+                          <div className="font-medium text-gray-900">{row.product_name}</div>
+                          <div className="text-xs text-gray-500 font-mono">{row.batch_number}</div>
+                        </td>
+                        <td className={`px-3 py-1.5 text-sm text-right whitespace-nowrap ${
+                          row.expiry_bucket === 'expired' || row.expiry_bucket === '0_30' ? 'text-red-700 font-semibold' :
+                          row.expiry_bucket === '31_60' || row.expiry_bucket === '61_90' ? 'text-orange-600' : 'text-gray-600'
+                        }`}>
+                          {row.expiry_date ? formatDate(row.expiry_date) : '-'}
+                          {row.days_to_expiry !== null && (
+                            <div className="text-xs">
+                              {row.days_to_expiry <= 0 ? `${-row.days_to_expiry}d ago` : `${row.days_to_expiry}d left`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5 text-sm text-right">{Number(row.current_stock).toLocaleString()}</td>
+                        <td className="px-3 py-1.5 text-sm text-right text-gray-600">{formatRupiah(row.landed_cost_per_unit)}</td>
+                        <td className="px-3 py-1.5 text-sm text-right font-semibold">{formatRupiah(row.stock_value)}</td>
+                        <td className="px-3 py-1.5 text-sm text-gray-600 whitespace-nowrap">
+                          {row.last_sale_date ? formatDate(row.last_sale_date) : 'Never sold'}
+                          <div className="text-xs text-gray-400">{row.days_since_movement}d without a sale</div>
+                        </td>
+                        <td className="px-3 py-1.5 text-sm">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${MOVEMENT_STYLES[row.movement_status].className}`}>
+                            {MOVEMENT_STYLES[row.movement_status].label}
+                          </span>
+                          {row.open_action && (
+                            <div className="mt-1 text-xs text-blue-700">{ACTION_LABELS[row.open_action]} open</div>
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => openAction(row, 'discount_campaign')}
+                            className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                            title="Discount campaign"
+                          >
+                            <Tag className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openAction(row, 'return_to_supplier')}
+                            className="p-1 text-amber-600 hover:bg-amber-50 rounded"
+                            title="Return to supplier"
+                          >
+                            <Undo2 className="w-4 h-4" />
+                          </button>
+                          {canWriteOff && (
+                            <button
+                              onClick={() => openAction(row, 'write_off')}
+                              className="p-1 text-red-600 hover:bg-red-50 rounded"
+                              title="Write off"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="px-3 py-2 border-b">
+            <h2 className="text-sm font-semibold text-gray-800">Recent Actions</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product / Batch</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {actions.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-sm text-gray-500">No actions recorded yet</td>
+                  </tr>
+                ) : (
+                  actions.map(action => (
+                    <tr key={action.id}>
+                      <td className="px-3 py-1.5 text-sm text-gray-600 whitespace-nowrap">{formatDate(action.created_at)}</td>
+                      <td className="px-3 py-1.5 text-sm">
+                        <div className="text-gray-900">{action.products?.product_name}</div>
+                        <div className="text-xs text-gray-500 font-mono">{action.batches?.batch_number}</div>
+                      </td>
+                      <td className="px-3 py-1.5 text-sm">
+                        {ACTION_LABELS[action.action_type]}
+                        {action.discount_percent && (
+                          <div className="text-xs text-gray-500">
+                            {Number(action.discount_percent)}% off
+                            {action.campaign_end_date && ` until ${formatDate(action.campaign_end_date)}`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5 text-sm text-right">{Number(action.quantity).toLocaleString()}</td>
+                      <td className="px-3 py-1.5 text-sm text-right">{formatRupiah(action.total_value)}</td>
+                      <td className="px-3 py-1.5 text-xs text-gray-600 font-mono">
+                        {action.stock_rejections?.rejection_number}
+                        {action.journal_entries && <div>{action.journal_entries.entry_number}</div>}
+                      </td>
+                      <td className="px-3 py-1.5 text-sm whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          action.status === 'completed' ? 'bg-green-100 text-green-700' :
+                          action.status === 'cancelled' ? 'bg-gray-100 text-gray-600' : 'bg-blue-100 text-blue-700'
+                        }`}>
+                          {action.status}
+                        </span>
+                        {action.status === 'open' && action.action_type === 'discount_campaign' && (
+                          <>
+                            <button
+                              onClick={() => closeCampaign(action, 'completed')}
+                              className="ml-2 p-0.5 text-green-600 hover:bg-green-50 rounded"
+                              title="Mark campaign completed"
+                            >
+                              <CheckCircle className="w-4 h-4 inline" />
+                            </button>
+                            <button
+                              onClick={() => closeCampaign(action, 'cancelled')}
+                              className="p-0.5 text-gray-500 hover:bg-gray-100 rounded"
+                              title="Cancel campaign"
+                            >
+                              <XCircle className="w-4 h-4 inline" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={!!actionBatch}
+        onClose={() => setActionBatch(null)}
+        title={`${ACTION_LABELS[actionType]} - ${actionBatch?.batch_number || ''}`}
+        size="md"
+      >
+        {actionBatch && (
+          <form onSubmit={handleActionSubmit} className="space-y-3">
+            <div className="p-2 bg-gray-50 rounded text-sm text-gray-700">
+              <div className="font-medium">{actionBatch.product_name}</div>
+              <div className="text-xs text-gray-500">
+                Stock {Number(actionBatch.current_stock).toLocaleString()} · Expiry {actionBatch.expiry_date ? formatDate(actionBatch.expiry_date) : '-'} · {formatRupiah(actionBatch.landed_cost_per_unit)} per unit
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Quantity *</label>
+              <input
+                type="number"
+                min="0.001"
+                step="0.001"
+                max={actionBatch.current_stock}
+                value={actionForm.quantity}
+                onChange={(e) => setActionForm({ ...actionForm, quantity: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Value {formatRupiah((Number(actionForm.quantity) || 0) * actionBatch.landed_cost_per_unit)}
+              </p>
+            </div>
+
+            {actionType === 'discount_campaign' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Discount % *</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    max="99.99"
+                    step="0.01"
+                    value={actionForm.discount_percent}
+                    onChange={(e) => setActionForm({ ...actionForm, discount_percent: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Campaign Ends</label>
+                  <input
+                    type="date"
+                    value={actionForm.campaign_end_date}
+                    onChange={(e) => setActionForm({ ...actionForm, campaign_end_date: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            {actionType === 'return_to_supplier' && (
+              <p className="text-xs text-amber-700">
+                Raises a stock rejection with disposition "return to supplier". Stock leaves the batch once the rejection is approved.
+              </p>
+            )}
+
+            {actionType === 'write_off' && (
+              <p className="text-xs text-red-700">
+                Stock leaves the batch immediately and the value is posted Dr 5500 Inventory Write-off / Cr 1130 Inventory.
+              </p>
+            )}
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Notes {actionType !== 'discount_campaign' && '*'}
+              </label>
+              <textarea
+                value={actionForm.notes}
+                onChange={(e) => setActionForm({ ...actionForm, notes: e.target.value })}
+                rows={2}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                required={actionType !== 'discount_campaign'}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setActionBatch(null)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className={`px-3 py-1.5 text-sm text-white rounded-lg disabled:opacity-50 ${
+                  actionType === 'write_off' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {saving ? 'Saving...' : ACTION_LABELS[actionType]}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </Layout>
+  );
+}
@@ -27,17 +27,24 @@ const BankAccountsManager = lazy(() => import('../components/finance/BankAccount
 const TaxReports = lazy(() => import('../components/finance/TaxReports').then(m => ({ default: m.TaxReports })));
 const CAReports = lazy(() => import('../components/finance/CAReports').then(m => ({ default: m.CAReports })));
 const GeneralJournalEntry = lazy(() => import('../components/finance/GeneralJournalEntry').then(m => ({ default: m.GeneralJournalEntry })));
+const PeriodClose = lazy(() => import('../components/finance/PeriodClose').then(m => ({ default: m.PeriodClose })));
+const FxRevaluation = lazy(() => import('../components/finance/FxRevaluation').then(m => ({ default: m.FxRevaluation })));
+const FixedAssetRegister = lazy(() => import('../components/finance/FixedAssetRegister').then(m => ({ default: m.FixedAssetRegister })));
+const ExchangeRatesManager = lazy(() => import('../components/finance/ExchangeRatesManager').then(m => ({ default: m.ExchangeRatesManager })));
+const InventoryValuation = lazy(() => import('../components/finance/InventoryValuation').then(m => ({ default: m.InventoryValuation })));
+const AuditExplorer = lazy(() => import('../components/finance/AuditExplorer').then(m => ({ default: m.AuditExplorer })));
 
 type FinanceTab =
   | 'purchase' | 'receipt' | 'payment' | 'journal' | 'contra' | 'expenses' | 'petty_cash'
-  | 'ledger' | 'journal_register' | 'bank_ledger' | 'party_ledger' | 'bank_recon'
-  | 'trial_balance' | 'pnl' | 'balance_sheet' | 'receivables' | 'payables' | 'ageing' | 'tax' | 'ca_reports'
-  | 'coa' | 'customers' | 'suppliers' | 'products' | 'banks';
+  | 'ledger' | 'journal_register' | 'bank_ledger' | 'party_ledger' | 'bank_recon' | 'period_close' | 'fx_revaluation' | 'fixed_assets'
+  | 'trial_balance' | 'pnl' | 'balance_sheet' | 'receivables' | 'payables' | 'ageing' | 'tax' | 'ca_reports' | 'inventory_valuation' | 'audit_trail'
+  | 'coa' | 'customers' | 'suppliers' | 'products' | 'banks' | 'exchange_rates';
 
 interface MenuItem {
   id: FinanceTab;
   label: string;
   shortcut?: string;
+  roles?: string[];
 }
 
 interface MenuGroup {
@@ -67,6 +74,9 @@ const getFinanceMenu = (t: Record<string, Record<string, string>>): MenuGroup[]
       { id: 'bank_ledger', label: t.finance.bankLedger },
       { id: 'party_ledger', label: t.finance.partyLedger },
       { id: 'bank_recon', label: t.finance.bankReconciliation },
+      { id: 'period_close', label: t.finance.periodClose },
+      { id: 'fx_revaluation', label: t.finance.fxRevaluation, roles: ['admin', 'accounts', 'auditor_ca'] },
+      { id: 'fixed_assets', label: t.finance.fixedAssets, roles: ['admin', 'accounts', 'auditor_ca'] },
     ]
   },
   {
@@ -81,6 +91,8 @@ const getFinanceMenu = (t: Record<string, Record<string, string>>): MenuGroup[]
       { id: 'payables', label: t.finance.payables },
       { id: 'ageing', label: t.finance.ageing },
       { id: 'tax', label: t.finance.taxReports },
+      { id: 'inventory_valuation', label: t.finance.inventoryValuation, roles: ['admin', 'accounts', 'auditor_ca'] },
+      { id: 'audit_trail', label: t.finance.auditTrail, roles: ['admin', 'auditor_ca'] },
     ]
   },
   {
@@ -90,6 +102,7 @@ const getFinanceMenu = (t: Record<string, Record<string, string>>): MenuGroup[]
       { id: 'coa', label: t.finance.chartOfAccounts },
       { id: 'suppliers', label: t.finance.suppliers },
       { id: 'banks', label: t.finance.banks },
+      { id: 'exchange_rates', label: t.finance.exchangeRates },
     ]
   }
 ];
@@ -118,8 +131,11 @@ function FinanceContent() {
 
   const financeMenu = useMemo(() => {
     if (!t || !t.finance) return [];
-    return getFinanceMenu(t);
-  }, [t]);
+    return getFinanceMenu(t).map(group => ({
+      ...group,
+      items: group.items.filter(item => !item.roles || (!!profile && item.roles.includes(profile.role))),
+    }));
+  }, [t, profile]);
 
   const toggleGroup = (groupLabel: string) => {
     setCollapsedGroups(prev => {
@@ -210,6 +226,12 @@ function FinanceContent() {
         return <PartyLedger />;
       case 'bank_recon':
         return <BankReconciliation canManage={canManage} />;
+      case 'period_close':
+        return <PeriodClose canManage={canManage} />;
+      case 'fx_revaluation':
+        return <FxRevaluation canManage={canManage} />;
+      case 'fixed_assets':
+        return <FixedAssetRegister canManage={canManage} />;
       case 'trial_balance':
         return <FinancialReports initialReport="trial_balance" />;
       case 'pnl':
@@ -226,12 +248,18 @@ function FinanceContent() {
         return <TaxReports />;
       case 'ca_reports':
         return <CAReports />;
+      case 'inventory_valuation':
+        return <InventoryValuation />;
+      case 'audit_trail':
+        return <AuditExplorer />;
       case 'coa':
         return <ChartOfAccountsManager canManage={canManage} />;
       case 'suppliers':
         return <SuppliersManager canManage={canManage} />;
       case 'banks':
         return <BankAccountsManager canManage={canManage} />;
+      case 'exchange_rates':
+        return <ExchangeRatesManager canManage={canManage} />;
       default:
         return <div className="text-center p-8 text-gray-500">{t?.common?.noData || 'No data available'}</div>;
     }
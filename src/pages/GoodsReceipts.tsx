@@ -0,0 +1,945 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useFinance } from '../contexts/FinanceContext';
+import { useNavigation } from '../contexts/NavigationContext';
+import { Layout } from '../components/Layout';
+import { PackageCheck, Plus, Search, Eye, Trash2, CheckCircle } from 'lucide-react';
+import { Modal } from '../components/Modal';
+import { SearchableSelect } from '../components/SearchableSelect';
+import { showToast } from '../components/ToastNotification';
+import { showConfirm } from '../components/ConfirmDialog';
+import { formatDate } from '../utils/dateFormat';
+import { formatCurrency } from '../utils/currency';
+
+interface Supplier {
+  id: string;
+  company_name: string;
+}
+
+interface POLine {
+  id: string;
+  line_number: number;
+  product_id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  line_total: number;
+  quantity_received: number;
+  quantity_pending: number;
+  products?: {
+    product_name: string;
+    product_code: string;
+  };
+}
+
+interface ReceivablePO {
+  id: string;
+  po_number: string;
+  po_date: string;
+  supplier_id: string;
+  currency: string;
+  exchange_rate: number;
+  status: string;
+  suppliers?: Supplier;
+  purchase_order_items?: POLine[];
+}
+
+interface ImportContainer {
+  id: string;
+  container_ref: string;
+}
+
+interface GRNItem {
+  id: string;
+  line_number: number;
+  po_item_id: string | null;
+  product_id: string;
+  batch_id: string | null;
+  batch_number: string | null;
+  expiry_date: string | null;
+  manufacture_date: string | null;
+  description: string | null;
+  quantity_received: number;
+  unit: string | null;
+  unit_cost: number;
+  line_total: number;
+  products?: {
+    product_name: string;
+    product_code: string;
+  };
+}
+
+interface GoodsReceipt {
+  id: string;
+  grn_number: string;
+  grn_date: string;
+  supplier_id: string;
+  po_id: string | null;
+  po_number: string | null;
+  delivery_note_number: string | null;
+  supplier_invoice_number: string | null;
+  received_by: string | null;
+  currency: string;
+  exchange_rate: number;
+  total_quantity: number;
+  total_amount: number;
+  status: 'draft' | 'posted';
+  notes: string | null;
+  import_container_id: string | null;
+  posted_at: string | null;
+  created_at: string;
+  suppliers?: Supplier;
+  import_containers?: ImportContainer | null;
+  goods_receipt_items?: GRNItem[];
+}
+
+interface ReceiptLine {
+  po_item_id: string;
+  line_number: number;
+  product_id: string;
+  description: string;
+  unit: string;
+  quantity_ordered: number;
+  quantity_pending: number;
+  quantity_received: number;
+  unit_cost: number;
+  batch_number: string;
+  manufacture_date: string;
+  expiry_date: string;
+}
+
+interface ReceiptStatusLine {
+  po_item_id: string;
+  line_number: number;
+  description: string;
+  unit: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  quantity_pending: number;
+  grn_count: number;
+}
+
+const emptyHeader = () => ({
+  po_id: '',
+  grn_date: new Date().toISOString().split('T')[0],
+  delivery_note_number: '',
+  supplier_invoice_number: '',
+  received_by: '',
+  import_container_id: '',
+  notes: '',
+});
+
+export default function GoodsReceipts() {
+  const { user, profile } = useAuth();
+  const { dateRange } = useFinance();
+  const { navigationData, clearNavigationData } = useNavigation();
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [receivablePOs, setReceivablePOs] = useState<ReceivablePO[]>([]);
+  const [containers, setContainers] = useState<ImportContainer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [viewingReceipt, setViewingReceipt] = useState<GoodsReceipt | null>(null);
+  const [receiptStatus, setReceiptStatus] = useState<ReceiptStatusLine[]>([]);
+  const [header, setHeader] = useState(emptyHeader());
+  const [lines, setLines] = useState<ReceiptLine[]>([]);
+
+  const canReceive = profile?.role === 'admin' || profile?.role === 'warehouse' || profile?.role === 'accounts';
+
+  useEffect(() => {
+    loadReceipts();
+    loadReceivablePOs();
+    loadContainers();
+  }, [dateRange.startDate, dateRange.endDate]);
+
+  useEffect(() => {
+    if (navigationData?.sourceType === 'purchase_order' && typeof navigationData.poId === 'string' && receivablePOs.length > 0) {
+      openCreate(navigationData.poId);
+      clearNavigationData();
+    }
+  }, [navigationData, receivablePOs]);
+
+  const loadReceipts = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('goods_receipt_notes')
+        .select(`
+          *,
+          suppliers (id, company_name),
+          import_containers (id, container_ref),
+          goods_receipt_items (
+            *,
+            products (product_name, product_code)
+          )
+        `)
+        .gte('grn_date', dateRange.startDate)
+        .lte('grn_date', dateRange.endDate)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setReceipts(data || []);
+    } catch (error) {
+      console.error('Error loading goods receipts:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load goods receipts' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReceivablePOs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(`
+          id, po_number, po_date, supplier_id, currency, exchange_rate, status,
+          suppliers (id, company_name),
+          purchase_order_items (
+            id, line_number, product_id, description, quantity, unit, unit_price, line_total,
+            quantity_received, quantity_pending,
+            products (product_name, product_code)
+          )
+        `)
+        .in('status', ['approved', 'partially_received'])
+        .order('po_date', { ascending: false });
+
+      if (error) throw error;
+      setReceivablePOs((data || []) as unknown as ReceivablePO[]);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+    }
+  };
+
+  const loadContainers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('import_containers')
+        .select('id, container_ref')
+        .order('container_ref', { ascending: false });
+
+      if (error) throw error;
+      setContainers(data || []);
+    } catch (error) {
+      console.error('Error loading import containers:', error);
+    }
+  };
+
+  const loadReceiptStatus = async (poId: string) => {
+    const { data, error } = await supabase
+      .from('vw_po_receipt_status')
+      .select('po_item_id, line_number, description, unit, quantity_ordered, quantity_received, quantity_pending, grn_count')
+      .eq('po_id', poId)
+      .order('line_number');
+
+    if (error) {
+      console.error('Error loading PO receipt status:', error);
+      setReceiptStatus([]);
+      return;
+    }
+    setReceiptStatus(data || []);
+  };
+
+  const buildLines = (po: ReceivablePO): ReceiptLine[] =>
+    (po.purchase_order_items || [])
+      .filter(item => Number(item.quantity_pending) > 0)
+      .sort((a, b) => a.line_number - b.line_number)
+      .map(item => ({
+        po_item_id: item.id,
+        line_number: item.line_number,
+        product_id: item.product_id,
+        description: item.products?.product_name || item.description,
+        unit: item.unit,
+        quantity_ordered: Number(item.quantity),
+        quantity_pending: Number(item.quantity_pending),
+        quantity_received: Number(item.quantity_pending),
+        // Net unit cost after line discount
+        unit_cost: item.quantity > 0 ? Number(item.line_total) / Number(item.quantity) : Number(item.unit_price),
+        batch_number: '',
+        manufacture_date: '',
+        expiry_date: '',
+      }));
+
+  const openCreate = (poId = '') => {
+    const po = receivablePOs.find(p => p.id === poId);
+    setHeader({ ...emptyHeader(), po_id: po ? po.id : '' });
+    setLines(po ? buildLines(po) : []);
+    setShowCreateModal(true);
+  };
+
+  const handlePOChange = (poId: string) => {
+    const po = receivablePOs.find(p => p.id === poId);
+    setHeader({ ...header, po_id: poId });
+    setLines(po ? buildLines(po) : []);
+  };
+
+  const updateLine = (index: number, changes: Partial<ReceiptLine>) => {
+    const newLines = [...lines];
+    newLines[index] = { ...newLines[index], ...changes };
+    setLines(newLines);
+  };
+
+  const selectedPO = receivablePOs.find(p => p.id === header.po_id);
+  const receivingLines = lines.filter(line => line.quantity_received > 0);
+  const receiptTotal = receivingLines.reduce((sum, line) => sum + line.quantity_received * line.unit_cost, 0);
+
+  const validateLines = (): string | null => {
+    if (!selectedPO) return 'Select an approved purchase order';
+    if (receivingLines.length === 0) return 'Enter a received quantity for at least one line';
+
+    for (const line of receivingLines) {
+      if (line.quantity_received > line.quantity_pending) {
+        return `Line ${line.line_number}: cannot receive ${line.quantity_received}, only ${line.quantity_pending} pending`;
+      }
+      if (!line.batch_number.trim()) {
+        return `Line ${line.line_number}: batch number is required`;
+      }
+      if (!line.expiry_date) {
+        return `Line ${line.line_number}: expiry date is required`;
+      }
+      if (line.expiry_date <= header.grn_date) {
+        return `Line ${line.line_number}: expiry date must be after the receipt date`;
+      }
+      if (line.manufacture_date && line.manufacture_date > line.expiry_date) {
+        return `Line ${line.line_number}: manufacture date is after expiry date`;
+      }
+    }
+
+    const batchNumbers = receivingLines.map(line => line.batch_number.trim().toLowerCase());
+    if (new Set(batchNumbers).size !== batchNumbers.length) {
+      return 'Each received line needs its own batch number';
+    }
+
+    return null;
+  };
+
+  const handleSave = async (post: boolean) => {
+    const validationError = validateLines();
+    if (validationError || !selectedPO) {
+      showToast({ type: 'error', title: 'Error', message: validationError || 'Select an approved purchase order' });
+      return;
+    }
+
+    if (post && !await showConfirm({
+      title: 'Post Goods Receipt',
+      message: `Post this receipt? ${receivingLines.length} batch(es) will be created and stock updated. Posted receipts cannot be edited.`,
+      variant: 'warning',
+      confirmLabel: 'Post',
+    })) return;
+
+    setSaving(true);
+    try {
+      const { data: grn, error: grnError } = await supabase
+        .from('goods_receipt_notes')
+        .insert({
+          grn_number: '',
+          grn_date: header.grn_date,
+          supplier_id: selectedPO.supplier_id,
+          po_id: selectedPO.id,
+          po_number: selectedPO.po_number,
+          delivery_note_number: header.delivery_note_number || null,
+          supplier_invoice_number: header.supplier_invoice_number || null,
+          received_by: header.received_by || null,
+          import_container_id: header.import_container_id || null,
+          currency: selectedPO.currency,
+          exchange_rate: selectedPO.exchange_rate || 1,
+          total_quantity: receivingLines.reduce((sum, line) => sum + line.quantity_received, 0),
+          subtotal: receiptTotal,
+          tax_amount: 0,
+          total_amount: receiptTotal,
+          status: 'draft',
+          notes: header.notes || null,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (grnError) throw grnError;
+
+      const { error: itemsError } = await supabase
+        .from('goods_receipt_items')
+        .insert(receivingLines.map((line, index) => ({
+          grn_id: grn.id,
+          line_number: index + 1,
+          po_item_id: line.po_item_id,
+          product_id: line.product_id,
+          batch_number: line.batch_number.trim(),
+          expiry_date: line.expiry_date,
+          manufacture_date: line.manufacture_date || null,
+          description: line.description,
+          quantity_received: line.quantity_received,
+          unit: line.unit,
+          unit_cost: line.unit_cost,
+          line_total: line.quantity_received * line.unit_cost,
+        })));
+
+      if (itemsError) {
+        await supabase.from('goods_receipt_notes').delete().eq('id', grn.id);
+        throw itemsError;
+      }
+
+      if (post) {
+        const { error: postError } = await supabase
+          .from('goods_receipt_notes')
+          .update({ status: 'posted' })
+          .eq('id', grn.id);
+
+        if (postError) throw new Error(`Saved ${grn.grn_number} as draft, but posting failed: ${postError.message}`);
+      }
+
+      showToast({
+        type: 'success',
+        title: 'Success',
+        message: post ? `${grn.grn_number} posted and batches created` : `${grn.grn_number} saved as draft`,
+      });
+      setShowCreateModal(false);
+      loadReceipts();
+      loadReceivablePOs();
+    } catch (error) {
+      console.error('Error saving goods receipt:', error);
+      showToast({ type: 'error', title: 'Error', message: error instanceof Error ? error.message : 'Failed to save goods receipt' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async (receipt: GoodsReceipt) => {
+    if (!await showConfirm({
+      title: 'Post Goods Receipt',
+      message: `Post ${receipt.grn_number}? Batches will be created and the purchase order updated.`,
+      variant: 'warning',
+      confirmLabel: 'Post',
+    })) return;
+
+    try {
+      const { error } = await supabase
+        .from('goods_receipt_notes')
+        .update({ status: 'posted' })
+        .eq('id', receipt.id);
+
+      if (error) throw error;
+
+      showToast({ type: 'success', title: 'Success', message: `${receipt.grn_number} posted` });
+      loadReceipts();
+      loadReceivablePOs();
+    } catch (error) {
+      console.error('Error posting goods receipt:', error);
+      showToast({ type: 'error', title: 'Error', message: error instanceof Error ? error.message : 'Failed to post goods receipt' });
+    }
+  };
+
+  const handleDelete = async (receipt: GoodsReceipt) => {
+    if (!await showConfirm({
+      title: 'Confirm',
+      message: `Delete draft ${receipt.grn_number}?`,
+      variant: 'danger',
+      confirmLabel: 'Delete',
+    })) return;
+
+    try {
+      const { error } = await supabase
+        .from('goods_receipt_notes')
+        .delete()
+        .eq('id', receipt.id);
+
+      if (error) throw error;
+
+      showToast({ type: 'success', title: 'Success', message: `${receipt.grn_number} deleted` });
+      loadReceipts();
+    } catch (error) {
+      console.error('Error deleting goods receipt:', error);
+      showToast({ type: 'error', title: 'Error', message: error instanceof Error ? error.message : 'Failed to delete goods receipt' });
+    }
+  };
+
+  const handleView = (receipt: GoodsReceipt) => {
+    setViewingReceipt(receipt);
+    if (receipt.po_id) {
+      loadReceiptStatus(receipt.po_id);
+    } else {
+      setReceiptStatus([]);
+    }
+  };
+
+  const getStatusBadge = (status: string) => (
+    <span className={`px-2 py-1 text-xs font-medium rounded ${
+      status === 'posted' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+    }`}>
+      {status === 'posted' ? 'Posted' : 'Draft'}
+    </span>
+  );
+
+  const filteredReceipts = receipts.filter(receipt => {
+    if (statusFilter !== 'all' && receipt.status !== statusFilter) return false;
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return (
+      receipt.grn_number.toLowerCase().includes(term) ||
+      (receipt.po_number || '').toLowerCase().includes(term) ||
+      (receipt.suppliers?.company_name || '').toLowerCase().includes(term) ||
+      (receipt.goods_receipt_items || []).some(item => (item.batch_number || '').toLowerCase().includes(term))
+    );
+  });
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6">
+        <div className="mb-6 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Goods Receipts</h1>
+            <p className="text-gray-600">Receive stock against approved purchase orders</p>
+          </div>
+          {canReceive && (
+            <button
+              onClick={() => openCreate()}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+            >
+              <Plus className="h-5 w-5" />
+              New Goods Receipt
+            </button>
+          )}
+        </div>
+
+        <div className="mb-6 flex flex-col md:flex-row gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+              <input
+                type="text"
+                placeholder="Search GRN, PO, supplier, batch..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="all">All Status</option>
+            <option value="draft">Draft</option>
+            <option value="posted">Posted</option>
+          </select>
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">GRN Number</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">PO Number</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Container</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Batches</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Value</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredReceipts.map((receipt) => (
+                <tr key={receipt.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{receipt.grn_number}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(receipt.grn_date)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{receipt.po_number || '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{receipt.suppliers?.company_name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{receipt.import_containers?.container_ref || '-'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    <div className="flex flex-col gap-0.5 max-w-xs">
+                      {(receipt.goods_receipt_items || []).slice(0, 2).map(item => (
+                        <span key={item.id} className="text-xs truncate">
+                          {item.batch_number} · {item.products?.product_name}
+                          <span className="text-gray-400 ml-1">×{item.quantity_received}</span>
+                        </span>
+                      ))}
+                      {(receipt.goods_receipt_items || []).length > 2 && (
+                        <span className="text-xs text-gray-400 italic">
+                          +{(receipt.goods_receipt_items || []).length - 2} more
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">
+                    {formatCurrency(receipt.total_amount, receipt.currency)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">{getStatusBadge(receipt.status)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex gap-2">
+                      <button onClick={() => handleView(receipt)} className="text-blue-600 hover:text-blue-800" title="View">
+                        <Eye className="h-5 w-5" />
+                      </button>
+                      {receipt.status === 'draft' && canReceive && (
+                        <>
+                          <button onClick={() => handlePost(receipt)} className="text-green-600 hover:text-green-800" title="Post">
+                            <CheckCircle className="h-5 w-5" />
+                          </button>
+                          <button onClick={() => handleDelete(receipt)} className="text-red-600 hover:text-red-800" title="Delete">
+                            <Trash2 className="h-5 w-5" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          </div>
+          {filteredReceipts.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              <PackageCheck className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+              No goods receipts found
+            </div>
+          )}
+        </div>
+
+        {showCreateModal && (
+          <Modal
+            isOpen={showCreateModal}
+            onClose={() => setShowCreateModal(false)}
+            title="New Goods Receipt"
+            maxWidth="max-w-6xl"
+          >
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Purchase Order *</label>
+                  <SearchableSelect
+                    value={header.po_id}
+                    onChange={handlePOChange}
+                    options={receivablePOs.map(po => ({
+                      value: po.id,
+                      label: `${po.po_number} - ${po.suppliers?.company_name || ''}`,
+                    }))}
+                    placeholder="Select approved PO"
+                    className="text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Receipt Date *</label>
+                  <input
+                    type="date"
+                    value={header.grn_date}
+                    onChange={(e) => setHeader({ ...header, grn_date: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Import Container</label>
+                  <SearchableSelect
+                    value={header.import_container_id}
+                    onChange={(value) => setHeader({ ...header, import_container_id: value })}
+                    options={containers.map(c => ({ value: c.id, label: c.container_ref }))}
+                    placeholder="Local purchase / none"
+                    className="text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Delivery Note No.</label>
+                  <input
+                    type="text"
+                    value={header.delivery_note_number}
+                    onChange={(e) => setHeader({ ...header, delivery_note_number: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Supplier Invoice No.</label>
+                  <input
+                    type="text"
+                    value={header.supplier_invoice_number}
+                    onChange={(e) => setHeader({ ...header, supplier_invoice_number: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Received By</label>
+                  <input
+                    type="text"
+                    value={header.received_by}
+                    onChange={(e) => setHeader({ ...header, received_by: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {selectedPO && (
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-xs font-semibold text-gray-700">
+                      Lines pending on {selectedPO.po_number}
+                    </label>
+                    <span className="text-xs text-gray-500">Set quantity to 0 to skip a line</span>
+                  </div>
+                  <div className="border border-gray-300 rounded overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600">Product</th>
+                          <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Ordered</th>
+                          <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Pending</th>
+                          <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600" style={{ width: '90px' }}>Receive</th>
+                          <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600" style={{ width: '150px' }}>Batch No. *</th>
+                          <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600" style={{ width: '130px' }}>Mfg Date</th>
+                          <th className="px-2 py-1.5 text-left text-xs font-medium text-gray-600" style={{ width: '130px' }}>Expiry *</th>
+                          <th className="px-2 py-1.5 text-right text-xs font-medium text-gray-600">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {lines.map((line, index) => (
+                          <tr key={line.po_item_id} className={line.quantity_received > line.quantity_pending ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                            <td className="px-2 py-1 text-xs text-gray-900">
+                              {line.description}
+                              <div className="text-gray-400">{formatCurrency(line.unit_cost, selectedPO.currency)} / {line.unit}</div>
+                            </td>
+                            <td className="px-2 py-1 text-xs text-right text-gray-600">{line.quantity_ordered}</td>
+                            <td className="px-2 py-1 text-xs text-right text-gray-600">{line.quantity_pending}</td>
+                            <td className="px-2 py-1">
+                              <input
+                                type="number"
+                                min={0}
+                                max={line.quantity_pending}
+                                value={line.quantity_received}
+                                onChange={(e) => updateLine(index, { quantity_received: parseFloat(e.target.value) || 0 })}
+                                className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 text-right"
+                              />
+                            </td>
+                            <td className="px-2 py-1">
+                              <input
+                                type="text"
+                                value={line.batch_number}
+                                onChange={(e) => updateLine(index, { batch_number: e.target.value })}
+                                className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                                placeholder="Supplier batch"
+                              />
+                            </td>
+                            <td className="px-2 py-1">
+                              <input
+                                type="date"
+                                value={line.manufacture_date}
+                                onChange={(e) => updateLine(index, { manufacture_date: e.target.value })}
+                                className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                              />
+                            </td>
+                            <td className="px-2 py-1">
+                              <input
+                                type="date"
+                                value={line.expiry_date}
+                                onChange={(e) => updateLine(index, { expiry_date: e.target.value })}
+                                className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                              />
+                            </td>
+                            <td className="px-2 py-1 text-xs text-right font-medium">
+                              {formatCurrency(line.quantity_received * line.unit_cost, selectedPO.currency)}
+                            </td>
+                          </tr>
+                        ))}
+                        {lines.length === 0 && (
+                          <tr>
+                            <td colSpan={8} className="px-2 py-4 text-center text-xs text-gray-500">
+                              Nothing pending on this purchase order
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex justify-end mt-2">
+                    <div className="w-64 flex justify-between text-base font-bold bg-gray-50 px-3 py-2 rounded">
+                      <span>Total:</span>
+                      <span>{formatCurrency(receiptTotal, selectedPO.currency)}</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={header.notes}
+                  onChange={(e) => setHeader({ ...header, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  placeholder="Condition of goods, short shipment remarks..."
+                />
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setShowCreateModal(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() => handleSave(false)}
+                  className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                >
+                  Save Draft
+                </button>
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() => handleSave(true)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save & Post'}
+                </button>
+              </div>
+            </div>
+          </Modal>
+        )}
+
+        {viewingReceipt && (
+          <Modal
+            isOpen={!!viewingReceipt}
+            onClose={() => setViewingReceipt(null)}
+            title={`Goods Receipt ${viewingReceipt.grn_number}`}
+            maxWidth="max-w-5xl"
+          >
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <div className="text-xs text-gray-500">Date</div>
+                  <div className="font-medium">{formatDate(viewingReceipt.grn_date)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Supplier</div>
+                  <div className="font-medium">{viewingReceipt.suppliers?.company_name}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Purchase Order</div>
+                  <div className="font-medium">{viewingReceipt.po_number || '-'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Status</div>
+                  <div>{getStatusBadge(viewingReceipt.status)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Container</div>
+                  <div className="font-medium">{viewingReceipt.import_containers?.container_ref || '-'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Delivery Note</div>
+                  <div className="font-medium">{viewingReceipt.delivery_note_number || '-'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Supplier Invoice</div>
+                  <div className="font-medium">{viewingReceipt.supplier_invoice_number || '-'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">Received By</div>
+                  <div className="font-medium">{viewingReceipt.received_by || '-'}</div>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">Received Batches</h4>
+                <div className="border border-gray-200 rounded overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-xs">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">#</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Product</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Batch</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Expiry</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-600">Qty</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-600">Unit Cost</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-600">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {(viewingReceipt.goods_receipt_items || [])
+                        .slice()
+                        .sort((a, b) => a.line_number - b.line_number)
+                        .map(item => (
+                          <tr key={item.id}>
+                            <td className="px-3 py-2">{item.line_number}</td>
+                            <td className="px-3 py-2">{item.products?.product_name || item.description}</td>
+                            <td className="px-3 py-2">
+                              {item.batch_number}
+                              {viewingReceipt.status === 'posted' && !item.batch_id && (
+                                <span className="ml-1 text-red-600">(no batch)</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2">{formatDate(item.expiry_date)}</td>
+                            <td className="px-3 py-2 text-right">{item.quantity_received} {item.unit}</td>
+                            <td className="px-3 py-2 text-right">{formatCurrency(item.unit_cost, viewingReceipt.currency)}</td>
+                            <td className="px-3 py-2 text-right font-medium">{formatCurrency(item.line_total, viewingReceipt.currency)}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {viewingReceipt.po_id && receiptStatus.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                    PO Reconciliation - {viewingReceipt.po_number}
+                  </h4>
+                  <div className="border border-gray-200 rounded overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-xs">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-medium text-gray-600">Line</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-600">Description</th>
+                          <th className="px-3 py-2 text-right font-medium text-gray-600">Ordered</th>
+                          <th className="px-3 py-2 text-right font-medium text-gray-600">Received</th>
+                          <th className="px-3 py-2 text-right font-medium text-gray-600">Pending</th>
+                          <th className="px-3 py-2 text-right font-medium text-gray-600">GRNs</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {receiptStatus.map(line => (
+                          <tr key={line.po_item_id}>
+                            <td className="px-3 py-2">{line.line_number}</td>
+                            <td className="px-3 py-2">{line.description}</td>
+                            <td className="px-3 py-2 text-right">{line.quantity_ordered} {line.unit}</td>
+                            <td className="px-3 py-2 text-right text-green-700">{line.quantity_received}</td>
+                            <td className={`px-3 py-2 text-right ${Number(line.quantity_pending) > 0 ? 'text-orange-600 font-medium' : 'text-gray-500'}`}>
+                              {line.quantity_pending}
+                            </td>
+                            <td className="px-3 py-2 text-right">{line.grn_count}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {viewingReceipt.notes && (
+                <div className="text-sm text-gray-600">
+                  <span className="text-xs text-gray-500 block">Notes</span>
+                  {viewingReceipt.notes}
+                </div>
+              )}
+            </div>
+          </Modal>
+        )}
+      </div>
+    </Layout>
+  );
+}
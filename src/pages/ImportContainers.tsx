@@ -8,6 +8,7 @@ import { SearchableSelect } from '../components/SearchableSelect';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { formatDate } from '../utils/dateFormat';
+import { fetchExchangeRate } from '../utils/exchangeRates';
 
 interface Supplier {
   id: string;
@@ -232,11 +233,23 @@ export default function ImportContainers() {
     }
   };
 
+  // Defaults the rate from the exchange rate master for the import date; it stays editable
+  const applyExchangeRate = async (currency: string, importDate: string) => {
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, importDate);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
   const resetForm = () => {
+    const today = new Date().toISOString().split('T')[0];
     setFormData({
       container_ref: '',
       supplier_id: '',
-      import_date: new Date().toISOString().split('T')[0],
+      import_date: today,
       import_invoice_value: 0,
       currency: 'USD',
       exchange_rate: 15000,
@@ -252,6 +265,7 @@ export default function ImportContainers() {
       notes: ''
     });
     setLinkedExpenses([]);
+    applyExchangeRate('USD', today);
   };
 
   const loadLinkedExpenses = async (containerId: string) => {
@@ -518,7 +532,10 @@ export default function ImportContainers() {
                   <input
                     type="date"
                     value={formData.import_date}
-                    onChange={(e) => setFormData({ ...formData, import_date: e.target.value })}
+                    onChange={(e) => {
+                      setFormData({ ...formData, import_date: e.target.value });
+                      if (formData.currency !== 'IDR') applyExchangeRate(formData.currency, e.target.value);
+                    }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg"
                     required
                   />
@@ -527,7 +544,7 @@ export default function ImportContainers() {
                   <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
                   <select
                     value={formData.currency}
-                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    onChange={(e) => applyExchangeRate(e.target.value, formData.import_date)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg"
                   >
                     <option value="USD">USD</option>
@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Layout } from '../components/Layout';
-import { AlertTriangle, TrendingUp, Package, Calendar, FileText } from 'lucide-react';
+import { AlertTriangle, TrendingUp, Package, Calendar, FileText, ShoppingCart } from 'lucide-react';
 import { ImportRequirementsTable } from '../components/ImportRequirementsTable';
+import { Modal } from '../components/Modal';
 import { showToast } from '../components/ToastNotification';
 import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../utils/dateFormat';
 
 interface ImportRequirement {
   id: string;
@@ -18,6 +20,7 @@ interface ImportRequirement {
   status: 'pending' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
   lead_time_days: number;
   notes?: string;
+  purchase_order_id?: string | null;
   created_at: string;
   products?: {
     product_name: string;
@@ -29,6 +32,28 @@ interface ImportRequirement {
   customers?: {
     company_name: string;
   };
+  purchase_orders?: {
+    po_number: string;
+    status: string;
+  } | null;
+}
+
+// One PO line as grouped by preview_purchase_orders_from_requirements()
+interface POPreviewLine {
+  supplier_id: string | null;
+  supplier_name: string | null;
+  currency: string;
+  product_id: string;
+  product_name: string;
+  unit: string;
+  requirement_ids: string[];
+  shortage_quantity: number;
+  moq: number | null;
+  pack_size: number | null;
+  order_quantity: number;
+  unit_price: number;
+  expected_delivery_date: string;
+  issue: string | null;
 }
 
 interface StockInfo {
@@ -45,6 +70,9 @@ export default function ImportRequirements() {
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState('pending');
   const [priorityFilter, setPriorityFilter] = useState('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [poPreview, setPoPreview] = useState<POPreviewLine[] | null>(null);
+  const [creatingPOs, setCreatingPOs] = useState(false);
 
   const canEdit = true;
 
@@ -61,7 +89,8 @@ export default function ImportRequirements() {
           *,
           products (product_name, product_code),
           sales_orders (so_number),
-          customers (company_name)
+          customers (company_name),
+          purchase_orders (po_number, status)
         `)
         .order('priority', { ascending: true })
         .order('required_delivery_date', { ascending: true });
@@ -74,6 +103,7 @@ export default function ImportRequirements() {
 
       if (error) throw error;
       setRequirements(data || []);
+      setSelectedIds(new Set());
 
       const productIds = [...new Set(data?.map(r => r.product_id))];
       if (productIds.length > 0) {
@@ -138,6 +168,51 @@ export default function ImportRequirements() {
     }
   };
 
+  const toggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handlePreviewPOs = async () => {
+    try {
+      const { data, error } = await supabase.rpc('preview_purchase_orders_from_requirements', {
+        p_requirement_ids: Array.from(selectedIds),
+      });
+      if (error) throw error;
+      setPoPreview((data || []) as POPreviewLine[]);
+    } catch (error) {
+      console.error('Error previewing purchase orders:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to group requirements' });
+    }
+  };
+
+  const handleCreatePOs = async () => {
+    setCreatingPOs(true);
+    try {
+      const { data, error } = await supabase.rpc('create_purchase_orders_from_requirements', {
+        p_requirement_ids: Array.from(selectedIds),
+      });
+      if (error) throw error;
+      const created = (data || []) as { po_number: string; supplier_name: string }[];
+      showToast({
+        type: 'success',
+        title: 'Draft POs created',
+        message: created.map(po => `${po.po_number} (${po.supplier_name})`).join(', '),
+      });
+      setPoPreview(null);
+      fetchImportRequirements();
+    } catch (error) {
+      console.error('Error creating purchase orders:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to create purchase orders' });
+    } finally {
+      setCreatingPOs(false);
+    }
+  };
+
   const getPriorityBadge = (priority: string) => {
     const config: Record<string, { color: string; label: string }> = {
       high: { color: 'bg-red-100 text-red-800', label: 'High' },
@@ -272,6 +347,17 @@ export default function ImportRequirements() {
               Click any cell to edit
             </div>
           )}
+
+          {canEdit && profile?.role !== 'auditor_ca' && (
+            <button
+              onClick={handlePreviewPOs}
+              disabled={selectedIds.size === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <ShoppingCart className="w-4 h-4" />
+              Create Draft POs{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+            </button>
+          )}
         </div>
 
         {loading ? (
@@ -281,6 +367,8 @@ export default function ImportRequirements() {
             requirements={filteredRequirements}
             onRefresh={fetchImportRequirements}
             canEdit={canEdit}
+            selectedIds={selectedIds}
+            onToggleSelect={profile?.role !== 'auditor_ca' ? toggleSelect : undefined}
           />
         )}
       </div>
@@ -294,10 +382,82 @@ export default function ImportRequirements() {
               Import requirements are automatically generated when sales orders are approved but stock is insufficient.
               The system tracks shortages and helps procurement plan imports based on customer delivery dates and priorities.
             </p>
+            <p className="text-sm text-blue-700 mt-1">
+              Select pending requirements and create draft POs: they are grouped by the product's preferred supplier and
+              rounded up to the source's MOQ and pack size. Status then follows the PO and its goods receipts.
+            </p>
           </div>
         </div>
       </div>
       </div>
+
+      <Modal isOpen={!!poPreview} onClose={() => setPoPreview(null)} title="Create Draft Purchase Orders" size="xl">
+        {poPreview && (
+          <div className="space-y-4">
+            {poPreview.length === 0 ? (
+              <div className="py-6 text-center text-sm text-gray-500">The selected requirements are already ordered</div>
+            ) : (
+              Array.from(new Set(poPreview.map(line => line.supplier_id))).map(supplierId => {
+                const lines = poPreview.filter(line => line.supplier_id === supplierId);
+                const first = lines[0];
+                return (
+                  <div key={supplierId || 'none'} className="border rounded-lg overflow-hidden">
+                    <div className={`px-4 py-2 text-sm font-semibold ${first.issue ? 'bg-red-50 text-red-800' : 'bg-gray-50 text-gray-900'}`}>
+                      {first.issue ? 'Not ordered' : `${first.supplier_name} · ${first.currency}`}
+                      {!first.issue && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">Needed by {formatDate(lines.reduce((min, l) => l.expected_delivery_date < min ? l.expected_delivery_date : min, first.expected_delivery_date))}</span>
+                      )}
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requirements</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Shortage</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">MOQ</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pack</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Order Qty</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Last Price</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {lines.map(line => (
+                          <tr key={line.product_id}>
+                            <td className="px-3 py-2">
+                              {line.product_name}
+                              {line.issue && <div className="text-xs text-red-600">{line.issue}</div>}
+                            </td>
+                            <td className="px-3 py-2 text-right">{line.requirement_ids.length}</td>
+                            <td className="px-3 py-2 text-right">{Number(line.shortage_quantity).toLocaleString()} {line.unit}</td>
+                            <td className="px-3 py-2 text-right text-gray-600">{line.moq ? Number(line.moq).toLocaleString() : '-'}</td>
+                            <td className="px-3 py-2 text-right text-gray-600">{line.pack_size ? Number(line.pack_size).toLocaleString() : '-'}</td>
+                            <td className="px-3 py-2 text-right font-medium">{line.issue ? '-' : `${Number(line.order_quantity).toLocaleString()} ${line.unit}`}</td>
+                            <td className="px-3 py-2 text-right text-gray-600">
+                              {Number(line.unit_price) > 0 ? `${line.currency} ${Number(line.unit_price).toLocaleString()}` : 'Enter on PO'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })
+            )}
+            <div className="flex justify-end gap-2 pt-2 border-t">
+              <button onClick={() => setPoPreview(null)} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleCreatePOs}
+                disabled={creatingPOs || !poPreview.some(line => !line.issue)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {creatingPOs ? 'Creating...' : `Create ${new Set(poPreview.filter(line => !line.issue).map(line => line.supplier_id)).size} Draft PO(s)`}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </Layout>
   );
 }
@@ -0,0 +1,826 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { SearchableSelect } from '../components/SearchableSelect';
+import {
+  LandedCostSimulation,
+  LandedCostSimulationItem,
+  LandedCostSimulationView,
+} from '../components/LandedCostSimulationView';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { Plus, Edit, Eye, Trash2, Copy } from 'lucide-react';
+import { showToast } from '../components/ToastNotification';
+import { showConfirm } from '../components/ConfirmDialog';
+import { formatDate } from '../utils/dateFormat';
+import { formatCurrency, formatNumber } from '../utils/currency';
+import {
+  ALLOCATED_COST_FIELDS,
+  AllocatedCosts,
+  SimulationSourceType,
+  emptyAllocatedCosts,
+  projectLandedCost,
+  totalAllocatedCosts,
+} from '../utils/landedCost';
+import { fetchExchangeRate } from '../utils/exchangeRates';
+
+interface Product {
+  id: string;
+  product_name: string;
+  product_code: string | null;
+  unit: string;
+  duty_percent: number | null;
+}
+
+interface Supplier {
+  id: string;
+  company_name: string;
+}
+
+interface PurchaseOrderOption {
+  id: string;
+  po_number: string;
+  status: string;
+  currency: string;
+  exchange_rate: number;
+  supplier_id: string;
+  suppliers: { company_name: string } | null;
+}
+
+interface ContainerOption {
+  id: string;
+  container_ref: string;
+  status: string;
+}
+
+interface PendingRequirement {
+  id: string;
+  product_id: string;
+  shortage_quantity: number;
+  required_delivery_date: string;
+  supplier_id: string | null;
+  products: { product_name: string; unit: string } | null;
+  sales_orders: { so_number: string } | null;
+  customers: { company_name: string } | null;
+}
+
+interface SimulationLine {
+  product_id: string;
+  purchase_order_item_id: string | null;
+  import_requirement_id: string | null;
+  quantity: number;
+  unit_price: number;
+  duty_percent: number;
+}
+
+type SimulationForm = AllocatedCosts & {
+  title: string;
+  simulation_date: string;
+  source_type: SimulationSourceType;
+  purchase_order_id: string;
+  import_container_id: string;
+  supplier_id: string;
+  currency: string;
+  exchange_rate: number;
+  target_margin_percent: number;
+  notes: string;
+};
+
+const SIMULATION_SELECT = '*, suppliers(company_name), purchase_orders(po_number)';
+
+const emptyForm = (): SimulationForm => ({
+  title: '',
+  simulation_date: new Date().toISOString().split('T')[0],
+  source_type: 'manual',
+  purchase_order_id: '',
+  import_container_id: '',
+  supplier_id: '',
+  currency: 'USD',
+  exchange_rate: 15000,
+  target_margin_percent: 25,
+  notes: '',
+  ...emptyAllocatedCosts(),
+});
+
+const emptyLine = (): SimulationLine => ({
+  product_id: '',
+  purchase_order_item_id: null,
+  import_requirement_id: null,
+  quantity: 0,
+  unit_price: 0,
+  duty_percent: 0,
+});
+
+export function LandedCostSimulations() {
+  const { t } = useLanguage();
+  const { profile } = useAuth();
+  const [simulations, setSimulations] = useState<LandedCostSimulation[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderOption[]>([]);
+  const [containers, setContainers] = useState<ContainerOption[]>([]);
+  const [requirements, setRequirements] = useState<PendingRequirement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editing, setEditing] = useState<LandedCostSimulation | null>(null);
+  const [formData, setFormData] = useState<SimulationForm>(emptyForm());
+  const [lines, setLines] = useState<SimulationLine[]>([emptyLine()]);
+  const [selectedRequirements, setSelectedRequirements] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [viewing, setViewing] = useState<LandedCostSimulation | null>(null);
+  const [viewingItems, setViewingItems] = useState<LandedCostSimulationItem[]>([]);
+
+  const canManage = profile?.role === 'admin' || profile?.role === 'accounts' || profile?.role === 'sales';
+  // Purchase orders and import containers are not visible to sales under RLS
+  const canReadPurchasing = profile?.role === 'admin' || profile?.role === 'accounts';
+
+  useEffect(() => {
+    loadSimulations();
+    loadLookups();
+  }, []);
+
+  const loadSimulations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('landed_cost_simulations')
+        .select(SIMULATION_SELECT)
+        .order('simulation_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setSimulations((data || []) as unknown as LandedCostSimulation[]);
+    } catch (error) {
+      console.error('Error loading simulations:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load landed cost simulations' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLookups = async () => {
+    const [productResult, supplierResult, requirementResult] = await Promise.all([
+      supabase.from('products').select('id, product_name, product_code, unit, duty_percent').eq('is_active', true).order('product_name'),
+      supabase.from('suppliers').select('id, company_name').eq('is_active', true).order('company_name'),
+      supabase
+        .from('import_requirements')
+        .select('id, product_id, shortage_quantity, required_delivery_date, supplier_id, products(product_name, unit), sales_orders(so_number), customers(company_name)')
+        .eq('status', 'pending')
+        .order('required_delivery_date'),
+    ]);
+    setProducts(productResult.data || []);
+    setSuppliers(supplierResult.data || []);
+    setRequirements((requirementResult.data || []) as unknown as PendingRequirement[]);
+
+    if (canReadPurchasing) {
+      const [poResult, containerResult] = await Promise.all([
+        supabase
+          .from('purchase_orders')
+          .select('id, po_number, status, currency, exchange_rate, supplier_id, suppliers(company_name)')
+          .in('status', ['draft', 'pending_approval', 'approved', 'partially_received'])
+          .order('po_date', { ascending: false }),
+        supabase.from('import_containers').select('id, container_ref, status').order('import_date', { ascending: false }),
+      ]);
+      setPurchaseOrders((poResult.data || []) as unknown as PurchaseOrderOption[]);
+      setContainers(containerResult.data || []);
+    }
+  };
+
+  const errorMessage = (error: unknown, fallback: string) =>
+    (error as { message?: string })?.message || fallback;
+
+  const productDuty = (productId: string) =>
+    Number(products.find(p => p.id === productId)?.duty_percent || 0);
+
+  // ---------- Editor ----------
+
+  // Latest rate on file for the currency; the 15000 placeholder stays when there is none
+  const applyExchangeRate = async (currency: string, date: string) => {
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, date);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
+  const openEditor = async (simulation: LandedCostSimulation | null, copy = false) => {
+    setSelectedRequirements([]);
+    if (!simulation) {
+      const form = emptyForm();
+      setEditing(null);
+      setFormData(form);
+      setLines([emptyLine()]);
+      setModalOpen(true);
+      applyExchangeRate(form.currency, form.simulation_date);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('landed_cost_simulation_items')
+      .select('*')
+      .eq('simulation_id', simulation.id)
+      .order('line_number');
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+
+    setEditing(copy ? null : simulation);
+    setFormData({
+      title: copy ? `${simulation.title} (copy)` : simulation.title,
+      simulation_date: copy ? new Date().toISOString().split('T')[0] : simulation.simulation_date,
+      source_type: simulation.source_type,
+      purchase_order_id: simulation.purchase_order_id || '',
+      import_container_id: copy ? '' : simulation.import_container_id || '',
+      supplier_id: simulation.supplier_id || '',
+      currency: simulation.currency,
+      exchange_rate: Number(simulation.exchange_rate),
+      target_margin_percent: Number(simulation.target_margin_percent),
+      notes: simulation.notes || '',
+      ...ALLOCATED_COST_FIELDS.reduce(
+        (costs, field) => ({ ...costs, [field.key]: Number(simulation[field.key]) }),
+        emptyAllocatedCosts()
+      ),
+    });
+    setLines((data || []).map(item => ({
+      product_id: item.product_id,
+      purchase_order_item_id: item.purchase_order_item_id,
+      import_requirement_id: item.import_requirement_id,
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      duty_percent: Number(item.duty_percent),
+    })));
+    setViewing(null);
+    setModalOpen(true);
+  };
+
+  const loadPurchaseOrder = async (poId: string) => {
+    setFormData(prev => ({ ...prev, purchase_order_id: poId }));
+    if (!poId) return;
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select('po_number, currency, exchange_rate, supplier_id, freight_amount, purchase_order_items(id, line_number, product_id, quantity, quantity_pending, unit_price)')
+      .eq('id', poId)
+      .single();
+    if (error || !data) {
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to load purchase order') });
+      return;
+    }
+
+    const rate = Number(data.exchange_rate) || 1;
+    const poLines = [...(data.purchase_order_items || [])]
+      .filter(item => item.product_id)
+      .sort((a, b) => a.line_number - b.line_number)
+      .map(item => ({
+        product_id: item.product_id,
+        purchase_order_item_id: item.id,
+        import_requirement_id: null,
+        // Cost what is still to arrive; a fully received line falls back to the ordered quantity
+        quantity: Number(item.quantity_pending) > 0 ? Number(item.quantity_pending) : Number(item.quantity),
+        unit_price: Number(item.unit_price),
+        duty_percent: productDuty(item.product_id),
+      }));
+
+    setFormData(prev => ({
+      ...prev,
+      purchase_order_id: poId,
+      title: prev.title || `Costing for ${data.po_number}`,
+      supplier_id: data.supplier_id || prev.supplier_id,
+      currency: data.currency || prev.currency,
+      exchange_rate: rate,
+      freight_charges: prev.freight_charges || Number(data.freight_amount || 0) * rate,
+    }));
+    setLines(poLines.length > 0 ? poLines : [emptyLine()]);
+  };
+
+  const addSelectedRequirements = () => {
+    const picked = requirements.filter(r => selectedRequirements.includes(r.id));
+    if (picked.length === 0) return;
+    const existing = lines.filter(line => line.product_id);
+    setLines([
+      ...existing,
+      ...picked.map(r => ({
+        product_id: r.product_id,
+        purchase_order_item_id: null,
+        import_requirement_id: r.id,
+        quantity: Number(r.shortage_quantity),
+        unit_price: 0,
+        duty_percent: productDuty(r.product_id),
+      })),
+    ]);
+    const supplierId = picked.find(r => r.supplier_id)?.supplier_id;
+    if (supplierId && !formData.supplier_id) {
+      setFormData(prev => ({ ...prev, supplier_id: supplierId }));
+    }
+    setSelectedRequirements([]);
+  };
+
+  const updateLine = (index: number, patch: Partial<SimulationLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validLines = lines.filter(line => line.product_id && line.quantity > 0);
+    if (validLines.length === 0) {
+      showToast({ type: 'error', title: 'Error', message: 'Add at least one product with a quantity' });
+      return;
+    }
+    if (formData.exchange_rate <= 0) {
+      showToast({ type: 'error', title: 'Error', message: 'Exchange rate must be greater than zero' });
+      return;
+    }
+
+    const payload = {
+      title: formData.title.trim(),
+      simulation_date: formData.simulation_date,
+      source_type: formData.source_type,
+      purchase_order_id: formData.source_type === 'purchase_order' ? formData.purchase_order_id || null : null,
+      import_container_id: formData.import_container_id || null,
+      supplier_id: formData.supplier_id || null,
+      currency: formData.currency,
+      exchange_rate: formData.exchange_rate,
+      target_margin_percent: formData.target_margin_percent,
+      notes: formData.notes.trim() || null,
+      ...ALLOCATED_COST_FIELDS.reduce(
+        (costs, field) => ({ ...costs, [field.key]: formData[field.key] || 0 }),
+        emptyAllocatedCosts()
+      ),
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      let simulationId = editing?.id;
+      if (editing) {
+        // Sales cannot see containers: keep whatever link accounts set
+        const { error } = await supabase
+          .from('landed_cost_simulations')
+          .update(canReadPurchasing ? payload : { ...payload, import_container_id: editing.import_container_id })
+          .eq('id', editing.id);
+        if (error) throw error;
+        const { error: deleteError } = await supabase
+          .from('landed_cost_simulation_items')
+          .delete()
+          .eq('simulation_id', editing.id);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('landed_cost_simulations')
+          .insert(payload)
+          .select('id')
+          .single();
+        if (error) throw error;
+        simulationId = data.id;
+      }
+
+      const { error: itemsError } = await supabase
+        .from('landed_cost_simulation_items')
+        .insert(validLines.map((line, index) => ({
+          simulation_id: simulationId,
+          line_number: index + 1,
+          product_id: line.product_id,
+          purchase_order_item_id: line.purchase_order_item_id,
+          import_requirement_id: line.import_requirement_id,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          duty_percent: line.duty_percent,
+        })));
+      if (itemsError) throw itemsError;
+
+      showToast({ type: 'success', title: 'Success', message: 'Simulation saved' });
+      setModalOpen(false);
+      loadSimulations();
+    } catch (error) {
+      console.error('Error saving simulation:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to save simulation') });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ---------- List actions ----------
+
+  const openSimulation = async (simulation: LandedCostSimulation) => {
+    const { data, error } = await supabase
+      .from('landed_cost_simulation_items')
+      .select('*, products(product_name, product_code, unit)')
+      .eq('simulation_id', simulation.id)
+      .order('line_number');
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    setViewingItems((data || []) as unknown as LandedCostSimulationItem[]);
+    setViewing(simulation);
+  };
+
+  const deleteSimulation = async (simulation: LandedCostSimulation) => {
+    if (!await showConfirm({
+      title: 'Delete Simulation',
+      message: `Delete ${simulation.simulation_number}? The number is recorded as voided.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    })) return;
+    const { error } = await supabase.from('landed_cost_simulations').delete().eq('id', simulation.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    loadSimulations();
+  };
+
+  const results = projectLandedCost(lines, formData.exchange_rate, formData, formData.target_margin_percent);
+  const projectedTotal = results.reduce((sum, r) => sum + r.total_landed_cost, 0);
+  const productOptions = products.map(p => ({
+    value: p.id,
+    label: p.product_code ? `${p.product_name} (${p.product_code})` : p.product_name,
+  }));
+
+  return (
+    <Layout>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">{t('nav.landedCostSimulations')}</h1>
+            <p className="text-sm text-gray-500">Project landed cost and selling price before a container arrives, then check against the actual allocation</p>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => openEditor(null)}
+              className="flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 text-sm rounded-lg hover:bg-blue-700 transition"
+            >
+              <Plus className="w-4 h-4" />
+              New Simulation
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 text-sm">Loading...</div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Simulation No.</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Title</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rate</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Target Margin</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {simulations.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-8 text-center text-sm text-gray-500">No simulations yet</td>
+                  </tr>
+                ) : (
+                  simulations.map(simulation => (
+                    <tr key={simulation.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-1.5 text-sm font-mono">{simulation.simulation_number}</td>
+                      <td className="px-3 py-1.5 text-sm text-gray-600">{formatDate(simulation.simulation_date)}</td>
+                      <td className="px-3 py-1.5 text-sm">
+                        {simulation.title}
+                        {simulation.purchase_orders && (
+                          <span className="ml-2 text-xs text-gray-500">{simulation.purchase_orders.po_number}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5 text-sm text-gray-600">{simulation.suppliers?.company_name || '-'}</td>
+                      <td className="px-3 py-1.5 text-sm text-gray-600">
+                        {simulation.currency} {formatNumber(simulation.exchange_rate)}
+                      </td>
+                      <td className="px-3 py-1.5 text-sm text-right">{formatNumber(simulation.target_margin_percent, 1)}%</td>
+                      <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                        <button onClick={() => openSimulation(simulation)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="View / compare">
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        {canManage && (
+                          <>
+                            <button onClick={() => openEditor(simulation)} className="p-1 text-gray-600 hover:bg-gray-100 rounded" title="Edit">
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => openEditor(simulation, true)} className="p-1 text-gray-600 hover:bg-gray-100 rounded" title="Copy as new scenario">
+                              <Copy className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => deleteSimulation(simulation)} className="p-1 text-red-600 hover:bg-red-50 rounded" title="Delete">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={modalOpen}
+        onClose={() => setModalOpen(false)}
+        title={editing ? `Edit ${editing.simulation_number}` : 'New Landed Cost Simulation'}
+        size="xl"
+      >
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Title *</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="e.g. Q3 quote for Paracetamol API"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Date *</label>
+              <input
+                type="date"
+                value={formData.simulation_date}
+                onChange={(e) => setFormData({ ...formData, simulation_date: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Source</label>
+              <select
+                value={formData.source_type}
+                onChange={(e) => setFormData({ ...formData, source_type: e.target.value as SimulationSourceType })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+              >
+                <option value="manual">Manual</option>
+                <option value="import_requirement">Import requirements</option>
+                {(canReadPurchasing || formData.source_type === 'purchase_order') && (
+                  <option value="purchase_order">Purchase order</option>
+                )}
+              </select>
+            </div>
+          </div>
+
+          {formData.source_type === 'purchase_order' && canReadPurchasing && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Purchase Order</label>
+              <SearchableSelect
+                value={formData.purchase_order_id}
+                onChange={loadPurchaseOrder}
+                options={purchaseOrders.map(po => ({
+                  value: po.id,
+                  label: `${po.po_number} · ${po.suppliers?.company_name || ''} · ${po.currency} (${po.status})`,
+                }))}
+                placeholder="Select a planned purchase order - its lines, currency and rate are loaded"
+                className="text-sm"
+              />
+            </div>
+          )}
+
+          {formData.source_type === 'import_requirement' && (
+            <div className="border rounded p-2 space-y-2">
+              <div className="max-h-40 overflow-y-auto divide-y">
+                {requirements.length === 0 ? (
+                  <p className="p-2 text-xs text-gray-500">No pending import requirements</p>
+                ) : (
+                  requirements.map(r => (
+                    <label key={r.id} className="flex items-center gap-2 px-1 py-1 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={selectedRequirements.includes(r.id)}
+                        onChange={(e) => setSelectedRequirements(e.target.checked
+                          ? [...selectedRequirements, r.id]
+                          : selectedRequirements.filter(id => id !== r.id))}
+                      />
+                      <span className="flex-1">
+                        {r.products?.product_name} · short {Number(r.shortage_quantity).toLocaleString()} {r.products?.unit}
+                        <span className="text-gray-500"> · {r.sales_orders?.so_number} {r.customers?.company_name} · due {formatDate(r.required_delivery_date)}</span>
+                      </span>
+                    </label>
+                  ))
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={addSelectedRequirements}
+                disabled={selectedRequirements.length === 0}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+              >
+                <Plus className="w-3 h-3" /> Add selected shortages
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Supplier</label>
+              <SearchableSelect
+                value={formData.supplier_id}
+                onChange={(value) => setFormData({ ...formData, supplier_id: value })}
+                options={suppliers.map(s => ({ value: s.id, label: s.company_name }))}
+                placeholder="Optional"
+                className="text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={formData.currency}
+                onChange={(e) => applyExchangeRate(e.target.value, formData.simulation_date)}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+              >
+                <option value="USD">USD</option>
+                <option value="IDR">IDR</option>
+                <option value="CNY">CNY</option>
+                <option value="INR">INR</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Exchange Rate (IDR) *</label>
+              <input
+                type="number"
+                step="0.0001"
+                min="0"
+                value={formData.exchange_rate}
+                onChange={(e) => setFormData({ ...formData, exchange_rate: parseFloat(e.target.value) || 0 })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Target Margin (%)</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                max="99.9"
+                value={formData.target_margin_percent}
+                onChange={(e) => setFormData({ ...formData, target_margin_percent: parseFloat(e.target.value) || 0 })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+              />
+            </div>
+          </div>
+
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <h3 className="text-xs font-semibold text-blue-900 mb-2">
+              Estimated Container Costs (IDR) · spread by quantity: {formatCurrency(totalAllocatedCosts(formData))}
+            </h3>
+            <div className="grid grid-cols-4 gap-2">
+              {ALLOCATED_COST_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs text-gray-700 mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData[field.key]}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 px-2 text-xs font-medium text-gray-500">
+              <div className="col-span-4">Product</div>
+              <div className="col-span-1 text-right">Qty</div>
+              <div className="col-span-2 text-right">Unit price ({formData.currency})</div>
+              <div className="col-span-1 text-right">Duty %</div>
+              <div className="col-span-2 text-right">Landed / unit</div>
+              <div className="col-span-1 text-right">Sell at</div>
+              <div className="col-span-1" />
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center p-2 bg-gray-50 rounded border">
+                <div className="col-span-4">
+                  <SearchableSelect
+                    value={line.product_id}
+                    onChange={(value) => updateLine(index, { product_id: value, duty_percent: productDuty(value) })}
+                    options={productOptions}
+                    placeholder="Product"
+                    className="text-xs"
+                  />
+                </div>
+                <div className="col-span-1">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={line.quantity || ''}
+                    onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                    className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded text-right"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={line.unit_price || ''}
+                    onChange={(e) => updateLine(index, { unit_price: Number(e.target.value) })}
+                    className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded text-right"
+                  />
+                </div>
+                <div className="col-span-1">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.duty_percent}
+                    onChange={(e) => updateLine(index, { duty_percent: Number(e.target.value) })}
+                    className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded text-right"
+                  />
+                </div>
+                <div className="col-span-2 text-right text-xs font-medium">
+                  {formatCurrency(results[index].landed_cost_per_unit)}
+                </div>
+                <div className="col-span-1 text-right text-xs font-semibold text-green-700">
+                  {formatCurrency(results[index].suggested_price)}
+                </div>
+                <div className="col-span-1 text-right">
+                  {lines.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setLines([...lines, emptyLine()])}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3 h-3" /> Add line
+              </button>
+              <p className="text-xs text-gray-600">
+                Projected landed cost: <span className="font-semibold">{formatCurrency(projectedTotal)}</span>
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {canReadPurchasing && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Actual Container (for comparison)</label>
+                <select
+                  value={formData.import_container_id}
+                  onChange={(e) => setFormData({ ...formData, import_container_id: e.target.value })}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                >
+                  <option value="">{formData.purchase_order_id ? 'From goods receipts of the PO' : 'Not linked yet'}</option>
+                  {containers.map(c => (
+                    <option key={c.id} value={c.id}>{c.container_ref} ({c.status})</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className={canReadPurchasing ? '' : 'col-span-2'}>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={() => setModalOpen(false)} className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save Simulation'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {viewing && (
+        <LandedCostSimulationView
+          simulation={viewing}
+          items={viewingItems}
+          canManage={canManage}
+          onEdit={() => openEditor(viewing)}
+          onClose={() => setViewing(null)}
+        />
+      )}
+    </Layout>
+  );
+}
@@ -8,6 +8,8 @@ import { supabase } from '../lib/supabase';
 import { Plus, Edit, Trash2, Upload, X } from 'lucide-react';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
+import { ProductPriceHistory } from '../components/ProductPriceHistory';
+import { fetchSupplierScores, meetsGrade, SUPPLIER_GRADES, type SupplierGrade, type SupplierScorecard } from '../utils/supplierScores';
 
 interface Product {
   id: string;
@@ -28,11 +30,32 @@ interface Product {
 interface ProductSource {
   id?: string;
   source_name: string;
+  supplier_id: string;
   grade: string;
+  is_preferred: boolean;
+  pack_size: string;
+  moq: string;
+  lead_time_days: string;
   files: File[];
   existing_docs?: SourceDocument[];
 }
 
+interface SupplierOption {
+  id: string;
+  company_name: string;
+}
+
+const emptySource = (): ProductSource => ({
+  source_name: '',
+  supplier_id: '',
+  grade: 'BP',
+  is_preferred: false,
+  pack_size: '',
+  moq: '',
+  lead_time_days: '',
+  files: [],
+});
+
 interface SourceDocument {
   id: string;
   doc_type: string;
@@ -64,16 +87,29 @@ export function Products() {
     duty_a1: '',
   });
 
-  const [sources, setSources] = useState<ProductSource[]>([{
-    source_name: '',
-    grade: 'BP',
-    files: []
-  }]);
+  const [sources, setSources] = useState<ProductSource[]>([emptySource()]);
+  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
+  const [supplierScores, setSupplierScores] = useState<Record<string, SupplierScorecard>>({});
+  const [minSupplierGrade, setMinSupplierGrade] = useState<SupplierGrade | ''>('');
 
   useEffect(() => {
     loadProducts();
+    loadSuppliers();
+    fetchSupplierScores().then(setSupplierScores);
   }, []);
 
+  const loadSuppliers = async () => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('id, company_name')
+      .order('company_name');
+    if (error) {
+      console.error('Error loading suppliers:', error);
+      return;
+    }
+    setSuppliers(data || []);
+  };
+
   const loadProducts = async () => {
     try {
       setLoading(true);
@@ -162,7 +198,7 @@ export function Products() {
   };
 
   const addSourceRow = () => {
-    setSources([...sources, { source_name: '', grade: 'BP', files: [] }]);
+    setSources([...sources, emptySource()]);
   };
 
   const removeSourceRow = (index: number) => {
@@ -177,6 +213,22 @@ export function Products() {
     setSources(updated);
   };
 
+  // Only one preferred source per product; its supplier gets the import requirement POs
+  const setPreferredSource = (index: number, preferred: boolean) => {
+    setSources(sources.map((source, i) => ({ ...source, is_preferred: i === index ? preferred : preferred ? false : source.is_preferred })));
+  };
+
+  const handleSupplierSelect = (index: number, supplierId: string) => {
+    const supplier = suppliers.find(s => s.id === supplierId);
+    const updated = [...sources];
+    updated[index] = {
+      ...updated[index],
+      supplier_id: supplierId,
+      source_name: supplier ? supplier.company_name : updated[index].source_name,
+    };
+    setSources(updated);
+  };
+
   const handleFileSelect = (index: number, files: FileList | null) => {
     if (!files) return;
     const updated = [...sources];
@@ -209,8 +261,13 @@ export function Products() {
       .from('product_sources')
       .select(`
         id,
+        supplier_id,
         supplier_name,
-        grade
+        grade,
+        is_preferred,
+        pack_size,
+        moq,
+        lead_time_days
       `)
       .eq('product_id', product.id);
 
@@ -225,7 +282,12 @@ export function Products() {
           return {
             id: source.id,
             source_name: source.supplier_name || '',
+            supplier_id: source.supplier_id || '',
             grade: source.grade || 'BP',
+            is_preferred: source.is_preferred || false,
+            pack_size: source.pack_size?.toString() || '',
+            moq: source.moq?.toString() || '',
+            lead_time_days: source.lead_time_days?.toString() || '',
             files: [],
             existing_docs: docs || []
           };
@@ -233,7 +295,7 @@ export function Products() {
       );
       setSources(sourcesWithDocs);
     } else {
-      setSources([{ source_name: '', grade: 'BP', files: [] }]);
+      setSources([emptySource()]);
     }
 
     setModalOpen(true);
@@ -338,7 +400,7 @@ export function Products() {
       min_stock_level: '',
       duty_a1: '',
     });
-    setSources([{ source_name: '', grade: 'BP', files: [] }]);
+    setSources([emptySource()]);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -397,11 +459,19 @@ export function Products() {
         productId = data.id;
       }
 
-      // Save sources
-      for (const source of sources) {
+      // Save sources; non-preferred first so moving the preferred flag never leaves two at once
+      const orderedSources = [...sources].sort((a, b) => Number(a.is_preferred) - Number(b.is_preferred));
+      for (const source of orderedSources) {
         if (!source.source_name.trim()) continue;
 
         let sourceId: string;
+        const sourcingTerms = {
+          supplier_id: source.supplier_id || null,
+          is_preferred: source.is_preferred,
+          pack_size: source.pack_size ? Number(source.pack_size) : null,
+          moq: source.moq ? Number(source.moq) : null,
+          lead_time_days: source.lead_time_days ? parseInt(source.lead_time_days, 10) : null,
+        };
 
         if (source.id) {
           // Update existing source
@@ -409,7 +479,8 @@ export function Products() {
             .from('product_sources')
             .update({
               supplier_name: source.source_name,
-              grade: source.grade
+              grade: source.grade,
+              ...sourcingTerms
             })
             .eq('id', source.id);
 
@@ -423,6 +494,7 @@ export function Products() {
               product_id: productId,
               supplier_name: source.source_name,
               grade: source.grade,
+              ...sourcingTerms,
               created_by: profile?.id
             }])
             .select()
@@ -709,6 +781,17 @@ export function Products() {
           <div className="bg-blue-50 p-4 rounded-lg space-y-4">
             <div className="flex justify-between items-center">
               <h3 className="font-semibold text-gray-900">Sources</h3>
+              <select
+                value={minSupplierGrade}
+                onChange={(e) => setMinSupplierGrade(e.target.value as SupplierGrade | '')}
+                className="ml-auto mr-2 px-2 py-1 text-sm border rounded"
+                title="Only offer suppliers scoring this grade or better over the last 12 months"
+              >
+                <option value="">Any supplier grade</option>
+                {SUPPLIER_GRADES.slice(0, 3).map(grade => (
+                  <option key={grade} value={grade}>Grade {grade} or better</option>
+                ))}
+              </select>
               <button
                 type="button"
                 onClick={addSourceRow}
@@ -753,6 +836,75 @@ export function Products() {
                         <option value="Other">Other</option>
                       </select>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                      <select
+                        value={source.supplier_id}
+                        onChange={(e) => handleSupplierSelect(index, e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Not linked</option>
+                        {suppliers
+                          .filter(supplier => supplier.id === source.supplier_id || meetsGrade(supplierScores[supplier.id]?.grade, minSupplierGrade))
+                          .map(supplier => {
+                            const score = supplierScores[supplier.id];
+                            return (
+                              <option key={supplier.id} value={supplier.id}>
+                                {supplier.company_name}{score?.grade ? ` (${score.grade} · ${Number(score.score).toFixed(0)})` : ''}
+                              </option>
+                            );
+                          })}
+                      </select>
+                    </div>
+
+                    <div className="flex items-end pb-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={source.is_preferred}
+                          onChange={(e) => setPreferredSource(index, e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Preferred supplier for POs
+                      </label>
+                    </div>
+
+                    <div className="col-span-2 grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Pack Size ({formData.unit})</label>
+                        <input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          value={source.pack_size}
+                          onChange={(e) => updateSource(index, 'pack_size', e.target.value)}
+                          placeholder="e.g., 25"
+                          className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">MOQ ({formData.unit})</label>
+                        <input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          value={source.moq}
+                          onChange={(e) => updateSource(index, 'moq', e.target.value)}
+                          className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Lead Time (days)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={source.lead_time_days}
+                          onChange={(e) => updateSource(index, 'lead_time_days', e.target.value)}
+                          className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
                   </div>
 
                   {sources.length > 1 && (
@@ -948,6 +1100,11 @@ export function Products() {
                 </div>
               )}
             </div>
+
+            <ProductPriceHistory
+              sources={viewingSources.filter(source => source.id !== 'default')}
+              canEdit={profile?.role !== 'auditor_ca'}
+            />
           </div>
         )}
       </Modal>
@@ -3,14 +3,16 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useFinance } from '../contexts/FinanceContext';
+import { useNavigation } from '../contexts/NavigationContext';
 import { Layout } from '../components/Layout';
-import { FileText, Plus, Search, Eye, Edit, Trash2, CheckCircle, XCircle, Download, Package } from 'lucide-react';
+import { FileText, Plus, Search, Eye, Edit, Trash2, CheckCircle, XCircle, Download, Package, PackageCheck } from 'lucide-react';
 import { Modal } from '../components/Modal';
 import { PurchaseOrderView } from '../components/PurchaseOrderView';
 import { SearchableSelect } from '../components/SearchableSelect';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { formatDate } from '../utils/dateFormat';
+import { fetchExchangeRate } from '../utils/exchangeRates';
 
 interface Supplier {
   id: string;
@@ -76,6 +78,7 @@ export default function PurchaseOrders() {
   const { user, profile } = useAuth();
   const { t } = useLanguage();
   const { dateRange } = useFinance();
+  const { setCurrentPage, setNavigationData } = useNavigation();
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
   const [filteredPOs, setFilteredPOs] = useState<PurchaseOrder[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
@@ -232,6 +235,17 @@ export default function PurchaseOrders() {
     );
   };
 
+  // Defaults the rate from the exchange rate master for the PO date; it stays editable
+  const applyExchangeRate = async (currency: string, poDate: string) => {
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, poDate);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
   const formatCurrency = (amount: number, currency: string) => {
     if (currency === 'USD') {
       return `$ ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -518,6 +532,11 @@ export default function PurchaseOrders() {
     }
   };
 
+  const handleReceive = (po: PurchaseOrder) => {
+    setNavigationData({ sourceType: 'purchase_order', poId: po.id });
+    setCurrentPage('goods-receipts');
+  };
+
   const handleView = (po: PurchaseOrder) => {
     setSelectedPO(po);
     setShowViewModal(true);
@@ -619,6 +638,9 @@ export default function PurchaseOrders() {
                               <span className="truncate">
                                 {item.products?.product_name || item.description}
                                 <span className="text-gray-400 ml-1">×{item.quantity}</span>
+                                {item.quantity_received > 0 && (
+                                  <span className="text-teal-600 ml-1">({item.quantity_received} recv)</span>
+                                )}
                               </span>
                             </div>
                           ))}
@@ -675,6 +697,16 @@ export default function PurchaseOrders() {
                           <CheckCircle className="h-5 w-5" />
                         </button>
                       )}
+                      {(po.status === 'approved' || po.status === 'partially_received') &&
+                        ['admin', 'warehouse', 'accounts'].includes(profile?.role || '') && (
+                        <button
+                          onClick={() => handleReceive(po)}
+                          className="text-teal-600 hover:text-teal-800"
+                          title="Receive Goods"
+                        >
+                          <PackageCheck className="h-5 w-5" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -716,7 +748,10 @@ export default function PurchaseOrders() {
                   <input
                     type="date"
                     value={formData.po_date}
-                    onChange={(e) => setFormData({ ...formData, po_date: e.target.value })}
+                    onChange={(e) => {
+                      setFormData({ ...formData, po_date: e.target.value });
+                      if (formData.currency !== 'IDR') applyExchangeRate(formData.currency, e.target.value);
+                    }}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                     required
                   />
@@ -738,14 +773,28 @@ export default function PurchaseOrders() {
                   <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
                   <select
                     value={formData.currency}
-                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    onChange={(e) => applyExchangeRate(e.target.value, formData.po_date)}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                   >
                     <option value="IDR">IDR</option>
                     <option value="USD">USD</option>
                   </select>
                 </div>
-                <div className="col-span-5">
+                {formData.currency !== 'IDR' && (
+                  <div className="col-span-1">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Exchange Rate</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.exchange_rate}
+                      onChange={(e) => setFormData({ ...formData, exchange_rate: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                )}
+                <div className={formData.currency !== 'IDR' ? 'col-span-4' : 'col-span-5'}>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Payment Terms</label>
                   <select
                     value={formData.payment_terms}
@@ -0,0 +1,747 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { SearchableSelect } from '../components/SearchableSelect';
+import { showToast } from '../components/ToastNotification';
+import { showConfirm } from '../components/ConfirmDialog';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../utils/dateFormat';
+import {
+  INCOTERMS,
+  PRICE_CURRENCIES,
+  type Rfq,
+  type RfqQuoteComparison,
+  type RfqStatus,
+} from '../utils/supplierPricing';
+import { fetchSupplierScores, type SupplierScorecard } from '../utils/supplierScores';
+import { SupplierGradeBadge } from '../components/SupplierScorecard';
+import { Award, FileSearch, Plus, Trash2, X } from 'lucide-react';
+
+interface RfqRow extends Rfq {
+  products: { product_name: string; product_code: string; unit: string } | null;
+  purchase_orders: { po_number: string; status: string } | null;
+  rfq_quotes: { id: string }[];
+}
+
+interface ProductOption {
+  id: string;
+  product_name: string;
+  product_code: string;
+  unit: string;
+}
+
+interface SupplierOption {
+  id: string;
+  company_name: string;
+}
+
+const emptyRfq = () => ({
+  product_id: '',
+  quantity: '',
+  unit: '',
+  required_date: '',
+  response_due_date: '',
+  notes: '',
+});
+
+const emptyQuote = () => ({
+  supplier_id: '',
+  quote_date: new Date().toISOString().split('T')[0],
+  quote_reference: '',
+  unit_price: '',
+  currency: 'USD',
+  incoterm: 'CIF',
+  moq: '',
+  lead_time_days: '',
+  valid_until: '',
+  grade: '',
+  payment_terms: '',
+  notes: '',
+});
+
+const idr = (value: number | null) =>
+  value == null ? '-' : `Rp ${Number(value).toLocaleString('id-ID', { maximumFractionDigits: 0 })}`;
+
+export default function RFQs() {
+  const { profile } = useAuth();
+  const [rfqs, setRfqs] = useState<RfqRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
+  const [supplierScores, setSupplierScores] = useState<Record<string, SupplierScorecard>>({});
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | RfqStatus>('open');
+  const [rfqForm, setRfqForm] = useState<ReturnType<typeof emptyRfq> | null>(null);
+  const [viewing, setViewing] = useState<RfqRow | null>(null);
+  const [quotes, setQuotes] = useState<RfqQuoteComparison[]>([]);
+  const [quoteForm, setQuoteForm] = useState<ReturnType<typeof emptyQuote> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const canEdit = profile?.role !== 'auditor_ca';
+
+  useEffect(() => {
+    loadRfqs();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadLookups();
+  }, []);
+
+  const loadLookups = async () => {
+    const [productsRes, suppliersRes] = await Promise.all([
+      supabase.from('products').select('id, product_name, product_code, unit').eq('is_active', true).order('product_name'),
+      supabase.from('suppliers').select('id, company_name').order('company_name'),
+    ]);
+    if (productsRes.error) console.error('Error loading products:', productsRes.error);
+    if (suppliersRes.error) console.error('Error loading suppliers:', suppliersRes.error);
+    setProducts(productsRes.data || []);
+    setSuppliers(suppliersRes.data || []);
+    setSupplierScores(await fetchSupplierScores());
+  };
+
+  const loadRfqs = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('rfqs')
+        .select(`
+          *,
+          products (product_name, product_code, unit),
+          purchase_orders (po_number, status),
+          rfq_quotes (id)
+        `)
+        .order('rfq_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRfqs((data || []) as unknown as RfqRow[]);
+    } catch (error) {
+      console.error('Error loading RFQs:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load RFQs' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadQuotes = async (rfqId: string) => {
+    const { data, error } = await supabase.rpc('compare_rfq_quotes', { p_rfq_id: rfqId });
+    if (error) {
+      console.error('Error comparing quotes:', error);
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    setQuotes((data || []) as RfqQuoteComparison[]);
+  };
+
+  const openRfq = async (rfq: RfqRow) => {
+    setViewing(rfq);
+    setQuoteForm(null);
+    setQuotes([]);
+    await loadQuotes(rfq.id);
+  };
+
+  const handleCreateRfq = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rfqForm) return;
+    if (!rfqForm.product_id) {
+      showToast({ type: 'error', title: 'Error', message: 'Select a product' });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('rfqs').insert({
+        product_id: rfqForm.product_id,
+        quantity: parseFloat(rfqForm.quantity),
+        unit: rfqForm.unit || null,
+        required_date: rfqForm.required_date || null,
+        response_due_date: rfqForm.response_due_date || null,
+        notes: rfqForm.notes || null,
+        created_by: profile?.id,
+      });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Success', message: 'RFQ created' });
+      setRfqForm(null);
+      loadRfqs();
+    } catch (error) {
+      console.error('Error creating RFQ:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to create RFQ' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelRfq = async (rfq: RfqRow) => {
+    if (!await showConfirm({ title: 'Confirm', message: `Cancel ${rfq.rfq_number}?`, variant: 'warning', confirmLabel: 'Cancel RFQ' })) return;
+    const { error } = await supabase
+      .from('rfqs')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', rfq.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    setViewing(null);
+    loadRfqs();
+  };
+
+  const handleSaveQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quoteForm || !viewing) return;
+    if (!quoteForm.supplier_id) {
+      showToast({ type: 'error', title: 'Error', message: 'Select a supplier' });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('rfq_quotes').insert({
+        rfq_id: viewing.id,
+        supplier_id: quoteForm.supplier_id,
+        quote_date: quoteForm.quote_date,
+        quote_reference: quoteForm.quote_reference || null,
+        unit_price: parseFloat(quoteForm.unit_price),
+        currency: quoteForm.currency,
+        incoterm: quoteForm.incoterm || null,
+        moq: quoteForm.moq ? parseFloat(quoteForm.moq) : null,
+        lead_time_days: quoteForm.lead_time_days ? parseInt(quoteForm.lead_time_days) : null,
+        valid_until: quoteForm.valid_until || null,
+        grade: quoteForm.grade || null,
+        payment_terms: quoteForm.payment_terms || null,
+        notes: quoteForm.notes || null,
+        created_by: profile?.id,
+      });
+      if (error) throw error;
+      setQuoteForm(null);
+      await loadQuotes(viewing.id);
+      loadRfqs();
+    } catch (error) {
+      console.error('Error saving quote:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to save quote' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteQuote = async (quote: RfqQuoteComparison) => {
+    if (!viewing) return;
+    if (!await showConfirm({ title: 'Confirm', message: `Remove the quote from ${quote.supplier_name}?`, variant: 'danger', confirmLabel: 'Delete' })) return;
+    const { error } = await supabase.from('rfq_quotes').delete().eq('id', quote.quote_id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    await loadQuotes(viewing.id);
+    loadRfqs();
+  };
+
+  const handleAward = async (quote: RfqQuoteComparison) => {
+    if (!viewing) return;
+    if (!await showConfirm({
+      title: 'Award Quote',
+      message: `Award ${viewing.rfq_number} to ${quote.supplier_name} at ${quote.currency} ${Number(quote.unit_price).toLocaleString()} and create a draft PO for ${Number(quote.order_quantity).toLocaleString()} ${viewing.unit || viewing.products?.unit || ''}?`,
+      variant: 'warning',
+      confirmLabel: 'Award & Create PO',
+    })) return;
+
+    try {
+      const { data, error } = await supabase.rpc('award_rfq_quote', { p_quote_id: quote.quote_id });
+      if (error) throw error;
+      const po = ((data || []) as { po_number: string }[])[0];
+      showToast({ type: 'success', title: 'Quote awarded', message: `Draft ${po?.po_number || 'PO'} created for ${quote.supplier_name}` });
+      setViewing(null);
+      loadRfqs();
+    } catch (error) {
+      console.error('Error awarding quote:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to award quote' });
+    }
+  };
+
+  const getStatusBadge = (status: RfqStatus) => {
+    const config: Record<RfqStatus, { color: string; label: string }> = {
+      open: { color: 'bg-blue-100 text-blue-800', label: 'Open' },
+      awarded: { color: 'bg-green-100 text-green-800', label: 'Awarded' },
+      cancelled: { color: 'bg-gray-100 text-gray-800', label: 'Cancelled' },
+    };
+    const { color, label } = config[status] || config.open;
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${color}`}>
+        {label}
+      </span>
+    );
+  };
+
+  const quotedSupplierIds = new Set(quotes.map(q => q.supplier_id));
+
+  return (
+    <Layout>
+      <div className="p-6">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Supplier Quotations</h1>
+          <p className="text-gray-600 mt-1">Request quotes, compare supplier responses and turn the winner into a Purchase Order</p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={() => setRfqForm(emptyRfq())}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            New RFQ
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-4 border-b flex gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | RfqStatus)}
+            className="border rounded-lg px-4 py-2"
+          >
+            <option value="all">All Status</option>
+            <option value="open">Open</option>
+            <option value="awarded">Awarded</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : rfqs.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No RFQs found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">RFQ</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Required By</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Responses Due</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Quotes</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">PO</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {rfqs.map(rfq => (
+                  <tr key={rfq.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => openRfq(rfq)}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-blue-600">{rfq.rfq_number}</div>
+                      <div className="text-xs text-gray-500">{formatDate(rfq.rfq_date)}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{rfq.products?.product_name}</div>
+                      <div className="text-xs text-gray-500">{rfq.products?.product_code}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {Number(rfq.quantity).toLocaleString()} {rfq.unit || rfq.products?.unit}
+                    </td>
+                    <td className="px-4 py-3">{rfq.required_date ? formatDate(rfq.required_date) : '-'}</td>
+                    <td className="px-4 py-3">{rfq.response_due_date ? formatDate(rfq.response_due_date) : '-'}</td>
+                    <td className="px-4 py-3 text-right">{rfq.rfq_quotes.length}</td>
+                    <td className="px-4 py-3">{getStatusBadge(rfq.status)}</td>
+                    <td className="px-4 py-3">{rfq.purchase_orders?.po_number || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+      </div>
+
+      <Modal isOpen={!!rfqForm} onClose={() => setRfqForm(null)} title="New Request for Quotation" size="md">
+        {rfqForm && (
+          <form onSubmit={handleCreateRfq} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Product *</label>
+              <SearchableSelect
+                value={rfqForm.product_id}
+                onChange={(value) => setRfqForm({
+                  ...rfqForm,
+                  product_id: value,
+                  unit: products.find(p => p.id === value)?.unit || rfqForm.unit,
+                })}
+                options={products.map(p => ({ value: p.id, label: `${p.product_name} (${p.product_code})` }))}
+                placeholder="Select product"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quantity *</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={rfqForm.quantity}
+                  onChange={(e) => setRfqForm({ ...rfqForm, quantity: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                <input
+                  type="text"
+                  value={rfqForm.unit}
+                  onChange={(e) => setRfqForm({ ...rfqForm, unit: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Required By</label>
+                <input
+                  type="date"
+                  value={rfqForm.required_date}
+                  onChange={(e) => setRfqForm({ ...rfqForm, required_date: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Responses Due</label>
+                <input
+                  type="date"
+                  value={rfqForm.response_due_date}
+                  onChange={(e) => setRfqForm({ ...rfqForm, response_due_date: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={rfqForm.notes}
+                onChange={(e) => setRfqForm({ ...rfqForm, notes: e.target.value })}
+                rows={2}
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </div>
+            <div className="flex justify-end gap-2 pt-2 border-t">
+              <button type="button" onClick={() => setRfqForm(null)} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Create RFQ'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!viewing}
+        onClose={() => setViewing(null)}
+        title={viewing ? `${viewing.rfq_number} - ${viewing.products?.product_name || ''}` : 'RFQ'}
+        size="xl"
+      >
+        {viewing && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg text-sm">
+              <div>
+                <p className="text-xs text-gray-500">Quantity</p>
+                <p className="font-medium">{Number(viewing.quantity).toLocaleString()} {viewing.unit || viewing.products?.unit}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Required By</p>
+                <p className="font-medium">{viewing.required_date ? formatDate(viewing.required_date) : '-'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Status</p>
+                <p>{getStatusBadge(viewing.status)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Purchase Order</p>
+                <p className="font-medium">{viewing.purchase_orders?.po_number || '-'}</p>
+              </div>
+              {viewing.notes && (
+                <div className="col-span-4 text-gray-600">{viewing.notes}</div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Quotes</h3>
+              {canEdit && viewing.status === 'open' && !quoteForm && (
+                <button
+                  onClick={() => setQuoteForm(emptyQuote())}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Quote
+                </button>
+              )}
+            </div>
+
+            {quoteForm && (
+              <form onSubmit={handleSaveQuote} className="grid grid-cols-4 gap-3 p-4 bg-gray-50 rounded-lg text-sm">
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Supplier *</label>
+                  <SearchableSelect
+                    value={quoteForm.supplier_id}
+                    onChange={(value) => setQuoteForm({ ...quoteForm, supplier_id: value })}
+                    options={suppliers
+                      .filter(s => !quotedSupplierIds.has(s.id))
+                      .map(s => ({
+                        value: s.id,
+                        label: supplierScores[s.id]?.grade ? `${s.company_name} (${supplierScores[s.id].grade})` : s.company_name,
+                      }))}
+                    placeholder="Select supplier"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Quote Date *</label>
+                  <input
+                    type="date"
+                    value={quoteForm.quote_date}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, quote_date: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Reference</label>
+                  <input
+                    type="text"
+                    value={quoteForm.quote_reference}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, quote_reference: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Unit Price *</label>
+                  <input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={quoteForm.unit_price}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, unit_price: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+                  <select
+                    value={quoteForm.currency}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, currency: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  >
+                    {PRICE_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Incoterm</label>
+                  <select
+                    value={quoteForm.incoterm}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, incoterm: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  >
+                    <option value="">-</option>
+                    {INCOTERMS.map(term => <option key={term} value={term}>{term}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Valid Until</label>
+                  <input
+                    type="date"
+                    value={quoteForm.valid_until}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, valid_until: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">MOQ</label>
+                  <input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={quoteForm.moq}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, moq: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={quoteForm.lead_time_days}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, lead_time_days: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Grade</label>
+                  <input
+                    type="text"
+                    value={quoteForm.grade}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, grade: e.target.value })}
+                    placeholder="BP, USP, EP..."
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Payment Terms</label>
+                  <input
+                    type="text"
+                    value={quoteForm.payment_terms}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, payment_terms: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div className="col-span-4">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                  <input
+                    type="text"
+                    value={quoteForm.notes}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, notes: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded"
+                  />
+                </div>
+                <div className="col-span-4 flex justify-end gap-2">
+                  <button type="button" onClick={() => setQuoteForm(null)} className="px-3 py-1.5 border rounded-lg hover:bg-white">
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Quote'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {quotes.length === 0 ? (
+              <div className="py-6 text-center text-sm text-gray-500">
+                <FileSearch className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                No quotes received yet
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Score</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quoted Price</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price (IDR)</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Last Paid (IDR)</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Order Qty</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total (IDR)</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Terms</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Arrival</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valid Until</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {quotes.map(quote => (
+                      <tr
+                        key={quote.quote_id}
+                        className={quote.is_selected ? 'bg-green-50' : quote.price_rank === 1 && !quote.is_expired ? 'bg-blue-50' : ''}
+                      >
+                        <td className="px-3 py-2 font-medium">{quote.price_rank}</td>
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-900">{quote.supplier_name}</div>
+                          <div className="text-xs text-gray-500">
+                            {[quote.quote_reference, quote.grade, formatDate(quote.quote_date)].filter(Boolean).join(' · ')}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2">
+                          <SupplierGradeBadge scorecard={supplierScores[quote.supplier_id]} />
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {quote.currency} {Number(quote.unit_price).toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {quote.unit_price_idr == null ? <span className="text-red-600">No {quote.currency} rate</span> : idr(quote.unit_price_idr)}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap text-gray-600">{idr(quote.last_price_idr)}</td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {Number(quote.order_quantity).toLocaleString()}
+                          {Number(quote.order_quantity) > Number(viewing.quantity) && (
+                            <div className="text-xs text-orange-600">MOQ {Number(quote.moq).toLocaleString()}</div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap font-medium">{idr(quote.total_idr)}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {[quote.incoterm, quote.payment_terms].filter(Boolean).join(' · ') || '-'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {quote.expected_arrival_date ? (
+                            <span className={viewing.required_date && quote.expected_arrival_date > viewing.required_date ? 'text-orange-600' : ''}>
+                              {formatDate(quote.expected_arrival_date)}
+                              <span className="text-xs text-gray-500"> ({quote.lead_time_days}d)</span>
+                            </span>
+                          ) : '-'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {quote.valid_until ? (
+                            <span className={quote.is_expired ? 'text-red-600' : ''}>
+                              {formatDate(quote.valid_until)}{quote.is_expired ? ' (expired)' : ''}
+                            </span>
+                          ) : '-'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-right">
+                          {quote.is_selected && (
+                            <span className="inline-flex items-center gap-1 text-xs font-medium text-green-700">
+                              <Award className="w-3 h-3" />
+                              Awarded
+                            </span>
+                          )}
+                          {canEdit && viewing.status === 'open' && (
+                            <div className="flex items-center justify-end gap-1">
+                              <button
+                                onClick={() => handleAward(quote)}
+                                disabled={quote.is_expired}
+                                className="flex items-center gap-1 px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                                title={quote.is_expired ? 'Quote has expired' : 'Award and create a draft PO'}
+                              >
+                                <Award className="w-3 h-3" />
+                                Award
+                              </button>
+                              <button
+                                onClick={() => handleDeleteQuote(quote)}
+                                className="p-1 text-red-600 hover:text-red-800"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {canEdit && viewing.status === 'open' && (
+              <div className="flex justify-end pt-2 border-t">
+                <button
+                  onClick={() => handleCancelRfq(viewing)}
+                  className="flex items-center gap-1 px-4 py-2 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel RFQ
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </Layout>
+  );
+}
@@ -14,6 +14,9 @@ import { Plus, Edit, Trash2, FileText, Eye, FileX } from 'lucide-react';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { formatDate } from '../utils/dateFormat';
+import { previewDocumentNumber } from '../utils/documentNumbers';
+import { ShelfLifeRule, getShelfLifeShortfall } from '../utils/shelfLife';
+import { fetchExchangeRate } from '../utils/exchangeRates';
 
 interface SalesInvoice {
   id: string;
@@ -32,6 +35,8 @@ interface SalesInvoice {
   payment_terms_days: number | null;
   notes: string | null;
   linked_challan_ids?: string[] | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
   paid_amount?: number;
   balance_amount?: number;
   customers?: {
@@ -53,6 +58,7 @@ interface SalesOrderOption {
   advance_payment_amount: number;
   advance_payment_status: string;
   status: string;
+  currency?: string | null;
   items?: SOItemOption[];
 }
 
@@ -109,7 +115,7 @@ interface SelectedDCItem {
   quantity: number;
 }
 
-interface Customer {
+interface Customer extends ShelfLifeRule {
   id: string;
   company_name: string;
   gst_vat_type: string;
@@ -130,6 +136,9 @@ interface Batch {
   duty_charges: number;
   freight_charges: number;
   other_charges: number;
+  import_date: string | null;
+  expiry_date: string | null;
+  manufacture_date: string | null;
 }
 
 interface DeliveryChallan {
@@ -188,6 +197,8 @@ export function Sales() {
     delivery_challan_number: '',
     po_number: '',
     notes: '',
+    currency: 'IDR',
+    exchange_rate: 1,
   });
   const [items, setItems] = useState<InvoiceItem[]>([{
     product_id: '',
@@ -218,6 +229,34 @@ export function Sales() {
     }
   }, [selectedDCIds]);
 
+  // New invoices take the linked SO's currency; the rate is looked up on the invoice date
+  useEffect(() => {
+    if (!modalOpen || editingInvoice) return;
+    const so = customerSalesOrders.find(s => s.id === selectedSOId);
+    if (so || !selectedSOId) {
+      applyInvoiceCurrency(so?.currency || 'IDR', formData.invoice_date);
+      return;
+    }
+    // An SO auto-linked from a DC may be outside the customer's open SO list
+    supabase
+      .from('sales_orders')
+      .select('currency')
+      .eq('id', selectedSOId)
+      .maybeSingle()
+      .then(({ data }) => applyInvoiceCurrency(data?.currency || 'IDR', formData.invoice_date));
+  }, [selectedSOId, customerSalesOrders, modalOpen]);
+
+  // Booking rate from the exchange rate master; left as is (editable) when none is on file
+  const applyInvoiceCurrency = async (currency: string, invoiceDate: string) => {
+    if (currency === 'IDR') {
+      setFormData(prev => ({ ...prev, currency, exchange_rate: 1 }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, currency }));
+    const rate = await fetchExchangeRate(currency, invoiceDate);
+    if (rate) setFormData(prev => (prev.currency === currency ? { ...prev, exchange_rate: rate } : prev));
+  };
+
   const loadItemsFromSelectedDCs = async () => {
     try {
       const { data, error } = await supabase
@@ -340,69 +379,11 @@ export function Sales() {
     }
   };
 
-  const generateNextInvoiceNumber = async () => {
-    try {
-      // Get settings for invoice prefix
-      const { data: settings } = await supabase
-        .from('app_settings')
-        .select('invoice_prefix, invoice_start_number')
-        .limit(1)
-        .maybeSingle();
-
-      const startNumber = settings?.invoice_start_number || 1;
-
-      // Get current financial year automatically
-      const { data: yearCode, error: fyError } = await supabase
-        .rpc('get_current_financial_year');
-
-      if (fyError) {
-        console.error('Error getting financial year:', fyError);
-        const fallbackYear = new Date().getFullYear().toString().slice(-2);
-        return `SAPJ-${fallbackYear}-001`;
-      }
-
-      // Strip year suffix from prefix if someone saved it with year already embedded (e.g. "SAPJ-26" -> "SAPJ")
-      const rawPrefix = settings?.invoice_prefix || 'SAPJ';
-      const prefix = rawPrefix.replace(new RegExp(`-${yearCode}$`), '');
-
-      // Get all invoice numbers with this prefix and year to find the highest number
-      const { data: allInvoices } = await supabase
-        .from('sales_invoices')
-        .select('invoice_number')
-        .like('invoice_number', `${prefix}-${yearCode}%`);
-
-      let nextNumber = startNumber;
-
-      if (allInvoices && allInvoices.length > 0) {
-        // Extract all numbers and find the maximum
-        const numbers = allInvoices
-          .map(inv => {
-            const match = inv.invoice_number.match(/(\d+)$/);
-            return match ? parseInt(match[1], 10) : 0;
-          })
-          .filter(num => !isNaN(num));
-
-        if (numbers.length > 0) {
-          const maxNumber = Math.max(...numbers);
-          nextNumber = maxNumber + 1;
-        }
-      }
-
-      // Format with leading zeros (minimum 3 digits)
-      const paddedNumber = String(nextNumber).padStart(3, '0');
-      return `${prefix}-${yearCode}-${paddedNumber}`;
-    } catch (error) {
-      console.error('Error generating invoice number:', error);
-      const fallbackYear = new Date().getFullYear().toString().slice(-2);
-      return `SAPJ-${fallbackYear}-001`;
-    }
-  };
-
   const loadCustomers = async () => {
     try {
       const { data, error } = await supabase
         .from('customers')
-        .select('id, company_name, gst_vat_type')
+        .select('id, company_name, gst_vat_type, min_shelf_life_months, min_shelf_life_percent, shelf_life_rule_mode')
         .eq('is_active', true)
         .order('company_name');
 
@@ -433,7 +414,7 @@ export function Sales() {
       // Load ALL batches for reference (including 0 stock for delivery challan invoices)
       const { data, error } = await supabase
         .from('batches')
-        .select('id, batch_number, product_id, current_stock, import_price, duty_charges, freight_charges, other_charges, import_quantity, import_date, expiry_date')
+        .select('id, batch_number, product_id, current_stock, import_price, duty_charges, freight_charges, other_charges, import_quantity, import_date, expiry_date, manufacture_date')
         .eq('is_active', true)
         .order('import_date', { ascending: true });
 
@@ -479,7 +460,7 @@ export function Sales() {
       const { data, error } = await supabase
         .from('sales_orders')
         .select(`
-          id, so_number, total_amount, advance_payment_amount, advance_payment_status, status,
+          id, so_number, total_amount, advance_payment_amount, advance_payment_status, status, currency,
           sales_order_items(product_id, unit_price, products(product_name))
         `)
         .eq('customer_id', customerId)
@@ -496,6 +477,7 @@ export function Sales() {
         advance_payment_amount: so.advance_payment_amount,
         advance_payment_status: so.advance_payment_status,
         status: so.status,
+        currency: so.currency,
         items: (so.sales_order_items || []).map((item: any) => ({
           product_id: item.product_id,
           product_name: item.products?.product_name || 'Unknown',
@@ -777,7 +759,7 @@ export function Sales() {
   };
 
   const handleDeliveryChallanData = async (data: any) => {
-    const nextInvoiceNumber = await generateNextInvoiceNumber();
+    const nextInvoiceNumber = await previewDocumentNumber('sales_invoice');
 
     setFormData({
       invoice_number: nextInvoiceNumber,
@@ -788,6 +770,8 @@ export function Sales() {
       delivery_challan_number: data.challanNumber,
       po_number: '',
       notes: `Created from Delivery Challan: ${data.challanNumber}`,
+      currency: 'IDR',
+      exchange_rate: 1,
     });
 
     if (data.customerId) {
@@ -914,6 +898,14 @@ export function Sales() {
     return { subtotal, taxAmount, total };
   };
 
+  // Lines billed from a challan were checked when the challan was saved
+  const getLineShelfLifeShortfall = (item: InvoiceItem) => {
+    if (item.delivery_challan_item_id || !item.batch_id) return null;
+    const batch = batches.find(b => b.id === item.batch_id);
+    if (!batch) return null;
+    return getShelfLifeShortfall(batch, customers.find(c => c.id === formData.customer_id), formData.invoice_date);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -928,6 +920,29 @@ export function Sales() {
         return;
       }
 
+      if (formData.currency !== 'IDR' && formData.exchange_rate <= 1) {
+        showToast({ type: 'error', title: 'Error', message: `Please enter a valid exchange rate for ${formData.currency}` });
+        return;
+      }
+
+      const shortDatedItems = validItems.filter(item => getLineShelfLifeShortfall(item));
+      if (shortDatedItems.length > 0) {
+        const customer = customers.find(c => c.id === formData.customer_id);
+        const details = shortDatedItems
+          .map(item => `${batches.find(b => b.id === item.batch_id)?.batch_number}: ${getLineShelfLifeShortfall(item)}`)
+          .join('\n');
+        if (customer?.shelf_life_rule_mode === 'block') {
+          showToast({ type: 'error', title: 'Shelf Life', message: `These batches cannot be sold to ${customer.company_name}:\n${details}` });
+          return;
+        }
+        if (!await showConfirm({
+          title: 'Short Shelf Life',
+          message: `These batches are below ${customer?.company_name}'s minimum shelf life:\n${details}\n\nSave the invoice anyway?`,
+          confirmLabel: 'Save Anyway',
+          variant: 'warning',
+        })) return;
+      }
+
       const totals = calculateTotals();
 
       // Calculate due date based on payment terms
@@ -986,6 +1001,8 @@ export function Sales() {
               po_number: formData.po_number || null,
               payment_terms_days: paymentTermsDays,
               notes: formData.notes || null,
+              currency: formData.currency,
+              exchange_rate: formData.currency === 'IDR' ? 1 : formData.exchange_rate,
             },
             p_new_items: validItems,
           });
@@ -1002,24 +1019,10 @@ export function Sales() {
         if (fetchError) throw fetchError;
         invoice = updatedInvoice;
       } else {
-        // Check if invoice number already exists and regenerate if needed
-        let invoiceNumber = formData.invoice_number;
-        const { data: existingInvoice } = await supabase
-          .from('sales_invoices')
-          .select('invoice_number')
-          .eq('invoice_number', invoiceNumber)
-          .maybeSingle();
-
-        if (existingInvoice) {
-          // Invoice number already exists, generate a new one
-          invoiceNumber = await generateNextInvoiceNumber();
-          setFormData(prev => ({ ...prev, invoice_number: invoiceNumber }));
-        }
-
+        // invoice_number is assigned by the database numbering service on insert
         const { data: newInvoice, error: invoiceError } = await supabase
           .from('sales_invoices')
           .insert([{
-            invoice_number: invoiceNumber,
             customer_id: formData.customer_id,
             sales_order_id: selectedSOId || null,
             invoice_date: formData.invoice_date,
@@ -1035,6 +1038,8 @@ export function Sales() {
             payment_status: 'pending',
             created_by: user.id,
             linked_challan_ids: selectedDCIds.length > 0 ? selectedDCIds : null,
+            currency: formData.currency,
+            exchange_rate: formData.currency === 'IDR' ? 1 : formData.exchange_rate,
           }])
           .select()
           .single();
@@ -1107,6 +1112,8 @@ export function Sales() {
       delivery_challan_number: invoice.delivery_challan_number || '',
       po_number: invoice.po_number || '',
       notes: invoice.notes || '',
+      currency: invoice.currency || 'IDR',
+      exchange_rate: invoice.exchange_rate || 1,
     });
 
     const loadedItems = await loadInvoiceItems(invoice.id);
@@ -1189,6 +1196,8 @@ export function Sales() {
       delivery_challan_number: '',
       po_number: '',
       notes: '',
+      currency: 'IDR',
+      exchange_rate: 1,
     });
     setItems([{
       product_id: '',
@@ -1279,7 +1288,7 @@ export function Sales() {
               <button
                 onClick={async () => {
                   resetForm();
-                  const nextInvoiceNumber = await generateNextInvoiceNumber();
+                  const nextInvoiceNumber = await previewDocumentNumber('sales_invoice');
                   setFormData(prev => ({ ...prev, invoice_number: nextInvoiceNumber }));
                   setModalOpen(true);
                 }}
@@ -1372,8 +1381,9 @@ export function Sales() {
                   <input
                     type="text"
                     value={formData.invoice_number}
+                    placeholder="Assigned on save"
+                    title={editingInvoice ? undefined : 'Preview - the final number is assigned when the invoice is saved'}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-gray-100"
-                    required
                     readOnly
                     disabled
                   />
@@ -1383,7 +1393,10 @@ export function Sales() {
                   <input
                     type="date"
                     value={formData.invoice_date}
-                    onChange={(e) => setFormData({ ...formData, invoice_date: e.target.value })}
+                    onChange={(e) => {
+                      setFormData({ ...formData, invoice_date: e.target.value });
+                      if (formData.currency !== 'IDR') applyInvoiceCurrency(formData.currency, e.target.value);
+                    }}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                     required
                   />
@@ -1559,6 +1572,33 @@ export function Sales() {
                 </div>
               )}
 
+              {formData.currency !== 'IDR' && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+                    <input
+                      type="text"
+                      value={formData.currency}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-gray-100"
+                      readOnly
+                      disabled
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Exchange Rate * (1 {formData.currency} = ? IDR)</label>
+                    <input
+                      type="number"
+                      step="0.000001"
+                      min="0"
+                      value={formData.exchange_rate}
+                      onChange={(e) => setFormData({ ...formData, exchange_rate: parseFloat(e.target.value) || 1 })}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
@@ -1604,6 +1644,8 @@ export function Sales() {
                   const suggestedPrice = getSuggestedPrice(item.batch_id);
 
                   const isFromDC = !!item.delivery_challan_item_id;
+                  const lineShortfall = getLineShelfLifeShortfall(item);
+                  const customerBlocks = customers.find(c => c.id === formData.customer_id)?.shelf_life_rule_mode === 'block';
 
                   return (
                     <div key={index} className="p-2 bg-gray-50 rounded space-y-1 border-l-2" style={{ borderLeftColor: isFromDC ? '#3b82f6' : '#10b981' }}>
@@ -1666,9 +1708,14 @@ export function Sales() {
                           >
                             <option value="">Select Batch</option>
                             {/* Show only batches with stock > 0 for manual selection */}
-                            {availableBatches.filter(b => b.current_stock > 0).map((b) => (
-                              <option key={b.id} value={b.id}>{b.batch_number} ({b.current_stock} stock)</option>
-                            ))}
+                            {availableBatches.filter(b => b.current_stock > 0).map((b) => {
+                              const shortfall = getShelfLifeShortfall(b, customers.find(c => c.id === formData.customer_id), formData.invoice_date);
+                              return (
+                                <option key={b.id} value={b.id} disabled={!!shortfall && customerBlocks && b.id !== item.batch_id}>
+                                  {b.batch_number} ({b.current_stock} stock){shortfall ? ' ⚠ short shelf life' : ''}
+                                </option>
+                              );
+                            })}
                             {/* Show selected batch even if stock is 0 (from delivery challan) */}
                             {item.batch_id && availableBatches.find(b => b.id === item.batch_id && b.current_stock === 0) && (
                               <option key={item.batch_id} value={item.batch_id}>
@@ -1742,6 +1789,14 @@ export function Sales() {
                       </div>
                       </div>
 
+                      {lineShortfall && (
+                        <div className={`text-[10px] px-2 py-1 rounded border ${
+                          customerBlocks ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'
+                        }`}>
+                          {customerBlocks ? 'Cannot be sold to this customer' : 'Below customer\'s minimum shelf life'}: {lineShortfall}
+                        </div>
+                      )}
+
                       {item.batch_id && costPerUnit > 0 && (
                         <div className="flex items-center gap-2 text-[10px] px-2 py-1 bg-white rounded border border-gray-200">
                           <div className="flex items-center gap-1">
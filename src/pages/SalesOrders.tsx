@@ -11,6 +11,7 @@ import { ProformaInvoiceView } from '../components/ProformaInvoiceView';
 import { showToast } from '../components/ToastNotification';
 import { showConfirm } from '../components/ConfirmDialog';
 import { formatDate } from '../utils/dateFormat';
+import { SalesOrderCreditStatus, describeCreditBreach, fetchCustomerCredit } from '../utils/customerCredit';
 
 interface Customer {
   id: string;
@@ -61,6 +62,7 @@ interface SalesOrder {
   rejected_by?: string;
   rejected_at?: string;
   rejection_reason?: string;
+  credit_status?: SalesOrderCreditStatus | null;
   customers?: Customer;
   sales_order_items?: SalesOrderItem[];
 }
@@ -224,6 +226,24 @@ export default function SalesOrders() {
     );
   };
 
+  const getCreditBadge = (creditStatus?: SalesOrderCreditStatus | null) => {
+    if (!creditStatus || creditStatus === 'ok') return null;
+    const creditConfig: Record<string, { color: string; label: string }> = {
+      over_limit: { color: 'bg-red-100 text-red-800', label: t('salesOrders.creditOverLimit') },
+      overdue: { color: 'bg-red-100 text-red-800', label: t('salesOrders.creditOverdueBlocked') },
+      on_hold: { color: 'bg-red-100 text-red-800', label: t('salesOrders.creditOnHold') },
+      pending_approval: { color: 'bg-amber-100 text-amber-800', label: t('salesOrders.creditPendingApproval') },
+      approved: { color: 'bg-green-100 text-green-800', label: t('salesOrders.creditApproved') },
+      rejected: { color: 'bg-red-100 text-red-800', label: t('salesOrders.creditRejected') },
+    };
+    const config = creditConfig[creditStatus];
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${config.color}`}>
+        {config.label}
+      </span>
+    );
+  };
+
   const handleSubmitForApproval = async (orderId: string) => {
     if (!await showConfirm({ title: 'Confirm', message: t('salesOrders.submitForApproval') + '?', variant: 'warning' })) return;
 
@@ -235,6 +255,11 @@ export default function SalesOrders() {
 
       if (error) throw error;
 
+      // Raise the credit request now so the manager sees it alongside the order
+      const { error: creditError } = await supabase
+        .rpc('fn_check_sales_order_credit', { p_so_id: orderId });
+      if (creditError) console.error('Error checking customer credit:', creditError.message);
+
       showToast({ type: 'success', title: 'Success', message: t('success.salesOrderSubmitted') });
       fetchSalesOrders();
     } catch (error: any) {
@@ -355,13 +380,42 @@ export default function SalesOrders() {
     setShowCreateModal(true);
   };
 
-  const handleApproveOrder = async (orderId: string) => {
+  // Runs the customer credit check; a breach either stops approval or raises a manager request
+  const passesCreditCheck = async (order: SalesOrder) => {
+    const { data: creditStatus, error } = await supabase
+      .rpc('fn_check_sales_order_credit', { p_so_id: order.id });
+    if (error) throw error;
+
+    if (creditStatus === 'ok' || creditStatus === 'approved') return true;
+
+    if (creditStatus === 'pending_approval') {
+      showToast({
+        type: 'warning',
+        title: 'Credit Approval Required',
+        message: `${order.customers?.company_name || 'The customer'} is outside their credit terms. The order has been sent to a manager for credit approval.`,
+      });
+    } else {
+      const credit = await fetchCustomerCredit(order.customer_id, order.id);
+      showToast({
+        type: 'error',
+        title: 'Credit Blocked',
+        message: describeCreditBreach(credit) || 'The customer is outside their credit terms.',
+      });
+    }
+    fetchSalesOrders();
+    return false;
+  };
+
+  const handleApproveOrder = async (order: SalesOrder) => {
+    const orderId = order.id;
     if (!await showConfirm({ title: 'Confirm', message: 'Approve this sales order? Stock will be reserved automatically.', variant: 'warning' })) return;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
+      if (!await passesCreditCheck(order)) return;
+
       // Update order status to approved
       const { error: updateError } = await supabase
         .from('sales_orders')
@@ -637,7 +691,7 @@ export default function SalesOrders() {
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleApproveOrder(order.id);
+                                handleApproveOrder(order);
                               }}
                               className="p-2 bg-green-100 hover:bg-green-200 rounded-lg transition-colors"
                               title="Approve Order"
@@ -657,6 +711,7 @@ export default function SalesOrders() {
                             </button>
                           </div>
                         )}
+                        {order.status === 'pending_approval' && getCreditBadge(order.credit_status)}
                         {order.status === 'approved' && (
                           <CheckCircle className="w-5 h-5 text-green-600 ml-2" title="Approved" />
                         )}
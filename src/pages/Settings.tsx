@@ -3,12 +3,13 @@ import { Layout } from '../components/Layout';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Save, Building2, Mail, DollarSign, Package, Users, Calendar, FileText, Download } from 'lucide-react';
+import { Save, Building2, Mail, DollarSign, Package, Users, Calendar, FileText, Download, Hash } from 'lucide-react';
 import { GmailSettings } from '../components/crm/GmailSettings';
 import { UserManagement } from '../components/settings/UserManagement';
 import { EmailTemplates } from '../components/settings/EmailTemplates';
 import { ExtractData } from '../components/settings/ExtractData';
 import { SuppliersManager } from '../components/settings/SuppliersManager';
+import { DocumentNumbering } from '../components/settings/DocumentNumbering';
 import { formatDate } from '../utils/dateFormat';
 
 interface AppSettings {
@@ -17,6 +18,8 @@ interface AppSettings {
   company_address: string;
   company_phone: string;
   company_email: string;
+  company_npwp: string | null;
+  company_nitku: string | null;
   tax_rate: number;
   invoice_prefix: string;
   invoice_start_number: number;
@@ -25,6 +28,12 @@ interface AppSettings {
   email_username: string | null;
   low_stock_threshold: number;
   expiry_alert_days: number;
+  slow_moving_days: number;
+  dead_stock_days: number;
+  expiry_digest_frequency: 'off' | 'daily' | 'weekly';
+  inventory_costing_method: 'fifo' | 'weighted_average';
+  match_qty_tolerance_percent: number;
+  match_price_tolerance_percent: number;
   default_language: string;
   financial_year_start: string;
   financial_year_end: string;
@@ -53,7 +62,7 @@ export function Settings() {
     return 'company';
   };
 
-  const [activeTab, setActiveTab] = useState<'company' | 'users' | 'suppliers' | 'system' | 'financial' | 'gmail' | 'templates' | 'extract'>(getDefaultTab());
+  const [activeTab, setActiveTab] = useState<'company' | 'users' | 'suppliers' | 'system' | 'financial' | 'numbering' | 'gmail' | 'templates' | 'extract'>(getDefaultTab());
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [settings, setSettings] = useState<AppSettings | null>(null);
@@ -63,6 +72,8 @@ export function Settings() {
     company_address: '',
     company_phone: '',
     company_email: '',
+    company_npwp: '',
+    company_nitku: '',
     tax_rate: 11,
     invoice_prefix: 'SAPJ',
     invoice_start_number: 1,
@@ -71,6 +82,12 @@ export function Settings() {
     email_username: '',
     low_stock_threshold: 100,
     expiry_alert_days: 30,
+    slow_moving_days: 90,
+    dead_stock_days: 180,
+    expiry_digest_frequency: 'weekly' as AppSettings['expiry_digest_frequency'],
+    inventory_costing_method: 'fifo' as AppSettings['inventory_costing_method'],
+    match_qty_tolerance_percent: 0,
+    match_price_tolerance_percent: 2,
     default_language: 'en',
     financial_year_start: '2024-01-01',
     financial_year_end: '2024-12-31',
@@ -107,6 +124,8 @@ export function Settings() {
           company_address: data.company_address || '',
           company_phone: data.company_phone || '',
           company_email: data.company_email || '',
+          company_npwp: data.company_npwp || '',
+          company_nitku: data.company_nitku || '',
           tax_rate: data.tax_rate || 11,
           invoice_prefix: data.invoice_prefix || 'SAPJ',
           invoice_start_number: data.invoice_start_number || 1,
@@ -115,6 +134,12 @@ export function Settings() {
           email_username: data.email_username || '',
           low_stock_threshold: data.low_stock_threshold || 100,
           expiry_alert_days: data.expiry_alert_days || 30,
+          slow_moving_days: data.slow_moving_days || 90,
+          dead_stock_days: data.dead_stock_days || 180,
+          expiry_digest_frequency: data.expiry_digest_frequency || 'weekly',
+          inventory_costing_method: data.inventory_costing_method || 'fifo',
+          match_qty_tolerance_percent: data.match_qty_tolerance_percent ?? 0,
+          match_price_tolerance_percent: data.match_price_tolerance_percent ?? 2,
           default_language: data.default_language || 'en',
           financial_year_start: data.financial_year_start || '2024-01-01',
           financial_year_end: data.financial_year_end || '2024-12-31',
@@ -279,6 +304,21 @@ export function Settings() {
                   </div>
                 </button>
               )}
+              {(isAdmin || isAccountant) && (
+                <button
+                  onClick={() => setActiveTab('numbering')}
+                  className={`px-6 py-3 text-sm font-medium border-b-2 transition ${
+                    activeTab === 'numbering'
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Hash className="w-4 h-4" />
+                    Numbering
+                  </div>
+                </button>
+              )}
               {isAdmin && (
                 <button
                   onClick={() => setActiveTab('system')}
@@ -355,6 +395,10 @@ export function Settings() {
               <ExtractData />
             )}
 
+            {activeTab === 'numbering' && (
+              <DocumentNumbering canEdit={isAdmin} />
+            )}
+
             {activeTab === 'suppliers' && (
               <SuppliersManager />
             )}
@@ -441,28 +485,35 @@ export function Settings() {
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Invoice Prefix
+                        Company NPWP
                       </label>
                       <input
                         type="text"
-                        value={formData.invoice_prefix}
-                        onChange={(e) => setFormData({ ...formData, invoice_prefix: e.target.value })}
+                        value={formData.company_npwp}
+                        onChange={(e) => setFormData({ ...formData, company_npwp: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        placeholder="16 digits"
                       />
                     </div>
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Invoice Start Number
+                        Company NITKU
                       </label>
                       <input
-                        type="number"
-                        value={formData.invoice_start_number}
-                        onChange={(e) => setFormData({ ...formData, invoice_start_number: Number(e.target.value) })}
+                        type="text"
+                        value={formData.company_nitku}
+                        onChange={(e) => setFormData({ ...formData, company_nitku: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                        min="1"
+                        placeholder="22 digits, used on e-Faktur"
                       />
                     </div>
+
+                    <div className="col-span-3">
+                      <p className="text-xs text-gray-500">
+                        Invoice prefix and numbering are configured in the Numbering tab.
+                      </p>
+                    </div>
                   </div>
                 </div>
 
@@ -621,7 +672,119 @@ export function Settings() {
                         Alert when products will expire within this many days
                       </p>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Slow-Moving After (days)
+                      </label>
+                      <input
+                        type="number"
+                        value={formData.slow_moving_days}
+                        onChange={(e) => setFormData({ ...formData, slow_moving_days: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        min="1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Days since a batch last sold (or was received) before it is flagged slow-moving
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Dead Stock After (days)
+                      </label>
+                      <input
+                        type="number"
+                        value={formData.dead_stock_days}
+                        onChange={(e) => setFormData({ ...formData, dead_stock_days: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        min="1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Days without a sale before a batch counts as dead stock
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Expiry Digest Email
+                      </label>
+                      <select
+                        value={formData.expiry_digest_frequency}
+                        onChange={(e) => setFormData({ ...formData, expiry_digest_frequency: e.target.value as AppSettings['expiry_digest_frequency'] })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="off">Off</option>
+                        <option value="daily">Daily</option>
+                        <option value="weekly">Weekly</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Near-expiry and dead-stock summary sent to admin, warehouse, accounts and sales
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Inventory Costing Method
+                      </label>
+                      <select
+                        value={formData.inventory_costing_method}
+                        onChange={(e) => setFormData({ ...formData, inventory_costing_method: e.target.value as AppSettings['inventory_costing_method'] })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="fifo">FIFO</option>
+                        <option value="weighted_average">Weighted Average</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Default method for the inventory valuation report and its GL reconciliation
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="border-t pt-6">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <FileText className="w-5 h-5" />
+                    Purchase Invoice Matching
+                  </h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Quantity Tolerance (%)
+                      </label>
+                      <input
+                        type="number"
+                        value={formData.match_qty_tolerance_percent}
+                        onChange={(e) => setFormData({ ...formData, match_qty_tolerance_percent: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        min="0"
+                        step="0.1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Invoiced quantity may exceed received quantity by this much
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Price Tolerance (%)
+                      </label>
+                      <input
+                        type="number"
+                        value={formData.match_price_tolerance_percent}
+                        onChange={(e) => setFormData({ ...formData, match_price_tolerance_percent: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        min="0"
+                        step="0.1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Invoice unit price may differ from the PO price by this much
+                      </p>
+                    </div>
                   </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Invoices outside these tolerances are blocked from payment until a manager approves the variance
+                  </p>
                 </div>
 
                 <div className="border-t pt-6">
@@ -1,10 +1,13 @@
 import { useEffect, useState } from 'react';
 import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { ShelfLifeReport } from '../components/ShelfLifeReport';
 import { useLanguage } from '../contexts/LanguageContext';
 import { supabase } from '../lib/supabase';
-import { Package, TrendingUp, AlertTriangle, Calendar, Search, ChevronDown, ChevronUp } from 'lucide-react';
+import { Package, TrendingUp, AlertTriangle, Calendar, Search, ChevronDown, ChevronUp, CalendarX } from 'lucide-react';
 import { useNavigation } from '../contexts/NavigationContext';
 import { formatDate } from '../utils/dateFormat';
+import { BatchLocationStock, BATCH_LOCATION_STOCK_SELECT, LocationStockEntry, formatLocationCode } from '../utils/warehouses';
 
 interface StockSummary {
   product_id: string;
@@ -18,6 +21,7 @@ interface StockSummary {
   active_batch_count: number;
   expired_batch_count: number;
   nearest_expiry_date: string | null;
+  location_stock: LocationStockEntry[];
 }
 
 interface DetailedBatch {
@@ -28,6 +32,7 @@ interface DetailedBatch {
   available_quantity: number;
   expiry_date: string | null;
   import_date: string;
+  locations: BatchLocationStock[];
 }
 
 export function Stock() {
@@ -38,7 +43,9 @@ export function Stock() {
   const [selectedProduct, setSelectedProduct] = useState<StockSummary | null>(null);
   const [productBatches, setProductBatches] = useState<DetailedBatch[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [warehouseFilter, setWarehouseFilter] = useState('');
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [shelfLifeReportOpen, setShelfLifeReportOpen] = useState(false);
 
   useEffect(() => {
     loadStockSummary();
@@ -109,9 +116,18 @@ export function Stock() {
 
       if (error) throw error;
 
+      const { data: locationData } = await supabase
+        .from('batch_location_stock')
+        .select(BATCH_LOCATION_STOCK_SELECT)
+        .in('batch_id', (data || []).map(batch => batch.id))
+        .neq('quantity', 0);
+
+      const locationRows = (locationData || []) as unknown as BatchLocationStock[];
+
       const batchesWithReserved = (data || []).map(batch => ({
         ...batch,
-        available_quantity: batch.current_stock - (batch.reserved_stock || 0)
+        available_quantity: batch.current_stock - (batch.reserved_stock || 0),
+        locations: locationRows.filter(row => row.batch_id === batch.id)
       }));
 
       setProductBatches(batchesWithReserved);
@@ -155,6 +171,11 @@ export function Stock() {
 
   const filteredData = (() => {
     let result = [...stockSummary];
+    if (warehouseFilter) {
+      result = result.filter(item =>
+        item.location_stock?.some(entry => entry.warehouse_id === warehouseFilter && entry.quantity !== 0)
+      );
+    }
     if (searchTerm) {
       const term = searchTerm.toLowerCase();
       result = result.filter(item =>
@@ -175,6 +196,16 @@ export function Stock() {
     return result;
   })();
 
+  const warehouseOptions = Array.from(
+    new Map(
+      stockSummary.flatMap(item => item.location_stock || [])
+        .map(entry => [entry.warehouse_id, `${entry.warehouse_name} (${entry.warehouse_code})`])
+    ).entries()
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const visibleLocations = (item: StockSummary) =>
+    (item.location_stock || []).filter(entry => !warehouseFilter || entry.warehouse_id === warehouseFilter);
+
   const totalStock = stockSummary.reduce((sum, item) => sum + item.total_current_stock, 0);
   const totalProducts = stockSummary.length;
   const lowStockProducts = stockSummary.filter(item => item.total_current_stock < 500).length;
@@ -194,13 +225,22 @@ export function Stock() {
       <div className="space-y-3">
         <div className="flex items-center justify-between">
           <h1 className="text-xl font-bold text-gray-900">{t('stock.title')}</h1>
-          <button
-            onClick={goToBatches}
-            className="flex items-center gap-1.5 bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition text-sm"
-          >
-            <Package className="w-4 h-4" />
-            View Batches
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShelfLifeReportOpen(true)}
+              className="flex items-center gap-1.5 border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg hover:bg-gray-50 transition text-sm"
+            >
+              <CalendarX className="w-4 h-4" />
+              Shelf-Life Sellability
+            </button>
+            <button
+              onClick={goToBatches}
+              className="flex items-center gap-1.5 bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition text-sm"
+            >
+              <Package className="w-4 h-4" />
+              View Batches
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-4 gap-3">
@@ -242,6 +282,7 @@ export function Stock() {
                   <th className="text-right py-1 px-2 font-medium text-gray-500">STOCK</th>
                   <th className="text-right py-1 px-2 font-medium text-gray-500">RESERVED</th>
                   <th className="text-right py-1 px-2 font-medium text-gray-500">AVAILABLE</th>
+                  <th className="text-left py-1 px-2 font-medium text-gray-500">LOCATIONS</th>
                   <th className="text-right py-1 px-2 font-medium text-gray-500">IMPORTED</th>
                   <th className="text-right py-1 px-2 font-medium text-gray-500">EXPIRY</th>
                 </tr>
@@ -253,6 +294,16 @@ export function Stock() {
                     <td className="py-1 px-2 text-right font-semibold">{batch.current_stock.toLocaleString()} {selectedProduct.unit}</td>
                     <td className="py-1 px-2 text-right text-orange-600">{batch.reserved_stock > 0 ? `${batch.reserved_stock.toLocaleString()} ${selectedProduct.unit}` : '-'}</td>
                     <td className="py-1 px-2 text-right text-green-600 font-semibold">{batch.available_quantity.toLocaleString()} {selectedProduct.unit}</td>
+                    <td className="py-1 px-2 text-gray-700">
+                      {batch.locations.length === 0 ? '-' : batch.locations.map(location => (
+                        <span key={location.location_id} className="inline-block mr-2 whitespace-nowrap">
+                          <span className="font-mono">
+                            {formatLocationCode(location.warehouse_locations?.warehouses?.code, location.warehouse_locations?.code)}
+                          </span>
+                          : {Number(location.quantity).toLocaleString()}
+                        </span>
+                      ))}
+                    </td>
                     <td className="py-1 px-2 text-right text-gray-600">{formatDate(batch.import_date)}</td>
                     <td className={`py-1 px-2 text-right ${isExpired(batch.expiry_date) ? 'text-red-700 font-semibold' : isNearExpiry(batch.expiry_date) ? 'text-orange-600' : 'text-gray-600'}`}>
                       {batch.expiry_date ? formatDate(batch.expiry_date) : '-'}
@@ -260,7 +311,7 @@ export function Stock() {
                   </tr>
                 ))}
                 {productBatches.length === 0 && (
-                  <tr><td colSpan={6} className="py-2 px-2 text-center text-gray-400">No active batches</td></tr>
+                  <tr><td colSpan={7} className="py-2 px-2 text-center text-gray-400">No active batches</td></tr>
                 )}
               </tbody>
             </table>
@@ -268,8 +319,8 @@ export function Stock() {
         )}
 
         <div className="bg-white rounded-lg shadow-sm border">
-          <div className="p-2 border-b">
-            <div className="relative">
+          <div className="p-2 border-b flex gap-2">
+            <div className="relative flex-1">
               <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
               <input
                 type="text"
@@ -279,6 +330,16 @@ export function Stock() {
                 className="w-full pl-8 pr-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
               />
             </div>
+            <select
+              value={warehouseFilter}
+              onChange={(e) => setWarehouseFilter(e.target.value)}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 outline-none"
+            >
+              <option value="">All warehouses</option>
+              {warehouseOptions.map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
           </div>
 
           {loading ? (
@@ -299,6 +360,7 @@ export function Stock() {
                     </th>
                     <th className="text-right px-3 py-1.5 text-[11px] font-medium text-gray-500 uppercase">Reserved</th>
                     <th className="text-right px-3 py-1.5 text-[11px] font-medium text-gray-500 uppercase">Available</th>
+                    <th className="text-left px-3 py-1.5 text-[11px] font-medium text-gray-500 uppercase">Locations</th>
                     <th className="text-center px-3 py-1.5 text-[11px] font-medium text-gray-500 uppercase">Batches</th>
                     <th className="text-right px-3 py-1.5 text-[11px] font-medium text-gray-500 uppercase">Nearest Expiry</th>
                   </tr>
@@ -306,7 +368,7 @@ export function Stock() {
                 <tbody className="divide-y divide-gray-100">
                   {filteredData.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-3 py-6 text-center text-gray-400 text-sm">
+                      <td colSpan={7} className="px-3 py-6 text-center text-gray-400 text-sm">
                         <Package className="w-10 h-10 mx-auto mb-2 text-gray-300" />
                         No stock available
                       </td>
@@ -337,6 +399,20 @@ export function Stock() {
                         <td className="px-3 py-1.5 text-sm text-right font-semibold text-green-600">
                           {item.available_quantity.toLocaleString()} {item.unit}
                         </td>
+                        <td className="px-3 py-1.5 text-xs">
+                          <div className="flex flex-wrap gap-1">
+                            {visibleLocations(item).map(entry => (
+                              <span
+                                key={entry.location_id}
+                                title={entry.warehouse_name}
+                                className={`px-1.5 py-0.5 rounded whitespace-nowrap ${entry.quantity < 0 ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-700'}`}
+                              >
+                                <span className="font-mono">{formatLocationCode(entry.warehouse_code, entry.location_code)}</span>
+                                {' '}{Number(entry.quantity).toLocaleString()}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
                         <td className="px-3 py-1.5 text-sm text-center">
                           <span className="text-blue-600 font-medium">{item.active_batch_count}</span>
                           {item.expired_batch_count > 0 && (
@@ -362,6 +438,15 @@ export function Stock() {
           )}
         </div>
       </div>
+
+      <Modal
+        isOpen={shelfLifeReportOpen}
+        onClose={() => setShelfLifeReportOpen(false)}
+        title="Shelf-Life Sellability by Customer Segment"
+        size="xl"
+      >
+        {shelfLifeReportOpen && <ShelfLifeReport />}
+      </Modal>
     </Layout>
   );
 }
@@ -0,0 +1,335 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { SearchableSelect } from '../components/SearchableSelect';
+import { StockCount, StockCountView } from '../components/StockCountView';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { Plus, Eye, X } from 'lucide-react';
+import { showToast } from '../components/ToastNotification';
+import { formatDate } from '../utils/dateFormat';
+
+interface Product {
+  id: string;
+  product_name: string;
+  product_code: string | null;
+}
+
+const STATUS_STYLES: Record<StockCount['status'], string> = {
+  counting: 'bg-blue-100 text-blue-700',
+  submitted: 'bg-amber-100 text-amber-800',
+  posted: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const formatRupiah = (amount: number) =>
+  `Rp ${Number(amount).toLocaleString('id-ID', { maximumFractionDigits: 0 })}`;
+
+export function StockOpname() {
+  const { t } = useLanguage();
+  const { profile } = useAuth();
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [modalOpen, setModalOpen] = useState(false);
+  const [viewing, setViewing] = useState<StockCount | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    count_date: new Date().toISOString().split('T')[0],
+    description: '',
+    is_blind: true,
+    include_zero_stock: false,
+    product_ids: [] as string[],
+  });
+
+  const canCreate = profile?.role === 'admin' || profile?.role === 'accounts' || profile?.role === 'warehouse';
+
+  useEffect(() => {
+    loadCounts();
+    loadProducts();
+  }, []);
+
+  const loadCounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('stock_counts')
+        .select('*, journal_entries(entry_number)')
+        .order('count_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      const rows = (data || []) as unknown as StockCount[];
+      setCounts(rows);
+      setViewing(prev => (prev ? rows.find(row => row.id === prev.id) || null : null));
+    } catch (error) {
+      console.error('Error loading stock counts:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load stock counts' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadProducts = async () => {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, product_name, product_code')
+      .eq('is_active', true)
+      .order('product_name');
+    if (error) {
+      console.error('Error loading products:', error);
+      return;
+    }
+    setProducts(data || []);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      count_date: new Date().toISOString().split('T')[0],
+      description: '',
+      is_blind: true,
+      include_zero_stock: false,
+      product_ids: [],
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('create_stock_count', {
+        p_count_date: formData.count_date,
+        p_description: formData.description || null,
+        p_is_blind: formData.is_blind,
+        p_product_ids: formData.product_ids.length > 0 ? formData.product_ids : null,
+        p_include_zero_stock: formData.include_zero_stock,
+      });
+      if (error) throw error;
+
+      setModalOpen(false);
+      resetForm();
+      showToast({ type: 'success', title: 'Success', message: 'Count sheet frozen and ready for counting' });
+      await loadCounts();
+      const { data: created } = await supabase
+        .from('stock_counts')
+        .select('*, journal_entries(entry_number)')
+        .eq('id', data as string)
+        .maybeSingle();
+      if (created) setViewing(created as unknown as StockCount);
+    } catch (error: unknown) {
+      console.error('Error creating stock count:', error);
+      showToast({ type: 'error', title: 'Error', message: (error as { message?: string })?.message || 'Failed to create stock count' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredCounts = counts.filter(count => !statusFilter || count.status === statusFilter);
+  const productOptions = products
+    .filter(p => !formData.product_ids.includes(p.id))
+    .map(p => ({ value: p.id, label: p.product_code ? `${p.product_name} (${p.product_code})` : p.product_name }));
+
+  return (
+    <Layout>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">{t('nav.stockOpname')}</h1>
+            <p className="text-xs text-gray-500">Freeze a count sheet, count blind, review variances and post adjustments</p>
+          </div>
+          {canCreate && (
+            <button
+              onClick={() => {
+                resetForm();
+                setModalOpen(true);
+              }}
+              className="flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 text-sm rounded-lg hover:bg-blue-700 transition"
+            >
+              <Plus className="w-4 h-4" />
+              New Stock Count
+            </button>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="p-2 border-b flex justify-end">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+            >
+              <option value="">All statuses</option>
+              <option value="counting">Counting</option>
+              <option value="submitted">Awaiting review</option>
+              <option value="posted">Posted</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center text-gray-500 text-sm">Loading...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Count No.</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Shortage</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Surplus</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Journal</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {filteredCounts.length === 0 ? (
+                    <tr>
+                      <td colSpan={9} className="px-3 py-8 text-center text-sm text-gray-500">No stock counts yet</td>
+                    </tr>
+                  ) : (
+                    filteredCounts.map(count => (
+                      <tr key={count.id} className="hover:bg-gray-50">
+                        <td className="px-3 py-1.5 text-sm font-mono">{count.count_number}</td>
+                        <td className="px-3 py-1.5 text-sm text-gray-600">{formatDate(count.count_date)}</td>
+                        <td className="px-3 py-1.5 text-sm text-gray-700">{count.description}</td>
+                        <td className="px-3 py-1.5 text-sm text-gray-600">{count.is_blind ? 'Blind' : 'Open'}</td>
+                        <td className="px-3 py-1.5 text-sm">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[count.status]}`}>
+                            {count.status === 'submitted' ? 'awaiting review' : count.status}
+                          </span>
+                        </td>
+                        <td className="px-3 py-1.5 text-sm text-right text-red-700">
+                          {count.status === 'posted' ? formatRupiah(count.shortage_value) : ''}
+                        </td>
+                        <td className="px-3 py-1.5 text-sm text-right text-green-700">
+                          {count.status === 'posted' ? formatRupiah(count.surplus_value) : ''}
+                        </td>
+                        <td className="px-3 py-1.5 text-xs font-mono text-gray-600">{count.journal_entries?.entry_number}</td>
+                        <td className="px-3 py-1.5 text-right">
+                          <button
+                            onClick={() => setViewing(count)}
+                            className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                            title="Open count sheet"
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Modal isOpen={modalOpen} onClose={() => setModalOpen(false)} title="New Stock Count" size="md">
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Count Date *</label>
+              <input
+                type="date"
+                value={formData.count_date}
+                onChange={(e) => setFormData({ ...formData, count_date: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="e.g. Year-end count, Rack A"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Products</label>
+            <SearchableSelect
+              value=""
+              onChange={(value) => value && setFormData({ ...formData, product_ids: [...formData.product_ids, value] })}
+              options={productOptions}
+              placeholder="All products (or pick products to count)"
+            />
+            {formData.product_ids.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {formData.product_ids.map(id => (
+                  <span key={id} className="flex items-center gap-1 px-2 py-0.5 bg-blue-50 text-blue-700 rounded text-xs">
+                    {products.find(p => p.id === id)?.product_name}
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, product_ids: formData.product_ids.filter(p => p !== id) })}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.is_blind}
+              onChange={(e) => setFormData({ ...formData, is_blind: e.target.checked })}
+              className="mt-0.5"
+            />
+            <span>
+              Blind count
+              <span className="block text-xs text-gray-500">Counters do not see system quantities until the count is submitted</span>
+            </span>
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.include_zero_stock}
+              onChange={(e) => setFormData({ ...formData, include_zero_stock: e.target.checked })}
+            />
+            Include batches with zero system stock
+          </label>
+
+          <p className="text-xs text-gray-500">
+            System quantities are frozen when the sheet is created. Variances are measured against the frozen figure,
+            so sales and receipts made while counting are not lost when the count is posted.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={() => setModalOpen(false)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Freeze Count Sheet'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {viewing && (
+        <StockCountView
+          stockCount={viewing}
+          onClose={() => setViewing(null)}
+          onChanged={loadCounts}
+        />
+      )}
+    </Layout>
+  );
+}
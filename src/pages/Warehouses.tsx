@@ -0,0 +1,808 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Modal } from '../components/Modal';
+import { SearchableSelect } from '../components/SearchableSelect';
+import { StockTransfer, StockTransferItem, StockTransferView } from '../components/StockTransferView';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { Plus, Edit, Eye, Trash2, Star, ArrowRight } from 'lucide-react';
+import { showToast } from '../components/ToastNotification';
+import { showConfirm } from '../components/ConfirmDialog';
+import { formatDate } from '../utils/dateFormat';
+import {
+  Warehouse,
+  WarehouseLocation,
+  WarehouseType,
+  WAREHOUSE_TYPES,
+  formatWarehouseType,
+  formatLocationCode,
+} from '../utils/warehouses';
+
+interface SourceStock {
+  batch_id: string;
+  location_id: string;
+  quantity: number;
+  warehouse_locations: { code: string } | null;
+  batches: {
+    batch_number: string;
+    product_id: string;
+    expiry_date: string | null;
+    products: { product_name: string; unit: string } | null;
+  } | null;
+}
+
+interface TransferLine {
+  source: string;
+  to_location_id: string;
+  quantity: number;
+}
+
+const TRANSFER_SELECT = '*, from_warehouse:warehouses!from_warehouse_id(code, name, address), to_warehouse:warehouses!to_warehouse_id(code, name, address)';
+
+const emptyLine = (): TransferLine => ({ source: '', to_location_id: '', quantity: 0 });
+
+export function Warehouses() {
+  const { t } = useLanguage();
+  const { profile } = useAuth();
+  const [tab, setTab] = useState<'transfers' | 'warehouses'>('transfers');
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [locations, setLocations] = useState<WarehouseLocation[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [warehouseModalOpen, setWarehouseModalOpen] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+  const [warehouseForm, setWarehouseForm] = useState({
+    code: '',
+    name: '',
+    warehouse_type: 'main' as WarehouseType,
+    address: '',
+    is_active: true,
+  });
+  const [newLocation, setNewLocation] = useState<Record<string, { code: string; name: string }>>({});
+
+  const [transferModalOpen, setTransferModalOpen] = useState(false);
+  const [transferForm, setTransferForm] = useState({
+    transfer_date: new Date().toISOString().split('T')[0],
+    from_warehouse_id: '',
+    to_warehouse_id: '',
+    vehicle_number: '',
+    driver_name: '',
+    notes: '',
+  });
+  const [transferLines, setTransferLines] = useState<TransferLine[]>([emptyLine()]);
+  const [sourceStock, setSourceStock] = useState<SourceStock[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [viewingTransfer, setViewingTransfer] = useState<StockTransfer | null>(null);
+  const [viewingItems, setViewingItems] = useState<StockTransferItem[]>([]);
+
+  const canManage = profile?.role === 'admin' || profile?.role === 'warehouse';
+  const canTransfer = canManage || profile?.role === 'accounts';
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [warehouseResult, locationResult, transferResult] = await Promise.all([
+        supabase.from('warehouses').select('*').order('is_default', { ascending: false }).order('code'),
+        supabase.from('warehouse_locations').select('*').order('code'),
+        supabase.from('stock_transfers').select(TRANSFER_SELECT).order('transfer_date', { ascending: false }).order('created_at', { ascending: false }),
+      ]);
+      if (warehouseResult.error) throw warehouseResult.error;
+      if (locationResult.error) throw locationResult.error;
+      if (transferResult.error) throw transferResult.error;
+      setWarehouses(warehouseResult.data || []);
+      setLocations(locationResult.data || []);
+      setTransfers((transferResult.data || []) as unknown as StockTransfer[]);
+    } catch (error) {
+      console.error('Error loading warehouses:', error);
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load warehouses' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorMessage = (error: unknown, fallback: string) =>
+    (error as { message?: string })?.message || fallback;
+
+  // ---------- Warehouses and locations ----------
+
+  const openWarehouseModal = (warehouse: Warehouse | null) => {
+    setEditingWarehouse(warehouse);
+    setWarehouseForm({
+      code: warehouse?.code || '',
+      name: warehouse?.name || '',
+      warehouse_type: warehouse?.warehouse_type || 'main',
+      address: warehouse?.address || '',
+      is_active: warehouse?.is_active ?? true,
+    });
+    setWarehouseModalOpen(true);
+  };
+
+  const handleWarehouseSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      code: warehouseForm.code.trim().toUpperCase(),
+      name: warehouseForm.name.trim(),
+      warehouse_type: warehouseForm.warehouse_type,
+      address: warehouseForm.address.trim() || null,
+      is_active: warehouseForm.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      if (editingWarehouse) {
+        const { error } = await supabase.from('warehouses').update(payload).eq('id', editingWarehouse.id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('warehouses').insert([payload]).select().single();
+        if (error) throw error;
+        // Every warehouse starts with one bin so stock always has somewhere to go
+        const { error: locationError } = await supabase
+          .from('warehouse_locations')
+          .insert([{ warehouse_id: data.id, code: 'GENERAL', name: 'General storage' }]);
+        if (locationError) throw locationError;
+      }
+      setWarehouseModalOpen(false);
+      showToast({ type: 'success', title: 'Success', message: 'Warehouse saved' });
+      loadData();
+    } catch (error) {
+      console.error('Error saving warehouse:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to save warehouse') });
+    }
+  };
+
+  const makeDefault = async (warehouse: Warehouse) => {
+    if (!await showConfirm({
+      title: 'Default Warehouse',
+      message: `Make ${warehouse.name} the default warehouse? New batches are received into its first bin.`,
+      confirmLabel: 'Make Default',
+      variant: 'info',
+    })) return;
+    try {
+      const { error: clearError } = await supabase.from('warehouses').update({ is_default: false }).eq('is_default', true);
+      if (clearError) throw clearError;
+      const { error } = await supabase.from('warehouses').update({ is_default: true }).eq('id', warehouse.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error setting default warehouse:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to set default warehouse') });
+    }
+  };
+
+  const addLocation = async (warehouseId: string) => {
+    const draft = newLocation[warehouseId];
+    if (!draft?.code.trim()) return;
+    try {
+      const { error } = await supabase.from('warehouse_locations').insert([{
+        warehouse_id: warehouseId,
+        code: draft.code.trim().toUpperCase(),
+        name: draft.name.trim() || null,
+      }]);
+      if (error) throw error;
+      setNewLocation({ ...newLocation, [warehouseId]: { code: '', name: '' } });
+      loadData();
+    } catch (error) {
+      console.error('Error adding location:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to add location') });
+    }
+  };
+
+  const toggleLocation = async (location: WarehouseLocation) => {
+    const { error } = await supabase
+      .from('warehouse_locations')
+      .update({ is_active: !location.is_active })
+      .eq('id', location.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    loadData();
+  };
+
+  // ---------- Transfers ----------
+
+  const loadSourceStock = async (warehouseId: string) => {
+    const warehouseLocationIds = locations.filter(l => l.warehouse_id === warehouseId).map(l => l.id);
+    if (warehouseLocationIds.length === 0) {
+      setSourceStock([]);
+      return;
+    }
+    const { data, error } = await supabase
+      .from('batch_location_stock')
+      .select('batch_id, location_id, quantity, warehouse_locations(code), batches(batch_number, product_id, expiry_date, products(product_name, unit))')
+      .in('location_id', warehouseLocationIds)
+      .gt('quantity', 0);
+    if (error) {
+      console.error('Error loading stock at warehouse:', error);
+      return;
+    }
+    setSourceStock((data || []) as unknown as SourceStock[]);
+  };
+
+  const openTransferModal = () => {
+    const defaultWarehouse = warehouses.find(w => w.is_default) || warehouses[0];
+    setTransferForm({
+      transfer_date: new Date().toISOString().split('T')[0],
+      from_warehouse_id: defaultWarehouse?.id || '',
+      to_warehouse_id: '',
+      vehicle_number: '',
+      driver_name: '',
+      notes: '',
+    });
+    setTransferLines([emptyLine()]);
+    if (defaultWarehouse) loadSourceStock(defaultWarehouse.id);
+    setTransferModalOpen(true);
+  };
+
+  const findSource = (key: string) => sourceStock.find(s => `${s.batch_id}|${s.location_id}` === key);
+
+  const updateLine = (index: number, changes: Partial<TransferLine>) => {
+    setTransferLines(transferLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleTransferSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transferForm.from_warehouse_id || !transferForm.to_warehouse_id) {
+      showToast({ type: 'error', title: 'Error', message: 'Choose both warehouses' });
+      return;
+    }
+
+    const lines = transferLines.filter(line => line.source);
+    if (lines.length === 0 || lines.some(line => !line.to_location_id || line.quantity <= 0)) {
+      showToast({ type: 'error', title: 'Error', message: 'Every line needs a batch, a destination bin and a quantity' });
+      return;
+    }
+
+    const usage = new Map<string, number>();
+    lines.forEach(line => usage.set(line.source, (usage.get(line.source) || 0) + line.quantity));
+    for (const [key, quantity] of usage.entries()) {
+      const source = findSource(key);
+      if (source && quantity > source.quantity) {
+        showToast({
+          type: 'error',
+          title: 'Error',
+          message: `Only ${source.quantity} of batch ${source.batches?.batch_number} is at ${source.warehouse_locations?.code}`,
+        });
+        return;
+      }
+    }
+    if (lines.some(line => findSource(line.source)?.location_id === line.to_location_id)) {
+      showToast({ type: 'error', title: 'Error', message: 'Source and destination bin must differ' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: transfer, error } = await supabase
+        .from('stock_transfers')
+        .insert([{
+          transfer_date: transferForm.transfer_date,
+          from_warehouse_id: transferForm.from_warehouse_id,
+          to_warehouse_id: transferForm.to_warehouse_id,
+          vehicle_number: transferForm.vehicle_number || null,
+          driver_name: transferForm.driver_name || null,
+          notes: transferForm.notes || null,
+        }])
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase.from('stock_transfer_items').insert(lines.map(line => {
+        const source = findSource(line.source)!;
+        return {
+          transfer_id: transfer.id,
+          batch_id: source.batch_id,
+          product_id: source.batches?.product_id,
+          from_location_id: source.location_id,
+          to_location_id: line.to_location_id,
+          quantity: line.quantity,
+        };
+      }));
+      if (itemsError) {
+        await supabase.from('stock_transfers').delete().eq('id', transfer.id);
+        throw itemsError;
+      }
+
+      setTransferModalOpen(false);
+      showToast({ type: 'success', title: 'Success', message: `Transfer ${transfer.transfer_number} saved as draft` });
+      loadData();
+    } catch (error) {
+      console.error('Error saving transfer:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to save transfer') });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openTransfer = async (transfer: StockTransfer) => {
+    const { data, error } = await supabase
+      .from('stock_transfer_items')
+      .select('id, quantity, batches(batch_number, expiry_date), products(product_name, unit), from_location:warehouse_locations!from_location_id(code), to_location:warehouse_locations!to_location_id(code)')
+      .eq('transfer_id', transfer.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: 'Failed to load transfer lines' });
+      return;
+    }
+    setViewingItems((data || []) as unknown as StockTransferItem[]);
+    setViewingTransfer(transfer);
+  };
+
+  const completeTransfer = async (transfer: StockTransfer) => {
+    if (!await showConfirm({
+      title: 'Complete Transfer',
+      message: `Move the stock on ${transfer.transfer_number} to ${transfer.to_warehouse?.name}? Confirm only once the goods have arrived.`,
+      confirmLabel: 'Complete',
+      variant: 'info',
+    })) return;
+    try {
+      const { error } = await supabase.rpc('complete_stock_transfer', { p_transfer_id: transfer.id });
+      if (error) throw error;
+      showToast({ type: 'success', title: 'Success', message: 'Stock moved to the destination bins' });
+      setViewingTransfer(null);
+      loadData();
+    } catch (error) {
+      console.error('Error completing transfer:', error);
+      showToast({ type: 'error', title: 'Error', message: errorMessage(error, 'Failed to complete transfer') });
+    }
+  };
+
+  const cancelTransfer = async (transfer: StockTransfer) => {
+    if (!await showConfirm({
+      title: 'Cancel Transfer',
+      message: `Cancel ${transfer.transfer_number}? No stock will move.`,
+      confirmLabel: 'Cancel Transfer',
+      variant: 'danger',
+    })) return;
+    const { error } = await supabase
+      .from('stock_transfers')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', transfer.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    setViewingTransfer(null);
+    loadData();
+  };
+
+  const deleteTransfer = async (transfer: StockTransfer) => {
+    if (!await showConfirm({
+      title: 'Delete Draft',
+      message: `Delete draft ${transfer.transfer_number}? The number is recorded as voided.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    })) return;
+    const { error } = await supabase.from('stock_transfers').delete().eq('id', transfer.id);
+    if (error) {
+      showToast({ type: 'error', title: 'Error', message: error.message });
+      return;
+    }
+    loadData();
+  };
+
+  const activeWarehouses = warehouses.filter(w => w.is_active);
+  const destinationLocations = locations.filter(l => l.warehouse_id === transferForm.to_warehouse_id && l.is_active);
+  const sourceOptions = sourceStock.map(s => ({
+    value: `${s.batch_id}|${s.location_id}`,
+    label: `${s.batches?.products?.product_name} · ${s.batches?.batch_number} @ ${s.warehouse_locations?.code} (${Number(s.quantity).toLocaleString()} ${s.batches?.products?.unit || ''})`,
+  }));
+
+  return (
+    <Layout>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold text-gray-900">{t('nav.warehouses')}</h1>
+          {tab === 'transfers' && canTransfer && (
+            <button
+              onClick={openTransferModal}
+              className="flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 text-sm rounded-lg hover:bg-blue-700 transition"
+            >
+              <Plus className="w-4 h-4" />
+              New Transfer
+            </button>
+          )}
+          {tab === 'warehouses' && canManage && (
+            <button
+              onClick={() => openWarehouseModal(null)}
+              className="flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 text-sm rounded-lg hover:bg-blue-700 transition"
+            >
+              <Plus className="w-4 h-4" />
+              Add Warehouse
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-1 border-b">
+          {(['transfers', 'warehouses'] as const).map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {key === 'transfers' ? 'Transfer Challans' : 'Warehouses & Bins'}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500 text-sm">Loading...</div>
+        ) : tab === 'transfers' ? (
+          <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transfer No.</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Route</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vehicle / Driver</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {transfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-8 text-center text-sm text-gray-500">No transfers yet</td>
+                  </tr>
+                ) : (
+                  transfers.map(transfer => (
+                    <tr key={transfer.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-1.5 text-sm font-mono">{transfer.transfer_number}</td>
+                      <td className="px-3 py-1.5 text-sm text-gray-600">{formatDate(transfer.transfer_date)}</td>
+                      <td className="px-3 py-1.5 text-sm">
+                        <span className="inline-flex items-center gap-1">
+                          {transfer.from_warehouse?.code}
+                          <ArrowRight className="w-3 h-3 text-gray-400" />
+                          {transfer.to_warehouse?.code}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1.5 text-sm text-gray-600">
+                        {[transfer.vehicle_number, transfer.driver_name].filter(Boolean).join(' · ')}
+                      </td>
+                      <td className="px-3 py-1.5 text-sm">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          transfer.status === 'completed' ? 'bg-green-100 text-green-700' :
+                          transfer.status === 'cancelled' ? 'bg-gray-100 text-gray-600' : 'bg-blue-100 text-blue-700'
+                        }`}>
+                          {transfer.status}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                        <button onClick={() => openTransfer(transfer)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="View / print">
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        {canTransfer && transfer.status === 'draft' && (
+                          <button onClick={() => deleteTransfer(transfer)} className="p-1 text-red-600 hover:bg-red-50 rounded" title="Delete draft">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {warehouses.map(warehouse => (
+              <div key={warehouse.id} className={`bg-white rounded-lg shadow-sm border p-3 ${warehouse.is_active ? '' : 'opacity-60'}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-sm font-semibold text-gray-900">
+                      {warehouse.name} <span className="font-mono text-gray-500">({warehouse.code})</span>
+                      {warehouse.is_default && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-blue-100 text-blue-700">Default</span>
+                      )}
+                    </h2>
+                    <p className="text-xs text-gray-500">{formatWarehouseType(warehouse.warehouse_type)}</p>
+                    {warehouse.address && <p className="text-xs text-gray-500">{warehouse.address}</p>}
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-1">
+                      {!warehouse.is_default && warehouse.is_active && (
+                        <button onClick={() => makeDefault(warehouse)} className="p-1 text-amber-600 hover:bg-amber-50 rounded" title="Make default">
+                          <Star className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button onClick={() => openWarehouseModal(warehouse)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {locations.filter(l => l.warehouse_id === warehouse.id).map(location => (
+                    <button
+                      key={location.id}
+                      type="button"
+                      disabled={!canManage}
+                      onClick={() => toggleLocation(location)}
+                      title={canManage ? (location.is_active ? 'Click to deactivate' : 'Click to reactivate') : location.name || ''}
+                      className={`px-2 py-0.5 rounded text-xs font-mono ${
+                        location.is_active ? 'bg-gray-100 text-gray-700' : 'bg-gray-50 text-gray-400 line-through'
+                      }`}
+                    >
+                      {location.code}
+                    </button>
+                  ))}
+                </div>
+
+                {canManage && (
+                  <div className="mt-2 flex gap-1">
+                    <input
+                      type="text"
+                      value={newLocation[warehouse.id]?.code || ''}
+                      onChange={(e) => setNewLocation({ ...newLocation, [warehouse.id]: { name: newLocation[warehouse.id]?.name || '', code: e.target.value } })}
+                      placeholder="Bin code, e.g. A-01"
+                      className="w-32 px-2 py-1 text-xs border border-gray-300 rounded"
+                    />
+                    <input
+                      type="text"
+                      value={newLocation[warehouse.id]?.name || ''}
+                      onChange={(e) => setNewLocation({ ...newLocation, [warehouse.id]: { code: newLocation[warehouse.id]?.code || '', name: e.target.value } })}
+                      placeholder="Description"
+                      className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => addLocation(warehouse.id)}
+                      className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      Add Bin
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={warehouseModalOpen}
+        onClose={() => setWarehouseModalOpen(false)}
+        title={editingWarehouse ? 'Edit Warehouse' : 'Add Warehouse'}
+        size="md"
+      >
+        <form onSubmit={handleWarehouseSubmit} className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Code *</label>
+              <input
+                type="text"
+                value={warehouseForm.code}
+                onChange={(e) => setWarehouseForm({ ...warehouseForm, code: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded uppercase"
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={warehouseForm.name}
+                onChange={(e) => setWarehouseForm({ ...warehouseForm, name: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={warehouseForm.warehouse_type}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, warehouse_type: e.target.value as WarehouseType })}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+            >
+              {WAREHOUSE_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Address</label>
+            <textarea
+              value={warehouseForm.address}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, address: e.target.value })}
+              rows={2}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+            />
+          </div>
+          {editingWarehouse && !editingWarehouse.is_default && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={warehouseForm.is_active}
+                onChange={(e) => setWarehouseForm({ ...warehouseForm, is_active: e.target.checked })}
+              />
+              Active
+            </label>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={() => setWarehouseModalOpen(false)} className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+              Save
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={transferModalOpen} onClose={() => setTransferModalOpen(false)} title="New Transfer Challan" size="xl">
+        <form onSubmit={handleTransferSubmit} className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Date *</label>
+              <input
+                type="date"
+                value={transferForm.transfer_date}
+                onChange={(e) => setTransferForm({ ...transferForm, transfer_date: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">From Warehouse *</label>
+              <select
+                value={transferForm.from_warehouse_id}
+                onChange={(e) => {
+                  setTransferForm({ ...transferForm, from_warehouse_id: e.target.value });
+                  setTransferLines([emptyLine()]);
+                  loadSourceStock(e.target.value);
+                }}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              >
+                <option value="">Select...</option>
+                {activeWarehouses.map(w => (
+                  <option key={w.id} value={w.id}>{w.name} ({w.code})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">To Warehouse *</label>
+              <select
+                value={transferForm.to_warehouse_id}
+                onChange={(e) => {
+                  setTransferForm({ ...transferForm, to_warehouse_id: e.target.value });
+                  setTransferLines(transferLines.map(line => ({ ...line, to_location_id: '' })));
+                }}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                required
+              >
+                <option value="">Select...</option>
+                {activeWarehouses.map(w => (
+                  <option key={w.id} value={w.id}>{w.name} ({w.code})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={transferForm.vehicle_number}
+              onChange={(e) => setTransferForm({ ...transferForm, vehicle_number: e.target.value })}
+              placeholder="Vehicle number"
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded"
+            />
+            <input
+              type="text"
+              value={transferForm.driver_name}
+              onChange={(e) => setTransferForm({ ...transferForm, driver_name: e.target.value })}
+              placeholder="Driver name"
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded"
+            />
+            <input
+              type="text"
+              value={transferForm.notes}
+              onChange={(e) => setTransferForm({ ...transferForm, notes: e.target.value })}
+              placeholder="Notes"
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded"
+            />
+          </div>
+
+          <div className="space-y-2">
+            {transferLines.map((line, index) => {
+              const source = findSource(line.source);
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center p-2 bg-gray-50 rounded border">
+                  <div className="col-span-6">
+                    <SearchableSelect
+                      value={line.source}
+                      onChange={(value) => updateLine(index, { source: value, quantity: findSource(value)?.quantity || 0 })}
+                      options={sourceOptions}
+                      placeholder={transferForm.from_warehouse_id ? 'Batch and source bin' : 'Choose the source warehouse first'}
+                      className="text-xs"
+                    />
+                  </div>
+                  <div className="col-span-3">
+                    <select
+                      value={line.to_location_id}
+                      onChange={(e) => updateLine(index, { to_location_id: e.target.value })}
+                      className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded"
+                    >
+                      <option value="">To bin...</option>
+                      {destinationLocations
+                        .filter(l => l.id !== source?.location_id)
+                        .map(l => (
+                          <option key={l.id} value={l.id}>
+                            {formatLocationCode(warehouses.find(w => w.id === l.warehouse_id)?.code, l.code)}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <input
+                      type="number"
+                      min="0.001"
+                      step="0.001"
+                      max={source?.quantity}
+                      value={line.quantity || ''}
+                      onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded text-right"
+                      placeholder="Qty"
+                    />
+                  </div>
+                  <div className="col-span-1 text-right">
+                    {transferLines.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setTransferLines(transferLines.filter((_, i) => i !== index))}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => setTransferLines([...transferLines, emptyLine()])}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-3 h-3" /> Add line
+            </button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The transfer is saved as a draft. Stock moves when it is completed, after the goods arrive.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={() => setTransferModalOpen(false)} className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save Draft'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {viewingTransfer && (
+        <StockTransferView
+          transfer={viewingTransfer}
+          items={viewingItems}
+          canManage={canTransfer}
+          onComplete={() => completeTransfer(viewingTransfer)}
+          onCancel={() => cancelTransfer(viewingTransfer)}
+          onClose={() => setViewingTransfer(null)}
+        />
+      )}
+    </Layout>
+  );
+}
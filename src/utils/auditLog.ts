@@ -0,0 +1,43 @@
+/**
+ * Shared helpers for reading audit_logs (document History panels and the audit explorer)
+ */
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string | null;
+  action_type: 'insert' | 'update' | 'delete';
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  changed_fields: string[] | null;
+  user_email: string | null;
+  source_screen: string | null;
+  document_table: string | null;
+  document_id: string | null;
+  document_ref: string | null;
+  created_at: string;
+  user_profiles: { full_name: string } | null;
+}
+
+// Must match the SELECT policy on audit_logs
+export const AUDIT_VIEWER_ROLES = ['admin', 'accounts', 'auditor_ca'];
+
+export const AUDIT_ENTRY_SELECT = '*, user_profiles:user_id(full_name)';
+
+// Bookkeeping columns that change on every save and only clutter the history
+export const AUDIT_HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+export const AUDIT_ACTION_STYLES: Record<AuditLogEntry['action_type'], { label: string; className: string }> = {
+  insert: { label: 'Created', className: 'bg-green-100 text-green-700' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-700' },
+  delete: { label: 'Deleted', className: 'bg-red-100 text-red-700' },
+};
+
+export const formatAuditTableName = (tableName: string): string =>
+  tableName.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,123 @@
+import { emptyMetadata, finalizeOutput, isoDate, parseAmount } from './common';
+import type { ParsedStatementLine, ParseWarning, StatementParser } from './types';
+
+const ENGLISH_MONTHS: Record<string, number> = {
+  JANUARY: 1, FEBRUARY: 2, MARCH: 3, APRIL: 4, MAY: 5, JUNE: 6,
+  JULY: 7, AUGUST: 8, SEPTEMBER: 9, OCTOBER: 10, NOVEMBER: 11, DECEMBER: 12,
+  JANUARI: 1, FEBRUARI: 2, MARET: 3, MEI: 5, JUNI: 6, JULI: 7, AGUSTUS: 8, OKTOBER: 10, DESEMBER: 12,
+};
+
+const AMOUNT = /^[\d,.]+$/;
+
+/** Balance lines carry the amount last, after the dd/mm date */
+const lastAmount = (line: string): number | null => {
+  const amounts = line.match(/\d[\d,.]*\.\d{2}\b/g);
+  return amounts ? parseAmount(amounts[amounts.length - 1]) : null;
+};
+
+/**
+ * BCA e-statement PDF ("REKENING TAHAPAN" / "REKENING GIRO"), read from the text the
+ * extract-statement-text edge function pulls out of the PDF content streams.
+ * Each transaction line is: dd/mm  description...  [branch]  amount  [DB]  [balance].
+ */
+export const bcaPdfParser: StatementParser = {
+  id: 'bca_pdf',
+  label: 'BCA e-statement (PDF)',
+  formats: ['pdf_text'],
+  detect: (source) => {
+    const text = source.text || '';
+    if (!/^\s*\d{2}\/\d{2}\s/m.test(text)) return 0;
+    if (/REKENING (TAHAPAN|GIRO)|BCA/i.test(text)) return 0.9;
+    // Any PDF with dd/mm transaction lines is worth a try
+    return 0.2;
+  },
+  parse: (source, context) => {
+    const textLines = (source.text || '').split('\n');
+    const metadata = emptyMetadata();
+    const warnings: ParseWarning[] = [];
+    const lines: ParsedStatementLine[] = [];
+    let year = context.year;
+    let usedContextYear = true;
+
+    for (const line of textLines) {
+      if (line.includes('PERIODE')) {
+        const period = line.match(/:\s*([A-Z]+)\s+(\d{4})/);
+        if (period && ENGLISH_MONTHS[period[1]]) {
+          const month = ENGLISH_MONTHS[period[1]];
+          year = +period[2];
+          usedContextYear = false;
+          metadata.period = `${period[1]} ${period[2]}`;
+          metadata.startDate = isoDate(year, month, 1);
+          metadata.endDate = isoDate(year, month, new Date(year, month, 0).getDate());
+        }
+      }
+      if (/NO\.\s?REKENING/.test(line)) {
+        const account = line.match(/:\s*(\d+)/);
+        if (account) metadata.accountNumber = account[1];
+      }
+      if (line.includes('SALDO AWAL')) metadata.openingBalance = lastAmount(line);
+      if (line.includes('SALDO AKHIR')) metadata.closingBalance = lastAmount(line);
+    }
+
+    textLines.forEach((line, index) => {
+      const dateMatch = line.match(/^\s*(\d{2})\/(\d{2})\s/);
+      if (!dateMatch || line.includes('SALDO AWAL')) return;
+
+      const date = isoDate(year, +dateMatch[2], +dateMatch[1]);
+      if (!date) {
+        warnings.push({ line: index + 1, message: `Invalid date ${dateMatch[1]}/${dateMatch[2]}`, raw: line.trim() });
+        return;
+      }
+
+      const parts = line.trim().split(/\s+/);
+      const descParts: string[] = [];
+      let branchCode = '';
+      let i = 1;
+      while (i < parts.length) {
+        if (/^\d{4}$/.test(parts[i])) {
+          branchCode = parts[i];
+          i++;
+          break;
+        }
+        if (AMOUNT.test(parts[i])) break;
+        descParts.push(parts[i]);
+        i++;
+      }
+
+      const amount = i < parts.length && AMOUNT.test(parts[i]) ? parseAmount(parts[i++]) : null;
+      const isDebit = parts[i] === 'DB';
+      if (isDebit) i++;
+      const balance = i < parts.length && AMOUNT.test(parts[i]) ? parseAmount(parts[i]) : null;
+
+      if (!amount) {
+        warnings.push({ line: index + 1, message: 'No amount found on transaction line', raw: line.trim() });
+        return;
+      }
+
+      lines.push({
+        sourceLine: index + 1,
+        date,
+        description: descParts.join(' '),
+        reference: branchCode,
+        debit: isDebit ? amount : 0,
+        credit: isDebit ? 0 : amount,
+        balance,
+      });
+    });
+
+    return finalizeOutput(lines, { warnings, metadata, usedContextYear: usedContextYear && lines.length > 0 });
+  },
+  fixture: {
+    format: 'pdf_text',
+    fileName: 'bca_fixture.pdf',
+    text: [
+      'REKENING TAHAPAN',
+      'NO. REKENING : 1234567890',
+      'PERIODE : NOVEMBER 2025',
+      '01/11 SALDO AWAL 10,000,000.00',
+      '03/11 TRSF E-BANKING CR 0000 5,000,000.00 15,000,000.00',
+      '05/11 BIAYA ADM 0000 15,000.00 DB 14,985,000.00',
+      'SALDO AKHIR 14,985,000.00',
+    ].join('\n'),
+  },
+};
@@ -0,0 +1,182 @@
+import {
+  cellText,
+  emptyMetadata,
+  finalizeOutput,
+  findColumn,
+  findHeaderRow,
+  isoDate,
+  parseAmount,
+  parseStatementDate,
+  rowText,
+} from './common';
+import type { ParsedStatementLine, ParseWarning, StatementCell, StatementParser, StatementSource } from './types';
+
+const INDONESIAN_MONTHS = ['', 'JANUARI', 'FEBRUARI', 'MARET', 'APRIL', 'MEI', 'JUNI', 'JULI', 'AGUSTUS', 'SEPTEMBER', 'OKTOBER', 'NOVEMBER', 'DESEMBER'];
+
+const isDateHeader = (cell: string) => cell.includes('tanggal') || cell === 'date' || cell.includes('tgl') || cell.includes('trans. date');
+
+const isGenericHeader = (cells: string[]) =>
+  cells.some(isDateHeader) &&
+  cells.some((c) => /keterangan|description|desc|mutasi|amount|saldo|balance/.test(c));
+
+const isBcaHeader = (cells: string[]) =>
+  cells.some((c) => c.includes('tanggal')) &&
+  cells.some((c) => c.includes('keterangan')) &&
+  cells.some((c) => c.includes('mutasi') || c.includes('saldo'));
+
+const detect = (source: StatementSource): number => {
+  const rows = source.rows || [];
+  if (findHeaderRow(rows, isBcaHeader) >= 0) return 0.9;
+  // Generic date / description / amount layouts fall back to this parser
+  if (findHeaderRow(rows, isGenericHeader) >= 0) return 0.3;
+  return 0;
+};
+
+const firstAmount = (row: StatementCell[]): number | null => {
+  for (const cell of row.slice(1)) {
+    const amount = parseAmount(cell);
+    if (amount !== null) return amount;
+  }
+  return null;
+};
+
+/**
+ * KlikBCA / myBCA "Mutasi Rekening" export: Tanggal | Keterangan | Cabang | Mutasi | DB/CR | Saldo,
+ * with dd/mm dates (the year comes from the "Periode" line or the caller) and a
+ * SALDO AWAL / MUTASI DEBET / MUTASI KREDIT / SALDO AKHIR footer.
+ * Also reads generic Date / Description / Debit / Credit / Balance sheets.
+ */
+export const bcaTabularParser: StatementParser = {
+  id: 'bca_tabular',
+  label: 'BCA (Excel / CSV) and generic tabular',
+  formats: ['csv', 'xlsx'],
+  detect,
+  parse: (source, context) => {
+    const rows = source.rows || [];
+    const metadata = emptyMetadata();
+    const warnings: ParseWarning[] = [];
+    const lines: ParsedStatementLine[] = [];
+    let year = context.year;
+    let periodYear = false;
+
+    for (let i = 0; i < Math.min(10, rows.length); i++) {
+      const text = rowText(rows[i]);
+      const periode = text.match(/Periode.*?(\d{2})\/(\d{2})\/(\d{4})\s*-\s*(\d{2})\/(\d{2})\/(\d{4})/i);
+      if (periode) {
+        year = +periode[3];
+        periodYear = true;
+        metadata.startDate = isoDate(+periode[3], +periode[2], +periode[1]);
+        metadata.endDate = isoDate(+periode[6], +periode[5], +periode[4]);
+        metadata.period = `${INDONESIAN_MONTHS[+periode[2]]} ${periode[3]}`;
+      }
+      const account = text.match(/No\.?\s*rekening\s*:?\s*\|?\s*([\d-]+)/i);
+      if (account) metadata.accountNumber = account[1].replace(/-/g, '');
+    }
+
+    const headerIdx = findHeaderRow(rows, isGenericHeader);
+    if (headerIdx === -1) {
+      warnings.push({ line: 0, message: 'Could not find the column header row (Tanggal / Keterangan / Mutasi / Saldo)' });
+      return finalizeOutput(lines, { warnings, metadata, usedContextYear: false });
+    }
+
+    const header = (rows[headerIdx] || []).map((c) => cellText(c).toLowerCase());
+    const dateCol = findColumn(header, isDateHeader);
+    const descCol = findColumn(header, (c) => /keterangan|description|desc/.test(c));
+    const branchCol = findColumn(header, (c) => c.includes('cabang') || c.includes('branch'));
+    const amountCol = findColumn(header, (c) => (c.includes('mutasi') || c === 'amount') && !/debe?t|kredit/.test(c));
+    const debitCol = findColumn(header, (c) => /debe?t|^db$|withdrawal/.test(c));
+    const creditCol = findColumn(header, (c) => /kredit|credit|^cr$|deposit/.test(c));
+    const balanceCol = findColumn(header, (c) => c.includes('saldo') || c.includes('balance'));
+    let usedContextYear = false;
+
+    for (let i = headerIdx + 1; i < rows.length; i++) {
+      const row = rows[i] || [];
+      const raw = rowText(row);
+      if (!raw) continue;
+
+      const leading = `${cellText(row[0])} ${cellText(row[1])}`.toUpperCase();
+      if (leading.includes('SALDO AWAL')) {
+        metadata.openingBalance = firstAmount(row);
+        continue;
+      }
+      if (/MUTASI (DEBET|DB|KREDIT|CR)|SALDO AKHIR/.test(leading)) {
+        // Footer block: read the totals and stop
+        for (const footer of rows.slice(i)) {
+          const label = cellText(footer?.[0]).toUpperCase();
+          const amount = firstAmount(footer || []);
+          if (/MUTASI (DEBET|DB)/.test(label)) metadata.totalDebits = amount;
+          else if (/MUTASI (KREDIT|CR)/.test(label)) metadata.totalCredits = amount;
+          else if (label.includes('SALDO AKHIR')) metadata.closingBalance = amount;
+          else if (label.includes('SALDO AWAL')) metadata.openingBalance = amount;
+        }
+        break;
+      }
+
+      const { date, usedFallbackYear } = parseStatementDate(row[dateCol], year);
+      if (!date) {
+        // BCA wraps long descriptions onto a dateless row; attach it to the previous line
+        const continuation = descCol >= 0 ? cellText(row[descCol]) : '';
+        if (continuation && lines.length > 0 && !cellText(row[dateCol])) {
+          lines[lines.length - 1].description += ` ${continuation}`;
+        } else {
+          warnings.push({ line: i + 1, message: `Unreadable date "${cellText(row[dateCol])}"`, raw });
+        }
+        continue;
+      }
+      if (usedFallbackYear && !periodYear) usedContextYear = true;
+
+      let debit = 0;
+      let credit = 0;
+      if (debitCol >= 0 && creditCol >= 0 && debitCol !== creditCol) {
+        debit = Math.abs(parseAmount(row[debitCol]) ?? 0);
+        credit = Math.abs(parseAmount(row[creditCol]) ?? 0);
+      } else if (amountCol >= 0) {
+        const amountText = cellText(row[amountCol]).toUpperCase();
+        const indicator = cellText(row[amountCol + 1]).toUpperCase();
+        const amount = parseAmount(amountText);
+        if (amount === null) {
+          warnings.push({ line: i + 1, message: `Unreadable amount "${cellText(row[amountCol])}"`, raw });
+          continue;
+        }
+        if (indicator === 'CR' || amountText.includes('CR')) credit = Math.abs(amount);
+        else if (indicator === 'DB' || amountText.includes('DB') || amount >= 0) debit = Math.abs(amount);
+        else credit = Math.abs(amount);
+      }
+
+      if (debit === 0 && credit === 0) {
+        warnings.push({ line: i + 1, message: 'Row has no debit or credit amount', raw });
+        continue;
+      }
+
+      const details = descCol >= 0 ? cellText(row[descCol + 1]) : '';
+      const detailsIsData = descCol + 1 === branchCol || descCol + 1 === amountCol || descCol + 1 === debitCol || descCol + 1 === balanceCol;
+      lines.push({
+        sourceLine: i + 1,
+        date,
+        description: descCol >= 0 ? cellText(row[descCol]) + (details && !detailsIsData ? `; ${details}` : '') : '',
+        reference: branchCol >= 0 ? cellText(row[branchCol]) : '',
+        debit,
+        credit,
+        balance: balanceCol >= 0 ? parseAmount(row[balanceCol]) : null,
+      });
+    }
+
+    return finalizeOutput(lines, { warnings, metadata, usedContextYear });
+  },
+  fixture: {
+    format: 'csv',
+    fileName: 'bca_fixture.csv',
+    rows: [
+      ['Informasi Rekening - Mutasi Rekening'],
+      ['No. rekening : 1234567890'],
+      ['Periode : 01/11/2025 - 30/11/2025'],
+      ['Tanggal Transaksi', 'Keterangan', 'Cabang', 'Jumlah Mutasi', '', 'Saldo'],
+      ['SALDO AWAL', '', '', '', '', '10,000,000.00'],
+      ['03/11', 'TRSF E-BANKING CR PT MAJU', '0000', '5,000,000.00', 'CR', '15,000,000.00'],
+      ['05/11', 'BIAYA ADM', '0000', '15,000.00', 'DB', '14,985,000.00'],
+      ['Mutasi Debet', '15,000.00'],
+      ['Mutasi Kredit', '5,000,000.00'],
+      ['Saldo Akhir', '14,985,000.00'],
+    ],
+  },
+};
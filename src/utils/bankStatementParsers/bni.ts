@@ -0,0 +1,65 @@
+import { cellText, emptyMetadata, finalizeOutput, findColumn, findHeaderRow, parseMappedRows, rowText } from './common';
+import type { StatementParser, StatementSource } from './types';
+
+const isBniHeader = (cells: string[]) =>
+  cells.some((c) => c === 'post date') && cells.some((c) => c.startsWith('journal'));
+
+const detect = (source: StatementSource) => (findHeaderRow(source.rows || [], isBniHeader) >= 0 ? 0.95 : 0);
+
+/**
+ * BNI Direct account statement export:
+ * Post Date | Value Date | Branch | Journal No. | Description | Debit | Credit | Balance
+ * Older exports carry a single Amount column with a Db/Cr flag instead of Debit / Credit.
+ */
+export const bniParser: StatementParser = {
+  id: 'bni_direct',
+  label: 'BNI Direct (CSV / Excel)',
+  formats: ['csv', 'xlsx'],
+  detect,
+  parse: (source, context) => {
+    const rows = source.rows || [];
+    const metadata = emptyMetadata();
+    const headerIdx = findHeaderRow(rows, isBniHeader);
+    if (headerIdx === -1) {
+      return finalizeOutput([], {
+        warnings: [{ line: 0, message: 'BNI header row (Post Date / Journal No.) not found' }],
+        metadata,
+        usedContextYear: false,
+      });
+    }
+
+    for (const row of rows.slice(0, headerIdx)) {
+      const account = rowText(row).match(/Account\s*(No\.?|Number)\s*:?\s*\|?\s*(\d+)/i);
+      if (account) metadata.accountNumber = account[2];
+    }
+
+    const header = (rows[headerIdx] || []).map((c) => cellText(c).toLowerCase());
+    const amountCol = findColumn(header, (c) => c === 'amount');
+    const { lines, warnings, usedContextYear } = parseMappedRows(
+      rows,
+      headerIdx,
+      {
+        date: findColumn(header, (c) => c === 'post date'),
+        description: [findColumn(header, (c) => c.startsWith('description'))],
+        reference: findColumn(header, (c) => c.startsWith('journal')),
+        balance: findColumn(header, (c) => c === 'balance'),
+        ...(amountCol >= 0
+          ? { amount: amountCol, indicator: findColumn(header, (c) => c === 'db/cr' || c === 'd/k') }
+          : { debit: findColumn(header, (c) => c === 'debit'), credit: findColumn(header, (c) => c === 'credit') }),
+      },
+      context.year
+    );
+
+    return finalizeOutput(lines, { warnings, metadata, usedContextYear });
+  },
+  fixture: {
+    format: 'csv',
+    fileName: 'bni_fixture.csv',
+    rows: [
+      ['Account No : 0123456789'],
+      ['Post Date', 'Value Date', 'Branch', 'Journal No.', 'Description', 'Amount', 'Db/Cr', 'Balance'],
+      ['03/11/2025 09:12:44', '03/11/2025', '0259', '889102', 'TRF PT MAJU JAYA', '5,000,000.00', 'C', '15,000,000.00'],
+      ['05/11/2025 23:59:00', '05/11/2025', '0259', '889311', 'BIAYA ADM', '10,000.00', 'D', '14,990,000.00'],
+    ],
+  },
+};
@@ -0,0 +1,140 @@
+import { emptyMetadata, finalizeOutput } from './common';
+import type { ParsedStatementLine, ParseWarning, StatementParser } from './types';
+
+// CAMT messages are namespaced by version (camt.053.001.02 ... .08); match on local names only
+const children = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const child = (parent: Element | Document | undefined, name: string): Element | undefined =>
+  parent ? children(parent, name)[0] : undefined;
+
+const textOf = (parent: Element | Document | undefined, ...path: string[]): string => {
+  let node: Element | Document | undefined = parent;
+  for (const name of path) node = child(node, name);
+  return node?.textContent?.trim() || '';
+};
+
+/** Booking / value dates are either <Dt>yyyy-mm-dd</Dt> or <DtTm>yyyy-mm-ddThh:mm:ss</DtTm> */
+const dateOf = (parent: Element | undefined) => (textOf(parent, 'Dt') || textOf(parent, 'DtTm')).slice(0, 10);
+
+const signedAmount = (element: Element) => {
+  const amount = parseFloat(textOf(element, 'Amt'));
+  return textOf(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+};
+
+/**
+ * ISO 20022 bank-to-customer statement (camt.053), as exported by the corporate portals.
+ * Opening balance is the OPBD (or PRCD) balance, closing is CLBD; entries keep the booking
+ * date, value date and the bank's AcctSvcrRef.
+ */
+export const camt053Parser: StatementParser = {
+  id: 'camt053',
+  label: 'ISO 20022 CAMT.053 (XML)',
+  formats: ['camt053'],
+  detect: (source) => (/<BkToCstmrStmt[\s>]/.test(source.text || '') ? 0.95 : 0),
+  parse: (source) => {
+    const metadata = emptyMetadata();
+    const warnings: ParseWarning[] = [];
+    const lines: ParsedStatementLine[] = [];
+
+    const xml = new DOMParser().parseFromString(source.text || '', 'application/xml');
+    if (xml.getElementsByTagName('parsererror').length > 0) {
+      warnings.push({ line: 0, message: 'File is not well-formed XML' });
+      return finalizeOutput(lines, { warnings, metadata, usedContextYear: false });
+    }
+
+    // Entries are numbered across the whole file so warnings and preview rows stay unique
+    let entryCount = 0;
+    children(xml, 'Stmt').forEach((statement, statementIdx) => {
+      const account = child(statement, 'Acct');
+      if (!metadata.accountNumber) {
+        metadata.accountNumber = textOf(account, 'Id', 'IBAN') || textOf(account, 'Id', 'Othr', 'Id');
+      }
+      if (!metadata.currency) metadata.currency = textOf(account, 'Ccy');
+
+      for (const balance of children(statement, 'Bal')) {
+        const code = textOf(balance, 'Tp', 'CdOrPrtry', 'Cd');
+        // Only the first statement's opening and the last statement's closing describe the file
+        if ((code === 'OPBD' || code === 'PRCD') && metadata.openingBalance === null) {
+          metadata.openingBalance = signedAmount(balance);
+          if (!metadata.currency) metadata.currency = child(balance, 'Amt')?.getAttribute('Ccy') || '';
+        }
+        if (code === 'CLBD') {
+          metadata.closingBalance = signedAmount(balance);
+          metadata.endDate = dateOf(child(balance, 'Dt'));
+        }
+      }
+
+      children(statement, 'Ntry').forEach((entry, entryIdx) => {
+        const line = ++entryCount;
+        const raw = `Stmt ${statementIdx + 1} / Ntry ${entryIdx + 1}`;
+        // <Sts>PDNG</Sts> up to v.07, <Sts><Cd>PDNG</Cd></Sts> from v.08
+        if (textOf(entry, 'Sts') === 'PDNG') {
+          warnings.push({ line, message: 'Pending entry skipped', raw });
+          return;
+        }
+
+        const amount = parseFloat(textOf(entry, 'Amt'));
+        const date = dateOf(child(entry, 'BookgDt')) || dateOf(child(entry, 'ValDt'));
+        if (!Number.isFinite(amount) || !date) {
+          warnings.push({ line, message: 'Entry has no readable amount or booking date', raw });
+          return;
+        }
+
+        // A reversal flips the direction of the original entry
+        const isReversal = textOf(entry, 'RvslInd') === 'true';
+        const isDebit = (textOf(entry, 'CdtDbtInd') === 'DBIT') !== isReversal;
+        const details = child(entry, 'TxDtls');
+        const counterparty = isDebit
+          ? textOf(details, 'RltdPties', 'Cdtr', 'Nm')
+          : textOf(details, 'RltdPties', 'Dbtr', 'Nm');
+        const endToEndId = textOf(details, 'Refs', 'EndToEndId');
+
+        lines.push({
+          sourceLine: line,
+          date,
+          valueDate: dateOf(child(entry, 'ValDt')) || undefined,
+          description: [textOf(entry, 'AddtlNtryInf') || textOf(details, 'RmtInf', 'Ustrd'), counterparty]
+            .filter(Boolean)
+            .join('; '),
+          reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : textOf(entry, 'AcctSvcrRef'),
+          bankReference: textOf(entry, 'AcctSvcrRef'),
+          debit: isDebit ? amount : 0,
+          credit: isDebit ? 0 : amount,
+          balance: null,
+        });
+      });
+    });
+
+    if (metadata.openingBalance !== null) {
+      let running = metadata.openingBalance;
+      for (const line of lines) {
+        running += line.credit - line.debit;
+        line.balance = Math.round(running * 100) / 100;
+      }
+    }
+
+    return finalizeOutput(lines, { warnings, metadata, usedContextYear: false });
+  },
+  fixture: {
+    format: 'camt053',
+    fileName: 'fixture.xml',
+    text: `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT251130</Id>
+      <Acct><Id><Othr><Id>1230009876543</Id></Othr></Id><Ccy>USD</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="USD">25000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-10-31</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="USD">24985.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-11-30</Dt></Dt></Bal>
+      <Ntry>
+        <Amt Ccy="USD">15.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-11-05</Dt></BookgDt><ValDt><Dt>2025-11-05</Dt></ValDt>
+        <AcctSvcrRef>FT2531000077</AcctSvcrRef>
+        <AddtlNtryInf>SWIFT CHARGES</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`,
+  },
+};
@@ -0,0 +1,232 @@
+import type { ParsedStatementLine, ParserOutput, ParseWarning, StatementCell, StatementMetadata } from './types';
+
+export const emptyMetadata = (): StatementMetadata => ({
+  period: '',
+  startDate: '',
+  endDate: '',
+  accountNumber: '',
+  currency: '',
+  openingBalance: null,
+  closingBalance: null,
+  totalDebits: null,
+  totalCredits: null,
+});
+
+export const cellText = (cell: StatementCell): string =>
+  cell === null || cell === undefined ? '' : String(cell).trim();
+
+export const rowText = (row: StatementCell[] | undefined): string =>
+  (row || []).map(cellText).filter(Boolean).join(' | ');
+
+/**
+ * Parses amounts in either Indonesian (1.234.567,89) or English (1,234,567.89) notation.
+ * The right-most separator is taken as the decimal separator. Returns null when no digits are present.
+ */
+export const parseAmount = (value: StatementCell): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = cellText(value);
+  if (!/\d/.test(text)) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text);
+  const cleaned = text.replace(/[^\d,.]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let normalized = cleaned;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    // A single comma followed by exactly 3 digits is a thousands separator (1,000), otherwise a decimal
+    const decimals = cleaned.length - lastComma - 1;
+    normalized = cleaned.split(',').length === 2 && decimals !== 3
+      ? cleaned.replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastDot >= 0 && cleaned.split('.').length > 2) {
+    normalized = cleaned.replace(/\./g, '');
+  } else if (lastDot >= 0 && cleaned.length - lastDot - 1 === 3 && cleaned.indexOf('.') === lastDot && lastDot > 0 && !cleaned.startsWith('0.')) {
+    // 1.000 (Indonesian thousands) rather than 1.000 as a three-decimal number
+    normalized = cleaned.replace('.', '');
+  }
+
+  const amount = parseFloat(normalized);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+export const isoDate = (year: number, month: number, day: number): string => {
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return '';
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return '';
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, mei: 5, jun: 6, jul: 7,
+  aug: 8, agu: 8, ags: 8, agt: 8, sep: 9, oct: 10, okt: 10, nov: 11, dec: 12, des: 12,
+};
+
+const expandYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+/**
+ * Reads a statement date cell: Excel serial numbers, yyyy-mm-dd, dd/mm/yy(yy), dd-MMM-yy(yy)
+ * and dd/mm (year taken from `fallbackYear`). Time suffixes are ignored.
+ */
+export const parseStatementDate = (
+  cell: StatementCell,
+  fallbackYear: number
+): { date: string; usedFallbackYear: boolean } => {
+  if (typeof cell === 'number') {
+    // Excel serial date (days since 1899-12-30)
+    const ms = Math.round((cell - 25569) * 86400 * 1000);
+    const d = new Date(ms);
+    return { date: isoDate(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()), usedFallbackYear: false };
+  }
+
+  const text = cellText(cell).split(/\s+/)[0];
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return { date: isoDate(+match[1], +match[2], +match[3]), usedFallbackYear: false };
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (match) return { date: isoDate(expandYear(+match[3]), +match[2], +match[1]), usedFallbackYear: false };
+
+  match = text.match(/^(\d{1,2})[-\s/]?([A-Za-z]{3})[A-Za-z]*[-\s/]?(\d{2,4})?$/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    const month = MONTHS[match[2].toLowerCase()];
+    if (match[3]) return { date: isoDate(expandYear(+match[3]), month, +match[1]), usedFallbackYear: false };
+    return { date: isoDate(fallbackYear, month, +match[1]), usedFallbackYear: true };
+  }
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (match) return { date: isoDate(fallbackYear, +match[2], +match[1]), usedFallbackYear: true };
+
+  return { date: '', usedFallbackYear: false };
+};
+
+/** Index of the first row (within `maxScan`) whose lower-cased cells satisfy `isHeader`. */
+export const findHeaderRow = (
+  rows: StatementCell[][],
+  isHeader: (cells: string[]) => boolean,
+  maxScan = 25
+): number => {
+  for (let i = 0; i < Math.min(maxScan, rows.length); i++) {
+    const cells = (rows[i] || []).map((c) => cellText(c).toLowerCase());
+    if (cells.some(Boolean) && isHeader(cells)) return i;
+  }
+  return -1;
+};
+
+export const findColumn = (header: string[], test: (cell: string) => boolean): number =>
+  header.findIndex((cell) => test(cell));
+
+/** Fills period dates and totals the statement did not print from the parsed lines. */
+export const finalizeOutput = (
+  lines: ParsedStatementLine[],
+  output: Omit<ParserOutput, 'lines'>
+): ParserOutput => {
+  const metadata = { ...output.metadata };
+  const dates = lines.map((l) => l.date).filter(Boolean).sort();
+
+  if (!metadata.startDate && dates.length > 0) metadata.startDate = dates[0];
+  if (!metadata.endDate && dates.length > 0) metadata.endDate = dates[dates.length - 1];
+  if (!metadata.period && metadata.startDate) {
+    const start = new Date(`${metadata.startDate}T00:00:00`);
+    metadata.period = start.toLocaleString('en-US', { month: 'long', year: 'numeric' }).toUpperCase();
+  }
+  if (metadata.totalDebits === null) metadata.totalDebits = lines.reduce((sum, l) => sum + l.debit, 0);
+  if (metadata.totalCredits === null) metadata.totalCredits = lines.reduce((sum, l) => sum + l.credit, 0);
+  if (metadata.closingBalance === null) {
+    const last = [...lines].reverse().find((l) => l.balance !== null);
+    metadata.closingBalance = last?.balance ?? null;
+  }
+
+  return { ...output, lines, metadata };
+};
+
+export interface ColumnMap {
+  date: number;
+  /** Joined with "; " in order, empty cells skipped */
+  description: number[];
+  reference: number;
+  balance: number;
+  /** Either separate debit / credit columns ... */
+  debit?: number;
+  credit?: number;
+  /** ... or a signed amount with an optional D/DB/C/CR indicator column */
+  amount?: number;
+  indicator?: number;
+}
+
+/**
+ * Reads the rows below a header row using a fixed column map. Rows that cannot be read
+ * become warnings instead of failing the file; rows with no content are skipped.
+ */
+export const parseMappedRows = (
+  rows: StatementCell[][],
+  headerIdx: number,
+  columns: ColumnMap,
+  year: number
+): { lines: ParsedStatementLine[]; warnings: ParseWarning[]; usedContextYear: boolean } => {
+  const lines: ParsedStatementLine[] = [];
+  const warnings: ParseWarning[] = [];
+  let usedContextYear = false;
+
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const row = rows[i] || [];
+    const raw = rowText(row);
+    if (!raw) continue;
+
+    const { date, usedFallbackYear } = parseStatementDate(row[columns.date], year);
+    if (!date) {
+      // Footer and summary rows have no date and no amounts; only flag rows that look like transactions
+      const hasAmount = [columns.debit, columns.credit, columns.amount].some(
+        (col) => col !== undefined && col >= 0 && parseAmount(row[col]) !== null
+      );
+      if (hasAmount && cellText(row[columns.date])) {
+        warnings.push({ line: i + 1, message: `Unreadable date "${cellText(row[columns.date])}"`, raw });
+      }
+      continue;
+    }
+    if (usedFallbackYear) usedContextYear = true;
+
+    let debit = 0;
+    let credit = 0;
+    if (columns.amount !== undefined && columns.amount >= 0) {
+      const amount = parseAmount(row[columns.amount]);
+      if (amount === null) {
+        warnings.push({ line: i + 1, message: `Unreadable amount "${cellText(row[columns.amount])}"`, raw });
+        continue;
+      }
+      const indicator = columns.indicator !== undefined && columns.indicator >= 0
+        ? cellText(row[columns.indicator]).toUpperCase()
+        : '';
+      const isCredit = indicator ? indicator.startsWith('C') || indicator === 'K' : amount > 0;
+      if (isCredit) credit = Math.abs(amount);
+      else debit = Math.abs(amount);
+    } else {
+      debit = Math.abs(parseAmount(row[columns.debit ?? -1]) ?? 0);
+      credit = Math.abs(parseAmount(row[columns.credit ?? -1]) ?? 0);
+    }
+
+    if (debit === 0 && credit === 0) {
+      warnings.push({ line: i + 1, message: 'Row has no debit or credit amount', raw });
+      continue;
+    }
+    if (debit > 0 && credit > 0) {
+      warnings.push({ line: i + 1, message: 'Row has both a debit and a credit amount; imported as two-sided', raw });
+    }
+
+    lines.push({
+      sourceLine: i + 1,
+      date,
+      description: columns.description.map((col) => cellText(row[col])).filter(Boolean).join('; '),
+      reference: columns.reference >= 0 ? cellText(row[columns.reference]) : '',
+      debit,
+      credit,
+      balance: columns.balance >= 0 ? parseAmount(row[columns.balance]) : null,
+    });
+  }
+
+  return { lines, warnings, usedContextYear };
+};
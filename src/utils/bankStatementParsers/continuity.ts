@@ -0,0 +1,100 @@
+import type { ParsedStatementLine, StatementMetadata } from './types';
+
+/** Result of the `check_bank_statement_continuity` RPC */
+export interface StatementContinuity {
+  expected_opening_balance: number | null;
+  opening_source: 'previous_statement' | 'account_opening_balance' | null;
+  previous_period: string | null;
+  previous_end_date: string | null;
+  overlaps: { id: string; statement_period: string; statement_start_date: string; statement_end_date: string }[];
+}
+
+export interface ContinuityIssue {
+  /** Errors must be acknowledged before the statement can be imported */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const TOLERANCE = 0.005;
+
+const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE;
+
+const fmt = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Checks a parsed statement against itself (opening + movements = closing, running balances)
+ * and against what is already on file for the account (previous closing balance or the
+ * account's opening balance, and date overlaps with earlier uploads).
+ */
+export const evaluateContinuity = (
+  metadata: StatementMetadata,
+  lines: ParsedStatementLine[],
+  continuity: StatementContinuity | null,
+  accountCurrency: string
+): ContinuityIssue[] => {
+  const issues: ContinuityIssue[] = [];
+
+  if (metadata.currency && accountCurrency && metadata.currency !== accountCurrency) {
+    issues.push({
+      severity: 'error',
+      message: `Statement is in ${metadata.currency} but the bank account is ${accountCurrency}`,
+    });
+  }
+
+  const { openingBalance, closingBalance } = metadata;
+  const movement = lines.reduce((sum, l) => sum + l.credit - l.debit, 0);
+
+  if (openingBalance !== null && closingBalance !== null && differs(openingBalance + movement, closingBalance)) {
+    issues.push({
+      severity: 'error',
+      message: `Opening ${fmt(openingBalance)} + movements ${fmt(movement)} = ${fmt(openingBalance + movement)}, but the statement closes at ${fmt(closingBalance)} (lines missing from the file?)`,
+    });
+  }
+
+  let running = openingBalance;
+  const brokenLines: number[] = [];
+  for (const line of lines) {
+    if (running !== null && line.balance !== null && differs(running + line.credit - line.debit, line.balance)) {
+      brokenLines.push(line.sourceLine);
+    }
+    running = line.balance ?? (running === null ? null : running + line.credit - line.debit);
+  }
+  if (brokenLines.length > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `Running balance does not follow from the previous line at line(s) ${brokenLines.slice(0, 10).join(', ')}${brokenLines.length > 10 ? ', ...' : ''}`,
+    });
+  }
+
+  if (!continuity) return issues;
+
+  for (const overlap of continuity.overlaps) {
+    issues.push({
+      severity: 'error',
+      message: `Overlaps the ${overlap.statement_period} statement already imported (${overlap.statement_start_date} to ${overlap.statement_end_date})`,
+    });
+  }
+
+  if (openingBalance === null) {
+    issues.push({ severity: 'warning', message: 'Statement has no opening balance, so continuity with the previous statement cannot be checked' });
+  } else if (continuity.expected_opening_balance !== null && differs(openingBalance, continuity.expected_opening_balance)) {
+    const source = continuity.opening_source === 'previous_statement'
+      ? `the ${continuity.previous_period} statement closed at`
+      : 'the bank account opening balance is';
+    const gap = continuity.previous_end_date && metadata.startDate && metadata.startDate > addDays(continuity.previous_end_date, 1)
+      ? ` No statement covers ${addDays(continuity.previous_end_date, 1)} to ${addDays(metadata.startDate, -1)}.`
+      : '';
+    issues.push({
+      severity: 'error',
+      message: `Statement opens at ${fmt(openingBalance)} but ${source} ${fmt(continuity.expected_opening_balance)}.${gap}`,
+    });
+  }
+
+  return issues;
+};
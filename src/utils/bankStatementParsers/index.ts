@@ -0,0 +1,6 @@
+export * from './types';
+export { parseAmount, parseStatementDate } from './common';
+export { statementParsers, getStatementParser, rankStatementParsers, parseStatement, checkParserFixtures } from './registry';
+export { readStatementFile, parseCSVRows } from './source';
+export { evaluateContinuity } from './continuity';
+export type { ContinuityIssue, StatementContinuity } from './continuity';
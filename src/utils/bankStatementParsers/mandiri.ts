@@ -0,0 +1,61 @@
+import { cellText, emptyMetadata, finalizeOutput, findColumn, findHeaderRow, parseMappedRows } from './common';
+import type { StatementParser, StatementSource } from './types';
+
+const isMandiriHeader = (cells: string[]) =>
+  cells.some((c) => c === 'account no' || c === 'account no.') &&
+  cells.some((c) => c.startsWith('val')) &&
+  cells.some((c) => c.startsWith('reference'));
+
+const detect = (source: StatementSource) => (findHeaderRow(source.rows || [], isMandiriHeader) >= 0 ? 0.95 : 0);
+
+/**
+ * Mandiri Cash Management (MCM) account statement export:
+ * Account No | Date | Val. Date | Transaction Code | Description | Description | Reference No. | Debit | Credit
+ * Dates are dd/mm/yy; descriptions are split over two columns.
+ */
+export const mandiriParser: StatementParser = {
+  id: 'mandiri_mcm',
+  label: 'Mandiri Cash Management (CSV / Excel)',
+  formats: ['csv', 'xlsx'],
+  detect,
+  parse: (source, context) => {
+    const rows = source.rows || [];
+    const metadata = emptyMetadata();
+    const headerIdx = findHeaderRow(rows, isMandiriHeader);
+    if (headerIdx === -1) {
+      return finalizeOutput([], {
+        warnings: [{ line: 0, message: 'Mandiri header row (Account No / Date / Val. Date / Reference No.) not found' }],
+        metadata,
+        usedContextYear: false,
+      });
+    }
+
+    const header = (rows[headerIdx] || []).map((c) => cellText(c).toLowerCase());
+    const accountCol = findColumn(header, (c) => c.startsWith('account no'));
+    const { lines, warnings, usedContextYear } = parseMappedRows(
+      rows,
+      headerIdx,
+      {
+        date: findColumn(header, (c) => c === 'date' || c === 'post date'),
+        description: header.map((c, idx) => (c.startsWith('description') ? idx : -1)).filter((idx) => idx >= 0),
+        reference: findColumn(header, (c) => c.startsWith('reference')),
+        debit: findColumn(header, (c) => c === 'debit'),
+        credit: findColumn(header, (c) => c === 'credit'),
+        balance: findColumn(header, (c) => c === 'balance' || c === 'saldo'),
+      },
+      context.year
+    );
+
+    metadata.accountNumber = accountCol >= 0 ? cellText(rows[headerIdx + 1]?.[accountCol]) : '';
+    return finalizeOutput(lines, { warnings, metadata, usedContextYear });
+  },
+  fixture: {
+    format: 'csv',
+    fileName: 'mandiri_fixture.csv',
+    rows: [
+      ['Account No', 'Date', 'Val. Date', 'Transaction Code', 'Description', 'Description', 'Reference No.', 'Debit', 'Credit'],
+      ['1230001234567', '03/11/25', '03/11/25', '7001', 'INWARD TRANSFER', 'PT MAJU JAYA', 'FT2531100001', '.00', '5,000,000.00'],
+      ['1230001234567', '05/11/25', '05/11/25', '8888', 'BIAYA ADM', '', '', '12,500.00', '.00'],
+    ],
+  },
+};
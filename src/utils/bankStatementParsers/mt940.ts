@@ -0,0 +1,146 @@
+import { emptyMetadata, finalizeOutput, isoDate } from './common';
+import type { ParsedStatementLine, ParseWarning, StatementParser } from './types';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+  line: number;
+}
+
+/** MT940 amounts use a comma as the decimal separator and no thousands separator */
+const mt940Amount = (value: string) => parseFloat(value.replace(',', '.'));
+
+const mt940Date = (yymmdd: string) => isoDate(2000 + +yymmdd.slice(0, 2), +yymmdd.slice(2, 4), +yymmdd.slice(4, 6));
+
+/** Booking date (MMDD) takes its year from the value date, allowing for a year end in between */
+const entryDate = (valueDate: string, mmdd: string) => {
+  const valueYear = +valueDate.slice(0, 4);
+  const valueMonth = +valueDate.slice(5, 7);
+  const month = +mmdd.slice(0, 2);
+  const year = month === 12 && valueMonth === 1 ? valueYear - 1 : month === 1 && valueMonth === 12 ? valueYear + 1 : valueYear;
+  return isoDate(year, month, +mmdd.slice(2, 4));
+};
+
+/** Splits the message into :tag: fields, folding continuation lines into the preceding field */
+const readFields = (text: string): Mt940Field[] => {
+  const fields: Mt940Field[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/^\{\d:[^}]*\}?/, '').trimEnd();
+    if (!line || line === '-}' || line === '-') return;
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) fields.push({ tag: tagged[1], value: tagged[2], line: index + 1 });
+    else if (fields.length > 0) fields[fields.length - 1].value += `\n${line}`;
+  });
+  return fields;
+};
+
+const BALANCE = /^([DC])(\d{6})([A-Z]{3})([\d,]+)$/;
+// value date, optional entry date (MMDD), [R]D/C mark, optional funds code, amount, transaction type, customer ref [//bank ref]
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(R?[DC])([A-Z])?([\d,]+)([NSF][A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?/;
+
+/**
+ * SWIFT MT940 customer statement (.sta / .940), as exported by the corporate portals
+ * (Mandiri MCM, BNI Direct, BCA KlikBCA Bisnis). One file may hold several statements.
+ */
+export const mt940Parser: StatementParser = {
+  id: 'mt940',
+  label: 'SWIFT MT940',
+  formats: ['mt940'],
+  detect: (source) => {
+    const text = source.text || '';
+    return /:20:/.test(text) && /:6[02][FM]:/.test(text) ? 0.95 : 0;
+  },
+  parse: (source) => {
+    const metadata = emptyMetadata();
+    const warnings: ParseWarning[] = [];
+    const lines: ParsedStatementLine[] = [];
+
+    for (const field of readFields(source.text || '')) {
+      switch (field.tag) {
+        case '25':
+          if (!metadata.accountNumber) metadata.accountNumber = field.value.split('/').pop()?.trim() || '';
+          break;
+        case '60F':
+        case '60M': {
+          const balance = field.value.match(BALANCE);
+          // Only the first opening balance of the file is the statement's opening balance. Its date
+          // is the previous closing date, so the period start comes from the first :61: line instead
+          if (balance && metadata.openingBalance === null) {
+            metadata.openingBalance = (balance[1] === 'D' ? -1 : 1) * mt940Amount(balance[4]);
+            metadata.currency = balance[3];
+          }
+          break;
+        }
+        case '62F':
+        case '62M': {
+          const balance = field.value.match(BALANCE);
+          if (balance) {
+            metadata.closingBalance = (balance[1] === 'D' ? -1 : 1) * mt940Amount(balance[4]);
+            metadata.endDate = mt940Date(balance[2]);
+          } else {
+            warnings.push({ line: field.line, message: 'Unreadable closing balance', raw: field.value });
+          }
+          break;
+        }
+        case '61': {
+          const match = field.value.match(STATEMENT_LINE);
+          const valueDate = match ? mt940Date(match[1]) : '';
+          const date = match?.[2] && valueDate ? entryDate(valueDate, match[2]) : valueDate;
+          if (!match || !date) {
+            warnings.push({ line: field.line, message: 'Unreadable :61: statement line', raw: field.value });
+            break;
+          }
+          const amount = mt940Amount(match[5]);
+          // RD (reversal of a debit) is money in, RC (reversal of a credit) is money out
+          const isDebit = match[3] === 'D' || match[3] === 'RC';
+          const customerRef = match[7].trim();
+          const bankReference = (match[8] || '').trim();
+          lines.push({
+            sourceLine: field.line,
+            date,
+            valueDate,
+            description: '',
+            reference: customerRef === 'NONREF' ? bankReference : customerRef,
+            bankReference,
+            debit: isDebit ? amount : 0,
+            credit: isDebit ? 0 : amount,
+            balance: null,
+          });
+          break;
+        }
+        case '86':
+          if (lines.length > 0 && !lines[lines.length - 1].description) {
+            lines[lines.length - 1].description = field.value.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+          }
+          break;
+      }
+    }
+
+    // Running balance is not part of MT940; derive it from the opening balance
+    if (metadata.openingBalance !== null) {
+      let running = metadata.openingBalance;
+      for (const line of lines) {
+        running += line.credit - line.debit;
+        line.balance = Math.round(running * 100) / 100;
+      }
+    }
+
+    return finalizeOutput(lines, { warnings, metadata, usedContextYear: false });
+  },
+  fixture: {
+    format: 'mt940',
+    fileName: 'fixture.sta',
+    text: [
+      ':20:STMT251130',
+      ':25:1230001234567',
+      ':28C:00001/001',
+      ':60F:C251031IDR10000000,00',
+      ':61:2511031103C5000000,00NTRFNONREF//FT2531100001',
+      ':86:INWARD TRANSFER PT MAJU JAYA',
+      ':61:2511051105D12500,00NCHGNONREF',
+      ':86:BIAYA ADM',
+      ':62F:C251130IDR14987500,00',
+      '-',
+    ].join('\n'),
+  },
+};
@@ -0,0 +1,90 @@
+import { bcaPdfParser } from './bcaPdf';
+import { bcaTabularParser } from './bcaTabular';
+import { bniParser } from './bni';
+import { camt053Parser } from './camt053';
+import { mandiriParser } from './mandiri';
+import { mt940Parser } from './mt940';
+import type { ParseContext, StatementParser, StatementParseResult, StatementSource } from './types';
+
+/** Every statement layout the upload flow understands. Add new banks here. */
+export const statementParsers: StatementParser[] = [
+  bcaPdfParser,
+  bcaTabularParser,
+  mandiriParser,
+  bniParser,
+  mt940Parser,
+  camt053Parser,
+];
+
+export const getStatementParser = (id: string | null | undefined): StatementParser | undefined =>
+  statementParsers.find((parser) => parser.id === id);
+
+/** Parsers that can read the source, best match first */
+export const rankStatementParsers = (source: StatementSource): StatementParser[] =>
+  statementParsers
+    .filter((parser) => parser.formats.includes(source.format))
+    .map((parser) => ({ parser, score: parser.detect(source) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ parser }) => parser);
+
+/**
+ * Parses a statement with the bank account's assigned parser, or the best detected one.
+ * An assigned parser that does not recognise the file is reported as a warning and
+ * auto-detection takes over. Throws only when no parser can read the file at all.
+ */
+export const parseStatement = (
+  source: StatementSource,
+  context: ParseContext,
+  preferredParserId?: string | null
+): StatementParseResult => {
+  const ranked = rankStatementParsers(source);
+  const preferred = getStatementParser(preferredParserId);
+  const notices: StatementParseResult['warnings'] = [];
+
+  let parser = ranked[0];
+  if (preferred) {
+    if (preferred.formats.includes(source.format) && preferred.detect(source) > 0) {
+      parser = preferred;
+    } else if (ranked[0]) {
+      notices.push({
+        line: 0,
+        message: `File does not look like "${preferred.label}" (the account's statement format); read as "${ranked[0].label}" instead`,
+      });
+    }
+  }
+
+  if (!parser) {
+    throw new Error(`Unrecognised statement layout in ${source.fileName}. Check the file or assign a statement format to the bank account.`);
+  }
+
+  const output = parser.parse(source, context);
+  return { ...output, warnings: [...notices, ...output.warnings], parser };
+};
+
+/**
+ * Runs every parser against its own fixture. Used in development so a broken
+ * parser shows up in the console instead of on a user's upload.
+ */
+export const checkParserFixtures = (): string[] => {
+  const failures: string[] = [];
+  for (const parser of statementParsers) {
+    try {
+      if (rankStatementParsers(parser.fixture)[0]?.id !== parser.id) {
+        failures.push(`${parser.id}: fixture is not detected as ${parser.id}`);
+        continue;
+      }
+      const output = parser.parse(parser.fixture, { year: 2025 });
+      if (output.lines.length === 0) failures.push(`${parser.id}: fixture produced no lines`);
+      if (output.warnings.length > 0) failures.push(`${parser.id}: fixture produced warnings: ${output.warnings.map((w) => w.message).join('; ')}`);
+    } catch (error) {
+      failures.push(`${parser.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return failures;
+};
+
+if (import.meta.env.DEV) {
+  const failures = checkParserFixtures();
+  if (failures.length > 0) console.warn('Bank statement parser fixtures failed:', failures);
+}
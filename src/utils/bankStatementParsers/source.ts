@@ -0,0 +1,100 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '../../lib/supabase';
+import type { StatementCell, StatementSource } from './types';
+
+const splitCSVLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+};
+
+/** Splits CSV text into rows, keeping quoted line breaks and auto-detecting , ; or tab delimiters */
+export const parseCSVRows = (text: string): StatementCell[][] => {
+  const sample = text.split('\n').slice(0, 10).join('\n');
+  const counts: [string, number][] = [',', ';', '\t'].map((d) => [d, sample.split(d).length - 1]);
+  const delimiter = counts.sort((a, b) => b[1] - a[1])[0][0];
+
+  const rows: StatementCell[][] = [];
+  let currentLine = '';
+  let inQuotes = false;
+  for (const char of text.replace(/^\uFEFF/, '')) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === '\n' && !inQuotes) {
+      rows.push(currentLine.trim() ? splitCSVLine(currentLine, delimiter) : []);
+      currentLine = '';
+    } else if (char !== '\r') {
+      currentLine += char;
+    }
+  }
+  if (currentLine.trim()) rows.push(splitCSVLine(currentLine, delimiter));
+  return rows;
+};
+
+/** Pulls the text layer out of a PDF statement via the extract-statement-text edge function */
+const extractPdfText = async (file: File): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/extract-statement-text`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.access_token}` },
+    body: formData,
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to read PDF');
+  if (!result.text?.trim()) throw new Error('The PDF has no text layer (scanned statements are not supported)');
+  return result.text;
+};
+
+/** Reads an uploaded statement file into the shape the parsers work on, based on extension and content */
+export const readStatementFile = async (file: File): Promise<StatementSource> => {
+  const name = file.name.toLowerCase();
+  const fileName = file.name;
+
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) {
+    return { format: 'pdf_text', fileName, text: await extractPdfText(file) };
+  }
+
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<StatementCell[]>(worksheet, { header: 1, raw: true, defval: '' });
+    return { format: 'xlsx', fileName, rows };
+  }
+
+  const text = await file.text();
+  if (name.endsWith('.xml')) {
+    return { format: 'camt053', fileName, text };
+  }
+  if (/\.(sta|940|mt940)$/.test(name) || (/^:20:/m.test(text) && /^:61:/m.test(text))) {
+    return { format: 'mt940', fileName, text };
+  }
+  if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    return { format: 'csv', fileName, rows: parseCSVRows(text) };
+  }
+
+  throw new Error(`Unsupported statement file type: ${file.name}`);
+};
@@ -0,0 +1,76 @@
+export type StatementFormat = 'pdf_text' | 'csv' | 'xlsx' | 'mt940' | 'camt053';
+
+export type StatementCell = string | number | boolean | null | undefined;
+
+/**
+ * A statement file after it has been read: spreadsheet formats arrive as rows,
+ * PDF (extracted text), MT940 and CAMT.053 (XML) arrive as text.
+ */
+export interface StatementSource {
+  format: StatementFormat;
+  fileName: string;
+  text?: string;
+  rows?: StatementCell[][];
+}
+
+export interface ParsedStatementLine {
+  /** 1-based row / line number in the source, used to point warnings back at the file */
+  sourceLine: number;
+  date: string;
+  description: string;
+  reference: string;
+  debit: number;
+  credit: number;
+  balance: number | null;
+  /** Value date, when the format distinguishes it from the booking date (MT940, CAMT.053) */
+  valueDate?: string;
+  /** Bank's own transaction reference (MT940 `//` reference, CAMT.053 AcctSvcrRef) */
+  bankReference?: string;
+}
+
+export interface ParseWarning {
+  line: number;
+  message: string;
+  raw?: string;
+}
+
+export interface StatementMetadata {
+  period: string;
+  startDate: string;
+  endDate: string;
+  accountNumber: string;
+  /** ISO currency printed on the statement; '' when the layout does not state it */
+  currency: string;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  totalDebits: number | null;
+  totalCredits: number | null;
+}
+
+export interface ParseContext {
+  /** Year for layouts that print dates without one (dd/mm) */
+  year: number;
+}
+
+export interface ParserOutput {
+  lines: ParsedStatementLine[];
+  warnings: ParseWarning[];
+  metadata: StatementMetadata;
+  /** True when the dates carried no year and `context.year` was used */
+  usedContextYear: boolean;
+}
+
+export interface StatementParser {
+  id: string;
+  label: string;
+  formats: StatementFormat[];
+  /** Confidence 0..1 that the source is in this parser's layout; 0 = cannot read it */
+  detect: (source: StatementSource) => number;
+  parse: (source: StatementSource, context: ParseContext) => ParserOutput;
+  /** Minimal sample of the layout; every parser must detect and parse its own fixture cleanly */
+  fixture: StatementSource;
+}
+
+export interface StatementParseResult extends ParserOutput {
+  parser: StatementParser;
+}
@@ -0,0 +1,80 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Customer credit control. Exposure is worked out by get_customer_credit_status() in the
+ * database; the trigger on sales_orders refuses approval while the check has not passed.
+ */
+
+export type CreditControlMode = 'approval' | 'block';
+
+export type CustomerCreditState = 'ok' | 'over_limit' | 'overdue' | 'on_hold';
+
+export type SalesOrderCreditStatus = CustomerCreditState | 'pending_approval' | 'approved' | 'rejected';
+
+export interface CustomerCreditStatus {
+  credit_limit: number | null;
+  open_invoices: number;
+  uninvoiced_deliveries: number;
+  open_orders: number;
+  order_amount: number;
+  exposure: number;
+  available_credit: number | null;
+  overdue_amount: number;
+  max_days_overdue: number;
+  overdue_threshold_days: number | null;
+  credit_control_mode: CreditControlMode;
+  credit_hold: boolean;
+  credit_hold_reason: string | null;
+  status: CustomerCreditState;
+}
+
+/**
+ * Exposure in IDR for a customer. Pass the order being approved to count it in full and leave it
+ * out of the open-orders figure.
+ */
+export async function fetchCustomerCredit(
+  customerId: string,
+  salesOrderId?: string
+): Promise<CustomerCreditStatus | null> {
+  const { data, error } = await supabase.rpc('get_customer_credit_status', {
+    p_customer_id: customerId,
+    p_sales_order_id: salesOrderId ?? null,
+  });
+  if (error) {
+    console.error('Error loading customer credit status:', error);
+    return null;
+  }
+  const row = (data as CustomerCreditStatus[] | null)?.[0];
+  if (!row) return null;
+  return {
+    ...row,
+    credit_limit: row.credit_limit === null ? null : Number(row.credit_limit),
+    open_invoices: Number(row.open_invoices),
+    uninvoiced_deliveries: Number(row.uninvoiced_deliveries),
+    open_orders: Number(row.open_orders),
+    order_amount: Number(row.order_amount),
+    exposure: Number(row.exposure),
+    available_credit: row.available_credit === null ? null : Number(row.available_credit),
+    overdue_amount: Number(row.overdue_amount),
+  };
+}
+
+// Reason the order cannot be approved as-is, or null when the customer is within terms
+export const describeCreditBreach = (credit: CustomerCreditStatus | null): string | null => {
+  if (!credit || credit.status === 'ok') return null;
+  if (credit.status === 'on_hold') {
+    return `Customer is on credit hold${credit.credit_hold_reason ? `: ${credit.credit_hold_reason}` : ''}`;
+  }
+  if (credit.status === 'over_limit') {
+    return `Exposure exceeds the credit limit by Rp ${Math.abs(credit.available_credit || 0).toLocaleString('id-ID', { maximumFractionDigits: 0 })}`;
+  }
+  return `Oldest unpaid invoice is ${credit.max_days_overdue} days overdue (limit ${credit.overdue_threshold_days})`;
+};
+
+// "Net 30 days" -> 30; cash and advance terms are due immediately
+export const paymentTermsToDays = (terms: string): number | null => {
+  const net = terms.match(/net\s+(\d+)/i);
+  if (net) return parseInt(net[1], 10);
+  if (/cash|receipt|advance/i.test(terms)) return 0;
+  return null;
+};
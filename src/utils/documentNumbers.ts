@@ -0,0 +1,23 @@
+import { supabase } from '../lib/supabase';
+
+export type DocumentType =
+  | 'sales_invoice'
+  | 'delivery_challan'
+  | 'credit_note'
+  | 'material_return'
+  | 'purchase_order'
+  | 'receipt_voucher'
+  | 'payment_voucher';
+
+/**
+ * Preview of the next number for a document type. The real number is assigned by the
+ * database when the document is inserted, so the preview can change if someone else saves first.
+ */
+export async function previewDocumentNumber(docType: DocumentType): Promise<string> {
+  const { data, error } = await supabase.rpc('peek_document_number', { p_doc_type: docType });
+  if (error) {
+    console.error('Error previewing document number:', error);
+    return '';
+  }
+  return data as string;
+}
@@ -0,0 +1,405 @@
+/**
+ * e-Faktur (DJP Coretax) export helpers
+ * Builds the Coretax TaxInvoiceBulk XML for output PPN and CSV files for output / input PPN,
+ * and validates the fields Coretax rejects on import.
+ */
+
+export interface EFakturOutputLine {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  faktur_pajak_number: string | null;
+  invoice_dpp: number;
+  invoice_ppn: number;
+  customer_name: string | null;
+  customer_npwp: string | null;
+  customer_nik: string | null;
+  customer_nitku: string | null;
+  customer_address: string | null;
+  customer_city: string | null;
+  item_id: string | null;
+  product_code: string | null;
+  product_name: string | null;
+  unit: string | null;
+  quantity: number | null;
+  unit_price: number | null;
+  tax_rate: number | null;
+  line_dpp: number | null;
+  line_ppn: number | null;
+}
+
+export interface EFakturInputInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  faktur_pajak_number: string | null;
+  currency: string;
+  exchange_rate: number;
+  dpp_idr: number;
+  ppn_idr: number;
+  supplier_name: string;
+  supplier_npwp: string | null;
+  supplier_nitku: string | null;
+}
+
+export interface EFakturSeller {
+  npwp: string | null;
+  nitku: string | null;
+}
+
+export interface EFakturBuyer {
+  tin: string;
+  document: 'TIN' | 'National ID';
+  documentNumber: string;
+  idtku: string;
+}
+
+export interface EFakturOutputInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  faktur_pajak_number: string | null;
+  invoice_ppn: number;
+  customer_name: string;
+  customer_npwp: string | null;
+  customer_nik: string | null;
+  customer_nitku: string | null;
+  customer_address: string;
+  lines: EFakturOutputLine[];
+}
+
+export interface EFakturRejection {
+  kind: 'output' | 'input';
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  party: string;
+  reasons: string[];
+}
+
+// Transaction code 04: DPP Nilai Lain (DPP x 11/12 at the 12% rate), used for regular domestic sales
+export const EFAKTUR_TRX_CODE = '04';
+export const EFAKTUR_VAT_RATE = 12;
+
+const GOODS_CODE_GENERAL = '000000';
+const EMPTY_TIN = '0000000000000000';
+const HEAD_OFFICE_SUFFIX = '000000';
+
+// Coretax unit of measure codes; anything unmapped is sent as "Lainnya"
+const UNIT_CODES: Record<string, string> = {
+  ton: 'UM.0001',
+  kg: 'UM.0003',
+  litre: 'UM.0007',
+};
+const UNIT_CODE_OTHER = 'UM.0033';
+
+const digitsOnly = (value: string | null | undefined) => (value || '').replace(/\D/g, '');
+
+/**
+ * Returns the 16-digit NPWP, converting the old 15-digit format by prefixing a zero.
+ * Returns null when the value is empty or not a valid NPWP.
+ */
+export const normalizeNpwp = (value: string | null | undefined): string | null => {
+  const digits = digitsOnly(value);
+  if (digits.length === 15) return `0${digits}`;
+  if (digits.length === 16) return digits;
+  return null;
+};
+
+const isValidNitku = (value: string | null | undefined) => digitsOnly(value).length === 22;
+
+const isValidFakturSerial = (value: string | null | undefined) => {
+  const length = digitsOnly(value).length;
+  return length === 16 || length === 17;
+};
+
+export const resolveBuyer = (invoice: EFakturOutputInvoice): EFakturBuyer | null => {
+  const npwp = normalizeNpwp(invoice.customer_npwp);
+  if (npwp) {
+    return {
+      tin: npwp,
+      document: 'TIN',
+      documentNumber: '-',
+      idtku: digitsOnly(invoice.customer_nitku) || `${npwp}${HEAD_OFFICE_SUFFIX}`,
+    };
+  }
+
+  const nik = digitsOnly(invoice.customer_nik);
+  if (nik.length === 16) {
+    return {
+      tin: EMPTY_TIN,
+      document: 'National ID',
+      documentNumber: nik,
+      idtku: HEAD_OFFICE_SUFFIX,
+    };
+  }
+
+  return null;
+};
+
+export const groupOutputLines = (rows: EFakturOutputLine[]): EFakturOutputInvoice[] => {
+  const invoices = new Map<string, EFakturOutputInvoice>();
+
+  rows.forEach((row) => {
+    let invoice = invoices.get(row.invoice_id);
+    if (!invoice) {
+      invoice = {
+        invoice_id: row.invoice_id,
+        invoice_number: row.invoice_number,
+        invoice_date: row.invoice_date,
+        faktur_pajak_number: row.faktur_pajak_number,
+        invoice_ppn: Number(row.invoice_ppn) || 0,
+        customer_name: row.customer_name || '',
+        customer_npwp: row.customer_npwp,
+        customer_nik: row.customer_nik,
+        customer_nitku: row.customer_nitku,
+        customer_address: [row.customer_address, row.customer_city].filter(Boolean).join(', '),
+        lines: [],
+      };
+      invoices.set(row.invoice_id, invoice);
+    }
+    if (row.item_id) invoice.lines.push(row);
+  });
+
+  return Array.from(invoices.values()).sort((a, b) =>
+    a.invoice_date === b.invoice_date
+      ? a.invoice_number.localeCompare(b.invoice_number)
+      : a.invoice_date.localeCompare(b.invoice_date)
+  );
+};
+
+export const validateSeller = (seller: EFakturSeller): string[] => {
+  const reasons: string[] = [];
+  if (!seller.npwp) {
+    reasons.push('Company NPWP is not set (Settings > Company)');
+  } else if (!normalizeNpwp(seller.npwp)) {
+    reasons.push('Company NPWP must be 15 or 16 digits');
+  }
+  if (seller.nitku && !isValidNitku(seller.nitku)) {
+    reasons.push('Company NITKU must be 22 digits');
+  }
+  return reasons;
+};
+
+export const validateOutputInvoice = (invoice: EFakturOutputInvoice): string[] => {
+  const reasons: string[] = [];
+
+  if (!invoice.customer_npwp && !invoice.customer_nik) {
+    reasons.push('Customer has no NPWP or NIK');
+  } else if (!resolveBuyer(invoice)) {
+    reasons.push(invoice.customer_npwp
+      ? 'Customer NPWP must be 15 or 16 digits'
+      : 'Customer NIK must be 16 digits');
+  }
+  if (invoice.customer_nitku && !isValidNitku(invoice.customer_nitku)) {
+    reasons.push('Customer NITKU must be 22 digits');
+  }
+  if (!invoice.customer_name.trim()) reasons.push('Customer name is missing');
+  if (!invoice.customer_address.trim()) reasons.push('Customer address is missing');
+  if (invoice.faktur_pajak_number && !isValidFakturSerial(invoice.faktur_pajak_number)) {
+    reasons.push('Tax invoice serial must be 16 or 17 digits');
+  }
+
+  if (invoice.lines.length === 0) {
+    reasons.push('Invoice has no line items');
+    return reasons;
+  }
+
+  invoice.lines.forEach((line, index) => {
+    const label = `Line ${index + 1}`;
+    if (!line.product_name) reasons.push(`${label}: product name is missing`);
+    if (!(Number(line.quantity) > 0)) reasons.push(`${label}: quantity must be greater than zero`);
+    if (!(Number(line.unit_price) > 0)) reasons.push(`${label}: unit price must be greater than zero`);
+    if (!(Number(line.tax_rate) > 0)) reasons.push(`${label}: line has no PPN rate`);
+  });
+
+  const linePPN = invoice.lines.reduce((sum, line) => sum + (Number(line.line_ppn) || 0), 0);
+  if (Math.abs(linePPN - invoice.invoice_ppn) > 1) {
+    reasons.push(`Line PPN (${linePPN.toFixed(2)}) does not match invoice PPN (${invoice.invoice_ppn.toFixed(2)})`);
+  }
+
+  return reasons;
+};
+
+export const validateInputInvoice = (invoice: EFakturInputInvoice): string[] => {
+  const reasons: string[] = [];
+
+  if (!invoice.supplier_npwp) {
+    reasons.push('Supplier has no NPWP');
+  } else if (!normalizeNpwp(invoice.supplier_npwp)) {
+    reasons.push('Supplier NPWP must be 15 or 16 digits');
+  }
+  if (invoice.supplier_nitku && !isValidNitku(invoice.supplier_nitku)) {
+    reasons.push('Supplier NITKU must be 22 digits');
+  }
+  if (!invoice.faktur_pajak_number) {
+    reasons.push('Tax invoice serial (faktur pajak number) is missing');
+  } else if (!isValidFakturSerial(invoice.faktur_pajak_number)) {
+    reasons.push('Tax invoice serial must be 16 or 17 digits');
+  }
+  if (!(Number(invoice.dpp_idr) > 0)) reasons.push('DPP must be greater than zero');
+
+  return reasons;
+};
+
+const amount = (value: number | null | undefined) => (Number(value) || 0).toFixed(2);
+
+// Other DPP for code 04: DPP x rate / 12, so VAT at the 12% statutory rate equals the charged PPN
+const otherTaxBase = (line: EFakturOutputLine) =>
+  ((Number(line.line_dpp) || 0) * (Number(line.tax_rate) || 0)) / EFAKTUR_VAT_RATE;
+
+const unitCode = (unit: string | null) => UNIT_CODES[(unit || '').toLowerCase()] || UNIT_CODE_OTHER;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const tag = (name: string, value: string, indent: string) =>
+  value === '' ? `${indent}<${name}/>` : `${indent}<${name}>${escapeXml(value)}</${name}>`;
+
+export const buildCoretaxXml = (seller: EFakturSeller, invoices: EFakturOutputInvoice[]): string => {
+  const sellerTin = normalizeNpwp(seller.npwp) || '';
+  const sellerIdtku = digitsOnly(seller.nitku) || `${sellerTin}${HEAD_OFFICE_SUFFIX}`;
+
+  const invoiceXml = invoices.map((invoice) => {
+    const buyer = resolveBuyer(invoice);
+    const i = '      ';
+    const g = '          ';
+    const goods = invoice.lines.map((line) => [
+      '        <GoodService>',
+      tag('Opt', 'A', g),
+      tag('Code', GOODS_CODE_GENERAL, g),
+      tag('Name', line.product_name || '', g),
+      tag('Unit', unitCode(line.unit), g),
+      tag('Price', amount(line.unit_price), g),
+      tag('Qty', String(Number(line.quantity) || 0), g),
+      tag('TotalDiscount', amount(0), g),
+      tag('TaxBase', amount(line.line_dpp), g),
+      tag('OtherTaxBase', amount(otherTaxBase(line)), g),
+      tag('VATRate', String(EFAKTUR_VAT_RATE), g),
+      tag('VAT', amount(line.line_ppn), g),
+      tag('STLGRate', '0', g),
+      tag('STLG', amount(0), g),
+      '        </GoodService>',
+    ].join('\n'));
+
+    return [
+      '    <TaxInvoice>',
+      tag('TaxInvoiceDate', invoice.invoice_date, i),
+      tag('TaxInvoiceOpt', 'Normal', i),
+      tag('TrxCode', EFAKTUR_TRX_CODE, i),
+      tag('AddInfo', '', i),
+      tag('CustomDoc', '', i),
+      tag('RefDesc', invoice.invoice_number, i),
+      tag('FacilityStamp', '', i),
+      tag('SellerIDTKU', sellerIdtku, i),
+      tag('BuyerTin', buyer?.tin || '', i),
+      tag('BuyerDocument', buyer?.document || '', i),
+      tag('BuyerCountry', 'IDN', i),
+      tag('BuyerDocumentNumber', buyer?.documentNumber || '', i),
+      tag('BuyerName', invoice.customer_name, i),
+      tag('BuyerAdress', invoice.customer_address, i),
+      tag('BuyerEmail', '', i),
+      tag('BuyerIDTKU', buyer?.idtku || '', i),
+      '      <ListOfGoodService>',
+      ...goods,
+      '      </ListOfGoodService>',
+      '    </TaxInvoice>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8" ?>',
+    '<TaxInvoiceBulk xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="TaxInvoice.xsd">',
+    `  <TIN>${sellerTin}</TIN>`,
+    '  <ListOfTaxInvoice>',
+    ...invoiceXml,
+    '  </ListOfTaxInvoice>',
+    '</TaxInvoiceBulk>',
+    '',
+  ].join('\n');
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: (string | number)[][]) =>
+  [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+
+export const buildOutputCsv = (seller: EFakturSeller, invoices: EFakturOutputInvoice[]): string => {
+  const sellerTin = normalizeNpwp(seller.npwp) || '';
+  const sellerIdtku = digitsOnly(seller.nitku) || `${sellerTin}${HEAD_OFFICE_SUFFIX}`;
+  const headers = [
+    'Tax Invoice Date', 'Reference', 'Tax Invoice Serial', 'Trx Code', 'Seller IDTKU',
+    'Buyer TIN', 'Buyer Document', 'Buyer Document Number', 'Buyer Name', 'Buyer Address', 'Buyer IDTKU',
+    'Goods Code', 'Name', 'Unit', 'Price', 'Qty', 'Total Discount', 'DPP', 'Other DPP', 'VAT Rate', 'PPN',
+  ];
+
+  const rows = invoices.flatMap((invoice) => {
+    const buyer = resolveBuyer(invoice);
+    return invoice.lines.map((line) => [
+      invoice.invoice_date,
+      invoice.invoice_number,
+      digitsOnly(invoice.faktur_pajak_number),
+      EFAKTUR_TRX_CODE,
+      sellerIdtku,
+      buyer?.tin || '',
+      buyer?.document || '',
+      buyer?.documentNumber || '',
+      invoice.customer_name,
+      invoice.customer_address,
+      buyer?.idtku || '',
+      GOODS_CODE_GENERAL,
+      line.product_name || '',
+      unitCode(line.unit),
+      amount(line.unit_price),
+      Number(line.quantity) || 0,
+      amount(0),
+      amount(line.line_dpp),
+      amount(otherTaxBase(line)),
+      EFAKTUR_VAT_RATE,
+      amount(line.line_ppn),
+    ]);
+  });
+
+  return toCsv(headers, rows);
+};
+
+export const buildInputCsv = (invoices: EFakturInputInvoice[]): string => {
+  const headers = [
+    'Tax Invoice Serial', 'Tax Invoice Date', 'Seller NPWP', 'Seller NITKU', 'Seller Name',
+    'Supplier Invoice No', 'DPP (IDR)', 'PPN (IDR)', 'Currency', 'Exchange Rate',
+  ];
+
+  const rows = invoices.map((invoice) => {
+    const npwp = normalizeNpwp(invoice.supplier_npwp) || '';
+    return [
+      digitsOnly(invoice.faktur_pajak_number),
+      invoice.invoice_date,
+      npwp,
+      digitsOnly(invoice.supplier_nitku) || `${npwp}${HEAD_OFFICE_SUFFIX}`,
+      invoice.supplier_name,
+      invoice.invoice_number,
+      amount(invoice.dpp_idr),
+      amount(invoice.ppn_idr),
+      invoice.currency,
+      Number(invoice.exchange_rate) || 1,
+    ];
+  });
+
+  return toCsv(headers, rows);
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8;` });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+};
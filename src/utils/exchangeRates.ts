@@ -0,0 +1,152 @@
+import { supabase } from '../lib/supabase';
+import {
+  parseAmount,
+  parseStatementDate,
+  type StatementCell,
+} from './bankStatementParsers';
+import { cellText, findColumn, findHeaderRow } from './bankStatementParsers/common';
+
+/**
+ * Daily exchange rate master (IDR per unit of foreign currency). Screens default their
+ * rate from here; the value stays editable on the document.
+ */
+
+export type ExchangeRateSource = 'bi' | 'kmk' | 'manual';
+
+export const EXCHANGE_RATE_SOURCES: { value: ExchangeRateSource; label: string }[] = [
+  { value: 'bi', label: 'Bank Indonesia (JISDOR)' },
+  { value: 'kmk', label: 'Kemenkeu KMK (tax)' },
+  { value: 'manual', label: 'Manual' },
+];
+
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate_date: string;
+  valid_to: string | null;
+  source: ExchangeRateSource;
+  rate: number;
+  reference: string | null;
+  created_at: string;
+}
+
+export interface ParsedExchangeRate {
+  sourceLine: number;
+  currency: string;
+  rate_date: string;
+  valid_to: string | null;
+  rate: number;
+  reference: string | null;
+}
+
+/**
+ * Rate for a currency on a date: the latest rate on or before it, preferring manual over
+ * BI over KMK on the same day unless a source is given. Returns null when none is on file.
+ */
+export async function fetchExchangeRate(
+  currency: string,
+  date: string,
+  source?: ExchangeRateSource
+): Promise<number | null> {
+  if (!currency || currency.toUpperCase() === 'IDR') return 1;
+  const { data, error } = await supabase.rpc('get_exchange_rate', {
+    p_currency: currency,
+    p_date: date || new Date().toISOString().split('T')[0],
+    p_source: source ?? null,
+  });
+  if (error) {
+    console.error('Error loading exchange rate:', error);
+    return null;
+  }
+  return data === null ? null : Number(data);
+}
+
+const isCurrencyHeader = (cell: string) => /mata uang|currency|^kode|^ccy/.test(cell);
+const isValidToHeader = (cell: string) => /\bs\.?\s?d\b|sampai|valid to|until|berakhir/.test(cell);
+const isDateHeader = (cell: string) => /tanggal|^date|berlaku|valid from|rate date|^tgl/.test(cell) && !isValidToHeader(cell);
+const isRateHeader = (cell: string) => /kurs tengah|middle|^rate|^kurs$|jisdor|kurs pajak|^kurs \(?idr/.test(cell) && !/date|tanggal/.test(cell);
+const isSellHeader = (cell: string) => /kurs jual|^sell/.test(cell);
+const isBuyHeader = (cell: string) => /kurs beli|^buy/.test(cell);
+const isUnitHeader = (cell: string) => /^nilai$|^unit$|per unit/.test(cell);
+const isReferenceHeader = (cell: string) => /kmk|reference|nomor|^no\.? kmk|keputusan/.test(cell);
+
+/**
+ * Reads a BI kurs transaksi / JISDOR export or a KMK rate table (CSV or XLSX rows).
+ * Recognises a currency column (optional when the file is single-currency), a date or
+ * "berlaku" column, an optional "s.d." column, and either a rate column or kurs jual /
+ * kurs beli (averaged to the middle rate). A "Nilai" column next to the kurs columns is
+ * the quotation unit (JPY per 100), so the rate is divided by it.
+ */
+export function parseExchangeRateRows(
+  rows: StatementCell[][],
+  defaultCurrency: string
+): { rates: ParsedExchangeRate[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const headerIndex = findHeaderRow(rows, (cells) =>
+    cells.some(isDateHeader) && cells.some((cell) => isRateHeader(cell) || isSellHeader(cell))
+  );
+  if (headerIndex < 0) {
+    return { rates: [], warnings: ['No header row with a date and a kurs / rate column was found'] };
+  }
+
+  const header = rows[headerIndex].map((cell) => cellText(cell).toLowerCase());
+  const currencyCol = findColumn(header, isCurrencyHeader);
+  const dateCol = findColumn(header, isDateHeader);
+  const validToCol = findColumn(header, isValidToHeader);
+  const rateCol = findColumn(header, isRateHeader);
+  const sellCol = findColumn(header, isSellHeader);
+  const buyCol = findColumn(header, isBuyHeader);
+  const unitCol = findColumn(header, isUnitHeader);
+  const referenceCol = findColumn(header, isReferenceHeader);
+  const fallbackYear = new Date().getFullYear();
+
+  const rates: ParsedExchangeRate[] = [];
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i] || [];
+    if (!row.some((cell) => cellText(cell))) continue;
+    const sourceLine = i + 1;
+
+    const currency = (currencyCol >= 0 ? cellText(row[currencyCol]) : defaultCurrency)
+      .toUpperCase()
+      .replace(/[^A-Z]/g, '')
+      .slice(0, 3);
+    if (!/^[A-Z]{3}$/.test(currency) || currency === 'IDR') {
+      warnings.push(`Row ${sourceLine}: no currency code, skipped`);
+      continue;
+    }
+
+    const { date } = parseStatementDate(row[dateCol], fallbackYear);
+    if (!date) {
+      warnings.push(`Row ${sourceLine}: unreadable date "${cellText(row[dateCol])}", skipped`);
+      continue;
+    }
+
+    let rate: number | null = null;
+    if (rateCol >= 0) {
+      rate = parseAmount(row[rateCol]);
+    }
+    if (rate === null && sellCol >= 0) {
+      const sell = parseAmount(row[sellCol]);
+      const buy = buyCol >= 0 ? parseAmount(row[buyCol]) : null;
+      rate = sell !== null && buy !== null ? (sell + buy) / 2 : sell;
+    }
+    const unit = unitCol >= 0 ? parseAmount(row[unitCol]) : null;
+    if (rate !== null && unit && unit > 0) rate = rate / unit;
+    if (rate === null || rate <= 0) {
+      warnings.push(`Row ${sourceLine}: no rate, skipped`);
+      continue;
+    }
+
+    const validTo = validToCol >= 0 ? parseStatementDate(row[validToCol], fallbackYear).date : '';
+    rates.push({
+      sourceLine,
+      currency,
+      rate_date: date,
+      valid_to: validTo && validTo >= date ? validTo : null,
+      rate: Math.round(rate * 1000000) / 1000000,
+      reference: referenceCol >= 0 ? cellText(row[referenceCol]) || null : null,
+    });
+  }
+
+  return { rates, warnings };
+}
@@ -0,0 +1,80 @@
+/**
+ * Fixed asset register. Depreciation is worked out and posted by the database
+ * (post_fixed_asset_depreciation); these are the shared types and fiscal group defaults.
+ */
+
+export type FiscalGroup =
+  | 'kelompok_1'
+  | 'kelompok_2'
+  | 'kelompok_3'
+  | 'kelompok_4'
+  | 'building_permanent'
+  | 'building_non_permanent';
+
+export type DepreciationMethod = 'straight_line' | 'declining_balance';
+
+export type FixedAssetStatus = 'active' | 'fully_depreciated' | 'disposed';
+
+// PMK 72/2023 groups; buildings may only be depreciated straight-line
+export const FISCAL_GROUPS: { value: FiscalGroup; label: string; lifeMonths: number; decliningAllowed: boolean }[] = [
+  { value: 'kelompok_1', label: 'Kelompok 1 (4 yrs)', lifeMonths: 48, decliningAllowed: true },
+  { value: 'kelompok_2', label: 'Kelompok 2 (8 yrs)', lifeMonths: 96, decliningAllowed: true },
+  { value: 'kelompok_3', label: 'Kelompok 3 (16 yrs)', lifeMonths: 192, decliningAllowed: true },
+  { value: 'kelompok_4', label: 'Kelompok 4 (20 yrs)', lifeMonths: 240, decliningAllowed: true },
+  { value: 'building_permanent', label: 'Bangunan Permanen (20 yrs)', lifeMonths: 240, decliningAllowed: false },
+  { value: 'building_non_permanent', label: 'Bangunan Tidak Permanen (10 yrs)', lifeMonths: 120, decliningAllowed: false },
+];
+
+export const DEPRECIATION_METHODS: { value: DepreciationMethod; label: string }[] = [
+  { value: 'straight_line', label: 'Straight-line' },
+  { value: 'declining_balance', label: 'Declining balance' },
+];
+
+export interface FixedAssetCategory {
+  id: string;
+  code: string;
+  name: string;
+  fiscal_group: FiscalGroup;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number;
+  asset_account_id: string;
+  accumulated_account_id: string;
+  expense_account_id: string;
+  is_active: boolean;
+}
+
+export interface FixedAsset {
+  id: string;
+  asset_code: string;
+  asset_name: string;
+  category_id: string;
+  fiscal_group: FiscalGroup;
+  depreciation_method: DepreciationMethod;
+  useful_life_months: number;
+  acquisition_date: string;
+  depreciation_start_date: string;
+  cost: number;
+  salvage_value: number;
+  opening_accumulated_depreciation: number;
+  accumulated_depreciation: number;
+  purchase_invoice_id: string | null;
+  purchase_invoice_item_id: string | null;
+  finance_expense_id: string | null;
+  location: string | null;
+  serial_number: string | null;
+  notes: string | null;
+  status: FixedAssetStatus;
+  disposal_date: string | null;
+  disposal_proceeds: number | null;
+  disposal_gain_loss: number | null;
+  disposal_notes: string | null;
+}
+
+export const fiscalGroupLabel = (group: FiscalGroup) =>
+  FISCAL_GROUPS.find(g => g.value === group)?.label || group;
+
+export const depreciationMethodLabel = (method: DepreciationMethod) =>
+  DEPRECIATION_METHODS.find(m => m.value === method)?.label || method;
+
+export const bookValue = (asset: Pick<FixedAsset, 'cost' | 'accumulated_depreciation'>) =>
+  Number(asset.cost) - Number(asset.accumulated_depreciation);
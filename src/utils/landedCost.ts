@@ -0,0 +1,83 @@
+/**
+ * Landed cost projection for simulations, mirroring reallocate_container_costs():
+ * import price and duty stay on each line, every other container cost is spread by quantity
+ */
+
+export type SimulationSourceType = 'purchase_order' | 'import_requirement' | 'manual';
+
+// Container cost fields spread by quantity. Duty sits on the line; PPN / PPh Import are creditable tax
+export const ALLOCATED_COST_FIELDS = [
+  { key: 'freight_charges', label: 'Freight Charges' },
+  { key: 'clearing_forwarding', label: 'Clearing & Forwarding' },
+  { key: 'port_charges', label: 'Port Charges' },
+  { key: 'container_handling', label: 'Container Handling' },
+  { key: 'transportation', label: 'Transportation' },
+  { key: 'loading_import', label: 'Loading / Unloading' },
+  { key: 'bpom_ski_fees', label: 'BPOM / SKI Fees' },
+  { key: 'other_import_costs', label: 'Other Import Costs' },
+] as const;
+
+export type AllocatedCostField = typeof ALLOCATED_COST_FIELDS[number]['key'];
+
+export type AllocatedCosts = Record<AllocatedCostField, number>;
+
+export interface SimulationLineInput {
+  quantity: number;
+  unit_price: number;
+  duty_percent: number;
+}
+
+export interface SimulationLineResult {
+  import_price: number;
+  duty_per_unit: number;
+  allocated_per_unit: number;
+  landed_cost_per_unit: number;
+  suggested_price: number;
+  total_landed_cost: number;
+}
+
+export const emptyAllocatedCosts = (): AllocatedCosts => ({
+  freight_charges: 0,
+  clearing_forwarding: 0,
+  port_charges: 0,
+  container_handling: 0,
+  transportation: 0,
+  loading_import: 0,
+  bpom_ski_fees: 0,
+  other_import_costs: 0,
+});
+
+export const totalAllocatedCosts = (costs: Partial<AllocatedCosts>) =>
+  ALLOCATED_COST_FIELDS.reduce((sum, field) => sum + Number(costs[field.key] || 0), 0);
+
+// Selling price that leaves the target margin on price (not a markup on cost)
+export const priceAtMargin = (cost: number, marginPercent: number) =>
+  marginPercent < 100 ? cost / (1 - marginPercent / 100) : 0;
+
+export function projectLandedCost(
+  lines: SimulationLineInput[],
+  exchangeRate: number,
+  costs: Partial<AllocatedCosts>,
+  targetMarginPercent: number
+): SimulationLineResult[] {
+  const totalQuantity = lines.reduce((sum, line) => sum + (Number(line.quantity) || 0), 0);
+  const allocatedPerUnit = totalQuantity > 0 ? totalAllocatedCosts(costs) / totalQuantity : 0;
+
+  return lines.map(line => {
+    const quantity = Number(line.quantity) || 0;
+    const importPrice = (Number(line.unit_price) || 0) * (Number(exchangeRate) || 0);
+    const dutyPerUnit = Math.round(importPrice * (Number(line.duty_percent) || 0)) / 100;
+    const landed = importPrice + dutyPerUnit + allocatedPerUnit;
+    return {
+      import_price: importPrice,
+      duty_per_unit: dutyPerUnit,
+      allocated_per_unit: allocatedPerUnit,
+      landed_cost_per_unit: landed,
+      suggested_price: priceAtMargin(landed, targetMarginPercent),
+      total_landed_cost: landed * quantity,
+    };
+  });
+}
+
+export const variancePercent = (estimate: number, actual: number) =>
+  estimate !== 0 ? ((actual - estimate) / estimate) * 100 : null;
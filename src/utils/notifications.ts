@@ -177,6 +177,22 @@ export async function checkAndCreateFollowUpNotifications() {
   }
 }
 
+// claim_expiry_digest() lets only one open session per digest period trigger the email
+export async function checkAndSendExpiryDigest() {
+  try {
+    const { data: claimed, error } = await supabase.rpc('claim_expiry_digest');
+    if (error) throw error;
+    if (!claimed) return;
+
+    const { error: sendError } = await supabase.functions.invoke('send-app-notifications', {
+      body: { type: 'expiry_digest' },
+    });
+    if (sendError) throw sendError;
+  } catch (error) {
+    console.error('Error sending expiry digest:', error);
+  }
+}
+
 let notificationInterval: NodeJS.Timeout | null = null;
 
 export async function initializeNotificationChecks() {
@@ -187,10 +203,12 @@ export async function initializeNotificationChecks() {
   await checkAndCreateLowStockNotifications();
   await checkAndCreateExpiryNotifications();
   await checkAndCreateFollowUpNotifications();
+  await checkAndSendExpiryDigest();
 
   notificationInterval = setInterval(async () => {
     await checkAndCreateLowStockNotifications();
     await checkAndCreateExpiryNotifications();
     await checkAndCreateFollowUpNotifications();
+    await checkAndSendExpiryDigest();
   }, 600000);
 }
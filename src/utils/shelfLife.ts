@@ -0,0 +1,101 @@
+/**
+ * Customer shelf-life rules. Mirrors shelf_life_shortfall() in the database so screens can warn
+ * before the save is refused; the database trigger remains the authority for 'block' customers.
+ */
+
+export type ShelfLifeRuleMode = 'warn' | 'block';
+
+export interface ShelfLifeRule {
+  min_shelf_life_months: number | null;
+  min_shelf_life_percent: number | null;
+  shelf_life_rule_mode: ShelfLifeRuleMode | null;
+}
+
+export interface ShelfLifeBatch {
+  expiry_date: string | null;
+  manufacture_date?: string | null;
+  import_date?: string | null;
+}
+
+export const CUSTOMER_SEGMENTS: { value: string; label: string }[] = [
+  { value: 'hospital', label: 'Hospital' },
+  { value: 'pharmacy', label: 'Pharmacy' },
+  { value: 'distributor', label: 'Distributor (PBF)' },
+  { value: 'manufacturer', label: 'Manufacturer' },
+  { value: 'other', label: 'Other' },
+];
+
+export const formatCustomerSegment = (segment: string | null) =>
+  CUSTOMER_SEGMENTS.find(s => s.value === segment)?.label || 'Unassigned';
+
+const toUtcDate = (value: string | Date) => {
+  if (value instanceof Date) {
+    return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+  }
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const hasShelfLifeRule = (rule: ShelfLifeRule | null | undefined) =>
+  !!rule && ((rule.min_shelf_life_months || 0) > 0 || (rule.min_shelf_life_percent || 0) > 0);
+
+// Whole months between asOf and expiry, counted the way Postgres age() does
+export const getShelfLifeMonthsLeft = (expiryDate: string | null, asOf: string | Date = new Date()) => {
+  if (!expiryDate) return null;
+  const expiry = toUtcDate(expiryDate);
+  const from = toUtcDate(asOf);
+  let months = (expiry.getUTCFullYear() - from.getUTCFullYear()) * 12 + expiry.getUTCMonth() - from.getUTCMonth();
+  if (expiry.getUTCDate() < from.getUTCDate()) months -= 1;
+  return Math.max(months, 0);
+};
+
+// Remaining share of the total shelf life; null when the start date is unknown
+export const getShelfLifePercentLeft = (batch: ShelfLifeBatch, asOf: string | Date = new Date()) => {
+  const start = batch.manufacture_date || batch.import_date;
+  if (!batch.expiry_date || !start) return null;
+  const expiry = toUtcDate(batch.expiry_date).getTime();
+  const total = (expiry - toUtcDate(start).getTime()) / DAY_MS;
+  if (total <= 0) return null;
+  return Math.max(((expiry - toUtcDate(asOf).getTime()) / DAY_MS) * 100 / total, 0);
+};
+
+/**
+ * Why the batch fails the customer's rule on asOf, or null when it passes.
+ * Message text matches the database so FEFO skip reasons and screen warnings read the same.
+ */
+export const getShelfLifeShortfall = (
+  batch: ShelfLifeBatch,
+  rule: ShelfLifeRule | null | undefined,
+  asOf: string | Date = new Date()
+): string | null => {
+  if (!batch.expiry_date || !rule || !hasShelfLifeRule(rule)) return null;
+
+  const minMonths = rule.min_shelf_life_months || 0;
+  if (minMonths > 0) {
+    const threshold = toUtcDate(asOf);
+    threshold.setUTCMonth(threshold.getUTCMonth() + minMonths);
+    if (toUtcDate(batch.expiry_date) < threshold) {
+      return `Only ${getShelfLifeMonthsLeft(batch.expiry_date, asOf)} months shelf life left; customer requires ${minMonths}`;
+    }
+  }
+
+  const minPercent = Number(rule.min_shelf_life_percent) || 0;
+  if (minPercent > 0) {
+    const percentLeft = getShelfLifePercentLeft(batch, asOf);
+    if (percentLeft !== null && percentLeft < minPercent) {
+      return `Only ${Math.floor(percentLeft)}% shelf life left; customer requires ${minPercent}%`;
+    }
+  }
+
+  return null;
+};
+
+export const describeShelfLifeRule = (rule: ShelfLifeRule | null | undefined) => {
+  if (!rule || !hasShelfLifeRule(rule)) return '';
+  const parts: string[] = [];
+  if ((rule.min_shelf_life_months || 0) > 0) parts.push(`${rule.min_shelf_life_months} months`);
+  if ((rule.min_shelf_life_percent || 0) > 0) parts.push(`${Number(rule.min_shelf_life_percent)}% of shelf life`);
+  return `${parts.join(' and ')} remaining (${rule.shelf_life_rule_mode === 'block' ? 'enforced' : 'warning only'})`;
+};
@@ -0,0 +1,76 @@
+/**
+ * Supplier price lists per product source and RFQ quotations. Ranking and awarding are done
+ * by the database (compare_rfq_quotes / award_rfq_quote); these are the shared types.
+ */
+
+export const INCOTERMS = ['EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'] as const;
+
+export type Incoterm = typeof INCOTERMS[number];
+
+export const PRICE_CURRENCIES = ['USD', 'IDR', 'CNY', 'INR', 'EUR'];
+
+export type RfqStatus = 'open' | 'awarded' | 'cancelled';
+
+export interface SourcePrice {
+  id: string;
+  source_id: string;
+  price_date: string;
+  unit_price: number;
+  currency: string;
+  incoterm: Incoterm | null;
+  moq: number | null;
+  lead_time_days: number | null;
+  valid_until: string | null;
+  rfq_quote_id: string | null;
+  notes: string | null;
+}
+
+export interface Rfq {
+  id: string;
+  rfq_number: string;
+  rfq_date: string;
+  product_id: string;
+  quantity: number;
+  unit: string | null;
+  required_date: string | null;
+  response_due_date: string | null;
+  status: RfqStatus;
+  awarded_quote_id: string | null;
+  purchase_order_id: string | null;
+  notes: string | null;
+}
+
+// One response as returned by compare_rfq_quotes()
+export interface RfqQuoteComparison {
+  quote_id: string;
+  supplier_id: string;
+  supplier_name: string;
+  quote_date: string;
+  quote_reference: string | null;
+  unit_price: number;
+  currency: string;
+  exchange_rate: number | null;
+  unit_price_idr: number | null;
+  incoterm: Incoterm | null;
+  moq: number | null;
+  order_quantity: number;
+  total_idr: number | null;
+  lead_time_days: number | null;
+  expected_arrival_date: string | null;
+  valid_until: string | null;
+  grade: string | null;
+  payment_terms: string | null;
+  last_price_idr: number | null;
+  price_rank: number;
+  is_expired: boolean;
+  is_selected: boolean;
+}
+
+export const isPriceExpired = (price: Pick<SourcePrice, 'valid_until'>) =>
+  !!price.valid_until && price.valid_until < new Date().toISOString().split('T')[0];
+
+/** Percentage change from the previous price in the same currency, or null when not comparable. */
+export const priceChangePercent = (current: SourcePrice, previous?: SourcePrice) => {
+  if (!previous || previous.currency !== current.currency || Number(previous.unit_price) === 0) return null;
+  return ((Number(current.unit_price) - Number(previous.unit_price)) / Number(previous.unit_price)) * 100;
+};
@@ -0,0 +1,70 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Supplier performance scorecards. Measures and the weighted score are computed by
+ * get_supplier_scorecards(); screens show the grade and filter sources by it.
+ */
+
+export type SupplierGrade = 'A' | 'B' | 'C' | 'D';
+
+export const SUPPLIER_GRADES: SupplierGrade[] = ['A', 'B', 'C', 'D'];
+
+export interface SupplierScorecard {
+  supplier_id: string;
+  supplier_name: string;
+  period_start: string | null;
+  po_lines_due: number | null;
+  po_lines_on_time: number | null;
+  on_time_pct: number | null;
+  avg_days_late: number | null;
+  received_quantity: number | null;
+  rejected_quantity: number | null;
+  rejection_qty_pct: number | null;
+  received_value: number | null;
+  rejected_value: number | null;
+  rejection_value_pct: number | null;
+  invoiced_lines: number | null;
+  price_variance_pct: number | null;
+  sources_count: number | null;
+  sources_documented: number | null;
+  document_pct: number | null;
+  invoices_count: number | null;
+  invoices_terms_honoured: number | null;
+  terms_pct: number | null;
+  score: number | null;
+  grade: SupplierGrade | null;
+}
+
+export const SCORECARD_MONTHS = 12;
+
+export const gradeColor = (grade: SupplierGrade | null) => {
+  switch (grade) {
+    case 'A': return 'bg-green-100 text-green-800';
+    case 'B': return 'bg-blue-100 text-blue-800';
+    case 'C': return 'bg-yellow-100 text-yellow-800';
+    case 'D': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-500';
+  }
+};
+
+/** True when the grade is at least the minimum; suppliers without a grade only pass with no minimum. */
+export const meetsGrade = (grade: SupplierGrade | null | undefined, minimum: SupplierGrade | '') =>
+  !minimum || (!!grade && grade <= minimum);
+
+export const scorecardRange = (months = SCORECARD_MONTHS) => {
+  const to = new Date();
+  const from = new Date(to.getFullYear(), to.getMonth() - months + 1, 1);
+  const iso = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  return { from: iso(from), to: iso(to) };
+};
+
+/** Scorecards over the last twelve months keyed by supplier id; empty on error. */
+export async function fetchSupplierScores(): Promise<Record<string, SupplierScorecard>> {
+  const { from, to } = scorecardRange();
+  const { data, error } = await supabase.rpc('get_supplier_scorecards', { p_from: from, p_to: to });
+  if (error) {
+    console.error('Error loading supplier scorecards:', error);
+    return {};
+  }
+  return Object.fromEntries(((data || []) as SupplierScorecard[]).map(row => [row.supplier_id, row]));
+}
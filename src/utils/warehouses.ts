@@ -0,0 +1,61 @@
+/**
+ * Warehouses, bin locations and the per-location stock split kept in batch_location_stock
+ */
+
+export type WarehouseType = 'main' | 'bonded' | 'third_party' | 'other';
+
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  warehouse_type: WarehouseType;
+  address: string | null;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export interface WarehouseLocation {
+  id: string;
+  warehouse_id: string;
+  code: string;
+  name: string | null;
+  is_active: boolean;
+  warehouses?: { code: string; name: string } | null;
+}
+
+export interface BatchLocationStock {
+  batch_id: string;
+  location_id: string;
+  quantity: number;
+  warehouse_locations: {
+    code: string;
+    warehouse_id: string;
+    warehouses: { code: string; name: string } | null;
+  } | null;
+}
+
+// Per-location totals on product_stock_summary.location_stock
+export interface LocationStockEntry {
+  warehouse_id: string;
+  warehouse_code: string;
+  warehouse_name: string;
+  location_id: string;
+  location_code: string;
+  quantity: number;
+}
+
+export const WAREHOUSE_TYPES: { value: WarehouseType; label: string }[] = [
+  { value: 'main', label: 'Main warehouse' },
+  { value: 'bonded', label: 'Bonded area' },
+  { value: 'third_party', label: 'Third-party logistics' },
+  { value: 'other', label: 'Other' },
+];
+
+export const BATCH_LOCATION_STOCK_SELECT =
+  'batch_id, location_id, quantity, warehouse_locations(code, warehouse_id, warehouses(code, name))';
+
+export const formatWarehouseType = (type: string) =>
+  WAREHOUSE_TYPES.find(t => t.value === type)?.label || type;
+
+export const formatLocationCode = (warehouseCode: string | null | undefined, locationCode: string | null | undefined) =>
+  [warehouseCode, locationCode].filter(Boolean).join(' / ');
@@ -0,0 +1,83 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Returns the text layer of a PDF bank statement. Parsing happens in the browser's
+// statement parser registry, so this function knows nothing about bank layouts.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file") as File;
+
+    if (!file) {
+      throw new Error("Missing file");
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    const text = extractTextFromPDF(new Uint8Array(arrayBuffer));
+
+    return new Response(
+      JSON.stringify({ text }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error extracting statement text:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to read PDF" }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
+
+function extractTextFromPDF(pdfData: Uint8Array): string {
+  // Simple PDF text extraction
+  // Convert bytes to string and extract text between content streams
+  const decoder = new TextDecoder("latin1");
+  const text = decoder.decode(pdfData);
+
+  // Extract text from PDF content streams, one line per BT ... ET block
+  const contentRegex = /BT\s+(.+?)\s+ET/gs;
+  const matches = text.matchAll(contentRegex);
+
+  let extractedText = "";
+  for (const match of matches) {
+    // Extract text between parentheses
+    const textMatches = match[1].matchAll(/\(([^)]+)\)/g);
+    for (const textMatch of textMatches) {
+      extractedText += textMatch[1] + " ";
+    }
+    extractedText += "\n";
+  }
+
+  return extractedText;
+}
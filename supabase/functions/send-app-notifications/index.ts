@@ -8,7 +8,7 @@ const corsHeaders = {
 };
 
 interface NotificationPayload {
-  type: "so_approved" | "low_stock" | "overdue_invoices" | "payment_reminder";
+  type: "so_approved" | "low_stock" | "overdue_invoices" | "payment_reminder" | "expiry_digest";
   data?: Record<string, unknown>;
   sender_user_id?: string;
 }
@@ -328,6 +328,99 @@ async function handleOverdueInvoices(supabase: ReturnType<typeof createClient>)
   return { sent, overdue_count: invoices.length };
 }
 
+interface ExpiryStockRow {
+  product_name: string;
+  batch_number: string;
+  expiry_date: string | null;
+  days_to_expiry: number | null;
+  expiry_bucket: string;
+  current_stock: number;
+  stock_value: number;
+  days_since_movement: number;
+  movement_status: string;
+  open_action: string | null;
+}
+
+const EXPIRY_BUCKET_LABELS: Record<string, string> = {
+  expired: "Expired",
+  "0_30": "0-30 days",
+  "31_60": "31-60 days",
+  "61_90": "61-90 days",
+  "91_180": "91-180 days",
+};
+
+async function handleExpiryDigest(supabase: ReturnType<typeof createClient>) {
+  const [{ data: rows, error }, senderResult] = await Promise.all([
+    supabase.rpc("get_expiry_stock_status"),
+    findBestSenderForRole(supabase, ["admin", "warehouse", "accounts"]),
+  ]);
+
+  if (error) return { sent: 0, error: error.message };
+
+  const stock = (rows as ExpiryStockRow[] | null) ?? [];
+  const atRisk = stock.filter(r => r.expiry_bucket in EXPIRY_BUCKET_LABELS);
+  const dead = stock.filter(r => r.movement_status === "dead" && !(r.expiry_bucket in EXPIRY_BUCKET_LABELS));
+
+  if (atRisk.length === 0 && dead.length === 0) return { sent: 0, message: "No near-expiry or dead stock" };
+  if (!senderResult) return { sent: 0, error: "No Gmail connection available for any admin/warehouse user." };
+
+  const { data: recipients } = await supabase
+    .from("user_profiles")
+    .select("email, role")
+    .in("role", ["admin", "warehouse", "accounts", "sales"])
+    .eq("is_active", true) as { data: UserProfile[] | null };
+
+  const rupiah = (n: number) => `Rp ${Number(n).toLocaleString("id-ID", { maximumFractionDigits: 0 })}`;
+
+  const bucketRows = Object.entries(EXPIRY_BUCKET_LABELS).map(([bucket, label]) => {
+    const inBucket = atRisk.filter(r => r.expiry_bucket === bucket);
+    const value = inBucket.reduce((sum, r) => sum + Number(r.stock_value), 0);
+    return `<tr><td>${label}</td><td>${inBucket.length}</td><td>${rupiah(value)}</td></tr>`;
+  }).join("");
+
+  const batchRows = atRisk
+    .filter(r => r.expiry_bucket !== "91_180")
+    .sort((a, b) => Number(b.stock_value) - Number(a.stock_value))
+    .slice(0, 20)
+    .map(r => {
+      const badge = r.expiry_bucket === "expired" || r.expiry_bucket === "0_30" ? "red" : "yellow";
+      return `<tr><td>${r.product_name}</td><td>${r.batch_number}</td><td>${r.expiry_date ?? "-"}</td><td>${r.current_stock}</td><td>${rupiah(r.stock_value)}</td><td><span class="${badge}">${EXPIRY_BUCKET_LABELS[r.expiry_bucket]}</span>${r.open_action ? " " + r.open_action.replace(/_/g, " ") : ""}</td></tr>`;
+    }).join("");
+
+  const deadValue = dead.reduce((sum, r) => sum + Number(r.stock_value), 0);
+
+  const htmlContent = `
+    <p>Stock at landed cost by time to expiry:</p>
+    <table class="data">
+      <thead><tr><th>Expiry</th><th>Batches</th><th>Value</th></tr></thead>
+      <tbody>${bucketRows}</tbody>
+    </table>
+    ${batchRows ? `<p>Largest batches expiring within 90 days:</p>
+    <table class="data">
+      <thead><tr><th>Product</th><th>Batch</th><th>Expiry</th><th>Qty</th><th>Value</th><th>Status</th></tr></thead>
+      <tbody>${batchRows}</tbody>
+    </table>` : ""}
+    <p><strong>${dead.length}</strong> further batch(es) worth <strong>${rupiah(deadValue)}</strong> have not moved within the dead-stock period.</p>
+    <p>Open Expiry Management to plan discounts, supplier returns or write-offs.</p>`;
+
+  let sent = 0;
+  const seen = new Set<string>();
+  for (const user of (recipients ?? [])) {
+    if (!user.email || seen.has(user.email)) continue;
+    seen.add(user.email);
+    const ok = await sendViaGmail(
+      senderResult.token,
+      senderResult.email,
+      user.email,
+      `Expiry Digest: ${atRisk.length} batch(es) expiring, ${dead.length} dead`,
+      emailWrapper("Near-Expiry and Dead Stock Digest", htmlContent)
+    );
+    if (ok) sent++;
+  }
+
+  return { sent, at_risk_count: atRisk.length, dead_count: dead.length };
+}
+
 async function handlePaymentReminder(
   supabase: ReturnType<typeof createClient>,
   data: Record<string, unknown>,
@@ -400,6 +493,9 @@ Deno.serve(async (req: Request) => {
       case "payment_reminder":
         result = await handlePaymentReminder(supabase, data, sender_user_id);
         break;
+      case "expiry_digest":
+        result = await handleExpiryDigest(supabase);
+        break;
       default:
         return new Response(JSON.stringify({ error: "Unknown notification type" }), {
           status: 400,
@@ -0,0 +1,220 @@
+/*
+  # GRN Receiving Workflow
+
+  1. Problem
+    - `trg_create_batch_from_grn` inserts into batch columns that do not exist
+      (`purchase_date`, `quantity_purchased`, `cost_per_unit`, `currency`), so posting a GRN fails
+    - It also inserts its own purchase transaction, while `trg_auto_batch_purchase_transaction`
+      already creates one for every new batch (stock would be counted twice)
+    - Nothing stops a GRN from receiving more than is pending on the PO line
+    - PO status is derived from summed quantities, so an over-received line can mark
+      a PO as received while other lines are still open
+    - `post_grn_journal` books Dr Inventory / Cr A/P, but the purchase invoice already books
+      the same entry, so posting a GRN would double inventory and payables
+
+  2. Changes
+    - `goods_receipt_notes.import_container_id` - container the receipt belongs to
+    - Rewritten `trg_create_batch_from_grn`:
+      - Only approved / partially received POs can be received against
+      - Over-receipt per PO line is rejected
+      - Batches are created with the real batch columns (IDR price per unit, USD price and
+        exchange rate for USD POs, duty % from the product, expiry date, import container)
+      - The batch purchase transaction is re-tagged with the GRN reference
+      - PO status is recalculated per line: `received` when every line is fully received,
+        `partially_received` when anything has been received
+    - `trg_post_grn_journal` dropped: inventory and A/P are posted by the purchase invoice
+    - `vw_po_receipt_status` - ordered / received / pending per PO line for reconciliation
+*/
+
+ALTER TABLE goods_receipt_notes
+  ADD COLUMN IF NOT EXISTS import_container_id UUID REFERENCES import_containers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_grn_import_container ON goods_receipt_notes(import_container_id);
+
+-- ============================================
+-- 1. BATCH CREATION ON GRN POST
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trg_create_batch_from_grn()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_po RECORD;
+  v_batch_id UUID;
+  v_batch_number TEXT;
+  v_exchange_rate NUMERIC;
+  v_duty_percent NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = 'posted' AND OLD.status = 'draft' THEN
+
+    IF NEW.po_id IS NOT NULL THEN
+      SELECT id, po_number, status INTO v_po
+      FROM purchase_orders WHERE id = NEW.po_id
+      FOR UPDATE;
+
+      IF v_po.status NOT IN ('approved', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is %, goods can only be received against approved orders',
+          v_po.po_number, v_po.status;
+      END IF;
+
+      -- Over-receipt check per PO line (all GRN lines for the same PO line combined)
+      FOR v_item IN
+        SELECT poi.line_number, poi.description, poi.quantity_pending, SUM(gri.quantity_received) AS receiving
+        FROM goods_receipt_items gri
+        JOIN purchase_order_items poi ON poi.id = gri.po_item_id
+        WHERE gri.grn_id = NEW.id
+        GROUP BY poi.id, poi.line_number, poi.description, poi.quantity_pending
+        HAVING SUM(gri.quantity_received) > poi.quantity_pending
+      LOOP
+        RAISE EXCEPTION 'Line % (%): receiving % but only % pending on PO',
+          v_item.line_number, v_item.description, v_item.receiving, v_item.quantity_pending;
+      END LOOP;
+    END IF;
+
+    v_exchange_rate := COALESCE(NULLIF(NEW.exchange_rate, 0), 1);
+
+    FOR v_item IN
+      SELECT * FROM goods_receipt_items WHERE grn_id = NEW.id ORDER BY line_number
+    LOOP
+      IF v_item.quantity_received <= 0 THEN
+        CONTINUE;
+      END IF;
+
+      IF v_item.batch_number IS NULL OR v_item.batch_number = '' THEN
+        v_batch_number := NEW.grn_number || '-' || LPAD(v_item.line_number::TEXT, 2, '0');
+      ELSE
+        v_batch_number := v_item.batch_number;
+      END IF;
+
+      SELECT COALESCE(duty_percent, 0) INTO v_duty_percent
+      FROM products WHERE id = v_item.product_id;
+
+      INSERT INTO batches (
+        batch_number,
+        product_id,
+        import_container_id,
+        import_date,
+        import_quantity,
+        current_stock,
+        import_price,
+        import_price_usd,
+        exchange_rate_usd_to_idr,
+        duty_percent,
+        duty_charges,
+        expiry_date,
+        is_active,
+        created_by
+      ) VALUES (
+        v_batch_number,
+        v_item.product_id,
+        NEW.import_container_id,
+        NEW.grn_date,
+        v_item.quantity_received,
+        v_item.quantity_received,
+        ROUND(v_item.unit_cost * v_exchange_rate, 2),
+        CASE WHEN NEW.currency = 'USD' THEN v_item.unit_cost ELSE NULL END,
+        CASE WHEN NEW.currency = 'USD' THEN v_exchange_rate ELSE NULL END,
+        v_duty_percent,
+        ROUND(v_item.unit_cost * v_exchange_rate * v_duty_percent / 100, 2),
+        v_item.expiry_date,
+        true,
+        COALESCE(NEW.created_by, auth.uid())
+      )
+      RETURNING id INTO v_batch_id;
+
+      UPDATE goods_receipt_items
+      SET batch_id = v_batch_id,
+          batch_number = v_batch_number
+      WHERE id = v_item.id;
+
+      -- trg_auto_batch_purchase_transaction already created the purchase movement
+      UPDATE inventory_transactions
+      SET reference_number = NEW.grn_number,
+          reference_type = 'goods_receipt_note',
+          reference_id = NEW.id,
+          notes = 'GRN: ' || NEW.grn_number || ' - Batch ' || v_batch_number
+      WHERE batch_id = v_batch_id
+        AND transaction_type = 'purchase';
+    END LOOP;
+
+    IF NEW.po_id IS NOT NULL THEN
+      UPDATE purchase_order_items poi
+      SET quantity_received = poi.quantity_received + r.receiving
+      FROM (
+        SELECT po_item_id, SUM(quantity_received) AS receiving
+        FROM goods_receipt_items
+        WHERE grn_id = NEW.id AND po_item_id IS NOT NULL
+        GROUP BY po_item_id
+      ) r
+      WHERE poi.id = r.po_item_id;
+
+      UPDATE purchase_orders po
+      SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE po_id = po.id AND quantity_received < quantity
+        ) THEN 'received'
+        WHEN EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE po_id = po.id AND quantity_received > 0
+        ) THEN 'partially_received'
+        ELSE po.status
+      END
+      WHERE po.id = NEW.po_id;
+    END IF;
+
+    NEW.posted_at := NOW();
+    NEW.posted_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 2. GRN NO LONGER POSTS TO THE LEDGER
+-- ============================================
+
+DROP TRIGGER IF EXISTS trg_post_grn_journal ON goods_receipt_notes;
+
+-- ============================================
+-- 3. PO RECEIPT STATUS VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW vw_po_receipt_status
+WITH (security_invoker = true)
+AS
+SELECT
+  poi.id AS po_item_id,
+  poi.po_id,
+  po.po_number,
+  po.status AS po_status,
+  po.supplier_id,
+  poi.line_number,
+  poi.product_id,
+  poi.description,
+  poi.unit,
+  poi.quantity AS quantity_ordered,
+  poi.quantity_received,
+  poi.quantity_pending,
+  COALESCE(grn.grn_count, 0) AS grn_count,
+  COALESCE(grn.batch_count, 0) AS batch_count,
+  grn.last_received_date
+FROM purchase_order_items poi
+JOIN purchase_orders po ON po.id = poi.po_id
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(DISTINCT g.id) AS grn_count,
+    COUNT(gri.batch_id) AS batch_count,
+    MAX(g.grn_date) AS last_received_date
+  FROM goods_receipt_items gri
+  JOIN goods_receipt_notes g ON g.id = gri.grn_id
+  WHERE gri.po_item_id = poi.id
+    AND g.status = 'posted'
+) grn ON true;
+
+GRANT SELECT ON vw_po_receipt_status TO authenticated;
@@ -0,0 +1,363 @@
+/*
+  # Three-Way Match: PO / GRN / Purchase Invoice
+
+  1. Problem
+    - Purchase invoices have no link to the purchase order they bill, so nothing checks
+      that the supplier invoiced what was ordered and actually received
+    - Invoices with over-billed quantities or changed prices can be paid straight away
+
+  2. Changes
+    - `purchase_invoices.po_id` and `purchase_invoice_items.po_item_id` link invoices to PO lines
+    - `purchase_invoices.match_status`:
+      - `not_applicable` - invoice is not linked to a PO
+      - `matched` - every line is within tolerance
+      - `variance` - at least one line is outside tolerance, payment blocked
+      - `approved` - variance approved by a manager, payment allowed
+    - `app_settings.match_qty_tolerance_percent` / `match_price_tolerance_percent`
+    - `vw_purchase_invoice_match` - per invoice line: ordered, received (posted GRNs),
+      invoiced (all open invoices on the PO line), PO vs invoice price and variance flags
+    - `fn_three_way_match(invoice_id)` - evaluates the invoice, stores the result and raises a
+      `purchase_invoice_variance` approval request when a variance is found
+    - Approving / rejecting the request in `approval_workflows` updates the invoice
+    - `voucher_allocations` rejects payments against invoices with an unapproved variance
+    - Posting a GRN re-runs the match for the open invoices on its PO, so an invoice entered
+      before the goods arrived clears its variance once they are received
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE purchase_invoices
+  ADD COLUMN IF NOT EXISTS po_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS match_status TEXT NOT NULL DEFAULT 'not_applicable'
+    CHECK (match_status IN ('not_applicable', 'matched', 'variance', 'approved')),
+  ADD COLUMN IF NOT EXISTS match_checked_at TIMESTAMPTZ;
+
+ALTER TABLE purchase_invoice_items
+  ADD COLUMN IF NOT EXISTS po_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_invoices_po ON purchase_invoices(po_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_invoices_match_status ON purchase_invoices(match_status);
+CREATE INDEX IF NOT EXISTS idx_purchase_invoice_items_po_item ON purchase_invoice_items(po_item_id);
+
+ALTER TABLE app_settings
+  ADD COLUMN IF NOT EXISTS match_qty_tolerance_percent NUMERIC(5,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS match_price_tolerance_percent NUMERIC(5,2) DEFAULT 2;
+
+ALTER TABLE approval_workflows DROP CONSTRAINT IF EXISTS approval_workflows_transaction_type_check;
+ALTER TABLE approval_workflows ADD CONSTRAINT approval_workflows_transaction_type_check
+  CHECK (transaction_type IN (
+    'material_return',
+    'stock_rejection',
+    'purchase_approval',
+    'expense_approval',
+    'purchase_invoice_variance'
+  ));
+
+-- ============================================
+-- 2. MATCH VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW vw_purchase_invoice_match
+WITH (security_invoker = true)
+AS
+WITH tolerance AS (
+  SELECT
+    COALESCE(MAX(match_qty_tolerance_percent), 0) AS qty_pct,
+    COALESCE(MAX(match_price_tolerance_percent), 0) AS price_pct
+  FROM app_settings
+),
+lines AS (
+  SELECT
+    pii.id AS invoice_item_id,
+    pi.id AS purchase_invoice_id,
+    pi.invoice_number,
+    pi.po_id,
+    pii.po_item_id,
+    pii.item_type,
+    pii.product_id,
+    pii.description,
+    pii.quantity AS invoiced_quantity,
+    pii.unit_price AS invoiced_unit_price,
+    poi.line_number AS po_line_number,
+    poi.quantity AS ordered_quantity,
+    CASE WHEN poi.quantity > 0 THEN ROUND(poi.line_total / poi.quantity, 4) END AS po_unit_price,
+    -- Compare prices in IDR only when the PO and invoice currencies differ
+    CASE WHEN COALESCE(po.currency, 'IDR') = COALESCE(pi.currency, 'IDR') THEN 1
+         ELSE COALESCE(NULLIF(pi.exchange_rate, 0), 1) END AS invoice_rate,
+    CASE WHEN COALESCE(po.currency, 'IDR') = COALESCE(pi.currency, 'IDR') THEN 1
+         ELSE COALESCE(NULLIF(po.exchange_rate, 0), 1) END AS po_rate,
+    COALESCE((
+      SELECT SUM(gri.quantity_received)
+      FROM goods_receipt_items gri
+      JOIN goods_receipt_notes g ON g.id = gri.grn_id
+      WHERE gri.po_item_id = pii.po_item_id
+        AND g.status = 'posted'
+    ), 0) AS received_quantity,
+    COALESCE((
+      SELECT SUM(other.quantity)
+      FROM purchase_invoice_items other
+      JOIN purchase_invoices opi ON opi.id = other.purchase_invoice_id
+      WHERE other.po_item_id = pii.po_item_id
+        AND opi.status <> 'cancelled'
+    ), 0) AS total_invoiced_quantity
+  FROM purchase_invoice_items pii
+  JOIN purchase_invoices pi ON pi.id = pii.purchase_invoice_id
+  LEFT JOIN purchase_order_items poi ON poi.id = pii.po_item_id
+  LEFT JOIN purchase_orders po ON po.id = poi.po_id
+  WHERE pi.po_id IS NOT NULL OR pii.po_item_id IS NOT NULL
+)
+SELECT
+  l.invoice_item_id,
+  l.purchase_invoice_id,
+  l.invoice_number,
+  l.po_id,
+  l.po_item_id,
+  l.po_line_number,
+  l.item_type,
+  l.product_id,
+  l.description,
+  l.ordered_quantity,
+  l.received_quantity,
+  l.invoiced_quantity,
+  l.total_invoiced_quantity,
+  l.total_invoiced_quantity - l.received_quantity AS quantity_variance,
+  l.po_unit_price,
+  l.invoiced_unit_price,
+  CASE WHEN l.po_unit_price > 0 THEN
+    ROUND(((l.invoiced_unit_price * l.invoice_rate) - (l.po_unit_price * l.po_rate))
+      / (l.po_unit_price * l.po_rate) * 100, 2)
+  END AS price_variance_percent,
+  CASE
+    WHEN l.po_item_id IS NULL THEN l.item_type = 'inventory'
+    WHEN l.total_invoiced_quantity > l.received_quantity * (1 + t.qty_pct / 100) THEN true
+    ELSE false
+  END AS quantity_flag,
+  CASE
+    WHEN l.po_item_id IS NULL OR COALESCE(l.po_unit_price, 0) = 0 THEN false
+    WHEN ABS((l.invoiced_unit_price * l.invoice_rate) - (l.po_unit_price * l.po_rate))
+      > (l.po_unit_price * l.po_rate) * t.price_pct / 100 THEN true
+    ELSE false
+  END AS price_flag,
+  CASE
+    WHEN l.po_item_id IS NULL AND l.item_type = 'inventory' THEN 'Inventory line not on the purchase order'
+    WHEN l.po_item_id IS NULL THEN NULL
+    WHEN l.received_quantity = 0 THEN 'Nothing received yet against this PO line'
+    WHEN l.total_invoiced_quantity > l.received_quantity * (1 + t.qty_pct / 100) THEN 'Invoiced more than received'
+  END AS quantity_note
+FROM lines l
+CROSS JOIN tolerance t;
+
+GRANT SELECT ON vw_purchase_invoice_match TO authenticated;
+
+-- ============================================
+-- 3. EVALUATE INVOICE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION fn_three_way_match(p_invoice_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice RECORD;
+  v_linked BOOLEAN;
+  v_variances JSONB;
+  v_status TEXT;
+BEGIN
+  SELECT id, invoice_number, po_id, total_amount, match_status INTO v_invoice
+  FROM purchase_invoices WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase invoice % not found', p_invoice_id;
+  END IF;
+
+  SELECT
+    COUNT(*) > 0,
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'description', description,
+      'po_line_number', po_line_number,
+      'received_quantity', received_quantity,
+      'invoiced_quantity', total_invoiced_quantity,
+      'po_unit_price', po_unit_price,
+      'invoiced_unit_price', invoiced_unit_price,
+      'price_variance_percent', price_variance_percent,
+      'quantity_flag', quantity_flag,
+      'price_flag', price_flag
+    )) FILTER (WHERE quantity_flag OR price_flag), '[]'::jsonb)
+  INTO v_linked, v_variances
+  FROM vw_purchase_invoice_match
+  WHERE purchase_invoice_id = p_invoice_id;
+
+  IF NOT v_linked THEN
+    v_status := 'not_applicable';
+  ELSIF jsonb_array_length(v_variances) = 0 THEN
+    v_status := 'matched';
+  ELSIF EXISTS (
+    -- An approval only covers the invoice total it was given for
+    SELECT 1 FROM approval_workflows
+    WHERE transaction_type = 'purchase_invoice_variance'
+      AND transaction_id = p_invoice_id
+      AND status = 'approved'
+      AND amount = v_invoice.total_amount
+  ) THEN
+    v_status := 'approved';
+  ELSE
+    v_status := 'variance';
+
+    IF NOT EXISTS (
+      SELECT 1 FROM approval_workflows
+      WHERE transaction_type = 'purchase_invoice_variance'
+        AND transaction_id = p_invoice_id
+        AND status = 'pending'
+    ) AND auth.uid() IS NOT NULL THEN
+      INSERT INTO approval_workflows (
+        transaction_type, transaction_id, requested_by, amount, status, notes, metadata
+      ) VALUES (
+        'purchase_invoice_variance',
+        p_invoice_id,
+        auth.uid(),
+        v_invoice.total_amount,
+        'pending',
+        'Three-way match variance on purchase invoice ' || v_invoice.invoice_number,
+        jsonb_build_object('required_role', 'manager', 'variances', v_variances)
+      );
+    ELSE
+      UPDATE approval_workflows
+      SET amount = v_invoice.total_amount,
+          metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('variances', v_variances),
+          updated_at = NOW()
+      WHERE transaction_type = 'purchase_invoice_variance'
+        AND transaction_id = p_invoice_id
+        AND status = 'pending';
+    END IF;
+  END IF;
+
+  -- Nothing left to approve
+  IF v_status IN ('matched', 'not_applicable') THEN
+    DELETE FROM approval_workflows
+    WHERE transaction_type = 'purchase_invoice_variance'
+      AND transaction_id = p_invoice_id
+      AND status = 'pending';
+  END IF;
+
+  UPDATE purchase_invoices
+  SET match_status = v_status,
+      match_checked_at = NOW()
+  WHERE id = p_invoice_id;
+
+  RETURN v_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fn_three_way_match(UUID) TO authenticated;
+
+-- ============================================
+-- 4. APPROVAL DECISION UPDATES THE INVOICE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trg_sync_invoice_variance_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.transaction_type = 'purchase_invoice_variance' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'approved' THEN
+      UPDATE purchase_invoices
+      SET match_status = 'approved'
+      WHERE id = NEW.transaction_id
+        AND match_status = 'variance';
+    ELSIF NEW.status = 'rejected' THEN
+      UPDATE purchase_invoices
+      SET match_status = 'variance'
+      WHERE id = NEW.transaction_id
+        AND match_status = 'approved';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_invoice_variance_approval ON approval_workflows;
+CREATE TRIGGER trg_sync_invoice_variance_approval
+  AFTER UPDATE ON approval_workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_sync_invoice_variance_approval();
+
+-- ============================================
+-- 5. PAYMENT BLOCK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trg_block_unmatched_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice RECORD;
+BEGIN
+  IF NEW.purchase_invoice_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT invoice_number, match_status INTO v_invoice
+  FROM purchase_invoices WHERE id = NEW.purchase_invoice_id;
+
+  IF v_invoice.match_status = 'variance' THEN
+    RAISE EXCEPTION 'Purchase invoice % has a three-way match variance awaiting manager approval',
+      v_invoice.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_block_unmatched_invoice_payment ON voucher_allocations;
+CREATE TRIGGER trg_block_unmatched_invoice_payment
+  BEFORE INSERT OR UPDATE OF purchase_invoice_id ON voucher_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_block_unmatched_invoice_payment();
+
+-- ============================================
+-- 6. RE-MATCH WHEN GOODS ARE RECEIVED
+-- ============================================
+
+-- AFTER trigger: the posted GRN must be visible to vw_purchase_invoice_match
+CREATE OR REPLACE FUNCTION trg_rematch_invoices_on_grn()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id UUID;
+BEGIN
+  FOR v_invoice_id IN
+    SELECT DISTINCT pi.id
+    FROM purchase_invoices pi
+    JOIN purchase_invoice_items pii ON pii.purchase_invoice_id = pi.id
+    JOIN goods_receipt_items gri ON gri.po_item_id = pii.po_item_id
+    WHERE gri.grn_id = NEW.id
+      AND pi.status NOT IN ('paid', 'cancelled')
+      AND pi.match_status <> 'not_applicable'
+  LOOP
+    PERFORM fn_three_way_match(v_invoice_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_rematch_invoices_on_grn ON goods_receipt_notes;
+CREATE TRIGGER trg_rematch_invoices_on_grn
+  AFTER UPDATE OF status ON goods_receipt_notes
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status AND (NEW.status = 'posted' OR OLD.status = 'posted'))
+  EXECUTE FUNCTION trg_rematch_invoices_on_grn();
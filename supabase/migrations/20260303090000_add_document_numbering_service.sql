@@ -0,0 +1,303 @@
+/*
+  # Document Numbering Service
+
+  1. Problem
+    - Sales invoice and delivery challan numbers are computed in the browser as MAX + 1, so two
+      users saving at the same time get the same number; on error the browser falls back to a
+      hard-coded `SAPJ-YY-001`
+    - Every other document type has its own generator (COUNT + 1, MAX + 1, a bare sequence),
+      none of them keyed by financial year and none of them gap-free
+    - Nothing records why a number is missing from the series
+
+  2. Changes
+    - `document_number_settings` - prefix, padding and start number per document type
+    - `document_number_sequences` - last number handed out per document type, prefix and
+      financial year (`get_current_financial_year()`)
+    - `document_number_voids` - audit trail of numbers that were deleted or voided
+    - `next_document_number(doc_type)` - atomically hands out the next number. It is called from
+      a BEFORE INSERT trigger, so a failed insert rolls the counter back and the series stays
+      gap-free
+    - `peek_document_number(doc_type)` - preview of the next number for forms (does not consume)
+    - `void_document_number(doc_type, number, reason)` - records a spoiled number (admin only)
+    - BEFORE INSERT triggers assign the number when none is supplied; AFTER DELETE triggers
+      record the deleted number as voided. Covers sales invoices, delivery challans, credit
+      notes, material returns, purchase orders, receipt vouchers and payment vouchers
+    - Counters start from the highest number already used in the current financial year
+*/
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS document_number_settings (
+  doc_type TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  prefix TEXT NOT NULL CHECK (prefix ~ '^[A-Za-z0-9/]+$'),
+  padding INTEGER NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  start_number INTEGER NOT NULL DEFAULT 1 CHECK (start_number >= 1),
+  table_name TEXT NOT NULL,
+  column_name TEXT NOT NULL,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS document_number_sequences (
+  doc_type TEXT NOT NULL REFERENCES document_number_settings(doc_type) ON DELETE CASCADE,
+  prefix TEXT NOT NULL,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (doc_type, prefix, financial_year)
+);
+
+CREATE TABLE IF NOT EXISTS document_number_voids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_type TEXT NOT NULL REFERENCES document_number_settings(doc_type),
+  document_number TEXT NOT NULL,
+  document_id UUID,
+  reason TEXT NOT NULL,
+  voided_by UUID REFERENCES user_profiles(id),
+  voided_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_number_voids_doc ON document_number_voids(doc_type, voided_at DESC);
+
+INSERT INTO document_number_settings (doc_type, label, prefix, padding, start_number, table_name, column_name)
+SELECT v.doc_type, v.label, v.prefix, v.padding, v.start_number, v.table_name, v.column_name
+FROM (
+  VALUES
+    ('sales_invoice', 'Sales Invoice',
+      COALESCE((SELECT NULLIF(regexp_replace(invoice_prefix, '-[0-9]+$', ''), '') FROM app_settings LIMIT 1), 'SAPJ'),
+      3, COALESCE((SELECT invoice_start_number FROM app_settings LIMIT 1), 1),
+      'sales_invoices', 'invoice_number'),
+    ('delivery_challan', 'Delivery Challan', 'DO', 4, 1, 'delivery_challans', 'challan_number'),
+    ('credit_note', 'Credit Note', 'CN', 4, 1, 'credit_notes', 'credit_note_number'),
+    ('material_return', 'Material Return', 'RET', 4, 1, 'material_returns', 'return_number'),
+    ('purchase_order', 'Purchase Order', 'PO', 4, 1, 'purchase_orders', 'po_number'),
+    ('receipt_voucher', 'Receipt Voucher', 'RV', 4, 1, 'receipt_vouchers', 'voucher_number'),
+    ('payment_voucher', 'Payment Voucher', 'PV', 4, 1, 'payment_vouchers', 'voucher_number')
+) AS v(doc_type, label, prefix, padding, start_number, table_name, column_name)
+ON CONFLICT (doc_type) DO NOTHING;
+
+ALTER TABLE document_number_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_number_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_number_voids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "document_number_settings_select"
+  ON document_number_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "document_number_settings_update"
+  ON document_number_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role = 'admin')
+  );
+
+CREATE POLICY "document_number_sequences_select"
+  ON document_number_sequences FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "document_number_voids_select"
+  ON document_number_voids FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================
+-- 2. NUMBER GENERATION
+-- ============================================
+
+-- Highest number already used for a prefix / year, so counters never collide with
+-- documents numbered by the old generators
+CREATE OR REPLACE FUNCTION document_number_floor(p_doc_type TEXT, p_prefix TEXT, p_financial_year TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_pattern TEXT;
+  v_max INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM document_number_settings WHERE doc_type = p_doc_type;
+
+  -- Prefixes are limited to letters, digits and '/', none of which need escaping
+  v_pattern := '^' || p_prefix || '-' || p_financial_year || '-([0-9]+)$';
+
+  EXECUTE format(
+    'SELECT COALESCE(MAX((substring(%1$I FROM %2$L))::INTEGER), 0) FROM %3$I WHERE %1$I ~ %2$L',
+    v_settings.column_name, v_pattern, v_settings.table_name
+  ) INTO v_max;
+
+  RETURN GREATEST(v_max, v_settings.start_number - 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION next_document_number(p_doc_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_year TEXT;
+  v_next INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM document_number_settings WHERE doc_type = p_doc_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown document type: %', p_doc_type;
+  END IF;
+
+  v_year := get_current_financial_year()::TEXT;
+
+  INSERT INTO document_number_sequences (doc_type, prefix, financial_year, last_number)
+  VALUES (p_doc_type, v_settings.prefix, v_year, document_number_floor(p_doc_type, v_settings.prefix, v_year))
+  ON CONFLICT (doc_type, prefix, financial_year) DO NOTHING;
+
+  -- Row lock is held until the calling transaction ends, which serialises concurrent saves
+  UPDATE document_number_sequences
+  SET last_number = last_number + 1,
+      updated_at = NOW()
+  WHERE doc_type = p_doc_type
+    AND prefix = v_settings.prefix
+    AND financial_year = v_year
+  RETURNING last_number INTO v_next;
+
+  RETURN v_settings.prefix || '-' || v_year || '-' || LPAD(v_next::TEXT, v_settings.padding, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION peek_document_number(p_doc_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_year TEXT;
+  v_last INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM document_number_settings WHERE doc_type = p_doc_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown document type: %', p_doc_type;
+  END IF;
+
+  v_year := get_current_financial_year()::TEXT;
+
+  SELECT last_number INTO v_last
+  FROM document_number_sequences
+  WHERE doc_type = p_doc_type
+    AND prefix = v_settings.prefix
+    AND financial_year = v_year;
+
+  IF v_last IS NULL THEN
+    v_last := document_number_floor(p_doc_type, v_settings.prefix, v_year);
+  END IF;
+
+  RETURN v_settings.prefix || '-' || v_year || '-' || LPAD((v_last + 1)::TEXT, v_settings.padding, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION void_document_number(p_doc_type TEXT, p_document_number TEXT, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can void document numbers';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a document number';
+  END IF;
+
+  INSERT INTO document_number_voids (doc_type, document_number, reason, voided_by)
+  VALUES (p_doc_type, TRIM(p_document_number), TRIM(p_reason), auth.uid())
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION next_document_number(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION peek_document_number(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION void_document_number(TEXT, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- 3. TRIGGERS
+-- ============================================
+
+-- TG_ARGV[0] = doc_type, TG_ARGV[1] = number column
+CREATE OR REPLACE FUNCTION trg_assign_document_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(to_jsonb(NEW) ->> TG_ARGV[1], '') = '' THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(TG_ARGV[1], next_document_number(TG_ARGV[0])));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_record_deleted_document_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  v_number := to_jsonb(OLD) ->> TG_ARGV[1];
+
+  IF COALESCE(v_number, '') <> '' THEN
+    INSERT INTO document_number_voids (doc_type, document_number, document_id, reason, voided_by)
+    VALUES (TG_ARGV[0], v_number, OLD.id, 'Document deleted', auth.uid());
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+-- Old per-table generators are replaced by the numbering service
+DROP TRIGGER IF EXISTS trigger_generate_po_number ON purchase_orders;
+DROP TRIGGER IF EXISTS generate_return_number_trigger ON material_returns;
+
+DO $$
+DECLARE
+  v_doc RECORD;
+BEGIN
+  FOR v_doc IN SELECT doc_type, table_name, column_name FROM document_number_settings LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_assign_document_number ON %I', v_doc.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER trg_assign_document_number BEFORE INSERT ON %I
+         FOR EACH ROW EXECUTE FUNCTION trg_assign_document_number(%L, %L)',
+      v_doc.table_name, v_doc.doc_type, v_doc.column_name
+    );
+
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_record_deleted_document_number ON %I', v_doc.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER trg_record_deleted_document_number AFTER DELETE ON %I
+         FOR EACH ROW EXECUTE FUNCTION trg_record_deleted_document_number(%L, %L)',
+      v_doc.table_name, v_doc.doc_type, v_doc.column_name
+    );
+  END LOOP;
+END $$;
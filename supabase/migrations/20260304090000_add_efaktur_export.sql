@@ -0,0 +1,106 @@
+/*
+  # e-Faktur (Coretax) Export
+
+  1. Problem
+    - Tax reports are screen / print only, so every invoice is retyped into DJP Coretax
+    - Buyer NIK and NITKU (branch identity) and the company's own NPWP / NITKU are not stored,
+      so the data needed for the Coretax import does not exist
+
+  2. Changes
+    - `customers.nik`, `customers.nitku` - buyer identity for non-NPWP buyers and branch code
+    - `suppliers.nitku` - seller branch code on purchase invoices
+    - `app_settings.company_npwp` / `company_nitku` - seller identity on output tax invoices
+    - `vw_efaktur_output_lines` - one row per sales invoice line with buyer identity, DPP and PPN
+      (invoices without lines are returned with NULL line columns so they can be reported)
+    - `vw_efaktur_input_invoices` - purchase invoices with supplier NPWP / NITKU, faktur serial,
+      DPP and PPN converted to IDR
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS nik TEXT,
+  ADD COLUMN IF NOT EXISTS nitku TEXT;
+
+ALTER TABLE suppliers
+  ADD COLUMN IF NOT EXISTS nitku VARCHAR(30);
+
+ALTER TABLE app_settings
+  ADD COLUMN IF NOT EXISTS company_npwp TEXT,
+  ADD COLUMN IF NOT EXISTS company_nitku TEXT;
+
+COMMENT ON COLUMN customers.nik IS 'Buyer NIK (16 digits), used in e-Faktur when the buyer has no NPWP';
+COMMENT ON COLUMN customers.nitku IS 'Buyer NITKU (22 digits). Defaults to NPWP + 000000 (head office) when empty';
+COMMENT ON COLUMN suppliers.nitku IS 'Seller NITKU (22 digits) as printed on the supplier tax invoice';
+COMMENT ON COLUMN app_settings.company_npwp IS 'Company NPWP, seller TIN on output e-Faktur';
+COMMENT ON COLUMN app_settings.company_nitku IS 'Company NITKU, seller IDTKU on output e-Faktur';
+
+-- ============================================
+-- 2. OUTPUT PPN (SALES) EXPORT VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW vw_efaktur_output_lines
+WITH (security_invoker = true) AS
+SELECT
+  si.id AS invoice_id,
+  si.invoice_number,
+  si.invoice_date,
+  DATE_TRUNC('month', si.invoice_date)::date AS month,
+  si.faktur_pajak_number,
+  si.subtotal AS invoice_dpp,
+  si.tax_amount AS invoice_ppn,
+  c.id AS customer_id,
+  c.company_name AS customer_name,
+  c.npwp AS customer_npwp,
+  c.nik AS customer_nik,
+  c.nitku AS customer_nitku,
+  c.address AS customer_address,
+  c.city AS customer_city,
+  c.country AS customer_country,
+  sii.id AS item_id,
+  p.product_code,
+  p.product_name,
+  p.unit,
+  sii.quantity,
+  sii.unit_price,
+  sii.tax_rate,
+  ROUND(sii.quantity * sii.unit_price, 2) AS line_dpp,
+  sii.tax_amount AS line_ppn
+FROM sales_invoices si
+JOIN customers c ON c.id = si.customer_id
+LEFT JOIN sales_invoice_items sii ON sii.invoice_id = si.id
+LEFT JOIN products p ON p.id = sii.product_id
+WHERE si.tax_amount > 0
+  AND COALESCE(si.is_draft, false) = false;
+
+GRANT SELECT ON vw_efaktur_output_lines TO authenticated;
+
+-- ============================================
+-- 3. INPUT PPN (PURCHASES) EXPORT VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW vw_efaktur_input_invoices
+WITH (security_invoker = true) AS
+SELECT
+  pi.id AS invoice_id,
+  pi.invoice_number,
+  pi.invoice_date,
+  DATE_TRUNC('month', pi.invoice_date)::date AS month,
+  pi.faktur_pajak_number,
+  pi.currency,
+  COALESCE(pi.exchange_rate, 1) AS exchange_rate,
+  ROUND(pi.subtotal * COALESCE(pi.exchange_rate, 1), 2) AS dpp_idr,
+  ROUND(pi.tax_amount * COALESCE(pi.exchange_rate, 1), 2) AS ppn_idr,
+  s.id AS supplier_id,
+  s.company_name AS supplier_name,
+  s.npwp AS supplier_npwp,
+  s.nitku AS supplier_nitku,
+  s.pkp_status AS supplier_pkp
+FROM purchase_invoices pi
+JOIN suppliers s ON s.id = pi.supplier_id
+WHERE pi.tax_amount > 0
+  AND pi.status NOT IN ('draft', 'cancelled');
+
+GRANT SELECT ON vw_efaktur_input_invoices TO authenticated;
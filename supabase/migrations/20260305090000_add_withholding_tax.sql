@@ -0,0 +1,479 @@
+/*
+  # PPh 22 / 23 Withholding Tax
+
+  1. Problem
+    - Payment vouchers take a PPh code but always post the withholding to PPh 23 Payable (2132)
+      and base it on the gross payment
+    - Receipt vouchers have no way to record PPh withheld by customers (BUMN / industry PPh 22
+      collectors, PPh 23 on services), so the A/R stays open for the withheld amount
+    - No bukti potong (withholding slip) is kept for either side
+
+  2. Changes
+    - Chart of accounts: 1160 Prepaid PPh 22, 1161 Prepaid PPh 23, 2134 PPh 4(2) Payable
+    - `tax_codes.applies_to_payments` / `applies_to_receipts` decide where a withholding code is offered
+    - `tax_codes.payment_account_id` - payable account when we withhold from a supplier
+    - `tax_codes.collection_account_id` - prepaid tax account when a customer withholds from us
+    - New code PPH22-1.5 (PPh 22 withheld by collectors, 1.5%)
+    - `payment_vouchers.pph_base_amount`, `receipt_vouchers.pph_amount / pph_code_id / pph_base_amount / net_amount`
+    - `withholding_certificates` - one bukti potong per voucher with withholding
+      - `issued` - we withheld from a supplier and must issue and remit it
+      - `received` - a customer withheld from us; the slip is our tax credit
+    - Voucher journal triggers post PPh to the tax code's account. They also run on UPDATE: a change
+      to the amount, PPh, date or bank account replaces the voucher journal, so the ledger follows
+      the edited certificate. A bank statement line matched to the old journal moves to the new one
+    - `vw_withholding_tax_report` - certificates with party NPWP and tax code, by month
+*/
+
+-- ============================================
+-- 1. ACCOUNTS AND TAX CODES
+-- ============================================
+
+INSERT INTO chart_of_accounts (code, name, name_id, account_type, account_group, is_header, normal_balance) VALUES
+('1160', 'Prepaid PPh 22', 'Uang Muka PPh 22', 'asset', 'Current Assets', false, 'debit'),
+('1161', 'Prepaid PPh 23', 'Uang Muka PPh 23', 'asset', 'Current Assets', false, 'debit'),
+('2134', 'PPh 4(2) Payable', 'Utang PPh 4(2)', 'liability', 'Current Liabilities', false, 'credit')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE tax_codes
+  ADD COLUMN IF NOT EXISTS applies_to_payments BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS applies_to_receipts BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN tax_codes.payment_account_id IS 'Withholding: payable account credited when we withhold from a supplier payment';
+COMMENT ON COLUMN tax_codes.collection_account_id IS 'Withholding: prepaid tax account debited when a customer withholds from a receipt';
+
+INSERT INTO tax_codes (code, name, tax_type, rate, is_withholding) VALUES
+('PPH22-1.5', 'PPh 22 - Collector 1.5%', 'PPh22', 1.50, true)
+ON CONFLICT (code) DO NOTHING;
+
+UPDATE tax_codes SET
+  applies_to_payments = false,
+  applies_to_receipts = true,
+  collection_account_id = (SELECT id FROM chart_of_accounts WHERE code = '1160')
+WHERE code = 'PPH22-1.5';
+
+UPDATE tax_codes SET
+  applies_to_payments = true,
+  applies_to_receipts = true,
+  payment_account_id = (SELECT id FROM chart_of_accounts WHERE code = '2132'),
+  collection_account_id = (SELECT id FROM chart_of_accounts WHERE code = '1161')
+WHERE code = 'PPH23-2';
+
+UPDATE tax_codes SET
+  applies_to_payments = true,
+  payment_account_id = (SELECT id FROM chart_of_accounts WHERE code = '2132')
+WHERE code = 'PPH23-15';
+
+UPDATE tax_codes SET
+  applies_to_payments = true,
+  payment_account_id = (SELECT id FROM chart_of_accounts WHERE code = '2134')
+WHERE code = 'PPH4(2)';
+
+-- Import PPh 22 is paid at customs through the import costing module, not through vouchers
+UPDATE tax_codes SET applies_to_payments = false, applies_to_receipts = false
+WHERE code IN ('PPH22', 'PPH21');
+
+-- ============================================
+-- 2. VOUCHER COLUMNS
+-- ============================================
+
+ALTER TABLE payment_vouchers
+  ADD COLUMN IF NOT EXISTS pph_base_amount DECIMAL(18,2);
+
+ALTER TABLE receipt_vouchers
+  ADD COLUMN IF NOT EXISTS pph_amount DECIMAL(18,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS pph_code_id UUID REFERENCES tax_codes(id),
+  ADD COLUMN IF NOT EXISTS pph_base_amount DECIMAL(18,2),
+  ADD COLUMN IF NOT EXISTS net_amount DECIMAL(18,2) GENERATED ALWAYS AS (amount - COALESCE(pph_amount, 0)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_receipt_vouchers_pph_code ON receipt_vouchers(pph_code_id);
+
+-- ============================================
+-- 3. WITHHOLDING CERTIFICATES (BUKTI POTONG)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS withholding_certificates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  direction TEXT NOT NULL CHECK (direction IN ('issued', 'received')),
+  tax_code_id UUID NOT NULL REFERENCES tax_codes(id),
+  payment_voucher_id UUID UNIQUE REFERENCES payment_vouchers(id) ON DELETE CASCADE,
+  receipt_voucher_id UUID UNIQUE REFERENCES receipt_vouchers(id) ON DELETE CASCADE,
+  supplier_id UUID REFERENCES suppliers(id),
+  customer_id UUID REFERENCES customers(id),
+  transaction_date DATE NOT NULL,
+  tax_base DECIMAL(18,2) NOT NULL,
+  rate DECIMAL(5,2) NOT NULL,
+  tax_amount DECIMAL(18,2) NOT NULL,
+  certificate_number TEXT,
+  certificate_date DATE,
+  notes TEXT,
+  updated_by UUID REFERENCES user_profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (
+    (direction = 'issued' AND payment_voucher_id IS NOT NULL AND receipt_voucher_id IS NULL)
+    OR (direction = 'received' AND receipt_voucher_id IS NOT NULL AND payment_voucher_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_withholding_certificates_date ON withholding_certificates(transaction_date);
+CREATE INDEX IF NOT EXISTS idx_withholding_certificates_tax_code ON withholding_certificates(tax_code_id);
+CREATE INDEX IF NOT EXISTS idx_withholding_certificates_supplier ON withholding_certificates(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_withholding_certificates_customer ON withholding_certificates(customer_id);
+
+ALTER TABLE withholding_certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "withholding_certificates_select"
+  ON withholding_certificates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "withholding_certificates_update"
+  ON withholding_certificates FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  );
+
+-- Keeps one certificate per voucher in line with the voucher's withholding.
+-- The certificate number / date entered by accounts are preserved on re-sync.
+CREATE OR REPLACE FUNCTION sync_withholding_certificate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate DECIMAL(5,2);
+  v_base DECIMAL(18,2);
+BEGIN
+  IF COALESCE(NEW.pph_amount, 0) <= 0 OR NEW.pph_code_id IS NULL THEN
+    IF TG_TABLE_NAME = 'payment_vouchers' THEN
+      DELETE FROM withholding_certificates WHERE payment_voucher_id = NEW.id;
+    ELSE
+      DELETE FROM withholding_certificates WHERE receipt_voucher_id = NEW.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT rate INTO v_rate FROM tax_codes WHERE id = NEW.pph_code_id;
+  v_base := COALESCE(NEW.pph_base_amount, NEW.amount);
+
+  IF TG_TABLE_NAME = 'payment_vouchers' THEN
+    INSERT INTO withholding_certificates (
+      direction, tax_code_id, payment_voucher_id, supplier_id,
+      transaction_date, tax_base, rate, tax_amount
+    ) VALUES (
+      'issued', NEW.pph_code_id, NEW.id, NEW.supplier_id,
+      NEW.voucher_date, v_base, v_rate, NEW.pph_amount
+    )
+    ON CONFLICT (payment_voucher_id) DO UPDATE SET
+      tax_code_id = EXCLUDED.tax_code_id,
+      supplier_id = EXCLUDED.supplier_id,
+      transaction_date = EXCLUDED.transaction_date,
+      tax_base = EXCLUDED.tax_base,
+      rate = EXCLUDED.rate,
+      tax_amount = EXCLUDED.tax_amount,
+      updated_at = now();
+  ELSE
+    INSERT INTO withholding_certificates (
+      direction, tax_code_id, receipt_voucher_id, customer_id,
+      transaction_date, tax_base, rate, tax_amount
+    ) VALUES (
+      'received', NEW.pph_code_id, NEW.id, NEW.customer_id,
+      NEW.voucher_date, v_base, v_rate, NEW.pph_amount
+    )
+    ON CONFLICT (receipt_voucher_id) DO UPDATE SET
+      tax_code_id = EXCLUDED.tax_code_id,
+      customer_id = EXCLUDED.customer_id,
+      transaction_date = EXCLUDED.transaction_date,
+      tax_base = EXCLUDED.tax_base,
+      rate = EXCLUDED.rate,
+      tax_amount = EXCLUDED.tax_amount,
+      updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_payment_withholding ON payment_vouchers;
+CREATE TRIGGER trg_sync_payment_withholding
+  AFTER INSERT OR UPDATE OF pph_amount, pph_code_id, pph_base_amount, amount, voucher_date, supplier_id
+  ON payment_vouchers
+  FOR EACH ROW EXECUTE FUNCTION sync_withholding_certificate();
+
+DROP TRIGGER IF EXISTS trg_sync_receipt_withholding ON receipt_vouchers;
+CREATE TRIGGER trg_sync_receipt_withholding
+  AFTER INSERT OR UPDATE OF pph_amount, pph_code_id, pph_base_amount, amount, voucher_date, customer_id
+  ON receipt_vouchers
+  FOR EACH ROW EXECUTE FUNCTION sync_withholding_certificate();
+
+-- Certificates for vouchers posted before this migration
+INSERT INTO withholding_certificates (
+  direction, tax_code_id, payment_voucher_id, supplier_id,
+  transaction_date, tax_base, rate, tax_amount
+)
+SELECT 'issued', pv.pph_code_id, pv.id, pv.supplier_id,
+       pv.voucher_date, pv.amount, tc.rate, pv.pph_amount
+FROM payment_vouchers pv
+JOIN tax_codes tc ON tc.id = pv.pph_code_id
+WHERE COALESCE(pv.pph_amount, 0) > 0
+ON CONFLICT (payment_voucher_id) DO NOTHING;
+
+-- ============================================
+-- 4. JOURNAL POSTING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION post_payment_voucher_journal()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_credit_account_id UUID;
+  v_debit_account_id UUID;
+  v_pph_account_id UUID;
+  v_net_amount DECIMAL(18,2);
+BEGIN
+  -- Edits repost only when a column the journal carries has changed; the old entry is removed
+  -- by trg_remove_replaced_voucher_journal once the voucher points at the new one
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.amount IS NOT DISTINCT FROM OLD.amount
+       AND NEW.pph_amount IS NOT DISTINCT FROM OLD.pph_amount
+       AND NEW.pph_code_id IS NOT DISTINCT FROM OLD.pph_code_id
+       AND NEW.voucher_date IS NOT DISTINCT FROM OLD.voucher_date
+       AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+       AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method THEN
+      RETURN NEW;
+    END IF;
+    NEW.journal_entry_id := NULL;
+  END IF;
+
+  -- IDEMPOTENCY: Never create a second JE if one already exists
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Determine credit account (bank/cash paying out money)
+  IF NEW.bank_account_id IS NOT NULL THEN
+    SELECT coa_id INTO v_credit_account_id FROM bank_accounts WHERE id = NEW.bank_account_id;
+  ELSIF NEW.payment_method = 'cash' THEN
+    SELECT id INTO v_credit_account_id FROM chart_of_accounts WHERE code = '1101' LIMIT 1;
+  END IF;
+
+  IF v_credit_account_id IS NULL THEN
+    SELECT id INTO v_credit_account_id FROM chart_of_accounts WHERE code = '1111' LIMIT 1;
+  END IF;
+
+  -- Determine debit account (A/P or custom)
+  IF NEW.coa_account_id IS NOT NULL THEN
+    v_debit_account_id := NEW.coa_account_id;
+  ELSE
+    SELECT id INTO v_debit_account_id FROM chart_of_accounts WHERE code = '2110' LIMIT 1;
+  END IF;
+
+  -- PPh payable account from the withholding code, PPh 23 Payable when not configured
+  IF NEW.pph_code_id IS NOT NULL THEN
+    SELECT payment_account_id INTO v_pph_account_id FROM tax_codes WHERE id = NEW.pph_code_id;
+  END IF;
+  IF v_pph_account_id IS NULL THEN
+    SELECT id INTO v_pph_account_id FROM chart_of_accounts WHERE code = '2132' LIMIT 1;
+  END IF;
+
+  IF v_credit_account_id IS NULL OR v_debit_account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_net_amount := NEW.amount - COALESCE(NEW.pph_amount, 0);
+  v_je_number := next_journal_entry_number();
+
+  INSERT INTO journal_entries (
+    entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by
+  ) VALUES (
+    v_je_number, NEW.voucher_date, 'payment', NEW.id, NEW.voucher_number,
+    'Payment Voucher: ' || NEW.voucher_number,
+    NEW.amount, NEW.amount, true, NEW.created_by
+  ) RETURNING id INTO v_je_id;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, supplier_id)
+  VALUES (v_je_id, 1, v_debit_account_id, 'Payment - ' || NEW.voucher_number, NEW.amount, 0, NEW.supplier_id);
+
+  IF COALESCE(NEW.pph_amount, 0) > 0 AND v_pph_account_id IS NOT NULL THEN
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, supplier_id)
+    VALUES (v_je_id, 2, v_pph_account_id, 'PPh Withholding - ' || NEW.voucher_number, 0, NEW.pph_amount, NEW.supplier_id);
+  END IF;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, supplier_id)
+  VALUES (v_je_id, 3, v_credit_account_id, 'Cash Payment - ' || NEW.voucher_number, 0, v_net_amount, NEW.supplier_id);
+
+  NEW.journal_entry_id := v_je_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_receipt_voucher_journal()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_debit_account_id UUID;
+  v_credit_account_id UUID;
+  v_pph_account_id UUID;
+  v_net_amount DECIMAL(18,2);
+BEGIN
+  -- Edits repost only when a column the journal carries has changed; the old entry is removed
+  -- by trg_remove_replaced_voucher_journal once the voucher points at the new one
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.amount IS NOT DISTINCT FROM OLD.amount
+       AND NEW.pph_amount IS NOT DISTINCT FROM OLD.pph_amount
+       AND NEW.pph_code_id IS NOT DISTINCT FROM OLD.pph_code_id
+       AND NEW.voucher_date IS NOT DISTINCT FROM OLD.voucher_date
+       AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+       AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method THEN
+      RETURN NEW;
+    END IF;
+    NEW.journal_entry_id := NULL;
+  END IF;
+
+  -- IDEMPOTENCY: Never create a second JE if one already exists
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Determine debit account (bank/cash account receiving money)
+  IF NEW.bank_account_id IS NOT NULL THEN
+    SELECT coa_id INTO v_debit_account_id FROM bank_accounts WHERE id = NEW.bank_account_id;
+  ELSIF NEW.payment_method = 'cash' THEN
+    SELECT id INTO v_debit_account_id FROM chart_of_accounts WHERE code = '1101' LIMIT 1;
+  END IF;
+
+  IF v_debit_account_id IS NULL THEN
+    SELECT id INTO v_debit_account_id FROM chart_of_accounts WHERE code = '1111' LIMIT 1;
+  END IF;
+
+  -- Determine credit account (AR or custom)
+  IF NEW.coa_account_id IS NOT NULL THEN
+    v_credit_account_id := NEW.coa_account_id;
+  ELSE
+    SELECT id INTO v_credit_account_id FROM chart_of_accounts WHERE code = '1120' LIMIT 1;
+  END IF;
+
+  -- Prepaid PPh account from the withholding code, Prepaid PPh 23 when not configured
+  IF NEW.pph_code_id IS NOT NULL THEN
+    SELECT collection_account_id INTO v_pph_account_id FROM tax_codes WHERE id = NEW.pph_code_id;
+  END IF;
+  IF v_pph_account_id IS NULL THEN
+    SELECT id INTO v_pph_account_id FROM chart_of_accounts WHERE code = '1161' LIMIT 1;
+  END IF;
+
+  IF v_debit_account_id IS NULL OR v_credit_account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_net_amount := NEW.amount - COALESCE(NEW.pph_amount, 0);
+  v_je_number := next_journal_entry_number();
+
+  INSERT INTO journal_entries (
+    entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by
+  ) VALUES (
+    v_je_number, NEW.voucher_date, 'receipt', NEW.id, NEW.voucher_number,
+    'Receipt Voucher: ' || NEW.voucher_number,
+    NEW.amount, NEW.amount, true, NEW.created_by
+  ) RETURNING id INTO v_je_id;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+  VALUES (v_je_id, 1, v_debit_account_id, 'Cash Receipt - ' || NEW.voucher_number, v_net_amount, 0, NEW.customer_id);
+
+  IF COALESCE(NEW.pph_amount, 0) > 0 AND v_pph_account_id IS NOT NULL THEN
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+    VALUES (v_je_id, 2, v_pph_account_id, 'PPh Withheld by Customer - ' || NEW.voucher_number, NEW.pph_amount, 0, NEW.customer_id);
+  END IF;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+  VALUES (v_je_id, 3, v_credit_account_id, 'Receipt - ' || NEW.voucher_number, 0, NEW.amount, NEW.customer_id);
+
+  NEW.journal_entry_id := v_je_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_post_payment_voucher ON payment_vouchers;
+CREATE TRIGGER trg_post_payment_voucher
+  BEFORE INSERT OR UPDATE OF amount, pph_amount, pph_code_id, voucher_date, bank_account_id, payment_method
+  ON payment_vouchers
+  FOR EACH ROW EXECUTE FUNCTION post_payment_voucher_journal();
+
+DROP TRIGGER IF EXISTS trg_post_receipt_voucher ON receipt_vouchers;
+CREATE TRIGGER trg_post_receipt_voucher
+  BEFORE INSERT OR UPDATE OF amount, pph_amount, pph_code_id, voucher_date, bank_account_id, payment_method
+  ON receipt_vouchers
+  FOR EACH ROW EXECUTE FUNCTION post_receipt_voucher_journal();
+
+-- AFTER trigger: the voucher no longer references the replaced entry, so it can be deleted
+CREATE OR REPLACE FUNCTION remove_replaced_voucher_journal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE bank_statement_lines
+  SET matched_entry_id = NEW.journal_entry_id
+  WHERE matched_entry_id = OLD.journal_entry_id;
+
+  DELETE FROM journal_entry_lines WHERE journal_entry_id = OLD.journal_entry_id;
+  DELETE FROM journal_entries WHERE id = OLD.journal_entry_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_remove_replaced_voucher_journal ON payment_vouchers;
+CREATE TRIGGER trg_remove_replaced_voucher_journal
+  AFTER UPDATE ON payment_vouchers
+  FOR EACH ROW
+  WHEN (OLD.journal_entry_id IS NOT NULL AND OLD.journal_entry_id IS DISTINCT FROM NEW.journal_entry_id)
+  EXECUTE FUNCTION remove_replaced_voucher_journal();
+
+DROP TRIGGER IF EXISTS trg_remove_replaced_voucher_journal ON receipt_vouchers;
+CREATE TRIGGER trg_remove_replaced_voucher_journal
+  AFTER UPDATE ON receipt_vouchers
+  FOR EACH ROW
+  WHEN (OLD.journal_entry_id IS NOT NULL AND OLD.journal_entry_id IS DISTINCT FROM NEW.journal_entry_id)
+  EXECUTE FUNCTION remove_replaced_voucher_journal();
+
+-- ============================================
+-- 5. REPORT VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW vw_withholding_tax_report
+WITH (security_invoker = true) AS
+SELECT
+  wc.id,
+  wc.direction,
+  DATE_TRUNC('month', wc.transaction_date)::date AS month,
+  wc.transaction_date,
+  tc.code AS tax_code,
+  tc.name AS tax_name,
+  tc.tax_type,
+  wc.tax_base,
+  wc.rate,
+  wc.tax_amount,
+  wc.certificate_number,
+  wc.certificate_date,
+  wc.notes,
+  COALESCE(pv.voucher_number, rv.voucher_number) AS voucher_number,
+  COALESCE(s.company_name, c.company_name) AS party_name,
+  COALESCE(s.npwp, c.npwp) AS party_npwp
+FROM withholding_certificates wc
+JOIN tax_codes tc ON tc.id = wc.tax_code_id
+LEFT JOIN payment_vouchers pv ON pv.id = wc.payment_voucher_id
+LEFT JOIN receipt_vouchers rv ON rv.id = wc.receipt_voucher_id
+LEFT JOIN suppliers s ON s.id = wc.supplier_id
+LEFT JOIN customers c ON c.id = wc.customer_id;
+
+GRANT SELECT ON vw_withholding_tax_report TO authenticated;
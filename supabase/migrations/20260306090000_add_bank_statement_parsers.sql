@@ -0,0 +1,51 @@
+/*
+  # Bank Statement Parser Registry
+
+  1. Problem
+    - PDF statements are parsed by the `parse-bca-statement` edge function, which only knows
+      BCA's layout and fails the whole file on anything it cannot read
+    - Excel / CSV statements go through ad-hoc column guessing in the browser, so Mandiri, BNI
+      and the USD account exports do not import
+    - Nothing records which layout a bank account's statements come in, or which rows of an
+      upload were skipped
+
+  2. Changes
+    - `bank_accounts.statement_parser` - id of the parser in the browser's parser registry
+      (`bca_pdf`, `bca_tabular`, `mandiri_mcm`, `bni_direct`, `mt940`); NULL = auto-detect
+    - `bank_statement_uploads.parser_id` - parser that produced the upload
+    - `bank_statement_uploads.parse_warnings` - rows the parser skipped or flagged, as
+      `[{ line, message, raw }]`
+    - `bank-statements` bucket accepts the original CSV / Excel / MT940 files as well as PDFs,
+      so every upload keeps its source file
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE bank_accounts
+  ADD COLUMN IF NOT EXISTS statement_parser TEXT;
+
+ALTER TABLE bank_statement_uploads
+  ADD COLUMN IF NOT EXISTS parser_id TEXT,
+  ADD COLUMN IF NOT EXISTS parse_warnings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN bank_accounts.statement_parser IS
+  'Statement parser id used for uploads to this account; NULL means detect from the file';
+COMMENT ON COLUMN bank_statement_uploads.parse_warnings IS
+  'Per-line warnings from the statement parser: [{ line, message, raw }]';
+
+-- ============================================
+-- 2. STORAGE
+-- ============================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'text/csv',
+  'text/plain',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/octet-stream'
+]
+WHERE id = 'bank-statements';
@@ -0,0 +1,99 @@
+/*
+  # Bank Statement Continuity (MT940 / CAMT.053)
+
+  1. Problem
+    - Corporate portal exports (SWIFT MT940, ISO 20022 CAMT.053) carry a bank reference and
+      a value date per line, which have nowhere to go in `bank_statement_lines`
+    - Statements are imported without checking that they follow on from the previous one, so
+      a missing month or a statement imported twice only shows up later as unmatched lines or a
+      reconciliation difference
+
+  2. Changes
+    - `bank_statement_lines.value_date`, `bank_statement_lines.bank_reference`
+    - `bank_statement_uploads.continuity_issues` - balance / overlap problems the user
+      acknowledged when importing, as `[{ severity, message }]`
+    - `check_bank_statement_continuity(bank_account_id, start_date, end_date)` - returns the
+      balance the statement is expected to open with (closing balance of the previous statement,
+      or `bank_accounts.opening_balance` for the first one) and any earlier uploads whose period
+      overlaps. Uploads whose lines have all been cleared are ignored
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE bank_statement_lines
+  ADD COLUMN IF NOT EXISTS value_date DATE,
+  ADD COLUMN IF NOT EXISTS bank_reference TEXT;
+
+ALTER TABLE bank_statement_uploads
+  ADD COLUMN IF NOT EXISTS continuity_issues JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_uploads_account_period
+  ON bank_statement_uploads(bank_account_id, statement_end_date);
+
+-- ============================================
+-- 2. CONTINUITY CHECK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION check_bank_statement_continuity(
+  p_bank_account_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+) RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_previous RECORD;
+  v_account RECORD;
+  v_overlaps JSON;
+BEGIN
+  SELECT u.statement_period, u.statement_end_date, u.closing_balance
+  INTO v_previous
+  FROM bank_statement_uploads u
+  WHERE u.bank_account_id = p_bank_account_id
+    AND u.status = 'completed'
+    AND u.statement_end_date < p_start_date
+    AND EXISTS (SELECT 1 FROM bank_statement_lines l WHERE l.upload_id = u.id)
+  ORDER BY u.statement_end_date DESC, u.created_at DESC
+  LIMIT 1;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'id', u.id,
+    'statement_period', u.statement_period,
+    'statement_start_date', u.statement_start_date,
+    'statement_end_date', u.statement_end_date
+  ) ORDER BY u.statement_start_date), '[]'::json)
+  INTO v_overlaps
+  FROM bank_statement_uploads u
+  WHERE u.bank_account_id = p_bank_account_id
+    AND u.status = 'completed'
+    AND u.statement_start_date <= p_end_date
+    AND u.statement_end_date >= p_start_date
+    AND EXISTS (SELECT 1 FROM bank_statement_lines l WHERE l.upload_id = u.id);
+
+  IF v_previous.statement_end_date IS NOT NULL THEN
+    RETURN json_build_object(
+      'expected_opening_balance', v_previous.closing_balance,
+      'opening_source', 'previous_statement',
+      'previous_period', v_previous.statement_period,
+      'previous_end_date', v_previous.statement_end_date,
+      'overlaps', v_overlaps
+    );
+  END IF;
+
+  SELECT opening_balance INTO v_account FROM bank_accounts WHERE id = p_bank_account_id;
+
+  RETURN json_build_object(
+    'expected_opening_balance', v_account.opening_balance,
+    'opening_source', CASE WHEN v_account.opening_balance IS NULL THEN NULL ELSE 'account_opening_balance' END,
+    'previous_period', NULL,
+    'previous_end_date', NULL,
+    'overlaps', v_overlaps
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_bank_statement_continuity(UUID, DATE, DATE) TO authenticated;
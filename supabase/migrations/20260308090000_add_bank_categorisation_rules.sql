@@ -0,0 +1,368 @@
+/*
+  # Bank Statement Categorisation Rules
+
+  1. Problem
+    - `auto_match_smart` only pairs statement lines with vouchers that already exist. Bank
+      charges, interest, tax and recurring rent never have a voucher to match, so every month
+      they are recorded one by one from the reconciliation screen
+
+  2. Changes
+    - `bank_categorisation_rules` - user-defined rules matching unmatched lines by description
+      (case-insensitive regex), amount range, direction (debit / credit) and bank account.
+      A rule either proposes or automatically records:
+        - `expense`: a bank-paid `finance_expenses` row (posted by `auto_post_expense_accounting`)
+        - `receipt`: a `receipt_vouchers` row for a customer, crediting `account_id` (default AR)
+        - `journal`: a journal entry between the bank's GL account and `account_id`
+    - `bank_statement_lines.suggested_rule_id` - proposal waiting for the user to accept,
+      `bank_statement_lines.dismissed_rule_id` - proposal the user rejected, not offered again
+    - `preview_bank_categorisation_rule(...)` - unmatched lines a rule would pick up
+    - `categorise_bank_line(line_id, rule_id)` - records one line with a rule, counts the hit
+    - `apply_bank_categorisation_rules(bank_account_id)` - runs all active rules by priority
+      over the unmatched lines; auto-create rules record, the rest propose
+*/
+
+-- ============================================
+-- 1. RULES TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS bank_categorisation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL DEFAULT 'debit' CHECK (direction IN ('debit', 'credit', 'any')),
+  description_pattern TEXT,
+  min_amount DECIMAL(18,2),
+  max_amount DECIMAL(18,2),
+  action TEXT NOT NULL CHECK (action IN ('expense', 'receipt', 'journal')),
+  expense_category TEXT,
+  customer_id UUID REFERENCES customers(id),
+  account_id UUID REFERENCES chart_of_accounts(id),
+  memo TEXT,
+  auto_create BOOLEAN NOT NULL DEFAULT false,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT bank_categorisation_rules_amount_range CHECK (
+    min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount
+  ),
+  CONSTRAINT bank_categorisation_rules_action_target CHECK (
+    (action = 'expense' AND direction = 'debit' AND expense_category IS NOT NULL)
+    OR (action = 'receipt' AND direction = 'credit' AND customer_id IS NOT NULL)
+    OR (action = 'journal' AND account_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_categorisation_rules_priority
+  ON bank_categorisation_rules(is_active, priority);
+
+-- Reject a broken regex when the rule is saved rather than when it is run
+CREATE OR REPLACE FUNCTION validate_bank_categorisation_rule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(NEW.description_pattern, '') <> '' THEN
+    BEGIN
+      PERFORM '' ~* NEW.description_pattern;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      RAISE EXCEPTION 'Invalid description pattern: %', SQLERRM;
+    END;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_bank_categorisation_rule ON bank_categorisation_rules;
+CREATE TRIGGER trg_validate_bank_categorisation_rule
+  BEFORE INSERT OR UPDATE ON bank_categorisation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_bank_categorisation_rule();
+
+ALTER TABLE bank_categorisation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view categorisation rules"
+  ON bank_categorisation_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin and accounts can manage categorisation rules"
+  ON bank_categorisation_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  );
+
+ALTER TABLE bank_statement_lines
+  ADD COLUMN IF NOT EXISTS suggested_rule_id UUID REFERENCES bank_categorisation_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS dismissed_rule_id UUID REFERENCES bank_categorisation_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_suggested_rule
+  ON bank_statement_lines(suggested_rule_id) WHERE suggested_rule_id IS NOT NULL;
+
+-- ============================================
+-- 2. MATCHING
+-- ============================================
+
+-- One test for preview, apply and recording. The amount is whichever side of the line is filled
+CREATE OR REPLACE FUNCTION bank_line_matches_rule(
+  p_line bank_statement_lines,
+  p_bank_account_id UUID,
+  p_direction TEXT,
+  p_description_pattern TEXT,
+  p_min_amount NUMERIC,
+  p_max_amount NUMERIC
+) RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (p_bank_account_id IS NULL OR p_line.bank_account_id = p_bank_account_id)
+    AND CASE p_direction
+      WHEN 'debit' THEN COALESCE(p_line.debit_amount, 0) > 0
+      WHEN 'credit' THEN COALESCE(p_line.credit_amount, 0) > 0
+      ELSE true
+    END
+    AND (COALESCE(p_description_pattern, '') = '' OR COALESCE(p_line.description, '') ~* p_description_pattern)
+    AND (p_min_amount IS NULL OR GREATEST(COALESCE(p_line.debit_amount, 0), COALESCE(p_line.credit_amount, 0)) >= p_min_amount)
+    AND (p_max_amount IS NULL OR GREATEST(COALESCE(p_line.debit_amount, 0), COALESCE(p_line.credit_amount, 0)) <= p_max_amount);
+$$;
+
+CREATE OR REPLACE FUNCTION preview_bank_categorisation_rule(
+  p_bank_account_id UUID,
+  p_direction TEXT,
+  p_description_pattern TEXT,
+  p_min_amount NUMERIC,
+  p_max_amount NUMERIC,
+  p_limit INTEGER DEFAULT 50
+) RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_total INTEGER;
+  v_lines JSON;
+BEGIN
+  SELECT COUNT(*) INTO v_total
+  FROM bank_statement_lines l
+  WHERE l.reconciliation_status = 'unmatched'
+    AND bank_line_matches_rule(l, p_bank_account_id, p_direction, p_description_pattern, p_min_amount, p_max_amount);
+
+  SELECT COALESCE(json_agg(row_to_json(t)), '[]'::json) INTO v_lines
+  FROM (
+    SELECT l.id, l.bank_account_id, l.transaction_date, l.description, l.reference,
+           l.debit_amount, l.credit_amount
+    FROM bank_statement_lines l
+    WHERE l.reconciliation_status = 'unmatched'
+      AND bank_line_matches_rule(l, p_bank_account_id, p_direction, p_description_pattern, p_min_amount, p_max_amount)
+    ORDER BY l.transaction_date DESC
+    LIMIT p_limit
+  ) t;
+
+  RETURN json_build_object('total', v_total, 'lines', v_lines);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION preview_bank_categorisation_rule(UUID, TEXT, TEXT, NUMERIC, NUMERIC, INTEGER) TO authenticated;
+
+-- ============================================
+-- 3. RECORDING A LINE WITH A RULE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION categorise_bank_line(p_line_id UUID, p_rule_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line bank_statement_lines%ROWTYPE;
+  v_rule bank_categorisation_rules%ROWTYPE;
+  v_bank_coa_id UUID;
+  v_amount DECIMAL(18,2);
+  v_is_debit BOOLEAN;
+  v_description TEXT;
+  v_document_id UUID;
+  v_je_number TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts users can record bank lines';
+  END IF;
+
+  SELECT * INTO v_line FROM bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank statement line not found';
+  END IF;
+  IF v_line.reconciliation_status <> 'unmatched' THEN
+    RAISE EXCEPTION 'Bank statement line is already %', v_line.reconciliation_status;
+  END IF;
+
+  SELECT * INTO v_rule FROM bank_categorisation_rules WHERE id = p_rule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Categorisation rule not found';
+  END IF;
+  IF NOT bank_line_matches_rule(v_line, v_rule.bank_account_id, v_rule.direction,
+                                v_rule.description_pattern, v_rule.min_amount, v_rule.max_amount) THEN
+    RAISE EXCEPTION 'Rule "%" does not match this line', v_rule.name;
+  END IF;
+
+  v_is_debit := COALESCE(v_line.debit_amount, 0) > 0;
+  v_amount := CASE WHEN v_is_debit THEN v_line.debit_amount ELSE v_line.credit_amount END;
+  v_description := COALESCE(NULLIF(v_rule.memo, ''), v_line.description);
+
+  IF v_rule.action = 'expense' THEN
+    INSERT INTO finance_expenses (
+      expense_category, amount, expense_date, description,
+      payment_method, bank_account_id, paid_by, created_by
+    ) VALUES (
+      v_rule.expense_category, v_amount, v_line.transaction_date, v_description,
+      'bank_transfer', v_line.bank_account_id, 'bank', auth.uid()
+    ) RETURNING id INTO v_document_id;
+
+    UPDATE bank_statement_lines
+    SET matched_expense_id = v_document_id
+    WHERE id = p_line_id;
+
+  ELSIF v_rule.action = 'receipt' THEN
+    INSERT INTO receipt_vouchers (
+      voucher_date, customer_id, payment_method, bank_account_id, reference_number,
+      amount, description, coa_account_id, created_by
+    ) VALUES (
+      v_line.transaction_date, v_rule.customer_id, 'bank_transfer', v_line.bank_account_id, v_line.reference,
+      v_amount, v_description,
+      COALESCE(v_rule.account_id, (SELECT id FROM chart_of_accounts WHERE code = '1120' LIMIT 1)),
+      auth.uid()
+    ) RETURNING id INTO v_document_id;
+
+    UPDATE bank_statement_lines
+    SET matched_receipt_id = v_document_id
+    WHERE id = p_line_id;
+
+  ELSE
+    SELECT coa_id INTO v_bank_coa_id FROM bank_accounts WHERE id = v_line.bank_account_id;
+    IF v_bank_coa_id IS NULL THEN
+      RAISE EXCEPTION 'Bank account has no GL account linked';
+    END IF;
+
+    v_je_number := next_journal_entry_number();
+
+    INSERT INTO journal_entries (
+      entry_number, entry_date, source_module, reference_id, reference_number,
+      description, total_debit, total_credit, is_posted, posted_by, created_by
+    ) VALUES (
+      v_je_number, v_line.transaction_date, 'bank_rule', v_line.id, v_line.reference,
+      v_rule.name || ': ' || v_description,
+      v_amount, v_amount, true, auth.uid(), auth.uid()
+    ) RETURNING id INTO v_document_id;
+
+    -- Money out: Dr rule account, Cr bank. Money in: Dr bank, Cr rule account
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES
+      (v_document_id, 1, CASE WHEN v_is_debit THEN v_rule.account_id ELSE v_bank_coa_id END, v_description, v_amount, 0),
+      (v_document_id, 2, CASE WHEN v_is_debit THEN v_bank_coa_id ELSE v_rule.account_id END, v_description, 0, v_amount);
+
+    UPDATE bank_statement_lines
+    SET matched_entry_id = v_document_id
+    WHERE id = p_line_id;
+  END IF;
+
+  UPDATE bank_statement_lines
+  SET reconciliation_status = 'recorded',
+      suggested_rule_id = NULL,
+      matched_at = now(),
+      matched_by = auth.uid(),
+      notes = COALESCE(NULLIF(notes, '') || E'\n', '') || 'Rule: ' || v_rule.name
+  WHERE id = p_line_id;
+
+  UPDATE bank_categorisation_rules
+  SET hit_count = hit_count + 1,
+      last_hit_at = now()
+  WHERE id = p_rule_id;
+
+  RETURN v_document_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION categorise_bank_line(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- 4. RUNNING ALL RULES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_bank_categorisation_rules(p_bank_account_id UUID DEFAULT NULL)
+RETURNS TABLE(created_count INTEGER, proposed_count INTEGER, failed_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line bank_statement_lines%ROWTYPE;
+  v_rule bank_categorisation_rules%ROWTYPE;
+  v_created INTEGER := 0;
+  v_proposed INTEGER := 0;
+  v_failed INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts users can apply categorisation rules';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM bank_statement_lines
+    WHERE reconciliation_status = 'unmatched'
+      AND (p_bank_account_id IS NULL OR bank_account_id = p_bank_account_id)
+    ORDER BY transaction_date
+  LOOP
+    -- First active rule by priority wins; a rule the user dismissed for this line is skipped
+    SELECT r.* INTO v_rule
+    FROM bank_categorisation_rules r
+    WHERE r.is_active
+      AND r.id IS DISTINCT FROM v_line.dismissed_rule_id
+      AND bank_line_matches_rule(v_line, r.bank_account_id, r.direction,
+                                 r.description_pattern, r.min_amount, r.max_amount)
+    ORDER BY r.priority, r.created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      IF v_line.suggested_rule_id IS NOT NULL THEN
+        UPDATE bank_statement_lines SET suggested_rule_id = NULL WHERE id = v_line.id;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_rule.auto_create THEN
+      BEGIN
+        PERFORM categorise_bank_line(v_line.id, v_rule.id);
+        v_created := v_created + 1;
+      EXCEPTION WHEN OTHERS THEN
+        -- Leave the line as a proposal so the user sees why it was not recorded
+        UPDATE bank_statement_lines
+        SET suggested_rule_id = v_rule.id,
+            notes = 'Rule "' || v_rule.name || '" failed: ' || SQLERRM
+        WHERE id = v_line.id;
+        v_failed := v_failed + 1;
+      END;
+    ELSE
+      IF v_line.suggested_rule_id IS DISTINCT FROM v_rule.id THEN
+        UPDATE bank_statement_lines SET suggested_rule_id = v_rule.id WHERE id = v_line.id;
+      END IF;
+      v_proposed := v_proposed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_proposed, v_failed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_bank_categorisation_rules(UUID) TO authenticated;
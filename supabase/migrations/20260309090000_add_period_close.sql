@@ -0,0 +1,840 @@
+/*
+  # Period Close and Accounting Lock Date
+
+  1. Problem
+    - Journals and posting documents can be created, edited or deleted with any date, and the
+      posting triggers repost them freely, so figures for a month that has already been reported
+      (or filed for tax) can change without anyone noticing
+    - There is no year-end close: profit is never carried into Retained Earnings and there is no
+      record of the balances a new financial year opens with
+    - `accounting_periods` exists but nothing uses it
+
+  2. Changes
+    - Lock date = end of the latest closed period in `accounting_periods`. Closing a month closes
+      every earlier month with it; reopening a month reopens every later month (admin only,
+      reason required)
+    - `enforce_period_lock()` BEFORE INSERT / UPDATE / DELETE trigger on `journal_entries`,
+      `journal_entry_lines` and the posting documents (sales / purchase invoices, credit notes,
+      receipt / payment vouchers, expenses, petty cash, fund transfers). Updates are only
+      blocked when an accounting column changes, so payment status and allocations on an old
+      invoice can still move
+    - `period_lock_overrides` - an admin can open a time-limited window (with a reason) in which
+      their own changes to closed periods are allowed; every change made through it is logged
+    - `close_financial_year(year)` - posts a closing entry (source `year_end_close`) that clears
+      revenue and expense accounts into 3200 Retained Earnings, locks the year's periods and
+      stores the balance sheet balances the next year opens with in
+      `financial_year_opening_balances`. `reopen_financial_year(year, reason)` undoes it
+    - `get_trial_balance` only counts posted lines inside the date range and, like
+      `get_pnl_summary`, leaves out the closing entry unless `p_include_year_end_close` is set,
+      so a closed year still reports its own revenue, expenses and net income. Cumulative
+      balances (trial balance, balance sheet) include it. Closing checks that the amount moved
+      into Retained Earnings equals the year's reported net income
+    - A lock override only counts while its holder is still an admin; every change made through
+      it is logged, journal lines included
+    - `accounting_period_log` - audit trail of closes, reopens, overrides and overridden changes
+*/
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+ALTER TABLE accounting_periods
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_accounting_periods_status_end
+  ON accounting_periods(status, end_date);
+
+CREATE TABLE IF NOT EXISTS financial_year_closings (
+  fiscal_year INTEGER PRIMARY KEY,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  closing_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  net_income DECIMAL(18,2) NOT NULL DEFAULT 0,
+  retained_earnings_account_id UUID NOT NULL REFERENCES chart_of_accounts(id),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS financial_year_opening_balances (
+  fiscal_year INTEGER NOT NULL,
+  account_id UUID NOT NULL REFERENCES chart_of_accounts(id),
+  debit DECIMAL(18,2) NOT NULL DEFAULT 0,
+  credit DECIMAL(18,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (fiscal_year, account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fy_opening_balances_account
+  ON financial_year_opening_balances(account_id);
+
+CREATE TABLE IF NOT EXISTS period_lock_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  reason TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_period_lock_overrides_user
+  ON period_lock_overrides(user_id, expires_at);
+
+CREATE TABLE IF NOT EXISTS accounting_period_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action TEXT NOT NULL CHECK (action IN (
+    'close_period', 'reopen_period', 'close_year', 'reopen_year',
+    'override_granted', 'override_revoked', 'override_change'
+  )),
+  fiscal_year INTEGER,
+  period_month INTEGER,
+  lock_date DATE,
+  reason TEXT,
+  table_name TEXT,
+  record_id UUID,
+  performed_by UUID REFERENCES user_profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_period_log_created
+  ON accounting_period_log(created_at DESC);
+
+ALTER TABLE financial_year_closings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE financial_year_opening_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE period_lock_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounting_period_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; all writes go through the functions below
+CREATE POLICY "Authenticated users can view financial year closings"
+  ON financial_year_closings FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can view opening balances"
+  ON financial_year_opening_balances FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can view period lock overrides"
+  ON period_lock_overrides FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can view accounting period log"
+  ON accounting_period_log FOR SELECT TO authenticated USING (true);
+
+-- ============================================
+-- 2. LOCK DATE
+-- ============================================
+
+-- Financial year N starts on the month / day of app_settings.financial_year_start in year N
+CREATE OR REPLACE FUNCTION financial_year_bounds(p_fiscal_year INTEGER, OUT start_date DATE, OUT end_date DATE)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_fy_start DATE;
+BEGIN
+  SELECT NULLIF(financial_year_start, '')::DATE INTO v_fy_start FROM app_settings LIMIT 1;
+  start_date := make_date(p_fiscal_year, EXTRACT(MONTH FROM COALESCE(v_fy_start, DATE '2024-01-01'))::INTEGER, 1);
+  end_date := (start_date + INTERVAL '1 year' - INTERVAL '1 day')::DATE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ensure_accounting_periods(p_fiscal_year INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bounds RECORD;
+  v_month DATE;
+BEGIN
+  SELECT * INTO v_bounds FROM financial_year_bounds(p_fiscal_year);
+
+  FOR v_month IN
+    SELECT generate_series(v_bounds.start_date, v_bounds.end_date, INTERVAL '1 month')::DATE
+  LOOP
+    INSERT INTO accounting_periods (fiscal_year, period_month, start_date, end_date)
+    VALUES (
+      p_fiscal_year,
+      EXTRACT(MONTH FROM v_month)::INTEGER,
+      v_month,
+      (v_month + INTERVAL '1 month' - INTERVAL '1 day')::DATE
+    )
+    ON CONFLICT (fiscal_year, period_month) DO NOTHING;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_accounting_lock_date()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(end_date) FROM accounting_periods WHERE status IN ('closed', 'locked');
+$$;
+
+CREATE OR REPLACE FUNCTION has_period_lock_override()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Overrides are self-granted, so the holder must still be an admin
+  SELECT EXISTS (
+    SELECT 1 FROM period_lock_overrides o
+    JOIN user_profiles up ON up.id = o.user_id AND up.role = 'admin'
+    WHERE o.user_id = auth.uid()
+      AND o.revoked_at IS NULL
+      AND o.expires_at > now()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_period_lock_status()
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'lock_date', get_accounting_lock_date(),
+    'override_expires_at', (
+      SELECT MAX(expires_at) FROM period_lock_overrides
+      WHERE user_id = auth.uid() AND revoked_at IS NULL AND expires_at > now()
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_accounting_lock_date() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_period_lock_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION ensure_accounting_periods(INTEGER) TO authenticated;
+
+-- ============================================
+-- 3. ENFORCEMENT
+-- ============================================
+
+-- TG_ARGV[0] is the document date column; all arguments are the columns an UPDATE may not
+-- change once the document falls in a closed period
+CREATE OR REPLACE FUNCTION enforce_period_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lock_date DATE;
+  v_old JSONB;
+  v_new JSONB;
+  v_old_date DATE;
+  v_new_date DATE;
+  v_changed BOOLEAN := false;
+  i INTEGER;
+BEGIN
+  -- Set by close_financial_year / reopen_financial_year for their own postings
+  IF current_setting('app.period_close_in_progress', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  v_lock_date := get_accounting_lock_date();
+  IF v_lock_date IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+    v_old_date := (v_old->>TG_ARGV[0])::DATE;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+    v_new_date := (v_new->>TG_ARGV[0])::DATE;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR i IN 0 .. TG_NARGS - 1 LOOP
+      IF v_old->TG_ARGV[i] IS DISTINCT FROM v_new->TG_ARGV[i] THEN
+        v_changed := true;
+      END IF;
+    END LOOP;
+    IF NOT v_changed THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF COALESCE(v_old_date <= v_lock_date, false) OR COALESCE(v_new_date <= v_lock_date, false) THEN
+    IF NOT has_period_lock_override() THEN
+      RAISE EXCEPTION 'Accounting period is closed up to %. % dated % cannot be %.',
+        to_char(v_lock_date, 'DD Mon YYYY'),
+        TG_TABLE_NAME,
+        to_char(COALESCE(v_old_date, v_new_date), 'DD Mon YYYY'),
+        CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'changed' ELSE 'deleted' END
+        USING HINT = 'Ask an admin to reopen the period or grant a lock override.';
+    END IF;
+
+    INSERT INTO accounting_period_log (action, lock_date, table_name, record_id, reason, performed_by)
+    VALUES (
+      'override_change', v_lock_date, TG_TABLE_NAME,
+      (COALESCE(v_new, v_old)->>'id')::UUID,
+      TG_OP || ' via override: ' || (
+        SELECT reason FROM period_lock_overrides
+        WHERE user_id = auth.uid() AND revoked_at IS NULL AND expires_at > now()
+        ORDER BY created_at DESC LIMIT 1
+      ),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Lines carry no date of their own; they follow their journal entry
+CREATE OR REPLACE FUNCTION enforce_period_lock_journal_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lock_date DATE;
+  v_entry_date DATE;
+BEGIN
+  IF current_setting('app.period_close_in_progress', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  v_lock_date := get_accounting_lock_date();
+  IF v_lock_date IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.journal_entry_id IS NOT DISTINCT FROM NEW.journal_entry_id
+     AND OLD.account_id IS NOT DISTINCT FROM NEW.account_id
+     AND OLD.debit IS NOT DISTINCT FROM NEW.debit
+     AND OLD.credit IS NOT DISTINCT FROM NEW.credit THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MIN(entry_date) INTO v_entry_date
+  FROM journal_entries
+  WHERE id IN (
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.journal_entry_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.journal_entry_id END
+  );
+
+  IF v_entry_date <= v_lock_date THEN
+    IF NOT has_period_lock_override() THEN
+      RAISE EXCEPTION 'Accounting period is closed up to %. Journal lines dated % cannot be %.',
+        to_char(v_lock_date, 'DD Mon YYYY'),
+        to_char(v_entry_date, 'DD Mon YYYY'),
+        CASE TG_OP WHEN 'INSERT' THEN 'added' WHEN 'UPDATE' THEN 'changed' ELSE 'deleted' END
+        USING HINT = 'Ask an admin to reopen the period or grant a lock override.';
+    END IF;
+
+    INSERT INTO accounting_period_log (action, lock_date, table_name, record_id, reason, performed_by)
+    VALUES (
+      'override_change', v_lock_date, TG_TABLE_NAME,
+      CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+      TG_OP || ' via override: ' || (
+        SELECT reason FROM period_lock_overrides
+        WHERE user_id = auth.uid() AND revoked_at IS NULL AND expires_at > now()
+        ORDER BY created_at DESC LIMIT 1
+      ),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON journal_entries;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('entry_date', 'total_debit', 'total_credit', 'is_posted');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON journal_entry_lines;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON journal_entry_lines
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock_journal_line();
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON sales_invoices;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON sales_invoices
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('invoice_date', 'customer_id', 'subtotal', 'tax_amount', 'discount_amount', 'total_amount');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON purchase_invoices;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON purchase_invoices
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('invoice_date', 'supplier_id', 'subtotal', 'tax_amount', 'total_amount');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON credit_notes;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON credit_notes
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('credit_note_date', 'customer_id', 'subtotal', 'tax_amount', 'total_amount');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON receipt_vouchers;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON receipt_vouchers
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('voucher_date', 'customer_id', 'amount', 'pph_amount', 'payment_method', 'bank_account_id');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON payment_vouchers;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON payment_vouchers
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('voucher_date', 'supplier_id', 'amount', 'pph_amount', 'payment_method', 'bank_account_id');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON finance_expenses;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON finance_expenses
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('expense_date', 'expense_category', 'amount', 'payment_method', 'bank_account_id');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON petty_cash_transactions;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON petty_cash_transactions
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('transaction_date', 'transaction_type', 'amount', 'expense_category', 'bank_account_id');
+
+DROP TRIGGER IF EXISTS trg_enforce_period_lock ON fund_transfers;
+CREATE TRIGGER trg_enforce_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON fund_transfers
+  FOR EACH ROW EXECUTE FUNCTION enforce_period_lock('transfer_date', 'amount', 'from_account_type', 'to_account_type', 'from_bank_account_id', 'to_bank_account_id');
+
+-- ============================================
+-- 4. MONTH CLOSE / REOPEN AND OVERRIDES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION close_accounting_period(p_fiscal_year INTEGER, p_period_month INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period accounting_periods%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts users can close periods';
+  END IF;
+
+  PERFORM ensure_accounting_periods(p_fiscal_year);
+
+  SELECT * INTO v_period FROM accounting_periods
+  WHERE fiscal_year = p_fiscal_year AND period_month = p_period_month;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Period %/% not found', p_period_month, p_fiscal_year;
+  END IF;
+
+  -- The lock date is a single cut-off, so every earlier period closes with this one
+  UPDATE accounting_periods
+  SET status = 'closed', closed_by = auth.uid(), closed_at = now(), updated_at = now()
+  WHERE end_date <= v_period.end_date AND status = 'open';
+
+  INSERT INTO accounting_period_log (action, fiscal_year, period_month, lock_date, performed_by)
+  VALUES ('close_period', p_fiscal_year, p_period_month, v_period.end_date, auth.uid());
+
+  RETURN get_accounting_lock_date();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_accounting_period(p_fiscal_year INTEGER, p_period_month INTEGER, p_reason TEXT)
+RETURNS DATE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period accounting_periods%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reopen a closed period';
+  END IF;
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a period';
+  END IF;
+
+  SELECT * INTO v_period FROM accounting_periods
+  WHERE fiscal_year = p_fiscal_year AND period_month = p_period_month;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Period %/% not found', p_period_month, p_fiscal_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM accounting_periods WHERE end_date >= v_period.end_date AND status = 'locked'
+  ) THEN
+    RAISE EXCEPTION 'The financial year containing this period is closed. Reopen the year first.';
+  END IF;
+
+  -- Later periods reopen too so the lock date stays a single cut-off
+  UPDATE accounting_periods
+  SET status = 'open', closed_by = NULL, closed_at = NULL, updated_at = now()
+  WHERE start_date >= v_period.start_date AND status = 'closed';
+
+  INSERT INTO accounting_period_log (action, fiscal_year, period_month, lock_date, reason, performed_by)
+  VALUES ('reopen_period', p_fiscal_year, p_period_month, get_accounting_lock_date(), trim(p_reason), auth.uid());
+
+  RETURN get_accounting_lock_date();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grant_period_lock_override(p_reason TEXT, p_minutes INTEGER DEFAULT 30)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can override the period lock';
+  END IF;
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override the period lock';
+  END IF;
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 240 THEN
+    RAISE EXCEPTION 'Override duration must be between 1 and 240 minutes';
+  END IF;
+
+  UPDATE period_lock_overrides
+  SET revoked_at = now()
+  WHERE user_id = auth.uid() AND revoked_at IS NULL AND expires_at > now();
+
+  v_expires_at := now() + make_interval(mins => p_minutes);
+
+  INSERT INTO period_lock_overrides (user_id, reason, expires_at)
+  VALUES (auth.uid(), trim(p_reason), v_expires_at);
+
+  INSERT INTO accounting_period_log (action, lock_date, reason, performed_by)
+  VALUES ('override_granted', get_accounting_lock_date(), trim(p_reason) || ' (' || p_minutes || ' min)', auth.uid());
+
+  RETURN v_expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_period_lock_override()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE period_lock_overrides
+  SET revoked_at = now()
+  WHERE user_id = auth.uid() AND revoked_at IS NULL AND expires_at > now();
+
+  IF FOUND THEN
+    INSERT INTO accounting_period_log (action, lock_date, performed_by)
+    VALUES ('override_revoked', get_accounting_lock_date(), auth.uid());
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_accounting_period(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_accounting_period(INTEGER, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION grant_period_lock_override(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_period_lock_override() TO authenticated;
+
+-- ============================================
+-- 5. YEAR-END CLOSE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION close_financial_year(p_fiscal_year INTEGER)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bounds RECORD;
+  v_re_account_id UUID;
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_net_income DECIMAL(18,2);
+  v_line_number INTEGER := 0;
+  v_balance RECORD;
+  v_opening_count INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts users can close a financial year';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM financial_year_closings WHERE fiscal_year = p_fiscal_year) THEN
+    RAISE EXCEPTION 'Financial year % is already closed', p_fiscal_year;
+  END IF;
+
+  SELECT id INTO v_re_account_id FROM chart_of_accounts WHERE code = '3200' LIMIT 1;
+  IF v_re_account_id IS NULL THEN
+    RAISE EXCEPTION 'Retained Earnings account (3200) not found in the chart of accounts';
+  END IF;
+
+  SELECT * INTO v_bounds FROM financial_year_bounds(p_fiscal_year);
+
+  -- The closing entry is dated in the period being locked
+  PERFORM set_config('app.period_close_in_progress', 'on', true);
+
+  CREATE TEMP TABLE tmp_pnl_balances ON COMMIT DROP AS
+  SELECT jel.account_id, SUM(jel.debit) - SUM(jel.credit) AS balance
+  FROM journal_entry_lines jel
+  JOIN journal_entries je ON je.id = jel.journal_entry_id
+  JOIN chart_of_accounts coa ON coa.id = jel.account_id
+  WHERE je.is_posted = true
+    AND je.entry_date BETWEEN v_bounds.start_date AND v_bounds.end_date
+    AND COALESCE(je.source_module, '') <> 'year_end_close'
+    AND coa.account_type IN ('revenue', 'expense')
+  GROUP BY jel.account_id
+  HAVING SUM(jel.debit) - SUM(jel.credit) <> 0;
+
+  SELECT COALESCE(-SUM(balance), 0) INTO v_net_income FROM tmp_pnl_balances;
+
+  IF EXISTS (SELECT 1 FROM tmp_pnl_balances) THEN
+    v_je_number := next_journal_entry_number();
+
+    INSERT INTO journal_entries (
+      entry_number, entry_date, source_module, reference_number,
+      description, total_debit, total_credit, is_posted, posted_by, created_by
+    )
+    SELECT
+      v_je_number, v_bounds.end_date, 'year_end_close', 'FY-CLOSE-' || p_fiscal_year,
+      'Year-end close FY ' || p_fiscal_year || ': profit and loss to Retained Earnings',
+      t.total, t.total, true, auth.uid(), auth.uid()
+    FROM (
+      SELECT SUM(GREATEST(-balance, 0)) + GREATEST(-v_net_income, 0) AS total FROM tmp_pnl_balances
+    ) t
+    RETURNING id INTO v_je_id;
+
+    -- Reverse each revenue / expense balance, then put the difference into Retained Earnings
+    FOR v_balance IN
+      SELECT b.account_id, b.balance FROM tmp_pnl_balances b
+      JOIN chart_of_accounts coa ON coa.id = b.account_id
+      ORDER BY coa.code
+    LOOP
+      v_line_number := v_line_number + 1;
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES (
+        v_je_id, v_line_number, v_balance.account_id, 'Year-end close FY ' || p_fiscal_year,
+        GREATEST(-v_balance.balance, 0), GREATEST(v_balance.balance, 0)
+      );
+    END LOOP;
+
+    IF v_net_income <> 0 THEN
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES (
+        v_je_id, v_line_number + 1, v_re_account_id,
+        CASE WHEN v_net_income > 0 THEN 'Net profit FY ' ELSE 'Net loss FY ' END || p_fiscal_year,
+        GREATEST(-v_net_income, 0), GREATEST(v_net_income, 0)
+      );
+    END IF;
+  END IF;
+
+  -- What went into Retained Earnings must be the year's reported profit
+  IF COALESCE((
+    SELECT SUM(jel.credit) - SUM(jel.debit)
+    FROM journal_entry_lines jel
+    WHERE jel.journal_entry_id = v_je_id AND jel.account_id = v_re_account_id
+  ), 0) <> (SELECT p.net_income FROM get_pnl_summary(v_bounds.start_date, v_bounds.end_date) p) THEN
+    RAISE EXCEPTION 'Closing FY % would not carry its reported net income into Retained Earnings', p_fiscal_year;
+  END IF;
+
+  -- Balance sheet accounts carry forward; revenue and expense start the new year at zero
+  DELETE FROM financial_year_opening_balances WHERE fiscal_year = p_fiscal_year + 1;
+
+  INSERT INTO financial_year_opening_balances (fiscal_year, account_id, debit, credit)
+  SELECT p_fiscal_year + 1, jel.account_id,
+         GREATEST(SUM(jel.debit) - SUM(jel.credit), 0),
+         GREATEST(SUM(jel.credit) - SUM(jel.debit), 0)
+  FROM journal_entry_lines jel
+  JOIN journal_entries je ON je.id = jel.journal_entry_id
+  JOIN chart_of_accounts coa ON coa.id = jel.account_id
+  WHERE je.is_posted = true
+    AND je.entry_date <= v_bounds.end_date
+    AND coa.account_type IN ('asset', 'liability', 'equity', 'contra')
+  GROUP BY jel.account_id
+  HAVING SUM(jel.debit) - SUM(jel.credit) <> 0;
+
+  GET DIAGNOSTICS v_opening_count = ROW_COUNT;
+
+  PERFORM ensure_accounting_periods(p_fiscal_year);
+
+  UPDATE accounting_periods
+  SET status = 'locked',
+      closed_by = COALESCE(closed_by, auth.uid()),
+      closed_at = COALESCE(closed_at, now()),
+      updated_at = now()
+  WHERE start_date >= v_bounds.start_date AND end_date <= v_bounds.end_date;
+
+  -- Anything still open before this year closes with it, but stays reopenable month by month
+  UPDATE accounting_periods
+  SET status = 'closed', closed_by = auth.uid(), closed_at = now(), updated_at = now()
+  WHERE end_date < v_bounds.start_date AND status = 'open';
+
+  INSERT INTO financial_year_closings (
+    fiscal_year, start_date, end_date, closing_entry_id, net_income, retained_earnings_account_id, closed_by
+  ) VALUES (
+    p_fiscal_year, v_bounds.start_date, v_bounds.end_date, v_je_id, v_net_income, v_re_account_id, auth.uid()
+  );
+
+  INSERT INTO accounting_period_log (action, fiscal_year, lock_date, reason, performed_by)
+  VALUES ('close_year', p_fiscal_year, v_bounds.end_date, 'Net income ' || v_net_income, auth.uid());
+
+  RETURN json_build_object(
+    'closing_entry_id', v_je_id,
+    'closing_entry_number', v_je_number,
+    'net_income', v_net_income,
+    'opening_balance_count', v_opening_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_financial_year(p_fiscal_year INTEGER, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_closing financial_year_closings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reopen a financial year';
+  END IF;
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a financial year';
+  END IF;
+
+  SELECT * INTO v_closing FROM financial_year_closings WHERE fiscal_year = p_fiscal_year;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Financial year % is not closed', p_fiscal_year;
+  END IF;
+  IF EXISTS (SELECT 1 FROM financial_year_closings WHERE fiscal_year > p_fiscal_year) THEN
+    RAISE EXCEPTION 'Reopen the later financial years first';
+  END IF;
+
+  PERFORM set_config('app.period_close_in_progress', 'on', true);
+
+  IF v_closing.closing_entry_id IS NOT NULL THEN
+    DELETE FROM journal_entry_lines WHERE journal_entry_id = v_closing.closing_entry_id;
+    DELETE FROM journal_entries WHERE id = v_closing.closing_entry_id;
+  END IF;
+
+  DELETE FROM financial_year_opening_balances WHERE fiscal_year = p_fiscal_year + 1;
+  DELETE FROM financial_year_closings WHERE fiscal_year = p_fiscal_year;
+
+  -- Months stay closed; reopen individual months separately if they need changes
+  UPDATE accounting_periods
+  SET status = 'closed', updated_at = now()
+  WHERE start_date >= v_closing.start_date AND status = 'locked';
+
+  INSERT INTO accounting_period_log (action, fiscal_year, lock_date, reason, performed_by)
+  VALUES ('reopen_year', p_fiscal_year, get_accounting_lock_date(), trim(p_reason), auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_financial_year(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_financial_year(INTEGER, TEXT) TO authenticated;
+
+-- ============================================
+-- 6. REPORTS EXCLUDE THE CLOSING ENTRY
+-- ============================================
+
+-- The closing entry is dated on the last day of the year, so date-range reports would
+-- otherwise net every revenue and expense account of a closed year to zero. Cumulative
+-- balances pass p_include_year_end_close so closed profit sits in Retained Earnings
+DROP FUNCTION IF EXISTS get_trial_balance(DATE, DATE);
+
+CREATE OR REPLACE FUNCTION get_trial_balance(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_include_year_end_close BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  code VARCHAR,
+  name VARCHAR,
+  name_id VARCHAR,
+  account_type VARCHAR,
+  account_group VARCHAR,
+  total_debit DECIMAL,
+  total_credit DECIMAL,
+  balance DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    coa.code,
+    coa.name,
+    coa.name_id,
+    coa.account_type,
+    coa.account_group,
+    COALESCE(SUM(l.debit), 0) AS total_debit,
+    COALESCE(SUM(l.credit), 0) AS total_credit,
+    COALESCE(SUM(l.debit), 0) - COALESCE(SUM(l.credit), 0) AS balance
+  FROM chart_of_accounts coa
+  LEFT JOIN (
+    SELECT jel.account_id, jel.debit, jel.credit
+    FROM journal_entry_lines jel
+    JOIN journal_entries je ON je.id = jel.journal_entry_id
+    WHERE je.is_posted = true
+      AND je.entry_date BETWEEN p_start_date AND p_end_date
+      AND (p_include_year_end_close OR je.source_module IS DISTINCT FROM 'year_end_close')
+  ) l ON l.account_id = coa.id
+  WHERE coa.is_header = false AND coa.is_active = true
+  GROUP BY coa.id, coa.code, coa.name, coa.name_id, coa.account_type, coa.account_group
+  HAVING COALESCE(SUM(l.debit), 0) != 0 OR COALESCE(SUM(l.credit), 0) != 0
+  ORDER BY coa.code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_pnl_summary(p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+  total_revenue DECIMAL,
+  total_expenses DECIMAL,
+  net_income DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revenue DECIMAL;
+  v_expenses DECIMAL;
+BEGIN
+  SELECT COALESCE(SUM(jel.credit) - SUM(jel.debit), 0)
+  INTO v_revenue
+  FROM journal_entry_lines jel
+  JOIN chart_of_accounts coa ON jel.account_id = coa.id
+  JOIN journal_entries je ON jel.journal_entry_id = je.id
+  WHERE coa.account_type = 'revenue'
+    AND je.is_posted = true
+    AND je.entry_date >= p_start_date
+    AND je.entry_date <= p_end_date
+    AND COALESCE(je.source_module, '') <> 'year_end_close';
+
+  SELECT COALESCE(SUM(jel.debit) - SUM(jel.credit), 0)
+  INTO v_expenses
+  FROM journal_entry_lines jel
+  JOIN chart_of_accounts coa ON jel.account_id = coa.id
+  JOIN journal_entries je ON jel.journal_entry_id = je.id
+  WHERE coa.account_type = 'expense'
+    AND je.is_posted = true
+    AND je.entry_date >= p_start_date
+    AND je.entry_date <= p_end_date
+    AND COALESCE(je.source_module, '') <> 'year_end_close';
+
+  RETURN QUERY SELECT v_revenue, v_expenses, v_revenue - v_expenses;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_trial_balance(DATE, DATE, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_pnl_summary(DATE, DATE) TO authenticated;
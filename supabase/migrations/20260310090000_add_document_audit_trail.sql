@@ -0,0 +1,341 @@
+/*
+  # Document Audit Trail
+
+  1. Problem
+    - `audit_logs` and `log_audit_event()` exist but no table is wired to them, so there is no
+      record of who changed a sales invoice, delivery challan, journal or batch, or what it
+      looked like before
+    - Any signed-in user may insert into `audit_logs` directly, and nothing stops a row from
+      being edited or deleted later, so the log could not be relied on even if it were filled
+    - Line items are logged against their own table only, so the history of a document cannot
+      be read in one place
+
+  2. Changes
+    - `audit_logs` gains `source_screen` (the app route the change was made from, sent by the
+      client as the `x-source-screen` request header), `document_table` / `document_id` (the
+      header document a line item belongs to) and `document_ref` (its human number, e.g. the
+      invoice or challan number) so the log can be searched without decoding the JSON
+    - `log_audit_event()` fills the new columns. Line item triggers pass the parent table and
+      foreign key column as trigger arguments
+    - AFTER INSERT / UPDATE / DELETE audit triggers on the sales, purchase, stock and finance
+      documents and their line items
+    - `audit_logs` is append-only: direct inserts from clients are no longer allowed (the
+      trigger function is SECURITY DEFINER) and UPDATE / DELETE / TRUNCATE raise an exception
+    - Admin, accounts and auditor_ca can read the log
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS changed_fields TEXT[],
+  ADD COLUMN IF NOT EXISTS user_email TEXT,
+  ADD COLUMN IF NOT EXISTS source_screen TEXT,
+  ADD COLUMN IF NOT EXISTS document_table TEXT,
+  ADD COLUMN IF NOT EXISTS document_id UUID,
+  ADD COLUMN IF NOT EXISTS document_ref TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_document
+  ON audit_logs(document_table, document_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_record
+  ON audit_logs(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_document_ref
+  ON audit_logs(document_ref);
+
+-- ============================================
+-- 2. AUDIT FUNCTION
+-- ============================================
+
+-- Human document number of a header row, whichever document table it comes from
+CREATE OR REPLACE FUNCTION audit_document_ref(p_row JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    p_row->>'so_number',
+    p_row->>'challan_number',
+    p_row->>'credit_note_number',
+    p_row->>'return_number',
+    p_row->>'grn_number',
+    p_row->>'rejection_number',
+    p_row->>'entry_number',
+    p_row->>'voucher_number',
+    p_row->>'transaction_number',
+    p_row->>'transfer_number',
+    p_row->>'invoice_number',
+    p_row->>'po_number',
+    p_row->>'batch_number'
+  );
+$$;
+
+-- TG_ARGV[0] / TG_ARGV[1]: parent document table and foreign key column, for line item tables
+CREATE OR REPLACE FUNCTION log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_user_email TEXT;
+  v_old_data JSONB;
+  v_new_data JSONB;
+  v_row JSONB;
+  v_changed_fields TEXT[];
+  v_key TEXT;
+  v_source_screen TEXT;
+  v_document_table TEXT;
+  v_document_id UUID;
+  v_document_ref TEXT;
+  v_parent JSONB;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NOT NULL THEN
+    SELECT email INTO v_user_email FROM auth.users WHERE id = v_user_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_old_data := to_jsonb(OLD);
+  ELSIF TG_OP = 'INSERT' THEN
+    v_new_data := to_jsonb(NEW);
+  ELSE
+    v_old_data := to_jsonb(OLD);
+    v_new_data := to_jsonb(NEW);
+    v_changed_fields := ARRAY[]::TEXT[];
+
+    FOR v_key IN SELECT jsonb_object_keys(v_new_data) LOOP
+      IF v_old_data->v_key IS DISTINCT FROM v_new_data->v_key THEN
+        v_changed_fields := array_append(v_changed_fields, v_key);
+      END IF;
+    END LOOP;
+
+    -- Nothing worth recording if only updated_at moved
+    IF v_changed_fields = ARRAY[]::TEXT[] OR v_changed_fields = ARRAY['updated_at']::TEXT[] THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  v_row := COALESCE(v_new_data, v_old_data);
+
+  BEGIN
+    v_source_screen := NULLIF(current_setting('request.headers', true), '')::json->>'x-source-screen';
+  EXCEPTION WHEN OTHERS THEN
+    v_source_screen := NULL;
+  END;
+
+  IF TG_NARGS >= 2 THEN
+    v_document_table := TG_ARGV[0];
+    v_document_id := (v_row->>TG_ARGV[1])::UUID;
+
+    -- The parent may already be gone when lines are removed by ON DELETE CASCADE
+    EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1', v_document_table)
+      INTO v_parent
+      USING v_document_id;
+
+    IF v_parent IS NOT NULL THEN
+      v_document_ref := audit_document_ref(v_parent);
+    ELSE
+      SELECT document_ref INTO v_document_ref
+      FROM audit_logs
+      WHERE document_table = v_document_table
+        AND document_id = v_document_id
+        AND document_ref IS NOT NULL
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+  ELSE
+    v_document_table := TG_TABLE_NAME;
+    v_document_id := (v_row->>'id')::UUID;
+    v_document_ref := audit_document_ref(v_row);
+  END IF;
+
+  INSERT INTO audit_logs (
+    table_name, record_id, action_type, old_values, new_values, changed_fields,
+    user_id, user_email, source_screen, document_table, document_id, document_ref, created_at
+  ) VALUES (
+    TG_TABLE_NAME, (v_row->>'id')::UUID, LOWER(TG_OP), v_old_data, v_new_data, v_changed_fields,
+    v_user_id, v_user_email, v_source_screen, v_document_table, v_document_id, v_document_ref, now()
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 3. IMMUTABILITY
+-- ============================================
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed or deleted';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prevent_audit_log_changes ON audit_logs;
+CREATE TRIGGER trg_prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS trg_prevent_audit_log_truncate ON audit_logs;
+CREATE TRIGGER trg_prevent_audit_log_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- ============================================
+-- 4. RLS
+-- ============================================
+
+DROP POLICY IF EXISTS "System can insert audit logs" ON audit_logs;
+DROP POLICY IF EXISTS "Admin can view audit logs" ON audit_logs;
+
+CREATE POLICY "Admin, accounts and auditors can view audit logs"
+  ON audit_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca')
+    )
+  );
+
+-- ============================================
+-- 5. AUDIT TRIGGERS
+-- ============================================
+
+-- Sales
+DROP TRIGGER IF EXISTS trg_audit_log ON sales_orders;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON sales_orders
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON sales_order_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON sales_order_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('sales_orders', 'sales_order_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON delivery_challans;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON delivery_challans
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON delivery_challan_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON delivery_challan_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('delivery_challans', 'challan_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON sales_invoices;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON sales_invoices
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON sales_invoice_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON sales_invoice_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('sales_invoices', 'invoice_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON credit_notes;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON credit_notes
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON credit_note_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON credit_note_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('credit_notes', 'credit_note_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON material_returns;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON material_returns
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON material_return_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON material_return_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('material_returns', 'return_id');
+
+-- Purchasing and stock
+DROP TRIGGER IF EXISTS trg_audit_log ON purchase_orders;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON purchase_order_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_order_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('purchase_orders', 'po_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON goods_receipt_notes;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON goods_receipt_notes
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON goods_receipt_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON goods_receipt_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('goods_receipt_notes', 'grn_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON stock_rejections;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON stock_rejections
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON batches;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON batches
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+-- Finance
+DROP TRIGGER IF EXISTS trg_audit_log ON purchase_invoices;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_invoices
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON purchase_invoice_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON purchase_invoice_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('purchase_invoices', 'purchase_invoice_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON journal_entries;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON journal_entry_lines;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON journal_entry_lines
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('journal_entries', 'journal_entry_id');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON receipt_vouchers;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON receipt_vouchers
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON payment_vouchers;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON payment_vouchers
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON finance_expenses;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON finance_expenses
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON petty_cash_transactions;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON petty_cash_transactions
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON fund_transfers;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON fund_transfers
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
@@ -0,0 +1,232 @@
+/*
+  # FEFO Batch Allocation
+
+  1. Problem
+    - Delivery challan batches are picked by hand from a list that only hides expired and
+      zero-stock batches; the "Use FIFO" shortcut picks the oldest import, not the batch that
+      expires first
+    - `fn_reserve_stock_for_so_v2` reserves by import date, so a later import with a shorter
+      expiry can be left to expire on the shelf, and it happily reserves batches a customer
+      will reject for short shelf life
+    - Nothing records why a user took a different batch than the one the system proposed
+
+  2. Changes
+    - `customers.min_shelf_life_months` - remaining shelf life the customer insists on at
+      delivery (e.g. 12 for hospitals). NULL = no requirement
+    - `get_fefo_batch_allocation(product, quantity, customer, sales_order, already_allocated)`
+      - the allocation engine. Returns every active batch of the product in First-Expiry-
+      First-Out order (expiry date, then import date) with the quantity proposed from it and,
+      for batches passed over, the reason (expired, short shelf life, reserved for other orders).
+      Stock reserved for the given sales order counts as available to it;
+      `already_allocated` ({batch_id: qty}) covers quantities taken by other lines of the same
+      document that are not saved yet
+    - `fn_reserve_stock_for_so_v2` reserves through the engine, so reservations follow FEFO and
+      the customer's shelf-life rule. When it falls short, the message lists the batches that
+      were skipped and why
+    - `batch_allocation_overrides` - one row per line where the user kept a batch other than
+      the FEFO proposal (or a batch below the customer's shelf-life minimum), with the reason
+*/
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS min_shelf_life_months INTEGER
+    CHECK (min_shelf_life_months IS NULL OR min_shelf_life_months >= 0);
+
+CREATE TABLE IF NOT EXISTS batch_allocation_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type TEXT NOT NULL CHECK (document_type IN ('delivery_challan', 'sales_order')),
+  document_id UUID NOT NULL,
+  product_id UUID NOT NULL REFERENCES products(id),
+  proposed_batch_id UUID REFERENCES batches(id) ON DELETE SET NULL,
+  batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  quantity DECIMAL(18,3) NOT NULL DEFAULT 0,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  overridden_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_allocation_overrides_document
+  ON batch_allocation_overrides(document_type, document_id);
+CREATE INDEX IF NOT EXISTS idx_batch_allocation_overrides_batch
+  ON batch_allocation_overrides(batch_id);
+
+ALTER TABLE batch_allocation_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view batch allocation overrides" ON batch_allocation_overrides;
+CREATE POLICY "Authenticated users can view batch allocation overrides"
+  ON batch_allocation_overrides FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Dispatch roles can record batch allocation overrides" ON batch_allocation_overrides;
+CREATE POLICY "Dispatch roles can record batch allocation overrides"
+  ON batch_allocation_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    overridden_by = (SELECT auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse')
+    )
+  );
+
+-- ============================================
+-- 2. ALLOCATION ENGINE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_fefo_batch_allocation(
+  p_product_id UUID,
+  p_quantity NUMERIC,
+  p_customer_id UUID DEFAULT NULL,
+  p_sales_order_id UUID DEFAULT NULL,
+  p_already_allocated JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  batch_id UUID,
+  batch_number TEXT,
+  expiry_date DATE,
+  available_quantity NUMERIC,
+  allocated_quantity NUMERIC,
+  skip_reason TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_min_months INTEGER;
+  v_min_expiry DATE;
+  v_remaining NUMERIC := GREATEST(COALESCE(p_quantity, 0), 0);
+  v_batch RECORD;
+  v_months_left INTEGER;
+BEGIN
+  IF p_customer_id IS NOT NULL THEN
+    SELECT c.min_shelf_life_months INTO v_min_months FROM customers c WHERE c.id = p_customer_id;
+  END IF;
+  IF COALESCE(v_min_months, 0) > 0 THEN
+    v_min_expiry := CURRENT_DATE + make_interval(months => v_min_months);
+  END IF;
+
+  FOR v_batch IN
+    SELECT
+      b.id,
+      b.batch_number,
+      b.expiry_date,
+      b.current_stock
+        - COALESCE(b.reserved_stock, 0)
+        + COALESCE((
+            SELECT SUM(sr.reserved_quantity) FROM stock_reservations sr
+            WHERE sr.batch_id = b.id AND sr.sales_order_id = p_sales_order_id AND sr.status = 'active'
+          ), 0)
+        - COALESCE((p_already_allocated->>b.id::text)::NUMERIC, 0) AS free_qty
+    FROM batches b
+    WHERE b.product_id = p_product_id
+      AND b.is_active = true
+      AND b.current_stock > 0
+    ORDER BY b.expiry_date ASC NULLS LAST, b.import_date ASC NULLS LAST, b.created_at ASC
+  LOOP
+    batch_id := v_batch.id;
+    batch_number := v_batch.batch_number;
+    expiry_date := v_batch.expiry_date;
+    available_quantity := GREATEST(v_batch.free_qty, 0);
+    allocated_quantity := 0;
+    skip_reason := NULL;
+
+    IF v_batch.expiry_date IS NOT NULL AND v_batch.expiry_date <= CURRENT_DATE THEN
+      skip_reason := 'Expired on ' || to_char(v_batch.expiry_date, 'DD/MM/YYYY');
+    ELSIF v_min_expiry IS NOT NULL AND v_batch.expiry_date IS NOT NULL AND v_batch.expiry_date < v_min_expiry THEN
+      v_months_left := (EXTRACT(YEAR FROM age(v_batch.expiry_date, CURRENT_DATE)) * 12
+        + EXTRACT(MONTH FROM age(v_batch.expiry_date, CURRENT_DATE)))::INTEGER;
+      skip_reason := 'Only ' || v_months_left || ' months shelf life left; customer requires '
+        || v_min_months;
+    ELSIF v_batch.free_qty <= 0 THEN
+      skip_reason := 'All stock reserved or already allocated';
+    ELSIF v_remaining > 0 THEN
+      allocated_quantity := LEAST(v_remaining, v_batch.free_qty);
+      v_remaining := v_remaining - allocated_quantity;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- ============================================
+-- 3. RESERVATIONS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION fn_reserve_stock_for_so_v2(p_so_id uuid)
+RETURNS TABLE(success boolean, message text, shortage_items jsonb)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_item RECORD;
+  v_alloc RECORD;
+  v_remaining_qty numeric;
+  v_skipped jsonb;
+  v_skip_notes text[] := ARRAY[]::text[];
+  v_shortage_list jsonb := '[]'::jsonb;
+  v_has_shortage boolean := false;
+BEGIN
+  SELECT customer_id INTO v_customer_id FROM sales_orders WHERE id = p_so_id;
+
+  DELETE FROM stock_reservations WHERE sales_order_id = p_so_id;
+
+  -- Reservations are inserted one line at a time; trg_sync_batch_reserved_stock keeps
+  -- batches.reserved_stock current, so later lines for the same product see them
+  FOR v_item IN
+    SELECT soi.id, soi.product_id, soi.quantity, p.product_name
+    FROM sales_order_items soi
+    JOIN products p ON p.id = soi.product_id
+    WHERE soi.sales_order_id = p_so_id
+  LOOP
+    v_remaining_qty := v_item.quantity;
+    v_skipped := '[]'::jsonb;
+
+    FOR v_alloc IN
+      SELECT * FROM get_fefo_batch_allocation(v_item.product_id, v_item.quantity, v_customer_id)
+    LOOP
+      IF v_alloc.allocated_quantity > 0 THEN
+        INSERT INTO stock_reservations (
+          sales_order_id, sales_order_item_id, batch_id, product_id, reserved_quantity, is_released
+        ) VALUES (p_so_id, v_item.id, v_alloc.batch_id, v_item.product_id, v_alloc.allocated_quantity, false);
+        v_remaining_qty := v_remaining_qty - v_alloc.allocated_quantity;
+      ELSIF v_alloc.skip_reason IS NOT NULL AND v_alloc.available_quantity > 0 THEN
+        v_skipped := v_skipped || jsonb_build_object(
+          'batch_id', v_alloc.batch_id, 'batch_number', v_alloc.batch_number, 'reason', v_alloc.skip_reason);
+      END IF;
+    END LOOP;
+
+    IF v_remaining_qty > 0 THEN
+      v_has_shortage := true;
+      v_shortage_list := v_shortage_list || jsonb_build_object(
+        'product_id', v_item.product_id, 'required_qty', v_item.quantity, 'shortage_qty', v_remaining_qty,
+        'skipped_batches', v_skipped);
+      v_skip_notes := v_skip_notes || ARRAY(
+        SELECT v_item.product_name || ' ' || (s->>'batch_number') || ': ' || (s->>'reason')
+        FROM jsonb_array_elements(v_skipped) s
+      );
+    END IF;
+  END LOOP;
+
+  IF v_has_shortage THEN
+    UPDATE sales_orders SET status = 'shortage', updated_at = now() WHERE id = p_so_id;
+    PERFORM fn_create_import_requirements(p_so_id, v_shortage_list);
+    RETURN QUERY SELECT
+      false,
+      ('Partial stock reserved - shortage exists.'
+        || CASE WHEN array_length(v_skip_notes, 1) > 0
+             THEN E'\nBatches with stock that were not used:\n' || array_to_string(v_skip_notes, E'\n')
+             ELSE '' END)::text,
+      v_shortage_list;
+  ELSE
+    UPDATE sales_orders SET status = 'stock_reserved', updated_at = now() WHERE id = p_so_id;
+    RETURN QUERY SELECT true, 'Stock fully reserved'::text, '[]'::jsonb;
+  END IF;
+END;
+$$;
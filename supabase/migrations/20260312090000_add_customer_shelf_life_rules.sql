@@ -0,0 +1,367 @@
+/*
+  # Customer Shelf-Life Rules
+
+  1. Problem
+    - `customers.min_shelf_life_months` is only a hint to the FEFO engine. Many tenders state the
+      requirement as a share of total shelf life ("at least 2/3 remaining"), which months cannot
+      express
+    - A user can still pick a short-dated batch on a delivery challan or a direct invoice line and
+      nothing stops it; the customer rejects the goods on arrival
+    - Sales has no view of which batches are no longer sellable to hospitals, pharmacies, etc.
+
+  2. Changes
+    - `customers.min_shelf_life_percent` - remaining share of the batch's total shelf life
+      (manufacture or import date to expiry) required at delivery
+    - `customers.shelf_life_rule_mode` - 'warn' lets the user continue with a reason, 'block'
+      refuses the batch outright
+    - `customers.customer_segment` - hospital / pharmacy / distributor (PBF) / manufacturer / other,
+      used to group the sellability report
+    - `batches.manufacture_date`, copied from the GRN line, is the start of the shelf life when
+      present; otherwise the import date is used
+    - `shelf_life_shortfall()` - single place the rule is evaluated; returns the reason a batch
+      fails it or NULL. `get_fefo_batch_allocation` now uses it, so percentage rules are honoured
+      by FEFO proposals and reservations
+    - `trg_enforce_customer_shelf_life` on delivery challan lines and direct (non-challan) invoice
+      lines raises for customers in 'block' mode, evaluated as of the document date
+    - `get_shelf_life_sellability()` - per batch in stock and customer segment, how many customers
+      the batch can no longer be sold to
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS min_shelf_life_percent NUMERIC(5,2)
+    CHECK (min_shelf_life_percent IS NULL OR (min_shelf_life_percent >= 0 AND min_shelf_life_percent <= 100)),
+  ADD COLUMN IF NOT EXISTS shelf_life_rule_mode TEXT NOT NULL DEFAULT 'warn'
+    CHECK (shelf_life_rule_mode IN ('warn', 'block')),
+  ADD COLUMN IF NOT EXISTS customer_segment TEXT
+    CHECK (customer_segment IS NULL OR customer_segment IN ('hospital', 'pharmacy', 'distributor', 'manufacturer', 'other'));
+
+CREATE INDEX IF NOT EXISTS idx_customers_segment ON customers(customer_segment);
+
+ALTER TABLE batches ADD COLUMN IF NOT EXISTS manufacture_date DATE;
+
+UPDATE batches b
+SET manufacture_date = gri.manufacture_date
+FROM goods_receipt_items gri
+WHERE gri.batch_id = b.id
+  AND gri.manufacture_date IS NOT NULL
+  AND b.manufacture_date IS NULL;
+
+CREATE OR REPLACE FUNCTION copy_grn_manufacture_date_to_batch()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.batch_id IS NOT NULL AND NEW.manufacture_date IS NOT NULL THEN
+    UPDATE batches
+    SET manufacture_date = NEW.manufacture_date
+    WHERE id = NEW.batch_id AND manufacture_date IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_copy_grn_manufacture_date ON goods_receipt_items;
+CREATE TRIGGER trg_copy_grn_manufacture_date
+  AFTER UPDATE OF batch_id ON goods_receipt_items
+  FOR EACH ROW EXECUTE FUNCTION copy_grn_manufacture_date_to_batch();
+
+-- ============================================
+-- 2. RULE
+-- ============================================
+
+-- Returns why a batch fails the customer's shelf-life rule on p_as_of, or NULL when it passes.
+-- The percentage rule is skipped when the shelf-life start is unknown.
+CREATE OR REPLACE FUNCTION shelf_life_shortfall(
+  p_expiry_date DATE,
+  p_shelf_life_start DATE,
+  p_min_months INTEGER,
+  p_min_percent NUMERIC,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_months_left INTEGER;
+  v_percent_left NUMERIC;
+BEGIN
+  IF p_expiry_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF COALESCE(p_min_months, 0) > 0
+     AND p_expiry_date < p_as_of + make_interval(months => p_min_months) THEN
+    v_months_left := GREATEST((EXTRACT(YEAR FROM age(p_expiry_date, p_as_of)) * 12
+      + EXTRACT(MONTH FROM age(p_expiry_date, p_as_of)))::INTEGER, 0);
+    RETURN 'Only ' || v_months_left || ' months shelf life left; customer requires ' || p_min_months;
+  END IF;
+
+  IF COALESCE(p_min_percent, 0) > 0
+     AND p_shelf_life_start IS NOT NULL
+     AND p_expiry_date > p_shelf_life_start THEN
+    v_percent_left := GREATEST(
+      (p_expiry_date - p_as_of)::NUMERIC * 100 / (p_expiry_date - p_shelf_life_start), 0);
+    IF v_percent_left < p_min_percent THEN
+      RETURN 'Only ' || floor(v_percent_left) || '% shelf life left; customer requires '
+        || trim_scale(p_min_percent) || '%';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================
+-- 3. ALLOCATION ENGINE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_fefo_batch_allocation(
+  p_product_id UUID,
+  p_quantity NUMERIC,
+  p_customer_id UUID DEFAULT NULL,
+  p_sales_order_id UUID DEFAULT NULL,
+  p_already_allocated JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  batch_id UUID,
+  batch_number TEXT,
+  expiry_date DATE,
+  available_quantity NUMERIC,
+  allocated_quantity NUMERIC,
+  skip_reason TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_min_months INTEGER;
+  v_min_percent NUMERIC;
+  v_remaining NUMERIC := GREATEST(COALESCE(p_quantity, 0), 0);
+  v_batch RECORD;
+  v_shortfall TEXT;
+BEGIN
+  IF p_customer_id IS NOT NULL THEN
+    SELECT c.min_shelf_life_months, c.min_shelf_life_percent
+    INTO v_min_months, v_min_percent
+    FROM customers c WHERE c.id = p_customer_id;
+  END IF;
+
+  FOR v_batch IN
+    SELECT
+      b.id,
+      b.batch_number,
+      b.expiry_date,
+      COALESCE(b.manufacture_date, b.import_date) AS shelf_life_start,
+      b.current_stock
+        - COALESCE(b.reserved_stock, 0)
+        + COALESCE((
+            SELECT SUM(sr.reserved_quantity) FROM stock_reservations sr
+            WHERE sr.batch_id = b.id AND sr.sales_order_id = p_sales_order_id AND sr.status = 'active'
+          ), 0)
+        - COALESCE((p_already_allocated->>b.id::text)::NUMERIC, 0) AS free_qty
+    FROM batches b
+    WHERE b.product_id = p_product_id
+      AND b.is_active = true
+      AND b.current_stock > 0
+    ORDER BY b.expiry_date ASC NULLS LAST, b.import_date ASC NULLS LAST, b.created_at ASC
+  LOOP
+    batch_id := v_batch.id;
+    batch_number := v_batch.batch_number;
+    expiry_date := v_batch.expiry_date;
+    available_quantity := GREATEST(v_batch.free_qty, 0);
+    allocated_quantity := 0;
+    skip_reason := NULL;
+    v_shortfall := shelf_life_shortfall(v_batch.expiry_date, v_batch.shelf_life_start, v_min_months, v_min_percent);
+
+    IF v_batch.expiry_date IS NOT NULL AND v_batch.expiry_date <= CURRENT_DATE THEN
+      skip_reason := 'Expired on ' || to_char(v_batch.expiry_date, 'DD/MM/YYYY');
+    ELSIF v_shortfall IS NOT NULL THEN
+      skip_reason := v_shortfall;
+    ELSIF v_batch.free_qty <= 0 THEN
+      skip_reason := 'All stock reserved or already allocated';
+    ELSIF v_remaining > 0 THEN
+      allocated_quantity := LEAST(v_remaining, v_batch.free_qty);
+      v_remaining := v_remaining - allocated_quantity;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- ============================================
+-- 4. ENFORCEMENT
+-- ============================================
+
+-- Customers in 'block' mode cannot receive a batch that fails their rule. Challan lines are
+-- checked against the challan date; invoice lines only when they are not billed from a challan
+-- (those were checked when the challan was saved).
+CREATE OR REPLACE FUNCTION enforce_customer_shelf_life()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_customer RECORD;
+  v_as_of DATE;
+  v_batch RECORD;
+  v_shortfall TEXT;
+BEGIN
+  IF NEW.batch_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.batch_id IS NOT DISTINCT FROM OLD.batch_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'delivery_challan_items' THEN
+    SELECT c.company_name, c.min_shelf_life_months, c.min_shelf_life_percent, c.shelf_life_rule_mode
+    INTO v_customer
+    FROM delivery_challans dc
+    JOIN customers c ON c.id = dc.customer_id
+    WHERE dc.id = NEW.challan_id;
+
+    SELECT challan_date INTO v_as_of FROM delivery_challans WHERE id = NEW.challan_id;
+  ELSE
+    IF NEW.delivery_challan_item_id IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT c.company_name, c.min_shelf_life_months, c.min_shelf_life_percent, c.shelf_life_rule_mode
+    INTO v_customer
+    FROM sales_invoices si
+    JOIN customers c ON c.id = si.customer_id
+    WHERE si.id = NEW.invoice_id;
+
+    SELECT invoice_date INTO v_as_of FROM sales_invoices WHERE id = NEW.invoice_id;
+  END IF;
+
+  IF v_customer IS NULL OR v_customer.shelf_life_rule_mode <> 'block' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT b.batch_number, b.expiry_date, COALESCE(b.manufacture_date, b.import_date) AS shelf_life_start
+  INTO v_batch
+  FROM batches b WHERE b.id = NEW.batch_id;
+
+  v_shortfall := shelf_life_shortfall(
+    v_batch.expiry_date, v_batch.shelf_life_start,
+    v_customer.min_shelf_life_months, v_customer.min_shelf_life_percent,
+    COALESCE(v_as_of, CURRENT_DATE));
+
+  IF v_shortfall IS NOT NULL THEN
+    RAISE EXCEPTION 'Batch % cannot be delivered to %: %',
+      v_batch.batch_number, v_customer.company_name, v_shortfall;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_customer_shelf_life ON delivery_challan_items;
+CREATE TRIGGER trg_enforce_customer_shelf_life
+  BEFORE INSERT OR UPDATE OF batch_id ON delivery_challan_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_customer_shelf_life();
+
+DROP TRIGGER IF EXISTS trg_enforce_customer_shelf_life ON sales_invoice_items;
+CREATE TRIGGER trg_enforce_customer_shelf_life
+  BEFORE INSERT OR UPDATE OF batch_id ON sales_invoice_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_customer_shelf_life();
+
+-- ============================================
+-- 5. SELLABILITY REPORT
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_shelf_life_sellability(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  batch_number TEXT,
+  expiry_date DATE,
+  free_quantity NUMERIC,
+  months_left INTEGER,
+  percent_left NUMERIC,
+  customer_segment TEXT,
+  customers_in_segment INTEGER,
+  customers_blocked INTEGER,
+  customers_warned INTEGER,
+  example_reason TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH stock AS (
+    SELECT
+      b.id,
+      b.product_id,
+      p.product_name,
+      b.batch_number,
+      b.expiry_date,
+      COALESCE(b.manufacture_date, b.import_date) AS shelf_life_start,
+      GREATEST(b.current_stock - COALESCE(b.reserved_stock, 0), 0) AS free_quantity
+    FROM batches b
+    JOIN products p ON p.id = b.product_id
+    WHERE b.is_active = true
+      AND b.current_stock > 0
+      AND b.expiry_date IS NOT NULL
+      AND b.expiry_date > p_as_of
+  ),
+  segment_customers AS (
+    SELECT
+      c.id,
+      COALESCE(c.customer_segment, 'unassigned') AS segment,
+      c.min_shelf_life_months,
+      c.min_shelf_life_percent,
+      c.shelf_life_rule_mode,
+      COUNT(*) OVER (PARTITION BY COALESCE(c.customer_segment, 'unassigned'))::INTEGER AS segment_size
+    FROM customers c
+    WHERE c.is_active = true
+  ),
+  failures AS (
+    SELECT
+      s.id AS batch_id,
+      sc.segment,
+      sc.segment_size,
+      sc.shelf_life_rule_mode,
+      shelf_life_shortfall(s.expiry_date, s.shelf_life_start, sc.min_shelf_life_months, sc.min_shelf_life_percent, p_as_of) AS reason
+    FROM stock s
+    CROSS JOIN segment_customers sc
+    WHERE COALESCE(sc.min_shelf_life_months, 0) > 0 OR COALESCE(sc.min_shelf_life_percent, 0) > 0
+  )
+  SELECT
+    s.id,
+    s.product_id,
+    s.product_name,
+    s.batch_number,
+    s.expiry_date,
+    s.free_quantity,
+    GREATEST((EXTRACT(YEAR FROM age(s.expiry_date, p_as_of)) * 12
+      + EXTRACT(MONTH FROM age(s.expiry_date, p_as_of)))::INTEGER, 0),
+    CASE WHEN s.shelf_life_start IS NOT NULL AND s.expiry_date > s.shelf_life_start
+      THEN ROUND((s.expiry_date - p_as_of)::NUMERIC * 100 / (s.expiry_date - s.shelf_life_start), 1)
+    END,
+    f.segment,
+    MAX(f.segment_size),
+    (COUNT(*) FILTER (WHERE f.shelf_life_rule_mode = 'block'))::INTEGER,
+    (COUNT(*) FILTER (WHERE f.shelf_life_rule_mode = 'warn'))::INTEGER,
+    MIN(f.reason)
+  FROM failures f
+  JOIN stock s ON s.id = f.batch_id
+  WHERE f.reason IS NOT NULL
+  GROUP BY s.id, s.product_id, s.product_name, s.batch_number, s.expiry_date, s.free_quantity,
+    s.shelf_life_start, f.segment
+  ORDER BY s.expiry_date, s.product_name, s.batch_number, f.segment;
+$$;
+
+GRANT EXECUTE ON FUNCTION shelf_life_shortfall(DATE, DATE, INTEGER, NUMERIC, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_shelf_life_sellability(DATE) TO authenticated;
@@ -0,0 +1,372 @@
+/*
+  # Near-Expiry and Dead-Stock Management
+
+  1. Problem
+    - The only expiry signal is a single "N batches expire within X days" notification and the
+      colouring on the Stock page; nobody sees how much money sits in short-dated stock
+    - Batches that have not sold for months are invisible until they expire
+    - Writing off expired stock goes through a stock rejection, which reduces stock but never
+      reaches the general ledger, so Inventory (1130) stays overstated
+
+  2. Changes
+    - Settings: `slow_moving_days` (default 90) and `dead_stock_days` (default 180) since the last
+      sale of a batch (or its import, if never sold); `expiry_digest_frequency` ('off' / 'daily' /
+      'weekly') and `expiry_digest_last_sent_at`
+    - Account 5500 Inventory Write-off
+    - `get_expiry_stock_status(p_as_of)` - every batch in stock with its expiry bucket
+      (expired / 0-30 / 31-60 / 61-90 / 91-180 / over 180 days), value at landed cost per unit,
+      last sale date and movement status (active / slow_moving / dead)
+    - `expiry_actions` - what was decided for a batch:
+      - `discount_campaign` - discount % and end date for the sales team
+      - `return_to_supplier` - raises a stock rejection (disposition return_to_supplier) that
+        goes through the normal approval; stock leaves on approval
+      - `write_off` - admin/accounts only. Raises an approved scrap rejection (stock leaves
+        immediately) and posts Dr 5500 Inventory Write-off / Cr 1130 Inventory at landed cost
+    - `record_expiry_action()` - single entry point for the three actions
+    - `claim_expiry_digest()` - returns true at most once per digest period; the app calls it on
+      its notification timer and, when it wins, asks `send-app-notifications` for the
+      `expiry_digest` email. Where pg_cron and pg_net are enabled, a daily job can post
+      {"type": "expiry_digest"} to the function instead
+*/
+
+-- ============================================
+-- 1. SETTINGS AND ACCOUNTS
+-- ============================================
+
+ALTER TABLE app_settings
+  ADD COLUMN IF NOT EXISTS slow_moving_days INTEGER NOT NULL DEFAULT 90 CHECK (slow_moving_days > 0),
+  ADD COLUMN IF NOT EXISTS dead_stock_days INTEGER NOT NULL DEFAULT 180 CHECK (dead_stock_days > 0),
+  ADD COLUMN IF NOT EXISTS expiry_digest_frequency TEXT NOT NULL DEFAULT 'weekly'
+    CHECK (expiry_digest_frequency IN ('off', 'daily', 'weekly')),
+  ADD COLUMN IF NOT EXISTS expiry_digest_last_sent_at TIMESTAMPTZ;
+
+INSERT INTO chart_of_accounts (code, name, name_id, account_type, account_group, is_header, normal_balance) VALUES
+('5500', 'Inventory Write-off', 'Penghapusan Persediaan', 'expense', 'COGS', false, 'debit')
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- 2. ACTIONS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS expiry_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  action_type TEXT NOT NULL CHECK (action_type IN ('discount_campaign', 'return_to_supplier', 'write_off')),
+  quantity DECIMAL(18,3) NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(18,2) NOT NULL DEFAULT 0,
+  total_value DECIMAL(18,2) NOT NULL DEFAULT 0,
+  discount_percent NUMERIC(5,2) CHECK (discount_percent IS NULL OR (discount_percent > 0 AND discount_percent < 100)),
+  campaign_end_date DATE,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+  stock_rejection_id UUID REFERENCES stock_rejections(id) ON DELETE SET NULL,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expiry_actions_batch ON expiry_actions(batch_id);
+CREATE INDEX IF NOT EXISTS idx_expiry_actions_status ON expiry_actions(status);
+
+ALTER TABLE expiry_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view expiry actions" ON expiry_actions;
+CREATE POLICY "Authenticated users can view expiry actions"
+  ON expiry_actions FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Stock roles can update expiry actions" ON expiry_actions;
+CREATE POLICY "Stock roles can update expiry actions"
+  ON expiry_actions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse')
+    )
+  );
+
+-- ============================================
+-- 3. STOCK STATUS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_expiry_stock_status(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  product_code TEXT,
+  batch_number TEXT,
+  supplier_id UUID,
+  expiry_date DATE,
+  days_to_expiry INTEGER,
+  expiry_bucket TEXT,
+  current_stock NUMERIC,
+  landed_cost_per_unit NUMERIC,
+  stock_value NUMERIC,
+  last_sale_date DATE,
+  days_since_movement INTEGER,
+  movement_status TEXT,
+  open_action TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT
+      COALESCE((SELECT slow_moving_days FROM app_settings LIMIT 1), 90) AS slow_days,
+      COALESCE((SELECT dead_stock_days FROM app_settings LIMIT 1), 180) AS dead_days
+  ),
+  last_sales AS (
+    SELECT it.batch_id, MAX(COALESCE(it.transaction_date, it.created_at::date)) AS last_sale_date
+    FROM inventory_transactions it
+    WHERE it.transaction_type IN ('sale', 'delivery_challan')
+    GROUP BY it.batch_id
+  ),
+  stock AS (
+    SELECT
+      b.id,
+      b.product_id,
+      p.product_name,
+      p.product_code,
+      b.batch_number,
+      b.supplier_id,
+      b.expiry_date,
+      (b.expiry_date - p_as_of) AS days_to_expiry,
+      b.current_stock,
+      COALESCE(NULLIF(b.landed_cost_per_unit, 0), b.import_price, 0) AS unit_cost,
+      ls.last_sale_date,
+      p_as_of - COALESCE(ls.last_sale_date, b.import_date, b.created_at::date) AS days_since_movement
+    FROM batches b
+    JOIN products p ON p.id = b.product_id
+    LEFT JOIN last_sales ls ON ls.batch_id = b.id
+    WHERE b.is_active = true
+      AND b.current_stock > 0
+  )
+  SELECT
+    s.id,
+    s.product_id,
+    s.product_name,
+    s.product_code,
+    s.batch_number,
+    s.supplier_id,
+    s.expiry_date,
+    s.days_to_expiry,
+    CASE
+      WHEN s.expiry_date IS NULL THEN 'no_expiry'
+      WHEN s.days_to_expiry <= 0 THEN 'expired'
+      WHEN s.days_to_expiry <= 30 THEN '0_30'
+      WHEN s.days_to_expiry <= 60 THEN '31_60'
+      WHEN s.days_to_expiry <= 90 THEN '61_90'
+      WHEN s.days_to_expiry <= 180 THEN '91_180'
+      ELSE 'over_180'
+    END,
+    s.current_stock,
+    ROUND(s.unit_cost, 2),
+    ROUND(s.current_stock * s.unit_cost, 2),
+    s.last_sale_date,
+    s.days_since_movement,
+    CASE
+      WHEN s.days_since_movement >= st.dead_days THEN 'dead'
+      WHEN s.days_since_movement >= st.slow_days THEN 'slow_moving'
+      ELSE 'active'
+    END,
+    (SELECT ea.action_type FROM expiry_actions ea
+     WHERE ea.batch_id = s.id AND ea.status = 'open'
+     ORDER BY ea.created_at DESC LIMIT 1)
+  FROM stock s
+  CROSS JOIN settings st
+  ORDER BY s.expiry_date ASC NULLS LAST, s.product_name;
+$$;
+
+-- ============================================
+-- 4. ACTIONS
+-- ============================================
+
+-- Inserts go through record_expiry_action() so returns and write-offs always carry their
+-- rejection and journal
+
+CREATE OR REPLACE FUNCTION record_expiry_action(
+  p_batch_id UUID,
+  p_action_type TEXT,
+  p_quantity NUMERIC,
+  p_discount_percent NUMERIC DEFAULT NULL,
+  p_campaign_end_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_batch RECORD;
+  v_unit_cost NUMERIC;
+  v_value NUMERIC;
+  v_rejection_id UUID;
+  v_rejection_number TEXT;
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_writeoff_account_id UUID;
+  v_inventory_account_id UUID;
+  v_action_id UUID;
+  v_description TEXT;
+BEGIN
+  SELECT role INTO v_role FROM user_profiles WHERE id = auth.uid();
+  IF v_role IS NULL OR v_role NOT IN ('admin', 'accounts', 'sales', 'warehouse') THEN
+    RAISE EXCEPTION 'You are not allowed to record expiry actions';
+  END IF;
+  IF p_action_type = 'write_off' AND v_role NOT IN ('admin', 'accounts') THEN
+    RAISE EXCEPTION 'Only admin or accounts can write off stock';
+  END IF;
+  IF p_action_type = 'discount_campaign' AND COALESCE(p_discount_percent, 0) <= 0 THEN
+    RAISE EXCEPTION 'A discount campaign needs a discount percentage';
+  END IF;
+
+  SELECT b.id, b.product_id, b.batch_number, b.current_stock, b.expiry_date,
+         COALESCE(NULLIF(b.landed_cost_per_unit, 0), b.import_price, 0) AS unit_cost,
+         p.product_name
+  INTO v_batch
+  FROM batches b
+  JOIN products p ON p.id = b.product_id
+  WHERE b.id = p_batch_id
+  FOR UPDATE OF b;
+
+  IF v_batch.id IS NULL THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+  IF COALESCE(p_quantity, 0) <= 0 OR p_quantity > v_batch.current_stock THEN
+    RAISE EXCEPTION 'Quantity must be between 0 and the % in stock', v_batch.current_stock;
+  END IF;
+
+  v_unit_cost := ROUND(v_batch.unit_cost, 2);
+  v_value := ROUND(p_quantity * v_batch.unit_cost, 2);
+  v_description := v_batch.product_name || ' batch ' || v_batch.batch_number;
+
+  IF p_action_type IN ('return_to_supplier', 'write_off') THEN
+    INSERT INTO stock_rejections (
+      batch_id, product_id, rejection_date, quantity_rejected, rejection_reason, rejection_details,
+      unit_cost, financial_loss, disposition, created_by, inspected_by
+    ) VALUES (
+      p_batch_id, v_batch.product_id, CURRENT_DATE, p_quantity,
+      CASE WHEN v_batch.expiry_date IS NOT NULL AND v_batch.expiry_date <= CURRENT_DATE THEN 'expired' ELSE 'other' END,
+      COALESCE(NULLIF(trim(p_notes), ''), 'Expiry management: ' || replace(p_action_type, '_', ' ')),
+      v_unit_cost, v_value,
+      CASE WHEN p_action_type = 'write_off' THEN 'scrap' ELSE 'return_to_supplier' END,
+      auth.uid(), auth.uid()
+    ) RETURNING id, rejection_number INTO v_rejection_id, v_rejection_number;
+  END IF;
+
+  IF p_action_type = 'return_to_supplier' AND v_value >= 100 THEN
+    -- Same approval routing as a rejection raised on the Stock Rejections page
+    INSERT INTO approval_workflows (
+      transaction_type, transaction_id, requested_by, amount, quantity, status, metadata
+    ) VALUES (
+      'stock_rejection', v_rejection_id, auth.uid(), v_value, p_quantity, 'pending',
+      jsonb_build_object('required_role', CASE WHEN v_value >= 1000 THEN 'admin' ELSE 'manager' END)
+    );
+  END IF;
+
+  IF p_action_type = 'write_off' THEN
+    -- trigger_stock_rejection_approved takes the stock out and logs the movement
+    UPDATE stock_rejections
+    SET status = 'approved', approved_by = auth.uid(), disposal_date = CURRENT_DATE, disposal_method = 'write_off'
+    WHERE id = v_rejection_id;
+
+    IF v_value > 0 THEN
+      SELECT id INTO v_writeoff_account_id FROM chart_of_accounts WHERE code = '5500' LIMIT 1;
+      SELECT id INTO v_inventory_account_id FROM chart_of_accounts WHERE code = '1130' LIMIT 1;
+      IF v_writeoff_account_id IS NULL OR v_inventory_account_id IS NULL THEN
+        RAISE EXCEPTION 'Accounts 5500 Inventory Write-off and 1130 Inventory must exist';
+      END IF;
+
+      v_je_number := next_journal_entry_number();
+
+      INSERT INTO journal_entries (
+        entry_number, entry_date, source_module, reference_id, reference_number,
+        description, total_debit, total_credit, is_posted, posted_by, created_by
+      ) VALUES (
+        v_je_number, CURRENT_DATE, 'inventory_write_off', v_rejection_id, v_rejection_number,
+        'Inventory write-off: ' || v_description,
+        v_value, v_value, true, auth.uid(), auth.uid()
+      ) RETURNING id INTO v_je_id;
+
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES
+        (v_je_id, 1, v_writeoff_account_id, v_description || ' - ' || p_quantity || ' written off', v_value, 0),
+        (v_je_id, 2, v_inventory_account_id, v_description || ' - ' || p_quantity || ' written off', 0, v_value);
+    END IF;
+  END IF;
+
+  INSERT INTO expiry_actions (
+    batch_id, product_id, action_type, quantity, unit_cost, total_value,
+    discount_percent, campaign_end_date, notes, status, stock_rejection_id, journal_entry_id
+  ) VALUES (
+    p_batch_id, v_batch.product_id, p_action_type, p_quantity, v_unit_cost, v_value,
+    CASE WHEN p_action_type = 'discount_campaign' THEN p_discount_percent END,
+    CASE WHEN p_action_type = 'discount_campaign' THEN p_campaign_end_date END,
+    NULLIF(trim(p_notes), ''),
+    CASE WHEN p_action_type = 'write_off' THEN 'completed' ELSE 'open' END,
+    v_rejection_id, v_je_id
+  ) RETURNING id INTO v_action_id;
+
+  RETURN v_action_id;
+END;
+$$;
+
+-- A return is done once its rejection is approved (stock has left) or closed when it is rejected
+CREATE OR REPLACE FUNCTION sync_expiry_action_with_rejection()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+    UPDATE expiry_actions
+    SET status = CASE WHEN NEW.status = 'approved' THEN 'completed' ELSE 'cancelled' END,
+        updated_at = now()
+    WHERE stock_rejection_id = NEW.id AND status = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_expiry_action_with_rejection ON stock_rejections;
+CREATE TRIGGER trg_sync_expiry_action_with_rejection
+  AFTER UPDATE OF status ON stock_rejections
+  FOR EACH ROW EXECUTE FUNCTION sync_expiry_action_with_rejection();
+
+-- ============================================
+-- 5. DIGEST SCHEDULE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION claim_expiry_digest()
+RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_claimed UUID;
+BEGIN
+  UPDATE app_settings
+  SET expiry_digest_last_sent_at = now()
+  WHERE id = (SELECT id FROM app_settings LIMIT 1)
+    AND expiry_digest_frequency <> 'off'
+    AND (
+      expiry_digest_last_sent_at IS NULL
+      OR expiry_digest_last_sent_at < now() - CASE expiry_digest_frequency
+           WHEN 'daily' THEN interval '1 day'
+           ELSE interval '7 days'
+         END
+    )
+  RETURNING id INTO v_claimed;
+
+  RETURN v_claimed IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_expiry_stock_status(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_expiry_action(UUID, TEXT, NUMERIC, NUMERIC, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_expiry_digest() TO authenticated;
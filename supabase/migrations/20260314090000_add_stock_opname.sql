@@ -0,0 +1,546 @@
+/*
+  # Stock Opname (Physical Stock Count)
+
+  1. Problem
+    - The only way to correct stock is a free-form `adjustment` on the Inventory page, applied
+      one batch at a time through `adjust_batch_stock_atomic()`. There is no count sheet, no
+      review of differences before stock changes, and no journal for the value lost or found
+    - Counters can see the system quantity while counting, so counts tend to confirm the book
+      figure instead of checking it
+
+  2. Changes
+    - `stock_counts` (header, numbered OPN-... through the document numbering service) and
+      `stock_count_items` (one line per batch, with the system quantity frozen when the count
+      is created)
+    - Status flow: counting -> submitted -> posted, with cancelled from either open state.
+      A reviewer can send selected lines back for recount
+    - Blind counts: `get_stock_count_sheet()` hides system quantities and variances from
+      everyone except admin and accounts until the count is submitted. Count lines are only
+      readable through that function
+    - `save_stock_count_quantities()` takes counted quantities as JSON, so screen entry and
+      Excel import share one path
+    - `post_stock_count()` moves each line's variance (counted - frozen system quantity) onto the
+      batch, leaving movements made after the freeze in place, logs an `adjustment` inventory
+      transaction per line and posts one journal against 5510 Inventory Shrinkage / 1130
+      Inventory
+    - A batch can only be on one open count at a time
+    - Header and lines are wired to the document audit trail
+*/
+
+-- ============================================
+-- 1. ACCOUNTS AND NUMBERING
+-- ============================================
+
+INSERT INTO chart_of_accounts (code, name, name_id, account_type, account_group, is_header, normal_balance) VALUES
+('5510', 'Inventory Shrinkage', 'Selisih Persediaan', 'expense', 'COGS', false, 'debit')
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- 2. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_number TEXT UNIQUE,
+  count_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  description TEXT,
+  is_blind BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'posted', 'cancelled')),
+  shortage_value DECIMAL(18,2) NOT NULL DEFAULT 0,
+  surplus_value DECIMAL(18,2) NOT NULL DEFAULT 0,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  submitted_by UUID REFERENCES user_profiles(id),
+  submitted_at TIMESTAMPTZ,
+  posted_by UUID REFERENCES user_profiles(id),
+  posted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_count_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_count_id UUID NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES batches(id),
+  product_id UUID NOT NULL REFERENCES products(id),
+  system_quantity DECIMAL(18,3) NOT NULL,
+  counted_quantity DECIMAL(18,3) CHECK (counted_quantity IS NULL OR counted_quantity >= 0),
+  unit_cost DECIMAL(18,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  counted_by UUID REFERENCES user_profiles(id),
+  counted_at TIMESTAMPTZ,
+  recount_requested BOOLEAN NOT NULL DEFAULT false,
+  inventory_transaction_id UUID REFERENCES inventory_transactions(id) ON DELETE SET NULL,
+  UNIQUE (stock_count_id, batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_counts_status ON stock_counts(status, count_date DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_count_items_count ON stock_count_items(stock_count_id);
+CREATE INDEX IF NOT EXISTS idx_stock_count_items_batch ON stock_count_items(batch_id);
+
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_count_items ENABLE ROW LEVEL SECURITY;
+
+-- All changes go through the functions below
+DROP POLICY IF EXISTS "Authenticated users can view stock counts" ON stock_counts;
+CREATE POLICY "Authenticated users can view stock counts"
+  ON stock_counts FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Counters read lines through get_stock_count_sheet() so blind counts stay blind
+DROP POLICY IF EXISTS "Admin and accounts can view stock count lines" ON stock_count_items;
+CREATE POLICY "Admin and accounts can view stock count lines"
+  ON stock_count_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+    )
+  );
+
+INSERT INTO document_number_settings (doc_type, label, prefix, padding, start_number, table_name, column_name)
+VALUES ('stock_count', 'Stock Opname', 'OPN', 4, 1, 'stock_counts', 'count_number')
+ON CONFLICT (doc_type) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trg_assign_document_number ON stock_counts;
+CREATE TRIGGER trg_assign_document_number BEFORE INSERT ON stock_counts
+  FOR EACH ROW EXECUTE FUNCTION trg_assign_document_number('stock_count', 'count_number');
+
+DROP TRIGGER IF EXISTS trg_record_deleted_document_number ON stock_counts;
+CREATE TRIGGER trg_record_deleted_document_number AFTER DELETE ON stock_counts
+  FOR EACH ROW EXECUTE FUNCTION trg_record_deleted_document_number('stock_count', 'count_number');
+
+-- ============================================
+-- 3. AUDIT TRAIL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION audit_document_ref(p_row JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    p_row->>'so_number',
+    p_row->>'challan_number',
+    p_row->>'credit_note_number',
+    p_row->>'return_number',
+    p_row->>'grn_number',
+    p_row->>'rejection_number',
+    p_row->>'entry_number',
+    p_row->>'voucher_number',
+    p_row->>'transaction_number',
+    p_row->>'transfer_number',
+    p_row->>'invoice_number',
+    p_row->>'po_number',
+    p_row->>'count_number',
+    p_row->>'batch_number'
+  );
+$$;
+
+DROP TRIGGER IF EXISTS trg_audit_log ON stock_counts;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON stock_counts
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON stock_count_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON stock_count_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('stock_counts', 'stock_count_id');
+
+-- ============================================
+-- 4. COUNT WORKFLOW
+-- ============================================
+
+CREATE OR REPLACE FUNCTION stock_count_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_profiles WHERE id = auth.uid();
+$$;
+
+-- Freezes a count sheet: one line per active batch (optionally limited to some products)
+CREATE OR REPLACE FUNCTION create_stock_count(
+  p_count_date DATE,
+  p_description TEXT DEFAULT NULL,
+  p_is_blind BOOLEAN DEFAULT true,
+  p_product_ids UUID[] DEFAULT NULL,
+  p_include_zero_stock BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count_id UUID;
+  v_conflict RECORD;
+BEGIN
+  IF COALESCE(stock_count_role(), '') NOT IN ('admin', 'accounts', 'warehouse') THEN
+    RAISE EXCEPTION 'You are not allowed to start a stock count';
+  END IF;
+
+  SELECT b.batch_number, sc.count_number INTO v_conflict
+  FROM stock_count_items sci
+  JOIN stock_counts sc ON sc.id = sci.stock_count_id
+  JOIN batches b ON b.id = sci.batch_id
+  WHERE sc.status IN ('counting', 'submitted')
+    AND b.is_active = true
+    AND (p_product_ids IS NULL OR b.product_id = ANY(p_product_ids))
+    AND (p_include_zero_stock OR b.current_stock > 0)
+  LIMIT 1;
+
+  IF v_conflict.batch_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Batch % is already on open count %', v_conflict.batch_number, v_conflict.count_number;
+  END IF;
+
+  INSERT INTO stock_counts (count_date, description, is_blind)
+  VALUES (COALESCE(p_count_date, CURRENT_DATE), NULLIF(trim(p_description), ''), COALESCE(p_is_blind, true))
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO stock_count_items (stock_count_id, batch_id, product_id, system_quantity, unit_cost)
+  SELECT v_count_id, b.id, b.product_id, b.current_stock,
+         ROUND(COALESCE(NULLIF(b.landed_cost_per_unit, 0), b.import_price, 0), 2)
+  FROM batches b
+  WHERE b.is_active = true
+    AND (p_product_ids IS NULL OR b.product_id = ANY(p_product_ids))
+    AND (p_include_zero_stock OR b.current_stock > 0);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No batches match this count';
+  END IF;
+
+  RETURN v_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_stock_count_sheet(p_stock_count_id UUID)
+RETURNS TABLE (
+  item_id UUID,
+  batch_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  product_code TEXT,
+  unit TEXT,
+  batch_number TEXT,
+  expiry_date DATE,
+  system_quantity NUMERIC,
+  current_stock NUMERIC,
+  counted_quantity NUMERIC,
+  variance_quantity NUMERIC,
+  unit_cost NUMERIC,
+  variance_value NUMERIC,
+  notes TEXT,
+  counted_by_name TEXT,
+  counted_at TIMESTAMPTZ,
+  recount_requested BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_hide BOOLEAN;
+BEGIN
+  v_role := stock_count_role();
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT sc.is_blind AND sc.status = 'counting' AND v_role NOT IN ('admin', 'accounts')
+  INTO v_hide
+  FROM stock_counts sc
+  WHERE sc.id = p_stock_count_id;
+
+  RETURN QUERY
+  SELECT
+    sci.id,
+    sci.batch_id,
+    sci.product_id,
+    p.product_name,
+    p.product_code,
+    p.unit,
+    b.batch_number,
+    b.expiry_date,
+    CASE WHEN v_hide THEN NULL ELSE sci.system_quantity END,
+    CASE WHEN v_hide THEN NULL ELSE b.current_stock END,
+    sci.counted_quantity,
+    CASE WHEN v_hide OR sci.counted_quantity IS NULL THEN NULL
+         ELSE sci.counted_quantity - sci.system_quantity END,
+    CASE WHEN v_hide THEN NULL ELSE sci.unit_cost END,
+    CASE WHEN v_hide OR sci.counted_quantity IS NULL THEN NULL
+         ELSE ROUND((sci.counted_quantity - sci.system_quantity) * sci.unit_cost, 2) END,
+    sci.notes,
+    up.full_name,
+    sci.counted_at,
+    sci.recount_requested
+  FROM stock_count_items sci
+  JOIN batches b ON b.id = sci.batch_id
+  JOIN products p ON p.id = sci.product_id
+  LEFT JOIN user_profiles up ON up.id = sci.counted_by
+  WHERE sci.stock_count_id = p_stock_count_id
+  ORDER BY p.product_name, b.expiry_date NULLS LAST, b.batch_number;
+END;
+$$;
+
+-- p_counts: [{"item_id": "...", "counted_quantity": 12.5, "notes": "..."}]; a null quantity clears the line
+CREATE OR REPLACE FUNCTION save_stock_count_quantities(p_stock_count_id UUID, p_counts JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_entry JSONB;
+  v_quantity NUMERIC;
+  v_saved INTEGER := 0;
+BEGIN
+  IF COALESCE(stock_count_role(), '') NOT IN ('admin', 'accounts', 'warehouse') THEN
+    RAISE EXCEPTION 'You are not allowed to enter stock counts';
+  END IF;
+
+  SELECT status INTO v_status FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+  IF v_status <> 'counting' THEN
+    RAISE EXCEPTION 'Counts can only be entered while the count is open (status is %)', v_status;
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_counts, '[]'::jsonb)) LOOP
+    v_quantity := NULLIF(v_entry->>'counted_quantity', '')::NUMERIC;
+    IF v_quantity < 0 THEN
+      RAISE EXCEPTION 'Counted quantity cannot be negative';
+    END IF;
+
+    UPDATE stock_count_items
+    SET counted_quantity = v_quantity,
+        notes = CASE WHEN v_entry ? 'notes' THEN NULLIF(trim(v_entry->>'notes'), '') ELSE notes END,
+        counted_by = CASE WHEN v_quantity IS NULL THEN NULL ELSE auth.uid() END,
+        counted_at = CASE WHEN v_quantity IS NULL THEN NULL ELSE now() END,
+        recount_requested = CASE WHEN v_quantity IS NULL THEN recount_requested ELSE false END
+    WHERE id = (v_entry->>'item_id')::UUID
+      AND stock_count_id = p_stock_count_id
+      AND counted_quantity IS DISTINCT FROM v_quantity;
+
+    IF FOUND THEN
+      v_saved := v_saved + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE stock_counts SET updated_at = now() WHERE id = p_stock_count_id AND v_saved > 0;
+
+  RETURN v_saved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_stock_count(p_stock_count_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_uncounted INTEGER;
+BEGIN
+  IF COALESCE(stock_count_role(), '') NOT IN ('admin', 'accounts', 'warehouse') THEN
+    RAISE EXCEPTION 'You are not allowed to submit stock counts';
+  END IF;
+
+  SELECT status INTO v_status FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+  IF v_status IS DISTINCT FROM 'counting' THEN
+    RAISE EXCEPTION 'Only an open count can be submitted';
+  END IF;
+
+  SELECT COUNT(*) INTO v_uncounted
+  FROM stock_count_items
+  WHERE stock_count_id = p_stock_count_id AND counted_quantity IS NULL;
+
+  IF v_uncounted > 0 THEN
+    RAISE EXCEPTION '% line(s) have not been counted yet', v_uncounted;
+  END IF;
+
+  UPDATE stock_counts
+  SET status = 'submitted', submitted_by = auth.uid(), submitted_at = now(), updated_at = now()
+  WHERE id = p_stock_count_id;
+END;
+$$;
+
+-- Sends the given lines back to the counters; their counts are cleared so the recount is blind again
+CREATE OR REPLACE FUNCTION request_stock_recount(p_stock_count_id UUID, p_item_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF COALESCE(stock_count_role(), '') NOT IN ('admin', 'accounts') THEN
+    RAISE EXCEPTION 'Only admin or accounts can review stock counts';
+  END IF;
+  IF COALESCE(array_length(p_item_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select the lines to recount';
+  END IF;
+
+  SELECT status INTO v_status FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+  IF v_status IS DISTINCT FROM 'submitted' THEN
+    RAISE EXCEPTION 'Only a submitted count can be sent back for recount';
+  END IF;
+
+  UPDATE stock_count_items
+  SET counted_quantity = NULL, counted_by = NULL, counted_at = NULL, recount_requested = true
+  WHERE stock_count_id = p_stock_count_id AND id = ANY(p_item_ids);
+
+  UPDATE stock_counts
+  SET status = 'counting', submitted_by = NULL, submitted_at = NULL, updated_at = now()
+  WHERE id = p_stock_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_stock_count(p_stock_count_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(stock_count_role(), '') NOT IN ('admin', 'accounts', 'warehouse') THEN
+    RAISE EXCEPTION 'You are not allowed to cancel stock counts';
+  END IF;
+
+  UPDATE stock_counts
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_stock_count_id AND status IN ('counting', 'submitted');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only an open or submitted count can be cancelled';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_stock_count(p_stock_count_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count RECORD;
+  v_line RECORD;
+  v_variance NUMERIC;
+  v_stock_before NUMERIC;
+  v_transaction_id UUID;
+  v_shortage NUMERIC := 0;
+  v_surplus NUMERIC := 0;
+  v_shrinkage_account_id UUID;
+  v_inventory_account_id UUID;
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_line_number INTEGER := 0;
+BEGIN
+  IF COALESCE(stock_count_role(), '') NOT IN ('admin', 'accounts') THEN
+    RAISE EXCEPTION 'Only admin or accounts can post stock counts';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+  IF v_count.id IS NULL THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+  IF v_count.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only a submitted count can be posted';
+  END IF;
+
+  FOR v_line IN
+    SELECT sci.id, sci.batch_id, sci.product_id, sci.system_quantity, sci.counted_quantity, sci.unit_cost
+    FROM stock_count_items sci
+    WHERE sci.stock_count_id = p_stock_count_id
+      AND sci.counted_quantity <> sci.system_quantity
+    ORDER BY sci.id
+  LOOP
+    v_variance := v_line.counted_quantity - v_line.system_quantity;
+
+    SELECT current_stock INTO v_stock_before FROM batches WHERE id = v_line.batch_id FOR UPDATE;
+
+    -- Movements after the freeze stay; only the counted difference is applied
+    IF v_stock_before + v_variance < 0 THEN
+      RAISE EXCEPTION 'Batch % would go negative (% in stock, variance %)',
+        (SELECT batch_number FROM batches WHERE id = v_line.batch_id), v_stock_before, v_variance;
+    END IF;
+
+    UPDATE batches
+    SET current_stock = current_stock + v_variance
+    WHERE id = v_line.batch_id;
+
+    INSERT INTO inventory_transactions (
+      product_id, batch_id, transaction_type, quantity,
+      transaction_date, reference_number, reference_type, reference_id,
+      notes, created_by, stock_before, stock_after
+    ) VALUES (
+      v_line.product_id, v_line.batch_id, 'adjustment', v_variance,
+      v_count.count_date, v_count.count_number, 'stock_count', p_stock_count_id,
+      'Stock opname variance', auth.uid(),
+      v_stock_before, v_stock_before + v_variance
+    ) RETURNING id INTO v_transaction_id;
+
+    UPDATE stock_count_items SET inventory_transaction_id = v_transaction_id WHERE id = v_line.id;
+
+    IF v_variance < 0 THEN
+      v_shortage := v_shortage + ROUND(-v_variance * v_line.unit_cost, 2);
+    ELSE
+      v_surplus := v_surplus + ROUND(v_variance * v_line.unit_cost, 2);
+    END IF;
+  END LOOP;
+
+  IF v_shortage > 0 OR v_surplus > 0 THEN
+    SELECT id INTO v_shrinkage_account_id FROM chart_of_accounts WHERE code = '5510' LIMIT 1;
+    SELECT id INTO v_inventory_account_id FROM chart_of_accounts WHERE code = '1130' LIMIT 1;
+    IF v_shrinkage_account_id IS NULL OR v_inventory_account_id IS NULL THEN
+      RAISE EXCEPTION 'Accounts 5510 Inventory Shrinkage and 1130 Inventory must exist';
+    END IF;
+
+    v_je_number := next_journal_entry_number();
+
+    INSERT INTO journal_entries (
+      entry_number, entry_date, source_module, reference_id, reference_number,
+      description, total_debit, total_credit, is_posted, posted_by, created_by
+    ) VALUES (
+      v_je_number, v_count.count_date, 'stock_count', p_stock_count_id, v_count.count_number,
+      'Stock opname ' || v_count.count_number,
+      v_shortage + v_surplus, v_shortage + v_surplus, true, auth.uid(), auth.uid()
+    ) RETURNING id INTO v_je_id;
+
+    IF v_shortage > 0 THEN
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES
+        (v_je_id, v_line_number + 1, v_shrinkage_account_id, 'Stock count shortage ' || v_count.count_number, v_shortage, 0),
+        (v_je_id, v_line_number + 2, v_inventory_account_id, 'Stock count shortage ' || v_count.count_number, 0, v_shortage);
+      v_line_number := v_line_number + 2;
+    END IF;
+
+    IF v_surplus > 0 THEN
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES
+        (v_je_id, v_line_number + 1, v_inventory_account_id, 'Stock count surplus ' || v_count.count_number, v_surplus, 0),
+        (v_je_id, v_line_number + 2, v_shrinkage_account_id, 'Stock count surplus ' || v_count.count_number, 0, v_surplus);
+    END IF;
+  END IF;
+
+  UPDATE stock_counts
+  SET status = 'posted',
+      shortage_value = v_shortage,
+      surplus_value = v_surplus,
+      journal_entry_id = v_je_id,
+      posted_by = auth.uid(),
+      posted_at = now(),
+      updated_at = now()
+  WHERE id = p_stock_count_id;
+
+  RETURN v_je_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_stock_count(DATE, TEXT, BOOLEAN, UUID[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_stock_count_sheet(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_stock_count_quantities(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_stock_count(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_stock_recount(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_stock_count(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_stock_count(UUID) TO authenticated;
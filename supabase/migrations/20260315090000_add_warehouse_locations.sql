@@ -0,0 +1,807 @@
+/*
+  # Warehouses, Bin Locations and Transfer Challans
+
+  1. Problem
+    - Stock is a single figure per batch (`batches.current_stock`), but goods sit in the main
+      warehouse, the bonded area and a third-party logistics site. Nobody can tell from the
+      system where a batch physically is, or move it between sites with a document
+    - Delivery challans cannot say which site the goods leave from
+
+  2. Changes
+    - `warehouses` (type main / bonded / third_party / other, one default) and
+      `warehouse_locations` (bins inside a warehouse). A Main Warehouse with a GENERAL bin is
+      created and every batch's stock is placed there
+    - `batch_location_stock` - quantity of each batch per location. `batches.current_stock`
+      stays the total; `sync_batch_location_stock()` on batches keeps the split in step with
+      every existing stock trigger:
+      * stock added goes to the location named in the `app.stock_location_id` setting, else
+        the batch's home location (`batches.location_id`), else the default location
+      * stock removed comes from the named location, else from the home location first and
+        then the largest other locations
+    - `stock_transfers` / `stock_transfer_items` - inter-warehouse and bin-to-bin transfer
+      challans, numbered TRF-... through the document numbering service.
+      `complete_stock_transfer()` checks stock at each source location and moves it; the total
+      on the batch does not change. Each move is logged as a pair of `transfer` inventory
+      transactions carrying the location
+    - `delivery_challan_items.location_id` - pick location. Approval checks the stock there
+      and deducts from it; `edit_delivery_challan()` carries the location through edits
+    - `inventory_transactions.location_id` where the movement location is known
+    - `product_stock_summary` gains `location_stock` (per-location totals as JSON) alongside
+      the existing total
+*/
+
+-- ============================================
+-- 1. WAREHOUSES AND LOCATIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS warehouses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  warehouse_type TEXT NOT NULL DEFAULT 'main'
+    CHECK (warehouse_type IN ('main', 'bonded', 'third_party', 'other')),
+  address TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_single_default ON warehouses(is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS warehouse_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  name TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (warehouse_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS batch_location_stock (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES warehouse_locations(id),
+  quantity DECIMAL(18,3) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (batch_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_location_stock_location ON batch_location_stock(location_id);
+
+ALTER TABLE batches
+  ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES warehouse_locations(id);
+
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES warehouse_locations(id);
+
+ALTER TABLE inventory_transactions
+  DROP CONSTRAINT IF EXISTS inventory_transactions_transaction_type_check;
+ALTER TABLE inventory_transactions
+  ADD CONSTRAINT inventory_transactions_transaction_type_check
+  CHECK (transaction_type IN ('purchase', 'sale', 'adjustment', 'return', 'delivery_challan', 'transfer'));
+
+ALTER TABLE delivery_challan_items
+  ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES warehouse_locations(id);
+
+ALTER TABLE warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warehouse_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_location_stock ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view warehouses" ON warehouses;
+CREATE POLICY "Authenticated users can view warehouses"
+  ON warehouses FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admin and warehouse can manage warehouses" ON warehouses;
+CREATE POLICY "Admin and warehouse can manage warehouses"
+  ON warehouses FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse'))
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view warehouse locations" ON warehouse_locations;
+CREATE POLICY "Authenticated users can view warehouse locations"
+  ON warehouse_locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admin and warehouse can manage warehouse locations" ON warehouse_locations;
+CREATE POLICY "Admin and warehouse can manage warehouse locations"
+  ON warehouse_locations FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse'))
+  );
+
+-- Written only by triggers and complete_stock_transfer()
+DROP POLICY IF EXISTS "Authenticated users can view batch location stock" ON batch_location_stock;
+CREATE POLICY "Authenticated users can view batch location stock"
+  ON batch_location_stock FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================
+-- 2. DEFAULT LOCATION AND BACKFILL
+-- ============================================
+
+INSERT INTO warehouses (code, name, warehouse_type, is_default)
+SELECT 'MAIN', 'Main Warehouse', 'main', true
+WHERE NOT EXISTS (SELECT 1 FROM warehouses);
+
+INSERT INTO warehouse_locations (warehouse_id, code, name)
+SELECT w.id, 'GENERAL', 'General storage'
+FROM warehouses w
+WHERE w.is_default
+  AND NOT EXISTS (SELECT 1 FROM warehouse_locations l WHERE l.warehouse_id = w.id);
+
+CREATE OR REPLACE FUNCTION default_stock_location()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id
+  FROM warehouse_locations l
+  JOIN warehouses w ON w.id = l.warehouse_id
+  WHERE w.is_default AND l.is_active
+  ORDER BY l.created_at, l.code
+  LIMIT 1;
+$$;
+
+UPDATE batches SET location_id = default_stock_location() WHERE location_id IS NULL;
+
+INSERT INTO batch_location_stock (batch_id, location_id, quantity)
+SELECT b.id, b.location_id, b.current_stock
+FROM batches b
+WHERE b.current_stock <> 0
+ON CONFLICT (batch_id, location_id) DO NOTHING;
+
+-- ============================================
+-- 3. KEEPING THE SPLIT IN STEP WITH BATCH TOTALS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_batch_location_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delta NUMERIC;
+  v_location UUID;
+  v_home UUID;
+  v_remaining NUMERIC;
+  v_take NUMERIC;
+  v_row RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := COALESCE(NEW.current_stock, 0);
+  ELSE
+    v_delta := COALESCE(NEW.current_stock, 0) - COALESCE(OLD.current_stock, 0);
+  END IF;
+
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_location := NULLIF(current_setting('app.stock_location_id', true), '')::UUID;
+  v_home := COALESCE(NEW.location_id, default_stock_location());
+
+  IF v_delta > 0 THEN
+    INSERT INTO batch_location_stock (batch_id, location_id, quantity)
+    VALUES (NEW.id, COALESCE(v_location, v_home), v_delta)
+    ON CONFLICT (batch_id, location_id)
+    DO UPDATE SET quantity = batch_location_stock.quantity + EXCLUDED.quantity, updated_at = now();
+    RETURN NEW;
+  END IF;
+
+  v_remaining := -v_delta;
+
+  IF v_location IS NULL THEN
+    FOR v_row IN
+      SELECT location_id, quantity
+      FROM batch_location_stock
+      WHERE batch_id = NEW.id AND quantity > 0
+      ORDER BY (location_id = v_home) DESC, quantity DESC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_take := LEAST(v_row.quantity, v_remaining);
+      UPDATE batch_location_stock
+      SET quantity = quantity - v_take, updated_at = now()
+      WHERE batch_id = NEW.id AND location_id = v_row.location_id;
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  END IF;
+
+  -- Oversold stock stays negative at one location, mirroring the batch total
+  IF v_remaining > 0 THEN
+    INSERT INTO batch_location_stock (batch_id, location_id, quantity)
+    VALUES (NEW.id, COALESCE(v_location, v_home), -v_remaining)
+    ON CONFLICT (batch_id, location_id)
+    DO UPDATE SET quantity = batch_location_stock.quantity + EXCLUDED.quantity, updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_batch_location_stock ON batches;
+CREATE TRIGGER trg_sync_batch_location_stock
+  AFTER INSERT OR UPDATE OF current_stock ON batches
+  FOR EACH ROW EXECUTE FUNCTION sync_batch_location_stock();
+
+CREATE OR REPLACE FUNCTION set_batch_home_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.location_id IS NULL THEN
+    NEW.location_id := default_stock_location();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_batch_home_location ON batches;
+CREATE TRIGGER trg_set_batch_home_location
+  BEFORE INSERT ON batches
+  FOR EACH ROW EXECUTE FUNCTION set_batch_home_location();
+
+-- ============================================
+-- 4. TRANSFER CHALLANS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_number TEXT UNIQUE,
+  transfer_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  from_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  to_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'completed', 'cancelled')),
+  vehicle_number TEXT,
+  driver_name TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  completed_by UUID REFERENCES user_profiles(id),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id UUID NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES batches(id),
+  product_id UUID NOT NULL REFERENCES products(id),
+  from_location_id UUID NOT NULL REFERENCES warehouse_locations(id),
+  to_location_id UUID NOT NULL REFERENCES warehouse_locations(id),
+  quantity DECIMAL(18,3) NOT NULL CHECK (quantity > 0),
+  CHECK (from_location_id <> to_location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_date ON stock_transfers(transfer_date DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON stock_transfer_items(transfer_id);
+
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view stock transfers" ON stock_transfers;
+CREATE POLICY "Authenticated users can view stock transfers"
+  ON stock_transfers FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Stock roles can create stock transfers" ON stock_transfers;
+CREATE POLICY "Stock roles can create stock transfers"
+  ON stock_transfers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'draft'
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse', 'accounts'))
+  );
+
+-- Completing goes through complete_stock_transfer(); drafts can be edited, cancelled or deleted
+DROP POLICY IF EXISTS "Stock roles can update draft stock transfers" ON stock_transfers;
+CREATE POLICY "Stock roles can update draft stock transfers"
+  ON stock_transfers FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse', 'accounts'))
+  )
+  WITH CHECK (status IN ('draft', 'cancelled'));
+
+DROP POLICY IF EXISTS "Stock roles can delete draft stock transfers" ON stock_transfers;
+CREATE POLICY "Stock roles can delete draft stock transfers"
+  ON stock_transfers FOR DELETE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse', 'accounts'))
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view stock transfer items" ON stock_transfer_items;
+CREATE POLICY "Authenticated users can view stock transfer items"
+  ON stock_transfer_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Stock roles can manage draft stock transfer items" ON stock_transfer_items;
+CREATE POLICY "Stock roles can manage draft stock transfer items"
+  ON stock_transfer_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM stock_transfers t WHERE t.id = transfer_id AND t.status = 'draft')
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse', 'accounts'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM stock_transfers t WHERE t.id = transfer_id AND t.status = 'draft')
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'warehouse', 'accounts'))
+  );
+
+INSERT INTO document_number_settings (doc_type, label, prefix, padding, start_number, table_name, column_name)
+VALUES ('stock_transfer', 'Warehouse Transfer Challan', 'TRF', 4, 1, 'stock_transfers', 'transfer_number')
+ON CONFLICT (doc_type) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trg_assign_document_number ON stock_transfers;
+CREATE TRIGGER trg_assign_document_number BEFORE INSERT ON stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION trg_assign_document_number('stock_transfer', 'transfer_number');
+
+DROP TRIGGER IF EXISTS trg_record_deleted_document_number ON stock_transfers;
+CREATE TRIGGER trg_record_deleted_document_number AFTER DELETE ON stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION trg_record_deleted_document_number('stock_transfer', 'transfer_number');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON stock_transfers;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON stock_transfer_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON stock_transfer_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('stock_transfers', 'transfer_id');
+
+CREATE OR REPLACE FUNCTION complete_stock_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_transfer RECORD;
+  v_item RECORD;
+  v_available NUMERIC;
+  v_lines INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'warehouse', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to complete stock transfers';
+  END IF;
+
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+  IF v_transfer.id IS NULL THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only a draft transfer can be completed';
+  END IF;
+
+  FOR v_item IN
+    SELECT sti.*, b.batch_number, fl.code AS from_code, fl.warehouse_id AS from_warehouse_id,
+           tl.warehouse_id AS to_warehouse_id
+    FROM stock_transfer_items sti
+    JOIN batches b ON b.id = sti.batch_id
+    JOIN warehouse_locations fl ON fl.id = sti.from_location_id
+    JOIN warehouse_locations tl ON tl.id = sti.to_location_id
+    WHERE sti.transfer_id = p_transfer_id
+  LOOP
+    IF v_item.from_warehouse_id <> v_transfer.from_warehouse_id
+       OR v_item.to_warehouse_id <> v_transfer.to_warehouse_id THEN
+      RAISE EXCEPTION 'Batch % line uses a location outside the transfer''s warehouses', v_item.batch_number;
+    END IF;
+
+    SELECT quantity INTO v_available
+    FROM batch_location_stock
+    WHERE batch_id = v_item.batch_id AND location_id = v_item.from_location_id
+    FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < v_item.quantity THEN
+      RAISE EXCEPTION 'Only % of batch % is at location %, cannot move %',
+        COALESCE(v_available, 0), v_item.batch_number, v_item.from_code, v_item.quantity;
+    END IF;
+
+    UPDATE batch_location_stock
+    SET quantity = quantity - v_item.quantity, updated_at = now()
+    WHERE batch_id = v_item.batch_id AND location_id = v_item.from_location_id;
+
+    INSERT INTO batch_location_stock (batch_id, location_id, quantity)
+    VALUES (v_item.batch_id, v_item.to_location_id, v_item.quantity)
+    ON CONFLICT (batch_id, location_id)
+    DO UPDATE SET quantity = batch_location_stock.quantity + EXCLUDED.quantity, updated_at = now();
+
+    INSERT INTO inventory_transactions (
+      product_id, batch_id, transaction_type, quantity, location_id,
+      transaction_date, reference_number, reference_type, reference_id, notes, created_by
+    ) VALUES
+      (v_item.product_id, v_item.batch_id, 'transfer', -v_item.quantity, v_item.from_location_id,
+       v_transfer.transfer_date, v_transfer.transfer_number, 'stock_transfer', p_transfer_id,
+       'Transfer out: ' || v_transfer.transfer_number, auth.uid()),
+      (v_item.product_id, v_item.batch_id, 'transfer', v_item.quantity, v_item.to_location_id,
+       v_transfer.transfer_date, v_transfer.transfer_number, 'stock_transfer', p_transfer_id,
+       'Transfer in: ' || v_transfer.transfer_number, auth.uid());
+
+    v_lines := v_lines + 1;
+  END LOOP;
+
+  IF v_lines = 0 THEN
+    RAISE EXCEPTION 'Add at least one line before completing the transfer';
+  END IF;
+
+  UPDATE stock_transfers
+  SET status = 'completed', completed_by = auth.uid(), completed_at = now(), updated_at = now()
+  WHERE id = p_transfer_id;
+END;
+$$;
+
+-- ============================================
+-- 5. DELIVERY CHALLAN PICK LOCATION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trg_dc_approval_validate_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_available_stock numeric;
+  v_location_stock numeric;
+BEGIN
+  -- Only validate when status changes to 'approved'
+  IF NEW.approval_status = 'approved' AND (OLD.approval_status IS NULL OR OLD.approval_status != 'approved') THEN
+
+    -- Check stock for all items
+    FOR v_item IN
+      SELECT dci.*, p.product_name, p.unit, b.batch_number, b.current_stock, b.reserved_stock,
+             l.code AS location_code, w.code AS warehouse_code
+      FROM delivery_challan_items dci
+      JOIN products p ON dci.product_id = p.id
+      JOIN batches b ON dci.batch_id = b.id
+      LEFT JOIN warehouse_locations l ON l.id = dci.location_id
+      LEFT JOIN warehouses w ON w.id = l.warehouse_id
+      WHERE dci.challan_id = NEW.id
+    LOOP
+      -- Calculate available stock
+      v_available_stock := v_item.current_stock;
+
+      -- Check if enough stock
+      IF v_available_stock < v_item.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for batch %!
+
+Product: %
+Batch: %
+Available: % %
+Requested: % %
+
+Please reduce quantity or select a different batch.',
+          v_item.batch_number,
+          v_item.product_name,
+          v_item.batch_number,
+          v_available_stock,
+          COALESCE(v_item.unit, 'units'),
+          v_item.quantity,
+          COALESCE(v_item.unit, 'units');
+      END IF;
+
+      IF v_item.location_id IS NOT NULL THEN
+        SELECT COALESCE(SUM(quantity), 0) INTO v_location_stock
+        FROM batch_location_stock
+        WHERE batch_id = v_item.batch_id AND location_id = v_item.location_id;
+
+        IF v_location_stock < v_item.quantity THEN
+          RAISE EXCEPTION 'Insufficient stock for batch % at %/%: % % there, % % requested. Transfer stock first or pick from another location.',
+            v_item.batch_number, v_item.warehouse_code, v_item.location_code,
+            v_location_stock, COALESCE(v_item.unit, 'units'),
+            v_item.quantity, COALESCE(v_item.unit, 'units');
+        END IF;
+      END IF;
+    END LOOP;
+
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_dc_approval_deduct_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_current_stock numeric;
+BEGIN
+  -- Only process when status changes to 'approved'
+  IF NEW.approval_status = 'approved' AND (OLD.approval_status != 'approved') THEN
+
+    -- Deduct actual stock for all items
+    FOR v_item IN
+      SELECT * FROM delivery_challan_items WHERE challan_id = NEW.id
+    LOOP
+      -- Get current stock
+      SELECT current_stock INTO v_current_stock FROM batches WHERE id = v_item.batch_id;
+
+      -- sync_batch_location_stock() takes the quantity from the pick location
+      PERFORM set_config('app.stock_location_id', COALESCE(v_item.location_id::text, ''), true);
+
+      -- Deduct from current_stock and release from reserved_stock
+      UPDATE batches
+      SET
+        current_stock = current_stock - v_item.quantity,
+        reserved_stock = GREATEST(0, COALESCE(reserved_stock, 0) - v_item.quantity)
+      WHERE id = v_item.batch_id;
+
+      PERFORM set_config('app.stock_location_id', '', true);
+
+      -- Log transaction
+      INSERT INTO inventory_transactions (
+        product_id, batch_id, transaction_type, quantity,
+        transaction_date, reference_number, reference_type, reference_id,
+        notes, created_by, stock_before, stock_after, location_id
+      ) VALUES (
+        v_item.product_id, v_item.batch_id, 'delivery_challan', -v_item.quantity,
+        NEW.challan_date, NEW.challan_number, 'delivery_challan', NEW.id,
+        'Delivered via approved DC: ' || NEW.challan_number, NEW.approved_by,
+        v_current_stock, v_current_stock - v_item.quantity, v_item.location_id
+      );
+    END LOOP;
+
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Unchanged apart from carrying location_id on new and existing lines
+CREATE OR REPLACE FUNCTION edit_delivery_challan(
+  p_challan_id uuid,
+  p_new_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_challan record;
+  v_item jsonb;
+  v_count integer;
+  v_old_items record;
+  v_old_qty numeric;
+  v_new_qty numeric;
+  v_difference numeric;
+  v_product_id uuid;
+  v_batch_id uuid;
+  v_current_stock numeric;
+  v_reserved_stock numeric;
+BEGIN
+  -- Get challan details
+  SELECT * INTO v_challan
+  FROM delivery_challans
+  WHERE id = p_challan_id;
+  
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Delivery challan not found');
+  END IF;
+  
+  -- Cannot edit if ever approved
+  IF v_challan.approved_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Cannot edit approved delivery challan'
+    );
+  END IF;
+  
+  -- Validate new items count
+  SELECT count(*) INTO v_count FROM jsonb_array_elements(p_new_items);
+  IF v_count = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Cannot save DC with no items');
+  END IF;
+  
+  -- DISABLE automatic trigger for this transaction
+  PERFORM set_config('app.skip_dc_item_trigger', 'true', true);
+  
+  -- Step 1: Release reservations for items being REMOVED
+  FOR v_old_items IN 
+    SELECT dci.*, b.batch_number, b.current_stock
+    FROM delivery_challan_items dci
+    JOIN batches b ON dci.batch_id = b.id
+    WHERE dci.challan_id = p_challan_id
+    AND dci.batch_id NOT IN (
+      SELECT (item->>'batch_id')::uuid 
+      FROM jsonb_array_elements(p_new_items) item
+    )
+  LOOP
+    -- Release reservation
+    UPDATE batches
+    SET reserved_stock = GREATEST(0, COALESCE(reserved_stock, 0) - v_old_items.quantity)
+    WHERE id = v_old_items.batch_id;
+    
+    -- Delete the item
+    DELETE FROM delivery_challan_items WHERE id = v_old_items.id;
+  END LOOP;
+  
+  -- Step 2: Process each NEW item (update existing or insert new)
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_new_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::uuid;
+    v_batch_id := (v_item->>'batch_id')::uuid;
+    v_new_qty := (v_item->>'quantity')::numeric;
+    
+    -- Check if this batch already exists in old items
+    SELECT quantity INTO v_old_qty
+    FROM delivery_challan_items
+    WHERE challan_id = p_challan_id
+      AND batch_id = v_batch_id;
+    
+    IF FOUND THEN
+      -- Batch exists - calculate difference
+      v_difference := v_new_qty - v_old_qty;
+      
+      IF v_difference != 0 THEN
+        -- Get current batch state
+        SELECT current_stock, reserved_stock 
+        INTO v_current_stock, v_reserved_stock
+        FROM batches WHERE id = v_batch_id;
+        
+        -- Check if we can adjust
+        IF (COALESCE(v_reserved_stock, 0) + v_difference) > v_current_stock THEN
+          RAISE EXCEPTION 'Insufficient stock: Batch has %kg available, currently reserved %kg, trying to add %kg more', 
+            v_current_stock, COALESCE(v_reserved_stock, 0), v_difference;
+        END IF;
+        
+        -- Adjust reservation by difference
+        UPDATE batches
+        SET reserved_stock = COALESCE(reserved_stock, 0) + v_difference
+        WHERE id = v_batch_id;
+        
+        -- Update the item quantity
+        UPDATE delivery_challan_items
+        SET quantity = v_new_qty,
+            pack_size = (v_item->>'pack_size')::numeric,
+            pack_type = v_item->>'pack_type',
+            number_of_packs = (v_item->>'number_of_packs')::integer
+        WHERE challan_id = p_challan_id
+          AND batch_id = v_batch_id;
+      END IF;
+
+      -- The pick location can change without the quantity changing
+      UPDATE delivery_challan_items
+      SET location_id = NULLIF(v_item->>'location_id', '')::uuid
+      WHERE challan_id = p_challan_id
+        AND batch_id = v_batch_id
+        AND location_id IS DISTINCT FROM NULLIF(v_item->>'location_id', '')::uuid;
+      
+    ELSE
+      -- New batch - reserve full quantity
+      SELECT current_stock, reserved_stock 
+      INTO v_current_stock, v_reserved_stock
+      FROM batches WHERE id = v_batch_id;
+      
+      -- Check if we can reserve
+      IF (COALESCE(v_reserved_stock, 0) + v_new_qty) > v_current_stock THEN
+        RAISE EXCEPTION 'Insufficient stock: Batch has %kg available, %kg already reserved, cannot reserve additional %kg', 
+          v_current_stock, COALESCE(v_reserved_stock, 0), v_new_qty;
+      END IF;
+      
+      -- Reserve stock MANUALLY
+      UPDATE batches
+      SET reserved_stock = COALESCE(reserved_stock, 0) + v_new_qty
+      WHERE id = v_batch_id;
+      
+      -- Insert new item (trigger is disabled, won't double-reserve)
+      INSERT INTO delivery_challan_items (
+        challan_id, 
+        product_id, 
+        batch_id, 
+        quantity,
+        pack_size, 
+        pack_type, 
+        number_of_packs,
+        location_id
+      ) VALUES (
+        p_challan_id,
+        v_product_id,
+        v_batch_id,
+        v_new_qty,
+        (v_item->>'pack_size')::numeric,
+        v_item->>'pack_type',
+        (v_item->>'number_of_packs')::integer,
+        NULLIF(v_item->>'location_id', '')::uuid
+      );
+      
+      -- DO NOT create inventory_transactions here!
+      -- Transactions are ONLY created on approval by trg_dc_approval_deduct_stock()
+      -- Reservations are tracked via batches.reserved_stock only
+      
+    END IF;
+  END LOOP;
+  
+  -- RE-ENABLE automatic trigger
+  PERFORM set_config('app.skip_dc_item_trigger', 'false', true);
+  
+  RETURN jsonb_build_object('success', true, 'message', 'Delivery challan updated successfully');
+  
+EXCEPTION
+  WHEN foreign_key_violation THEN
+    PERFORM set_config('app.skip_dc_item_trigger', 'false', true);
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid product or batch selection');
+  WHEN OTHERS THEN
+    PERFORM set_config('app.skip_dc_item_trigger', 'false', true);
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- ============================================
+-- 6. STOCK SUMMARY BY LOCATION
+-- ============================================
+
+CREATE OR REPLACE VIEW product_stock_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id as product_id,
+  p.product_name,
+  p.product_code,
+  p.unit,
+  p.category,
+  COALESCE(SUM(b.current_stock), 0) as total_current_stock,
+  COUNT(CASE WHEN b.current_stock > 0 THEN b.id END) as active_batch_count,
+  COUNT(CASE WHEN b.expiry_date IS NOT NULL AND b.expiry_date < CURRENT_DATE THEN 1 END) as expired_batch_count,
+  MIN(CASE WHEN b.expiry_date >= CURRENT_DATE OR b.expiry_date IS NULL THEN b.expiry_date END) as nearest_expiry_date,
+  (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'warehouse_id', w.id,
+      'warehouse_code', w.code,
+      'warehouse_name', w.name,
+      'location_id', l.id,
+      'location_code', l.code,
+      'quantity', ls.quantity
+    ) ORDER BY w.code, l.code), '[]'::jsonb)
+    FROM (
+      SELECT bls.location_id, SUM(bls.quantity) AS quantity
+      FROM batch_location_stock bls
+      JOIN batches lb ON lb.id = bls.batch_id AND lb.is_active = true
+      WHERE lb.product_id = p.id
+      GROUP BY bls.location_id
+      HAVING SUM(bls.quantity) <> 0
+    ) ls
+    JOIN warehouse_locations l ON l.id = ls.location_id
+    JOIN warehouses w ON w.id = l.warehouse_id
+  ) as location_stock
+FROM products p
+LEFT JOIN batches b ON p.id = b.product_id AND b.is_active = true
+WHERE p.is_active = true
+GROUP BY p.id, p.product_name, p.product_code, p.unit, p.category
+ORDER BY p.product_name;
+
+COMMENT ON VIEW product_stock_summary IS 'Aggregated stock overview per product across all active batches, with the per-location split in location_stock';
+
+GRANT EXECUTE ON FUNCTION default_stock_location() TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_stock_transfer(UUID) TO authenticated;
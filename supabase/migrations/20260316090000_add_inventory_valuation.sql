@@ -0,0 +1,326 @@
+/*
+  # Inventory Valuation and GL Reconciliation
+
+  1. Problem
+    - The CA inventory movement report only shows quantities, so nothing values stock
+      as of a date or ties it to the inventory account in the trial balance
+    - Differences between stock and the ledger (goods received but not invoiced, deliveries
+      not yet invoiced, adjustments posted without journals) had to be found by hand
+
+  2. Changes
+    - `app_settings.inventory_costing_method` - 'fifo' (default) or 'weighted_average'
+    - `batch_landed_unit_cost(batch)` - landed cost per unit from the import costing system,
+      falling back to final_landed_cost / import_quantity and then the import price
+    - `get_inventory_valuation(as_of_date, method)` - quantity on hand per batch as of the date
+      (current stock less later movements) valued by the costing method:
+      - fifo: the newest receipts of a product are treated as still on hand
+      - weighted_average: average landed cost of all receipts up to the date
+    - `get_inventory_reconciliation(as_of_date, method)` - valuation vs the cumulative balance of
+      the inventory accounts (113x) from posted journals up to the date, with each reconciling
+      item listed:
+      - costing_method: method value vs each batch at its own landed cost
+      - received_not_invoiced: batches with no inventory debit journal yet
+      - delivered_not_invoiced: approved DC quantities not on a posted sales invoice (COGS pending)
+      - movement_without_journal: adjustments and returns with no journal for their document
+      - unexplained: whatever remains
+    - Admin, accounts and auditor_ca only
+*/
+
+-- ============================================
+-- 1. COSTING METHOD SETTING
+-- ============================================
+
+ALTER TABLE app_settings
+  ADD COLUMN IF NOT EXISTS inventory_costing_method TEXT NOT NULL DEFAULT 'fifo'
+    CHECK (inventory_costing_method IN ('fifo', 'weighted_average'));
+
+-- ============================================
+-- 2. BATCH LANDED COST
+-- ============================================
+
+CREATE OR REPLACE FUNCTION batch_landed_unit_cost(p_batch_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    NULLIF(b.landed_cost_per_unit, 0),
+    NULLIF(b.final_landed_cost, 0) / NULLIF(b.import_quantity, 0),
+    b.import_price,
+    0
+  )
+  FROM batches b
+  WHERE b.id = p_batch_id;
+$$;
+
+-- ============================================
+-- 3. VALUATION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_inventory_valuation(
+  p_as_of_date DATE DEFAULT CURRENT_DATE,
+  p_method TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_code TEXT,
+  product_name TEXT,
+  unit TEXT,
+  batch_id UUID,
+  batch_number TEXT,
+  import_date DATE,
+  expiry_date DATE,
+  quantity NUMERIC,
+  batch_unit_cost NUMERIC,
+  unit_cost NUMERIC,
+  value NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_method TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca')
+  ) THEN
+    RAISE EXCEPTION 'Only admin, accounts and auditors can view inventory valuation';
+  END IF;
+
+  v_method := COALESCE(p_method, (SELECT inventory_costing_method FROM app_settings LIMIT 1), 'fifo');
+  IF v_method NOT IN ('fifo', 'weighted_average') THEN
+    RAISE EXCEPTION 'Unknown costing method %', v_method;
+  END IF;
+
+  RETURN QUERY
+  WITH received AS (
+    SELECT
+      b.id AS received_batch_id,
+      b.product_id AS received_product_id,
+      b.batch_number AS received_batch_number,
+      b.import_date AS received_date,
+      b.expiry_date AS received_expiry,
+      b.created_at AS received_at,
+      COALESCE(b.import_quantity, 0) AS received_quantity,
+      batch_landed_unit_cost(b.id) AS landed_cost,
+      -- Stock as of the date: today's stock with every later movement undone
+      b.current_stock - COALESCE((
+        SELECT SUM(it.quantity)
+        FROM inventory_transactions it
+        WHERE it.batch_id = b.id AND it.transaction_date > p_as_of_date
+      ), 0) AS on_hand
+    FROM batches b
+    WHERE b.import_date <= p_as_of_date
+  ),
+  layers AS (
+    SELECT
+      r.*,
+      SUM(r.on_hand) OVER (PARTITION BY r.received_product_id) AS product_on_hand,
+      COALESCE(SUM(r.received_quantity) OVER (
+        PARTITION BY r.received_product_id
+        ORDER BY r.received_date DESC, r.received_at DESC
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0) AS newer_quantity
+    FROM received r
+  ),
+  product_cost AS (
+    SELECT
+      l.received_product_id AS cost_product_id,
+      MAX(l.product_on_hand) AS on_hand,
+      SUM(l.received_quantity) AS received_total,
+      SUM(l.received_quantity * l.landed_cost) / NULLIF(SUM(l.received_quantity), 0) AS average_cost,
+      -- FIFO: the newest receipts are still on the shelf, older ones were issued first
+      SUM(LEAST(l.received_quantity, GREATEST(l.product_on_hand - l.newer_quantity, 0)) * l.landed_cost) AS fifo_value,
+      (ARRAY_AGG(l.landed_cost ORDER BY l.received_date, l.received_at))[1] AS oldest_cost
+    FROM layers l
+    GROUP BY l.received_product_id
+  ),
+  method_cost AS (
+    SELECT
+      pc.cost_product_id,
+      CASE
+        WHEN pc.on_hand <= 0 THEN NULL
+        WHEN v_method = 'weighted_average' THEN pc.average_cost
+        -- Stock beyond the recorded receipts (opening balances) takes the oldest layer's cost
+        ELSE (pc.fifo_value + GREATEST(pc.on_hand - pc.received_total, 0) * pc.oldest_cost) / pc.on_hand
+      END AS method_unit_cost
+    FROM product_cost pc
+  )
+  SELECT
+    p.id,
+    p.product_code::TEXT,
+    p.product_name::TEXT,
+    p.unit::TEXT,
+    r.received_batch_id,
+    r.received_batch_number::TEXT,
+    r.received_date,
+    r.received_expiry,
+    r.on_hand,
+    ROUND(r.landed_cost, 2),
+    ROUND(COALESCE(mc.method_unit_cost, r.landed_cost), 2),
+    ROUND(r.on_hand * COALESCE(mc.method_unit_cost, r.landed_cost), 2)
+  FROM received r
+  JOIN products p ON p.id = r.received_product_id
+  JOIN method_cost mc ON mc.cost_product_id = r.received_product_id
+  WHERE r.on_hand <> 0
+  ORDER BY p.product_name, r.received_date, r.received_batch_number;
+END;
+$$;
+
+-- ============================================
+-- 4. RECONCILIATION TO THE LEDGER
+-- ============================================
+
+-- Reconciling item amounts are signed so that
+-- valuation = GL balance + sum(items) + unexplained
+CREATE OR REPLACE FUNCTION get_inventory_reconciliation(
+  p_as_of_date DATE DEFAULT CURRENT_DATE,
+  p_method TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  line_type TEXT,
+  description TEXT,
+  reference_number TEXT,
+  reference_date DATE,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_method TEXT;
+  v_valuation NUMERIC;
+  v_actual NUMERIC;
+  v_gl NUMERIC;
+BEGIN
+  v_method := COALESCE(p_method, (SELECT inventory_costing_method FROM app_settings LIMIT 1), 'fifo');
+
+  -- get_inventory_valuation enforces the role check
+  SELECT COALESCE(SUM(v.value), 0), COALESCE(SUM(ROUND(v.quantity * v.batch_unit_cost, 2)), 0)
+  INTO v_valuation, v_actual
+  FROM get_inventory_valuation(p_as_of_date, v_method) v;
+
+  SELECT COALESCE(SUM(jel.debit) - SUM(jel.credit), 0) INTO v_gl
+  FROM journal_entry_lines jel
+  JOIN journal_entries je ON je.id = jel.journal_entry_id
+  JOIN chart_of_accounts coa ON coa.id = jel.account_id
+  WHERE coa.code LIKE '113%'
+    AND je.is_posted = true
+    AND je.entry_date <= p_as_of_date;
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT
+      'costing_method'::TEXT AS item_type,
+      (CASE v_method WHEN 'fifo' THEN 'FIFO' ELSE 'Weighted average' END)
+        || ' value vs each batch at its own landed cost' AS item_description,
+      NULL::TEXT AS item_reference,
+      p_as_of_date AS item_date,
+      v_valuation - v_actual AS item_amount
+    WHERE v_valuation <> v_actual
+
+    UNION ALL
+
+    -- Stock is in the valuation, but no purchase invoice (or batch purchase journal) has debited inventory
+    SELECT
+      'received_not_invoiced',
+      'Received, not invoiced: ' || p.product_name || ' batch ' || b.batch_number,
+      COALESCE(grn.grn_number, b.batch_number)::TEXT,
+      b.import_date,
+      ROUND(b.import_quantity * batch_landed_unit_cost(b.id), 2)
+    FROM batches b
+    JOIN products p ON p.id = b.product_id
+    LEFT JOIN LATERAL (
+      SELECT g.grn_number
+      FROM goods_receipt_items gri
+      JOIN goods_receipt_notes g ON g.id = gri.grn_id
+      WHERE gri.batch_id = b.id
+      LIMIT 1
+    ) grn ON true
+    WHERE b.import_date <= p_as_of_date
+      AND b.import_quantity > 0
+      AND NOT EXISTS (
+        SELECT 1
+        FROM journal_entry_lines jel
+        JOIN journal_entries je ON je.id = jel.journal_entry_id
+        JOIN chart_of_accounts coa ON coa.id = jel.account_id
+        WHERE jel.batch_id = b.id
+          AND jel.debit > 0
+          AND coa.code LIKE '113%'
+          AND je.is_posted = true
+          AND je.entry_date <= p_as_of_date
+      )
+
+    UNION ALL
+
+    -- Stock left on DC approval, but COGS is only credited to inventory when the invoice posts
+    SELECT
+      'delivered_not_invoiced',
+      'Delivered, not invoiced: ' || p.product_name || ' batch ' || b.batch_number,
+      dc.challan_number::TEXT,
+      dc.challan_date,
+      -ROUND((dci.quantity - COALESCE(inv.invoiced_quantity, 0)) * batch_landed_unit_cost(b.id), 2)
+    FROM delivery_challan_items dci
+    JOIN delivery_challans dc ON dc.id = dci.challan_id
+    JOIN batches b ON b.id = dci.batch_id
+    JOIN products p ON p.id = dci.product_id
+    LEFT JOIN LATERAL (
+      SELECT SUM(sii.quantity) AS invoiced_quantity
+      FROM sales_invoice_items sii
+      JOIN sales_invoices si ON si.id = sii.invoice_id
+      WHERE sii.delivery_challan_item_id = dci.id
+        AND si.journal_entry_id IS NOT NULL
+        AND si.invoice_date <= p_as_of_date
+    ) inv ON true
+    WHERE dc.approval_status = 'approved'
+      AND dc.challan_date <= p_as_of_date
+      AND dci.quantity > COALESCE(inv.invoiced_quantity, 0)
+
+    UNION ALL
+
+    SELECT
+      'movement_without_journal',
+      INITCAP(it.transaction_type) || ' without journal: ' || p.product_name || ' batch ' || b.batch_number,
+      it.reference_number::TEXT,
+      it.transaction_date,
+      ROUND(it.quantity * batch_landed_unit_cost(b.id), 2)
+    FROM inventory_transactions it
+    JOIN batches b ON b.id = it.batch_id
+    JOIN products p ON p.id = it.product_id
+    WHERE it.transaction_type IN ('adjustment', 'return')
+      AND it.transaction_date <= p_as_of_date
+      AND NOT EXISTS (
+        SELECT 1 FROM journal_entries je
+        WHERE je.reference_id = it.reference_id
+          AND je.is_posted = true
+          AND je.entry_date <= p_as_of_date
+      )
+  )
+  SELECT
+    'valuation'::TEXT,
+    'Stock valuation (' || CASE v_method WHEN 'fifo' THEN 'FIFO' ELSE 'weighted average' END || ')',
+    NULL::TEXT,
+    p_as_of_date,
+    v_valuation
+  UNION ALL
+  SELECT 'gl_balance', 'Inventory accounts (113x) per ledger', NULL, p_as_of_date, v_gl
+  UNION ALL
+  SELECT i.item_type, i.item_description, i.item_reference, i.item_date, i.item_amount
+  FROM items i
+  UNION ALL
+  SELECT
+    'unexplained',
+    'Unexplained difference (manual journals, landed costs expensed, unlinked invoices)',
+    NULL,
+    NULL,
+    v_valuation - v_gl - COALESCE((SELECT SUM(i.item_amount) FROM items i), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION batch_landed_unit_cost(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_inventory_valuation(DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_inventory_reconciliation(DATE, TEXT) TO authenticated;
@@ -0,0 +1,264 @@
+/*
+  # Landed Cost Simulations
+
+  1. Problem
+    - Duty, freight, clearing, port, BPOM/SKI fees and other container costs are only allocated
+      (`reallocate_container_costs()`) once batches exist against an import container. Sales
+      has to quote customers before the goods arrive and has no landed cost to quote from
+    - Nobody checks afterwards how far the costing assumptions were from what the container
+      actually cost
+
+  2. Changes
+    - `landed_cost_simulations` - what-if costing numbered LCS-... through the document
+      numbering service. Source is a planned purchase order, pending import requirements or a
+      manual list; holds the exchange rate, estimated container costs (same fields as
+      `import_containers`) and the target margin
+    - `landed_cost_simulation_items` - product, quantity, foreign unit price and duty %
+      (defaulted from `products.duty_percent`), linked to the PO line or import requirement
+    - The projection itself is done in the app with the container allocation rules: import
+      price x rate, duty on the import price, every other cost spread by quantity
+    - `get_landed_cost_simulation_containers(simulation)` - the actual container(s): the linked
+      container, else the containers on GRNs received against the simulation's PO
+    - `get_landed_cost_simulation_actuals(simulation)` - actual landed cost per product from
+      the batches in those containers. Both run as definer so sales can see the outcome of
+      their own simulations without read access to containers or POs
+*/
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS landed_cost_simulations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  simulation_number TEXT UNIQUE,
+  simulation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  title TEXT NOT NULL,
+  source_type TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source_type IN ('purchase_order', 'import_requirement', 'manual')),
+  purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  import_container_id UUID REFERENCES import_containers(id) ON DELETE SET NULL,
+  supplier_id UUID REFERENCES suppliers(id),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  exchange_rate DECIMAL(18,4) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+  freight_charges DECIMAL(18,2) NOT NULL DEFAULT 0,
+  clearing_forwarding DECIMAL(18,2) NOT NULL DEFAULT 0,
+  port_charges DECIMAL(18,2) NOT NULL DEFAULT 0,
+  container_handling DECIMAL(18,2) NOT NULL DEFAULT 0,
+  transportation DECIMAL(18,2) NOT NULL DEFAULT 0,
+  loading_import DECIMAL(18,2) NOT NULL DEFAULT 0,
+  bpom_ski_fees DECIMAL(18,2) NOT NULL DEFAULT 0,
+  other_import_costs DECIMAL(18,2) NOT NULL DEFAULT 0,
+  target_margin_percent DECIMAL(5,2) NOT NULL DEFAULT 25
+    CHECK (target_margin_percent >= 0 AND target_margin_percent < 100),
+  notes TEXT,
+  created_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS landed_cost_simulation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  simulation_id UUID NOT NULL REFERENCES landed_cost_simulations(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL DEFAULT 1,
+  product_id UUID NOT NULL REFERENCES products(id),
+  purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL,
+  import_requirement_id UUID REFERENCES import_requirements(id) ON DELETE SET NULL,
+  quantity DECIMAL(18,3) NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(18,4) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  duty_percent DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (duty_percent >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_simulations_date ON landed_cost_simulations(simulation_date DESC);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_simulations_po ON landed_cost_simulations(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_simulation_items_simulation ON landed_cost_simulation_items(simulation_id);
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE landed_cost_simulations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landed_cost_simulation_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Costing roles can view landed cost simulations" ON landed_cost_simulations;
+CREATE POLICY "Costing roles can view landed cost simulations"
+  ON landed_cost_simulations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Costing roles can manage landed cost simulations" ON landed_cost_simulations;
+CREATE POLICY "Costing roles can manage landed cost simulations"
+  ON landed_cost_simulations FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales'))
+  );
+
+DROP POLICY IF EXISTS "Costing roles can view landed cost simulation items" ON landed_cost_simulation_items;
+CREATE POLICY "Costing roles can view landed cost simulation items"
+  ON landed_cost_simulation_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Costing roles can manage landed cost simulation items" ON landed_cost_simulation_items;
+CREATE POLICY "Costing roles can manage landed cost simulation items"
+  ON landed_cost_simulation_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales'))
+  );
+
+-- ============================================
+-- 3. NUMBERING AND AUDIT
+-- ============================================
+
+INSERT INTO document_number_settings (doc_type, label, prefix, padding, start_number, table_name, column_name)
+VALUES ('landed_cost_simulation', 'Landed Cost Simulation', 'LCS', 4, 1, 'landed_cost_simulations', 'simulation_number')
+ON CONFLICT (doc_type) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trg_assign_document_number ON landed_cost_simulations;
+CREATE TRIGGER trg_assign_document_number BEFORE INSERT ON landed_cost_simulations
+  FOR EACH ROW EXECUTE FUNCTION trg_assign_document_number('landed_cost_simulation', 'simulation_number');
+
+DROP TRIGGER IF EXISTS trg_record_deleted_document_number ON landed_cost_simulations;
+CREATE TRIGGER trg_record_deleted_document_number AFTER DELETE ON landed_cost_simulations
+  FOR EACH ROW EXECUTE FUNCTION trg_record_deleted_document_number('landed_cost_simulation', 'simulation_number');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON landed_cost_simulations;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON landed_cost_simulations
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON landed_cost_simulation_items;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON landed_cost_simulation_items
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event('landed_cost_simulations', 'simulation_id');
+
+-- ============================================
+-- 4. ESTIMATE VS ACTUAL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_landed_cost_simulation_containers(p_simulation_id UUID)
+RETURNS TABLE (
+  container_id UUID,
+  container_ref TEXT,
+  import_date DATE,
+  status TEXT,
+  currency TEXT,
+  exchange_rate NUMERIC,
+  duty_bm NUMERIC,
+  freight_charges NUMERIC,
+  clearing_forwarding NUMERIC,
+  port_charges NUMERIC,
+  container_handling NUMERIC,
+  transportation NUMERIC,
+  loading_import NUMERIC,
+  bpom_ski_fees NUMERIC,
+  other_import_costs NUMERIC,
+  total_quantity NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sim landed_cost_simulations%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'auditor_ca')
+  ) THEN
+    RAISE EXCEPTION 'Only admin, accounts, sales and auditors can view landed cost simulations';
+  END IF;
+
+  SELECT * INTO v_sim FROM landed_cost_simulations s WHERE s.id = p_simulation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Landed cost simulation not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ic.id,
+    ic.container_ref::TEXT,
+    ic.import_date::DATE,
+    ic.status::TEXT,
+    ic.currency::TEXT,
+    ic.exchange_rate::NUMERIC,
+    COALESCE(ic.duty_bm, 0)::NUMERIC,
+    COALESCE(ic.freight_charges, 0)::NUMERIC,
+    COALESCE(ic.clearing_forwarding, 0)::NUMERIC,
+    COALESCE(ic.port_charges, 0)::NUMERIC,
+    COALESCE(ic.container_handling, 0)::NUMERIC,
+    COALESCE(ic.transportation, 0)::NUMERIC,
+    COALESCE(ic.loading_import, 0)::NUMERIC,
+    COALESCE(ic.bpom_ski_fees, 0)::NUMERIC,
+    COALESCE(ic.other_import_costs, 0)::NUMERIC,
+    COALESCE((SELECT SUM(b.import_quantity) FROM batches b WHERE b.import_container_id = ic.id), 0)::NUMERIC
+  FROM import_containers ic
+  WHERE ic.id = v_sim.import_container_id
+     OR (
+       v_sim.import_container_id IS NULL
+       AND v_sim.purchase_order_id IS NOT NULL
+       AND ic.id IN (
+         SELECT g.import_container_id FROM goods_receipt_notes g
+         WHERE g.po_id = v_sim.purchase_order_id AND g.import_container_id IS NOT NULL
+       )
+     )
+  ORDER BY ic.import_date, ic.container_ref;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_landed_cost_simulation_actuals(p_simulation_id UUID)
+RETURNS TABLE (
+  product_id UUID,
+  received_quantity NUMERIC,
+  import_price NUMERIC,
+  duty_per_unit NUMERIC,
+  allocated_per_unit NUMERIC,
+  landed_cost_per_unit NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH containers AS (
+    SELECT c.container_id FROM get_landed_cost_simulation_containers(p_simulation_id) c
+  ),
+  lines AS (
+    SELECT
+      b.product_id,
+      b.import_quantity AS qty,
+      COALESCE(b.import_price, 0) * b.import_quantity AS import_value,
+      COALESCE(b.import_cost_allocated, 0) AS allocated_value,
+      batch_landed_unit_cost(b.id) * b.import_quantity AS landed_value
+    FROM batches b
+    WHERE b.import_container_id IN (SELECT container_id FROM containers)
+      AND b.import_quantity > 0
+      AND b.product_id IN (SELECT i.product_id FROM landed_cost_simulation_items i WHERE i.simulation_id = p_simulation_id)
+  )
+  SELECT
+    l.product_id,
+    SUM(l.qty),
+    SUM(l.import_value) / SUM(l.qty),
+    -- Duty, batch freight and other batch charges: whatever is not import price or container allocation
+    (SUM(l.landed_value) - SUM(l.import_value) - SUM(l.allocated_value)) / SUM(l.qty),
+    SUM(l.allocated_value) / SUM(l.qty),
+    SUM(l.landed_value) / SUM(l.qty)
+  FROM lines l
+  GROUP BY l.product_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_landed_cost_simulation_containers(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_landed_cost_simulation_actuals(UUID) TO authenticated;
@@ -0,0 +1,546 @@
+/*
+  # Exchange Rate Master and Unrealised FX Revaluation
+
+  1. Problem
+    - Foreign currency rates are typed by hand on every screen (`batches.exchange_rate_usd_to_idr`,
+      `import_containers.exchange_rate`, purchase orders, purchase invoices) with nothing to
+      default from, so the same day gets different rates
+    - Open USD receivables, payables and the USD bank balance (111102) stay at the rate they
+      were booked at; month-end accounts do not show the unrealised exchange difference
+
+  2. Changes
+    - `exchange_rates` - IDR per unit of currency per day and source:
+      * bi - Bank Indonesia middle rate (JISDOR / kurs transaksi), used for accounting
+      * kmk - Kemenkeu KMK tax rate, valid for a week (`valid_to`), used for tax documents
+      * manual - rates typed in when neither has been loaded
+    - `get_exchange_rate(currency, date, source)` - latest rate on or before the date; without
+      a source, manual > bi > kmk on the same day. IDR is always 1
+    - `fx_revaluations` / `fx_revaluation_lines` - one month-end run per currency:
+      * receivables: open sales invoices in the currency, balance as of the date (receipts dated
+        later are added back), booked at the invoice rate
+      * payables: open purchase invoices, same rule with payment vouchers
+      * bank: foreign balance of each bank account in the currency (opening balance plus statement
+        lines up to the date) against the IDR balance of its linked account in the ledger
+    - `preview_fx_revaluation()` lists the lines; `post_fx_revaluation()` posts the difference to
+      4910 Unrealised FX Gain / 7310 Unrealised FX Loss dated the period end, and the reversing
+      journal dated the first day of the next month so the next run starts from booked values
+    - `cancel_fx_revaluation()` removes both journals when the run has to be redone
+    - `sales_invoices.currency` / `exchange_rate` and `bank_accounts.opening_balance_date` are
+      ensured; the app reads them already
+    - `trg_default_sales_invoice_currency` - an invoice saved without a currency takes the one
+      on its sales order (or the sales order of a linked delivery challan) and the rate on the
+      invoice date. Existing invoices keep the values their journals were posted at
+*/
+
+-- ============================================
+-- 1. EXCHANGE RATES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'IDR'),
+  rate_date DATE NOT NULL,
+  valid_to DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('bi', 'kmk', 'manual')),
+  rate DECIMAL(18,6) NOT NULL CHECK (rate > 0),
+  reference TEXT,
+  created_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (currency, rate_date, source),
+  CHECK (valid_to IS NULL OR valid_to >= rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(currency, rate_date DESC);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view exchange rates" ON exchange_rates;
+CREATE POLICY "Authenticated users can view exchange rates"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Finance roles can manage exchange rates" ON exchange_rates;
+CREATE POLICY "Finance roles can manage exchange rates"
+  ON exchange_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  );
+
+DROP TRIGGER IF EXISTS trg_audit_log ON exchange_rates;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+CREATE OR REPLACE FUNCTION get_exchange_rate(p_currency TEXT, p_date DATE DEFAULT CURRENT_DATE, p_source TEXT DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN UPPER(p_currency) = 'IDR' THEN 1::NUMERIC ELSE (
+    SELECT er.rate
+    FROM exchange_rates er
+    WHERE er.currency = UPPER(p_currency)
+      AND er.rate_date <= COALESCE(p_date, CURRENT_DATE)
+      AND (p_source IS NULL OR er.source = p_source)
+    ORDER BY er.rate_date DESC,
+      CASE er.source WHEN 'manual' THEN 1 WHEN 'bi' THEN 2 ELSE 3 END
+    LIMIT 1
+  ) END;
+$$;
+
+-- ============================================
+-- 2. COLUMNS THE REVALUATION READS
+-- ============================================
+
+ALTER TABLE sales_invoices ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'IDR';
+ALTER TABLE sales_invoices ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) DEFAULT 1;
+ALTER TABLE bank_accounts ADD COLUMN IF NOT EXISTS opening_balance_date DATE;
+
+-- An invoice inserted with the defaults takes the currency of its sales order (directly or
+-- through a linked delivery challan) and the rate on the invoice date. Named to run before
+-- trg_post_sales_invoice so the journal is booked at that rate
+CREATE OR REPLACE FUNCTION default_sales_invoice_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT;
+  v_rate NUMERIC;
+BEGIN
+  IF COALESCE(NEW.currency, 'IDR') <> 'IDR' OR COALESCE(NEW.exchange_rate, 1) <> 1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT so.currency INTO v_currency
+  FROM sales_orders so
+  WHERE so.id = NEW.sales_order_id;
+
+  IF v_currency IS NULL AND NEW.linked_challan_ids IS NOT NULL THEN
+    SELECT so.currency INTO v_currency
+    FROM delivery_challans dc
+    JOIN sales_orders so ON so.id = dc.sales_order_id
+    WHERE dc.id::TEXT = ANY (NEW.linked_challan_ids::TEXT[])
+    LIMIT 1;
+  END IF;
+
+  IF COALESCE(v_currency, 'IDR') = 'IDR' THEN
+    NEW.currency := 'IDR';
+    NEW.exchange_rate := 1;
+    RETURN NEW;
+  END IF;
+
+  v_rate := get_exchange_rate(v_currency, NEW.invoice_date);
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No % rate on or before %. Enter the rate on the invoice', v_currency, NEW.invoice_date;
+  END IF;
+
+  NEW.currency := v_currency;
+  NEW.exchange_rate := v_rate;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_default_sales_invoice_currency ON sales_invoices;
+CREATE TRIGGER trg_default_sales_invoice_currency
+  BEFORE INSERT ON sales_invoices
+  FOR EACH ROW EXECUTE FUNCTION default_sales_invoice_currency();
+
+-- ============================================
+-- 3. ACCOUNTS
+-- ============================================
+
+INSERT INTO chart_of_accounts (code, name, name_id, account_type, account_group, is_header, normal_balance) VALUES
+('4910', 'Unrealised Foreign Exchange Gain', 'Laba Selisih Kurs Belum Terealisasi', 'revenue', 'Revenue', false, 'credit'),
+('7310', 'Unrealised Foreign Exchange Loss', 'Rugi Selisih Kurs Belum Terealisasi', 'expense', 'Other Expenses', false, 'debit')
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- 4. REVALUATION RUNS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS fx_revaluations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_end_date DATE NOT NULL,
+  currency TEXT NOT NULL,
+  rate DECIMAL(18,6) NOT NULL CHECK (rate > 0),
+  total_gain DECIMAL(18,2) NOT NULL DEFAULT 0,
+  total_loss DECIMAL(18,2) NOT NULL DEFAULT 0,
+  journal_entry_id UUID REFERENCES journal_entries(id),
+  reversal_journal_entry_id UUID REFERENCES journal_entries(id),
+  notes TEXT,
+  posted_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  posted_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (period_end_date, currency)
+);
+
+CREATE TABLE IF NOT EXISTS fx_revaluation_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  revaluation_id UUID NOT NULL REFERENCES fx_revaluations(id) ON DELETE CASCADE,
+  line_type TEXT NOT NULL CHECK (line_type IN ('receivable', 'payable', 'bank')),
+  reference_id UUID,
+  reference_number TEXT,
+  party_name TEXT,
+  customer_id UUID REFERENCES customers(id),
+  supplier_id UUID REFERENCES suppliers(id),
+  account_id UUID NOT NULL REFERENCES chart_of_accounts(id),
+  foreign_amount DECIMAL(18,2) NOT NULL,
+  booked_rate DECIMAL(18,6),
+  book_amount DECIMAL(18,2) NOT NULL,
+  revalued_amount DECIMAL(18,2) NOT NULL,
+  gain_loss DECIMAL(18,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_revaluation_lines_revaluation ON fx_revaluation_lines(revaluation_id);
+
+ALTER TABLE fx_revaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fx_revaluation_lines ENABLE ROW LEVEL SECURITY;
+
+-- Written only through post_fx_revaluation() / cancel_fx_revaluation()
+DROP POLICY IF EXISTS "Finance roles can view FX revaluations" ON fx_revaluations;
+CREATE POLICY "Finance roles can view FX revaluations"
+  ON fx_revaluations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Finance roles can view FX revaluation lines" ON fx_revaluation_lines;
+CREATE POLICY "Finance roles can view FX revaluation lines"
+  ON fx_revaluation_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca'))
+  );
+
+DROP TRIGGER IF EXISTS trg_audit_log ON fx_revaluations;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON fx_revaluations
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+-- ============================================
+-- 5. PREVIEW
+-- ============================================
+
+-- gain_loss is positive for a gain: an asset worth more IDR, or a liability worth less
+CREATE OR REPLACE FUNCTION preview_fx_revaluation(p_period_end DATE, p_currency TEXT, p_rate NUMERIC DEFAULT NULL)
+RETURNS TABLE (
+  line_type TEXT,
+  reference_id UUID,
+  reference_number TEXT,
+  party_name TEXT,
+  customer_id UUID,
+  supplier_id UUID,
+  account_id UUID,
+  account_code TEXT,
+  foreign_amount NUMERIC,
+  booked_rate NUMERIC,
+  book_amount NUMERIC,
+  revalued_amount NUMERIC,
+  gain_loss NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT := UPPER(p_currency);
+  v_rate NUMERIC;
+  v_ar_account_id UUID;
+  v_ap_account_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca')
+  ) THEN
+    RAISE EXCEPTION 'Only admin, accounts and auditors can view FX revaluation';
+  END IF;
+
+  IF v_currency = 'IDR' THEN
+    RAISE EXCEPTION 'IDR balances are not revalued';
+  END IF;
+
+  v_rate := COALESCE(p_rate, get_exchange_rate(v_currency, p_period_end, 'bi'), get_exchange_rate(v_currency, p_period_end));
+  IF v_rate IS NULL OR v_rate <= 0 THEN
+    RAISE EXCEPTION 'No % rate on or before %. Enter the month-end rate first', v_currency, p_period_end;
+  END IF;
+
+  SELECT id INTO v_ar_account_id FROM chart_of_accounts WHERE code = '1120' LIMIT 1;
+  SELECT id INTO v_ap_account_id FROM chart_of_accounts WHERE code = '2110' LIMIT 1;
+
+  RETURN QUERY
+  WITH receivables AS (
+    SELECT
+      si.id,
+      si.invoice_number::TEXT AS ref,
+      c.company_name::TEXT AS party,
+      si.customer_id,
+      COALESCE(NULLIF(si.exchange_rate, 0), 1)::NUMERIC AS booked,
+      (si.total_amount - COALESCE(si.paid_amount, 0)
+        + COALESCE((
+            SELECT SUM(va.allocated_amount) FROM voucher_allocations va
+            JOIN receipt_vouchers rv ON rv.id = va.receipt_voucher_id
+            WHERE va.sales_invoice_id = si.id AND va.voucher_type = 'receipt' AND rv.voucher_date > p_period_end
+          ), 0)
+        + COALESCE((
+            SELECT SUM(ipa.allocated_amount) FROM invoice_payment_allocations ipa
+            JOIN customer_payments cp ON cp.id = ipa.payment_id
+            WHERE ipa.invoice_id = si.id AND cp.payment_date > p_period_end
+          ), 0))::NUMERIC AS open_amount
+    FROM sales_invoices si
+    LEFT JOIN customers c ON c.id = si.customer_id
+    WHERE si.currency = v_currency
+      AND si.invoice_date <= p_period_end
+  ),
+  payables AS (
+    SELECT
+      pi.id,
+      pi.invoice_number::TEXT AS ref,
+      s.company_name::TEXT AS party,
+      pi.supplier_id,
+      COALESCE(NULLIF(pi.exchange_rate, 0), 1)::NUMERIC AS booked,
+      (pi.total_amount - COALESCE(pi.paid_amount, 0)
+        + COALESCE((
+            SELECT SUM(va.allocated_amount) FROM voucher_allocations va
+            JOIN payment_vouchers pv ON pv.id = va.payment_voucher_id
+            WHERE va.purchase_invoice_id = pi.id AND va.voucher_type = 'payment' AND pv.voucher_date > p_period_end
+          ), 0))::NUMERIC AS open_amount
+    FROM purchase_invoices pi
+    LEFT JOIN suppliers s ON s.id = pi.supplier_id
+    WHERE pi.currency = v_currency
+      AND pi.invoice_date <= p_period_end
+      AND pi.status NOT IN ('draft', 'cancelled')
+  ),
+  banks AS (
+    SELECT
+      ba.id,
+      (ba.bank_name || ' ' || ba.account_number)::TEXT AS ref,
+      ba.account_name::TEXT AS party,
+      ba.coa_id,
+      (ba.opening_balance + COALESCE((
+        SELECT SUM(COALESCE(bsl.credit_amount, 0) - COALESCE(bsl.debit_amount, 0))
+        FROM bank_statement_lines bsl
+        WHERE bsl.bank_account_id = ba.id
+          AND bsl.transaction_date >= COALESCE(ba.opening_balance_date, '1900-01-01'::DATE)
+          AND bsl.transaction_date <= p_period_end
+      ), 0))::NUMERIC AS foreign_balance,
+      COALESCE((
+        SELECT SUM(jel.debit - jel.credit)
+        FROM journal_entry_lines jel
+        JOIN journal_entries je ON je.id = jel.journal_entry_id
+        WHERE jel.account_id = ba.coa_id AND je.is_posted = true AND je.entry_date <= p_period_end
+      ), 0)::NUMERIC AS ledger_balance
+    FROM bank_accounts ba
+    WHERE ba.currency = v_currency
+      AND ba.coa_id IS NOT NULL
+      AND ba.is_active = true
+  )
+  SELECT
+    'receivable'::TEXT, r.id, r.ref, r.party, r.customer_id, NULL::UUID, v_ar_account_id, '1120'::TEXT,
+    r.open_amount, r.booked,
+    ROUND(r.open_amount * r.booked, 2),
+    ROUND(r.open_amount * v_rate, 2),
+    ROUND(r.open_amount * v_rate, 2) - ROUND(r.open_amount * r.booked, 2)
+  FROM receivables r
+  WHERE r.open_amount > 0.005
+  UNION ALL
+  SELECT
+    'payable'::TEXT, p.id, p.ref, p.party, NULL::UUID, p.supplier_id, v_ap_account_id, '2110'::TEXT,
+    p.open_amount, p.booked,
+    ROUND(p.open_amount * p.booked, 2),
+    ROUND(p.open_amount * v_rate, 2),
+    ROUND(p.open_amount * p.booked, 2) - ROUND(p.open_amount * v_rate, 2)
+  FROM payables p
+  WHERE p.open_amount > 0.005
+  UNION ALL
+  SELECT
+    'bank'::TEXT, b.id, b.ref, b.party, NULL::UUID, NULL::UUID, b.coa_id,
+    (SELECT coa.code::TEXT FROM chart_of_accounts coa WHERE coa.id = b.coa_id),
+    b.foreign_balance, NULL::NUMERIC,
+    ROUND(b.ledger_balance, 2),
+    ROUND(b.foreign_balance * v_rate, 2),
+    ROUND(b.foreign_balance * v_rate, 2) - ROUND(b.ledger_balance, 2)
+  FROM banks b
+  WHERE b.foreign_balance <> 0 OR b.ledger_balance <> 0;
+END;
+$$;
+
+-- ============================================
+-- 6. POST, REVERSE, CANCEL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION post_fx_revaluation(p_period_end DATE, p_currency TEXT, p_rate NUMERIC DEFAULT NULL, p_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT := UPPER(p_currency);
+  v_rate NUMERIC;
+  v_revaluation_id UUID;
+  v_gain_account_id UUID;
+  v_loss_account_id UUID;
+  v_gain NUMERIC;
+  v_loss NUMERIC;
+  v_total NUMERIC;
+  v_reference TEXT;
+  v_reversal_date DATE := p_period_end + 1;
+  v_je_id UUID;
+  v_reversal_id UUID;
+  v_line_number INTEGER := 0;
+  v_line RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts can post FX revaluation';
+  END IF;
+
+  IF p_period_end <> (date_trunc('month', p_period_end) + INTERVAL '1 month - 1 day')::DATE THEN
+    RAISE EXCEPTION 'Revaluation date must be the last day of a month';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM fx_revaluations WHERE period_end_date = p_period_end AND currency = v_currency) THEN
+    RAISE EXCEPTION '% is already revalued for %. Cancel that run first to redo it', v_currency, p_period_end;
+  END IF;
+
+  v_rate := COALESCE(p_rate, get_exchange_rate(v_currency, p_period_end, 'bi'), get_exchange_rate(v_currency, p_period_end));
+
+  SELECT id INTO v_gain_account_id FROM chart_of_accounts WHERE code = '4910' LIMIT 1;
+  SELECT id INTO v_loss_account_id FROM chart_of_accounts WHERE code = '7310' LIMIT 1;
+  IF v_gain_account_id IS NULL OR v_loss_account_id IS NULL THEN
+    RAISE EXCEPTION 'Accounts 4910 Unrealised FX Gain and 7310 Unrealised FX Loss must exist';
+  END IF;
+
+  INSERT INTO fx_revaluations (period_end_date, currency, rate, notes)
+  VALUES (p_period_end, v_currency, v_rate, NULLIF(TRIM(p_notes), ''))
+  RETURNING id INTO v_revaluation_id;
+
+  INSERT INTO fx_revaluation_lines (
+    revaluation_id, line_type, reference_id, reference_number, party_name, customer_id, supplier_id,
+    account_id, foreign_amount, booked_rate, book_amount, revalued_amount, gain_loss
+  )
+  SELECT
+    v_revaluation_id, p.line_type, p.reference_id, p.reference_number, p.party_name, p.customer_id, p.supplier_id,
+    p.account_id, p.foreign_amount, p.booked_rate, p.book_amount, p.revalued_amount, p.gain_loss
+  FROM preview_fx_revaluation(p_period_end, v_currency, v_rate) p
+  WHERE p.gain_loss <> 0;
+
+  SELECT COALESCE(SUM(gain_loss) FILTER (WHERE gain_loss > 0), 0),
+         COALESCE(-SUM(gain_loss) FILTER (WHERE gain_loss < 0), 0)
+  INTO v_gain, v_loss
+  FROM fx_revaluation_lines WHERE revaluation_id = v_revaluation_id;
+
+  v_total := v_gain + v_loss;
+  v_reference := 'FXR-' || v_currency || '-' || to_char(p_period_end, 'YYYYMM');
+
+  IF v_total > 0 THEN
+    v_je_id := gen_random_uuid();
+    v_reversal_id := gen_random_uuid();
+
+    INSERT INTO journal_entries (
+      id, entry_number, entry_date, source_module, reference_id, reference_number,
+      description, total_debit, total_credit, is_posted, posted_by, created_by
+    ) VALUES (
+      v_je_id, next_journal_entry_number(), p_period_end, 'fx_revaluation', v_revaluation_id, v_reference,
+      'Unrealised FX revaluation ' || v_currency || ' @ ' || v_rate || ' as of ' || p_period_end,
+      v_total, v_total, true, auth.uid(), auth.uid()
+    );
+
+    INSERT INTO journal_entries (
+      id, entry_number, entry_date, source_module, reference_id, reference_number,
+      description, total_debit, total_credit, is_posted, posted_by, created_by
+    ) VALUES (
+      v_reversal_id, next_journal_entry_number(), v_reversal_date, 'fx_revaluation', v_revaluation_id, v_reference || '-R',
+      'Reversal of unrealised FX revaluation ' || v_currency || ' as of ' || p_period_end,
+      v_total, v_total, true, auth.uid(), auth.uid()
+    );
+
+    -- Balance sheet side, one line per document / bank account: a gain raises the asset or
+    -- lowers the liability (debit), a loss does the opposite
+    FOR v_line IN
+      SELECT * FROM fx_revaluation_lines WHERE revaluation_id = v_revaluation_id ORDER BY line_type, reference_number
+    LOOP
+      v_line_number := v_line_number + 1;
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id, supplier_id)
+      VALUES (
+        v_je_id, v_line_number, v_line.account_id,
+        'FX revaluation ' || v_line.reference_number,
+        GREATEST(v_line.gain_loss, 0), GREATEST(-v_line.gain_loss, 0),
+        v_line.customer_id, v_line.supplier_id
+      );
+    END LOOP;
+
+    IF v_gain > 0 THEN
+      v_line_number := v_line_number + 1;
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES (v_je_id, v_line_number, v_gain_account_id, 'Unrealised FX gain ' || v_currency, 0, v_gain);
+    END IF;
+    IF v_loss > 0 THEN
+      v_line_number := v_line_number + 1;
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+      VALUES (v_je_id, v_line_number, v_loss_account_id, 'Unrealised FX loss ' || v_currency, v_loss, 0);
+    END IF;
+
+    -- The reversal mirrors every line on the first day of the next month
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id, supplier_id)
+    SELECT v_reversal_id, jel.line_number, jel.account_id, 'Reversal: ' || jel.description, jel.credit, jel.debit, jel.customer_id, jel.supplier_id
+    FROM journal_entry_lines jel
+    WHERE jel.journal_entry_id = v_je_id;
+
+    UPDATE journal_entries SET is_reversed = true, reversed_by_id = v_reversal_id WHERE id = v_je_id;
+  END IF;
+
+  UPDATE fx_revaluations
+  SET total_gain = v_gain,
+      total_loss = v_loss,
+      journal_entry_id = v_je_id,
+      reversal_journal_entry_id = v_reversal_id
+  WHERE id = v_revaluation_id;
+
+  RETURN v_revaluation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_fx_revaluation(p_revaluation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run fx_revaluations%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts can cancel FX revaluation';
+  END IF;
+
+  SELECT * INTO v_run FROM fx_revaluations WHERE id = p_revaluation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FX revaluation not found';
+  END IF;
+
+  -- Period lock triggers on journal lines refuse this once either month is closed
+  UPDATE fx_revaluations SET journal_entry_id = NULL, reversal_journal_entry_id = NULL WHERE id = p_revaluation_id;
+  DELETE FROM journal_entries WHERE id IN (v_run.reversal_journal_entry_id, v_run.journal_entry_id);
+  DELETE FROM fx_revaluations WHERE id = p_revaluation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_exchange_rate(TEXT, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_fx_revaluation(DATE, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_fx_revaluation(DATE, TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_fx_revaluation(UUID) TO authenticated;
@@ -0,0 +1,759 @@
+/*
+  # Realised FX Gain / Loss on Settlement
+
+  1. Problem
+    - A USD purchase invoice paid through a payment voucher, or a USD sales invoice received
+      through a receipt voucher, is settled at that day's rate, but nothing books the
+      difference against the rate the invoice was booked at
+    - Invoice and voucher journals post the document amount as it is, so a USD document lands
+      in the ledger as if it were rupiah; the month-end revaluation already assumes invoices
+      sit at `amount x exchange_rate`
+    - Vouchers have no currency or rate, so there is no settlement rate to compare against
+
+  2. Changes
+    - `payment_vouchers` / `receipt_vouchers`: `currency` (default IDR) and `exchange_rate`
+      (IDR per unit, default 1). The amount stays in the voucher currency
+    - Sales and purchase invoice journals post `amount x exchange_rate`; voucher journals post
+      `amount x voucher rate`. IDR documents are unchanged (rate 1). Journals already posted are
+      not restated. Editing a voucher's currency or rate replaces its journal, like the other
+      columns the journal carries
+    - `voucher_allocations`: `invoice_rate`, `settlement_rate`, `fx_gain_loss` (positive = gain)
+      and `fx_journal_entry_id`. Allocated amounts are in the invoice currency
+    - `trg_post_allocation_fx` - on each allocation against a foreign-currency invoice, posts
+      `allocated x (settlement rate - invoice rate)` (receipts) or the opposite sign (payments):
+      * the A/R or A/P line with the party, so the invoice is cleared at its booked value
+      * 4920 Realised FX Gain (credit) or 7300 Foreign Exchange Loss (debit)
+      * the settlement rate is the voucher rate, so the difference matches what the voucher
+        journal posted for the allocation. Allocations must be in the voucher currency
+    - Removing an allocation (or its voucher) deletes the FX journal with it; the voucher
+      screens replace allocations on edit, so the difference is re-posted at the new figures
+    - `get_party_currency_balances(party_type, party_id)` - open balance per currency in the
+      transaction currency and at booked IDR, for the party ledger
+*/
+
+-- ============================================
+-- 1. CHART OF ACCOUNTS
+-- ============================================
+
+INSERT INTO chart_of_accounts (code, name, name_id, account_type, account_group, is_header, normal_balance) VALUES
+('4920', 'Realised Foreign Exchange Gain', 'Laba Selisih Kurs Terealisasi', 'revenue', 'Revenue', false, 'credit')
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- 2. VOUCHER CURRENCY AND RATE
+-- ============================================
+
+ALTER TABLE payment_vouchers ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'IDR';
+ALTER TABLE payment_vouchers ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) DEFAULT 1;
+ALTER TABLE receipt_vouchers ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'IDR';
+ALTER TABLE receipt_vouchers ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) DEFAULT 1;
+
+ALTER TABLE voucher_allocations ADD COLUMN IF NOT EXISTS invoice_rate DECIMAL(18,6);
+ALTER TABLE voucher_allocations ADD COLUMN IF NOT EXISTS settlement_rate DECIMAL(18,6);
+ALTER TABLE voucher_allocations ADD COLUMN IF NOT EXISTS fx_gain_loss DECIMAL(18,2) DEFAULT 0;
+ALTER TABLE voucher_allocations ADD COLUMN IF NOT EXISTS fx_journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_voucher_allocations_fx_journal ON voucher_allocations(fx_journal_entry_id)
+  WHERE fx_journal_entry_id IS NOT NULL;
+
+-- ============================================
+-- 3. INVOICE JOURNALS AT THE BOOKED RATE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION post_sales_invoice_journal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_ar_account_id UUID;
+  v_revenue_account_id UUID;
+  v_tax_account_id UUID;
+  v_cogs_account_id UUID;
+  v_inventory_account_id UUID;
+  v_item RECORD;
+  v_line_num INTEGER := 1;
+  v_total_cost NUMERIC := 0;
+  v_item_cost NUMERIC;
+  v_rate NUMERIC;
+  v_total NUMERIC;
+  v_subtotal NUMERIC;
+  v_tax NUMERIC;
+BEGIN
+  -- STRICT IDEMPOTENCY: If JE already exists, NEVER create another one
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status NOT IN ('pending', 'partial', 'paid') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Accounts
+  SELECT id INTO v_ar_account_id FROM chart_of_accounts WHERE code = '1120' LIMIT 1;
+  SELECT id INTO v_revenue_account_id FROM chart_of_accounts WHERE code = '4100' LIMIT 1;
+  SELECT id INTO v_tax_account_id FROM chart_of_accounts WHERE code = '2130' LIMIT 1;
+  SELECT id INTO v_cogs_account_id FROM chart_of_accounts WHERE code = '5100' LIMIT 1;
+  SELECT id INTO v_inventory_account_id FROM chart_of_accounts WHERE code = '1130' LIMIT 1;
+
+  IF v_ar_account_id IS NULL OR v_revenue_account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Foreign-currency invoices are booked in IDR at the invoice rate; at rate 1 the lines are
+  -- exactly the document amounts
+  v_rate := CASE WHEN COALESCE(NEW.currency, 'IDR') = 'IDR' THEN 1 ELSE COALESCE(NULLIF(NEW.exchange_rate, 0), 1) END;
+  v_total := ROUND(NEW.total_amount * v_rate, 2);
+  v_subtotal := ROUND(NEW.subtotal * v_rate, 2);
+  v_tax := ROUND(COALESCE(NEW.tax_amount, 0) * v_rate, 2);
+
+  v_je_number := next_journal_entry_number();
+
+  INSERT INTO journal_entries (
+    entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by, created_by
+  ) VALUES (
+    v_je_number, NEW.invoice_date, 'sales_invoice', NEW.id, NEW.invoice_number,
+    'Sales Invoice: ' || NEW.invoice_number,
+    v_total, v_total, true, NEW.created_by, NEW.created_by
+  ) RETURNING id INTO v_je_id;
+
+  -- Dr: Accounts Receivable
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+  VALUES (v_je_id, v_line_num, v_ar_account_id, 'A/R - ' || NEW.invoice_number, v_total, 0, NEW.customer_id);
+  v_line_num := v_line_num + 1;
+
+  -- Cr: Sales Revenue (subtotal)
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+  VALUES (v_je_id, v_line_num, v_revenue_account_id, 'Sales - ' || NEW.invoice_number, 0, v_subtotal, NEW.customer_id);
+  v_line_num := v_line_num + 1;
+
+  -- Cr: Tax Payable (if any)
+  IF COALESCE(NEW.tax_amount, 0) > 0 AND v_tax_account_id IS NOT NULL THEN
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+    VALUES (v_je_id, v_line_num, v_tax_account_id, 'PPN - ' || NEW.invoice_number, 0, v_tax, NEW.customer_id);
+    v_line_num := v_line_num + 1;
+  END IF;
+
+  -- COGS entries (batch cost is already in IDR)
+  IF v_cogs_account_id IS NOT NULL AND v_inventory_account_id IS NOT NULL THEN
+    FOR v_item IN
+      SELECT sii.quantity, b.cost_price, b.id as batch_id
+      FROM sales_invoice_items sii
+      LEFT JOIN batches b ON b.id = sii.batch_id
+      WHERE sii.invoice_id = NEW.id AND sii.batch_id IS NOT NULL
+    LOOP
+      v_item_cost := COALESCE(v_item.cost_price, 0) * v_item.quantity;
+      v_total_cost := v_total_cost + v_item_cost;
+    END LOOP;
+
+    IF v_total_cost > 0 THEN
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+      VALUES (v_je_id, v_line_num, v_cogs_account_id, 'COGS - ' || NEW.invoice_number, v_total_cost, 0, NEW.customer_id);
+      v_line_num := v_line_num + 1;
+
+      INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+      VALUES (v_je_id, v_line_num, v_inventory_account_id, 'Inventory - ' || NEW.invoice_number, 0, v_total_cost, NEW.customer_id);
+    END IF;
+  END IF;
+
+  NEW.journal_entry_id := v_je_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_purchase_invoice_item_journal()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_invoice RECORD;
+  v_je_id UUID;
+  v_account_id UUID;
+  v_max_line INTEGER;
+  v_amount NUMERIC;
+BEGIN
+  SELECT * INTO v_invoice FROM purchase_invoices WHERE id = NEW.purchase_invoice_id;
+
+  -- Only add to an EXISTING journal entry; the header trigger handles the bulk case
+  IF v_invoice.journal_entry_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_je_id := v_invoice.journal_entry_id;
+  v_amount := ROUND(NEW.line_total * CASE WHEN COALESCE(v_invoice.currency, 'IDR') = 'IDR' THEN 1
+                                          ELSE COALESCE(NULLIF(v_invoice.exchange_rate, 0), 1) END, 2);
+
+  -- Check if a line for this specific item already exists (idempotency)
+  IF EXISTS (
+    SELECT 1 FROM journal_entry_lines
+    WHERE journal_entry_id = v_je_id
+    AND debit > 0
+    AND description LIKE '%' || LEFT(COALESCE(NEW.description, ''), 50) || '%'
+    AND debit = v_amount
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.item_type = 'inventory' THEN
+    SELECT id INTO v_account_id FROM chart_of_accounts WHERE code = '1130' LIMIT 1;
+  ELSIF NEW.item_type = 'fixed_asset' THEN
+    v_account_id := NEW.asset_account_id;
+    IF v_account_id IS NULL THEN
+      SELECT id INTO v_account_id FROM chart_of_accounts WHERE code = '1200' LIMIT 1;
+    END IF;
+  ELSE
+    v_account_id := NEW.expense_account_id;
+    IF v_account_id IS NULL THEN
+      SELECT id INTO v_account_id FROM chart_of_accounts WHERE code = '5100' LIMIT 1;
+    END IF;
+  END IF;
+
+  IF v_account_id IS NULL THEN RETURN NEW; END IF;
+
+  SELECT COALESCE(MAX(line_number), 0) INTO v_max_line
+  FROM journal_entry_lines WHERE journal_entry_id = v_je_id;
+
+  INSERT INTO journal_entry_lines (
+    journal_entry_id, line_number, account_id, description,
+    debit, credit, supplier_id, batch_id
+  ) VALUES (
+    v_je_id, v_max_line + 1, v_account_id,
+    COALESCE(LEFT(NEW.description, 100), 'Purchase Item'),
+    v_amount, 0, v_invoice.supplier_id, NEW.batch_id
+  );
+
+  UPDATE journal_entries
+  SET total_debit = (SELECT COALESCE(SUM(debit), 0) FROM journal_entry_lines WHERE journal_entry_id = v_je_id)
+  WHERE id = v_je_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_purchase_invoice_journal()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_ap_account_id UUID;
+  v_ppn_account_id UUID;
+  v_line_number INTEGER := 1;
+  v_item RECORD;
+  v_account_id UUID;
+  v_has_items BOOLEAN;
+  v_rate NUMERIC;
+  v_total NUMERIC;
+BEGIN
+  -- IDEMPOTENCY: Never create a JE if one already exists
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND OLD.journal_entry_id IS NULL
+     AND NEW.status IN ('unpaid', 'partial', 'paid')) THEN
+
+    SELECT id INTO v_ap_account_id FROM chart_of_accounts WHERE code = '2110' LIMIT 1;
+    SELECT id INTO v_ppn_account_id FROM chart_of_accounts WHERE code = '1150' LIMIT 1;
+
+    IF v_ap_account_id IS NULL THEN RETURN NEW; END IF;
+
+    SELECT EXISTS(SELECT 1 FROM purchase_invoice_items WHERE purchase_invoice_id = NEW.id)
+    INTO v_has_items;
+
+    -- Foreign-currency invoices are booked in IDR at the invoice rate
+    v_rate := CASE WHEN COALESCE(NEW.currency, 'IDR') = 'IDR' THEN 1 ELSE COALESCE(NULLIF(NEW.exchange_rate, 0), 1) END;
+    v_total := ROUND(NEW.total_amount * v_rate, 2);
+
+    v_je_number := 'JE-' || TO_CHAR(NEW.invoice_date, 'YYMM') || '-' || LPAD((
+      SELECT COALESCE(MAX(CAST(SUBSTRING(entry_number FROM '(\d+)$') AS INTEGER)), 0) + 1
+      FROM journal_entries
+      WHERE entry_number LIKE 'JE-' || TO_CHAR(NEW.invoice_date, 'YYMM') || '-%'
+    )::TEXT, 4, '0');
+
+    INSERT INTO journal_entries (
+      entry_number, entry_date, source_module, reference_id, reference_number,
+      description, total_debit, total_credit, is_posted, posted_by, created_by
+    ) VALUES (
+      v_je_number, NEW.invoice_date, 'purchase_invoice', NEW.id, NEW.invoice_number,
+      'Purchase Invoice: ' || NEW.invoice_number,
+      CASE WHEN v_has_items THEN v_total ELSE 0 END,
+      v_total, true, NEW.created_by, NEW.created_by
+    ) RETURNING id INTO v_je_id;
+
+    IF v_has_items THEN
+      FOR v_item IN
+        SELECT * FROM purchase_invoice_items
+        WHERE purchase_invoice_id = NEW.id
+        ORDER BY id
+      LOOP
+        IF v_item.item_type = 'inventory' THEN
+          SELECT id INTO v_account_id FROM chart_of_accounts WHERE code = '1130' LIMIT 1;
+        ELSIF v_item.item_type = 'fixed_asset' THEN
+          v_account_id := v_item.asset_account_id;
+          IF v_account_id IS NULL THEN
+            SELECT id INTO v_account_id FROM chart_of_accounts WHERE code = '1200' LIMIT 1;
+          END IF;
+        ELSIF v_item.item_type IN ('expense', 'freight', 'duty', 'insurance', 'clearing', 'other') THEN
+          v_account_id := v_item.expense_account_id;
+          IF v_account_id IS NULL THEN
+            SELECT id INTO v_account_id FROM chart_of_accounts WHERE code = '5100' LIMIT 1;
+          END IF;
+        END IF;
+
+        IF v_account_id IS NOT NULL THEN
+          INSERT INTO journal_entry_lines (
+            journal_entry_id, line_number, account_id, description,
+            debit, credit, supplier_id, batch_id
+          ) VALUES (
+            v_je_id, v_line_number, v_account_id,
+            COALESCE(LEFT(v_item.description, 100), 'Purchase - ' || NEW.invoice_number),
+            ROUND(v_item.line_total * v_rate, 2), 0, NEW.supplier_id, v_item.batch_id
+          );
+          v_line_number := v_line_number + 1;
+        END IF;
+      END LOOP;
+
+      IF NEW.tax_amount > 0 AND v_ppn_account_id IS NOT NULL THEN
+        INSERT INTO journal_entry_lines (
+          journal_entry_id, line_number, account_id, description,
+          debit, credit, supplier_id
+        ) VALUES (
+          v_je_id, v_line_number, v_ppn_account_id,
+          'PPN Input - ' || NEW.invoice_number,
+          ROUND(NEW.tax_amount * v_rate, 2), 0, NEW.supplier_id
+        );
+        v_line_number := v_line_number + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO journal_entry_lines (
+      journal_entry_id, line_number, account_id, description,
+      debit, credit, supplier_id
+    ) VALUES (
+      v_je_id, v_line_number, v_ap_account_id,
+      'A/P - ' || NEW.invoice_number,
+      0, v_total, NEW.supplier_id
+    );
+
+    NEW.journal_entry_id := v_je_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 4. VOUCHER JOURNALS AT THE SETTLEMENT RATE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION post_payment_voucher_journal()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_credit_account_id UUID;
+  v_debit_account_id UUID;
+  v_pph_account_id UUID;
+  v_rate NUMERIC;
+  v_amount DECIMAL(18,2);
+  v_pph_amount DECIMAL(18,2);
+  v_net_amount DECIMAL(18,2);
+BEGIN
+  -- Edits repost only when a column the journal carries has changed; the old entry is removed
+  -- by trg_remove_replaced_voucher_journal once the voucher points at the new one
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.amount IS NOT DISTINCT FROM OLD.amount
+       AND NEW.pph_amount IS NOT DISTINCT FROM OLD.pph_amount
+       AND NEW.pph_code_id IS NOT DISTINCT FROM OLD.pph_code_id
+       AND NEW.voucher_date IS NOT DISTINCT FROM OLD.voucher_date
+       AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+       AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+       AND NEW.currency IS NOT DISTINCT FROM OLD.currency
+       AND NEW.exchange_rate IS NOT DISTINCT FROM OLD.exchange_rate THEN
+      RETURN NEW;
+    END IF;
+    NEW.journal_entry_id := NULL;
+  END IF;
+
+  -- IDEMPOTENCY: Never create a second JE if one already exists
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Determine credit account (bank/cash paying out money)
+  IF NEW.bank_account_id IS NOT NULL THEN
+    SELECT coa_id INTO v_credit_account_id FROM bank_accounts WHERE id = NEW.bank_account_id;
+  ELSIF NEW.payment_method = 'cash' THEN
+    SELECT id INTO v_credit_account_id FROM chart_of_accounts WHERE code = '1101' LIMIT 1;
+  END IF;
+
+  IF v_credit_account_id IS NULL THEN
+    SELECT id INTO v_credit_account_id FROM chart_of_accounts WHERE code = '1111' LIMIT 1;
+  END IF;
+
+  -- Determine debit account (A/P or custom)
+  IF NEW.coa_account_id IS NOT NULL THEN
+    v_debit_account_id := NEW.coa_account_id;
+  ELSE
+    SELECT id INTO v_debit_account_id FROM chart_of_accounts WHERE code = '2110' LIMIT 1;
+  END IF;
+
+  -- PPh payable account from the withholding code, PPh 23 Payable when not configured
+  IF NEW.pph_code_id IS NOT NULL THEN
+    SELECT payment_account_id INTO v_pph_account_id FROM tax_codes WHERE id = NEW.pph_code_id;
+  END IF;
+  IF v_pph_account_id IS NULL THEN
+    SELECT id INTO v_pph_account_id FROM chart_of_accounts WHERE code = '2132' LIMIT 1;
+  END IF;
+
+  IF v_credit_account_id IS NULL OR v_debit_account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Foreign-currency vouchers post in IDR at the voucher rate
+  v_rate := CASE WHEN COALESCE(NEW.currency, 'IDR') = 'IDR' THEN 1 ELSE COALESCE(NULLIF(NEW.exchange_rate, 0), 1) END;
+  v_amount := ROUND(NEW.amount * v_rate, 2);
+  v_pph_amount := ROUND(COALESCE(NEW.pph_amount, 0) * v_rate, 2);
+  v_net_amount := v_amount - v_pph_amount;
+  v_je_number := next_journal_entry_number();
+
+  INSERT INTO journal_entries (
+    entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by
+  ) VALUES (
+    v_je_number, NEW.voucher_date, 'payment', NEW.id, NEW.voucher_number,
+    'Payment Voucher: ' || NEW.voucher_number,
+    v_amount, v_amount, true, NEW.created_by
+  ) RETURNING id INTO v_je_id;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, supplier_id)
+  VALUES (v_je_id, 1, v_debit_account_id, 'Payment - ' || NEW.voucher_number, v_amount, 0, NEW.supplier_id);
+
+  IF v_pph_amount > 0 AND v_pph_account_id IS NOT NULL THEN
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, supplier_id)
+    VALUES (v_je_id, 2, v_pph_account_id, 'PPh Withholding - ' || NEW.voucher_number, 0, v_pph_amount, NEW.supplier_id);
+  END IF;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, supplier_id)
+  VALUES (v_je_id, 3, v_credit_account_id, 'Cash Payment - ' || NEW.voucher_number, 0, v_net_amount, NEW.supplier_id);
+
+  NEW.journal_entry_id := v_je_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_receipt_voucher_journal()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_je_id UUID;
+  v_je_number TEXT;
+  v_debit_account_id UUID;
+  v_credit_account_id UUID;
+  v_pph_account_id UUID;
+  v_rate NUMERIC;
+  v_amount DECIMAL(18,2);
+  v_pph_amount DECIMAL(18,2);
+  v_net_amount DECIMAL(18,2);
+BEGIN
+  -- Edits repost only when a column the journal carries has changed; the old entry is removed
+  -- by trg_remove_replaced_voucher_journal once the voucher points at the new one
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.amount IS NOT DISTINCT FROM OLD.amount
+       AND NEW.pph_amount IS NOT DISTINCT FROM OLD.pph_amount
+       AND NEW.pph_code_id IS NOT DISTINCT FROM OLD.pph_code_id
+       AND NEW.voucher_date IS NOT DISTINCT FROM OLD.voucher_date
+       AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+       AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+       AND NEW.currency IS NOT DISTINCT FROM OLD.currency
+       AND NEW.exchange_rate IS NOT DISTINCT FROM OLD.exchange_rate THEN
+      RETURN NEW;
+    END IF;
+    NEW.journal_entry_id := NULL;
+  END IF;
+
+  -- IDEMPOTENCY: Never create a second JE if one already exists
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Determine debit account (bank/cash account receiving money)
+  IF NEW.bank_account_id IS NOT NULL THEN
+    SELECT coa_id INTO v_debit_account_id FROM bank_accounts WHERE id = NEW.bank_account_id;
+  ELSIF NEW.payment_method = 'cash' THEN
+    SELECT id INTO v_debit_account_id FROM chart_of_accounts WHERE code = '1101' LIMIT 1;
+  END IF;
+
+  IF v_debit_account_id IS NULL THEN
+    SELECT id INTO v_debit_account_id FROM chart_of_accounts WHERE code = '1111' LIMIT 1;
+  END IF;
+
+  -- Determine credit account (AR or custom)
+  IF NEW.coa_account_id IS NOT NULL THEN
+    v_credit_account_id := NEW.coa_account_id;
+  ELSE
+    SELECT id INTO v_credit_account_id FROM chart_of_accounts WHERE code = '1120' LIMIT 1;
+  END IF;
+
+  -- Prepaid PPh account from the withholding code, Prepaid PPh 23 when not configured
+  IF NEW.pph_code_id IS NOT NULL THEN
+    SELECT collection_account_id INTO v_pph_account_id FROM tax_codes WHERE id = NEW.pph_code_id;
+  END IF;
+  IF v_pph_account_id IS NULL THEN
+    SELECT id INTO v_pph_account_id FROM chart_of_accounts WHERE code = '1161' LIMIT 1;
+  END IF;
+
+  IF v_debit_account_id IS NULL OR v_credit_account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Foreign-currency vouchers post in IDR at the voucher rate
+  v_rate := CASE WHEN COALESCE(NEW.currency, 'IDR') = 'IDR' THEN 1 ELSE COALESCE(NULLIF(NEW.exchange_rate, 0), 1) END;
+  v_amount := ROUND(NEW.amount * v_rate, 2);
+  v_pph_amount := ROUND(COALESCE(NEW.pph_amount, 0) * v_rate, 2);
+  v_net_amount := v_amount - v_pph_amount;
+  v_je_number := next_journal_entry_number();
+
+  INSERT INTO journal_entries (
+    entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by
+  ) VALUES (
+    v_je_number, NEW.voucher_date, 'receipt', NEW.id, NEW.voucher_number,
+    'Receipt Voucher: ' || NEW.voucher_number,
+    v_amount, v_amount, true, NEW.created_by
+  ) RETURNING id INTO v_je_id;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+  VALUES (v_je_id, 1, v_debit_account_id, 'Cash Receipt - ' || NEW.voucher_number, v_net_amount, 0, NEW.customer_id);
+
+  IF v_pph_amount > 0 AND v_pph_account_id IS NOT NULL THEN
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+    VALUES (v_je_id, 2, v_pph_account_id, 'PPh Withheld by Customer - ' || NEW.voucher_number, v_pph_amount, 0, NEW.customer_id);
+  END IF;
+
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id)
+  VALUES (v_je_id, 3, v_credit_account_id, 'Receipt - ' || NEW.voucher_number, 0, v_amount, NEW.customer_id);
+
+  NEW.journal_entry_id := v_je_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_post_payment_voucher ON payment_vouchers;
+CREATE TRIGGER trg_post_payment_voucher
+  BEFORE INSERT OR UPDATE OF amount, pph_amount, pph_code_id, voucher_date, bank_account_id, payment_method,
+    currency, exchange_rate
+  ON payment_vouchers
+  FOR EACH ROW EXECUTE FUNCTION post_payment_voucher_journal();
+
+DROP TRIGGER IF EXISTS trg_post_receipt_voucher ON receipt_vouchers;
+CREATE TRIGGER trg_post_receipt_voucher
+  BEFORE INSERT OR UPDATE OF amount, pph_amount, pph_code_id, voucher_date, bank_account_id, payment_method,
+    currency, exchange_rate
+  ON receipt_vouchers
+  FOR EACH ROW EXECUTE FUNCTION post_receipt_voucher_journal();
+
+-- ============================================
+-- 5. REALISED FX PER ALLOCATION
+-- ============================================
+
+-- Runs after trg_block_unmatched_invoice_payment (BEFORE triggers fire in name order). The
+-- voucher screens replace allocations on edit (delete + insert), so only inserts post
+CREATE OR REPLACE FUNCTION trg_post_allocation_fx()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_currency TEXT;
+  v_invoice_rate NUMERIC;
+  v_invoice_number TEXT;
+  v_voucher_currency TEXT;
+  v_voucher_rate NUMERIC;
+  v_voucher_date DATE;
+  v_voucher_number TEXT;
+  v_voucher_id UUID;
+  v_customer_id UUID;
+  v_supplier_id UUID;
+  v_party_account_id UUID;
+  v_gain_account_id UUID;
+  v_loss_account_id UUID;
+  v_settlement_rate NUMERIC;
+  v_fx NUMERIC;
+  v_je_id UUID;
+BEGIN
+  NEW.fx_gain_loss := 0;
+  NEW.fx_journal_entry_id := NULL;
+
+  IF NEW.voucher_type = 'receipt' AND NEW.sales_invoice_id IS NOT NULL THEN
+    SELECT COALESCE(currency, 'IDR'), exchange_rate, invoice_number
+    INTO v_invoice_currency, v_invoice_rate, v_invoice_number
+    FROM sales_invoices WHERE id = NEW.sales_invoice_id;
+
+    SELECT id, COALESCE(currency, 'IDR'), exchange_rate, voucher_date, voucher_number, customer_id
+    INTO v_voucher_id, v_voucher_currency, v_voucher_rate, v_voucher_date, v_voucher_number, v_customer_id
+    FROM receipt_vouchers WHERE id = NEW.receipt_voucher_id;
+
+    SELECT id INTO v_party_account_id FROM chart_of_accounts WHERE code = '1120' LIMIT 1;
+  ELSIF NEW.voucher_type = 'payment' AND NEW.purchase_invoice_id IS NOT NULL THEN
+    SELECT COALESCE(currency, 'IDR'), exchange_rate, invoice_number
+    INTO v_invoice_currency, v_invoice_rate, v_invoice_number
+    FROM purchase_invoices WHERE id = NEW.purchase_invoice_id;
+
+    SELECT id, COALESCE(currency, 'IDR'), exchange_rate, voucher_date, voucher_number, supplier_id
+    INTO v_voucher_id, v_voucher_currency, v_voucher_rate, v_voucher_date, v_voucher_number, v_supplier_id
+    FROM payment_vouchers WHERE id = NEW.payment_voucher_id;
+
+    SELECT id INTO v_party_account_id FROM chart_of_accounts WHERE code = '2110' LIMIT 1;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- The voucher journal posts amount x voucher rate; an allocation in another currency has no
+  -- share of that to compare the invoice against
+  IF v_voucher_id IS NOT NULL AND v_invoice_currency IS NOT NULL AND v_voucher_currency <> v_invoice_currency THEN
+    RAISE EXCEPTION 'Voucher % is in % but invoice % is in %; allocate only invoices in the voucher currency',
+      v_voucher_number, v_voucher_currency, v_invoice_number, v_invoice_currency;
+  END IF;
+
+  IF v_invoice_currency IS NULL OR v_invoice_currency = 'IDR' OR v_voucher_id IS NULL THEN
+    NEW.invoice_rate := NULL;
+    NEW.settlement_rate := NULL;
+    RETURN NEW;
+  END IF;
+
+  v_invoice_rate := COALESCE(NULLIF(v_invoice_rate, 0), 1);
+  -- Same rate expression as the voucher journal, so allocated x settlement rate is the IDR it posted
+  v_settlement_rate := COALESCE(NULLIF(v_voucher_rate, 0), 1);
+
+  NEW.invoice_rate := v_invoice_rate;
+  NEW.settlement_rate := v_settlement_rate;
+
+  -- Receiving more rupiah than booked is a gain; paying more is a loss
+  IF NEW.voucher_type = 'receipt' THEN
+    v_fx := ROUND(NEW.allocated_amount * (v_settlement_rate - v_invoice_rate), 2);
+  ELSE
+    v_fx := ROUND(NEW.allocated_amount * (v_invoice_rate - v_settlement_rate), 2);
+  END IF;
+  NEW.fx_gain_loss := v_fx;
+
+  IF v_fx = 0 OR v_party_account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_gain_account_id FROM chart_of_accounts WHERE code = '4920' LIMIT 1;
+  SELECT id INTO v_loss_account_id FROM chart_of_accounts WHERE code = '7300' LIMIT 1;
+  IF v_gain_account_id IS NULL OR v_loss_account_id IS NULL THEN
+    RAISE EXCEPTION 'Accounts 4920 Realised FX Gain and 7300 Foreign Exchange Loss must exist';
+  END IF;
+
+  INSERT INTO journal_entries (
+    entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by, created_by
+  ) VALUES (
+    next_journal_entry_number(), v_voucher_date, 'fx_realised', v_voucher_id, v_voucher_number,
+    'Realised FX ' || v_invoice_currency || ' on ' || v_invoice_number || ' @ ' || v_settlement_rate
+      || ' (booked ' || v_invoice_rate || ')',
+    ABS(v_fx), ABS(v_fx), true, auth.uid(), auth.uid()
+  ) RETURNING id INTO v_je_id;
+
+  -- A/R or A/P is cleared at the booked value: a gain moves it up (debit), a loss down (credit)
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit, customer_id, supplier_id)
+  VALUES (
+    v_je_id, 1, v_party_account_id, 'Realised FX ' || v_invoice_number,
+    GREATEST(v_fx, 0), GREATEST(-v_fx, 0), v_customer_id, v_supplier_id
+  );
+
+  IF v_fx > 0 THEN
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (v_je_id, 2, v_gain_account_id, 'Realised FX gain ' || v_invoice_number, 0, v_fx);
+  ELSE
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (v_je_id, 2, v_loss_account_id, 'Realised FX loss ' || v_invoice_number, -v_fx, 0);
+  END IF;
+
+  NEW.fx_journal_entry_id := v_je_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_post_allocation_fx ON voucher_allocations;
+CREATE TRIGGER trg_post_allocation_fx
+  BEFORE INSERT ON voucher_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_post_allocation_fx();
+
+CREATE OR REPLACE FUNCTION trg_remove_allocation_fx()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.fx_journal_entry_id IS NOT NULL THEN
+    DELETE FROM journal_entries WHERE id = OLD.fx_journal_entry_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_remove_allocation_fx ON voucher_allocations;
+CREATE TRIGGER trg_remove_allocation_fx
+  AFTER DELETE ON voucher_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_remove_allocation_fx();
+
+-- ============================================
+-- 6. PARTY BALANCES PER CURRENCY
+-- ============================================
+
+-- Open invoices per currency: the balance in the transaction currency and what it is carried
+-- at in IDR (booked rate), after settlements
+CREATE OR REPLACE FUNCTION get_party_currency_balances(p_party_type TEXT, p_party_id UUID)
+RETURNS TABLE (
+  currency TEXT,
+  invoice_count BIGINT,
+  foreign_balance NUMERIC,
+  idr_balance NUMERIC,
+  realised_fx NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH docs AS (
+    SELECT
+      COALESCE(si.currency, 'IDR') AS currency,
+      si.total_amount - COALESCE(SUM(va.allocated_amount), 0) AS open_amount,
+      CASE WHEN COALESCE(si.currency, 'IDR') = 'IDR' THEN 1 ELSE COALESCE(NULLIF(si.exchange_rate, 0), 1) END AS rate,
+      COALESCE(SUM(va.fx_gain_loss), 0) AS fx
+    FROM sales_invoices si
+    LEFT JOIN voucher_allocations va ON va.sales_invoice_id = si.id AND va.voucher_type = 'receipt'
+    WHERE p_party_type = 'customer' AND si.customer_id = p_party_id AND si.is_draft = false
+    GROUP BY si.id
+    UNION ALL
+    SELECT
+      COALESCE(pi.currency, 'IDR'),
+      pi.total_amount - COALESCE(SUM(va.allocated_amount), 0),
+      CASE WHEN COALESCE(pi.currency, 'IDR') = 'IDR' THEN 1 ELSE COALESCE(NULLIF(pi.exchange_rate, 0), 1) END,
+      COALESCE(SUM(va.fx_gain_loss), 0)
+    FROM purchase_invoices pi
+    LEFT JOIN voucher_allocations va ON va.purchase_invoice_id = pi.id AND va.voucher_type = 'payment'
+    WHERE p_party_type = 'supplier' AND pi.supplier_id = p_party_id
+    GROUP BY pi.id
+  )
+  SELECT
+    currency,
+    COUNT(*) FILTER (WHERE open_amount > 0.005),
+    ROUND(SUM(open_amount), 2),
+    ROUND(SUM(open_amount * rate), 2),
+    SUM(fx)
+  FROM docs
+  GROUP BY currency
+  ORDER BY currency;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_party_currency_balances(TEXT, UUID) TO authenticated;
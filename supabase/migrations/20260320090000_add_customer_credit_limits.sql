@@ -0,0 +1,381 @@
+/*
+  # Customer Credit Limits and Credit Hold
+
+  1. Problem
+    - `customers` has no credit limit, so a sales order is approved no matter how much the
+      customer already owes or how late their invoices are
+    - Payment terms are free text, so nothing can tell when an invoice is overdue against them
+
+  2. Changes
+    - `customers`:
+      - `credit_limit` - maximum exposure in IDR, NULL means no limit
+      - `payment_terms_days` - agreed terms in days, backfilled from the free-text `payment_terms`
+      - `overdue_threshold_days` - days past due tolerated before approval stops, NULL disables
+      - `credit_control_mode`:
+        - `approval` - a breach raises a `sales_order_credit` request for a manager
+        - `block` - a breach stops approval outright
+      - `credit_hold` / `credit_hold_reason` - manual hold, always blocks
+    - `sales_orders.credit_status` / `credit_checked_at` - result of the last check
+    - `get_customer_credit_status(customer_id, sales_order_id)` - exposure in IDR: open invoice
+      balances, delivered but un-invoiced DC lines, undelivered approved SO lines and the order
+      being approved, against the limit and the oldest overdue invoice
+    - `fn_check_sales_order_credit(so_id)` - evaluates the order, stores the result and raises
+      or refreshes the approval request
+    - Approving / rejecting the request in `approval_workflows` updates the order
+    - `sales_orders` rejects approval while the credit check has not passed
+*/
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(15,2) CHECK (credit_limit IS NULL OR credit_limit >= 0),
+  ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER DEFAULT 30 CHECK (payment_terms_days >= 0),
+  ADD COLUMN IF NOT EXISTS overdue_threshold_days INTEGER DEFAULT 30 CHECK (overdue_threshold_days >= 0),
+  ADD COLUMN IF NOT EXISTS credit_control_mode TEXT NOT NULL DEFAULT 'approval'
+    CHECK (credit_control_mode IN ('approval', 'block')),
+  ADD COLUMN IF NOT EXISTS credit_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS credit_hold_reason TEXT;
+
+UPDATE customers
+SET payment_terms_days = CASE
+  WHEN payment_terms ~* 'net\s+\d+' THEN substring(payment_terms FROM '(?i)net\s+(\d+)')::INTEGER
+  WHEN payment_terms ~* 'cash|receipt|advance' THEN 0
+  ELSE 30
+END
+WHERE payment_terms IS NOT NULL;
+
+ALTER TABLE sales_orders
+  ADD COLUMN IF NOT EXISTS credit_status TEXT
+    CHECK (credit_status IN ('ok', 'over_limit', 'overdue', 'on_hold', 'pending_approval', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS credit_checked_at TIMESTAMPTZ;
+
+ALTER TABLE approval_workflows DROP CONSTRAINT IF EXISTS approval_workflows_transaction_type_check;
+ALTER TABLE approval_workflows ADD CONSTRAINT approval_workflows_transaction_type_check
+  CHECK (transaction_type IN (
+    'material_return',
+    'stock_rejection',
+    'purchase_approval',
+    'expense_approval',
+    'purchase_invoice_variance',
+    'sales_order_credit'
+  ));
+
+-- ============================================
+-- 2. EXPOSURE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_customer_credit_status(p_customer_id UUID, p_sales_order_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  credit_limit NUMERIC,
+  open_invoices NUMERIC,
+  uninvoiced_deliveries NUMERIC,
+  open_orders NUMERIC,
+  order_amount NUMERIC,
+  exposure NUMERIC,
+  available_credit NUMERIC,
+  overdue_amount NUMERIC,
+  max_days_overdue INTEGER,
+  overdue_threshold_days INTEGER,
+  credit_control_mode TEXT,
+  credit_hold BOOLEAN,
+  credit_hold_reason TEXT,
+  status TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer RECORD;
+  v_open_invoices NUMERIC;
+  v_overdue NUMERIC;
+  v_max_overdue INTEGER;
+  v_uninvoiced NUMERIC;
+  v_open_orders NUMERIC;
+  v_order NUMERIC := 0;
+  v_exposure NUMERIC;
+  v_status TEXT;
+BEGIN
+  SELECT c.credit_limit, c.overdue_threshold_days, c.credit_control_mode, c.credit_hold, c.credit_hold_reason
+  INTO v_customer
+  FROM customers c WHERE c.id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(si.balance_amount * COALESCE(si.exchange_rate, 1)), 0),
+    COALESCE(SUM(si.balance_amount * COALESCE(si.exchange_rate, 1)) FILTER (WHERE si.due_date < CURRENT_DATE), 0),
+    COALESCE(MAX(CURRENT_DATE - si.due_date) FILTER (WHERE si.due_date < CURRENT_DATE), 0)
+  INTO v_open_invoices, v_overdue, v_max_overdue
+  FROM sales_invoices si
+  WHERE si.customer_id = p_customer_id
+    AND si.balance_amount > 0;
+
+  -- DC lines not yet (fully) invoiced, priced from the SO line or the last invoice to the customer
+  SELECT COALESCE(SUM(
+    GREATEST(dci.quantity - COALESCE(inv.quantity, 0), 0) * COALESCE(
+      (SELECT soi.line_total / NULLIF(soi.quantity, 0)
+         * COALESCE(get_exchange_rate(so.currency, CURRENT_DATE), 1)
+       FROM sales_order_items soi
+       JOIN sales_orders so ON so.id = soi.sales_order_id
+       WHERE soi.sales_order_id = dc.sales_order_id AND soi.product_id = dci.product_id
+       LIMIT 1),
+      (SELECT sii.unit_price * COALESCE(si.exchange_rate, 1)
+       FROM sales_invoice_items sii
+       JOIN sales_invoices si ON si.id = sii.invoice_id
+       WHERE si.customer_id = p_customer_id AND sii.product_id = dci.product_id
+       ORDER BY si.invoice_date DESC
+       LIMIT 1),
+      0
+    )
+  ), 0)
+  INTO v_uninvoiced
+  FROM delivery_challan_items dci
+  JOIN delivery_challans dc ON dc.id = dci.challan_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(sii.quantity) AS quantity
+    FROM sales_invoice_items sii
+    WHERE sii.delivery_challan_item_id = dci.id
+  ) inv ON true
+  WHERE dc.customer_id = p_customer_id
+    AND dc.approval_status <> 'rejected';
+
+  -- Undelivered part of approved orders, tax included through line_total
+  SELECT COALESCE(SUM(
+    soi.line_total * (soi.quantity - soi.delivered_quantity) / NULLIF(soi.quantity, 0)
+      * COALESCE(get_exchange_rate(so.currency, CURRENT_DATE), 1)
+  ), 0)
+  INTO v_open_orders
+  FROM sales_orders so
+  JOIN sales_order_items soi ON soi.sales_order_id = so.id
+  WHERE so.customer_id = p_customer_id
+    AND so.status IN ('approved', 'stock_reserved', 'shortage', 'pending_delivery', 'partially_delivered')
+    AND COALESCE(so.is_archived, false) = false
+    AND so.id IS DISTINCT FROM p_sales_order_id;
+
+  IF p_sales_order_id IS NOT NULL THEN
+    SELECT so.total_amount * COALESCE(get_exchange_rate(so.currency, CURRENT_DATE), 1)
+    INTO v_order
+    FROM sales_orders so
+    WHERE so.id = p_sales_order_id
+      AND so.status IN ('draft', 'pending_approval');
+    v_order := COALESCE(v_order, 0);
+  END IF;
+
+  v_exposure := v_open_invoices + v_uninvoiced + v_open_orders + v_order;
+
+  v_status := CASE
+    WHEN v_customer.credit_hold THEN 'on_hold'
+    WHEN v_customer.credit_limit IS NOT NULL AND v_exposure > v_customer.credit_limit THEN 'over_limit'
+    WHEN v_customer.overdue_threshold_days IS NOT NULL AND v_max_overdue > v_customer.overdue_threshold_days THEN 'overdue'
+    ELSE 'ok'
+  END;
+
+  RETURN QUERY SELECT
+    v_customer.credit_limit,
+    ROUND(v_open_invoices, 2),
+    ROUND(v_uninvoiced, 2),
+    ROUND(v_open_orders, 2),
+    ROUND(v_order, 2),
+    ROUND(v_exposure, 2),
+    CASE WHEN v_customer.credit_limit IS NULL THEN NULL ELSE ROUND(v_customer.credit_limit - v_exposure, 2) END,
+    ROUND(v_overdue, 2),
+    v_max_overdue,
+    v_customer.overdue_threshold_days,
+    v_customer.credit_control_mode,
+    v_customer.credit_hold,
+    v_customer.credit_hold_reason,
+    v_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_customer_credit_status(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- 3. SALES ORDER CREDIT CHECK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION fn_check_sales_order_credit(p_so_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_credit RECORD;
+  v_status TEXT;
+BEGIN
+  SELECT id, so_number, customer_id, total_amount INTO v_order
+  FROM sales_orders WHERE id = p_so_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order % not found', p_so_id;
+  END IF;
+
+  SELECT * INTO v_credit FROM get_customer_credit_status(v_order.customer_id, p_so_id);
+
+  IF v_credit.status = 'ok' THEN
+    v_status := 'ok';
+  ELSIF v_credit.status = 'on_hold' OR v_credit.credit_control_mode = 'block' THEN
+    v_status := v_credit.status;
+  ELSIF EXISTS (
+    -- An approval only covers the order total it was given for
+    SELECT 1 FROM approval_workflows
+    WHERE transaction_type = 'sales_order_credit'
+      AND transaction_id = p_so_id
+      AND status = 'approved'
+      AND amount = v_order.total_amount
+  ) THEN
+    v_status := 'approved';
+  ELSE
+    v_status := 'pending_approval';
+
+    IF NOT EXISTS (
+      SELECT 1 FROM approval_workflows
+      WHERE transaction_type = 'sales_order_credit'
+        AND transaction_id = p_so_id
+        AND status = 'pending'
+    ) AND auth.uid() IS NOT NULL THEN
+      INSERT INTO approval_workflows (
+        transaction_type, transaction_id, requested_by, amount, status, notes, metadata
+      ) VALUES (
+        'sales_order_credit',
+        p_so_id,
+        auth.uid(),
+        v_order.total_amount,
+        'pending',
+        'Credit check failed (' || replace(v_credit.status, '_', ' ') || ') on sales order ' || v_order.so_number,
+        jsonb_build_object(
+          'required_role', 'manager',
+          'credit_status', v_credit.status,
+          'credit_limit', v_credit.credit_limit,
+          'exposure', v_credit.exposure,
+          'overdue_amount', v_credit.overdue_amount,
+          'max_days_overdue', v_credit.max_days_overdue
+        )
+      );
+    ELSE
+      UPDATE approval_workflows
+      SET amount = v_order.total_amount,
+          metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+            'credit_status', v_credit.status,
+            'credit_limit', v_credit.credit_limit,
+            'exposure', v_credit.exposure,
+            'overdue_amount', v_credit.overdue_amount,
+            'max_days_overdue', v_credit.max_days_overdue
+          ),
+          updated_at = NOW()
+      WHERE transaction_type = 'sales_order_credit'
+        AND transaction_id = p_so_id
+        AND status = 'pending';
+    END IF;
+  END IF;
+
+  -- Nothing left to approve
+  IF v_status <> 'pending_approval' THEN
+    DELETE FROM approval_workflows
+    WHERE transaction_type = 'sales_order_credit'
+      AND transaction_id = p_so_id
+      AND status = 'pending';
+  END IF;
+
+  UPDATE sales_orders
+  SET credit_status = v_status,
+      credit_checked_at = NOW()
+  WHERE id = p_so_id;
+
+  RETURN v_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fn_check_sales_order_credit(UUID) TO authenticated;
+
+-- ============================================
+-- 4. APPROVAL DECISION UPDATES THE ORDER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trg_sync_sales_order_credit_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.transaction_type = 'sales_order_credit' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'approved' THEN
+      UPDATE sales_orders
+      SET credit_status = 'approved',
+          credit_checked_at = NOW()
+      WHERE id = NEW.transaction_id
+        AND credit_status = 'pending_approval';
+    ELSIF NEW.status = 'rejected' THEN
+      UPDATE sales_orders
+      SET credit_status = 'rejected',
+          credit_checked_at = NOW()
+      WHERE id = NEW.transaction_id
+        AND credit_status IN ('pending_approval', 'approved');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_sales_order_credit_approval ON approval_workflows;
+CREATE TRIGGER trg_sync_sales_order_credit_approval
+  AFTER UPDATE ON approval_workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_sync_sales_order_credit_approval();
+
+-- ============================================
+-- 5. APPROVAL BLOCK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION trg_block_sales_order_over_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit RECORD;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status NOT IN ('draft', 'pending_approval') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_credit FROM get_customer_credit_status(NEW.customer_id, NEW.id);
+  NEW.credit_checked_at := NOW();
+
+  IF v_credit.status = 'ok' THEN
+    NEW.credit_status := 'ok';
+    RETURN NEW;
+  END IF;
+
+  IF v_credit.status <> 'on_hold' AND v_credit.credit_control_mode = 'approval' AND EXISTS (
+    SELECT 1 FROM approval_workflows
+    WHERE transaction_type = 'sales_order_credit'
+      AND transaction_id = NEW.id
+      AND status = 'approved'
+      AND amount = NEW.total_amount
+  ) THEN
+    NEW.credit_status := 'approved';
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Sales order % fails the credit check for this customer (%)',
+    NEW.so_number, replace(v_credit.status, '_', ' ');
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_block_sales_order_over_credit ON sales_orders;
+CREATE TRIGGER trg_block_sales_order_over_credit
+  BEFORE UPDATE OF status ON sales_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_block_sales_order_over_credit();
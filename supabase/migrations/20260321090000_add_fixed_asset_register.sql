@@ -0,0 +1,695 @@
+/*
+  # Fixed Asset Register and Depreciation
+
+  1. Problem
+    - Assets bought on a purchase invoice (`item_type = 'fixed_asset'`) or an expense are
+      capitalised to 12xx but never depreciated; there is no register of what was bought, when
+      and for how much
+    - The CA report "Fixed Asset Register" lists chart of accounts codes with empty acquisition
+      date, cost, accumulated depreciation and book value
+
+  2. Changes
+    - `fixed_asset_categories` - asset, accumulated depreciation and expense accounts, default
+      method, life and Indonesian fiscal group (PMK 72/2023):
+      * kelompok_1 - 4 years, kelompok_2 - 8, kelompok_3 - 16, kelompok_4 - 20
+      * building_permanent - 20 years, building_non_permanent - 10, straight-line only
+    - `fixed_assets` - the register. Acquisition links to a purchase invoice line or an expense,
+      which already posted the cost; assets taken on from an earlier system carry
+      `opening_accumulated_depreciation`. Numbered through the document numbering service (FA)
+    - Methods, charged from the month of acquisition:
+      * straight_line - (cost - salvage) / life in months
+      * declining_balance - book value at the start of the year x (2 / life in years) / 12, the
+        fiscal double-declining rates; the rest is charged in the last month of the life
+    - `fixed_asset_depreciation_runs` / `fixed_asset_depreciation_lines` - one run per month end.
+      `preview_fixed_asset_depreciation()` lists the charge, `post_fixed_asset_depreciation()`
+      posts one journal (Dr expense / Cr accumulated depreciation per account),
+      `cancel_fixed_asset_depreciation()` removes the latest run
+    - `dispose_fixed_asset()` - removes cost and accumulated depreciation, books the proceeds and
+      the gain (4930) or loss (7400) against book value. `cancel_fixed_asset_disposal()` undoes it
+*/
+
+-- ============================================
+-- 1. ACCOUNTS
+-- ============================================
+
+INSERT INTO chart_of_accounts (code, name, name_id, account_type, account_group, is_header, normal_balance) VALUES
+('1220', 'Buildings', 'Bangunan', 'asset', 'Fixed Assets', false, 'debit'),
+('1221', 'Accumulated Depreciation - Buildings', 'Akum. Penyusutan Bangunan', 'contra', 'Fixed Assets', false, 'credit'),
+('1230', 'Furniture & Office Equipment', 'Inventaris Kantor', 'asset', 'Fixed Assets', false, 'debit'),
+('1231', 'Accumulated Depreciation - Furniture & Office Equipment', 'Akum. Penyusutan Inventaris Kantor', 'contra', 'Fixed Assets', false, 'credit'),
+('4930', 'Gain on Disposal of Fixed Assets', 'Laba Pelepasan Aset Tetap', 'revenue', 'Revenue', false, 'credit'),
+('7400', 'Loss on Disposal of Fixed Assets', 'Rugi Pelepasan Aset Tetap', 'expense', 'Other Expenses', false, 'debit')
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- 2. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS fixed_asset_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  fiscal_group TEXT NOT NULL CHECK (fiscal_group IN (
+    'kelompok_1', 'kelompok_2', 'kelompok_3', 'kelompok_4', 'building_permanent', 'building_non_permanent'
+  )),
+  depreciation_method TEXT NOT NULL DEFAULT 'straight_line'
+    CHECK (depreciation_method IN ('straight_line', 'declining_balance')),
+  useful_life_months INTEGER NOT NULL CHECK (useful_life_months > 0),
+  asset_account_id UUID NOT NULL REFERENCES chart_of_accounts(id),
+  accumulated_account_id UUID NOT NULL REFERENCES chart_of_accounts(id),
+  expense_account_id UUID NOT NULL REFERENCES chart_of_accounts(id),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (depreciation_method = 'straight_line' OR fiscal_group NOT LIKE 'building%')
+);
+
+CREATE TABLE IF NOT EXISTS fixed_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_code TEXT NOT NULL UNIQUE,
+  asset_name TEXT NOT NULL,
+  category_id UUID NOT NULL REFERENCES fixed_asset_categories(id),
+  fiscal_group TEXT NOT NULL CHECK (fiscal_group IN (
+    'kelompok_1', 'kelompok_2', 'kelompok_3', 'kelompok_4', 'building_permanent', 'building_non_permanent'
+  )),
+  depreciation_method TEXT NOT NULL CHECK (depreciation_method IN ('straight_line', 'declining_balance')),
+  useful_life_months INTEGER NOT NULL CHECK (useful_life_months > 0),
+  acquisition_date DATE NOT NULL,
+  depreciation_start_date DATE NOT NULL,
+  cost DECIMAL(18,2) NOT NULL CHECK (cost > 0),
+  salvage_value DECIMAL(18,2) NOT NULL DEFAULT 0 CHECK (salvage_value >= 0),
+  opening_accumulated_depreciation DECIMAL(18,2) NOT NULL DEFAULT 0 CHECK (opening_accumulated_depreciation >= 0),
+  accumulated_depreciation DECIMAL(18,2) NOT NULL DEFAULT 0,
+  purchase_invoice_id UUID REFERENCES purchase_invoices(id) ON DELETE SET NULL,
+  purchase_invoice_item_id UUID REFERENCES purchase_invoice_items(id) ON DELETE SET NULL,
+  finance_expense_id UUID REFERENCES finance_expenses(id) ON DELETE SET NULL,
+  location TEXT,
+  serial_number TEXT,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'fully_depreciated', 'disposed')),
+  disposal_date DATE,
+  disposal_proceeds DECIMAL(18,2),
+  disposal_gain_loss DECIMAL(18,2),
+  disposal_notes TEXT,
+  disposal_journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (salvage_value < cost),
+  CHECK (opening_accumulated_depreciation <= cost - salvage_value),
+  CHECK (depreciation_method = 'straight_line' OR fiscal_group NOT LIKE 'building%')
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_category ON fixed_assets(category_id);
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_status ON fixed_assets(status);
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_purchase_invoice_item ON fixed_assets(purchase_invoice_item_id);
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_expense ON fixed_assets(finance_expense_id);
+
+CREATE TABLE IF NOT EXISTS fixed_asset_depreciation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_end_date DATE NOT NULL UNIQUE,
+  total_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+  asset_count INTEGER NOT NULL DEFAULT 0,
+  journal_entry_id UUID REFERENCES journal_entries(id),
+  notes TEXT,
+  posted_by UUID REFERENCES user_profiles(id) DEFAULT auth.uid(),
+  posted_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS fixed_asset_depreciation_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES fixed_asset_depreciation_runs(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES fixed_assets(id) ON DELETE CASCADE,
+  period_end_date DATE NOT NULL,
+  amount DECIMAL(18,2) NOT NULL CHECK (amount > 0),
+  accumulated_after DECIMAL(18,2) NOT NULL,
+  book_value_after DECIMAL(18,2) NOT NULL,
+  UNIQUE (asset_id, period_end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixed_asset_depreciation_lines_run ON fixed_asset_depreciation_lines(run_id);
+
+INSERT INTO fixed_asset_categories (code, name, fiscal_group, depreciation_method, useful_life_months, asset_account_id, accumulated_account_id, expense_account_id)
+SELECT v.code, v.name, v.fiscal_group, v.method, v.life, a.id, acc.id, exp.id
+FROM (
+  VALUES
+    ('OFFICE', 'Office Equipment & Computers', 'kelompok_1', 'straight_line', 48, '1230', '1231'),
+    ('WAREHOUSE', 'Warehouse Equipment', 'kelompok_2', 'straight_line', 96, '1201', '1202'),
+    ('VEHICLE', 'Vehicles', 'kelompok_2', 'declining_balance', 96, '1210', '1211'),
+    ('BUILDING', 'Buildings (Permanent)', 'building_permanent', 'straight_line', 240, '1220', '1221')
+) AS v(code, name, fiscal_group, method, life, asset_code, accumulated_code)
+JOIN chart_of_accounts a ON a.code = v.asset_code
+JOIN chart_of_accounts acc ON acc.code = v.accumulated_code
+JOIN chart_of_accounts exp ON exp.code = '6800'
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE fixed_asset_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_asset_depreciation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_asset_depreciation_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Finance roles can view fixed asset categories" ON fixed_asset_categories;
+CREATE POLICY "Finance roles can view fixed asset categories"
+  ON fixed_asset_categories FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Finance roles can manage fixed asset categories" ON fixed_asset_categories;
+CREATE POLICY "Finance roles can manage fixed asset categories"
+  ON fixed_asset_categories FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  );
+
+DROP POLICY IF EXISTS "Finance roles can view fixed assets" ON fixed_assets;
+CREATE POLICY "Finance roles can view fixed assets"
+  ON fixed_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Finance roles can manage fixed assets" ON fixed_assets;
+CREATE POLICY "Finance roles can manage fixed assets"
+  ON fixed_assets FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts'))
+  );
+
+-- Written only through post_fixed_asset_depreciation() / cancel_fixed_asset_depreciation()
+DROP POLICY IF EXISTS "Finance roles can view depreciation runs" ON fixed_asset_depreciation_runs;
+CREATE POLICY "Finance roles can view depreciation runs"
+  ON fixed_asset_depreciation_runs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Finance roles can view depreciation lines" ON fixed_asset_depreciation_lines;
+CREATE POLICY "Finance roles can view depreciation lines"
+  ON fixed_asset_depreciation_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'auditor_ca'))
+  );
+
+-- ============================================
+-- 4. NUMBERING AND AUDIT
+-- ============================================
+
+INSERT INTO document_number_settings (doc_type, label, prefix, padding, start_number, table_name, column_name)
+VALUES ('fixed_asset', 'Fixed Asset', 'FA', 4, 1, 'fixed_assets', 'asset_code')
+ON CONFLICT (doc_type) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trg_assign_document_number ON fixed_assets;
+CREATE TRIGGER trg_assign_document_number BEFORE INSERT ON fixed_assets
+  FOR EACH ROW EXECUTE FUNCTION trg_assign_document_number('fixed_asset', 'asset_code');
+
+DROP TRIGGER IF EXISTS trg_record_deleted_document_number ON fixed_assets;
+CREATE TRIGGER trg_record_deleted_document_number AFTER DELETE ON fixed_assets
+  FOR EACH ROW EXECUTE FUNCTION trg_record_deleted_document_number('fixed_asset', 'asset_code');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON fixed_assets;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON fixed_assets
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON fixed_asset_depreciation_runs;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON fixed_asset_depreciation_runs
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+-- Accumulated depreciation follows the opening figure until the first run; once depreciated or
+-- disposed, the figures that drove the journals stay fixed
+CREATE OR REPLACE FUNCTION trg_fixed_asset_guard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.accumulated_depreciation := NEW.opening_accumulated_depreciation;
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM fixed_asset_depreciation_lines WHERE asset_id = OLD.id) OR OLD.status = 'disposed' THEN
+    IF NEW.cost IS DISTINCT FROM OLD.cost
+      OR NEW.salvage_value IS DISTINCT FROM OLD.salvage_value
+      OR NEW.opening_accumulated_depreciation IS DISTINCT FROM OLD.opening_accumulated_depreciation
+      OR NEW.depreciation_start_date IS DISTINCT FROM OLD.depreciation_start_date
+      OR NEW.category_id IS DISTINCT FROM OLD.category_id
+    THEN
+      RAISE EXCEPTION 'Asset % has posted depreciation or a disposal; cost, start date and category can no longer change',
+        OLD.asset_code;
+    END IF;
+  ELSE
+    NEW.accumulated_depreciation := NEW.opening_accumulated_depreciation;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_fixed_asset_guard ON fixed_assets;
+CREATE TRIGGER trg_fixed_asset_guard
+  BEFORE INSERT OR UPDATE ON fixed_assets
+  FOR EACH ROW EXECUTE FUNCTION trg_fixed_asset_guard();
+
+CREATE OR REPLACE FUNCTION trg_fixed_asset_block_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM fixed_asset_depreciation_lines WHERE asset_id = OLD.id) OR OLD.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset % has posted depreciation or a disposal and cannot be deleted', OLD.asset_code;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_fixed_asset_block_delete ON fixed_assets;
+CREATE TRIGGER trg_fixed_asset_block_delete
+  BEFORE DELETE ON fixed_assets
+  FOR EACH ROW EXECUTE FUNCTION trg_fixed_asset_block_delete();
+
+-- ============================================
+-- 5. DEPRECIATION
+-- ============================================
+
+-- Charge for one asset in the month ending p_period_end, before any run for that month
+CREATE OR REPLACE FUNCTION fixed_asset_monthly_depreciation(p_asset_id UUID, p_period_end DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_asset fixed_assets%ROWTYPE;
+  v_month_index INTEGER;
+  v_depreciable NUMERIC;
+  v_remaining NUMERIC;
+  v_year_start_value NUMERIC;
+  v_charge NUMERIC;
+BEGIN
+  SELECT * INTO v_asset FROM fixed_assets WHERE id = p_asset_id;
+  IF NOT FOUND OR v_asset.status = 'disposed' THEN
+    RETURN 0;
+  END IF;
+
+  -- 0 in the month depreciation starts
+  v_month_index := (EXTRACT(YEAR FROM p_period_end) * 12 + EXTRACT(MONTH FROM p_period_end))::INTEGER
+    - (EXTRACT(YEAR FROM v_asset.depreciation_start_date) * 12 + EXTRACT(MONTH FROM v_asset.depreciation_start_date))::INTEGER;
+  IF v_month_index < 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_depreciable := v_asset.cost - v_asset.salvage_value;
+  v_remaining := v_depreciable - v_asset.accumulated_depreciation;
+  IF v_remaining <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF v_month_index >= v_asset.useful_life_months - 1 THEN
+    RETURN ROUND(v_remaining, 2);
+  END IF;
+
+  IF v_asset.depreciation_method = 'straight_line' THEN
+    v_charge := v_depreciable / v_asset.useful_life_months;
+  ELSE
+    SELECT v_asset.cost - v_asset.opening_accumulated_depreciation - COALESCE(SUM(l.amount), 0)
+    INTO v_year_start_value
+    FROM fixed_asset_depreciation_lines l
+    WHERE l.asset_id = p_asset_id
+      AND l.period_end_date < date_trunc('year', p_period_end)::DATE;
+
+    v_charge := v_year_start_value * (24.0 / v_asset.useful_life_months) / 12;
+  END IF;
+
+  RETURN ROUND(LEAST(v_charge, v_remaining), 2);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION preview_fixed_asset_depreciation(p_period_end DATE)
+RETURNS TABLE (
+  asset_id UUID,
+  asset_code TEXT,
+  asset_name TEXT,
+  category_name TEXT,
+  depreciation_method TEXT,
+  cost NUMERIC,
+  accumulated_before NUMERIC,
+  amount NUMERIC,
+  book_value_after NUMERIC,
+  expense_account_id UUID,
+  accumulated_account_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    fa.id,
+    fa.asset_code,
+    fa.asset_name,
+    c.name,
+    fa.depreciation_method,
+    fa.cost,
+    fa.accumulated_depreciation,
+    d.amount,
+    fa.cost - fa.accumulated_depreciation - d.amount,
+    c.expense_account_id,
+    c.accumulated_account_id
+  FROM fixed_assets fa
+  JOIN fixed_asset_categories c ON c.id = fa.category_id
+  CROSS JOIN LATERAL (SELECT fixed_asset_monthly_depreciation(fa.id, p_period_end) AS amount) d
+  WHERE fa.status = 'active'
+    AND fa.depreciation_start_date <= p_period_end
+    AND NOT EXISTS (
+      SELECT 1 FROM fixed_asset_depreciation_lines l
+      WHERE l.asset_id = fa.id AND l.period_end_date = p_period_end
+    )
+    AND d.amount > 0
+  ORDER BY fa.asset_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_fixed_asset_depreciation(p_period_end DATE, p_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_total NUMERIC;
+  v_count INTEGER;
+  v_je_id UUID;
+  v_reference TEXT := 'DEP-' || to_char(p_period_end, 'YYYYMM');
+  v_line_number INTEGER := 0;
+  v_line RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts can post depreciation';
+  END IF;
+
+  IF p_period_end <> (date_trunc('month', p_period_end) + INTERVAL '1 month - 1 day')::DATE THEN
+    RAISE EXCEPTION 'Depreciation date must be the last day of a month';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM fixed_asset_depreciation_runs WHERE period_end_date >= p_period_end) THEN
+    RAISE EXCEPTION 'Depreciation is already posted for % or a later month', to_char(p_period_end, 'Mon YYYY');
+  END IF;
+
+  CREATE TEMP TABLE tmp_depreciation ON COMMIT DROP AS
+  SELECT * FROM preview_fixed_asset_depreciation(p_period_end);
+
+  SELECT COALESCE(SUM(amount), 0), COUNT(*) INTO v_total, v_count FROM tmp_depreciation;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'No depreciation to post for %', to_char(p_period_end, 'Mon YYYY');
+  END IF;
+
+  INSERT INTO fixed_asset_depreciation_runs (period_end_date, total_amount, asset_count, notes)
+  VALUES (p_period_end, v_total, v_count, NULLIF(TRIM(p_notes), ''))
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO fixed_asset_depreciation_lines (run_id, asset_id, period_end_date, amount, accumulated_after, book_value_after)
+  SELECT v_run_id, t.asset_id, p_period_end, t.amount, t.accumulated_before + t.amount, t.book_value_after
+  FROM tmp_depreciation t;
+
+  UPDATE fixed_assets fa
+  SET accumulated_depreciation = fa.accumulated_depreciation + t.amount,
+      status = CASE WHEN fa.accumulated_depreciation + t.amount >= fa.cost - fa.salvage_value THEN 'fully_depreciated' ELSE fa.status END,
+      updated_at = now()
+  FROM tmp_depreciation t
+  WHERE fa.id = t.asset_id;
+
+  v_je_id := gen_random_uuid();
+  INSERT INTO journal_entries (
+    id, entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by, created_by
+  ) VALUES (
+    v_je_id, next_journal_entry_number(), p_period_end, 'fixed_asset_depreciation', v_run_id, v_reference,
+    'Depreciation for ' || to_char(p_period_end, 'FMMonth YYYY') || ' (' || v_count || ' assets)',
+    v_total, v_total, true, auth.uid(), auth.uid()
+  );
+
+  -- One debit per expense account and one credit per accumulated depreciation account
+  FOR v_line IN
+    SELECT expense_account_id AS account_id, SUM(amount) AS debit, 0::NUMERIC AS credit, 1 AS side
+    FROM tmp_depreciation GROUP BY expense_account_id
+    UNION ALL
+    SELECT accumulated_account_id, 0, SUM(amount), 2
+    FROM tmp_depreciation GROUP BY accumulated_account_id
+    ORDER BY side
+  LOOP
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (
+      v_je_id, v_line_number, v_line.account_id,
+      CASE WHEN v_line.side = 1 THEN 'Depreciation expense ' ELSE 'Accumulated depreciation ' END || to_char(p_period_end, 'Mon YYYY'),
+      v_line.debit, v_line.credit
+    );
+  END LOOP;
+
+  UPDATE fixed_asset_depreciation_runs SET journal_entry_id = v_je_id WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_fixed_asset_depreciation(p_run_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run fixed_asset_depreciation_runs%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts can cancel depreciation';
+  END IF;
+
+  SELECT * INTO v_run FROM fixed_asset_depreciation_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Depreciation run not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM fixed_asset_depreciation_runs WHERE period_end_date > v_run.period_end_date) THEN
+    RAISE EXCEPTION 'Cancel the later depreciation runs first';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM fixed_asset_depreciation_lines l
+    JOIN fixed_assets fa ON fa.id = l.asset_id
+    WHERE l.run_id = p_run_id AND fa.status = 'disposed'
+  ) THEN
+    RAISE EXCEPTION 'An asset in this run has since been disposed; cancel the disposal first';
+  END IF;
+
+  UPDATE fixed_assets fa
+  SET accumulated_depreciation = fa.accumulated_depreciation - l.amount,
+      status = 'active',
+      updated_at = now()
+  FROM fixed_asset_depreciation_lines l
+  WHERE l.run_id = p_run_id AND fa.id = l.asset_id;
+
+  -- Period lock triggers on journal lines refuse this once the month is closed
+  UPDATE fixed_asset_depreciation_runs SET journal_entry_id = NULL WHERE id = p_run_id;
+  DELETE FROM journal_entries WHERE id = v_run.journal_entry_id;
+  DELETE FROM fixed_asset_depreciation_runs WHERE id = p_run_id;
+END;
+$$;
+
+-- ============================================
+-- 6. DISPOSAL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION dispose_fixed_asset(
+  p_asset_id UUID,
+  p_disposal_date DATE,
+  p_proceeds NUMERIC DEFAULT 0,
+  p_proceeds_account_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_asset fixed_assets%ROWTYPE;
+  v_category fixed_asset_categories%ROWTYPE;
+  v_proceeds NUMERIC := COALESCE(p_proceeds, 0);
+  v_proceeds_account_id UUID := p_proceeds_account_id;
+  v_gain_account_id UUID;
+  v_loss_account_id UUID;
+  v_book_value NUMERIC;
+  v_gain_loss NUMERIC;
+  v_total NUMERIC;
+  v_je_id UUID;
+  v_line_number INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts can dispose of assets';
+  END IF;
+
+  SELECT * INTO v_asset FROM fixed_assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+  IF v_asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Asset % is already disposed', v_asset.asset_code;
+  END IF;
+  IF p_disposal_date < v_asset.acquisition_date THEN
+    RAISE EXCEPTION 'Disposal date is before the acquisition date';
+  END IF;
+  IF v_proceeds < 0 THEN
+    RAISE EXCEPTION 'Proceeds cannot be negative';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM fixed_asset_depreciation_lines
+    WHERE asset_id = p_asset_id
+      AND period_end_date > (date_trunc('month', p_disposal_date) + INTERVAL '1 month - 1 day')::DATE
+  ) THEN
+    RAISE EXCEPTION 'Asset % has depreciation posted after the disposal month; cancel those runs first', v_asset.asset_code;
+  END IF;
+
+  SELECT * INTO v_category FROM fixed_asset_categories WHERE id = v_asset.category_id;
+
+  IF v_proceeds > 0 AND v_proceeds_account_id IS NULL THEN
+    SELECT id INTO v_proceeds_account_id FROM chart_of_accounts WHERE code = '1101' LIMIT 1;
+  END IF;
+  SELECT id INTO v_gain_account_id FROM chart_of_accounts WHERE code = '4930' LIMIT 1;
+  SELECT id INTO v_loss_account_id FROM chart_of_accounts WHERE code = '7400' LIMIT 1;
+  IF v_gain_account_id IS NULL OR v_loss_account_id IS NULL THEN
+    RAISE EXCEPTION 'Accounts 4930 Gain on Disposal and 7400 Loss on Disposal must exist';
+  END IF;
+
+  v_book_value := v_asset.cost - v_asset.accumulated_depreciation;
+  v_gain_loss := ROUND(v_proceeds - v_book_value, 2);
+  v_total := v_asset.cost + GREATEST(v_gain_loss, 0);
+
+  v_je_id := gen_random_uuid();
+  INSERT INTO journal_entries (
+    id, entry_number, entry_date, source_module, reference_id, reference_number,
+    description, total_debit, total_credit, is_posted, posted_by, created_by
+  ) VALUES (
+    v_je_id, next_journal_entry_number(), p_disposal_date, 'fixed_asset_disposal', p_asset_id, v_asset.asset_code,
+    'Disposal of ' || v_asset.asset_code || ' ' || v_asset.asset_name,
+    v_total, v_total, true, auth.uid(), auth.uid()
+  );
+
+  IF v_asset.accumulated_depreciation > 0 THEN
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (v_je_id, v_line_number, v_category.accumulated_account_id, 'Accumulated depreciation ' || v_asset.asset_code, v_asset.accumulated_depreciation, 0);
+  END IF;
+
+  IF v_proceeds > 0 THEN
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (v_je_id, v_line_number, v_proceeds_account_id, 'Disposal proceeds ' || v_asset.asset_code, v_proceeds, 0);
+  END IF;
+
+  IF v_gain_loss < 0 THEN
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (v_je_id, v_line_number, v_loss_account_id, 'Loss on disposal ' || v_asset.asset_code, -v_gain_loss, 0);
+  END IF;
+
+  v_line_number := v_line_number + 1;
+  INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+  VALUES (v_je_id, v_line_number, v_category.asset_account_id, 'Cost ' || v_asset.asset_code, 0, v_asset.cost);
+
+  IF v_gain_loss > 0 THEN
+    v_line_number := v_line_number + 1;
+    INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit, credit)
+    VALUES (v_je_id, v_line_number, v_gain_account_id, 'Gain on disposal ' || v_asset.asset_code, 0, v_gain_loss);
+  END IF;
+
+  UPDATE fixed_assets
+  SET status = 'disposed',
+      disposal_date = p_disposal_date,
+      disposal_proceeds = v_proceeds,
+      disposal_gain_loss = v_gain_loss,
+      disposal_notes = NULLIF(TRIM(p_notes), ''),
+      disposal_journal_entry_id = v_je_id
+  WHERE id = p_asset_id;
+
+  RETURN v_gain_loss;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_fixed_asset_disposal(p_asset_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_asset fixed_assets%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts')
+  ) THEN
+    RAISE EXCEPTION 'Only admin or accounts can cancel a disposal';
+  END IF;
+
+  SELECT * INTO v_asset FROM fixed_assets WHERE id = p_asset_id FOR UPDATE;
+  IF NOT FOUND OR v_asset.status <> 'disposed' THEN
+    RAISE EXCEPTION 'Asset is not disposed';
+  END IF;
+
+  UPDATE fixed_assets
+  SET status = CASE WHEN accumulated_depreciation >= cost - salvage_value THEN 'fully_depreciated' ELSE 'active' END,
+      disposal_date = NULL,
+      disposal_proceeds = NULL,
+      disposal_gain_loss = NULL,
+      disposal_notes = NULL,
+      disposal_journal_entry_id = NULL
+  WHERE id = p_asset_id;
+
+  -- Period lock triggers on journal lines refuse this once the month is closed
+  DELETE FROM journal_entries WHERE id = v_asset.disposal_journal_entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fixed_asset_monthly_depreciation(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_fixed_asset_depreciation(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_fixed_asset_depreciation(DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_fixed_asset_depreciation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION dispose_fixed_asset(UUID, DATE, NUMERIC, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_fixed_asset_disposal(UUID) TO authenticated;
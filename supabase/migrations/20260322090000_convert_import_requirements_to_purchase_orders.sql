@@ -0,0 +1,387 @@
+/*
+  # Import Requirements to Purchase Orders
+
+  1. Problem
+    - Shortages land in `import_requirements` but have to be retyped into Purchase Orders
+    - `product_sources` only records who can supply a product, not who is preferred or in what
+      pack size / minimum order quantity
+    - Requirement status is set by hand and drifts from the PO and GRN it was ordered on
+
+  2. Changes
+    - `product_sources`: `is_preferred` (one per product), `pack_size`, `moq`, `lead_time_days`
+    - `import_requirements.purchase_order_id` - the PO the shortage was ordered on
+    - `preview_purchase_orders_from_requirements()` groups pending requirements by supplier and
+      product. The supplier is the requirement's own supplier, else the preferred source, else
+      the only source linked to a supplier (sources are matched to suppliers by name when they
+      have no supplier_id). Quantity is the summed shortage raised to the MOQ, then rounded up
+      to whole packs. Price and currency come from the last PO line for that supplier and product
+    - `create_purchase_orders_from_requirements()` creates one draft PO per supplier from the
+      preview and links the requirements (status `ordered`)
+    - `sync_import_requirements_from_po()` keeps requirement status in line with the PO:
+      * GRN receipts are allocated to the PO's requirements by required delivery date:
+        `ordered` -> `partially_received` -> `received`
+      * Cancelling or deleting the PO puts its requirements back to `pending`
+      * Once the PO leaves draft, requirements whose product was taken off it go back to `pending`
+*/
+
+-- ============================================
+-- 1. SOURCING TERMS
+-- ============================================
+
+ALTER TABLE product_sources
+  ADD COLUMN IF NOT EXISTS is_preferred BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pack_size NUMERIC(15,3) CHECK (pack_size IS NULL OR pack_size > 0),
+  ADD COLUMN IF NOT EXISTS moq NUMERIC(15,3) CHECK (moq IS NULL OR moq > 0),
+  ADD COLUMN IF NOT EXISTS lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_sources_one_preferred
+  ON product_sources(product_id) WHERE is_preferred;
+
+ALTER TABLE import_requirements
+  ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_import_requirements_purchase_order ON import_requirements(purchase_order_id);
+
+-- ============================================
+-- 2. PREVIEW
+-- ============================================
+
+CREATE OR REPLACE FUNCTION preview_purchase_orders_from_requirements(p_requirement_ids UUID[])
+RETURNS TABLE (
+  supplier_id UUID,
+  supplier_name TEXT,
+  currency TEXT,
+  product_id UUID,
+  product_name TEXT,
+  unit TEXT,
+  requirement_ids UUID[],
+  shortage_quantity NUMERIC,
+  moq NUMERIC,
+  pack_size NUMERIC,
+  order_quantity NUMERIC,
+  unit_price NUMERIC,
+  lead_time_days INTEGER,
+  expected_delivery_date DATE,
+  issue TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH reqs AS (
+    SELECT ir.*
+    FROM import_requirements ir
+    WHERE ir.id = ANY(p_requirement_ids)
+      AND ir.status = 'pending'
+      AND ir.purchase_order_id IS NULL
+  ),
+  sources AS (
+    SELECT
+      ps.product_id,
+      COALESCE(ps.supplier_id, s.id) AS supplier_id,
+      ps.is_preferred,
+      ps.pack_size,
+      ps.moq,
+      ps.lead_time_days,
+      ps.created_at
+    FROM product_sources ps
+    LEFT JOIN LATERAL (
+      SELECT sup.id FROM suppliers sup
+      WHERE ps.supplier_id IS NULL
+        AND LOWER(TRIM(sup.company_name)) = LOWER(TRIM(ps.supplier_name))
+      ORDER BY sup.created_at
+      LIMIT 1
+    ) s ON true
+    WHERE ps.product_id IN (SELECT reqs.product_id FROM reqs)
+  ),
+  resolved AS (
+    SELECT
+      r.id,
+      r.product_id,
+      r.shortage_quantity,
+      r.required_delivery_date,
+      COALESCE(
+        r.supplier_id,
+        (SELECT so.supplier_id FROM sources so
+         WHERE so.product_id = r.product_id AND so.is_preferred AND so.supplier_id IS NOT NULL),
+        (SELECT MIN(so.supplier_id::TEXT)::UUID FROM sources so
+         WHERE so.product_id = r.product_id AND so.supplier_id IS NOT NULL
+         HAVING COUNT(DISTINCT so.supplier_id) = 1)
+      ) AS supplier_id
+    FROM reqs r
+  ),
+  grouped AS (
+    SELECT
+      rs.supplier_id,
+      rs.product_id,
+      ARRAY_AGG(rs.id ORDER BY rs.required_delivery_date) AS requirement_ids,
+      SUM(rs.shortage_quantity) AS shortage_quantity,
+      MIN(rs.required_delivery_date) AS expected_delivery_date
+    FROM resolved rs
+    GROUP BY rs.supplier_id, rs.product_id
+  )
+  SELECT
+    g.supplier_id,
+    sup.company_name::TEXT,
+    COALESCE(last_po.currency, 'IDR')::TEXT,
+    g.product_id,
+    p.product_name::TEXT,
+    p.unit::TEXT,
+    g.requirement_ids,
+    g.shortage_quantity,
+    src.moq,
+    src.pack_size,
+    CASE
+      WHEN src.pack_size IS NOT NULL
+        THEN CEIL(GREATEST(g.shortage_quantity, COALESCE(src.moq, 0)) / src.pack_size) * src.pack_size
+      ELSE GREATEST(g.shortage_quantity, COALESCE(src.moq, 0))
+    END,
+    COALESCE(last_po.unit_price, 0),
+    src.lead_time_days,
+    g.expected_delivery_date,
+    CASE WHEN g.supplier_id IS NULL
+      THEN 'No preferred supplier - mark one on the product''s sources or set the supplier on the requirement'
+    END
+  FROM grouped g
+  JOIN products p ON p.id = g.product_id
+  LEFT JOIN suppliers sup ON sup.id = g.supplier_id
+  LEFT JOIN LATERAL (
+    SELECT so.pack_size, so.moq, so.lead_time_days
+    FROM sources so
+    WHERE so.product_id = g.product_id AND so.supplier_id = g.supplier_id
+    ORDER BY so.is_preferred DESC, so.created_at
+    LIMIT 1
+  ) src ON true
+  LEFT JOIN LATERAL (
+    SELECT po.currency, poi.unit_price
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.po_id
+    WHERE po.supplier_id = g.supplier_id
+      AND poi.product_id = g.product_id
+      AND po.status <> 'cancelled'
+    ORDER BY po.po_date DESC, po.created_at DESC
+    LIMIT 1
+  ) last_po ON true
+  ORDER BY sup.company_name NULLS LAST, p.product_name;
+END;
+$$;
+
+-- ============================================
+-- 3. CREATE DRAFT PURCHASE ORDERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION create_purchase_orders_from_requirements(p_requirement_ids UUID[])
+RETURNS TABLE (po_id UUID, po_number TEXT, supplier_name TEXT, line_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group RECORD;
+  v_line RECORD;
+  v_po_id UUID;
+  v_po_number TEXT;
+  v_line_number INTEGER;
+  v_subtotal NUMERIC;
+BEGIN
+  IF is_read_only_user() THEN
+    RAISE EXCEPTION 'Read-only users cannot create purchase orders';
+  END IF;
+
+  -- Lock the requirements so two people cannot order the same shortage
+  PERFORM 1 FROM import_requirements
+  WHERE id = ANY(p_requirement_ids) AND status = 'pending' AND purchase_order_id IS NULL
+  FOR UPDATE;
+
+  CREATE TEMP TABLE tmp_requirement_lines ON COMMIT DROP AS
+  SELECT * FROM preview_purchase_orders_from_requirements(p_requirement_ids)
+  WHERE issue IS NULL;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_requirement_lines) THEN
+    RAISE EXCEPTION 'None of the selected requirements can be ordered: they are already ordered or have no supplier';
+  END IF;
+
+  FOR v_group IN
+    SELECT t.supplier_id, MIN(t.currency) AS currency, MIN(t.expected_delivery_date) AS expected_delivery_date
+    FROM tmp_requirement_lines t
+    GROUP BY t.supplier_id
+  LOOP
+    INSERT INTO purchase_orders (
+      supplier_id, po_date, expected_delivery_date, currency, exchange_rate, status, notes, created_by
+    ) VALUES (
+      v_group.supplier_id,
+      CURRENT_DATE,
+      v_group.expected_delivery_date,
+      v_group.currency,
+      CASE WHEN v_group.currency = 'IDR' THEN 1 ELSE COALESCE(get_exchange_rate(v_group.currency), 1) END,
+      'draft',
+      'Created from import requirements: ' || (
+        SELECT string_agg(DISTINCT so.so_number, ', ')
+        FROM tmp_requirement_lines t
+        CROSS JOIN LATERAL unnest(t.requirement_ids) AS rid
+        JOIN import_requirements ir ON ir.id = rid
+        JOIN sales_orders so ON so.id = ir.sales_order_id
+        WHERE t.supplier_id = v_group.supplier_id
+      ),
+      auth.uid()
+    )
+    RETURNING id, purchase_orders.po_number INTO v_po_id, v_po_number;
+
+    v_line_number := 0;
+    v_subtotal := 0;
+    FOR v_line IN
+      SELECT * FROM tmp_requirement_lines t
+      WHERE t.supplier_id = v_group.supplier_id
+      ORDER BY t.product_name
+    LOOP
+      v_line_number := v_line_number + 1;
+      INSERT INTO purchase_order_items (
+        po_id, line_number, product_id, description, quantity, unit, unit_price, line_total, notes
+      ) VALUES (
+        v_po_id, v_line_number, v_line.product_id, v_line.product_name, v_line.order_quantity, v_line.unit,
+        v_line.unit_price, ROUND(v_line.order_quantity * v_line.unit_price, 2),
+        CASE WHEN v_line.order_quantity > v_line.shortage_quantity
+          THEN 'Shortage ' || v_line.shortage_quantity || ' rounded to MOQ / pack size'
+        END
+      );
+      v_subtotal := v_subtotal + ROUND(v_line.order_quantity * v_line.unit_price, 2);
+
+      UPDATE import_requirements
+      SET purchase_order_id = v_po_id,
+          supplier_id = v_group.supplier_id,
+          lead_time_days = COALESCE(v_line.lead_time_days, lead_time_days),
+          status = 'ordered'
+      WHERE id = ANY(v_line.requirement_ids);
+    END LOOP;
+
+    UPDATE purchase_orders SET subtotal = v_subtotal, total_amount = v_subtotal WHERE id = v_po_id;
+
+    po_id := v_po_id;
+    po_number := v_po_number;
+    supplier_name := (SELECT company_name FROM suppliers WHERE id = v_group.supplier_id);
+    line_count := v_line_number;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- ============================================
+-- 4. STATUS FOLLOWS THE PO AND GRN
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_import_requirements_from_po(p_po_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM purchase_orders WHERE id = p_po_id;
+
+  IF v_status IS NULL OR v_status = 'cancelled' THEN
+    UPDATE import_requirements
+    SET status = 'pending', purchase_order_id = NULL
+    WHERE purchase_order_id = p_po_id AND status <> 'cancelled';
+    RETURN;
+  END IF;
+
+  -- Draft lines are deleted and re-inserted on every save, so only drop products once the PO is final
+  IF v_status <> 'draft' THEN
+    UPDATE import_requirements ir
+    SET status = 'pending', purchase_order_id = NULL
+    WHERE ir.purchase_order_id = p_po_id
+      AND ir.status <> 'cancelled'
+      AND NOT EXISTS (
+        SELECT 1 FROM purchase_order_items poi
+        WHERE poi.po_id = p_po_id AND poi.product_id = ir.product_id
+      );
+  END IF;
+
+  -- Receipts fill the earliest-needed requirement first
+  WITH received AS (
+    SELECT poi.product_id, SUM(poi.quantity_received) AS quantity
+    FROM purchase_order_items poi
+    WHERE poi.po_id = p_po_id AND poi.product_id IS NOT NULL
+    GROUP BY poi.product_id
+  ),
+  allocation AS (
+    SELECT
+      ir.id,
+      ir.shortage_quantity,
+      r.quantity AS received,
+      SUM(ir.shortage_quantity) OVER (
+        PARTITION BY ir.product_id ORDER BY ir.required_delivery_date, ir.created_at, ir.id
+      ) AS running_total
+    FROM import_requirements ir
+    JOIN received r ON r.product_id = ir.product_id
+    WHERE ir.purchase_order_id = p_po_id AND ir.status <> 'cancelled'
+  )
+  UPDATE import_requirements ir
+  SET status = (CASE
+    WHEN a.received >= a.running_total THEN 'received'
+    WHEN a.received > a.running_total - a.shortage_quantity THEN 'partially_received'
+    ELSE 'ordered'
+  END)::import_status
+  FROM allocation a
+  WHERE ir.id = a.id
+    AND ir.status IS DISTINCT FROM (CASE
+      WHEN a.received >= a.running_total THEN 'received'
+      WHEN a.received > a.running_total - a.shortage_quantity THEN 'partially_received'
+      ELSE 'ordered'
+    END)::import_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_sync_import_requirements_from_po()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'purchase_order_items' THEN
+    PERFORM sync_import_requirements_from_po(NEW.po_id);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    UPDATE import_requirements
+    SET status = 'pending', purchase_order_id = NULL
+    WHERE purchase_order_id = OLD.id AND status <> 'cancelled';
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM sync_import_requirements_from_po(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_import_requirements_on_receipt ON purchase_order_items;
+CREATE TRIGGER trg_sync_import_requirements_on_receipt
+  AFTER UPDATE OF quantity_received ON purchase_order_items
+  FOR EACH ROW
+  WHEN (NEW.quantity_received IS DISTINCT FROM OLD.quantity_received)
+  EXECUTE FUNCTION trg_sync_import_requirements_from_po();
+
+DROP TRIGGER IF EXISTS trg_sync_import_requirements_on_po_status ON purchase_orders;
+CREATE TRIGGER trg_sync_import_requirements_on_po_status
+  AFTER UPDATE OF status ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_sync_import_requirements_from_po();
+
+DROP TRIGGER IF EXISTS trg_release_import_requirements_on_po_delete ON purchase_orders;
+CREATE TRIGGER trg_release_import_requirements_on_po_delete
+  BEFORE DELETE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_sync_import_requirements_from_po();
+
+GRANT EXECUTE ON FUNCTION preview_purchase_orders_from_requirements(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_purchase_orders_from_requirements(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION sync_import_requirements_from_po(UUID) TO authenticated;
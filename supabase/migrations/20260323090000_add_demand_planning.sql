@@ -0,0 +1,499 @@
+/*
+  # Demand Forecasting and Reorder Points
+
+  1. Problem
+    - Reorder decisions are made in spreadsheets; `products.min_stock_level` is a static number
+      that nobody revisits when demand or supplier lead times change
+    - There is no single view of stock on hand, open sales order demand and POs in transit
+      against expected consumption
+
+  2. Changes
+    - `product_planning_settings`: per-product service level, lead time override and review period
+    - `get_demand_forecast()` per active product:
+      * Monthly demand = approved/pending Delivery Challan lines by challan date, plus invoice lines
+        that were invoiced directly (no DC behind them) by invoice date
+      * Average and standard deviation over the last 12 complete months; seasonal index per
+        calendar month from the whole history window (flat when under 24 months of history)
+      * Lead time: the override, else the preferred source, else the average on import
+        requirements, else 30 days. Supplier: the preferred source, else the last PO
+      * Safety stock = z(service level) x sigma x sqrt(lead time / 30)
+      * Reorder point = seasonal demand over the lead time + safety stock
+      * Suggested order brings the position (on hand - open SO + open PO) up to the reorder point
+        plus one review period of demand, raised to the MOQ and rounded up to whole packs
+    - `get_purchase_plan()` projects stock month by month: opening, demand (the greater of the
+      forecast and open SO lines due that month), PO receipts by expected delivery date, closing,
+      and the projected stock-out date
+    - `apply_reorder_points()` writes the computed reorder points into `products.min_stock_level`
+*/
+
+-- ============================================
+-- 1. PLANNING SETTINGS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS product_planning_settings (
+  product_id UUID PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+  service_level NUMERIC(4,3) NOT NULL DEFAULT 0.95
+    CHECK (service_level IN (0.90, 0.95, 0.975, 0.98, 0.99)),
+  lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  review_period_days INTEGER NOT NULL DEFAULT 30 CHECK (review_period_days > 0),
+  notes TEXT,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE product_planning_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Planning roles can view planning settings" ON product_planning_settings;
+CREATE POLICY "Planning roles can view planning settings"
+  ON product_planning_settings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'sales', 'warehouse', 'accounts'))
+  );
+
+DROP POLICY IF EXISTS "Planning roles can manage planning settings" ON product_planning_settings;
+CREATE POLICY "Planning roles can manage planning settings"
+  ON product_planning_settings FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'sales', 'warehouse'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'sales', 'warehouse'))
+  );
+
+DROP TRIGGER IF EXISTS trg_audit_log ON product_planning_settings;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON product_planning_settings
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+-- Normal-distribution z for the service levels allowed above
+CREATE OR REPLACE FUNCTION service_level_z(p_service_level NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_service_level >= 0.99 THEN 2.326
+    WHEN p_service_level >= 0.98 THEN 2.054
+    WHEN p_service_level >= 0.975 THEN 1.960
+    WHEN p_service_level >= 0.95 THEN 1.645
+    ELSE 1.282
+  END;
+$$;
+
+-- ============================================
+-- 2. SHIPMENT HISTORY
+-- ============================================
+
+-- Quantity shipped per product and month. Invoices raised against a DC are not counted again.
+CREATE OR REPLACE FUNCTION product_monthly_shipments(p_from DATE, p_to DATE)
+RETURNS TABLE (product_id UUID, month_start DATE, quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.product_id, s.month_start, SUM(s.quantity)
+  FROM (
+    SELECT dci.product_id, date_trunc('month', dc.challan_date)::DATE AS month_start, dci.quantity
+    FROM delivery_challan_items dci
+    JOIN delivery_challans dc ON dc.id = dci.challan_id
+    WHERE dc.approval_status <> 'rejected'
+      AND dc.challan_date BETWEEN p_from AND p_to
+
+    UNION ALL
+
+    SELECT sii.product_id, date_trunc('month', si.invoice_date)::DATE, sii.quantity
+    FROM sales_invoice_items sii
+    JOIN sales_invoices si ON si.id = sii.invoice_id
+    WHERE sii.delivery_challan_item_id IS NULL
+      AND COALESCE(array_length(si.linked_challan_ids, 1), 0) = 0
+      AND si.invoice_date BETWEEN p_from AND p_to
+  ) s
+  GROUP BY s.product_id, s.month_start;
+$$;
+
+-- ============================================
+-- 3. FORECAST AND REORDER POINTS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_demand_forecast(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_history_months INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_code TEXT,
+  product_name TEXT,
+  unit TEXT,
+  supplier_id UUID,
+  supplier_name TEXT,
+  lead_time_days INTEGER,
+  service_level NUMERIC,
+  review_period_days INTEGER,
+  avg_monthly_demand NUMERIC,
+  demand_std_dev NUMERIC,
+  seasonal_index NUMERIC[],
+  lead_time_demand NUMERIC,
+  safety_stock NUMERIC,
+  reorder_point NUMERIC,
+  min_stock_level NUMERIC,
+  on_hand NUMERIC,
+  open_so_demand NUMERIC,
+  open_po_quantity NUMERIC,
+  next_po_date DATE,
+  moq NUMERIC,
+  pack_size NUMERIC,
+  suggested_order_quantity NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      date_trunc('month', p_as_of)::DATE AS current_month,
+      (date_trunc('month', p_as_of) - make_interval(months => GREATEST(p_history_months, 1)))::DATE AS history_start
+  ),
+  months AS (
+    SELECT gs::DATE AS month_start
+    FROM bounds b,
+      generate_series(b.history_start, b.current_month - INTERVAL '1 month', INTERVAL '1 month') gs
+  ),
+  shipments AS (
+    SELECT sh.*
+    FROM bounds b,
+      product_monthly_shipments(b.history_start, b.current_month - 1) sh
+  ),
+  demand AS (
+    SELECT p.id AS product_id, m.month_start, COALESCE(sh.quantity, 0) AS quantity
+    FROM products p
+    CROSS JOIN months m
+    LEFT JOIN shipments sh ON sh.product_id = p.id AND sh.month_start = m.month_start
+    WHERE p.is_active = true
+  ),
+  stats AS (
+    SELECT
+      d.product_id,
+      AVG(d.quantity) FILTER (WHERE d.month_start >= b.current_month - INTERVAL '12 months') AS avg_monthly,
+      COALESCE(STDDEV_SAMP(d.quantity) FILTER (WHERE d.month_start >= b.current_month - INTERVAL '12 months'), 0) AS std_dev,
+      AVG(d.quantity) AS avg_all
+    FROM demand d, bounds b
+    GROUP BY d.product_id
+  ),
+  seasonality AS (
+    SELECT
+      d.product_id,
+      ARRAY_AGG(
+        CASE
+          WHEN p_history_months < 24 OR st.avg_all = 0 THEN 1
+          ELSE ROUND(COALESCE(mo.avg_month, st.avg_all) / st.avg_all, 3)
+        END
+        ORDER BY cal.month_no
+      ) AS idx
+    FROM (SELECT DISTINCT demand.product_id FROM demand) d
+    CROSS JOIN generate_series(1, 12) AS cal(month_no)
+    JOIN stats st ON st.product_id = d.product_id
+    LEFT JOIN (
+      SELECT dm.product_id, EXTRACT(MONTH FROM dm.month_start)::INTEGER AS month_no, AVG(dm.quantity) AS avg_month
+      FROM demand dm
+      GROUP BY dm.product_id, EXTRACT(MONTH FROM dm.month_start)
+    ) mo ON mo.product_id = d.product_id AND mo.month_no = cal.month_no
+    GROUP BY d.product_id
+  ),
+  sources AS (
+    SELECT DISTINCT ON (ps.product_id)
+      ps.product_id,
+      COALESCE(ps.supplier_id, s.id) AS supplier_id,
+      ps.lead_time_days,
+      ps.moq,
+      ps.pack_size
+    FROM product_sources ps
+    LEFT JOIN LATERAL (
+      SELECT sup.id FROM suppliers sup
+      WHERE ps.supplier_id IS NULL
+        AND LOWER(TRIM(sup.company_name)) = LOWER(TRIM(ps.supplier_name))
+      ORDER BY sup.created_at
+      LIMIT 1
+    ) s ON true
+    WHERE ps.is_preferred
+    ORDER BY ps.product_id, ps.created_at
+  ),
+  planning AS (
+    SELECT
+      p.id AS product_id,
+      p.product_code,
+      p.product_name,
+      p.unit,
+      p.min_stock_level,
+      COALESCE(src.supplier_id, last_po.supplier_id) AS supplier_id,
+      COALESCE(
+        pps.lead_time_days,
+        src.lead_time_days,
+        (SELECT ROUND(AVG(ir.lead_time_days))::INTEGER FROM import_requirements ir
+         WHERE ir.product_id = p.id AND ir.lead_time_days IS NOT NULL),
+        30
+      ) AS lead_time_days,
+      COALESCE(pps.service_level, 0.95) AS service_level,
+      COALESCE(pps.review_period_days, 30) AS review_period_days,
+      src.moq,
+      src.pack_size
+    FROM products p
+    LEFT JOIN product_planning_settings pps ON pps.product_id = p.id
+    LEFT JOIN sources src ON src.product_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT po.supplier_id
+      FROM purchase_order_items poi
+      JOIN purchase_orders po ON po.id = poi.po_id
+      WHERE poi.product_id = p.id AND po.status <> 'cancelled'
+      ORDER BY po.po_date DESC, po.created_at DESC
+      LIMIT 1
+    ) last_po ON true
+    WHERE p.is_active = true
+  ),
+  stock AS (
+    SELECT b.product_id, SUM(b.current_stock) AS on_hand
+    FROM batches b
+    GROUP BY b.product_id
+  ),
+  open_so AS (
+    SELECT soi.product_id, SUM(GREATEST(soi.quantity - COALESCE(soi.delivered_quantity, 0), 0)) AS quantity
+    FROM sales_order_items soi
+    JOIN sales_orders so ON so.id = soi.sales_order_id
+    WHERE so.status IN ('approved', 'stock_reserved', 'shortage', 'pending_delivery', 'partially_delivered')
+      AND COALESCE(so.is_archived, false) = false
+    GROUP BY soi.product_id
+  ),
+  open_po AS (
+    SELECT poi.product_id, SUM(poi.quantity_pending) AS quantity, MIN(po.expected_delivery_date) AS next_date
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.po_id
+    WHERE po.status IN ('approved', 'partially_received')
+      AND poi.quantity_pending > 0
+    GROUP BY poi.product_id
+  ),
+  calculated AS (
+    SELECT
+      pl.*,
+      COALESCE(st.avg_monthly, 0) AS avg_monthly,
+      COALESCE(st.std_dev, 0) AS std_dev,
+      se.idx,
+      -- Seasonal demand from today until the end of the lead time
+      COALESCE(st.avg_monthly, 0) * pl.lead_time_days / 30.0 * (
+        SELECT AVG(se.idx[EXTRACT(MONTH FROM gs)::INTEGER])
+        FROM generate_series(date_trunc('month', p_as_of), p_as_of + pl.lead_time_days, INTERVAL '1 month') gs
+      ) AS lt_demand,
+      -- Demand over the review period that follows the lead time
+      COALESCE(st.avg_monthly, 0) * pl.review_period_days / 30.0
+        * se.idx[EXTRACT(MONTH FROM p_as_of + pl.lead_time_days)::INTEGER] AS review_demand,
+      service_level_z(pl.service_level) * COALESCE(st.std_dev, 0) * SQRT(pl.lead_time_days / 30.0) AS safety,
+      COALESCE(sk.on_hand, 0) AS on_hand,
+      COALESCE(so.quantity, 0) AS so_qty,
+      COALESCE(po.quantity, 0) AS po_qty,
+      po.next_date
+    FROM planning pl
+    LEFT JOIN stats st ON st.product_id = pl.product_id
+    LEFT JOIN seasonality se ON se.product_id = pl.product_id
+    LEFT JOIN stock sk ON sk.product_id = pl.product_id
+    LEFT JOIN open_so so ON so.product_id = pl.product_id
+    LEFT JOIN open_po po ON po.product_id = pl.product_id
+  ),
+  ordering AS (
+    SELECT
+      c.*,
+      CEIL(c.lt_demand + c.safety) AS rop,
+      CASE WHEN c.on_hand - c.so_qty + c.po_qty <= CEIL(c.lt_demand + c.safety)
+        THEN GREATEST(CEIL(c.lt_demand + c.safety + c.review_demand) - (c.on_hand - c.so_qty + c.po_qty), 0)
+        ELSE 0
+      END AS shortfall
+    FROM calculated c
+  )
+  SELECT
+    o.product_id,
+    o.product_code::TEXT,
+    o.product_name::TEXT,
+    o.unit::TEXT,
+    o.supplier_id,
+    sup.company_name::TEXT,
+    o.lead_time_days,
+    o.service_level,
+    o.review_period_days,
+    ROUND(o.avg_monthly, 2),
+    ROUND(o.std_dev, 2),
+    o.idx,
+    ROUND(o.lt_demand, 2),
+    CEIL(o.safety),
+    o.rop,
+    o.min_stock_level::NUMERIC,
+    o.on_hand,
+    o.so_qty,
+    o.po_qty,
+    o.next_date,
+    o.moq,
+    o.pack_size,
+    CASE
+      WHEN o.shortfall <= 0 THEN 0
+      WHEN o.pack_size IS NOT NULL
+        THEN CEIL(GREATEST(o.shortfall, COALESCE(o.moq, 0)) / o.pack_size) * o.pack_size
+      ELSE GREATEST(o.shortfall, COALESCE(o.moq, 0))
+    END
+  FROM ordering o
+  LEFT JOIN suppliers sup ON sup.id = o.supplier_id
+  WHERE o.avg_monthly > 0 OR o.on_hand > 0 OR o.so_qty > 0 OR o.po_qty > 0
+  ORDER BY o.product_name;
+$$;
+
+-- ============================================
+-- 4. MONTHLY PURCHASE PLAN
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_purchase_plan(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_months INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  product_id UUID,
+  month_start DATE,
+  opening_stock NUMERIC,
+  forecast_demand NUMERIC,
+  open_so_demand NUMERIC,
+  po_receipts NUMERIC,
+  closing_stock NUMERIC,
+  stock_out_date DATE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH horizon AS (
+    SELECT
+      gs::DATE AS month_start,
+      GREATEST(gs::DATE, p_as_of) AS period_start,
+      (gs + INTERVAL '1 month - 1 day')::DATE AS period_end,
+      gs::DATE = date_trunc('month', p_as_of)::DATE AS is_first
+    FROM generate_series(
+      date_trunc('month', p_as_of),
+      date_trunc('month', p_as_of) + make_interval(months => GREATEST(p_months, 1) - 1),
+      INTERVAL '1 month'
+    ) gs
+  ),
+  forecast AS (
+    SELECT * FROM get_demand_forecast(p_as_of)
+  ),
+  -- Overdue SO lines and POs fall into the first month
+  so_due AS (
+    SELECT
+      soi.product_id,
+      GREATEST(
+        date_trunc('month', COALESCE(soi.item_delivery_date, so.expected_delivery_date, p_as_of)),
+        date_trunc('month', p_as_of)
+      )::DATE AS month_start,
+      SUM(GREATEST(soi.quantity - COALESCE(soi.delivered_quantity, 0), 0)) AS quantity
+    FROM sales_order_items soi
+    JOIN sales_orders so ON so.id = soi.sales_order_id
+    WHERE so.status IN ('approved', 'stock_reserved', 'shortage', 'pending_delivery', 'partially_delivered')
+      AND COALESCE(so.is_archived, false) = false
+    GROUP BY 1, 2
+  ),
+  po_due AS (
+    SELECT
+      poi.product_id,
+      GREATEST(
+        date_trunc('month', COALESCE(po.expected_delivery_date, p_as_of)),
+        date_trunc('month', p_as_of)
+      )::DATE AS month_start,
+      SUM(poi.quantity_pending) AS quantity
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.po_id
+    WHERE po.status IN ('approved', 'partially_received')
+      AND poi.quantity_pending > 0
+    GROUP BY 1, 2
+  ),
+  monthly AS (
+    SELECT
+      f.product_id,
+      h.month_start,
+      h.period_start,
+      h.period_end,
+      f.on_hand,
+      ROUND(
+        f.avg_monthly_demand * f.seasonal_index[EXTRACT(MONTH FROM h.month_start)::INTEGER]
+          * (h.period_end - h.period_start + 1)
+          / EXTRACT(DAY FROM h.period_end),
+        2
+      ) AS forecast_qty,
+      COALESCE(sd.quantity, 0) AS so_qty,
+      COALESCE(pd.quantity, 0) AS po_qty
+    FROM forecast f
+    CROSS JOIN horizon h
+    LEFT JOIN so_due sd ON sd.product_id = f.product_id AND sd.month_start = h.month_start
+    LEFT JOIN po_due pd ON pd.product_id = f.product_id AND pd.month_start = h.month_start
+  ),
+  running AS (
+    SELECT
+      m.*,
+      GREATEST(m.forecast_qty, m.so_qty) AS demand_qty,
+      m.on_hand + SUM(m.po_qty - GREATEST(m.forecast_qty, m.so_qty)) OVER (
+        PARTITION BY m.product_id ORDER BY m.month_start
+      ) AS closing_qty
+    FROM monthly m
+  )
+  SELECT
+    r.product_id,
+    r.month_start,
+    r.closing_qty - r.po_qty + r.demand_qty,
+    r.forecast_qty,
+    r.so_qty,
+    r.po_qty,
+    r.closing_qty,
+    CASE
+      WHEN r.closing_qty >= 0 OR r.closing_qty - r.po_qty + r.demand_qty < 0 THEN NULL
+      ELSE r.period_start + FLOOR(
+        GREATEST(r.closing_qty + r.demand_qty, 0) / r.demand_qty * (r.period_end - r.period_start + 1)
+      )::INTEGER
+    END
+  FROM running r
+  ORDER BY r.product_id, r.month_start;
+$$;
+
+-- ============================================
+-- 5. APPLY REORDER POINTS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_reorder_points(p_product_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'sales', 'warehouse')
+  ) THEN
+    RAISE EXCEPTION 'Only admin, sales or warehouse can update minimum stock levels';
+  END IF;
+
+  UPDATE products p
+  SET min_stock_level = f.reorder_point,
+      updated_at = now()
+  FROM get_demand_forecast() f
+  WHERE f.product_id = p.id
+    AND p.id = ANY(p_product_ids)
+    AND p.min_stock_level IS DISTINCT FROM f.reorder_point;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION service_level_z(NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION product_monthly_shipments(DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_demand_forecast(DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_purchase_plan(DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_reorder_points(UUID[]) TO authenticated;
@@ -0,0 +1,417 @@
+/*
+  # Supplier Price Lists and RFQ Comparison
+
+  1. Problem
+    - `product_sources` records who can supply a product and in what grade, but not at what price
+    - Quotations arrive by email and are compared in spreadsheets; the winning price is retyped
+      into the Purchase Order
+
+  2. Changes
+    - `product_source_prices`: price history per product source with Incoterm, currency, MOQ,
+      lead time and validity date
+    - `rfqs` / `rfq_quotes`: a request for quotation for one product and quantity, and the
+      responses received from each supplier
+    - `compare_rfq_quotes()` puts the responses side by side in IDR (at the quote date's exchange
+      rate) and ranks them, flagging expired quotes and quantities below the supplier's MOQ
+    - `award_rfq_quote()` selects the winning quote, records it on the supplier's product source
+      price history (creating the source if the supplier was not one yet) and creates a draft PO
+*/
+
+-- ============================================
+-- 1. PRICE HISTORY PER SOURCE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS product_source_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id UUID NOT NULL REFERENCES product_sources(id) ON DELETE CASCADE,
+  price_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  unit_price NUMERIC(18,4) NOT NULL CHECK (unit_price > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  incoterm TEXT CHECK (incoterm IN ('EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP')),
+  moq NUMERIC(15,3) CHECK (moq IS NULL OR moq > 0),
+  lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  valid_until DATE,
+  rfq_quote_id UUID,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (valid_until IS NULL OR valid_until >= price_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_source_prices_source ON product_source_prices(source_id, price_date DESC);
+
+-- ============================================
+-- 2. REQUESTS FOR QUOTATION
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS rfqs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rfq_number TEXT UNIQUE,
+  rfq_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity NUMERIC(15,3) NOT NULL CHECK (quantity > 0),
+  unit TEXT,
+  required_date DATE,
+  response_due_date DATE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'awarded', 'cancelled')),
+  awarded_quote_id UUID,
+  purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfqs_product ON rfqs(product_id);
+CREATE INDEX IF NOT EXISTS idx_rfqs_status ON rfqs(status);
+
+CREATE TABLE IF NOT EXISTS rfq_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rfq_id UUID NOT NULL REFERENCES rfqs(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  quote_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  quote_reference TEXT,
+  unit_price NUMERIC(18,4) NOT NULL CHECK (unit_price > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  incoterm TEXT CHECK (incoterm IN ('EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP')),
+  moq NUMERIC(15,3) CHECK (moq IS NULL OR moq > 0),
+  lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  valid_until DATE,
+  grade TEXT,
+  payment_terms TEXT,
+  notes TEXT,
+  is_selected BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (rfq_id, supplier_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_quotes_rfq ON rfq_quotes(rfq_id);
+
+ALTER TABLE rfqs
+  DROP CONSTRAINT IF EXISTS rfqs_awarded_quote_id_fkey,
+  ADD CONSTRAINT rfqs_awarded_quote_id_fkey FOREIGN KEY (awarded_quote_id) REFERENCES rfq_quotes(id) ON DELETE SET NULL;
+
+ALTER TABLE product_source_prices
+  DROP CONSTRAINT IF EXISTS product_source_prices_rfq_quote_id_fkey,
+  ADD CONSTRAINT product_source_prices_rfq_quote_id_fkey FOREIGN KEY (rfq_quote_id) REFERENCES rfq_quotes(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 3. RLS, NUMBERING AND AUDIT
+-- ============================================
+
+ALTER TABLE product_source_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rfqs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rfq_quotes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Procurement roles can view source prices" ON product_source_prices;
+CREATE POLICY "Procurement roles can view source prices"
+  ON product_source_prices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Procurement roles can manage source prices" ON product_source_prices;
+CREATE POLICY "Procurement roles can manage source prices"
+  ON product_source_prices FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse'))
+  );
+
+DROP POLICY IF EXISTS "Procurement roles can view RFQs" ON rfqs;
+CREATE POLICY "Procurement roles can view RFQs"
+  ON rfqs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Procurement roles can manage RFQs" ON rfqs;
+CREATE POLICY "Procurement roles can manage RFQs"
+  ON rfqs FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse'))
+  );
+
+DROP POLICY IF EXISTS "Procurement roles can view RFQ quotes" ON rfq_quotes;
+CREATE POLICY "Procurement roles can view RFQ quotes"
+  ON rfq_quotes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse', 'auditor_ca'))
+  );
+
+DROP POLICY IF EXISTS "Procurement roles can manage RFQ quotes" ON rfq_quotes;
+CREATE POLICY "Procurement roles can manage RFQ quotes"
+  ON rfq_quotes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse'))
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse'))
+  );
+
+INSERT INTO document_number_settings (doc_type, label, prefix, padding, start_number, table_name, column_name)
+VALUES ('rfq', 'Request for Quotation', 'RFQ', 4, 1, 'rfqs', 'rfq_number')
+ON CONFLICT (doc_type) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trg_assign_document_number ON rfqs;
+CREATE TRIGGER trg_assign_document_number BEFORE INSERT ON rfqs
+  FOR EACH ROW EXECUTE FUNCTION trg_assign_document_number('rfq', 'rfq_number');
+
+DROP TRIGGER IF EXISTS trg_record_deleted_document_number ON rfqs;
+CREATE TRIGGER trg_record_deleted_document_number AFTER DELETE ON rfqs
+  FOR EACH ROW EXECUTE FUNCTION trg_record_deleted_document_number('rfq', 'rfq_number');
+
+DROP TRIGGER IF EXISTS trg_audit_log ON product_source_prices;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON product_source_prices
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON rfqs;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON rfqs
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+DROP TRIGGER IF EXISTS trg_audit_log ON rfq_quotes;
+CREATE TRIGGER trg_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON rfq_quotes
+  FOR EACH ROW EXECUTE FUNCTION log_audit_event();
+
+-- Quotes are frozen once the RFQ is awarded or cancelled
+CREATE OR REPLACE FUNCTION trg_rfq_quote_guard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM rfqs WHERE id = COALESCE(NEW.rfq_id, OLD.rfq_id);
+
+  -- award_rfq_quote() sets is_selected after the RFQ itself is marked awarded
+  IF v_status <> 'open' AND NOT (TG_OP = 'UPDATE' AND NEW.is_selected AND NOT OLD.is_selected) THEN
+    RAISE EXCEPTION 'Quotes on an % RFQ cannot be changed', v_status;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_rfq_quote_guard ON rfq_quotes;
+CREATE TRIGGER trg_rfq_quote_guard
+  BEFORE INSERT OR UPDATE OR DELETE ON rfq_quotes
+  FOR EACH ROW EXECUTE FUNCTION trg_rfq_quote_guard();
+
+-- ============================================
+-- 4. SIDE-BY-SIDE COMPARISON
+-- ============================================
+
+CREATE OR REPLACE FUNCTION compare_rfq_quotes(p_rfq_id UUID)
+RETURNS TABLE (
+  quote_id UUID,
+  supplier_id UUID,
+  supplier_name TEXT,
+  quote_date DATE,
+  quote_reference TEXT,
+  unit_price NUMERIC,
+  currency TEXT,
+  exchange_rate NUMERIC,
+  unit_price_idr NUMERIC,
+  incoterm TEXT,
+  moq NUMERIC,
+  order_quantity NUMERIC,
+  total_idr NUMERIC,
+  lead_time_days INTEGER,
+  expected_arrival_date DATE,
+  valid_until DATE,
+  grade TEXT,
+  payment_terms TEXT,
+  last_price_idr NUMERIC,
+  price_rank INTEGER,
+  is_expired BOOLEAN,
+  is_selected BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH quotes AS (
+    SELECT
+      q.*,
+      r.quantity AS rfq_quantity,
+      r.product_id,
+      CASE WHEN q.currency = 'IDR' THEN 1 ELSE get_exchange_rate(q.currency, q.quote_date) END AS rate
+    FROM rfq_quotes q
+    JOIN rfqs r ON r.id = q.rfq_id
+    WHERE q.rfq_id = p_rfq_id
+  )
+  SELECT
+    q.id,
+    q.supplier_id,
+    s.company_name::TEXT,
+    q.quote_date,
+    q.quote_reference,
+    q.unit_price,
+    q.currency,
+    q.rate,
+    ROUND(q.unit_price * q.rate, 2),
+    q.incoterm,
+    q.moq,
+    GREATEST(q.rfq_quantity, COALESCE(q.moq, 0)),
+    ROUND(q.unit_price * q.rate * GREATEST(q.rfq_quantity, COALESCE(q.moq, 0)), 2),
+    q.lead_time_days,
+    CASE WHEN q.lead_time_days IS NOT NULL THEN CURRENT_DATE + q.lead_time_days END,
+    q.valid_until,
+    q.grade,
+    q.payment_terms,
+    -- Last price actually paid to this supplier, for context
+    (
+      SELECT ROUND(poi.unit_price * COALESCE(po.exchange_rate, 1), 2)
+      FROM purchase_order_items poi
+      JOIN purchase_orders po ON po.id = poi.po_id
+      WHERE po.supplier_id = q.supplier_id
+        AND poi.product_id = q.product_id
+        AND po.status NOT IN ('draft', 'cancelled')
+      ORDER BY po.po_date DESC, po.created_at DESC
+      LIMIT 1
+    ),
+    (RANK() OVER (ORDER BY q.unit_price * q.rate NULLS LAST))::INTEGER,
+    COALESCE(q.valid_until < CURRENT_DATE, false),
+    q.is_selected
+  FROM quotes q
+  JOIN suppliers s ON s.id = q.supplier_id
+  ORDER BY q.unit_price * q.rate NULLS LAST, s.company_name;
+$$;
+
+-- ============================================
+-- 5. AWARD AND PUSH TO PURCHASE ORDER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION award_rfq_quote(p_quote_id UUID)
+RETURNS TABLE (po_id UUID, po_number TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote rfq_quotes%ROWTYPE;
+  v_rfq rfqs%ROWTYPE;
+  v_product RECORD;
+  v_source_id UUID;
+  v_quantity NUMERIC;
+  v_po_id UUID;
+  v_po_number TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = (SELECT auth.uid()) AND role IN ('admin', 'accounts', 'sales', 'warehouse')
+  ) THEN
+    RAISE EXCEPTION 'Only procurement roles can award quotations';
+  END IF;
+
+  SELECT * INTO v_quote FROM rfq_quotes WHERE id = p_quote_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  SELECT * INTO v_rfq FROM rfqs WHERE id = v_quote.rfq_id FOR UPDATE;
+  IF v_rfq.status <> 'open' THEN
+    RAISE EXCEPTION 'RFQ % is already %', v_rfq.rfq_number, v_rfq.status;
+  END IF;
+
+  IF v_quote.valid_until IS NOT NULL AND v_quote.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This quote expired on %', v_quote.valid_until;
+  END IF;
+
+  SELECT id, product_name, unit INTO v_product FROM products WHERE id = v_rfq.product_id;
+
+  -- Record the price against the supplier's source for this product
+  SELECT ps.id INTO v_source_id
+  FROM product_sources ps
+  LEFT JOIN suppliers sup ON sup.id = v_quote.supplier_id
+  WHERE ps.product_id = v_rfq.product_id
+    AND (ps.supplier_id = v_quote.supplier_id
+      OR (ps.supplier_id IS NULL AND LOWER(TRIM(ps.supplier_name)) = LOWER(TRIM(sup.company_name))))
+  ORDER BY ps.is_preferred DESC, ps.created_at
+  LIMIT 1;
+
+  IF v_source_id IS NULL THEN
+    INSERT INTO product_sources (product_id, supplier_id, supplier_name, grade, moq, lead_time_days, remarks, created_by)
+    SELECT v_rfq.product_id, v_quote.supplier_id, sup.company_name,
+      CASE WHEN v_quote.grade IN ('BP', 'USP', 'EP', 'IP', 'Tech', 'Food Grade', 'Industrial', 'Other') THEN v_quote.grade END,
+      v_quote.moq, v_quote.lead_time_days, 'Added from ' || v_rfq.rfq_number, auth.uid()
+    FROM suppliers sup WHERE sup.id = v_quote.supplier_id
+    RETURNING id INTO v_source_id;
+  ELSE
+    UPDATE product_sources
+    SET moq = COALESCE(v_quote.moq, moq),
+        lead_time_days = COALESCE(v_quote.lead_time_days, lead_time_days),
+        supplier_id = COALESCE(supplier_id, v_quote.supplier_id)
+    WHERE id = v_source_id;
+  END IF;
+
+  INSERT INTO product_source_prices (
+    source_id, price_date, unit_price, currency, incoterm, moq, lead_time_days, valid_until, rfq_quote_id, notes, created_by
+  ) VALUES (
+    v_source_id, v_quote.quote_date, v_quote.unit_price, v_quote.currency, v_quote.incoterm, v_quote.moq,
+    v_quote.lead_time_days, v_quote.valid_until, v_quote.id,
+    'Awarded on ' || v_rfq.rfq_number || COALESCE(' (' || v_quote.quote_reference || ')', ''), auth.uid()
+  );
+
+  UPDATE rfqs
+  SET status = 'awarded', awarded_quote_id = v_quote.id, updated_at = now()
+  WHERE id = v_rfq.id;
+
+  UPDATE rfq_quotes SET is_selected = true WHERE id = v_quote.id;
+
+  v_quantity := GREATEST(v_rfq.quantity, COALESCE(v_quote.moq, 0));
+
+  INSERT INTO purchase_orders (
+    supplier_id, po_date, expected_delivery_date, currency, exchange_rate, status,
+    payment_terms, terms_conditions, notes, subtotal, total_amount, created_by
+  ) VALUES (
+    v_quote.supplier_id,
+    CURRENT_DATE,
+    COALESCE(v_rfq.required_date, CURRENT_DATE + v_quote.lead_time_days),
+    v_quote.currency,
+    CASE WHEN v_quote.currency = 'IDR' THEN 1 ELSE COALESCE(get_exchange_rate(v_quote.currency), 1) END,
+    'draft',
+    v_quote.payment_terms,
+    CASE WHEN v_quote.incoterm IS NOT NULL THEN 'Incoterm: ' || v_quote.incoterm END,
+    'Created from ' || v_rfq.rfq_number || COALESCE(', quote ' || v_quote.quote_reference, ''),
+    ROUND(v_quantity * v_quote.unit_price, 2),
+    ROUND(v_quantity * v_quote.unit_price, 2),
+    auth.uid()
+  )
+  RETURNING id, purchase_orders.po_number INTO v_po_id, v_po_number;
+
+  INSERT INTO purchase_order_items (
+    po_id, line_number, product_id, description, quantity, unit, unit_price, line_total, notes
+  ) VALUES (
+    v_po_id, 1, v_product.id, v_product.product_name, v_quantity, COALESCE(v_rfq.unit, v_product.unit),
+    v_quote.unit_price, ROUND(v_quantity * v_quote.unit_price, 2),
+    CASE WHEN v_quantity > v_rfq.quantity THEN 'RFQ quantity ' || v_rfq.quantity || ' raised to MOQ' END
+  );
+
+  UPDATE rfqs SET purchase_order_id = v_po_id WHERE id = v_rfq.id;
+
+  po_id := v_po_id;
+  po_number := v_po_number;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION compare_rfq_quotes(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION award_rfq_quote(UUID) TO authenticated;
@@ -0,0 +1,274 @@
+/*
+  # Supplier Performance Scorecards
+
+  1. Problem
+    - The supplier master is a plain list; how a supplier actually performs is spread over POs,
+      GRNs, stock rejections and purchase invoices and is never put together
+    - Sources are chosen on habit rather than on delivery and quality record
+
+  2. Changes
+    - `get_supplier_scorecards(from, to, by_month, supplier)` per supplier (and per month when
+      `by_month`), each measure 0-100:
+      * On-time delivery: PO lines due in the period (expected delivery date before today) that
+        were received in full by posted GRNs dated on or before the expected date; days late
+        averaged over lines received late or still open
+      * Rejections: stock rejections (not declined, not for expiry) against batches received in
+        the period, by quantity and by value; every 1% of value rejected costs 10 points
+      * Price variance: invoiced price against the PO line price, weighted by invoiced quantity
+        and compared in IDR when currencies differ (as in `vw_purchase_invoice_match`); every 1%
+        over the PO price costs 10 points, invoicing below it is not rewarded
+      * Documents: share of the supplier's product sources holding both a COA and an MSDS
+        (current state, not period-bound)
+      * Payment terms: share of invoices whose due date gives at least the supplier's agreed
+        `payment_terms_days`
+    - Overall score weights delivery 30, rejections 30, price 15, documents 15, terms 10 over the
+      measures that have data; grade A >= 85, B >= 70, C >= 50, otherwise D
+*/
+
+CREATE OR REPLACE FUNCTION get_supplier_scorecards(
+  p_from DATE,
+  p_to DATE,
+  p_by_month BOOLEAN DEFAULT false,
+  p_supplier_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  supplier_id UUID,
+  supplier_name TEXT,
+  period_start DATE,
+  po_lines_due INTEGER,
+  po_lines_on_time INTEGER,
+  on_time_pct NUMERIC,
+  avg_days_late NUMERIC,
+  received_quantity NUMERIC,
+  rejected_quantity NUMERIC,
+  rejection_qty_pct NUMERIC,
+  received_value NUMERIC,
+  rejected_value NUMERIC,
+  rejection_value_pct NUMERIC,
+  invoiced_lines INTEGER,
+  price_variance_pct NUMERIC,
+  sources_count INTEGER,
+  sources_documented INTEGER,
+  document_pct NUMERIC,
+  invoices_count INTEGER,
+  invoices_terms_honoured INTEGER,
+  terms_pct NUMERIC,
+  score NUMERIC,
+  grade TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH posted_receipts AS (
+    SELECT
+      grn.supplier_id,
+      grn.grn_date,
+      COALESCE(NULLIF(grn.exchange_rate, 0), 1) AS rate,
+      gri.po_item_id,
+      gri.batch_id,
+      gri.quantity_received,
+      gri.unit_cost
+    FROM goods_receipt_items gri
+    JOIN goods_receipt_notes grn ON grn.id = gri.grn_id
+    WHERE grn.status = 'posted'
+      AND (p_supplier_id IS NULL OR grn.supplier_id = p_supplier_id)
+  ),
+  po_lines AS (
+    SELECT
+      po.supplier_id,
+      CASE WHEN p_by_month THEN date_trunc('month', po.expected_delivery_date)::DATE END AS period_start,
+      poi.id,
+      poi.quantity,
+      po.expected_delivery_date,
+      COALESCE(SUM(r.quantity_received) FILTER (WHERE r.grn_date <= po.expected_delivery_date), 0) AS on_time_qty,
+      COALESCE(SUM(r.quantity_received), 0) AS received_qty,
+      MAX(r.grn_date) AS last_receipt_date
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.po_id
+    LEFT JOIN posted_receipts r ON r.po_item_id = poi.id
+    WHERE po.status IN ('approved', 'partially_received', 'received')
+      AND po.expected_delivery_date BETWEEN p_from AND p_to
+      AND po.expected_delivery_date < CURRENT_DATE
+      AND (p_supplier_id IS NULL OR po.supplier_id = p_supplier_id)
+    GROUP BY po.supplier_id, poi.id, poi.quantity, po.expected_delivery_date
+  ),
+  delivery AS (
+    SELECT
+      l.supplier_id,
+      l.period_start,
+      COUNT(*)::INTEGER AS lines_due,
+      (COUNT(*) FILTER (WHERE l.on_time_qty >= l.quantity))::INTEGER AS lines_on_time,
+      AVG(
+        CASE WHEN l.received_qty >= l.quantity THEN l.last_receipt_date ELSE CURRENT_DATE END
+          - l.expected_delivery_date
+      ) FILTER (WHERE l.on_time_qty < l.quantity) AS avg_days_late
+    FROM po_lines l
+    GROUP BY l.supplier_id, l.period_start
+  ),
+  quality AS (
+    SELECT
+      r.supplier_id,
+      CASE WHEN p_by_month THEN date_trunc('month', r.grn_date)::DATE END AS period_start,
+      SUM(r.quantity_received) AS received_qty,
+      SUM(r.quantity_received * r.unit_cost * r.rate) AS received_value,
+      COALESCE(SUM(sr.quantity), 0) AS rejected_qty,
+      COALESCE(SUM(sr.value), 0) AS rejected_value
+    FROM posted_receipts r
+    LEFT JOIN (
+      SELECT s.batch_id, SUM(s.quantity_rejected) AS quantity, SUM(s.quantity_rejected * s.unit_cost) AS value
+      FROM stock_rejections s
+      WHERE s.status <> 'rejected'
+        AND s.rejection_reason <> 'expired'
+      GROUP BY s.batch_id
+    ) sr ON sr.batch_id = r.batch_id
+    WHERE r.grn_date BETWEEN p_from AND p_to
+    GROUP BY r.supplier_id, 2
+  ),
+  invoices AS (
+    SELECT pi.*, s.payment_terms_days
+    FROM purchase_invoices pi
+    JOIN suppliers s ON s.id = pi.supplier_id
+    WHERE pi.status NOT IN ('draft', 'cancelled')
+      AND pi.invoice_date BETWEEN p_from AND p_to
+      AND (p_supplier_id IS NULL OR pi.supplier_id = p_supplier_id)
+  ),
+  pricing AS (
+    SELECT
+      i.supplier_id,
+      CASE WHEN p_by_month THEN date_trunc('month', i.invoice_date)::DATE END AS period_start,
+      COUNT(*)::INTEGER AS lines,
+      SUM((pii.unit_price * inv_rate - poi.line_total / poi.quantity * po_rate) * pii.quantity)
+        / NULLIF(SUM(poi.line_total / poi.quantity * po_rate * pii.quantity), 0) * 100 AS variance_pct
+    FROM invoices i
+    JOIN purchase_invoice_items pii ON pii.purchase_invoice_id = i.id
+    JOIN purchase_order_items poi ON poi.id = pii.po_item_id
+    JOIN purchase_orders po ON po.id = poi.po_id
+    CROSS JOIN LATERAL (
+      SELECT
+        CASE WHEN COALESCE(po.currency, 'IDR') = COALESCE(i.currency, 'IDR') THEN 1
+             ELSE COALESCE(NULLIF(i.exchange_rate, 0), 1) END AS inv_rate,
+        CASE WHEN COALESCE(po.currency, 'IDR') = COALESCE(i.currency, 'IDR') THEN 1
+             ELSE COALESCE(NULLIF(po.exchange_rate, 0), 1) END AS po_rate
+    ) rates
+    WHERE poi.quantity > 0
+    GROUP BY i.supplier_id, 2
+  ),
+  terms AS (
+    SELECT
+      i.supplier_id,
+      CASE WHEN p_by_month THEN date_trunc('month', i.invoice_date)::DATE END AS period_start,
+      COUNT(*)::INTEGER AS invoices,
+      (COUNT(*) FILTER (WHERE i.due_date - i.invoice_date >= COALESCE(i.payment_terms_days, 0)))::INTEGER AS honoured
+    FROM invoices i
+    WHERE i.due_date IS NOT NULL
+    GROUP BY i.supplier_id, 2
+  ),
+  documents AS (
+    SELECT
+      s.id AS supplier_id,
+      COUNT(ps.id)::INTEGER AS sources,
+      (COUNT(ps.id) FILTER (WHERE
+        EXISTS (SELECT 1 FROM product_source_documents d WHERE d.source_id = ps.id AND d.doc_type = 'COA')
+        AND EXISTS (SELECT 1 FROM product_source_documents d WHERE d.source_id = ps.id AND d.doc_type = 'MSDS')
+      ))::INTEGER AS documented
+    FROM suppliers s
+    JOIN product_sources ps
+      ON ps.supplier_id = s.id
+      OR (ps.supplier_id IS NULL AND LOWER(TRIM(ps.supplier_name)) = LOWER(TRIM(s.company_name)))
+    WHERE p_supplier_id IS NULL OR s.id = p_supplier_id
+    GROUP BY s.id
+  ),
+  periods AS (
+    SELECT delivery.supplier_id, delivery.period_start FROM delivery
+    UNION SELECT quality.supplier_id, quality.period_start FROM quality
+    UNION SELECT pricing.supplier_id, pricing.period_start FROM pricing
+    UNION SELECT terms.supplier_id, terms.period_start FROM terms
+    -- Suppliers with documents but no activity still get a scorecard in the summary
+    UNION SELECT documents.supplier_id, NULL::DATE FROM documents WHERE NOT p_by_month
+  ),
+  measures AS (
+    SELECT
+      p.supplier_id,
+      p.period_start,
+      d.lines_due,
+      d.lines_on_time,
+      ROUND(d.lines_on_time * 100.0 / NULLIF(d.lines_due, 0), 1) AS on_time_pct,
+      ROUND(d.avg_days_late, 1) AS avg_days_late,
+      q.received_qty,
+      q.rejected_qty,
+      ROUND(q.rejected_qty * 100 / NULLIF(q.received_qty, 0), 2) AS rejection_qty_pct,
+      ROUND(q.received_value, 2) AS received_value,
+      ROUND(q.rejected_value, 2) AS rejected_value,
+      ROUND(q.rejected_value * 100 / NULLIF(q.received_value, 0), 2) AS rejection_value_pct,
+      pr.lines AS invoiced_lines,
+      ROUND(pr.variance_pct, 2) AS price_variance_pct,
+      doc.sources,
+      doc.documented,
+      ROUND(doc.documented * 100.0 / NULLIF(doc.sources, 0), 1) AS document_pct,
+      t.invoices,
+      t.honoured,
+      ROUND(t.honoured * 100.0 / NULLIF(t.invoices, 0), 1) AS terms_pct
+    FROM periods p
+    LEFT JOIN delivery d ON d.supplier_id = p.supplier_id AND d.period_start IS NOT DISTINCT FROM p.period_start
+    LEFT JOIN quality q ON q.supplier_id = p.supplier_id AND q.period_start IS NOT DISTINCT FROM p.period_start
+    LEFT JOIN pricing pr ON pr.supplier_id = p.supplier_id AND pr.period_start IS NOT DISTINCT FROM p.period_start
+    LEFT JOIN terms t ON t.supplier_id = p.supplier_id AND t.period_start IS NOT DISTINCT FROM p.period_start
+    LEFT JOIN documents doc ON doc.supplier_id = p.supplier_id
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      (
+        COALESCE(0.30 * m.on_time_pct, 0)
+        + COALESCE(0.30 * GREATEST(100 - m.rejection_value_pct * 10, 0), 0)
+        + COALESCE(0.15 * GREATEST(100 - GREATEST(m.price_variance_pct, 0) * 10, 0), 0)
+        + COALESCE(0.15 * m.document_pct, 0)
+        + COALESCE(0.10 * m.terms_pct, 0)
+      ) / NULLIF(
+        CASE WHEN m.on_time_pct IS NOT NULL THEN 0.30 ELSE 0 END
+        + CASE WHEN m.rejection_value_pct IS NOT NULL THEN 0.30 ELSE 0 END
+        + CASE WHEN m.price_variance_pct IS NOT NULL THEN 0.15 ELSE 0 END
+        + CASE WHEN m.document_pct IS NOT NULL THEN 0.15 ELSE 0 END
+        + CASE WHEN m.terms_pct IS NOT NULL THEN 0.10 ELSE 0 END,
+        0
+      ) AS raw_score
+    FROM measures m
+  )
+  SELECT
+    sc.supplier_id,
+    s.company_name::TEXT,
+    sc.period_start,
+    sc.lines_due,
+    sc.lines_on_time,
+    sc.on_time_pct,
+    sc.avg_days_late,
+    sc.received_qty,
+    sc.rejected_qty,
+    sc.rejection_qty_pct,
+    sc.received_value,
+    sc.rejected_value,
+    sc.rejection_value_pct,
+    sc.invoiced_lines,
+    sc.price_variance_pct,
+    sc.sources,
+    sc.documented,
+    sc.document_pct,
+    sc.invoices,
+    sc.honoured,
+    sc.terms_pct,
+    ROUND(sc.raw_score, 1),
+    CASE
+      WHEN sc.raw_score IS NULL THEN NULL
+      WHEN sc.raw_score >= 85 THEN 'A'
+      WHEN sc.raw_score >= 70 THEN 'B'
+      WHEN sc.raw_score >= 50 THEN 'C'
+      ELSE 'D'
+    END
+  FROM scored sc
+  JOIN suppliers s ON s.id = sc.supplier_id
+  ORDER BY s.company_name, sc.period_start;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_supplier_scorecards(DATE, DATE, BOOLEAN, UUID) TO authenticated;
@@ -0,0 +1,73 @@
+/*
+  # Atomic Payment Voucher Creation
+
+  1. Problem
+    - The payment screen inserts the voucher, then each allocation, then updates the invoice's
+      paid amount, as separate requests without checking the allocation result
+    - When `trg_block_unmatched_invoice_payment` rejects an allocation (three-way match variance
+      awaiting approval), the voucher and its journal stay posted and the invoice is still marked
+      paid / partial, so the block is bypassed
+
+  2. Changes
+    - `create_payment_voucher_atomic(voucher, allocations)` - inserts the voucher, its allocations
+      and the invoice paid amount / status in one transaction. Any allocation that is refused
+      rolls back the whole voucher
+    - Runs as the caller, so the payment voucher and allocation RLS policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION create_payment_voucher_atomic(
+  p_voucher JSONB,
+  p_allocations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_voucher payment_vouchers%ROWTYPE;
+  v_alloc RECORD;
+BEGIN
+  -- voucher_number is assigned by the numbering trigger, the journal by trg_post_payment_voucher
+  INSERT INTO payment_vouchers (
+    voucher_date, supplier_id, payment_method, bank_account_id, reference_number,
+    currency, exchange_rate, amount, pph_amount, pph_code_id, pph_base_amount,
+    description, created_by
+  ) VALUES (
+    (p_voucher->>'voucher_date')::DATE,
+    (p_voucher->>'supplier_id')::UUID,
+    p_voucher->>'payment_method',
+    NULLIF(p_voucher->>'bank_account_id', '')::UUID,
+    NULLIF(p_voucher->>'reference_number', ''),
+    COALESCE(p_voucher->>'currency', 'IDR'),
+    COALESCE((p_voucher->>'exchange_rate')::NUMERIC, 1),
+    (p_voucher->>'amount')::NUMERIC,
+    COALESCE((p_voucher->>'pph_amount')::NUMERIC, 0),
+    NULLIF(p_voucher->>'pph_code_id', '')::UUID,
+    (p_voucher->>'pph_base_amount')::NUMERIC,
+    NULLIF(p_voucher->>'description', ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_voucher;
+
+  FOR v_alloc IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb))
+      AS a(purchase_invoice_id UUID, allocated_amount NUMERIC)
+  LOOP
+    -- Raises for an invoice with an unapproved three-way match variance
+    INSERT INTO voucher_allocations (voucher_type, payment_voucher_id, purchase_invoice_id, allocated_amount)
+    VALUES ('payment', v_voucher.id, v_alloc.purchase_invoice_id, v_alloc.allocated_amount);
+
+    UPDATE purchase_invoices
+    SET paid_amount = COALESCE(paid_amount, 0) + v_alloc.allocated_amount,
+        status = CASE
+          WHEN total_amount - (COALESCE(paid_amount, 0) + v_alloc.allocated_amount) <= 0 THEN 'paid'
+          ELSE 'partial'
+        END
+    WHERE id = v_alloc.purchase_invoice_id;
+  END LOOP;
+
+  RETURN to_jsonb(v_voucher);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_payment_voucher_atomic(JSONB, JSONB) TO authenticated;